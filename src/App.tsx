@@ -1,5 +1,6 @@
 import React, { useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { Navigate, Route, Routes, useLocation } from "react-router-dom";
 import { AuthScreen } from "./components/Auth/AuthScreen";
 
 import { TopBar } from "./components/Layout/TopBar";
@@ -15,9 +16,12 @@ import { OtherUserCollectiblesScreen } from "./components/Screens/OtherUserColle
 import { AdminPanel } from "./components/Admin/AdminPanel";
 import { SpaceMap } from "./components/Game/SpaceMap";
 import { PlanetScreen } from "./components/Screens/PlanetScreen";
+import { QuestLogScreen } from "./components/Screens/QuestLogScreen";
 import { useAuthStore } from "./store/authStore";
 import { useGameStore } from "./store/gameStore";
 import { preloadAllSounds } from "./utils/soundManager";
+import { paths } from "./utils/routes";
+import { useLocaleStore, useTranslation } from "./i18n";
 
 // Componente para pré-carregar recursos de áudio
 const AudioPreloader: React.FC = () => {
@@ -33,10 +37,35 @@ const AudioPreloader: React.FC = () => {
   return null; // Componente não renderiza nada
 };
 
+const WorldScreen: React.FC = () => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="bg-white rounded-3xl shadow-xl p-4 min-h-[80vh]">
+        <h1 className="text-2xl font-bold text-gray-800 mb-4 text-center">
+          {t("world.title")}
+        </h1>
+        <div className="w-full h-[70vh] relative">
+          <SpaceMap />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Non-admins who open an admin link land on their profile instead
+const RequireAdmin: React.FC<{ children: React.ReactElement }> = ({
+  children,
+}) => {
+  const isAdmin = useAuthStore((state) => state.user?.isAdmin);
+  return isAdmin ? children : <Navigate to={paths.profile()} replace />;
+};
+
 function App() {
+  const location = useLocation();
   const { isAuthenticated, user: authUser, initializeAuth } = useAuthStore();
   const {
-    currentScreen,
     user: gameUser,
     setUser,
     initializeNewUser,
@@ -44,6 +73,7 @@ function App() {
     subscribeToRealtimeUpdates,
     unsubscribeFromRealtimeUpdates,
   } = useGameStore();
+  const { locale, setLocale } = useLocaleStore();
 
   // Initialize authentication on app start
   useEffect(() => {
@@ -92,8 +122,18 @@ function App() {
     authUser?.id,
     authUser?.accountScore,
     authUser?.daysPlayed,
+    authUser?.language,
   ]);
 
+  // The interface speaks the signed-in player's language
+  useEffect(() => {
+    if (authUser?.language) setLocale(authUser.language);
+  }, [authUser?.language, setLocale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
   // Cleanup subscriptions on unmount
   useEffect(() => {
     return () => {
@@ -103,49 +143,12 @@ function App() {
     };
   }, [isAuthenticated]);
 
-  // Show auth screen if not authenticated
+  // Every route requires a session. The URL is left untouched, so a deep
+  // link opens its screen right after login.
   if (!isAuthenticated) {
     return <AuthScreen />;
   }
 
-  const renderScreen = () => {
-    switch (currentScreen) {
-      case "pet":
-        return <PetScreen />;
-      case "world":
-        return (
-          <div className="max-w-4xl mx-auto">
-            <div className="bg-white rounded-3xl shadow-xl p-4 min-h-[80vh]">
-              <h1 className="text-2xl font-bold text-gray-800 mb-4 text-center">
-                Mapa Galáctico
-              </h1>
-              <div className="w-full h-[70vh] relative">
-                <SpaceMap />
-              </div>
-            </div>
-          </div>
-        );
-      case "store":
-        return <StoreScreen />;
-      case "inventory":
-        return <InventoryScreen />;
-      case "profile":
-        return <ProfileScreen />;
-      case "admin":
-        return gameUser?.isAdmin ? <AdminPanel /> : <ProfileScreen />;
-      case "otherUserInventory":
-        return <OtherUserInventoryScreen />;
-      case "otherUserAchievements":
-        return <OtherUserAchievementsScreen />;
-      case "otherUserCollectibles":
-        return <OtherUserCollectiblesScreen />;
-      case "planet":
-        return <PlanetScreen />;
-      default:
-        return <PetScreen />;
-    }
-  };
-
   const pageVariants = {
     initial: { opacity: 0, y: 20 },
     in: { opacity: 1, y: 0 },
@@ -168,14 +171,44 @@ function App() {
       <main className="pt-20 pb-24 px-4 min-h-screen">
         <AnimatePresence mode="wait">
           <motion.div
-            key={currentScreen}
+            key={location.pathname}
             initial="initial"
             animate="in"
             exit="out"
             variants={pageVariants}
             transition={pageTransition}
           >
-            {renderScreen()}
+            <Routes location={location}>
+              <Route path={paths.pet()} element={<PetScreen />} />
+              <Route path={paths.world()} element={<WorldScreen />} />
+              <Route path="/planet/:worldId" element={<PlanetScreen />} />
+              <Route path={paths.store()} element={<StoreScreen />} />
+              <Route path="/store/:storeId" element={<StoreScreen />} />
+              <Route path={paths.inventory()} element={<InventoryScreen />} />
+              <Route path={paths.profile()} element={<ProfileScreen />} />
+              <Route path={paths.quests()} element={<QuestLogScreen />} />
+              <Route
+                path={paths.admin()}
+                element={
+                  <RequireAdmin>
+                    <AdminPanel />
+                  </RequireAdmin>
+                }
+              />
+              <Route
+                path="/players/:userId/inventory"
+                element={<OtherUserInventoryScreen />}
+              />
+              <Route
+                path="/players/:userId/achievements"
+                element={<OtherUserAchievementsScreen />}
+              />
+              <Route
+                path="/players/:userId/collectibles"
+                element={<OtherUserCollectiblesScreen />}
+              />
+              <Route path="*" element={<Navigate to={paths.pet()} replace />} />
+            </Routes>
           </motion.div>
         </AnimatePresence>
       </main>
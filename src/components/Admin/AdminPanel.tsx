@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Shield,
@@ -17,15 +17,19 @@ import {
   Eye,
   EyeOff,
   Calendar,
+  Megaphone,
 } from "lucide-react";
 import { useGameStore } from "../../store/gameStore";
 import { RedeemCode } from "../../types/game";
+import { UserLedgerPanel } from "./UserLedgerPanel";
+import { RedeemCampaignsPanel } from "./RedeemCampaignsPanel";
 
 export const AdminPanel: React.FC = () => {
   const {
     user,
     getAllRedeemCodes,
     getActiveRedeemCodes,
+    loadRedeemCodes,
     createRedeemCode,
     updateRedeemCode,
     deleteRedeemCode,
@@ -51,6 +55,10 @@ export const AdminPanel: React.FC = () => {
     isActive: true,
   });
 
+  useEffect(() => {
+    loadRedeemCodes();
+  }, [user?.isAdmin, loadRedeemCodes]);
+
   // Check if user is admin
   if (!user?.isAdmin) {
     return (
@@ -73,7 +81,7 @@ export const AdminPanel: React.FC = () => {
   const allCodes = getAllRedeemCodes();
   const activeCodes = getActiveRedeemCodes();
 
-  const handleCreateCode = () => {
+  const handleCreateCode = async () => {
     if (!newCodeData.code.trim() || !newCodeData.name.trim()) {
       addNotification({
         type: "error",
@@ -106,16 +114,18 @@ export const AdminPanel: React.FC = () => {
         : undefined,
     };
 
-    createRedeemCode(codeToCreate);
-    setShowCreateCodeModal(false);
-    resetNewCodeData();
+    if (await createRedeemCode(codeToCreate)) {
+      setShowCreateCodeModal(false);
+      resetNewCodeData();
+    }
   };
 
-  const handleUpdateCode = () => {
+  const handleUpdateCode = async () => {
     if (!editingCode) return;
 
-    updateRedeemCode(editingCode.id, editingCode);
-    setEditingCode(null);
+    if (await updateRedeemCode(editingCode.id, editingCode)) {
+      setEditingCode(null);
+    }
   };
 
   const handleDeleteCode = (codeId: string) => {
@@ -167,6 +177,7 @@ export const AdminPanel: React.FC = () => {
       icon: Ticket,
       count: allCodes.length,
     },
+    { id: "campaigns", name: "Campanhas", icon: Megaphone, count: 0 },
     { id: "users", name: "Usuários", icon: Users, count: 0 },
     { id: "items", name: "Itens", icon: Package, count: 0 },
     { id: "achievements", name: "Conquistas", icon: Trophy, count: 0 },
@@ -423,14 +434,8 @@ export const AdminPanel: React.FC = () => {
 
         <div className="p-6">
           {activeTab === "codes" && renderCodesTab()}
-          {activeTab === "users" && (
-            <div className="text-center py-8">
-              <Users className="w-12 h-12 text-gray-400 mx-auto mb-3" />
-              <p className="text-gray-600">
-                Gerenciamento de usuários em desenvolvimento.
-              </p>
-            </div>
-          )}
+          {activeTab === "campaigns" && <RedeemCampaignsPanel />}
+          {activeTab === "users" && <UserLedgerPanel />}
           {activeTab === "items" && (
             <div className="text-center py-8">
               <Package className="w-12 h-12 text-gray-400 mx-auto mb-3" />
@@ -0,0 +1,577 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Ban,
+  Download,
+  Megaphone,
+  Plus,
+  RefreshCw,
+  Upload,
+} from "lucide-react";
+import { useGameStore } from "../../store/gameStore";
+import { gameService } from "../../services/gameService";
+import { RedeemCampaign, RedeemCampaignCode } from "../../types/game";
+import {
+  DEFAULT_CODE_CHARSET,
+  DEFAULT_CODE_PATTERN,
+  generateRedeemCodes,
+  getPatternCapacity,
+  parseCodesCsv,
+  toCsv,
+  validateCodePattern,
+} from "../../utils/redeemCodes";
+
+type CampaignCodeStatus = "available" | "redeemed" | "revoked" | "expired";
+
+// Generation retries when the server skips codes that already exist
+const MAX_TOP_UP_ATTEMPTS = 3;
+
+const REPORT_LIMIT = 50;
+
+const getCodeStatus = (code: RedeemCampaignCode): CampaignCodeStatus => {
+  if (code.redeemedAt) return "redeemed";
+  if (code.revokedAt || !code.isActive) return "revoked";
+  if (code.expiresAt && code.expiresAt <= new Date()) return "expired";
+  return "available";
+};
+
+const downloadFile = (fileName: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const emptyCampaignForm = () => ({
+  name: "",
+  description: "",
+  xenocoins: 0,
+  cash: 0,
+  accountPoints: 0,
+  items: "",
+  expiresAt: "",
+  pattern: DEFAULT_CODE_PATTERN,
+  charset: DEFAULT_CODE_CHARSET,
+  count: 100,
+});
+
+export const RedeemCampaignsPanel: React.FC = () => {
+  const { addNotification } = useGameStore();
+  const [campaigns, setCampaigns] = useState<RedeemCampaign[]>([]);
+  const [selectedCampaign, setSelectedCampaign] =
+    useState<RedeemCampaign | null>(null);
+  const [campaignCodes, setCampaignCodes] = useState<RedeemCampaignCode[]>([]);
+  const [isLoadingCodes, setIsLoadingCodes] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [form, setForm] = useState(emptyCampaignForm);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const patternError = validateCodePattern(
+    form.pattern,
+    form.charset,
+    form.count,
+  );
+
+  const notify = (success: boolean, message: string) =>
+    addNotification({
+      type: success ? "success" : "error",
+      title: success ? "Campanhas" : "Erro",
+      message,
+      isRead: false,
+    });
+
+  const loadCampaigns = useCallback(async () => {
+    const loaded = await gameService.getRedeemCampaigns();
+    setCampaigns(loaded);
+    setSelectedCampaign((current) =>
+      current
+        ? loaded.find((campaign) => campaign.id === current.id) || null
+        : null,
+    );
+  }, []);
+
+  const loadCampaignCodes = useCallback(async (campaignId: string) => {
+    setIsLoadingCodes(true);
+    setCampaignCodes(await gameService.getRedeemCampaignCodes(campaignId));
+    setIsLoadingCodes(false);
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  // Reloading the campaigns replaces the selected one, so codes follow its id
+  const selectedCampaignId = selectedCampaign?.id;
+  useEffect(() => {
+    if (selectedCampaignId) {
+      loadCampaignCodes(selectedCampaignId);
+    } else {
+      setCampaignCodes([]);
+    }
+  }, [selectedCampaignId, loadCampaignCodes]);
+
+  const handleCreateCampaign = async () => {
+    if (!form.name.trim() || patternError) {
+      notify(false, patternError || "O nome da campanha é obrigatório");
+      return;
+    }
+
+    setIsWorking(true);
+
+    const items = form.items
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+    const rewards = {
+      ...(form.xenocoins > 0 && { xenocoins: form.xenocoins }),
+      ...(form.cash > 0 && { cash: form.cash }),
+      ...(form.accountPoints > 0 && { accountPoints: form.accountPoints }),
+      ...(items.length > 0 && { items }),
+    };
+
+    const generated = generateRedeemCodes(
+      form.pattern,
+      form.charset,
+      form.count,
+    );
+    const result = await gameService.createRedeemCampaign(
+      {
+        name: form.name.trim(),
+        description: form.description.trim(),
+        rewards,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt) : undefined,
+        codePattern: form.pattern.toUpperCase(),
+      },
+      generated,
+    );
+
+    let { created, skipped } = result;
+    const usedCodes = new Set(generated);
+
+    // Replace codes the server skipped because they already existed
+    for (
+      let attempt = 0;
+      result.success && skipped > 0 && attempt < MAX_TOP_UP_ATTEMPTS;
+      attempt++
+    ) {
+      const extra = generateRedeemCodes(
+        form.pattern,
+        form.charset,
+        skipped,
+        usedCodes,
+      );
+      extra.forEach((code) => usedCodes.add(code));
+
+      const added = await gameService.addRedeemCampaignCodes(
+        result.campaignId!,
+        extra,
+      );
+      if (!added.success) break;
+      created += added.created;
+      skipped = added.skipped;
+    }
+
+    setIsWorking(false);
+
+    if (!result.success) {
+      notify(false, result.message);
+      return;
+    }
+
+    notify(true, `Campanha criada com ${created} código(s)`);
+    setForm(emptyCampaignForm());
+    setShowCreateForm(false);
+    await loadCampaigns();
+  };
+
+  const handleExport = () => {
+    if (!selectedCampaign) return;
+
+    const rows = campaignCodes.map((code) => [
+      code.code,
+      getCodeStatus(code),
+      code.redeemedByUsername || code.redeemedBy || "",
+      code.redeemedAt?.toISOString() || "",
+    ]);
+
+    downloadFile(
+      `${selectedCampaign.name.replace(/\W+/g, "_")}_codes.csv`,
+      toCsv(["code", "status", "redeemed_by", "redeemed_at"], rows),
+    );
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !selectedCampaign) return;
+
+    const codes = parseCodesCsv(await file.text());
+    if (codes.length === 0) {
+      notify(false, "Nenhum código encontrado no arquivo");
+      return;
+    }
+
+    setIsWorking(true);
+    const result = await gameService.addRedeemCampaignCodes(
+      selectedCampaign.id,
+      codes,
+    );
+    setIsWorking(false);
+
+    notify(
+      result.success,
+      result.success
+        ? `${result.created} código(s) importado(s), ${result.skipped} já existente(s)`
+        : result.message,
+    );
+    await loadCampaigns();
+    await loadCampaignCodes(selectedCampaign.id);
+  };
+
+  const handleRevoke = async () => {
+    if (
+      !selectedCampaign ||
+      !confirm("Revogar todos os códigos não utilizados desta campanha?")
+    ) {
+      return;
+    }
+
+    setIsWorking(true);
+    const result = await gameService.revokeRedeemCampaignCodes(
+      selectedCampaign.id,
+    );
+    setIsWorking(false);
+
+    notify(result.success, result.message);
+    await loadCampaigns();
+    await loadCampaignCodes(selectedCampaign.id);
+  };
+
+  const redeemedCodes = campaignCodes
+    .filter((code) => code.redeemedAt)
+    .sort((a, b) => b.redeemedAt!.getTime() - a.redeemedAt!.getTime());
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-3xl shadow-xl p-6 border border-gray-100">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">Campanhas</h3>
+            <p className="text-gray-600">
+              Lotes de códigos de uso único com recompensas em comum
+            </p>
+          </div>
+          <motion.button
+            onClick={() => setShowCreateForm(!showCreateForm)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-xl hover:from-green-700 hover:to-blue-700 transition-all font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            <Plus className="w-5 h-5" />
+            <span>Nova Campanha</span>
+          </motion.button>
+        </div>
+
+        {showCreateForm && (
+          <div className="space-y-4 p-4 bg-gray-50 rounded-2xl border border-gray-200">
+            <div className="grid grid-cols-2 gap-4">
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Nome da campanha"
+                className="px-3 py-2 border border-gray-300 rounded-xl"
+              />
+              <input
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) =>
+                  setForm({ ...form, expiresAt: e.target.value })
+                }
+                className="px-3 py-2 border border-gray-300 rounded-xl"
+              />
+            </div>
+            <textarea
+              value={form.description}
+              onChange={(e) =>
+                setForm({ ...form, description: e.target.value })
+              }
+              placeholder="Descrição"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-xl"
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <label className="text-sm text-gray-700">
+                Xenocoins
+                <input
+                  type="number"
+                  min={0}
+                  value={form.xenocoins}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      xenocoins: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Cash
+                <input
+                  type="number"
+                  min={0}
+                  value={form.cash}
+                  onChange={(e) =>
+                    setForm({ ...form, cash: parseInt(e.target.value) || 0 })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Pontos de conta
+                <input
+                  type="number"
+                  min={0}
+                  value={form.accountPoints}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      accountPoints: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl"
+                />
+              </label>
+            </div>
+            <input
+              type="text"
+              value={form.items}
+              onChange={(e) => setForm({ ...form, items: e.target.value })}
+              placeholder="Itens (IDs ou slugs separados por vírgula)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-xl"
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <label className="text-sm text-gray-700">
+                Padrão (# = caractere aleatório)
+                <input
+                  type="text"
+                  value={form.pattern}
+                  onChange={(e) =>
+                    setForm({ ...form, pattern: e.target.value.toUpperCase() })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl font-mono"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Caracteres
+                <input
+                  type="text"
+                  value={form.charset}
+                  onChange={(e) =>
+                    setForm({ ...form, charset: e.target.value.toUpperCase() })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl font-mono"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Quantidade
+                <input
+                  type="number"
+                  min={1}
+                  value={form.count}
+                  onChange={(e) =>
+                    setForm({ ...form, count: parseInt(e.target.value) || 0 })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-xl"
+                />
+              </label>
+            </div>
+
+            <p
+              className={`text-xs ${patternError ? "text-red-600" : "text-gray-500"}`}
+            >
+              {patternError ||
+                `Exemplo: ${generateRedeemCodes(form.pattern, form.charset, 1)[0]} · ${getPatternCapacity(form.pattern, form.charset).toLocaleString()} combinações possíveis`}
+            </p>
+
+            <motion.button
+              onClick={handleCreateCampaign}
+              disabled={isWorking || !!patternError || !form.name.trim()}
+              className="w-full py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-xl font-semibold disabled:opacity-50"
+              whileHover={{ scale: 1.01 }}
+              whileTap={{ scale: 0.99 }}
+            >
+              {isWorking ? "Gerando códigos..." : "Criar Campanha"}
+            </motion.button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-xl p-6 border border-gray-100">
+        {campaigns.length === 0 ? (
+          <div className="text-center py-8">
+            <Megaphone className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">Nenhuma campanha criada ainda.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {campaigns.map((campaign) => (
+              <button
+                key={campaign.id}
+                onClick={() => setSelectedCampaign(campaign)}
+                className={`w-full p-4 rounded-2xl border-2 text-left transition-all ${
+                  selectedCampaign?.id === campaign.id
+                    ? "border-blue-300 bg-blue-50"
+                    : "border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-bold text-gray-900">{campaign.name}</p>
+                    <p className="text-xs text-gray-500 font-mono">
+                      {campaign.codePattern}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm text-gray-600">
+                    <p>
+                      {campaign.stats.redeemed}/{campaign.stats.total}{" "}
+                      resgatados
+                    </p>
+                    {campaign.expiresAt && (
+                      <p className="text-xs">
+                        Expira em{" "}
+                        {campaign.expiresAt.toLocaleDateString("pt-BR")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedCampaign && (
+        <div className="bg-white rounded-3xl shadow-xl p-6 border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-lg font-bold text-gray-900">
+              Relatório: {selectedCampaign.name}
+            </h4>
+            <div className="flex space-x-2">
+              <motion.button
+                onClick={() => loadCampaignCodes(selectedCampaign.id)}
+                disabled={isLoadingCodes}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+              >
+                <RefreshCw className="w-4 h-4 text-gray-600" />
+              </motion.button>
+              <motion.button
+                onClick={handleExport}
+                disabled={isLoadingCodes || campaignCodes.length === 0}
+                className="flex items-center space-x-1 px-3 py-2 bg-blue-100 text-blue-700 rounded-xl text-sm font-medium disabled:opacity-50"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Download className="w-4 h-4" />
+                <span>Exportar CSV</span>
+              </motion.button>
+              <motion.button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isWorking}
+                className="flex items-center space-x-1 px-3 py-2 bg-green-100 text-green-700 rounded-xl text-sm font-medium disabled:opacity-50"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Upload className="w-4 h-4" />
+                <span>Importar CSV</span>
+              </motion.button>
+              <motion.button
+                onClick={handleRevoke}
+                disabled={isWorking || selectedCampaign.stats.available === 0}
+                className="flex items-center space-x-1 px-3 py-2 bg-red-100 text-red-700 rounded-xl text-sm font-medium disabled:opacity-50"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Ban className="w-4 h-4" />
+                <span>Revogar não usados</span>
+              </motion.button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div className="text-center p-3 bg-blue-50 rounded-xl border border-blue-200">
+              <p className="text-2xl font-bold text-blue-800">
+                {selectedCampaign.stats.total.toLocaleString()}
+              </p>
+              <p className="text-xs text-blue-600">Total</p>
+            </div>
+            <div className="text-center p-3 bg-green-50 rounded-xl border border-green-200">
+              <p className="text-2xl font-bold text-green-800">
+                {selectedCampaign.stats.redeemed.toLocaleString()}
+              </p>
+              <p className="text-xs text-green-600">Resgatados</p>
+            </div>
+            <div className="text-center p-3 bg-purple-50 rounded-xl border border-purple-200">
+              <p className="text-2xl font-bold text-purple-800">
+                {selectedCampaign.stats.available.toLocaleString()}
+              </p>
+              <p className="text-xs text-purple-600">Disponíveis</p>
+            </div>
+            <div className="text-center p-3 bg-red-50 rounded-xl border border-red-200">
+              <p className="text-2xl font-bold text-red-800">
+                {selectedCampaign.stats.revoked.toLocaleString()}
+              </p>
+              <p className="text-xs text-red-600">Revogados</p>
+            </div>
+          </div>
+
+          {isLoadingCodes ? (
+            <p className="text-center text-gray-500 py-4">Carregando...</p>
+          ) : redeemedCodes.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">
+              Nenhum código resgatado ainda.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {redeemedCodes.slice(0, REPORT_LIMIT).map((code) => (
+                <div
+                  key={code.id}
+                  className="flex items-center justify-between py-2 text-sm"
+                >
+                  <span className="font-mono text-gray-900">{code.code}</span>
+                  <span className="text-gray-600">
+                    {code.redeemedByUsername || code.redeemedBy}
+                  </span>
+                  <span className="text-gray-500">
+                    {code.redeemedAt!.toLocaleString("pt-BR")}
+                  </span>
+                </div>
+              ))}
+              {redeemedCodes.length > REPORT_LIMIT && (
+                <p className="text-xs text-gray-500 pt-2">
+                  Mostrando {REPORT_LIMIT} de {redeemedCodes.length} resgates.
+                  Exporte o CSV para a lista completa.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { Search, Users, Coins, DollarSign } from "lucide-react";
+import { useGameStore } from "../../store/gameStore";
+import { gameService } from "../../services/gameService";
+import { User } from "../../types/game";
+import { CurrencyStatement } from "../Ledger/CurrencyStatement";
+
+export const UserLedgerPanel: React.FC = () => {
+  const { addNotification } = useGameStore();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<User[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [adjustCurrency, setAdjustCurrency] = useState<"xenocoins" | "cash">(
+    "xenocoins",
+  );
+  const [adjustAmount, setAdjustAmount] = useState(0);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  // Remounts the statement so it reloads after an adjustment
+  const [statementVersion, setStatementVersion] = useState(0);
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) return;
+
+    setIsSearching(true);
+    setSearchResults(await gameService.searchPlayers(searchQuery.trim()));
+    setIsSearching(false);
+  };
+
+  const handleAdjust = async () => {
+    if (!selectedUser || adjustAmount === 0) return;
+
+    setIsAdjusting(true);
+    const result = await gameService.adminAdjustCurrency(
+      selectedUser.id,
+      adjustCurrency,
+      adjustAmount,
+    );
+    setIsAdjusting(false);
+
+    addNotification({
+      type: result.success ? "success" : "error",
+      title: result.success ? "Saldo ajustado" : "Erro",
+      message: result.message,
+      isRead: false,
+    });
+
+    if (result.success) {
+      setAdjustAmount(0);
+      setStatementVersion((version) => version + 1);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          placeholder="Buscar usuário..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-red-500 focus:border-transparent"
+        />
+        <motion.button
+          onClick={handleSearch}
+          disabled={isSearching}
+          className="px-4 py-2 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors disabled:opacity-50"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          <Search className="w-5 h-5" />
+        </motion.button>
+      </div>
+
+      {searchResults.length > 0 && (
+        <div className="space-y-2">
+          {searchResults.map((player) => (
+            <button
+              key={player.id}
+              onClick={() => setSelectedUser(player)}
+              className={`w-full flex items-center justify-between p-3 rounded-xl border-2 transition-all text-left ${
+                selectedUser?.id === player.id
+                  ? "border-red-300 bg-red-50"
+                  : "border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              <span className="font-medium text-gray-900">
+                {player.username}
+              </span>
+              <span className="text-xs text-gray-500">{player.id}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selectedUser ? (
+        <div className="space-y-4">
+          <div className="p-4 bg-gray-50 rounded-2xl border border-gray-200">
+            <h4 className="font-bold text-gray-900 mb-3">
+              Ajustar saldo de {selectedUser.username}
+            </h4>
+            <div className="flex space-x-2">
+              <select
+                value={adjustCurrency}
+                onChange={(e) =>
+                  setAdjustCurrency(e.target.value as "xenocoins" | "cash")
+                }
+                className="px-3 py-2 border border-gray-300 rounded-xl"
+              >
+                <option value="xenocoins">Xenocoins</option>
+                <option value="cash">Cash</option>
+              </select>
+              <input
+                type="number"
+                value={adjustAmount}
+                onChange={(e) => setAdjustAmount(parseInt(e.target.value) || 0)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-xl"
+              />
+              <motion.button
+                onClick={handleAdjust}
+                disabled={isAdjusting || adjustAmount === 0}
+                className="flex items-center space-x-1 px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-xl font-semibold disabled:opacity-50"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                {adjustCurrency === "xenocoins" ? (
+                  <Coins className="w-4 h-4" />
+                ) : (
+                  <DollarSign className="w-4 h-4" />
+                )}
+                <span>Aplicar</span>
+              </motion.button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Valores negativos removem saldo. O ajuste fica registrado no
+              extrato.
+            </p>
+          </div>
+
+          <CurrencyStatement
+            key={`${selectedUser.id}-${statementVersion}`}
+            userId={selectedUser.id}
+          />
+        </div>
+      ) : (
+        <div className="text-center py-8">
+          <Users className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+          <p className="text-gray-600">Busque um usuário para ver o extrato.</p>
+        </div>
+      )}
+    </div>
+  );
+};
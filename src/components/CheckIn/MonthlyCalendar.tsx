@@ -2,6 +2,12 @@ import React, { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { X, Calendar, Gift, Star, Crown, Gem, Trophy } from "lucide-react";
 import { useGameStore } from "../../store/gameStore";
+import {
+  getCheckinReward,
+  parseUtcDateKey,
+  toUtcDateKey,
+} from "../../utils/checkinRewards";
+import { useTranslation } from "../../i18n";
 
 interface DailyReward {
   day: number;
@@ -9,6 +15,7 @@ interface DailyReward {
   amount?: number;
   item?: string;
   icon: string;
+  weeklyBonus: boolean;
   claimed: boolean;
   available: boolean;
 }
@@ -20,7 +27,6 @@ interface MonthlyCalendarProps {
 export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
   onClose,
 }) => {
-  const currentDate = new Date();
   const [selectedDay, setSelectedDay] = useState<number | null>(null);
   const [claimingDay, setClaimingDay] = useState<number | null>(null);
 
@@ -28,27 +34,33 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
     dailyCheckin,
     canClaimDailyCheckin,
     getDailyCheckinStreak,
+    checkinStatus,
     addNotification,
-    updateCurrency,
-    user,
   } = useGameStore();
+  const { t, formatDate, formatNumber } = useTranslation();
+
+  // Check-in days are UTC days; the server decides which day is today
+  const currentDate = checkinStatus
+    ? parseUtcDateKey(checkinStatus.today)
+    : new Date();
 
   // Get current month and year
-  const currentMonth = currentDate.getMonth();
-  const currentYear = currentDate.getFullYear();
-  const today = new Date().getDate();
-  const todayMonth = new Date().getMonth();
-  const todayYear = new Date().getFullYear();
+  const currentMonth = currentDate.getUTCMonth();
+  const currentYear = currentDate.getUTCFullYear();
+  const today = currentDate.getUTCDate();
 
-  // Check if we're viewing current month
-  const isCurrentMonth =
-    currentMonth === todayMonth && currentYear === todayYear;
+  // The calendar always shows the current month
+  const isCurrentMonth = true;
 
   // Days in current month
-  const daysInMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
+  const daysInMonth = new Date(
+    Date.UTC(currentYear, currentMonth + 1, 0),
+  ).getUTCDate();
 
   // First day of month (0 = Sunday, 1 = Monday, etc.)
-  const firstDayOfMonth = new Date(currentYear, currentMonth, 1).getDay();
+  const firstDayOfMonth = new Date(
+    Date.UTC(currentYear, currentMonth, 1),
+  ).getUTCDay();
 
   // Generate calendar grid
   const calendarDays = [];
@@ -65,79 +77,67 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
 
   // Generate rewards for each day
   const generateDailyReward = (day: number): DailyReward => {
-    // Get the day of week for this specific day (0 = Sunday, 1 = Monday, etc.)
-    const dayOfWeek = new Date(currentYear, currentMonth, day).getDay();
-
-    let reward;
-
-    if (dayOfWeek === 0) {
-      // Sunday: 1 Xenocash
-      reward = {
-        type: "cash" as const,
-        amount: 1,
-        icon: "https://cdn.builder.io/api/v1/image/assets%2Fc013caa4db474e638dc2961a6085b60a%2F38a7eab3791441c7bc853afba8904317?format=webp&width=800",
-      };
-    } else {
-      // All other days: 100 Xenocoins
-      reward = {
-        type: "xenocoins" as const,
-        amount: 100,
-        icon: "https://cdn.builder.io/api/v1/image/assets%2Ff481900009a94cda953c032479392a30%2F3e6c6cb85c6a4d2ba05acb245bfbc214?format=webp&width=800",
-      };
-    }
-
-    // Debug log to verify the new system is working
-    if (day <= 5) {
-      console.log(
-        `Day ${day} (${dayOfWeek === 0 ? "Sunday" : "Weekday"}):`,
-        reward,
-      );
-    }
-
-    // Check if already claimed (simplified - in real app would check backend)
-    const lastCheckin = user
-      ? localStorage.getItem(`lastCheckin_${user.id}`)
-      : null;
-    const lastCheckinDate = lastCheckin ? new Date(lastCheckin) : null;
-    const claimed =
-      lastCheckinDate &&
-      lastCheckinDate.getDate() === day &&
-      lastCheckinDate.getMonth() === currentMonth &&
-      lastCheckinDate.getFullYear() === currentYear;
+    const dateKey = toUtcDateKey(
+      new Date(Date.UTC(currentYear, currentMonth, day)),
+    );
+
+    // Today's check-in extends the current streak, which may earn the weekly bonus
+    const reward = getCheckinReward(
+      dateKey,
+      day === today ? getDailyCheckinStreak() + 1 : 0,
+    );
+
+    const base =
+      reward.xenocoins > 0
+        ? {
+            type: "xenocoins" as const,
+            amount: reward.xenocoins,
+            icon: "https://cdn.builder.io/api/v1/image/assets%2Ff481900009a94cda953c032479392a30%2F3e6c6cb85c6a4d2ba05acb245bfbc214?format=webp&width=800",
+          }
+        : {
+            type: "cash" as const,
+            amount: reward.cash,
+            icon: "https://cdn.builder.io/api/v1/image/assets%2Fc013caa4db474e638dc2961a6085b60a%2F38a7eab3791441c7bc853afba8904317?format=webp&width=800",
+          };
+
+    const claimed = !!checkinStatus?.claimedDates.includes(dateKey);
 
     // Available if it's current day in current month
     const available = isCurrentMonth && day === today;
 
     return {
       day,
-      ...reward,
-      claimed: !!claimed,
+      ...base,
+      weeklyBonus: reward.weeklyBonus,
+      claimed,
       available,
     };
   };
 
-  const monthNames = [
-    "Janeiro",
-    "Fevereiro",
-    "Março",
-    "Abril",
-    "Maio",
-    "Junho",
-    "Julho",
-    "Agosto",
-    "Setembro",
-    "Outubro",
-    "Novembro",
-    "Dezembro",
-  ];
-
-  const weekDays = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+  // Intl names are lowercase in some locales ("julho", "dom.")
+  const capitalize = (name: string) =>
+    name.charAt(0).toUpperCase() + name.slice(1).replace(/\.$/, "");
+
+  const monthName = capitalize(
+    formatDate(new Date(Date.UTC(currentYear, currentMonth, 1)), {
+      month: "long",
+      timeZone: "UTC",
+    }),
+  );
+
+  // 4 Jan 1970 was a Sunday
+  const weekDays = Array.from({ length: 7 }, (_, day) =>
+    capitalize(
+      formatDate(new Date(Date.UTC(1970, 0, 4 + day)), {
+        weekday: "short",
+        timeZone: "UTC",
+      }),
+    ),
+  );
 
   const handleDayClick = async (day: number) => {
     if (!isCurrentMonth || day > today) return;
 
-    const reward = generateDailyReward(day);
-
     // Only allow claiming today's reward
     if (day !== today || !canClaimDailyCheckin()) {
       setSelectedDay(day);
@@ -147,38 +147,13 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
     try {
       setClaimingDay(day);
 
-      // Update last check-in date (mark as claimed)
-      const today = new Date().toDateString();
-      if (user) {
-        localStorage.setItem(`lastCheckin_${user.id}`, today);
-      }
-
-      // Give the actual reward (only calendar reward, no fixed bonus)
-      if (reward.type === "xenocoins" || reward.type === "special") {
-        await updateCurrency("xenocoins", reward.amount || 0);
-      } else if (reward.type === "cash") {
-        await updateCurrency("cash", reward.amount || 0);
-      }
-
-      // Show notification based on reward type
-      let notificationMessage = "";
-      if (reward.type === "cash") {
-        notificationMessage = `Você recebeu ${reward.amount} Cash! 💰`;
-      } else if (reward.type === "special") {
-        notificationMessage = `Recompensa especial! ${reward.amount} Xenocoins! ✨`;
-      } else if (reward.type === "item") {
-        notificationMessage = `Você recebeu ${reward.item}! 🎁`;
-      } else {
-        notificationMessage = `Você recebeu ${reward.amount} Xenocoins! 🪙`;
+      // The server validates the day and pays the reward
+      const success = await dailyCheckin();
+      if (!success) {
+        setClaimingDay(null);
+        return;
       }
 
-      addNotification({
-        type: "success",
-        title: "🎉 Check-in Realizado!",
-        message: notificationMessage,
-        isRead: false,
-      });
-
       // Wait for animation then reset
       setTimeout(() => {
         setClaimingDay(null);
@@ -186,10 +161,11 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
       }, 1000);
     } catch (error) {
       console.error("Error claiming daily reward:", error);
+      setClaimingDay(null);
       addNotification({
         type: "error",
-        title: "Erro",
-        message: "Falha ao resgatar recompensa. Tente novamente.",
+        title: t("common.error"),
+        message: t("checkin.claimFailed"),
         isRead: false,
       });
     }
@@ -221,8 +197,8 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
               <Calendar className="w-5 h-5" />
             </div>
             <div>
-              <h2 className="text-xl font-bold">Check-in Diário</h2>
-              <p className="text-white/80 text-sm">Recompensas mensais</p>
+              <h2 className="text-xl font-bold">{t("checkin.title")}</h2>
+              <p className="text-white/80 text-sm">{t("checkin.subtitle")}</p>
             </div>
           </div>
           <button
@@ -236,7 +212,7 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
         {/* Month Header */}
         <div className="text-center p-4 border-b border-gray-100">
           <h3 className="text-lg font-bold text-gray-900">
-            {monthNames[currentMonth]} {currentYear}
+            {monthName} {currentYear}
           </h3>
         </div>
 
@@ -331,10 +307,14 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
                   {!reward.claimed && (
                     <div className="absolute -bottom-0.5 -right-0.5 bg-black/30 text-white text-xs px-1 py-0.5 rounded font-medium shadow-sm">
                       {reward.type === "cash"
-                        ? `$${reward.amount}`
-                        : reward.amount}
+                        ? `$${formatNumber(reward.amount ?? 0)}`
+                        : formatNumber(reward.amount ?? 0)}
                     </div>
                   )}
+                  {/* Weekly streak bonus */}
+                  {reward.weeklyBonus && !reward.claimed && (
+                    <Star className="absolute -top-1 -left-1 w-3 h-3 text-purple-500 fill-purple-500" />
+                  )}
                   {/* Claimed check mark */}
                   {reward.claimed && (
                     <motion.div
@@ -387,9 +367,9 @@ export const MonthlyCalendar: React.FC<MonthlyCalendarProps> = ({
           {isCurrentMonth && (
             <div className="mt-3 pt-3 border-t border-gray-200 flex items-center justify-between">
               <div className="text-xs text-gray-600">
-                Sequência atual:{" "}
+                {t("checkin.currentStreak")}{" "}
                 <span className="font-bold text-blue-600">
-                  {getDailyCheckinStreak()} dias
+                  {t("checkin.days", { count: getDailyCheckinStreak() })}
                 </span>
               </div>
               <div className="text-xs text-gray-500" />
@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import { Navigation, X } from "lucide-react";
+import { useTranslation } from "../../i18n";
+import { getWrappedDistance } from "../../utils/spacePhysics";
+
+interface AutopilotPlanet {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  color: string;
+}
+
+interface AutopilotPanelProps {
+  ship: { x: number; y: number };
+  planets: AutopilotPlanet[];
+  // Destination while the autopilot is flying, null otherwise
+  destinationId: string | null;
+  onEngage: (planetId: string) => void;
+  onCancel: () => void;
+}
+
+const distanceTo = (ship: { x: number; y: number }, planet: AutopilotPlanet) =>
+  Math.hypot(
+    getWrappedDistance(planet.x, ship.x),
+    getWrappedDistance(planet.y, ship.y),
+  );
+
+export const AutopilotPanel: React.FC<AutopilotPanelProps> = ({
+  ship,
+  planets,
+  destinationId,
+  onEngage,
+  onCancel,
+}) => {
+  const { t, formatNumber } = useTranslation();
+  const [isChoosing, setIsChoosing] = useState(false);
+
+  const destination = planets.find((planet) => planet.id === destinationId);
+
+  if (destination) {
+    return (
+      <div className="absolute bottom-44 right-2 w-40 text-white text-xs bg-black bg-opacity-70 p-2 rounded">
+        <div className="flex items-center justify-between mb-1">
+          <span className="flex items-center font-bold text-yellow-400">
+            <Navigation className="w-3 h-3 mr-1" />
+            {t("autopilot.title")}
+          </span>
+          <button
+            onClick={onCancel}
+            className="p-0.5 rounded hover:bg-white hover:bg-opacity-20"
+            aria-label={t("autopilot.cancel")}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+        <div className="truncate">
+          {t("autopilot.engaged", { name: destination.name })}
+        </div>
+        <div className="text-gray-400">
+          {t("autopilot.distance", {
+            distance: formatNumber(Math.round(distanceTo(ship, destination))),
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  const byDistance = planets
+    .map((planet) => ({ planet, distance: distanceTo(ship, planet) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  return (
+    <div className="absolute bottom-44 right-2 w-40 text-white text-xs">
+      {isChoosing && (
+        <div className="mb-1 max-h-60 overflow-y-auto bg-black bg-opacity-70 rounded p-1">
+          <div className="px-1 py-0.5 text-gray-400">
+            {t("autopilot.choose")}
+          </div>
+          {byDistance.length === 0 && (
+            <div className="px-1 py-0.5">{t("autopilot.noPlanets")}</div>
+          )}
+          {byDistance.map(({ planet, distance }) => (
+            <button
+              key={planet.id}
+              onClick={() => {
+                setIsChoosing(false);
+                onEngage(planet.id);
+              }}
+              className="w-full flex items-center justify-between px-1 py-0.5 rounded hover:bg-white hover:bg-opacity-20 text-left"
+            >
+              <span className="flex items-center min-w-0">
+                <span
+                  className="w-2 h-2 rounded-full mr-1 flex-shrink-0"
+                  style={{ backgroundColor: planet.color }}
+                />
+                <span className="truncate">{planet.name}</span>
+              </span>
+              <span className="ml-1 text-gray-400">
+                {formatNumber(Math.round(distance))}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => setIsChoosing(!isChoosing)}
+        className="w-full flex items-center justify-center px-2 py-1 rounded bg-black bg-opacity-70 hover:bg-opacity-90"
+      >
+        <Navigation className="w-3 h-3 mr-1" />
+        {t("autopilot.title")}
+      </button>
+    </div>
+  );
+};
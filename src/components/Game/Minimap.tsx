@@ -0,0 +1,355 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Maximize2, X } from "lucide-react";
+import { useGameStore } from "../../store/gameStore";
+import { useTranslation } from "../../i18n";
+import {
+  BARRIER_RADIUS,
+  Point,
+  WORLD_SIZE,
+  getWrappedDistance,
+} from "../../utils/spacePhysics";
+import {
+  MapView,
+  SECTOR_COUNT,
+  SECTOR_SIZE,
+  getMapPositions,
+  getSectorOrigin,
+  mapToWorld,
+} from "../../utils/galaxyMap";
+
+export interface MinimapPlanet {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  size: number;
+  color: string;
+}
+
+interface MinimapProps {
+  ship: { x: number; y: number; angle: number };
+  planets: MinimapPlanet[];
+  targetId: string | null;
+  onSelectTarget: (planetId: string | null) => void;
+  onEngageAutopilot: () => void;
+}
+
+const MINIMAP_SIZE = 160;
+// World units shown across the corner minimap
+const MINIMAP_RANGE = 6000;
+const WORLD_CENTER: Point = { x: WORLD_SIZE / 2, y: WORLD_SIZE / 2 };
+// Clicks this close to a planet on the overview select it, in map pixels
+const PICK_RADIUS = 12;
+
+interface DrawOptions {
+  ship: MinimapProps["ship"];
+  planets: MinimapPlanet[];
+  discoveredSectors: number[];
+  target: MinimapPlanet | null;
+  showLabels: boolean;
+}
+
+const drawGalaxyMap = (
+  ctx: CanvasRenderingContext2D,
+  view: MapView,
+  { ship, planets, discoveredSectors, target, showLabels }: DrawOptions,
+) => {
+  ctx.clearRect(0, 0, view.width, view.height);
+  ctx.fillStyle = "#05070f";
+  ctx.fillRect(0, 0, view.width, view.height);
+
+  // Discovered sectors are lit, the rest of the galaxy stays dark
+  const sectorSize = SECTOR_SIZE * view.scale;
+  ctx.fillStyle = "rgba(59, 130, 246, 0.18)";
+  discoveredSectors.forEach((sector) => {
+    const origin = getSectorOrigin(sector);
+    const center = {
+      x: origin.x + SECTOR_SIZE / 2,
+      y: origin.y + SECTOR_SIZE / 2,
+    };
+    getMapPositions(center, view, sectorSize).forEach(({ x, y }) => {
+      ctx.fillRect(
+        x - sectorSize / 2,
+        y - sectorSize / 2,
+        sectorSize + 0.5,
+        sectorSize + 0.5,
+      );
+    });
+  });
+
+  // Central barrier
+  const barrierRadius = Math.max(BARRIER_RADIUS * view.scale, 3);
+  ctx.strokeStyle = "rgba(248, 113, 113, 0.8)";
+  ctx.lineWidth = 1;
+  ctx.setLineDash([3, 3]);
+  getMapPositions(WORLD_CENTER, view, barrierRadius).forEach(({ x, y }) => {
+    ctx.beginPath();
+    ctx.arc(x, y, barrierRadius, 0, Math.PI * 2);
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  // Route to the navigation target, along the shortest way around the world
+  if (target) {
+    const dx = getWrappedDistance(target.x, ship.x) * view.scale;
+    const dy = getWrappedDistance(target.y, ship.y) * view.scale;
+    const reach = Math.sqrt(dx * dx + dy * dy);
+    ctx.strokeStyle = "rgba(250, 204, 21, 0.8)";
+    ctx.setLineDash([4, 4]);
+    getMapPositions(ship, view, reach).forEach(({ x, y }) => {
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + dx, y + dy);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+  }
+
+  // Planets
+  ctx.font = "10px sans-serif";
+  ctx.textAlign = "center";
+  planets.forEach((planet) => {
+    const radius = Math.max((planet.size / 2) * view.scale, 2.5);
+    const isTarget = planet.id === target?.id;
+
+    getMapPositions(planet, view, radius + 40).forEach(({ x, y }) => {
+      ctx.fillStyle = planet.color;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+
+      if (isTarget) {
+        ctx.strokeStyle = "#facc15";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(x, y, radius + 4, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.lineWidth = 1;
+      }
+
+      if (showLabels) {
+        ctx.fillStyle = isTarget ? "#facc15" : "rgba(255, 255, 255, 0.85)";
+        ctx.fillText(planet.name, x, y + radius + 12);
+      }
+    });
+  });
+
+  // Ship
+  getMapPositions(ship, view, 6).forEach(({ x, y }) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(ship.angle);
+    ctx.fillStyle = "#ffffff";
+    ctx.beginPath();
+    ctx.moveTo(6, 0);
+    ctx.lineTo(-4, -4);
+    ctx.lineTo(-4, 4);
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  });
+};
+
+// Matches the canvas buffer to its displayed size and returns the context
+const prepareCanvas = (canvas: HTMLCanvasElement | null) => {
+  if (!canvas) return null;
+  if (
+    canvas.width !== canvas.offsetWidth ||
+    canvas.height !== canvas.offsetHeight
+  ) {
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+  }
+  return canvas.getContext("2d");
+};
+
+export const Minimap: React.FC<MinimapProps> = ({
+  ship,
+  planets,
+  targetId,
+  onSelectTarget,
+  onEngageAutopilot,
+}) => {
+  const { t, formatNumber } = useTranslation();
+  const discoveredSectors = useGameStore((state) => state.discoveredSectors);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const overviewRef = useRef<HTMLCanvasElement>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const target = planets.find((planet) => planet.id === targetId) ?? null;
+
+  useEffect(() => {
+    const canvas = minimapRef.current;
+    const ctx = prepareCanvas(canvas);
+    if (!canvas || !ctx) return;
+
+    drawGalaxyMap(
+      ctx,
+      {
+        center: ship,
+        scale: canvas.width / MINIMAP_RANGE,
+        width: canvas.width,
+        height: canvas.height,
+      },
+      { ship, planets, discoveredSectors, target, showLabels: false },
+    );
+  });
+
+  const getOverviewView = (canvas: HTMLCanvasElement): MapView => ({
+    center: WORLD_CENTER,
+    scale: canvas.width / WORLD_SIZE,
+    width: canvas.width,
+    height: canvas.height,
+  });
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    const canvas = overviewRef.current;
+    const ctx = prepareCanvas(canvas);
+    if (!canvas || !ctx) return;
+
+    drawGalaxyMap(ctx, getOverviewView(canvas), {
+      ship,
+      planets,
+      discoveredSectors,
+      target,
+      showLabels: true,
+    });
+  });
+
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsExpanded(false);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isExpanded]);
+
+  const handleOverviewClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const view = getOverviewView(canvas);
+    const clicked = mapToWorld(
+      { x: e.clientX - rect.left, y: e.clientY - rect.top },
+      view,
+    );
+
+    let closest: MinimapPlanet | null = null;
+    let closestDistance = Infinity;
+    for (const planet of planets) {
+      const dx = getWrappedDistance(planet.x, clicked.x);
+      const dy = getWrappedDistance(planet.y, clicked.y);
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const pickRadius = Math.max(planet.size / 2, PICK_RADIUS / view.scale);
+      if (distance <= pickRadius && distance < closestDistance) {
+        closest = planet;
+        closestDistance = distance;
+      }
+    }
+
+    if (closest) {
+      onSelectTarget(closest.id === targetId ? null : closest.id);
+    }
+  };
+
+  const explored = discoveredSectors.length / SECTOR_COUNT;
+
+  return (
+    <>
+      <div className="absolute bottom-2 right-2 rounded-lg overflow-hidden border border-white border-opacity-20 shadow-lg">
+        <canvas
+          ref={minimapRef}
+          onClick={() => setIsExpanded(true)}
+          className="block cursor-pointer"
+          style={{ width: MINIMAP_SIZE, height: MINIMAP_SIZE }}
+          title={t("minimap.expand")}
+        />
+        <button
+          onClick={() => setIsExpanded(true)}
+          className="absolute top-1 right-1 p-1 rounded bg-black bg-opacity-60 text-white hover:bg-opacity-80"
+          aria-label={t("minimap.expand")}
+        >
+          <Maximize2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {isExpanded && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 z-30 bg-black bg-opacity-70 flex items-center justify-center p-4"
+            onClick={() => setIsExpanded(false)}
+          >
+            <div
+              className="bg-gray-900 rounded-2xl shadow-2xl p-4 border border-white border-opacity-10"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-start justify-between mb-3 text-white">
+                <div>
+                  <h3 className="text-lg font-bold">{t("minimap.title")}</h3>
+                  <p className="text-xs text-gray-400">
+                    {t("minimap.explored", {
+                      percent: formatNumber(explored, {
+                        style: "percent",
+                        maximumFractionDigits: 1,
+                      }),
+                    })}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setIsExpanded(false)}
+                  className="p-1 rounded-full hover:bg-white hover:bg-opacity-10"
+                  aria-label={t("minimap.close")}
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <canvas
+                ref={overviewRef}
+                onClick={handleOverviewClick}
+                className="block rounded-lg cursor-crosshair"
+                style={{
+                  width: "min(70vh, 80vw)",
+                  height: "min(70vh, 80vw)",
+                }}
+              />
+
+              <div className="flex items-center justify-between mt-3 text-xs text-gray-300">
+                <span>
+                  {target
+                    ? t("minimap.target", { name: target.name })
+                    : t("minimap.pickTarget")}
+                </span>
+                {target && (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => onSelectTarget(null)}
+                      className="px-2 py-1 rounded bg-white bg-opacity-10 hover:bg-opacity-20"
+                    >
+                      {t("minimap.clearTarget")}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsExpanded(false);
+                        onEngageAutopilot();
+                      }}
+                      className="px-2 py-1 rounded bg-yellow-500 text-gray-900 font-medium hover:bg-yellow-400"
+                    >
+                      {t("minimap.engageAutopilot")}
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
@@ -1,15 +1,89 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
 import { useGameStore } from "../../store/gameStore";
 import { useShipStatePersistence } from "../../hooks/useShipStatePersistence";
+import { useShipPresence } from "../../hooks/useShipPresence";
+import { useShipInput } from "../../hooks/useShipInput";
 import { PlanetLandingModal } from "./PlanetLandingModal";
+import { Minimap } from "./Minimap";
+import { AutopilotPanel } from "./AutopilotPanel";
+import { TouchControls } from "./TouchControls";
+import { WorldEditorPanel } from "./WorldEditorPanel";
 import { gameService } from "../../services/gameService";
+import { useTranslation } from "../../i18n";
 import {
+  playAutoPilotActivationSound,
   playLaserShootSound,
   playLandingSound,
   startContinuousMovementSound,
   updateContinuousMovementSound,
   stopContinuousMovementSound,
 } from "../../utils/soundManager";
+import { paths } from "../../utils/routes";
+import {
+  BARRIER_RADIUS,
+  Point,
+  SHIP_MAX_SPEED,
+  WORLD_SIZE,
+  advanceSimulation,
+  createProjectile,
+  createSimulation,
+  getWrappedDistance,
+  hasAutopilotArrived,
+  interpolateWorld,
+  normalizeCoord,
+  resetSimulation,
+} from "../../utils/spacePhysics";
+import { getSectorIndex, getSectorsAround } from "../../utils/galaxyMap";
+import {
+  CombatEvent,
+  CombatWorldState,
+  MAX_HULL,
+  SpaceEntity,
+  createEncounterRegions,
+  interpolateEntities,
+  stepCombatWorld,
+  syncRegions,
+} from "../../utils/spaceEncounters";
+import { hashSeed } from "../../utils/random";
+import { isSteering } from "../../utils/shipInput";
+import {
+  DEFAULT_SNAP,
+  EditSession,
+  LayoutById,
+  SnapSettings,
+  applyCommand,
+  createEditSession,
+  createMoveCommand,
+  createTransformCommand,
+  getPendingChanges,
+  getWorldsInBox,
+  markSessionSaved,
+  redoEdit,
+  undoEdit,
+} from "../../utils/worldEditor";
+import {
+  SpatialHash,
+  buildSpatialHash,
+  queryHash,
+} from "../../utils/spatialHash";
+import {
+  AlphaMask,
+  createAlphaMask,
+  isMaskVisible,
+} from "../../utils/alphaMask";
+import {
+  StarSprite,
+  drawLightStar,
+  getLayerGeometry,
+  getLayerWindow,
+  getVisibleTiles,
+} from "../../utils/starfield";
+import { StarfieldTileCache } from "../../utils/starfieldTiles";
+import {
+  FrameTimingSummary,
+  summarizeFrameTimes,
+} from "../../utils/frameTiming";
 
 interface Star {
   x: number;
@@ -41,15 +115,6 @@ interface Planet {
   imageUrl: string;
 }
 
-interface Projectile {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-}
-
 interface ShootingStar {
   x: number;
   y: number;
@@ -94,17 +159,24 @@ interface GameState {
   };
 }
 
-const WORLD_SIZE = 15000;
-const SHIP_MAX_SPEED = 2;
-const FRICTION = 0.88;
 const CENTER_X = WORLD_SIZE / 2;
 const CENTER_Y = WORLD_SIZE / 2;
-const BARRIER_RADIUS = 600;
-const PROJECTILE_SPEED = 600; // pixels per second (consistent across all FPS)
-const PROJECTILE_LIFETIME = 4.0; // seconds
 
 // Pre-render buffer size
 const RENDER_BUFFER = 200;
+// Spatial hash cells for planets and stars, in world units
+const PLANET_CELL_SIZE = 500;
+const STAR_CELL_SIZE = 500;
+// Frames kept for the FPS counter and frame-time percentiles
+const FRAME_TIME_SAMPLES = 240;
+// Room around the barrier ring image for its stroke
+const BARRIER_IMAGE_PADDING = 4;
+// Keeps ships whose username label is still partly on screen
+const REMOTE_SHIP_MARGIN = 80;
+// Pointer movement, in pixels, that cancels the autopilot
+const AUTOPILOT_CANCEL_DISTANCE = 40;
+// Corners of an asteroid outline
+const ASTEROID_VERTICES = 9;
 
 // Trail constants
 const TRAIL_MAX_POINTS = 25;
@@ -115,7 +187,6 @@ const TRAIL_WIDTH = 12;
 export const SpaceMap: React.FC = () => {
   const {
     getShipState,
-    setCurrentScreen,
     setCurrentPlanet,
     isWorldEditMode,
     setWorldEditMode,
@@ -123,15 +194,23 @@ export const SpaceMap: React.FC = () => {
     worldPositions,
     loadWorldPositions,
     updateWorldPosition,
+    saveWorldLayout,
+    rollbackWorldLayout,
+    discoverSectors,
+    recordSpaceKill,
+    addNotification,
   } = useGameStore();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
   const { saveShipState, forceSaveShipState } = useShipStatePersistence();
+  const { publishShipState, getRemoteShips } = useShipPresence();
+  const { readInput, setTouchStick, setTouchFire } = useShipInput();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameLoopRef = useRef<number>();
   const mouseRef = useRef({ x: 0, y: 0 });
   const hasMouseMoved = useRef(false);
   const starsRef = useRef<Star[]>([]);
   const planetsRef = useRef<Planet[]>([]);
-  const projectilesRef = useRef<Projectile[]>([]);
   const shootingStarsRef = useRef<ShootingStar[]>([]);
   const radarPulsesRef = useRef<RadarPulse[]>([]);
   const trailPointsRef = useRef<TrailPoint[]>([]);
@@ -140,10 +219,25 @@ export const SpaceMap: React.FC = () => {
   const lastShootTime = useRef(0);
   const lastRadarCheckRef = useRef<Set<string>>(new Set());
   const shootingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastFrameTimeRef = useRef(performance.now());
   const [isMousePressed, setIsMousePressed] = useState(false);
   const lastRadarPulseTime = useRef<Map<string, number>>(new Map());
   const planetImagesRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  // Alpha masks of planet images, for click picking, keyed by planet id
+  const planetMasksRef = useRef<
+    Map<string, { src: string; mask: AlphaMask | null }>
+  >(new Map());
+  // Planets by position, rebuilt whenever planetsRef gets a new list
+  const planetHashRef = useRef<{
+    planets: Planet[];
+    hash: SpatialHash<Planet>;
+  } | null>(null);
+  // Twinkling stars by base position, one hash per parallax layer
+  const starHashesRef = useRef<Map<number, SpatialHash<Star>>>(new Map());
+  // Stars that never change, pre-rendered into tiles per parallax layer
+  const staticStarLayersRef = useRef<Map<number, StarSprite[]>>(new Map());
+  const starfieldTilesRef = useRef<StarfieldTileCache | null>(null);
+  // The dashed barrier ring, drawn once and rotated every frame
+  const barrierImageRef = useRef<HTMLCanvasElement | null>(null);
   const shipImageRef = useRef<HTMLImageElement | null>(null);
   const movementSoundActiveRef = useRef<boolean>(false);
 
@@ -180,14 +274,30 @@ export const SpaceMap: React.FC = () => {
     };
   }, [getShipState]);
 
+  // gameState is what gets drawn: the simulation blended between its last
+  // two ticks. The simulation itself lives in simulationRef.
   const [gameState, setGameState] = useState<GameState>(getInitialGameState);
+  const simulationRef = useRef(
+    createSimulation<CombatWorldState>({
+      ...gameState,
+      projectiles: [],
+      entities: [],
+      hull: MAX_HULL,
+      events: [],
+    }),
+  );
+  // Asteroids and creatures spawned around the ship (see utils/spaceEncounters)
+  const encounterRegionsRef = useRef(createEncounterRegions());
+  // When each entity last took a hit, to flash it
+  const entityHitTimesRef = useRef<Map<string, number>>(new Map());
+  const [hull, setHull] = useState(MAX_HULL);
 
   // Reset velocities on component mount to ensure ship starts stationary
   useEffect(() => {
-    setGameState((prevState) => ({
-      ...prevState,
+    resetSimulation(simulationRef.current, (state) => ({
+      ...state,
       ship: {
-        ...prevState.ship,
+        ...state.ship,
         vx: 0,
         vy: 0,
         angle: 0,
@@ -195,8 +305,35 @@ export const SpaceMap: React.FC = () => {
     }));
   }, []); // Empty dependency array ensures this runs only on mount
 
+  // Entities destroyed before a reload stay destroyed until their region respawns
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    gameService.getRecentSpaceKills(userId).then((entityIds) => {
+      if (cancelled || entityIds.length === 0) return;
+
+      const { destroyedIds } = encounterRegionsRef.current;
+      entityIds.forEach((id) => destroyedIds.add(id));
+      resetSimulation(simulationRef.current, (state) => ({
+        ...state,
+        entities: state.entities.filter(
+          (entity) => !destroyedIds.has(entity.id),
+        ),
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   // FPS tracking
-  const [fps, setFps] = useState(0);
+  const [frameTiming, setFrameTiming] = useState<FrameTimingSummary>(() =>
+    summarizeFrameTimes([]),
+  );
+  const { fps } = frameTiming;
   const fpsRef = useRef({
     frameCount: 0,
     lastTime: 0,
@@ -222,26 +359,34 @@ export const SpaceMap: React.FC = () => {
   } | null>(null);
 
   // World editing state
-  const [selectedWorldId, setSelectedWorldId] = useState<string | null>(null);
+  const [selectedWorldIds, setSelectedWorldIds] = useState<string[]>([]);
   const [isDragging, setIsDragging] = useState(false);
-  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [isSaving, setIsSaving] = useState(false);
+  // Unsaved edits; the worlds show its layout while the editor is open
+  const [editSession, setEditSession] = useState<EditSession | null>(null);
+  const [snap, setSnap] = useState<SnapSettings>(DEFAULT_SNAP);
+  // Where the pointer went down and the layout then, while moving worlds
+  const worldDragRef = useRef<{
+    start: Point;
+    layout: LayoutById;
+    ids: string[];
+    anchorId: string;
+    mergeKey: string;
+  } | null>(null);
+  // Box being dragged to select worlds, in world coordinates
+  const selectionBoxRef = useRef<{ from: Point; to: Point } | null>(null);
+  const editGestureRef = useRef(0);
 
-  // Helper function for seamless wrapping distance calculation
-  const getWrappedDistance = useCallback(
-    (coord: number, cameraCoord: number) => {
-      let delta = coord - cameraCoord;
-      if (delta > WORLD_SIZE / 2) delta -= WORLD_SIZE;
-      else if (delta < -WORLD_SIZE / 2) delta += WORLD_SIZE;
-      return delta;
-    },
-    [],
+  // Galaxy map state
+  const [navigationTargetId, setNavigationTargetId] = useState<string | null>(
+    null,
   );
+  const lastSectorRef = useRef<number | null>(null);
 
-  // Helper function to normalize coordinates within world bounds
-  const normalizeCoord = useCallback((coord: number) => {
-    return ((coord % WORLD_SIZE) + WORLD_SIZE) % WORLD_SIZE;
-  }, []);
+  // Autopilot state: it flies to the navigation target while engaged
+  const [isAutopilotEngaged, setIsAutopilotEngaged] = useState(false);
+  // Pointer position when the autopilot took over; moving away from it cancels
+  const autopilotAnchorRef = useRef<{ x: number; y: number } | null>(null);
 
   // Função de tiro que pode ser reutilizada
   const shootProjectile = useCallback(() => {
@@ -250,15 +395,14 @@ export const SpaceMap: React.FC = () => {
 
     // Verificar cooldown
     if (currentTime - lastShootTime.current >= SHOOT_COOLDOWN) {
-      const newProjectile: Projectile = {
-        x: gameState.ship.x,
-        y: gameState.ship.y,
-        vx: Math.cos(gameState.ship.angle) * PROJECTILE_SPEED,
-        vy: Math.sin(gameState.ship.angle) * PROJECTILE_SPEED,
-        life: PROJECTILE_LIFETIME,
-        maxLife: PROJECTILE_LIFETIME,
+      const simulation = simulationRef.current;
+      simulation.current = {
+        ...simulation.current,
+        projectiles: [
+          ...simulation.current.projectiles,
+          createProjectile(simulation.current.ship),
+        ],
       };
-      projectilesRef.current.push(newProjectile);
       lastShootTime.current = currentTime;
 
       // Tocar som de laser
@@ -269,60 +413,57 @@ export const SpaceMap: React.FC = () => {
       return true; // Tiro disparado
     }
     return false; // Cooldown ainda ativo
-  }, [gameState.ship.x, gameState.ship.y, gameState.ship.angle]);
+  }, []);
+
+  const getPlanetHash = useCallback(() => {
+    const planets = planetsRef.current;
+    if (planetHashRef.current?.planets !== planets) {
+      planetHashRef.current = {
+        planets,
+        hash: buildSpatialHash(planets, PLANET_CELL_SIZE, (planet) => ({
+          x: planet.x,
+          y: planet.y,
+          radius: Math.max(planet.size, planet.interactionRadius),
+        })),
+      };
+    }
+    return planetHashRef.current.hash;
+  }, []);
 
   // Function to check if click is on visible pixel of planet image
   const isClickOnPlanetPixel = useCallback(
-    (
-      planet: Planet,
-      clickWorldX: number,
-      clickWorldY: number,
-      canvas: HTMLCanvasElement,
-    ): boolean => {
+    (planet: Planet, clickWorldX: number, clickWorldY: number): boolean => {
+      const dx = getWrappedDistance(clickWorldX, planet.x);
+      const dy = getWrappedDistance(clickWorldY, planet.y);
       const img = planetImagesRef.current.get(planet.id);
       if (!img || !img.complete) {
         // Fallback to circle detection if image not loaded
-        const dx = getWrappedDistance(planet.x, clickWorldX);
-        const dy = getWrappedDistance(planet.y, clickWorldY);
         return Math.sqrt(dx * dx + dy * dy) <= planet.size;
       }
 
-      // Create temporary canvas to check pixel data
-      const tempCanvas = document.createElement("canvas");
-      const tempCtx = tempCanvas.getContext("2d");
-      if (!tempCtx) return false;
-
-      const imageSize = planet.size * 2; // Diameter
-      tempCanvas.width = imageSize;
-      tempCanvas.height = imageSize;
-
-      // Draw the image on temp canvas
-      tempCtx.drawImage(img, 0, 0, imageSize, imageSize);
-
-      // Calculate relative position within the image
-      const dx = getWrappedDistance(planet.x, clickWorldX);
-      const dy = getWrappedDistance(planet.y, clickWorldY);
-
-      // Convert to image coordinates (center the image)
-      const imgX = dx + imageSize / 2;
-      const imgY = dy + imageSize / 2;
-
-      // Check if within image bounds
-      if (imgX < 0 || imgX >= imageSize || imgY < 0 || imgY >= imageSize) {
-        return false;
+      // Sample the image once; a new image for the planet gets a new mask
+      let cached = planetMasksRef.current.get(planet.id);
+      if (!cached || cached.src !== img.src) {
+        cached = { src: img.src, mask: createAlphaMask(img) };
+        planetMasksRef.current.set(planet.id, cached);
       }
-
-      // Get pixel data at the click position
-      try {
-        const pixelData = tempCtx.getImageData(imgX, imgY, 1, 1).data;
-        const alpha = pixelData[3]; // Alpha channel
-        return alpha > 50; // Consider pixel visible if alpha > 50
-      } catch (e) {
-        // Fallback to circle detection if there's an error
+      if (!cached.mask) {
+        // Fallback to circle detection if the pixels can't be read
         return Math.sqrt(dx * dx + dy * dy) <= planet.size;
       }
+
+      // Undo the planet's rotation, then map into the image (diameter wide)
+      const rotation = planet.rotation || 0;
+      const localX = dx * Math.cos(-rotation) - dy * Math.sin(-rotation);
+      const localY = dx * Math.sin(-rotation) + dy * Math.cos(-rotation);
+      const imageSize = planet.size * 2;
+      return isMaskVisible(
+        cached.mask,
+        localX / imageSize + 0.5,
+        localY / imageSize + 0.5,
+      );
     },
-    [getWrappedDistance],
+    [],
   );
 
   // Create shooting star
@@ -518,7 +659,7 @@ export const SpaceMap: React.FC = () => {
 
       ctx.restore();
     },
-    [getWrappedDistance],
+    [],
   );
 
   // Create trail point function
@@ -554,6 +695,275 @@ export const SpaceMap: React.FC = () => {
     );
   }, []);
 
+  // Draw other players' ships, skipping those outside the canvas
+  const drawRemoteShips = useCallback(
+    (ctx: CanvasRenderingContext2D, cameraX: number, cameraY: number) => {
+      const { width, height } = ctx.canvas;
+
+      getRemoteShips().forEach((ship) => {
+        const screenX = width / 2 + getWrappedDistance(ship.x, cameraX);
+        const screenY = height / 2 + getWrappedDistance(ship.y, cameraY);
+        if (
+          screenX < -REMOTE_SHIP_MARGIN ||
+          screenX > width + REMOTE_SHIP_MARGIN ||
+          screenY < -REMOTE_SHIP_MARGIN ||
+          screenY > height + REMOTE_SHIP_MARGIN
+        ) {
+          return;
+        }
+
+        ctx.save();
+        ctx.translate(screenX, screenY);
+
+        ctx.save();
+        ctx.rotate(ship.angle);
+        ctx.globalAlpha = 0.8;
+        if (shipImageRef.current && shipImageRef.current.complete) {
+          const shipSize = 40;
+          ctx.drawImage(
+            shipImageRef.current,
+            -shipSize / 2,
+            -shipSize / 2,
+            shipSize,
+            shipSize,
+          );
+        } else {
+          ctx.fillStyle = "#d1d5db";
+          ctx.strokeStyle = "#a855f7";
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.moveTo(15, 0);
+          ctx.lineTo(-10, -8);
+          ctx.lineTo(-6, 0);
+          ctx.lineTo(-10, 8);
+          ctx.closePath();
+          ctx.fill();
+          ctx.stroke();
+        }
+        ctx.restore();
+
+        ctx.font = "12px sans-serif";
+        ctx.textAlign = "center";
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = "rgba(0, 0, 0, 0.6)";
+        ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+        ctx.strokeText(ship.username, 0, -30);
+        ctx.fillText(ship.username, 0, -30);
+
+        ctx.restore();
+      });
+    },
+    [getRemoteShips],
+  );
+
+  // Draw the navigation target: its landing area when on screen, otherwise
+  // an arrow at the screen edge pointing the shortest way there
+  const drawNavigationTarget = useCallback(
+    (
+      ctx: CanvasRenderingContext2D,
+      planet: Planet,
+      cameraX: number,
+      cameraY: number,
+    ) => {
+      const { width, height } = ctx.canvas;
+      const dx = getWrappedDistance(planet.x, cameraX);
+      const dy = getWrappedDistance(planet.y, cameraY);
+      const screenX = width / 2 + dx;
+      const screenY = height / 2 + dy;
+      const edgeMargin = 40;
+
+      ctx.save();
+      ctx.strokeStyle = "rgba(250, 204, 21, 0.8)";
+      ctx.fillStyle = "rgba(250, 204, 21, 0.9)";
+
+      if (
+        screenX >= 0 &&
+        screenX <= width &&
+        screenY >= 0 &&
+        screenY <= height
+      ) {
+        ctx.lineWidth = 2;
+        ctx.setLineDash([8, 8]);
+        ctx.beginPath();
+        ctx.arc(screenX, screenY, planet.interactionRadius, 0, Math.PI * 2);
+        ctx.stroke();
+      } else {
+        const reach = Math.min(
+          (width / 2 - edgeMargin) / Math.abs(dx || 1),
+          (height / 2 - edgeMargin) / Math.abs(dy || 1),
+        );
+        const arrowX = width / 2 + dx * reach;
+        const arrowY = height / 2 + dy * reach;
+
+        ctx.translate(arrowX, arrowY);
+        ctx.save();
+        ctx.rotate(Math.atan2(dy, dx));
+        ctx.beginPath();
+        ctx.moveTo(14, 0);
+        ctx.lineTo(-8, -9);
+        ctx.lineTo(-8, 9);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+
+        ctx.font = "12px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillText(planet.name, 0, arrowY > height / 2 ? -18 : 26);
+      }
+
+      ctx.restore();
+    },
+    [],
+  );
+
+  const handleCombatEvents = useCallback(
+    (events: CombatEvent[]) => {
+      events.forEach((event) => {
+        switch (event.type) {
+          case "hit":
+            entityHitTimesRef.current.set(event.entityId, performance.now());
+            break;
+          case "destroyed":
+            encounterRegionsRef.current.destroyedIds.add(event.entity.id);
+            entityHitTimesRef.current.delete(event.entity.id);
+            // The server grants the loot once per entity and cycle
+            recordSpaceKill(event.entity.id).catch((error) =>
+              console.error("Error recording space kill:", error),
+            );
+            break;
+          case "shipDisabled":
+            // Towed back to the starting point with a repaired hull
+            resetSimulation(simulationRef.current, (state) => ({
+              ...state,
+              ship: { x: CENTER_X, y: CENTER_Y + 200, angle: 0, vx: 0, vy: 0 },
+              camera: { x: CENTER_X, y: CENTER_Y + 200 },
+              projectiles: [],
+              hull: MAX_HULL,
+            }));
+            setIsAutopilotEngaged(false);
+            addNotification({
+              type: "warning",
+              title: t("space.shipDisabledTitle"),
+              message: t("space.shipDisabledMessage"),
+              isRead: false,
+            });
+            break;
+        }
+      });
+    },
+    [recordSpaceKill, addNotification, t],
+  );
+
+  // Draw asteroids and creatures, skipping those outside the canvas
+  const drawSpaceEntities = useCallback(
+    (
+      ctx: CanvasRenderingContext2D,
+      entities: SpaceEntity[],
+      cameraX: number,
+      cameraY: number,
+    ) => {
+      const { width, height } = ctx.canvas;
+      const now = performance.now();
+
+      entities.forEach((entity) => {
+        const screenX = width / 2 + getWrappedDistance(entity.x, cameraX);
+        const screenY = height / 2 + getWrappedDistance(entity.y, cameraY);
+        const margin = entity.radius + 10;
+        if (
+          screenX < -margin ||
+          screenX > width + margin ||
+          screenY < -margin ||
+          screenY > height + margin
+        ) {
+          return;
+        }
+
+        const hitTime = entityHitTimesRef.current.get(entity.id);
+        const isFlashing = hitTime !== undefined && now - hitTime < 100;
+
+        ctx.save();
+        ctx.translate(screenX, screenY);
+
+        ctx.save();
+        ctx.rotate(entity.rotation);
+        if (entity.kind === "asteroid") {
+          // A lumpy outline that stays the same for each asteroid
+          const seed = hashSeed(entity.id);
+          ctx.beginPath();
+          for (let i = 0; i < ASTEROID_VERTICES; i++) {
+            const angle = (i / ASTEROID_VERTICES) * Math.PI * 2;
+            const radius =
+              entity.radius * (0.8 + 0.2 * Math.sin(seed + i * 2.3));
+            const x = Math.cos(angle) * radius;
+            const y = Math.sin(angle) * radius;
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          }
+          ctx.closePath();
+          ctx.fillStyle = isFlashing ? "#f5f5f4" : "#57534e";
+          ctx.strokeStyle = "#a8a29e";
+          ctx.lineWidth = 2;
+          ctx.fill();
+          ctx.stroke();
+        } else {
+          const pulse = 1 + 0.08 * Math.sin(now * 0.006 + entity.wanderPhase);
+          ctx.shadowColor = "#ef4444";
+          ctx.shadowBlur = 15;
+          ctx.fillStyle = isFlashing ? "#fee2e2" : "#7f1d1d";
+          ctx.beginPath();
+          ctx.ellipse(
+            0,
+            0,
+            entity.radius * pulse,
+            entity.radius * 0.75 * pulse,
+            0,
+            0,
+            Math.PI * 2,
+          );
+          ctx.fill();
+          ctx.shadowBlur = 0;
+          // Eyes, facing where it moves
+          ctx.fillStyle = "#fde047";
+          ctx.beginPath();
+          ctx.arc(
+            entity.radius * 0.45,
+            -entity.radius * 0.25,
+            3,
+            0,
+            Math.PI * 2,
+          );
+          ctx.arc(
+            entity.radius * 0.45,
+            entity.radius * 0.25,
+            3,
+            0,
+            Math.PI * 2,
+          );
+          ctx.fill();
+        }
+        ctx.restore();
+
+        // Health bar once damaged
+        if (entity.health < entity.maxHealth) {
+          const barWidth = entity.radius * 1.6;
+          const barY = -entity.radius - 10;
+          ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+          ctx.fillRect(-barWidth / 2, barY, barWidth, 4);
+          ctx.fillStyle = entity.kind === "creature" ? "#ef4444" : "#a8a29e";
+          ctx.fillRect(
+            -barWidth / 2,
+            barY,
+            barWidth * (entity.health / entity.maxHealth),
+            4,
+          );
+        }
+
+        ctx.restore();
+      });
+    },
+    [],
+  );
+
   // Draw trail function
   const drawShipTrail = useCallback(
     (
@@ -698,52 +1108,29 @@ export const SpaceMap: React.FC = () => {
 
       ctx.restore();
     },
-    [getWrappedDistance],
+    [],
   );
 
-  // Helper function to draw pure light points
-  const drawPureLightStar = useCallback(
-    (
-      ctx: CanvasRenderingContext2D,
-      x: number,
-      y: number,
-      size: number,
-      color: string,
-      intensity: number,
-      type: "normal" | "bright" | "giant",
-    ) => {
-      // Convert hex color to rgba for proper alpha handling
-      const hexToRgba = (hex: string, alpha: number) => {
-        const r = parseInt(hex.slice(1, 3), 16);
-        const g = parseInt(hex.slice(3, 5), 16);
-        const b = parseInt(hex.slice(5, 7), 16);
-        return `rgba(${r}, ${g}, ${b}, ${alpha})`;
-      };
-
-      // Main star core - pure light point
-      ctx.beginPath();
-      ctx.arc(x, y, size, 0, Math.PI * 2);
-      ctx.fillStyle = color;
-      ctx.fill();
-
-      // Subtle glow effect only for larger stars
-      if (size > 1.0) {
-        const glowRadius = size * 2;
-        const glowIntensity =
-          type === "giant" ? 0.6 : type === "bright" ? 0.4 : 0.3;
-
+  // Dashed barrier ring, drawn once around the center of its canvas
+  const getBarrierImage = useCallback(() => {
+    if (!barrierImageRef.current) {
+      const canvas = document.createElement("canvas");
+      const size = (BARRIER_RADIUS + BARRIER_IMAGE_PADDING) * 2;
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext("2d");
+      if (ctx) {
+        ctx.strokeStyle = "#888888"; // Cinza
+        ctx.lineWidth = 2;
+        ctx.setLineDash([10, 10]);
         ctx.beginPath();
-        ctx.arc(x, y, glowRadius, 0, Math.PI * 2);
-        const gradient = ctx.createRadialGradient(x, y, 0, x, y, glowRadius);
-        gradient.addColorStop(0, hexToRgba(color, intensity * glowIntensity));
-        gradient.addColorStop(0.8, hexToRgba(color, intensity * 0.1));
-        gradient.addColorStop(1, hexToRgba(color, 0));
-        ctx.fillStyle = gradient;
-        ctx.fill();
+        ctx.arc(size / 2, size / 2, BARRIER_RADIUS, 0, Math.PI * 2);
+        ctx.stroke();
       }
-    },
-    [],
-  );
+      barrierImageRef.current = canvas;
+    }
+    return barrierImageRef.current;
+  }, []);
 
   // Generate dense star field with multiple parallax layers
   const generateRichStarField = useCallback(() => {
@@ -981,7 +1368,43 @@ export const SpaceMap: React.FC = () => {
       });
     }
 
-    starsRef.current = stars;
+    // Normal stars go into pre-rendered tiles; the others twinkle live
+    const twinkling: Star[] = [];
+    const staticLayers = new Map<number, StarSprite[]>();
+    const twinklingLayers = new Map<number, Star[]>();
+    stars.forEach((star) => {
+      if (star.type === "normal") {
+        const layer = staticLayers.get(star.parallax) ?? [];
+        layer.push({
+          x: star.baseX,
+          y: star.baseY,
+          size: star.size,
+          opacity: star.opacity,
+          color: star.color,
+          type: star.type,
+        });
+        staticLayers.set(star.parallax, layer);
+        return;
+      }
+      twinkling.push(star);
+      const layer = twinklingLayers.get(star.parallax) ?? [];
+      layer.push(star);
+      twinklingLayers.set(star.parallax, layer);
+    });
+
+    starsRef.current = twinkling;
+    staticStarLayersRef.current = staticLayers;
+    starfieldTilesRef.current?.setLayers(staticLayers);
+    starHashesRef.current = new Map(
+      Array.from(twinklingLayers, ([parallax, layer]) => [
+        parallax,
+        buildSpatialHash(layer, STAR_CELL_SIZE, (star) => ({
+          x: star.baseX,
+          y: star.baseY,
+          radius: Math.max(star.floatAmplitude.x, star.floatAmplitude.y),
+        })),
+      ]),
+    );
   }, []);
 
   // Update planets when worldPositions change
@@ -1089,6 +1512,17 @@ export const SpaceMap: React.FC = () => {
     };
   }, []);
 
+  // Starfield tiles live as long as the map; the worker goes with them
+  useEffect(() => {
+    const tiles = new StarfieldTileCache();
+    tiles.setLayers(staticStarLayersRef.current);
+    starfieldTilesRef.current = tiles;
+    return () => {
+      tiles.dispose();
+      starfieldTilesRef.current = null;
+    };
+  }, []);
+
   // Initialize game objects once
   useEffect(() => {
     generateRichStarField();
@@ -1116,38 +1550,15 @@ export const SpaceMap: React.FC = () => {
     };
   }, [loadWorldPositions]);
 
-  // Save any pending changes when component unmounts
+  // Edited worlds keep their unsaved layout when the store reloads
   useEffect(() => {
-    return () => {
-      // Clear any pending timeouts and save immediately if editing
-      const timeouts = [
-        (window as any).worldDragTimeout,
-        (window as any).worldSizeTimeout,
-        (window as any).worldRotationTimeout,
-        (window as any).worldInteractionTimeout,
-      ];
-
-      timeouts.forEach((timeout) => {
-        if (timeout) {
-          clearTimeout(timeout);
-        }
-      });
+    if (!editSession) return;
 
-      if (selectedWorldId) {
-        const planet = planetsRef.current.find((p) => p.id === selectedWorldId);
-        if (planet) {
-          // Save immediately on unmount
-          updateWorldPosition(selectedWorldId, {
-            x: planet.x,
-            y: planet.y,
-            size: planet.size,
-            rotation: planet.rotation,
-            interactionRadius: planet.interactionRadius,
-          });
-        }
-      }
-    };
-  }, [selectedWorldId]);
+    planetsRef.current = planetsRef.current.map((planet) => ({
+      ...planet,
+      ...editSession.current[planet.id],
+    }));
+  }, [editSession, worldPositions]);
 
   // Handle mouse movement
   const handleMouseMove = useCallback(
@@ -1161,47 +1572,62 @@ export const SpaceMap: React.FC = () => {
         y: e.clientY - rect.top,
       };
 
-      // Handle world dragging in edit mode
-      if (user?.isAdmin && isWorldEditMode && isDragging && selectedWorldId) {
-        const centerX = canvas.width / 2;
-        const centerY = canvas.height / 2;
-
-        const worldX =
-          newMousePos.x - centerX + gameState.camera.x - dragOffset.x;
-        const worldY =
-          newMousePos.y - centerY + gameState.camera.y - dragOffset.y;
-
-        // Update world position immediately for responsive feedback
-        planetsRef.current = planetsRef.current.map((planet) =>
-          planet.id === selectedWorldId
-            ? { ...planet, x: worldX, y: worldY }
-            : planet,
-        );
+      // Move the selected worlds or stretch the selection box
+      if (user?.isAdmin && isWorldEditMode) {
+        const worldX = newMousePos.x - canvas.width / 2 + gameState.camera.x;
+        const worldY = newMousePos.y - canvas.height / 2 + gameState.camera.y;
+        const drag = worldDragRef.current;
+
+        if (drag) {
+          const delta = {
+            x: getWrappedDistance(worldX, drag.start.x),
+            y: getWrappedDistance(worldY, drag.start.y),
+          };
+          setEditSession(
+            (session) =>
+              session &&
+              applyCommand(
+                session,
+                createMoveCommand(
+                  drag.layout,
+                  drag.ids,
+                  drag.anchorId,
+                  delta,
+                  snap,
+                  drag.mergeKey,
+                ),
+              ),
+          );
+        } else if (selectionBoxRef.current) {
+          selectionBoxRef.current.to = {
+            x: normalizeCoord(worldX),
+            y: normalizeCoord(worldY),
+          };
+        }
+      }
 
-        // Save to database with throttling
-        clearTimeout((window as any).worldDragTimeout);
-        (window as any).worldDragTimeout = setTimeout(() => {
-          console.log("���� Saving world drag position:", {
-            selectedWorldId,
-            worldX,
-            worldY,
-          });
-          updateWorldPosition(selectedWorldId, {
-            x: worldX,
-            y: worldY,
-          });
-        }, 200);
+      // Steering by hand takes the controls back from the autopilot
+      if (isAutopilotEngaged) {
+        const anchor = autopilotAnchorRef.current;
+        if (!anchor) {
+          autopilotAnchorRef.current = newMousePos;
+        } else if (
+          Math.hypot(newMousePos.x - anchor.x, newMousePos.y - anchor.y) >
+          AUTOPILOT_CANCEL_DISTANCE
+        ) {
+          setIsAutopilotEngaged(false);
+        }
       }
 
       mouseRef.current = newMousePos;
       hasMouseMoved.current = true;
     },
     [
+      isAutopilotEngaged,
+      user?.isAdmin,
       isWorldEditMode,
-      isDragging,
-      selectedWorldId,
+      snap,
       gameState.camera,
-      dragOffset,
     ],
   );
 
@@ -1221,6 +1647,8 @@ export const SpaceMap: React.FC = () => {
     (e: React.MouseEvent<HTMLCanvasElement>) => {
       const canvas = canvasRef.current;
       if (!canvas || isLandingAnimationActive) return;
+      // Worlds are picked and moved on mouse down in edit mode
+      if (user?.isAdmin && isWorldEditMode) return;
 
       const rect = canvas.getBoundingClientRect();
       const clickX = e.clientX - rect.left;
@@ -1232,56 +1660,22 @@ export const SpaceMap: React.FC = () => {
       const worldClickX = clickX - centerX + gameState.camera.x;
       const worldClickY = clickY - centerY + gameState.camera.y;
 
-      // World editing mode
-      if (user?.isAdmin && isWorldEditMode) {
-        let worldClicked = false;
-
-        planetsRef.current.forEach((planet) => {
-          const dx = getWrappedDistance(planet.x, worldClickX);
-          const dy = getWrappedDistance(planet.y, worldClickY);
-          const distance = Math.sqrt(dx * dx + dy * dy);
-
-          if (distance <= planet.size) {
-            // Se já está selecionado e dragging, pare o drag
-            if (selectedWorldId === planet.id && isDragging) {
-              setIsDragging(false);
-              setDragOffset({ x: 0, y: 0 });
-            } else if (selectedWorldId === planet.id && !isDragging) {
-              // Se já est���� selecionado mas não dragging, inicie o drag
-              setIsDragging(true);
-              setDragOffset({ x: dx, y: dy });
-            } else {
-              // Selecione novo mundo
-              setSelectedWorldId(planet.id);
-              setIsDragging(false);
-            }
-            worldClicked = true;
-          }
-        });
-
-        // Clique fora de qualquer mundo - desseleciona tudo
-        if (!worldClicked) {
-          setSelectedWorldId(null);
-          setIsDragging(false);
-          setDragOffset({ x: 0, y: 0 });
-        }
-        return;
-      }
+      // Planets whose cells hold the click; the checks below are exact
+      const clickedPlanets = queryHash(
+        getPlanetHash(),
+        worldClickX,
+        worldClickY,
+        0,
+      );
 
       // Check if click was on a planet first
       let clickedOnPlanet = false;
 
-      planetsRef.current.forEach((planet) => {
-        const shipToPlanetX = getWrappedDistance(planet.x, gameState.ship.x);
-        const shipToPlanetY = getWrappedDistance(planet.y, gameState.ship.y);
-        const shipToPlanetDistance = Math.sqrt(
-          shipToPlanetX * shipToPlanetX + shipToPlanetY * shipToPlanetY,
-        );
-
+      clickedPlanets.forEach((planet) => {
         // Only check for planet click if ship is within interaction radius
-        if (shipToPlanetDistance <= planet.interactionRadius) {
+        if (lastRadarCheckRef.current.has(planet.id)) {
           // Check if the click was specifically on a visible pixel of the planet image
-          if (isClickOnPlanetPixel(planet, worldClickX, worldClickY, canvas)) {
+          if (isClickOnPlanetPixel(planet, worldClickX, worldClickY)) {
             setSelectedPlanet(planet);
             setShowLandingModal(true);
             clickedOnPlanet = true;
@@ -1296,73 +1690,158 @@ export const SpaceMap: React.FC = () => {
     },
     [
       gameState,
-      getWrappedDistance,
+      getPlanetHash,
       isClickOnPlanetPixel,
       isWorldEditMode,
       isLandingAnimationActive,
       user?.isAdmin,
       shootProjectile,
-      updateWorldPosition,
       setSelectedPlanet,
       setShowLandingModal,
     ],
   );
 
-  // Handle mouse up to stop dragging
-  // Handler para mousedown - inicia tiro contínuo
+  // Handler para mousedown - inicia tiro contínuo ou, no modo de edição,
+  // seleciona e arrasta mundos
   const handleMouseDown = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (isLandingAnimationActive) return;
+      const canvas = canvasRef.current;
+      if (!canvas || isLandingAnimationActive) return;
 
-      if (!user?.isAdmin || !isWorldEditMode) {
-        setIsMousePressed(true);
+      if (user?.isAdmin && isWorldEditMode) {
+        if (!editSession) return;
+
+        const rect = canvas.getBoundingClientRect();
+        const point = {
+          x: normalizeCoord(
+            e.clientX - rect.left - canvas.width / 2 + gameState.camera.x,
+          ),
+          y: normalizeCoord(
+            e.clientY - rect.top - canvas.height / 2 + gameState.camera.y,
+          ),
+        };
+        const world = queryHash(getPlanetHash(), point.x, point.y, 0).find(
+          (planet) =>
+            Math.hypot(
+              getWrappedDistance(planet.x, point.x),
+              getWrappedDistance(planet.y, point.y),
+            ) <= planet.size,
+        );
 
-        // Primeiro tiro imediato
-        shootProjectile();
+        // Empty space starts a selection box
+        if (!world) {
+          selectionBoxRef.current = { from: point, to: point };
+          return;
+        }
 
-        // Iniciar timer para tiros contínuos
-        if (shootingIntervalRef.current) {
-          clearInterval(shootingIntervalRef.current);
+        // Shift toggles a world in the selection; the rest move together
+        if (e.shiftKey && selectedWorldIds.includes(world.id)) {
+          setSelectedWorldIds(selectedWorldIds.filter((id) => id !== world.id));
+          return;
         }
+        const ids = selectedWorldIds.includes(world.id)
+          ? selectedWorldIds
+          : e.shiftKey
+            ? [...selectedWorldIds, world.id]
+            : [world.id];
+        setSelectedWorldIds(ids);
+
+        worldDragRef.current = {
+          start: point,
+          layout: editSession.current,
+          ids,
+          anchorId: world.id,
+          mergeKey: `drag-${++editGestureRef.current}`,
+        };
+        setIsDragging(true);
+        return;
+      }
+
+      setIsMousePressed(true);
 
-        shootingIntervalRef.current = setInterval(() => {
-          shootProjectile();
-        }, 333); // 3 tiros por segundo
+      // Primeiro tiro imediato
+      shootProjectile();
+
+      // Iniciar timer para tiros contínuos
+      if (shootingIntervalRef.current) {
+        clearInterval(shootingIntervalRef.current);
       }
+
+      shootingIntervalRef.current = setInterval(() => {
+        shootProjectile();
+      }, 333); // 3 tiros por segundo
     },
-    [user?.isAdmin, isWorldEditMode, shootProjectile, isLandingAnimationActive],
+    [
+      user?.isAdmin,
+      isWorldEditMode,
+      editSession,
+      selectedWorldIds,
+      gameState.camera,
+      getPlanetHash,
+      shootProjectile,
+      isLandingAnimationActive,
+    ],
   );
 
-  const handleMouseUp = useCallback(() => {
-    // Parar tiro contínuo
-    setIsMousePressed(false);
-    if (shootingIntervalRef.current) {
-      clearInterval(shootingIntervalRef.current);
-      shootingIntervalRef.current = null;
-    }
-
-    // Lógica original de edição de mundos
-    if (user?.isAdmin && isWorldEditMode && isDragging && selectedWorldId) {
-      const planet = planetsRef.current.find((p) => p.id === selectedWorldId);
-      if (planet) {
-        updateWorldPosition(selectedWorldId, {
-          x: planet.x,
-          y: planet.y,
-        });
+  const handleMouseUp = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      // Parar tiro contínuo
+      setIsMousePressed(false);
+      if (shootingIntervalRef.current) {
+        clearInterval(shootingIntervalRef.current);
+        shootingIntervalRef.current = null;
       }
 
+      // The moved worlds already are in the edit session
+      worldDragRef.current = null;
       setIsDragging(false);
-      setDragOffset({ x: 0, y: 0 });
-    }
-  }, [user?.isAdmin, isWorldEditMode, isDragging, selectedWorldId]);
 
-  // Handle ESC key to cancel editing
+      const box = selectionBoxRef.current;
+      selectionBoxRef.current = null;
+      if (box && editSession) {
+        const boxed = getWorldsInBox(
+          Object.values(editSession.current),
+          box.from,
+          box.to,
+        );
+        setSelectedWorldIds(
+          e.shiftKey
+            ? Array.from(new Set([...selectedWorldIds, ...boxed]))
+            : boxed,
+        );
+      }
+    },
+    [editSession, selectedWorldIds],
+  );
+
+  // Esc clears the selection; Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) undo and
+  // redo world edits
   useEffect(() => {
+    if (!user?.isAdmin || !isWorldEditMode) return;
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Escape" && user?.isAdmin && isWorldEditMode) {
-        setSelectedWorldId(null);
-        setIsDragging(false);
-        setDragOffset({ x: 0, y: 0 });
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement
+      ) {
+        return;
+      }
+
+      if (e.key === "Escape") {
+        setSelectedWorldIds([]);
+        selectionBoxRef.current = null;
+        return;
+      }
+
+      if (!e.ctrlKey && !e.metaKey) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        e.preventDefault();
+        const redo = key === "y" || e.shiftKey;
+        setEditSession(
+          (session) =>
+            session && (redo ? redoEdit(session) : undoEdit(session)),
+        );
       }
     };
 
@@ -1370,6 +1849,97 @@ export const SpaceMap: React.FC = () => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [user?.isAdmin, isWorldEditMode]);
 
+  // The editor edits a session over the stored layout while it is open
+  useEffect(() => {
+    if (!user?.isAdmin || !isWorldEditMode || worldPositions.length === 0) {
+      return;
+    }
+    setEditSession((session) => session ?? createEditSession(worldPositions));
+  }, [user?.isAdmin, isWorldEditMode, worldPositions]);
+
+  const toggleWorldEditMode = useCallback(() => {
+    if (isWorldEditMode) {
+      if (
+        editSession &&
+        getPendingChanges(editSession).length > 0 &&
+        !confirm(t("worldEditor.discardConfirm"))
+      ) {
+        return;
+      }
+
+      setEditSession(null);
+      setSelectedWorldIds([]);
+      setIsDragging(false);
+      updatePlanetsFromStore();
+    }
+    setWorldEditMode(!isWorldEditMode);
+  }, [
+    isWorldEditMode,
+    editSession,
+    setWorldEditMode,
+    updatePlanetsFromStore,
+    t,
+  ]);
+
+  const handleTransformWorlds = useCallback(
+    (update: { size?: number; rotation?: number }, mergeKey: string) => {
+      setEditSession(
+        (session) =>
+          session &&
+          applyCommand(
+            session,
+            createTransformCommand(
+              session.current,
+              selectedWorldIds,
+              update,
+              snap,
+              mergeKey,
+            ),
+          ),
+      );
+    },
+    [selectedWorldIds, snap],
+  );
+
+  // All pending edits go in one save, recorded as a new layout version
+  const handleSaveLayout = useCallback(
+    async (note: string) => {
+      if (!editSession) return false;
+
+      setIsSaving(true);
+      const saved = await saveWorldLayout(getPendingChanges(editSession), note);
+      setIsSaving(false);
+
+      if (saved) {
+        setEditSession((session) => session && markSessionSaved(session));
+      }
+      return saved;
+    },
+    [editSession, saveWorldLayout],
+  );
+
+  const handleDiscardLayout = useCallback(() => {
+    if (!editSession || !confirm(t("worldEditor.discardConfirm"))) return;
+    setEditSession(createEditSession(Object.values(editSession.saved)));
+  }, [editSession, t]);
+
+  // A rollback replaces the layout, so editing starts over from it
+  const handleRollbackLayout = useCallback(
+    async (version: number) => {
+      setIsSaving(true);
+      const rolledBack = await rollbackWorldLayout(version);
+      setIsSaving(false);
+
+      if (rolledBack) {
+        setEditSession(
+          createEditSession(useGameStore.getState().worldPositions),
+        );
+      }
+      return rolledBack;
+    },
+    [rollbackWorldLayout],
+  );
+
   // Modal handlers
   const handleLandingConfirm = useCallback(() => {
     if (selectedPlanet) {
@@ -1392,6 +1962,28 @@ export const SpaceMap: React.FC = () => {
     setSelectedPlanet(null);
   }, [selectedPlanet, gameState.ship.x, gameState.ship.y]);
 
+  const engageAutopilot = useCallback((planetId: string) => {
+    setNavigationTargetId(planetId);
+    setIsAutopilotEngaged(true);
+    autopilotAnchorRef.current = null;
+
+    playAutoPilotActivationSound().catch(() => {
+      // Sound is not critical, ignore errors
+    });
+  }, []);
+
+  const cancelAutopilot = useCallback(() => {
+    setIsAutopilotEngaged(false);
+  }, []);
+
+  const handleSelectNavigationTarget = useCallback(
+    (planetId: string | null) => {
+      setNavigationTargetId(planetId);
+      if (!planetId) setIsAutopilotEngaged(false);
+    },
+    [],
+  );
+
   const handleLandingCancel = useCallback(() => {
     setShowLandingModal(false);
     setSelectedPlanet(null);
@@ -1417,6 +2009,11 @@ export const SpaceMap: React.FC = () => {
       clearInterval(shootingIntervalRef.current);
       shootingIntervalRef.current = null;
     }
+
+    // A drag that leaves the map ends where it is
+    worldDragRef.current = null;
+    selectionBoxRef.current = null;
+    setIsDragging(false);
   }, []);
 
   // Optimized game loop with pre-rendering considerations
@@ -1437,19 +2034,15 @@ export const SpaceMap: React.FC = () => {
         const frameTime = currentTime - fpsRef.current.lastTime;
         fpsRef.current.frameTimes.push(frameTime);
 
-        // Keep only last 60 frames for average
-        if (fpsRef.current.frameTimes.length > 60) {
+        // Keep only the last frames for the average and percentiles
+        if (fpsRef.current.frameTimes.length > FRAME_TIME_SAMPLES) {
           fpsRef.current.frameTimes.shift();
         }
 
         // Update FPS every 30 frames
         fpsRef.current.frameCount++;
         if (fpsRef.current.frameCount >= 30) {
-          const avgFrameTime =
-            fpsRef.current.frameTimes.reduce((a, b) => a + b, 0) /
-            fpsRef.current.frameTimes.length;
-          const currentFps = Math.round(1000 / avgFrameTime);
-          setFps(currentFps);
+          setFrameTiming(summarizeFrameTimes(fpsRef.current.frameTimes));
           fpsRef.current.frameCount = 0;
         }
       }
@@ -1468,48 +2061,114 @@ export const SpaceMap: React.FC = () => {
       const centerX = canvas.width / 2;
       const centerY = canvas.height / 2;
 
-      // Update game state
-      setGameState((prevState) => {
-        const newState = { ...prevState };
-
-        // Only respond to mouse if it has actually moved and modal is not open and not landing
-        if (
-          hasMouseMoved.current &&
-          !showLandingModal &&
-          !isLandingAnimationActive
-        ) {
-          const worldMouseX = mouseRef.current.x - centerX + newState.camera.x;
-          const worldMouseY = mouseRef.current.y - centerY + newState.camera.y;
-
-          const dx = getWrappedDistance(worldMouseX, newState.ship.x);
-          const dy = getWrappedDistance(worldMouseY, newState.ship.y);
-          const distance = Math.sqrt(dx * dx + dy * dy);
-
-          newState.ship.angle = Math.atan2(dy, dx);
+      // During landing the camera follows the ship's orbit around the planet
+      let cameraTarget: Point | undefined;
+      if (isLandingAnimationActive && landingAnimationData) {
+        const elapsed = performance.now() - landingAnimationData.startTime;
+        const progress = Math.min(elapsed / landingAnimationData.duration, 1);
+        const planet = landingAnimationData.planet;
+        const initialDx = landingAnimationData.initialShipX - planet.x;
+        const initialDy = landingAnimationData.initialShipY - planet.y;
+        const initialRadius = Math.sqrt(
+          initialDx * initialDx + initialDy * initialDy,
+        );
+        const orbitSpeed = 1;
+        const initialAngle = Math.atan2(initialDy, initialDx);
+        const angleProgress =
+          initialAngle + progress * orbitSpeed * Math.PI * 2;
+        const currentRadius = initialRadius * (1 - progress * 0.9);
+        cameraTarget = {
+          x: planet.x + Math.cos(angleProgress) * currentRadius,
+          y: planet.y + Math.sin(angleProgress) * currentRadius,
+        };
+      }
 
-          if (mouseInWindow && distance > 10) {
-            const speedMultiplier = Math.min(distance / 300, 1);
-            const targetSpeed = SHIP_MAX_SPEED * speedMultiplier;
-            newState.ship.vx += (dx / distance) * targetSpeed * 0.04;
-            newState.ship.vy += (dy / distance) * targetSpeed * 0.04;
-          }
-        }
+      // Keys, gamepad and touch take the controls from the mouse and autopilot
+      const input = readInput();
+      const canPilot = !showLandingModal && !isLandingAnimationActive;
+      const manualControls = canPilot && isSteering(input) ? input : undefined;
+      if (manualControls) {
+        // Don't swing back to the pointer once the keys are released
+        hasMouseMoved.current = false;
+        if (isAutopilotEngaged) setIsAutopilotEngaged(false);
+      }
+      if (canPilot && input.fire && !(user?.isAdmin && isWorldEditMode)) {
+        // The cooldown keeps a held button at the mouse's fire rate
+        shootProjectile();
+      }
 
-        // Apply physics only when not landing
-        if (!isLandingAnimationActive) {
-          // Apply less friction when mouse is outside window to maintain momentum
-          const currentFriction = mouseInWindow ? FRICTION : 0.995;
-          newState.ship.vx *= currentFriction;
-          newState.ship.vy *= currentFriction;
-          newState.ship.x += newState.ship.vx;
-          newState.ship.y += newState.ship.vy;
-
-          newState.ship.x = normalizeCoord(newState.ship.x);
-          newState.ship.y = normalizeCoord(newState.ship.y);
+      // Only respond to mouse if it has actually moved and modal is not open and not landing
+      const steering =
+        hasMouseMoved.current && !showLandingModal && !isLandingAnimationActive;
+      const navigationTarget = planetsRef.current.find(
+        (planet) => planet.id === navigationTargetId,
+      );
+      const autopilotTarget =
+        isAutopilotEngaged &&
+        navigationTarget &&
+        !showLandingModal &&
+        !manualControls
+          ? {
+              x: navigationTarget.x,
+              y: navigationTarget.y,
+              arrivalRadius: navigationTarget.interactionRadius,
+            }
+          : undefined;
+
+      // Spawn and drop asteroids and creatures as the ship crosses regions.
+      // Regions turn over on the wall clock so every client agrees.
+      const simulation = simulationRef.current;
+      if (planetsRef.current.length > 0) {
+        const entities = syncRegions(
+          simulation.current.entities,
+          encounterRegionsRef.current,
+          simulation.current.ship,
+          Date.now(),
+          planetsRef.current.map((planet) => ({
+            x: planet.x,
+            y: planet.y,
+            radius: planet.interactionRadius,
+          })),
+        );
+        if (entities !== simulation.current.entities) {
+          simulation.current = { ...simulation.current, entities };
         }
+      }
 
-        return newState;
-      });
+      // Advance the simulation in fixed ticks, then draw between the last two
+      const combatEvents: CombatEvent[] = [];
+      const alpha = advanceSimulation(
+        simulation,
+        currentTime,
+        {
+          pointer: steering
+            ? {
+                x: mouseRef.current.x - centerX,
+                y: mouseRef.current.y - centerY,
+              }
+            : null,
+          // Less friction when mouse is outside window to maintain momentum
+          engaged: mouseInWindow,
+          frozen: isLandingAnimationActive,
+          cameraTarget,
+          autopilot: autopilotTarget,
+          manual: manualControls,
+        },
+        (state, controls) => {
+          const next = stepCombatWorld(state, controls);
+          combatEvents.push(...next.events);
+          return next;
+        },
+      );
+      const frame = interpolateWorld(simulation, alpha);
+      const entities = interpolateEntities(
+        simulation.previous.entities,
+        simulation.current.entities,
+        alpha,
+      );
+      setGameState({ ship: frame.ship, camera: frame.camera });
+      setHull(Math.ceil(simulation.current.hull));
+      handleCombatEvents(combatEvents);
 
       // Create trail points after ship position update
       const currentShipVelocity = Math.sqrt(
@@ -1553,74 +2212,8 @@ export const SpaceMap: React.FC = () => {
       // Update trail points
       updateTrailPoints(deltaTime);
 
-      // Continue with game state update
-      setGameState((prevState) => {
-        const newState = { ...prevState };
-
-        // Camera follows ship (use current ship position for landing animation)
-        const targetX =
-          isLandingAnimationActive && landingAnimationData
-            ? (function () {
-                const currentTime = performance.now();
-                const elapsed = currentTime - landingAnimationData.startTime;
-                const progress = Math.min(
-                  elapsed / landingAnimationData.duration,
-                  1,
-                );
-                const planet = landingAnimationData.planet;
-                const initialDx = landingAnimationData.initialShipX - planet.x;
-                const initialDy = landingAnimationData.initialShipY - planet.y;
-                const initialRadius = Math.sqrt(
-                  initialDx * initialDx + initialDy * initialDy,
-                );
-                const orbitSpeed = 1;
-                const initialAngle = Math.atan2(initialDy, initialDx);
-                const angleProgress =
-                  initialAngle + progress * orbitSpeed * Math.PI * 2;
-                const currentRadius = initialRadius * (1 - progress * 0.9);
-                return planet.x + Math.cos(angleProgress) * currentRadius;
-              })()
-            : newState.ship.x;
-
-        const targetY =
-          isLandingAnimationActive && landingAnimationData
-            ? (function () {
-                const currentTime = performance.now();
-                const elapsed = currentTime - landingAnimationData.startTime;
-                const progress = Math.min(
-                  elapsed / landingAnimationData.duration,
-                  1,
-                );
-                const planet = landingAnimationData.planet;
-                const initialDx = landingAnimationData.initialShipX - planet.x;
-                const initialDy = landingAnimationData.initialShipY - planet.y;
-                const initialRadius = Math.sqrt(
-                  initialDx * initialDx + initialDy * initialDy,
-                );
-                const orbitSpeed = 1;
-                const initialAngle = Math.atan2(initialDy, initialDx);
-                const angleProgress =
-                  initialAngle + progress * orbitSpeed * Math.PI * 2;
-                const currentRadius = initialRadius * (1 - progress * 0.9);
-                return planet.y + Math.sin(angleProgress) * currentRadius;
-              })()
-            : newState.ship.y;
-
-        const cameraFollowSpeed = 0.08;
-        const deltaX = getWrappedDistance(targetX, newState.camera.x);
-        const deltaY = getWrappedDistance(targetY, newState.camera.y);
-
-        newState.camera.x += deltaX * cameraFollowSpeed;
-        newState.camera.y += deltaY * cameraFollowSpeed;
-
-        newState.camera.x = normalizeCoord(newState.camera.x);
-        newState.camera.y = normalizeCoord(newState.camera.y);
-
-        return newState;
-      });
-
       // Save to store for persistence (throttled) - moved outside setState
-      saveShipState({
+      const currentShip = {
         x: gameState.ship.x,
         y: gameState.ship.y,
         angle: gameState.ship.angle,
@@ -1628,13 +2221,56 @@ export const SpaceMap: React.FC = () => {
         vy: gameState.ship.vy,
         cameraX: gameState.camera.x,
         cameraY: gameState.camera.y,
-      });
+      };
+      saveShipState(currentShip);
+      publishShipState(currentShip);
+
+      // Reveal the galaxy map around the ship as it enters new sectors
+      const currentSector = getSectorIndex(gameState.ship.x, gameState.ship.y);
+      if (currentSector !== lastSectorRef.current) {
+        lastSectorRef.current = currentSector;
+        discoverSectors(getSectorsAround(gameState.ship.x, gameState.ship.y));
+      }
+
+      if (
+        navigationTarget &&
+        autopilotTarget &&
+        hasAutopilotArrived(simulation.current.ship, autopilotTarget)
+      ) {
+        // The autopilot has parked the ship: offer the landing
+        setIsAutopilotEngaged(false);
+        setNavigationTargetId(null);
+        setSelectedPlanet(navigationTarget);
+        setShowLandingModal(true);
+      } else if (navigationTarget && !isAutopilotEngaged) {
+        // The navigation target is reached once inside its landing area
+        const targetDx = getWrappedDistance(
+          navigationTarget.x,
+          gameState.ship.x,
+        );
+        const targetDy = getWrappedDistance(
+          navigationTarget.y,
+          gameState.ship.y,
+        );
+        if (
+          Math.sqrt(targetDx * targetDx + targetDy * targetDy) <=
+          navigationTarget.interactionRadius
+        ) {
+          setNavigationTargetId(null);
+        }
+      }
 
       // Check for planets in range and create radar pulses
       const currentShipState = gameState;
       const currentPlanetsInRange = new Set<string>();
+      const planetHash = getPlanetHash();
 
-      planetsRef.current.forEach((planet) => {
+      queryHash(
+        planetHash,
+        currentShipState.ship.x,
+        currentShipState.ship.y,
+        0,
+      ).forEach((planet) => {
         const shipToPlanetX = getWrappedDistance(
           planet.x,
           currentShipState.ship.x,
@@ -1657,9 +2293,13 @@ export const SpaceMap: React.FC = () => {
             createRadarPulse(planet);
             lastRadarPulseTime.current.set(planet.id, currentTime);
           }
-        } else {
-          // Remove pulse timing when out of range
-          lastRadarPulseTime.current.delete(planet.id);
+        }
+      });
+
+      // Remove pulse timing when out of range
+      lastRadarPulseTime.current.forEach((_, planetId) => {
+        if (!currentPlanetsInRange.has(planetId)) {
+          lastRadarPulseTime.current.delete(planetId);
         }
       });
 
@@ -1695,21 +2335,6 @@ export const SpaceMap: React.FC = () => {
         star.pulse += star.speed * 0.8;
       }
 
-      // Update projectiles with delta time
-      const currentFrameTime = performance.now();
-      const projectileDeltaTime =
-        (currentFrameTime - lastFrameTimeRef.current) / 1000; // Convert to seconds
-      lastFrameTimeRef.current = currentFrameTime;
-
-      projectilesRef.current = projectilesRef.current
-        .map((proj) => ({
-          ...proj,
-          x: normalizeCoord(proj.x + proj.vx * projectileDeltaTime),
-          y: normalizeCoord(proj.y + proj.vy * projectileDeltaTime),
-          life: proj.life - projectileDeltaTime,
-        }))
-        .filter((proj) => proj.life > 0);
-
       // Create shooting stars periodically
       if (
         currentTime - lastShootingStarTime.current >
@@ -1741,7 +2366,44 @@ export const SpaceMap: React.FC = () => {
       ctx.fillStyle = "#000000";
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-      // Render stars with extended viewport for smooth scrolling and batching
+      // Composite the pre-rendered star layers, farthest first
+      const starfieldTiles = starfieldTilesRef.current;
+      if (starfieldTiles) {
+        starfieldTiles.beginFrame();
+        Array.from(staticStarLayersRef.current.keys())
+          .sort((a, b) => a - b)
+          .forEach((parallax) => {
+            const geometry = getLayerGeometry(parallax);
+            const layerWindow = getLayerWindow(
+              geometry,
+              canvas.width,
+              canvas.height,
+            );
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(
+              layerWindow.left,
+              layerWindow.top,
+              layerWindow.width,
+              layerWindow.height,
+            );
+            ctx.clip();
+            getVisibleTiles(
+              geometry,
+              gameState.camera,
+              canvas.width,
+              canvas.height,
+            ).forEach(({ column, row, screenX, screenY }) => {
+              const tile = starfieldTiles.getTile(parallax, column, row);
+              if (tile) {
+                ctx.drawImage(tile, Math.round(screenX), Math.round(screenY));
+              }
+            });
+            ctx.restore();
+          });
+      }
+
+      // Render twinkling stars with extended viewport and batching
       const renderViewport = {
         left: -RENDER_BUFFER,
         right: canvas.width + RENDER_BUFFER,
@@ -1751,7 +2413,20 @@ export const SpaceMap: React.FC = () => {
 
       // Batch stars by type for optimized rendering
       const starBatches = { normal: [], bright: [], giant: [] };
-      const starArray = starsRef.current;
+      // Only the stars around the camera: a layer moves `parallax` times as
+      // fast as the camera, so its visible area shrinks by as much
+      const starArray: Star[] = [];
+      starHashesRef.current.forEach((layer, parallax) => {
+        starArray.push(
+          ...queryHash(
+            layer,
+            gameState.camera.x,
+            gameState.camera.y,
+            (canvas.width / 2 + RENDER_BUFFER) / parallax,
+            (canvas.height / 2 + RENDER_BUFFER) / parallax,
+          ),
+        );
+      });
 
       for (let i = 0, len = starArray.length; i < len; i++) {
         const star = starArray[i];
@@ -1805,7 +2480,7 @@ export const SpaceMap: React.FC = () => {
           const star = batch[i];
           ctx.save();
           ctx.globalAlpha = star.alpha;
-          drawPureLightStar(
+          drawLightStar(
             ctx,
             star.x,
             star.y,
@@ -1830,41 +2505,76 @@ export const SpaceMap: React.FC = () => {
       const barrierScreenX = centerX + barrierWrappedDeltaX;
       const barrierScreenY = centerY + barrierWrappedDeltaY;
 
-      ctx.save();
-      ctx.globalAlpha = 0.15; // Muito transparente
-      ctx.strokeStyle = "#888888"; // Cinza
-      ctx.lineWidth = 2;
-
-      // Rotaç��o lenta baseada no tempo
+      // Rotação lenta baseada no tempo: the ring is drawn once and turned
       const rotationTime = currentTime * 0.0005; // Muito lenta
-      const dashOffset = (rotationTime * 50) % 20; // Offset dos traços para simular rotação
+      const barrierImage = getBarrierImage();
+      const barrierReach = barrierImage.width / 2;
+      if (
+        barrierScreenX > -barrierReach &&
+        barrierScreenX < canvas.width + barrierReach &&
+        barrierScreenY > -barrierReach &&
+        barrierScreenY < canvas.height + barrierReach
+      ) {
+        ctx.save();
+        ctx.globalAlpha = 0.15; // Muito transparente
+        ctx.translate(barrierScreenX, barrierScreenY);
+        ctx.rotate((rotationTime * 50) / BARRIER_RADIUS);
+        ctx.drawImage(barrierImage, -barrierReach, -barrierReach);
+        ctx.restore();
+      }
 
-      ctx.setLineDash([10, 10]);
-      ctx.lineDashOffset = -dashOffset; // Anima os traços
-      ctx.beginPath();
-      ctx.arc(barrierScreenX, barrierScreenY, BARRIER_RADIUS, 0, Math.PI * 2);
-      ctx.stroke();
-      ctx.restore();
+      // Snapping grid in world coordinates while editing
+      if (user?.isAdmin && isWorldEditMode && snap.gridSize) {
+        const grid = snap.gridSize;
+        const left = gameState.camera.x - centerX;
+        const top = gameState.camera.y - centerY;
 
-      // Render planets
-      planetsRef.current.forEach((planet) => {
+        ctx.save();
+        ctx.globalAlpha = 0.08;
+        ctx.strokeStyle = "#ffffff";
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (
+          let x = Math.ceil(left / grid) * grid;
+          x < left + canvas.width;
+          x += grid
+        ) {
+          ctx.moveTo(x - left, 0);
+          ctx.lineTo(x - left, canvas.height);
+        }
+        for (
+          let y = Math.ceil(top / grid) * grid;
+          y < top + canvas.height;
+          y += grid
+        ) {
+          ctx.moveTo(0, y - top);
+          ctx.lineTo(canvas.width, y - top);
+        }
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Render planets near the viewport (their cells cover their whole size)
+      queryHash(
+        planetHash,
+        gameState.camera.x,
+        gameState.camera.y,
+        centerX + RENDER_BUFFER,
+        centerY + RENDER_BUFFER,
+      ).forEach((planet) => {
         const wrappedDeltaX = getWrappedDistance(planet.x, gameState.camera.x);
         const wrappedDeltaY = getWrappedDistance(planet.y, gameState.camera.y);
 
         const screenX = centerX + wrappedDeltaX;
         const screenY = centerY + wrappedDeltaY;
 
-        // Always render planets regardless of viewport position
         {
           // Check if ship is within interaction radius for visual feedback
-          const shipToPlanetX = getWrappedDistance(planet.x, gameState.ship.x);
-          const shipToPlanetY = getWrappedDistance(planet.y, gameState.ship.y);
-          const shipToPlanetDistance = Math.sqrt(
-            shipToPlanetX * shipToPlanetX + shipToPlanetY * shipToPlanetY,
-          );
-          const isInRange = shipToPlanetDistance <= planet.interactionRadius;
+          const isInRange = currentPlanetsInRange.has(planet.id);
           const isSelected =
-            user?.isAdmin && isWorldEditMode && selectedWorldId === planet.id;
+            user?.isAdmin &&
+            isWorldEditMode &&
+            selectedWorldIds.includes(planet.id);
 
           // Render interaction circle (only visible to admins)
           if (user?.isAdmin) {
@@ -1933,8 +2643,36 @@ export const SpaceMap: React.FC = () => {
         }
       });
 
+      drawSpaceEntities(ctx, entities, gameState.camera.x, gameState.camera.y);
+
+      // Selection box being dragged in edit mode
+      const selectionBox = selectionBoxRef.current;
+      if (selectionBox) {
+        const boxX =
+          centerX + getWrappedDistance(selectionBox.from.x, gameState.camera.x);
+        const boxY =
+          centerY + getWrappedDistance(selectionBox.from.y, gameState.camera.y);
+        const boxWidth = getWrappedDistance(
+          selectionBox.to.x,
+          selectionBox.from.x,
+        );
+        const boxHeight = getWrappedDistance(
+          selectionBox.to.y,
+          selectionBox.from.y,
+        );
+
+        ctx.save();
+        ctx.fillStyle = "rgba(255, 255, 0, 0.08)";
+        ctx.strokeStyle = "#ffff00";
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 4]);
+        ctx.fillRect(boxX, boxY, boxWidth, boxHeight);
+        ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+        ctx.restore();
+      }
+
       // Render projectiles as bright energy beams
-      projectilesRef.current.forEach((proj) => {
+      frame.projectiles.forEach((proj) => {
         const wrappedDeltaX = getWrappedDistance(proj.x, gameState.camera.x);
         const wrappedDeltaY = getWrappedDistance(proj.y, gameState.camera.y);
         const screenX = centerX + wrappedDeltaX;
@@ -2067,6 +2805,9 @@ export const SpaceMap: React.FC = () => {
       const shipScreenX = centerX + shipWrappedDeltaX;
       const shipScreenY = centerY + shipWrappedDeltaY;
 
+      // Other players' ships go under our own
+      drawRemoteShips(ctx, gameState.camera.x, gameState.camera.y);
+
       // Draw the trail
       drawShipTrail(ctx, shipScreenX, shipScreenY, shipWorldX, shipWorldY);
 
@@ -2086,11 +2827,11 @@ export const SpaceMap: React.FC = () => {
           shipWorldY = landingAnimationData.planet.y;
           shipScale = 0; // Hide the ship immediately
 
-          // Update the game state to keep ship at planet position
-          setGameState((prevState) => ({
-            ...prevState,
+          // Update the simulation to keep ship at planet position
+          resetSimulation(simulationRef.current, (state) => ({
+            ...state,
             ship: {
-              ...prevState.ship,
+              ...state.ship,
               x: landingAnimationData.planet.x,
               y: landingAnimationData.planet.y,
               vx: 0,
@@ -2103,7 +2844,7 @@ export const SpaceMap: React.FC = () => {
             setIsLandingAnimationActive(false);
             setLandingAnimationData(null);
             setCurrentPlanet(landingAnimationData.planet);
-            setCurrentScreen("planet");
+            navigate(paths.planet(landingAnimationData.planet.id));
           }, 100); // Brief delay to ensure smooth transition
         } else {
           // Calculate orbital animation
@@ -2181,6 +2922,15 @@ export const SpaceMap: React.FC = () => {
       ctx.restore();
       ctx.globalAlpha = 1;
 
+      if (navigationTarget) {
+        drawNavigationTarget(
+          ctx,
+          navigationTarget,
+          gameState.camera.x,
+          gameState.camera.y,
+        );
+      }
+
       // Render radar pulses
       radarPulsesRef.current.forEach((pulse) => {
         drawRadarPulse(
@@ -2220,11 +2970,24 @@ export const SpaceMap: React.FC = () => {
     };
   }, [
     gameState,
-    getWrappedDistance,
-    normalizeCoord,
-    drawPureLightStar,
     saveShipState,
     forceSaveShipState,
+    publishShipState,
+    drawRemoteShips,
+    drawNavigationTarget,
+    drawSpaceEntities,
+    getPlanetHash,
+    getBarrierImage,
+    handleCombatEvents,
+    discoverSectors,
+    navigationTargetId,
+    isAutopilotEngaged,
+    readInput,
+    shootProjectile,
+    isWorldEditMode,
+    selectedWorldIds,
+    snap,
+    user?.isAdmin,
     createRadarPulse,
     drawRadarPulse,
     showLandingModal,
@@ -2235,7 +2998,7 @@ export const SpaceMap: React.FC = () => {
     isLandingAnimationActive,
     landingAnimationData,
     setCurrentPlanet,
-    setCurrentScreen,
+    navigate,
     createTrailPoint,
     updateTrailPoints,
     drawShipTrail,
@@ -2275,13 +3038,7 @@ export const SpaceMap: React.FC = () => {
       {user?.isAdmin && (
         <div className="absolute top-2 right-2 space-y-2">
           <button
-            onClick={() => {
-              setWorldEditMode(!isWorldEditMode);
-              if (isWorldEditMode) {
-                setSelectedWorldId(null);
-                setIsDragging(false);
-              }
-            }}
+            onClick={toggleWorldEditMode}
             className={`block w-full px-3 py-1 text-xs rounded-lg font-medium transition-all ${
               isWorldEditMode
                 ? "bg-red-600 text-white hover:bg-red-700"
@@ -2293,214 +3050,37 @@ export const SpaceMap: React.FC = () => {
         </div>
       )}
 
-      {/* World Controls when selected */}
-      {user?.isAdmin && isWorldEditMode && selectedWorldId && (
-        <div className="absolute top-14 right-2 bg-white rounded-lg p-3 shadow-lg border border-gray-200 w-64">
-          <h4 className="text-sm font-bold text-gray-900 mb-3">
-            Mundo:{" "}
-            {planetsRef.current.find((p) => p.id === selectedWorldId)?.name}
-          </h4>
-
-          {/* Size Control */}
-          <div className="mb-3">
-            <label className="block text-xs font-medium text-gray-700 mb-1">
-              Tamanho:{" "}
-              {planetsRef.current.find((p) => p.id === selectedWorldId)?.size ||
-                60}
-            </label>
-            <input
-              type="range"
-              min="20"
-              max="1000"
-              value={
-                planetsRef.current.find((p) => p.id === selectedWorldId)
-                  ?.size || 60
-              }
-              onChange={async (e) => {
-                const newSize = Number(e.target.value);
-
-                // Update immediately for responsive feedback
-                planetsRef.current = planetsRef.current.map((planet) =>
-                  planet.id === selectedWorldId
-                    ? {
-                        ...planet,
-                        size: newSize,
-                        interactionRadius: Math.max(90, newSize + 30),
-                      }
-                    : planet,
-                );
-
-                // Save to database with throttling to avoid too many calls
-                clearTimeout((window as any).worldSizeTimeout);
-                (window as any).worldSizeTimeout = setTimeout(async () => {
-                  if (selectedWorldId) {
-                    console.log("📏 Attempting to save world size:", {
-                      selectedWorldId,
-                      newSize,
-                    });
-                    console.log("📏 Saving world size:", {
-                      selectedWorldId,
-                      newSize,
-                    });
-                    updateWorldPosition(selectedWorldId, {
-                      size: newSize,
-                    });
-                  }
-                }, 300);
-              }}
-              className="w-full h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer"
-            />
-          </div>
-
-          {/* Rotation Control */}
-          <div className="mb-3">
-            <label className="block text-xs font-medium text-gray-700 mb-1">
-              Rotação:{" "}
-              {Math.round(
-                ((planetsRef.current.find((p) => p.id === selectedWorldId)
-                  ?.rotation || 0) *
-                  180) /
-                  Math.PI,
-              )}
-              ��
-            </label>
-            <input
-              type="range"
-              min="0"
-              max={Math.PI * 2}
-              step="0.1"
-              value={
-                planetsRef.current.find((p) => p.id === selectedWorldId)
-                  ?.rotation || 0
-              }
-              onChange={async (e) => {
-                const newRotation = Number(e.target.value);
-
-                // Update immediately for responsive feedback
-                planetsRef.current = planetsRef.current.map((planet) =>
-                  planet.id === selectedWorldId
-                    ? { ...planet, rotation: newRotation }
-                    : planet,
-                );
-
-                // Save to database with throttling to avoid too many calls
-                clearTimeout((window as any).worldRotationTimeout);
-                (window as any).worldRotationTimeout = setTimeout(() => {
-                  if (selectedWorldId) {
-                    console.log("�� Saving world rotation:", {
-                      selectedWorldId,
-                      newRotation,
-                    });
-                    updateWorldPosition(selectedWorldId, {
-                      rotation: newRotation,
-                    });
-                  }
-                }, 300);
-              }}
-              className="w-full h-2 bg-purple-200 rounded-lg appearance-none cursor-pointer"
-            />
-          </div>
-
-          {/* Interaction Radius Control */}
-          <div className="mb-3">
-            <label className="block text-xs font-medium text-gray-700 mb-1">
-              ����rea de Pouso:{" "}
-              {Math.round(
-                planetsRef.current.find((p) => p.id === selectedWorldId)
-                  ?.interactionRadius || 90,
-              )}
-              px
-            </label>
-            <input
-              type="range"
-              min="50"
-              max="1000"
-              step="5"
-              value={
-                planetsRef.current.find((p) => p.id === selectedWorldId)
-                  ?.interactionRadius || 90
-              }
-              onChange={(e) => {
-                const newRadius = Number(e.target.value);
-
-                // Update local state immediately
-                planetsRef.current = planetsRef.current.map((planet) =>
-                  planet.id === selectedWorldId
-                    ? { ...planet, interactionRadius: newRadius }
-                    : planet,
-                );
-
-                // Save to store with throttling
-                clearTimeout((window as any).worldInteractionTimeout);
-                (window as any).worldInteractionTimeout = setTimeout(() => {
-                  if (selectedWorldId) {
-                    console.log("🎯 Saving interaction radius:", {
-                      selectedWorldId,
-                      newRadius,
-                    });
-                    updateWorldPosition(selectedWorldId, {
-                      interactionRadius: newRadius,
-                    });
-                  }
-                }, 300);
-              }}
-              className="w-full h-2 bg-green-200 rounded-lg appearance-none cursor-pointer"
-            />
-          </div>
-
-          <div className="flex space-x-2 mt-3">
-            <button
-              onClick={() => {
-                setIsDragging(true);
-                setDragOffset({ x: 0, y: 0 });
-              }}
-              className={`flex-1 px-2 py-1 text-xs rounded ${
-                isDragging
-                  ? "bg-red-100 text-red-700 border border-red-300"
-                  : "bg-green-100 text-green-700 border border-green-300 hover:bg-green-200"
-              }`}
-              disabled={isDragging}
-            >
-              {isDragging ? "Arrastando..." : "Mover Mundo"}
-            </button>
-
-            {isDragging && (
-              <button
-                onClick={() => {
-                  // Save final position
-                  if (selectedWorldId) {
-                    const planet = planetsRef.current.find(
-                      (p) => p.id === selectedWorldId,
-                    );
-                    if (planet) {
-                      console.log("✅ Confirming world position:", {
-                        selectedWorldId,
-                        x: planet.x,
-                        y: planet.y,
-                      });
-                      updateWorldPosition(selectedWorldId, {
-                        x: planet.x,
-                        y: planet.y,
-                      });
-                    }
-                  }
-
-                  setIsDragging(false);
-                  setDragOffset({ x: 0, y: 0 });
-                }}
-                className="flex-1 px-2 py-1 text-xs rounded bg-blue-100 text-blue-700 border border-blue-300 hover:bg-blue-200"
-              >
-                Confirmar
-              </button>
-            )}
-          </div>
-
-          <p className="text-xs text-gray-500 mt-2">
-            ✅ Alterações salvas automaticamente
-            <br />
-            ESC para cancelar • Clique fora para desselecionar
-          </p>
-        </div>
+      {user?.isAdmin && isWorldEditMode && editSession && (
+        <WorldEditorPanel
+          selectedWorlds={planetsRef.current
+            .filter((planet) => selectedWorldIds.includes(planet.id))
+            .map((planet) => ({
+              ...planet,
+              ...editSession.current[planet.id],
+            }))}
+          snap={snap}
+          canUndo={editSession.undoStack.length > 0}
+          canRedo={editSession.redoStack.length > 0}
+          pendingCount={getPendingChanges(editSession).length}
+          isSaving={isSaving}
+          onSnapChange={setSnap}
+          onTransform={handleTransformWorlds}
+          // The landing area is not part of the saved layout
+          onInteractionRadiusChange={(radius) =>
+            updateWorldPosition(selectedWorldIds[0], {
+              interactionRadius: radius,
+            })
+          }
+          onUndo={() =>
+            setEditSession((session) => session && undoEdit(session))
+          }
+          onRedo={() =>
+            setEditSession((session) => session && redoEdit(session))
+          }
+          onSave={handleSaveLayout}
+          onDiscard={handleDiscardLayout}
+          onRollback={handleRollbackLayout}
+        />
       )}
 
       <div className="absolute top-2 left-2 text-white text-xs bg-black bg-opacity-70 p-2 rounded">
@@ -2523,25 +3103,64 @@ export const SpaceMap: React.FC = () => {
         >
           FPS: {fps}
         </div>
+        <div className="text-gray-300">
+          p50/p95/p99: {frameTiming.p50.toFixed(1)}/{frameTiming.p95.toFixed(1)}
+          /{frameTiming.p99.toFixed(1)} ms
+        </div>
+        <div
+          className={
+            hull <= MAX_HULL * 0.25
+              ? "text-red-400"
+              : hull <= MAX_HULL * 0.5
+                ? "text-yellow-400"
+                : undefined
+          }
+        >
+          {t("space.hull")}: {hull}/{MAX_HULL}
+        </div>
       </div>
 
+      <Minimap
+        ship={gameState.ship}
+        planets={planetsRef.current}
+        targetId={navigationTargetId}
+        onSelectTarget={handleSelectNavigationTarget}
+        onEngageAutopilot={() =>
+          navigationTargetId && engageAutopilot(navigationTargetId)
+        }
+      />
+
+      <AutopilotPanel
+        ship={gameState.ship}
+        planets={planetsRef.current}
+        destinationId={isAutopilotEngaged ? navigationTargetId : null}
+        onEngage={engageAutopilot}
+        onCancel={cancelAutopilot}
+      />
+
+      <TouchControls
+        onStickChange={setTouchStick}
+        onFireChange={setTouchFire}
+      />
+
       <div className="absolute bottom-2 left-2 text-white text-xs bg-black bg-opacity-70 p-2 rounded">
         {user?.isAdmin && isWorldEditMode ? (
           <>
             <div className="text-yellow-400 font-bold mb-1">
               ��� MODO EDIÇÃO
             </div>
-            <div>�� 1º Click: Selecionar mundo</div>
-            <div>
-              • 2º Click: {isDragging ? "Confirmar posição" : "Ativar arrastar"}
-            </div>
-            <div>• ESC: Cancelar</div>
-            <div>• Painel: Tamanho/Rotação</div>
+            <div>• Click: Selecionar mundo</div>
+            <div>• Shift+Click: Adicionar/remover da seleção</div>
+            <div>• Arrastar: Mover • No vazio: Selecionar área</div>
+            <div>• Ctrl+Z / Ctrl+Shift+Z: Desfazer/Refazer</div>
+            <div>• ESC: Limpar seleção</div>
+            <div>• Painel: Tamanho/Rotação/Grade</div>
           </>
         ) : (
           <>
             <div>• Mouse: Mover nave</div>
             <div>• Click: Atirar/Planeta</div>
+            <div>• WASD/Setas: Pilotar • Espaço: Atirar</div>
           </>
         )}
       </div>
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Crosshair } from "lucide-react";
+import { useTranslation } from "../../i18n";
+import { Point } from "../../utils/spacePhysics";
+
+// Knob travel from the joystick center, in pixels
+const STICK_RADIUS = 48;
+// Share of the travel ignored around the center
+const STICK_DEADZONE = 0.15;
+
+interface TouchControlsProps {
+  onStickChange: (stick: Point | null) => void;
+  onFireChange: (firing: boolean) => void;
+}
+
+const isTouchDevice = () =>
+  typeof window !== "undefined" &&
+  !!window.matchMedia &&
+  window.matchMedia("(pointer: coarse)").matches;
+
+export const TouchControls: React.FC<TouchControlsProps> = ({
+  onStickChange,
+  onFireChange,
+}) => {
+  const { t } = useTranslation();
+  const [isVisible] = useState(isTouchDevice);
+  const [knob, setKnob] = useState<Point>({ x: 0, y: 0 });
+  const [isFiring, setIsFiring] = useState(false);
+  const stickPointer = useRef<number | null>(null);
+  const stickCenter = useRef<Point>({ x: 0, y: 0 });
+
+  // Let go of everything if the controls go away mid-press
+  useEffect(
+    () => () => {
+      onStickChange(null);
+      onFireChange(false);
+    },
+    [onStickChange, onFireChange],
+  );
+
+  if (!isVisible) return null;
+
+  const moveStick = (clientX: number, clientY: number) => {
+    const dx = clientX - stickCenter.current.x;
+    const dy = clientY - stickCenter.current.y;
+    const distance = Math.hypot(dx, dy);
+    const scale = distance > STICK_RADIUS ? STICK_RADIUS / distance : 1;
+    const offset = { x: dx * scale, y: dy * scale };
+    setKnob(offset);
+
+    const tilt = Math.min(distance / STICK_RADIUS, 1);
+    onStickChange(
+      tilt > STICK_DEADZONE
+        ? { x: offset.x / STICK_RADIUS, y: offset.y / STICK_RADIUS }
+        : null,
+    );
+  };
+
+  const handleStickDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (stickPointer.current !== null) return;
+
+    const bounds = event.currentTarget.getBoundingClientRect();
+    stickCenter.current = {
+      x: bounds.left + bounds.width / 2,
+      y: bounds.top + bounds.height / 2,
+    };
+    stickPointer.current = event.pointerId;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    moveStick(event.clientX, event.clientY);
+  };
+
+  const handleStickMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== stickPointer.current) return;
+    moveStick(event.clientX, event.clientY);
+  };
+
+  const handleStickUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== stickPointer.current) return;
+    stickPointer.current = null;
+    setKnob({ x: 0, y: 0 });
+    onStickChange(null);
+  };
+
+  const setFiring = (firing: boolean) => {
+    setIsFiring(firing);
+    onFireChange(firing);
+  };
+
+  return (
+    <>
+      <div
+        className="absolute bottom-24 left-6 w-32 h-32 rounded-full bg-white bg-opacity-10 border-2 border-white border-opacity-30 touch-none select-none"
+        aria-label={t("space.touchStick")}
+        onPointerDown={handleStickDown}
+        onPointerMove={handleStickMove}
+        onPointerUp={handleStickUp}
+        onPointerCancel={handleStickUp}
+      >
+        <div
+          className="absolute top-1/2 left-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-white bg-opacity-40 pointer-events-none"
+          style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+        />
+      </div>
+
+      <button
+        type="button"
+        className={`absolute bottom-6 right-48 w-20 h-20 rounded-full border-2 border-red-300 flex items-center justify-center text-white touch-none select-none ${
+          isFiring ? "bg-red-500 bg-opacity-80" : "bg-red-500 bg-opacity-40"
+        }`}
+        aria-label={t("space.touchFire")}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setFiring(true);
+        }}
+        onPointerUp={() => setFiring(false)}
+        onPointerCancel={() => setFiring(false)}
+      >
+        <Crosshair className="w-8 h-8" />
+      </button>
+    </>
+  );
+};
@@ -0,0 +1,318 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { History, Redo2, RotateCcw, Save, Undo2 } from "lucide-react";
+import { useTranslation } from "../../i18n";
+import { gameService } from "../../services/gameService";
+import { WorldLayoutVersion } from "../../types/game";
+import {
+  MAX_WORLD_SIZE,
+  MIN_WORLD_SIZE,
+  SnapSettings,
+} from "../../utils/worldEditor";
+
+interface EditorWorld {
+  id: string;
+  name: string;
+  size: number;
+  rotation: number;
+  interactionRadius: number;
+}
+
+interface WorldEditorPanelProps {
+  selectedWorlds: EditorWorld[];
+  snap: SnapSettings;
+  canUndo: boolean;
+  canRedo: boolean;
+  pendingCount: number;
+  isSaving: boolean;
+  onSnapChange: (snap: SnapSettings) => void;
+  // `mergeKey` groups the changes of one slider gesture into one undo step
+  onTransform: (
+    update: { size?: number; rotation?: number },
+    mergeKey: string,
+  ) => void;
+  onInteractionRadiusChange: (radius: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSave: (note: string) => Promise<boolean>;
+  onDiscard: () => void;
+  onRollback: (version: number) => Promise<boolean>;
+}
+
+const GRID_SIZES = [25, 50, 100, 250];
+const ANGLE_STEPS_DEGREES = [5, 15, 45, 90];
+const HISTORY_LIMIT = 10;
+
+const toDegrees = (radians: number) => Math.round((radians * 180) / Math.PI);
+
+export const WorldEditorPanel: React.FC<WorldEditorPanelProps> = ({
+  selectedWorlds,
+  snap,
+  canUndo,
+  canRedo,
+  pendingCount,
+  isSaving,
+  onSnapChange,
+  onTransform,
+  onInteractionRadiusChange,
+  onUndo,
+  onRedo,
+  onSave,
+  onDiscard,
+  onRollback,
+}) => {
+  const { t, formatDate } = useTranslation();
+  const [note, setNote] = useState("");
+  const [versions, setVersions] = useState<WorldLayoutVersion[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const gesture = useRef(0);
+
+  const loadVersions = useCallback(async () => {
+    setVersions(await gameService.getWorldLayoutVersions(HISTORY_LIMIT));
+  }, []);
+
+  useEffect(() => {
+    if (showHistory) loadVersions();
+  }, [showHistory, loadVersions]);
+
+  const [first] = selectedWorlds;
+  const startGesture = () => {
+    gesture.current++;
+  };
+
+  const handleSave = async () => {
+    if (await onSave(note.trim())) {
+      setNote("");
+      if (showHistory) loadVersions();
+    }
+  };
+
+  const handleRollback = async (version: number) => {
+    if (!confirm(t("worldEditor.rollbackConfirm", { version }))) return;
+    if (await onRollback(version)) loadVersions();
+  };
+
+  return (
+    <div className="absolute top-14 right-2 bg-white rounded-lg p-3 shadow-lg border border-gray-200 w-64 max-h-[80vh] overflow-y-auto text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-bold text-gray-900">
+          {t("worldEditor.title")}
+        </h4>
+        <div className="flex space-x-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={t("worldEditor.undo")}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={t("worldEditor.redo")}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {first ? (
+        <>
+          <p className="font-medium text-gray-700 mb-2">
+            {selectedWorlds.length === 1
+              ? first.name
+              : t("worldEditor.selected", { count: selectedWorlds.length })}
+          </p>
+
+          <label className="block font-medium text-gray-700 mb-1">
+            {t("worldEditor.size", { size: first.size })}
+          </label>
+          <input
+            type="range"
+            min={MIN_WORLD_SIZE}
+            max={MAX_WORLD_SIZE}
+            value={first.size}
+            onPointerDown={startGesture}
+            onKeyDown={startGesture}
+            onChange={(e) =>
+              onTransform(
+                { size: Number(e.target.value) },
+                `size-${gesture.current}`,
+              )
+            }
+            className="w-full h-2 mb-3 bg-blue-200 rounded-lg appearance-none cursor-pointer"
+          />
+
+          <label className="block font-medium text-gray-700 mb-1">
+            {t("worldEditor.rotation", {
+              degrees: toDegrees(first.rotation),
+            })}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max={Math.PI * 2}
+            step="0.01"
+            value={first.rotation}
+            onPointerDown={startGesture}
+            onKeyDown={startGesture}
+            onChange={(e) =>
+              onTransform(
+                { rotation: Number(e.target.value) },
+                `rotation-${gesture.current}`,
+              )
+            }
+            className="w-full h-2 mb-3 bg-purple-200 rounded-lg appearance-none cursor-pointer"
+          />
+
+          {selectedWorlds.length === 1 && (
+            <>
+              <label className="block font-medium text-gray-700 mb-1">
+                {t("worldEditor.landingArea", {
+                  radius: Math.round(first.interactionRadius),
+                })}
+              </label>
+              <input
+                type="range"
+                min="50"
+                max="1000"
+                step="5"
+                value={first.interactionRadius}
+                onChange={(e) =>
+                  onInteractionRadiusChange(Number(e.target.value))
+                }
+                className="w-full h-2 mb-3 bg-green-200 rounded-lg appearance-none cursor-pointer"
+              />
+            </>
+          )}
+        </>
+      ) : (
+        <p className="text-gray-500 mb-3">{t("worldEditor.noSelection")}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <label className="text-gray-700">
+          {t("worldEditor.snapGrid")}
+          <select
+            value={snap.gridSize ?? ""}
+            onChange={(e) =>
+              onSnapChange({
+                ...snap,
+                gridSize: e.target.value ? Number(e.target.value) : null,
+              })
+            }
+            className="block w-full mt-1 border border-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="">{t("worldEditor.snapOff")}</option>
+            {GRID_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-gray-700">
+          {t("worldEditor.snapAngle")}
+          <select
+            value={snap.angleStep ? toDegrees(snap.angleStep) : ""}
+            onChange={(e) =>
+              onSnapChange({
+                ...snap,
+                angleStep: e.target.value
+                  ? (Number(e.target.value) * Math.PI) / 180
+                  : null,
+              })
+            }
+            className="block w-full mt-1 border border-gray-300 rounded px-1 py-0.5"
+          >
+            <option value="">{t("worldEditor.snapOff")}</option>
+            {ANGLE_STEPS_DEGREES.map((degrees) => (
+              <option key={degrees} value={degrees}>
+                {degrees}°
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="border-t border-gray-200 pt-2">
+        <p
+          className={`mb-2 ${pendingCount > 0 ? "text-orange-600" : "text-gray-500"}`}
+        >
+          {pendingCount > 0
+            ? t("worldEditor.pending", { count: pendingCount })
+            : t("worldEditor.noPending")}
+        </p>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t("worldEditor.notePlaceholder")}
+          className="w-full mb-2 border border-gray-300 rounded px-2 py-1"
+        />
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            disabled={pendingCount === 0 || isSaving}
+            className="flex-1 flex items-center justify-center space-x-1 px-2 py-1 rounded bg-blue-100 text-blue-700 border border-blue-300 hover:bg-blue-200 disabled:opacity-40"
+          >
+            <Save className="w-3 h-3" />
+            <span>{t("worldEditor.save")}</span>
+          </button>
+          <button
+            onClick={onDiscard}
+            disabled={pendingCount === 0 || isSaving}
+            className="flex-1 px-2 py-1 rounded bg-red-100 text-red-700 border border-red-300 hover:bg-red-200 disabled:opacity-40"
+          >
+            {t("worldEditor.discard")}
+          </button>
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 mt-3 pt-2">
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center space-x-1 font-medium text-gray-700 hover:text-blue-600"
+        >
+          <History className="w-3 h-3" />
+          <span>{t("worldEditor.history")}</span>
+        </button>
+
+        {showHistory && (
+          <div className="mt-2 space-y-1">
+            {versions.length === 0 && (
+              <p className="text-gray-500">{t("worldEditor.noHistory")}</p>
+            )}
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className="flex items-center justify-between p-1 rounded bg-gray-50"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">
+                    v{version.version} {version.note}
+                  </div>
+                  <div className="text-gray-500">
+                    {formatDate(version.createdAt, {
+                      dateStyle: "short",
+                      timeStyle: "short",
+                    })}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRollback(version.version)}
+                  disabled={isSaving}
+                  title={t("worldEditor.rollback")}
+                  className="p-1 rounded text-gray-500 hover:text-blue-600 disabled:opacity-40"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,27 +2,61 @@ import React from "react";
 import { Heart, Globe, Package, User, Shield } from "lucide-react";
 import { useGameStore } from "../../store/gameStore";
 import { motion } from "framer-motion";
+import { useLocation, useNavigate } from "react-router-dom";
+import { paths, Screen, screenPath } from "../../utils/routes";
+import { MessageKey, useTranslation } from "../../i18n";
 
-const navigationItems = [
-  { id: "pet", label: "Pet", icon: Heart, color: "text-pink-500" },
-  { id: "world", label: "Mundo", icon: Globe, color: "text-blue-500" },
+const navigationItems: {
+  id: Screen;
+  label: MessageKey;
+  icon: typeof Heart;
+  color: string;
+}[] = [
+  { id: "pet", label: "nav.pet", icon: Heart, color: "text-pink-500" },
+  { id: "world", label: "nav.world", icon: Globe, color: "text-blue-500" },
   {
     id: "inventory",
-    label: "Inventário",
+    label: "nav.inventory",
     icon: Package,
     color: "text-orange-500",
   },
-  { id: "profile", label: "Perfil", icon: User, color: "text-purple-500" },
+  { id: "profile", label: "nav.profile", icon: User, color: "text-purple-500" },
 ];
 
+// Screens opened from a section keep that section highlighted
+const isInSection = (pathname: string, id: Screen) => {
+  switch (id) {
+    case "pet":
+      return pathname === paths.pet();
+    case "world":
+      return pathname === paths.world() || pathname.startsWith("/planet/");
+    case "profile":
+      return (
+        pathname === paths.profile() ||
+        pathname === paths.quests() ||
+        pathname.startsWith("/players/")
+      );
+    default:
+      return pathname.startsWith(screenPath(id));
+  }
+};
+
 export const BottomNavigation: React.FC = () => {
-  const { currentScreen, setCurrentScreen, user } = useGameStore();
+  const { user } = useGameStore();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { t } = useTranslation();
 
   // Add admin navigation for admin users
   const items = user?.isAdmin
     ? [
         ...navigationItems,
-        { id: "admin", label: "Admin", icon: Shield, color: "text-red-500" },
+        {
+          id: "admin" as const,
+          label: "nav.admin" as const,
+          icon: Shield,
+          color: "text-red-500",
+        },
       ]
     : navigationItems;
 
@@ -32,12 +66,12 @@ export const BottomNavigation: React.FC = () => {
         className={`flex justify-around max-w-md mx-auto px-2 py-2 ${user?.isAdmin ? "grid grid-cols-5" : "grid grid-cols-4"}`}
       >
         {items.map(({ id, label, icon: Icon, color }) => {
-          const isActive = currentScreen === id;
+          const isActive = isInSection(pathname, id);
 
           return (
             <motion.button
               key={id}
-              onClick={() => setCurrentScreen(id)}
+              onClick={() => navigate(screenPath(id))}
               className={`flex flex-col items-center py-2 px-2 rounded-xl transition-all duration-200 ${
                 isActive ? "bg-gray-100" : "hover:bg-gray-50"
               } ${id === "admin" ? "relative" : ""}`}
@@ -61,7 +95,7 @@ export const BottomNavigation: React.FC = () => {
                   isActive ? "text-gray-900" : "text-gray-500"
                 }`}
               >
-                {label}
+                {t(label)}
               </span>
               {isActive && (
                 <motion.div
@@ -1,8 +1,12 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Bell, X, Check, Trash2, Calendar } from "lucide-react";
 import { useGameStore } from "../../store/gameStore";
 import { motion, AnimatePresence } from "framer-motion";
+import { useNavigate } from "react-router-dom";
 import { MonthlyCalendar } from "../CheckIn/MonthlyCalendar";
+import { Notification } from "../../types/game";
+import { isInternalPath } from "../../utils/routes";
+import { useTranslation } from "../../i18n";
 
 export const TopBar: React.FC = () => {
   const {
@@ -16,17 +20,26 @@ export const TopBar: React.FC = () => {
     clearNotifications,
     dailyCheckin,
     canClaimDailyCheckin,
-    canClaimWeeklyReward,
-    claimWeeklyReward,
     getDailyCheckinStreak,
+    loadCheckinStatus,
   } = useGameStore();
+  const navigate = useNavigate();
+  const { t, formatNumber, formatRelativeTime } = useTranslation();
 
   const [showNotifications, setShowNotifications] = useState(false);
   const [showCheckin, setShowCheckin] = useState(false);
   const unreadCount = notifications.filter((n) => !n.isRead).length;
 
-  const handleNotificationClick = (notificationId: string) => {
-    markNotificationAsRead(notificationId);
+  useEffect(() => {
+    loadCheckinStatus();
+  }, [user?.id, loadCheckinStatus]);
+
+  const handleNotificationClick = (notification: Notification) => {
+    markNotificationAsRead(notification.id);
+    if (isInternalPath(notification.actionUrl)) {
+      setShowNotifications(false);
+      navigate(notification.actionUrl);
+    }
   };
 
   const handleBellClick = () => {
@@ -53,32 +66,13 @@ export const TopBar: React.FC = () => {
     }
   };
 
-  const handleWeeklyReward = () => {
-    if (canClaimWeeklyReward()) {
-      claimWeeklyReward();
-    }
-  };
-
   const getNotificationIcon = (type: string) => {
     // Return empty string to remove icons from notifications
     return "";
   };
 
-  const formatTimeAgo = (date: Date) => {
-    const now = new Date();
-    const diffInMinutes = Math.floor(
-      (now.getTime() - date.getTime()) / (1000 * 60),
-    );
-
-    if (diffInMinutes < 1) return "Just now";
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
-    return `${Math.floor(diffInMinutes / 1440)}d ago`;
-  };
-
   const currentStreak = getDailyCheckinStreak();
   const canClaimDaily = canClaimDailyCheckin();
-  const canClaimWeekly = canClaimWeeklyReward();
 
   return (
     <>
@@ -113,7 +107,7 @@ export const TopBar: React.FC = () => {
                 className="w-6 h-6"
               />
               <span className="text-sm font-semibold text-yellow-800">
-                {xenocoins.toLocaleString()}
+                {formatNumber(xenocoins)}
               </span>
             </motion.div>
 
@@ -129,7 +123,7 @@ export const TopBar: React.FC = () => {
                 className="w-6 h-6"
               />
               <span className="text-sm font-semibold text-green-800">
-                {cash}
+                {formatNumber(cash)}
               </span>
             </motion.div>
 
@@ -213,12 +207,14 @@ export const TopBar: React.FC = () => {
             >
               {/* Header */}
               <div className="flex items-center justify-between p-4 border-b border-gray-100">
-                <h3 className="font-semibold text-gray-900">Notificações</h3>
+                <h3 className="font-semibold text-gray-900">
+                  {t("notifications.title")}
+                </h3>
                 <div className="flex items-center space-x-1">
                   <button
                     onClick={() => clearNotifications()}
                     className="p-1.5 hover:bg-gray-100 rounded-lg transition-colors"
-                    title="Limpar todas"
+                    title={t("notifications.clearAll")}
                   >
                     <Trash2 className="w-4 h-4 text-gray-500" />
                   </button>
@@ -235,7 +231,7 @@ export const TopBar: React.FC = () => {
               <div className="overflow-y-auto flex-1">
                 {notifications.length === 0 ? (
                   <div className="p-4 text-center text-gray-500">
-                    <p>Nenhuma notificação</p>
+                    <p>{t("notifications.empty")}</p>
                   </div>
                 ) : (
                   notifications.map((notification) => (
@@ -244,7 +240,7 @@ export const TopBar: React.FC = () => {
                       className={`p-3 border-b border-gray-100 cursor-pointer hover:bg-gray-50 transition-colors ${
                         notification.isRead ? "opacity-70" : ""
                       }`}
-                      onClick={() => handleNotificationClick(notification.id)}
+                      onClick={() => handleNotificationClick(notification)}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       whileHover={{ x: 5 }}
@@ -258,7 +254,7 @@ export const TopBar: React.FC = () => {
                             {notification.message}
                           </p>
                           <p className="text-xs text-gray-400 mt-1">
-                            {formatTimeAgo(notification.createdAt)}
+                            {formatRelativeTime(notification.createdAt)}
                           </p>
                         </div>
                         <div className="flex flex-col items-end space-y-2">
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle,
+  Coins,
+  DollarSign,
+} from "lucide-react";
+import { gameService } from "../../services/gameService";
+import { CurrencyBalanceCheck, CurrencyLedgerEntry } from "../../types/game";
+
+const PAGE_SIZE = 20;
+
+const REASON_LABELS: Record<string, string> = {
+  opening_balance: "Saldo inicial",
+  shop_purchase: "Compra na loja",
+  daily_checkin: "Check-in diário",
+  redeem_code: "Código resgatado",
+  trade_escrow: "Troca (reservado)",
+  trade_refund: "Troca (devolvido)",
+  trade_completed: "Troca concluída",
+  duel_escrow: "Duelo (reservado)",
+  duel_refund: "Duelo (devolvido)",
+  duel_won: "Duelo vencido",
+  duel_lost: "Duelo perdido",
+  quest_completed: "Missão concluída",
+  saga_step_completed: "Etapa de saga concluída",
+  saga_completed: "Saga concluída",
+  achievement_unlocked: "Conquista desbloqueada",
+  admin_grant: "Ajuste administrativo",
+};
+
+const getLedgerReasonLabel = (reason: string) =>
+  REASON_LABELS[reason] || reason.replace(/_/g, " ");
+
+interface CurrencyStatementProps {
+  userId: string;
+}
+
+export const CurrencyStatement: React.FC<CurrencyStatementProps> = ({
+  userId,
+}) => {
+  const [entries, setEntries] = useState<CurrencyLedgerEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [balanceCheck, setBalanceCheck] = useState<CurrencyBalanceCheck | null>(
+    null,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    setPage(0);
+    gameService.verifyCurrencyBalance(userId).then(setBalanceCheck);
+  }, [userId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    gameService.getCurrencyLedger(userId, page, PAGE_SIZE).then((result) => {
+      if (cancelled) return;
+      setEntries(result.entries);
+      setTotal(result.total);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, page]);
+
+  return (
+    <div className="space-y-4">
+      {balanceCheck && (
+        <div
+          className={`flex items-center space-x-2 p-3 rounded-xl border text-sm ${
+            balanceCheck.consistent
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          {balanceCheck.consistent ? (
+            <CheckCircle className="w-4 h-4 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          )}
+          <span>
+            {balanceCheck.consistent
+              ? "Saldo confere com o extrato."
+              : `Divergência: perfil ${balanceCheck.xenocoins.profile.toLocaleString()} / extrato ${balanceCheck.xenocoins.ledger.toLocaleString()} xenocoins, perfil ${balanceCheck.cash.profile.toLocaleString()} / extrato ${balanceCheck.cash.ledger.toLocaleString()} cash.`}
+          </span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl shadow-xl p-4 border border-gray-100">
+        {isLoading ? (
+          <p className="text-center text-gray-500 py-8">Carregando...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            Nenhuma movimentação registrada.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {entries.map((entry, index) => (
+              <motion.div
+                key={entry.id}
+                className="flex items-center justify-between py-3"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.02 }}
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  {entry.currency === "xenocoins" ? (
+                    <Coins className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+                  ) : (
+                    <DollarSign className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {getLedgerReasonLabel(entry.reason)}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {entry.createdAt.toLocaleString("pt-BR")}
+                      {entry.referenceId && ` · ${entry.referenceId}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="text-right flex-shrink-0 ml-3">
+                  <p
+                    className={`font-semibold ${
+                      entry.amount >= 0 ? "text-green-600" : "text-red-600"
+                    }`}
+                  >
+                    {entry.amount >= 0 ? "+" : ""}
+                    {entry.amount.toLocaleString()}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Saldo: {entry.balanceAfter.toLocaleString()}
+                  </p>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <motion.button
+          onClick={() => setPage((current) => Math.max(0, current - 1))}
+          disabled={page === 0 || isLoading}
+          className="flex items-center space-x-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium disabled:opacity-50"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <ChevronLeft className="w-4 h-4" />
+          <span>Anterior</span>
+        </motion.button>
+        <span className="text-sm text-gray-600">
+          Página {page + 1} de {pageCount}
+        </span>
+        <motion.button
+          onClick={() =>
+            setPage((current) => Math.min(pageCount - 1, current + 1))
+          }
+          disabled={page >= pageCount - 1 || isLoading}
+          className="flex items-center space-x-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium disabled:opacity-50"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <span>Próxima</span>
+          <ChevronRight className="w-4 h-4" />
+        </motion.button>
+      </div>
+    </div>
+  );
+};
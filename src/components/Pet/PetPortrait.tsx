@@ -2,6 +2,11 @@ import React from "react";
 import { Sword, Shield, Heart, Utensils, Smile, Zap, Star } from "lucide-react";
 import { Pet } from "../../types/game";
 import { motion } from "framer-motion";
+import {
+  getActiveConditions,
+  getEffectiveStats,
+  PetStatKey,
+} from "../../utils/petStats";
 
 interface PetPortraitProps {
   pet: Pet;
@@ -24,16 +29,20 @@ export const PetPortrait: React.FC<PetPortraitProps> = ({ pet }) => {
     return "bg-red-50 border-red-200";
   };
 
-  const totalSecondaryStats =
-    pet.strength +
-    pet.dexterity +
-    pet.intelligence +
-    pet.speed +
-    pet.attack +
-    pet.defense +
-    pet.precision +
-    pet.evasion +
-    pet.luck;
+  const { total: stats, base: baseStats, setBonus } = getEffectiveStats(pet);
+  const conditions = getActiveConditions(pet);
+
+  const totalSecondaryStats = Math.round(
+    stats.strength +
+      stats.dexterity +
+      stats.intelligence +
+      stats.speed +
+      stats.attack +
+      stats.defense +
+      stats.precision +
+      stats.evasion +
+      stats.luck,
+  );
 
   const getSpeciesEmoji = (species: string) => {
     switch (species) {
@@ -152,14 +161,14 @@ export const PetPortrait: React.FC<PetPortraitProps> = ({ pet }) => {
         </motion.div>
 
         {/* Conditions */}
-        {pet.conditions.length > 0 && (
+        {conditions.length > 0 && (
           <motion.div
             className="absolute bottom-3 left-3 flex flex-wrap gap-1 max-w-32"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             transition={{ delay: 0.4 }}
           >
-            {pet.conditions.map((condition, index) => (
+            {conditions.map((condition, index) => (
               <motion.div
                 key={condition.id}
                 className="w-8 h-8 bg-white/90 backdrop-blur-sm rounded-lg flex items-center justify-center shadow-md border border-gray-200"
@@ -177,6 +186,19 @@ export const PetPortrait: React.FC<PetPortraitProps> = ({ pet }) => {
           </motion.div>
         )}
 
+        {/* Deceased overlay */}
+        {!pet.isAlive && (
+          <div className="absolute inset-0 bg-gray-900/60 flex flex-col items-center justify-center text-white">
+            <span className="text-4xl mb-1">🪦</span>
+            <span className="text-sm font-semibold">Faleceu</span>
+            {pet.deathDate && (
+              <span className="text-xs opacity-80">
+                {pet.deathDate.toLocaleDateString("pt-BR")}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Personality Badge */}
         <motion.div
           className="absolute top-3 left-3 bg-white/90 backdrop-blur-sm rounded-xl px-3 py-1 shadow-lg border border-gray-200"
@@ -251,18 +273,26 @@ export const PetPortrait: React.FC<PetPortraitProps> = ({ pet }) => {
           </div>
         </div>
 
+        {setBonus && (
+          <p className="text-xs text-purple-600 font-medium mb-3">
+            {setBonus.rarity} set bonus ({setBonus.pieces} pieces)
+          </p>
+        )}
+
         <div className="grid grid-cols-3 gap-3 text-sm">
-          {[
-            { label: "STR", value: pet.strength, icon: "💪" },
-            { label: "DEX", value: pet.dexterity, icon: "🏃" },
-            { label: "INT", value: pet.intelligence, icon: "🧠" },
-            { label: "SPD", value: pet.speed, icon: "⚡" },
-            { label: "ATK", value: pet.attack, icon: "⚔️" },
-            { label: "DEF", value: pet.defense, icon: "🛡️" },
-            { label: "PRE", value: pet.precision, icon: "🎯" },
-            { label: "EVA", value: pet.evasion, icon: "💨" },
-            { label: "LUK", value: pet.luck, icon: "🍀" },
-          ].map((stat, index) => (
+          {(
+            [
+              { label: "STR", key: "strength", icon: "💪" },
+              { label: "DEX", key: "dexterity", icon: "🏃" },
+              { label: "INT", key: "intelligence", icon: "🧠" },
+              { label: "SPD", key: "speed", icon: "⚡" },
+              { label: "ATK", key: "attack", icon: "⚔️" },
+              { label: "DEF", key: "defense", icon: "🛡️" },
+              { label: "PRE", key: "precision", icon: "🎯" },
+              { label: "EVA", key: "evasion", icon: "💨" },
+              { label: "LUK", key: "luck", icon: "🍀" },
+            ] as { label: string; key: PetStatKey; icon: string }[]
+          ).map((stat, index) => (
             <motion.div
               key={stat.label}
               className="flex items-center justify-between p-2 bg-gray-50 rounded-lg"
@@ -274,7 +304,21 @@ export const PetPortrait: React.FC<PetPortraitProps> = ({ pet }) => {
                 <span className="text-xs">{stat.icon}</span>
                 <span className="text-gray-600 font-medium">{stat.label}</span>
               </div>
-              <span className="font-bold text-gray-900">{stat.value}</span>
+              <span className="font-bold text-gray-900">
+                {Math.round(stats[stat.key])}
+                {stats[stat.key] !== baseStats[stat.key] && (
+                  <span
+                    className={`ml-1 text-xs ${
+                      stats[stat.key] > baseStats[stat.key]
+                        ? "text-green-600"
+                        : "text-red-600"
+                    }`}
+                  >
+                    ({stats[stat.key] > baseStats[stat.key] ? "+" : ""}
+                    {Math.round(stats[stat.key] - baseStats[stat.key])})
+                  </span>
+                )}
+              </span>
             </motion.div>
           ))}
         </div>
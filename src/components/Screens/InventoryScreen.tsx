@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
-import { Package, Sword, Sparkles, Trash2, Plus, Search, Heart, Utensils, Shield } from 'lucide-react';
+import { Package, Sword, Sparkles, Trash2, Plus, Search, Heart, Utensils, Shield, Lock } from 'lucide-react';
 import { useGameStore } from '../../store/gameStore';
 import { Item } from '../../types/game';
 import { motion, AnimatePresence } from 'framer-motion';
+import { TradeList } from '../Trade/TradeList';
 
 const tabs = [
   { id: 'all', name: 'All', icon: Package, color: 'text-gray-600' },
@@ -131,6 +132,7 @@ export const InventoryScreen: React.FC = () => {
   if (inventory.filter(item => item.quantity > 0).length === 0) {
     return (
       <div className="max-w-md mx-auto">
+        <TradeList />
         <motion.div 
           className="bg-white rounded-3xl shadow-xl p-8 border border-gray-100 text-center"
           initial={{ opacity: 0, y: 20 }}
@@ -165,6 +167,8 @@ export const InventoryScreen: React.FC = () => {
 
   return (
     <div className="max-w-md mx-auto">
+      <TradeList />
+
       {/* Search Bar */}
       <motion.div 
         className="bg-white rounded-2xl shadow-lg mb-4 p-4 border border-gray-100"
@@ -281,6 +285,13 @@ export const InventoryScreen: React.FC = () => {
                     </motion.span>
                   )}
 
+                  {/* Trade Lock Indicator */}
+                  {item.lockedTradeId && (
+                    <span className="absolute -bottom-1 -left-1 bg-gray-700 text-white rounded-full w-4 h-4 flex items-center justify-center">
+                      <Lock className="w-2.5 h-2.5" />
+                    </span>
+                  )}
+
                   {/* Rarity Indicator */}
                   {item.rarity !== 'Common' && (
                     <div className="absolute top-1 left-1 w-2 h-2 rounded-full bg-current opacity-60"></div>
@@ -413,10 +424,18 @@ export const InventoryScreen: React.FC = () => {
                   </div>
                 )}
                 
+                {selectedItem.lockedTradeId && (
+                  <div className="mb-6 p-3 bg-gray-100 rounded-xl flex items-center text-gray-700 text-sm">
+                    <Lock className="w-4 h-4 mr-2" />
+                    Reserved in a pending trade
+                  </div>
+                )}
+                
                 <div className="flex space-x-3">
                   <motion.button
                     onClick={() => handleUseItem(selectedItem)}
-                    className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-2xl hover:from-blue-700 hover:to-purple-700 transition-all font-semibold shadow-lg"
+                    disabled={!!selectedItem.lockedTradeId}
+                    className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-2xl hover:from-blue-700 hover:to-purple-700 transition-all font-semibold shadow-lg disabled:opacity-50"
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                   >
@@ -424,7 +443,8 @@ export const InventoryScreen: React.FC = () => {
                   </motion.button>
                   <motion.button
                     onClick={() => handleDiscardItem(selectedItem)}
-                    className="px-4 py-3 bg-red-100 hover:bg-red-200 rounded-2xl transition-colors"
+                    disabled={!!selectedItem.lockedTradeId}
+                    className="px-4 py-3 bg-red-100 hover:bg-red-200 rounded-2xl transition-colors disabled:opacity-50"
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
                   >
@@ -1,21 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { Trophy, ArrowLeft, CheckCircle, Lock, Star } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useGameStore } from '../../store/gameStore';
 import { Achievement } from '../../types/game';
 import { motion, AnimatePresence } from 'framer-motion';
 import { gameService } from '../../services/gameService';
+import { paths } from '../../utils/routes';
 
 export const OtherUserAchievementsScreen: React.FC = () => {
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [loading, setLoading] = useState(true);
   const [playerName, setPlayerName] = useState('');
   
-  const { viewedUserId, setCurrentScreen, getPlayerProfile } = useGameStore();
+  const { userId: viewedUserId } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { getPlayerProfile } = useGameStore();
 
   useEffect(() => {
     const loadAchievementsData = async () => {
       if (!viewedUserId) {
-        setCurrentScreen('profile');
+        navigate(paths.profile());
         return;
       }
 
@@ -38,10 +42,10 @@ export const OtherUserAchievementsScreen: React.FC = () => {
     };
 
     loadAchievementsData();
-  }, [viewedUserId]);
+  }, [viewedUserId, navigate, getPlayerProfile]);
 
   const handleBackToProfile = () => {
-    setCurrentScreen('profile');
+    navigate(paths.profile());
   };
 
   const unlockedAchievements = achievements.filter(a => a.isUnlocked);
@@ -1,21 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { Gift, ArrowLeft, CheckCircle, Calendar } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useGameStore } from '../../store/gameStore';
 import { Collectible } from '../../types/game';
 import { motion, AnimatePresence } from 'framer-motion';
 import { gameService } from '../../services/gameService';
+import { paths } from '../../utils/routes';
 
 export const OtherUserCollectiblesScreen: React.FC = () => {
   const [collectibles, setCollectibles] = useState<Collectible[]>([]);
   const [loading, setLoading] = useState(true);
   const [playerName, setPlayerName] = useState('');
   
-  const { viewedUserId, setCurrentScreen, getPlayerProfile } = useGameStore();
+  const { userId: viewedUserId } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { getPlayerProfile } = useGameStore();
 
   useEffect(() => {
     const loadCollectiblesData = async () => {
       if (!viewedUserId) {
-        setCurrentScreen('profile');
+        navigate(paths.profile());
         return;
       }
 
@@ -38,10 +42,10 @@ export const OtherUserCollectiblesScreen: React.FC = () => {
     };
 
     loadCollectiblesData();
-  }, [viewedUserId]);
+  }, [viewedUserId, navigate, getPlayerProfile]);
 
   const handleBackToProfile = () => {
-    setCurrentScreen('profile');
+    navigate(paths.profile());
   };
 
   const getRarityColor = (rarity: string) => {
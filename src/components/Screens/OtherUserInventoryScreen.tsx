@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Package, ArrowLeft, Search } from 'lucide-react';
+import { Package, ArrowLeft, Search, ArrowLeftRight } from 'lucide-react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useGameStore } from '../../store/gameStore';
 import { Item } from '../../types/game';
 import { motion, AnimatePresence } from 'framer-motion';
 import { gameService } from '../../services/gameService';
+import { TradeOfferModal } from '../Trade/TradeOfferModal';
+import { paths } from '../../utils/routes';
 
 const tabs = [
   { id: 'all', name: 'All', icon: Package, color: 'text-gray-600' },
@@ -19,13 +22,17 @@ export const OtherUserInventoryScreen: React.FC = () => {
   const [inventory, setInventory] = useState<Item[]>([]);
   const [loading, setLoading] = useState(true);
   const [playerName, setPlayerName] = useState('');
+  const [showTradeModal, setShowTradeModal] = useState(false);
   
-  const { viewedUserId, setCurrentScreen, getPlayerProfile } = useGameStore();
+  const { userId: viewedUserId } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { user, getPlayerProfile } = useGameStore();
+  const canTrade = !!user && !!viewedUserId && user.id !== viewedUserId;
 
   useEffect(() => {
     const loadInventoryData = async () => {
       if (!viewedUserId) {
-        setCurrentScreen('profile');
+        navigate(paths.profile());
         return;
       }
 
@@ -48,7 +55,7 @@ export const OtherUserInventoryScreen: React.FC = () => {
     };
 
     loadInventoryData();
-  }, [viewedUserId]);
+  }, [viewedUserId, navigate, getPlayerProfile]);
 
   const getRarityColor = (rarity: string) => {
     const colors = {
@@ -91,7 +98,7 @@ export const OtherUserInventoryScreen: React.FC = () => {
   };
 
   const handleBackToProfile = () => {
-    setCurrentScreen('profile');
+    navigate(paths.profile());
   };
 
   const getItemTypeColor = (type: string) => {
@@ -190,6 +197,18 @@ export const OtherUserInventoryScreen: React.FC = () => {
         </motion.button>
       </div>
 
+      {canTrade && (
+        <motion.button
+          onClick={() => setShowTradeModal(true)}
+          className="w-full mb-4 flex items-center justify-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-2xl hover:from-blue-700 hover:to-purple-700 transition-all font-semibold shadow-lg"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          <ArrowLeftRight className="w-5 h-5" />
+          <span>Propor Troca</span>
+        </motion.button>
+      )}
+
       {/* Search Bar */}
       <motion.div 
         className="bg-white rounded-2xl shadow-lg mb-4 p-4 border border-gray-100"
@@ -324,6 +343,17 @@ export const OtherUserInventoryScreen: React.FC = () => {
         </div>
       </motion.div>
 
+      <AnimatePresence>
+        {showTradeModal && viewedUserId && (
+          <TradeOfferModal
+            recipientId={viewedUserId}
+            recipientName={playerName}
+            recipientInventory={inventory}
+            onClose={() => setShowTradeModal(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Item Detail Modal */}
       <AnimatePresence>
         {selectedItem && (
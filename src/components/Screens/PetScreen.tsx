@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { PetPortrait } from "../Pet/PetPortrait";
 import { EggSelectionScreen } from "../Pet/EggSelectionScreen";
 import { EggHatchingView } from "../Pet/EggHatchingView";
@@ -7,6 +7,8 @@ import { Heart, Plus, Lock, Award } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Pet } from "../../types/game";
 
+const PET_REFRESH_INTERVAL_MS = 60 * 1000;
+
 export const PetScreen: React.FC = () => {
   const {
     activePet,
@@ -16,17 +18,24 @@ export const PetScreen: React.FC = () => {
     addNotification,
     setActivePet,
     createPet,
-    setCurrentScreen,
     selectedEggForHatching,
     isHatchingInProgress,
     setSelectedEggForHatching,
     clearSelectedEggForHatching,
     setIsHatchingInProgress,
     clearHatchingEgg,
+    refreshPets,
   } = useGameStore();
 
   const [isLoading, setIsLoading] = useState(false);
 
+  // Care stats decay on the server timeline; refresh them while the screen is open
+  useEffect(() => {
+    refreshPets();
+    const interval = setInterval(refreshPets, PET_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshPets]);
+
   const handleEggSelected = (egg: any) => {
     setSelectedEggForHatching(egg);
     setIsHatchingInProgress(true);
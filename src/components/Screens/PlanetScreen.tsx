@@ -1,7 +1,9 @@
 import React from "react";
 import { motion } from "framer-motion";
 import { ArrowLeft, Globe, Star } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
 import { useGameStore } from "../../store/gameStore";
+import { paths } from "../../utils/routes";
 
 interface Planet {
   id: string;
@@ -10,14 +12,22 @@ interface Planet {
 }
 
 export const PlanetScreen: React.FC = () => {
-  const { setCurrentScreen, currentPlanet } = useGameStore();
+  const { worldId } = useParams<{ worldId: string }>();
+  const navigate = useNavigate();
+  const { currentPlanet: landedPlanet, worldPositions } = useGameStore();
+
+  // Links can open a world directly, without landing on it from the map
+  const currentPlanet =
+    landedPlanet?.id === worldId
+      ? landedPlanet
+      : worldPositions.find((position) => position.id === worldId);
 
   if (!currentPlanet) {
     return null;
   }
 
   const handleBack = () => {
-    setCurrentScreen("world");
+    navigate(paths.world());
   };
 
   // Gerar uma imagem placeholder baseada na cor do planeta
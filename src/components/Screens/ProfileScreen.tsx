@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Trophy,
   Calendar,
@@ -22,11 +23,19 @@ import {
   Copy,
   Check,
   Package,
+  Scroll,
+  Receipt,
 } from "lucide-react";
 import { useGameStore } from "../../store/gameStore";
 import { useAuthStore } from "../../store/authStore";
 import { motion, AnimatePresence } from "framer-motion";
 import { User } from "../../types/game";
+import { CurrencyStatement } from "../Ledger/CurrencyStatement";
+import { LanguageSettings } from "../Settings/LanguageSettings";
+import { ControlSettings } from "../Settings/ControlSettings";
+import { getActiveConditions } from "../../utils/petStats";
+import { paths } from "../../utils/routes";
+import { useTranslation } from "../../i18n";
 
 export const ProfileScreen: React.FC = () => {
   const {
@@ -42,12 +51,12 @@ export const ProfileScreen: React.FC = () => {
     getTotalCollectiblePoints,
     collectItem,
     redeemCode,
-    setCurrentScreen,
-    setViewedUserId,
     loadUserAchievements,
     loadUserCollectibles,
   } = useGameStore();
   const { logout } = useAuthStore();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
   const [activeSection, setActiveSection] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<User[]>([]);
@@ -98,18 +107,15 @@ export const ProfileScreen: React.FC = () => {
   };
 
   const handleViewInventory = (playerId: string) => {
-    setViewedUserId(playerId);
-    setCurrentScreen("otherUserInventory");
+    navigate(paths.playerInventory(playerId));
   };
 
   const handleViewAchievements = (playerId: string) => {
-    setViewedUserId(playerId);
-    setCurrentScreen("otherUserAchievements");
+    navigate(paths.playerAchievements(playerId));
   };
 
   const handleViewCollectibles = (playerId: string) => {
-    setViewedUserId(playerId);
-    setCurrentScreen("otherUserCollectibles");
+    navigate(paths.playerCollectibles(playerId));
   };
 
   const handleRedeemCode = async () => {
@@ -180,6 +186,23 @@ export const ProfileScreen: React.FC = () => {
       color: "bg-orange-50 hover:bg-orange-100 border-orange-200",
       iconColor: "text-orange-600",
     },
+    {
+      id: "quests",
+      title: "Diário de Missões",
+      description: "Acompanhe missões e sagas",
+      icon: Scroll,
+      color: "bg-green-50 hover:bg-green-100 border-green-200",
+      iconColor: "text-green-600",
+      path: paths.quests(),
+    },
+    {
+      id: "statement",
+      title: "Extrato",
+      description: "Histórico de xenocoins e cash",
+      icon: Receipt,
+      color: "bg-yellow-50 hover:bg-yellow-100 border-yellow-200",
+      iconColor: "text-yellow-600",
+    },
     {
       id: "search",
       title: "Buscar Jogadores",
@@ -190,7 +213,7 @@ export const ProfileScreen: React.FC = () => {
     },
     {
       id: "settings",
-      title: "Configurações",
+      title: t("settings.title"),
       description: "Gerencie preferências da conta",
       icon: Settings,
       color: "bg-gray-50 hover:bg-gray-100 border-gray-200",
@@ -901,6 +924,51 @@ export const ProfileScreen: React.FC = () => {
     );
   }
 
+  // Show currency statement
+  if (activeSection === "statement") {
+    return (
+      <div className="max-w-md mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Extrato</h2>
+          <motion.button
+            onClick={() => setActiveSection(null)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Voltar</span>
+          </motion.button>
+        </div>
+        <CurrencyStatement userId={user.id} />
+      </div>
+    );
+  }
+
+  // Show account settings
+  if (activeSection === "settings") {
+    return (
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            {t("settings.title")}
+          </h2>
+          <motion.button
+            onClick={() => setActiveSection(null)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>{t("common.back")}</span>
+          </motion.button>
+        </div>
+        <LanguageSettings />
+        <ControlSettings />
+      </div>
+    );
+  }
+
   // Show achievements page
   if (activeSection === "achievements") {
     return (
@@ -1165,11 +1233,11 @@ export const ProfileScreen: React.FC = () => {
                   <span>Level {pet.level}</span>
                   <span>•</span>
                   <span className="capitalize">{pet.personality}</span>
-                  {pet.conditions.length > 0 && (
+                  {getActiveConditions(pet).length > 0 && (
                     <>
                       <span>•</span>
                       <span className="text-orange-600">
-                        {pet.conditions.length} condição(ões)
+                        {getActiveConditions(pet).length} condição(ões)
                       </span>
                     </>
                   )}
@@ -1207,7 +1275,11 @@ export const ProfileScreen: React.FC = () => {
             return (
               <motion.button
                 key={action.id}
-                onClick={() => setActiveSection(action.id)}
+                onClick={() =>
+                  action.path
+                    ? navigate(action.path)
+                    : setActiveSection(action.id)
+                }
                 className={`w-full flex items-center space-x-3 p-4 rounded-2xl border-2 transition-all text-left ${action.color}`}
                 whileHover={{ scale: 1.02, x: 4 }}
                 whileTap={{ scale: 0.98 }}
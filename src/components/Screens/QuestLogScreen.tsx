@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, BookOpen, Scroll, CheckCircle, Circle, Coins, Gem, Star, Gift } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { useGameStore } from '../../store/gameStore';
+import { progressionService } from '../../services/progressionService';
+import { getRequirementProgress, RequirementProgress } from '../../utils/progressionEngine';
+import { useTranslation } from '../../i18n';
+import { Quest, Saga } from '../../types/game';
+import { paths } from '../../utils/routes';
+
+const tabs = [
+  { id: 'quests', name: 'Missões', icon: Scroll },
+  { id: 'sagas', name: 'Sagas', icon: BookOpen }
+];
+
+const requirementLabels: Record<string, string> = {
+  items_acquired: 'Itens obtidos',
+  locations_visited: 'Planetas visitados',
+  duels_won: 'Duelos vencidos',
+  pet_interactions: 'Cuidados com o pet'
+};
+
+export const QuestLogScreen: React.FC = () => {
+  const [activeTab, setActiveTab] = useState('quests');
+  const [loading, setLoading] = useState(true);
+  const [advancingSagaId, setAdvancingSagaId] = useState<string | null>(null);
+  const { quests, sagas, worldPositions, loadQuests, advanceSagaStep } = useGameStore();
+  const navigate = useNavigate();
+  const { t, formatCurrency } = useTranslation();
+
+  useEffect(() => {
+    loadQuests().finally(() => setLoading(false));
+  }, [loadQuests]);
+
+  const getRequirementLabel = (key: string) => {
+    if (requirementLabels[key]) return requirementLabels[key];
+    if (key.startsWith('planet:')) {
+      const planet = worldPositions.find(position => position.id === key.slice('planet:'.length));
+      return `Pousar em ${planet?.name || 'um planeta'}`;
+    }
+    if (key.startsWith('item:')) return 'Obter item específico';
+    return key.replace(/_/g, ' ');
+  };
+
+  const renderRequirements = (requirements: RequirementProgress[]) => (
+    <div className="space-y-2">
+      {requirements.map(({ key, current, target }) => (
+        <div key={key}>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span className="capitalize">{getRequirementLabel(key)}</span>
+            <span className="font-medium">{current}/{target}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-1.5">
+            <div
+              className="bg-gradient-to-r from-blue-500 to-purple-500 h-1.5 rounded-full transition-all"
+              style={{ width: `${(current / target) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderRewards = (rewards: Quest['rewards'] = {}) => {
+    const entries = [
+      rewards.xenocoins && { icon: Coins, color: 'text-yellow-600', label: formatCurrency(rewards.xenocoins, 'xenocoins') },
+      rewards.cash && { icon: Gem, color: 'text-green-600', label: formatCurrency(rewards.cash, 'cash') },
+      rewards.accountPoints && { icon: Star, color: 'text-purple-600', label: t('progression.rewardPoints', { count: rewards.accountPoints }) },
+      rewards.items?.length && { icon: Gift, color: 'text-pink-600', label: t('progression.rewardItems', { count: rewards.items.length }) }
+    ].filter(Boolean) as { icon: React.ElementType; color: string; label: string }[];
+
+    if (entries.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-2 mt-3">
+        {entries.map(({ icon: Icon, color, label }) => (
+          <span key={label} className={`flex items-center text-xs font-medium px-2 py-1 bg-gray-50 rounded-full ${color}`}>
+            <Icon className="w-3 h-3 mr-1" />
+            {label}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  const renderQuest = (quest: Quest, index: number) => (
+    <motion.div
+      key={quest.id}
+      className={`p-4 rounded-2xl border-2 ${
+        quest.isCompleted ? 'bg-green-50 border-green-200' : 'bg-white border-gray-200'
+      }`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.05 }}
+    >
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <h4 className="font-semibold text-gray-900">{quest.name}</h4>
+          <p className="text-sm text-gray-600">{quest.description}</p>
+        </div>
+        {quest.isCompleted ? (
+          <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+        ) : (
+          <Circle className="w-5 h-5 text-gray-300 flex-shrink-0" />
+        )}
+      </div>
+      {!quest.isCompleted && renderRequirements(getRequirementProgress(quest.requirements, quest.progress))}
+      {renderRewards(quest.rewards)}
+    </motion.div>
+  );
+
+  const renderSaga = (saga: Saga, index: number) => {
+    const currentStep = progressionService.getCurrentStep(saga);
+    const canAdvanceManually = !!currentStep && !progressionService.hasCounters(currentStep);
+
+    const handleAdvance = async () => {
+      setAdvancingSagaId(saga.id);
+      await advanceSagaStep(saga.id);
+      setAdvancingSagaId(null);
+    };
+
+    return (
+      <motion.div
+        key={saga.id}
+        className="p-4 rounded-2xl border-2 bg-white border-gray-200"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+      >
+        <div className="flex items-start justify-between mb-1">
+          <h4 className="font-semibold text-gray-900">{saga.name}</h4>
+          <span className="text-xs font-medium text-gray-500">
+            {saga.currentStep}/{saga.totalSteps}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">{saga.description}</p>
+
+        <div className="space-y-2">
+          {saga.steps.map(step => {
+            const isCurrent = step.id === currentStep?.id;
+            return (
+              <div
+                key={step.id}
+                className={`p-3 rounded-xl ${
+                  step.isCompleted ? 'bg-green-50' : isCurrent ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50 opacity-60'
+                }`}
+              >
+                <div className="flex items-center space-x-2">
+                  {step.isCompleted ? (
+                    <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                  ) : (
+                    <Circle className={`w-4 h-4 flex-shrink-0 ${isCurrent ? 'text-blue-500' : 'text-gray-300'}`} />
+                  )}
+                  <span className="text-sm font-medium text-gray-900">
+                    {step.stepNumber}. {step.name}
+                  </span>
+                </div>
+                {isCurrent && (
+                  <div className="mt-2 ml-6">
+                    <p className="text-xs text-gray-600 mb-2">{step.description}</p>
+                    {renderRequirements(getRequirementProgress(step.requirements, saga.stepProgress))}
+                    {renderRewards(step.rewards)}
+                    {canAdvanceManually && (
+                      <button
+                        onClick={handleAdvance}
+                        disabled={advancingSagaId === saga.id}
+                        className="mt-3 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-xl disabled:opacity-50"
+                      >
+                        Continuar
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {saga.isCompleted ? (
+          <p className="mt-3 text-sm font-medium text-green-600">Saga concluída!</p>
+        ) : (
+          renderRewards(saga.rewards)
+        )}
+      </motion.div>
+    );
+  };
+
+  const sortedQuests = [...quests].sort((a, b) => Number(a.isCompleted) - Number(b.isCompleted));
+  const items = activeTab === 'quests' ? sortedQuests : sagas;
+
+  return (
+    <div className="max-w-md mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Diário de Missões</h2>
+        <motion.button
+          onClick={() => navigate(paths.profile())}
+          className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Voltar</span>
+        </motion.button>
+      </div>
+
+      {/* Tabs */}
+      <div className="bg-white rounded-2xl shadow-lg mb-4 overflow-hidden border border-gray-100">
+        <div className="flex">
+          {tabs.map(({ id, name, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setActiveTab(id)}
+              className={`flex-1 flex items-center justify-center space-x-2 py-4 transition-all ${
+                activeTab === id
+                  ? 'bg-blue-50 text-blue-600 border-b-2 border-blue-600'
+                  : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className="w-5 h-5" />
+              <span className="font-medium text-sm">{name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="bg-white rounded-3xl shadow-xl p-8 border border-gray-100 text-center text-gray-600">
+          Carregando missões...
+        </div>
+      ) : items.length === 0 ? (
+        <div className="bg-white rounded-3xl shadow-xl p-8 border border-gray-100 text-center">
+          <Scroll className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">
+            {activeTab === 'quests' ? 'Nenhuma missão disponível no momento.' : 'Nenhuma saga disponível no momento.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {activeTab === 'quests'
+            ? sortedQuests.map(renderQuest)
+            : sagas.map(renderSaga)}
+        </div>
+      )}
+    </div>
+  );
+};
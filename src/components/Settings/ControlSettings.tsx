@@ -0,0 +1,310 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Gamepad2, Keyboard, Plus, RotateCcw, X } from "lucide-react";
+import { useAuthStore } from "../../store/authStore";
+import { useGameStore } from "../../store/gameStore";
+import { MessageKey, useTranslation } from "../../i18n";
+import { ControlBindings, ShipAction } from "../../types/game";
+import {
+  DEFAULT_CONTROL_BINDINGS,
+  SHIP_ACTIONS,
+  formatKeyCode,
+  isGamepadButtonPressed,
+  rebindControl,
+  resolveControlBindings,
+} from "../../utils/shipInput";
+
+type Device = "keyboard" | "gamepad";
+
+// The binding waiting for a key or button press
+interface Capture {
+  device: Device;
+  action: ShipAction;
+  // The key or button being replaced, or null to add one
+  replacing: string | number | null;
+}
+
+const ACTION_LABELS: Record<ShipAction, MessageKey> = {
+  thrust: "settings.action.thrust",
+  reverse: "settings.action.reverse",
+  turnLeft: "settings.action.turnLeft",
+  turnRight: "settings.action.turnRight",
+  fire: "settings.action.fire",
+};
+
+// Index of a button held on any connected gamepad
+const findPressedButton = (ignored: Set<number>) => {
+  for (const gamepad of navigator.getGamepads?.() ?? []) {
+    if (!gamepad) continue;
+    for (let index = 0; index < gamepad.buttons.length; index++) {
+      if (!ignored.has(index) && isGamepadButtonPressed(gamepad, index)) {
+        return index;
+      }
+    }
+  }
+  return null;
+};
+
+export const ControlSettings: React.FC = () => {
+  const { t, formatNumber } = useTranslation();
+  const savedControls = useAuthStore(
+    (state) => state.user?.preferences?.controls,
+  );
+  const updatePreferences = useAuthStore((state) => state.updatePreferences);
+  const addNotification = useGameStore((state) => state.addNotification);
+  const bindings = useMemo(
+    () => resolveControlBindings(savedControls),
+    [savedControls],
+  );
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [deadzone, setDeadzone] = useState(bindings.gamepadDeadzone);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDeadzone(bindings.gamepadDeadzone);
+  }, [bindings.gamepadDeadzone]);
+
+  const save = useCallback(
+    async (controls: ControlBindings) => {
+      setIsSaving(true);
+      const saved = await updatePreferences({ controls });
+      setIsSaving(false);
+
+      if (!saved) {
+        setDeadzone(bindings.gamepadDeadzone);
+        addNotification({
+          type: "error",
+          title: t("common.error"),
+          message: t("settings.controlsSaveFailed"),
+          isRead: false,
+        });
+      }
+    },
+    [bindings, updatePreferences, addNotification, t],
+  );
+
+  // Next key press goes to the captured action
+  useEffect(() => {
+    if (capture?.device !== "keyboard") return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setCapture(null);
+      if (event.code === "Escape") return;
+
+      save({
+        ...bindings,
+        keyboard: rebindControl(
+          bindings.keyboard,
+          capture.action,
+          event.code,
+          capture.replacing as string | null,
+        ),
+      });
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [capture, bindings, save]);
+
+  // Gamepads have no button events, so poll for the next press
+  useEffect(() => {
+    if (capture?.device !== "gamepad") return;
+
+    // Buttons already held when capture started don't count
+    const held = new Set<number>();
+    const initial = findPressedButton(new Set());
+    if (initial !== null) held.add(initial);
+
+    let frame = requestAnimationFrame(function poll() {
+      const pressed = findPressedButton(held);
+      if (pressed === null) {
+        frame = requestAnimationFrame(poll);
+        return;
+      }
+
+      setCapture(null);
+      save({
+        ...bindings,
+        gamepad: rebindControl(
+          bindings.gamepad,
+          capture.action,
+          pressed,
+          capture.replacing as number | null,
+        ),
+      });
+    });
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === "Escape") setCapture(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [capture, bindings, save]);
+
+  const removeBinding = (
+    device: Device,
+    action: ShipAction,
+    bound: string | number,
+  ) => {
+    const current: (string | number)[] = bindings[device][action];
+    save({
+      ...bindings,
+      [device]: {
+        ...bindings[device],
+        [action]: current.filter((other) => other !== bound),
+      },
+    });
+  };
+
+  const formatBinding = (device: Device, bound: string | number) =>
+    device === "keyboard"
+      ? formatKeyCode(String(bound))
+      : t("settings.controlsButton", { index: String(bound) });
+
+  const isCapturing = (
+    device: Device,
+    action: ShipAction,
+    replacing: string | number | null,
+  ) =>
+    capture?.device === device &&
+    capture.action === action &&
+    capture.replacing === replacing;
+
+  const renderBindings = (device: Device, action: ShipAction) => {
+    const bound: (string | number)[] = bindings[device][action];
+
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {bound.map((input) => (
+          <span
+            key={input}
+            className={`inline-flex items-center rounded-lg border text-xs ${
+              isCapturing(device, action, input)
+                ? "border-blue-400 bg-blue-50"
+                : "border-gray-200 bg-gray-50"
+            }`}
+          >
+            <button
+              type="button"
+              disabled={isSaving}
+              onClick={() => setCapture({ device, action, replacing: input })}
+              className="px-2 py-1 font-mono text-gray-900"
+            >
+              {formatBinding(device, input)}
+            </button>
+            <button
+              type="button"
+              disabled={isSaving}
+              onClick={() => removeBinding(device, action, input)}
+              className="pr-1 text-gray-400 hover:text-red-500"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <button
+          type="button"
+          disabled={isSaving}
+          onClick={() => setCapture({ device, action, replacing: null })}
+          title={t("settings.controlsAdd")}
+          className={`p-1 rounded-lg border border-dashed text-gray-500 hover:text-blue-600 ${
+            isCapturing(device, action, null)
+              ? "border-blue-400 text-blue-600"
+              : "border-gray-300"
+          }`}
+        >
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl p-6 border border-gray-100">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <Gamepad2 className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-bold text-gray-900">
+            {t("settings.controls")}
+          </h3>
+        </div>
+        <button
+          type="button"
+          disabled={isSaving}
+          onClick={() => save(DEFAULT_CONTROL_BINDINGS)}
+          className="flex items-center space-x-1 text-sm text-gray-500 hover:text-blue-600"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>{t("settings.controlsReset")}</span>
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t("settings.controlsHint")}</p>
+
+      {capture && (
+        <p className="mb-3 p-2 rounded-xl bg-blue-50 text-sm text-blue-700">
+          {capture.device === "keyboard"
+            ? t("settings.controlsPressKey")
+            : t("settings.controlsPressButton")}
+        </p>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pb-2" />
+            <th className="pb-2 font-medium">
+              <Keyboard className="w-4 h-4 inline mr-1" />
+              {t("settings.controlsKeyboard")}
+            </th>
+            <th className="pb-2 font-medium">
+              <Gamepad2 className="w-4 h-4 inline mr-1" />
+              {t("settings.controlsGamepad")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {SHIP_ACTIONS.map((action) => (
+            <tr key={action} className="border-t border-gray-100">
+              <td className="py-2 pr-2 font-medium text-gray-900">
+                {t(ACTION_LABELS[action])}
+              </td>
+              <td className="py-2 pr-2">
+                {renderBindings("keyboard", action)}
+              </td>
+              <td className="py-2">{renderBindings("gamepad", action)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <label className="block mt-4 text-sm text-gray-700">
+        {t("settings.controlsDeadzone", {
+          percent: formatNumber(deadzone, { style: "percent" }),
+        })}
+        <input
+          type="range"
+          min={0}
+          max={0.5}
+          step={0.05}
+          value={deadzone}
+          disabled={isSaving}
+          onChange={(event) => setDeadzone(Number(event.target.value))}
+          // Saved once the slider is let go rather than on every step
+          onPointerUp={() =>
+            deadzone !== bindings.gamepadDeadzone &&
+            save({ ...bindings, gamepadDeadzone: deadzone })
+          }
+          onKeyUp={() =>
+            deadzone !== bindings.gamepadDeadzone &&
+            save({ ...bindings, gamepadDeadzone: deadzone })
+          }
+          className="w-full mt-2"
+        />
+      </label>
+    </div>
+  );
+};
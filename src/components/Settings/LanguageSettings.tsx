@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { Check, Languages } from "lucide-react";
+import { useAuthStore } from "../../store/authStore";
+import { useGameStore } from "../../store/gameStore";
+import {
+  Locale,
+  SUPPORTED_LOCALES,
+  useLocaleStore,
+  useTranslation,
+} from "../../i18n";
+
+export const LanguageSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const locale = useLocaleStore((state) => state.locale);
+  const updateLanguage = useAuthStore((state) => state.updateLanguage);
+  const addNotification = useGameStore((state) => state.addNotification);
+  const [savingLocale, setSavingLocale] = useState<Locale | null>(null);
+
+  const handleSelect = async (selected: Locale) => {
+    if (selected === locale || savingLocale) return;
+
+    setSavingLocale(selected);
+    // The locale follows the profile, so it switches once the save succeeds
+    const saved = await updateLanguage(selected);
+    setSavingLocale(null);
+
+    if (!saved) {
+      addNotification({
+        type: "error",
+        title: t("common.error"),
+        message: t("settings.languageSaveFailed"),
+        isRead: false,
+      });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl p-6 border border-gray-100">
+      <div className="flex items-center space-x-3 mb-2">
+        <Languages className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-bold text-gray-900">
+          {t("settings.language")}
+        </h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t("settings.languageHint")}</p>
+
+      <div className="space-y-2">
+        {(Object.keys(SUPPORTED_LOCALES) as Locale[]).map((option) => {
+          const isSelected = option === locale;
+
+          return (
+            <motion.button
+              key={option}
+              onClick={() => handleSelect(option)}
+              disabled={!!savingLocale}
+              className={`w-full flex items-center justify-between p-4 rounded-2xl border-2 transition-all text-left ${
+                isSelected
+                  ? "border-blue-400 bg-blue-50"
+                  : "border-gray-200 hover:border-blue-200 hover:bg-gray-50"
+              }`}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span className="font-medium text-gray-900">
+                {SUPPORTED_LOCALES[option]}
+              </span>
+              {isSelected && <Check className="w-5 h-5 text-blue-600" />}
+              {savingLocale === option && (
+                <span className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+              )}
+            </motion.button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useNavigate, useParams } from "react-router-dom";
 import {
   Store,
   ShoppingCart,
@@ -19,16 +20,18 @@ import {
   Shield,
   Zap,
 } from "lucide-react";
+import { useGameStore } from "../../store/gameStore";
 import {
-  useGameStore,
+  Item,
   Store as GameStore,
   StoreItem,
   PurchaseResult,
-} from "../../store/gameStore";
-import { Item } from "../../types/game";
+} from "../../types/game";
+import { paths } from "../../utils/routes";
 
 export const StoreScreen: React.FC = () => {
-  const [selectedStore, setSelectedStore] = useState<GameStore | null>(null);
+  const { storeId } = useParams<{ storeId: string }>();
+  const navigate = useNavigate();
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [showPurchaseModal, setShowPurchaseModal] = useState(false);
@@ -42,17 +45,25 @@ export const StoreScreen: React.FC = () => {
   );
 
   const {
-    getAllStores,
+    stores,
+    loadStores,
     getStoresByType,
     purchaseStoreItem,
-    getUniversalItem,
     restockStore,
     xenocoins,
     cash,
     addNotification,
   } = useGameStore();
 
-  const stores = getAllStores();
+  useEffect(() => {
+    loadStores();
+  }, [loadStores]);
+
+  // The open store comes from the URL, so it follows reloaded stock and offers
+  const selectedStore = storeId
+    ? stores.find((store) => store.id === storeId) || null
+    : null;
+
   const categories = [
     { id: "all", name: "All Stores", icon: Store },
     { id: "general", name: "General", icon: Package },
@@ -76,12 +87,11 @@ export const StoreScreen: React.FC = () => {
     : filteredStores;
 
   const handleStoreClick = (store: GameStore) => {
-    setSelectedStore(store);
+    navigate(paths.store(store.id));
   };
 
-  const handleItemClick = async (storeItem: StoreItem) => {
-    const universalItem = await getUniversalItem(storeItem.itemSlug);
-    setSelectedItem({ storeItem, universalItem });
+  const handleItemClick = (storeItem: StoreItem) => {
+    setSelectedItem({ storeItem, universalItem: storeItem.item });
     setShowPurchaseModal(true);
     setPurchaseQuantity(1);
   };
@@ -127,6 +137,13 @@ export const StoreScreen: React.FC = () => {
         message: "The store inventory has been refreshed!",
         isRead: false,
       });
+    } else if (selectedStore) {
+      addNotification({
+        type: "info",
+        title: "Restock Not Due",
+        message: `Next restock at ${selectedStore.restockSchedule.nextRestock.toLocaleTimeString()}.`,
+        isRead: false,
+      });
     }
   };
 
@@ -177,7 +194,7 @@ export const StoreScreen: React.FC = () => {
         >
           <div className="flex items-center justify-between mb-4">
             <motion.button
-              onClick={() => setSelectedStore(null)}
+              onClick={() => navigate(paths.store())}
               className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-xl transition-colors font-medium"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -278,7 +295,6 @@ export const StoreScreen: React.FC = () => {
                 storeItem={storeItem}
                 index={index}
                 onClick={() => handleItemClick(storeItem)}
-                getUniversalItem={getUniversalItem}
                 getRarityColor={getRarityColor}
                 getItemEmoji={getItemEmoji}
               />
@@ -511,7 +527,7 @@ export const StoreScreen: React.FC = () => {
                           <span className="text-lg">📦</span>
                         </div>
                         <p className="text-xs font-medium text-gray-700 truncate">
-                          {item.itemSlug}
+                          {item.item.name}
                         </p>
                         <div className="flex items-center justify-center space-x-1 mt-1">
                           {item.currency === "xenocoins" ? (
@@ -587,65 +603,14 @@ export const StoreScreen: React.FC = () => {
   );
 };
 
-// Separate component for store items to handle async loading
 const StoreItemCard: React.FC<{
   storeItem: StoreItem;
   index: number;
   onClick: () => void;
-  getUniversalItem: (slug: string) => Promise<Item | null>;
   getRarityColor: (rarity: string) => string;
   getItemEmoji: (item: Item) => string;
-}> = ({
-  storeItem,
-  index,
-  onClick,
-  getUniversalItem,
-  getRarityColor,
-  getItemEmoji,
-}) => {
-  const [universalItem, setUniversalItem] = React.useState<Item | null>(null);
-  const [loading, setLoading] = React.useState(true);
-
-  React.useEffect(() => {
-    const loadItem = async () => {
-      try {
-        const item = await getUniversalItem(storeItem.itemSlug);
-        setUniversalItem(item);
-      } catch (error) {
-        console.error("Error loading item:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadItem();
-  }, [storeItem.itemSlug, getUniversalItem]);
-
-  if (loading) {
-    return (
-      <div className="border-2 rounded-2xl p-4 border-gray-200 bg-gray-50">
-        <div className="animate-pulse">
-          <div className="flex items-start space-x-3 mb-3">
-            <div className="w-16 h-16 bg-gray-300 rounded-xl"></div>
-            <div className="flex-1">
-              <div className="h-4 bg-gray-300 rounded mb-2"></div>
-              <div className="h-3 bg-gray-300 rounded w-3/4"></div>
-            </div>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
-  if (!universalItem) {
-    return (
-      <div className="p-4 bg-red-50 border border-red-200 rounded-2xl">
-        <p className="text-red-700 text-sm">
-          Item not available: {storeItem.itemSlug}
-        </p>
-      </div>
-    );
-  }
+}> = ({ storeItem, index, onClick, getRarityColor, getItemEmoji }) => {
+  const universalItem = storeItem.item;
 
   return (
     <motion.div
@@ -777,7 +742,7 @@ const StoreItemCard: React.FC<{
           <div className="flex items-center space-x-1 mb-1">
             <Package className="w-3 h-3 text-gray-500" />
             <span className="text-xs text-gray-500">
-              Stock: {storeItem.stock}
+              Stock: {isFinite(storeItem.stock) ? storeItem.stock : "∞"}
             </span>
           </div>
           {storeItem.stock === 0 ? (
@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeftRight, Check, X, Coins, Clock } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '../../store/gameStore';
+import { gameService } from '../../services/gameService';
+import { Trade, TradeItem } from '../../types/game';
+
+export const TradeList: React.FC = () => {
+  const { user, trades, loadTrades, confirmTrade, cancelTrade } = useGameStore();
+  const [itemNames, setItemNames] = useState<Record<string, string>>({});
+  const [busyTradeId, setBusyTradeId] = useState<string | null>(null);
+
+  const openTrades = useMemo(
+    () => trades.filter(trade => trade.status === 'pending' || trade.status === 'accepted'),
+    [trades]
+  );
+
+  useEffect(() => {
+    loadTrades();
+  }, [user?.id, loadTrades]);
+
+  // Trade rows only store item ids, so resolve names for display
+  useEffect(() => {
+    const missingIds = Array.from(
+      new Set(
+        openTrades
+          .flatMap(trade => [...trade.initiatorItems, ...trade.recipientItems])
+          .map(item => item.itemId)
+          .filter(itemId => !itemNames[itemId])
+      )
+    );
+    if (missingIds.length === 0) return;
+
+    Promise.all(missingIds.map(itemId => gameService.getItemById(itemId))).then(items => {
+      setItemNames(current => {
+        const next = { ...current };
+        items.forEach((item, index) => {
+          next[missingIds[index]] = item?.name || 'Item desconhecido';
+        });
+        return next;
+      });
+    });
+  }, [openTrades, itemNames]);
+
+  if (!user || openTrades.length === 0) return null;
+
+  const handleAction = async (trade: Trade, action: 'confirm' | 'cancel') => {
+    setBusyTradeId(trade.id);
+    if (action === 'confirm') {
+      await confirmTrade(trade.id);
+    } else {
+      await cancelTrade(trade.id);
+    }
+    setBusyTradeId(null);
+  };
+
+  const renderSide = (label: string, items: TradeItem[], coins: number) => (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-semibold text-gray-500 mb-1">{label}</p>
+      {items.map(item => (
+        <p key={item.inventoryId} className="text-sm text-gray-800 truncate">
+          {item.quantity}x {itemNames[item.itemId] || '...'}
+        </p>
+      ))}
+      {coins > 0 && (
+        <p className="text-sm text-yellow-700 flex items-center">
+          <Coins className="w-3 h-3 mr-1" />
+          {coins.toLocaleString()}
+        </p>
+      )}
+      {items.length === 0 && coins === 0 && <p className="text-sm text-gray-400">Nada</p>}
+    </div>
+  );
+
+  return (
+    <motion.div
+      className="bg-white rounded-2xl shadow-lg mb-4 p-4 border border-gray-100"
+      initial={{ opacity: 0, y: -20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <h3 className="font-semibold text-gray-900 mb-3 flex items-center">
+        <ArrowLeftRight className="w-4 h-4 mr-2 text-blue-600" />
+        Trocas em andamento
+      </h3>
+      <div className="space-y-3">
+        {openTrades.map(trade => {
+          const isInitiator = trade.initiatorId === user.id;
+          const canConfirm = isInitiator ? trade.status === 'accepted' : trade.status === 'pending';
+          const isBusy = busyTradeId === trade.id;
+
+          return (
+            <div key={trade.id} className="p-3 bg-gray-50 rounded-xl border border-gray-200">
+              <div className="flex space-x-3 mb-3">
+                {renderSide(
+                  'Você entrega',
+                  isInitiator ? trade.initiatorItems : trade.recipientItems,
+                  isInitiator ? trade.initiatorXenocoins : trade.recipientXenocoins
+                )}
+                {renderSide(
+                  'Você recebe',
+                  isInitiator ? trade.recipientItems : trade.initiatorItems,
+                  isInitiator ? trade.recipientXenocoins : trade.initiatorXenocoins
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                {canConfirm ? (
+                  <button
+                    onClick={() => handleAction(trade, 'confirm')}
+                    disabled={isBusy}
+                    className="flex-1 flex items-center justify-center space-x-1 py-2 bg-green-600 hover:bg-green-700 text-white rounded-xl text-sm font-medium disabled:opacity-50"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>{isInitiator ? 'Confirmar' : 'Aceitar'}</span>
+                  </button>
+                ) : (
+                  <span className="flex-1 flex items-center justify-center text-xs text-gray-500">
+                    <Clock className="w-3 h-3 mr-1" />
+                    Aguardando o outro jogador
+                  </span>
+                )}
+                <button
+                  onClick={() => handleAction(trade, 'cancel')}
+                  disabled={isBusy}
+                  className="flex-1 flex items-center justify-center space-x-1 py-2 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl text-sm font-medium disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                  <span>{!isInitiator && trade.status === 'pending' ? 'Recusar' : 'Cancelar'}</span>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
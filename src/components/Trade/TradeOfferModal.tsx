@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, X, Coins, Minus, Plus } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useGameStore } from '../../store/gameStore';
+import { Item } from '../../types/game';
+
+interface TradeOfferModalProps {
+  recipientId: string;
+  recipientName: string;
+  recipientInventory: Item[];
+  onClose: () => void;
+}
+
+// inventoryId -> quantity offered
+type Selection = Record<string, number>;
+
+const isTradeable = (item: Item) =>
+  !!item.inventoryId && !item.isEquipped && !item.equippedPetId && !item.lockedTradeId && item.quantity > 0;
+
+export const TradeOfferModal: React.FC<TradeOfferModalProps> = ({
+  recipientId,
+  recipientName,
+  recipientInventory,
+  onClose
+}) => {
+  const { inventory, xenocoins, createTrade } = useGameStore();
+  const [offered, setOffered] = useState<Selection>({});
+  const [requested, setRequested] = useState<Selection>({});
+  const [offeredXenocoins, setOfferedXenocoins] = useState(0);
+  const [requestedXenocoins, setRequestedXenocoins] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const myItems = inventory.filter(isTradeable);
+  const theirItems = recipientInventory.filter(isTradeable);
+
+  const changeQuantity = (
+    setSelection: React.Dispatch<React.SetStateAction<Selection>>,
+    item: Item,
+    delta: number
+  ) => {
+    const inventoryId = item.inventoryId!;
+    setSelection(current => {
+      const next = { ...current };
+      const quantity = Math.max(0, Math.min(item.quantity, (current[inventoryId] || 0) + delta));
+      if (quantity > 0) {
+        next[inventoryId] = quantity;
+      } else {
+        delete next[inventoryId];
+      }
+      return next;
+    });
+  };
+
+  const toTradeItems = (selection: Selection) =>
+    Object.entries(selection).map(([inventoryId, quantity]) => ({ inventoryId, quantity }));
+
+  const isEmpty =
+    Object.keys(offered).length === 0 &&
+    Object.keys(requested).length === 0 &&
+    offeredXenocoins === 0 &&
+    requestedXenocoins === 0;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const success = await createTrade(recipientId, {
+      initiatorItems: toTradeItems(offered),
+      recipientItems: toTradeItems(requested),
+      initiatorXenocoins: offeredXenocoins,
+      recipientXenocoins: requestedXenocoins
+    });
+    setIsSubmitting(false);
+
+    if (success) {
+      onClose();
+    }
+  };
+
+  const renderItemList = (
+    items: Item[],
+    selection: Selection,
+    setSelection: React.Dispatch<React.SetStateAction<Selection>>
+  ) => (
+    <div className="space-y-2 max-h-48 overflow-y-auto">
+      {items.length === 0 && (
+        <p className="text-sm text-gray-500 text-center py-4">Nenhum item disponível para troca</p>
+      )}
+      {items.map(item => {
+        const selected = selection[item.inventoryId!] || 0;
+        return (
+          <div
+            key={item.inventoryId}
+            className={`flex items-center justify-between p-2 rounded-xl border ${
+              selected > 0 ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+              <p className="text-xs text-gray-500">Disponível: {item.quantity}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => changeQuantity(setSelection, item, -1)}
+                disabled={selected === 0}
+                className="w-7 h-7 rounded-lg bg-white border border-gray-200 flex items-center justify-center disabled:opacity-40"
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <span className="w-6 text-center text-sm font-bold">{selected}</span>
+              <button
+                onClick={() => changeQuantity(setSelection, item, 1)}
+                disabled={selected >= item.quantity}
+                className="w-7 h-7 rounded-lg bg-white border border-gray-200 flex items-center justify-center disabled:opacity-40"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <>
+      <motion.div
+        className="fixed inset-0 bg-black/50 z-40"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+      />
+      <motion.div
+        className="fixed inset-0 flex items-center justify-center p-4 z-50 pointer-events-none"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+      >
+        <div className="bg-white rounded-3xl p-6 max-w-md w-full shadow-2xl border border-gray-100 max-h-[90vh] overflow-y-auto pointer-events-auto">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900 flex items-center">
+              <ArrowLeftRight className="w-5 h-5 mr-2 text-blue-600" />
+              Troca com {recipientName}
+            </h3>
+            <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+
+          <div className="mb-4">
+            <h4 className="font-semibold text-gray-900 mb-2">Você oferece</h4>
+            {renderItemList(myItems, offered, setOffered)}
+            <label className="flex items-center justify-between mt-2 p-2 bg-yellow-50 rounded-xl">
+              <span className="flex items-center text-sm text-yellow-800 font-medium">
+                <Coins className="w-4 h-4 mr-1" />
+                Xenocoins
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={xenocoins}
+                value={offeredXenocoins}
+                onChange={(e) => setOfferedXenocoins(Math.max(0, Math.min(xenocoins, Number(e.target.value) || 0)))}
+                className="w-24 px-2 py-1 text-right border border-yellow-200 rounded-lg"
+              />
+            </label>
+          </div>
+
+          <div className="mb-6">
+            <h4 className="font-semibold text-gray-900 mb-2">Você pede</h4>
+            {renderItemList(theirItems, requested, setRequested)}
+            <label className="flex items-center justify-between mt-2 p-2 bg-yellow-50 rounded-xl">
+              <span className="flex items-center text-sm text-yellow-800 font-medium">
+                <Coins className="w-4 h-4 mr-1" />
+                Xenocoins
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={requestedXenocoins}
+                onChange={(e) => setRequestedXenocoins(Math.max(0, Number(e.target.value) || 0))}
+                className="w-24 px-2 py-1 text-right border border-yellow-200 rounded-lg"
+              />
+            </label>
+          </div>
+
+          <p className="text-xs text-gray-500 mb-4">
+            Os itens e xenocoins oferecidos ficam reservados até a troca ser concluída ou cancelada.
+          </p>
+
+          <motion.button
+            onClick={handleSubmit}
+            disabled={isEmpty || isSubmitting}
+            className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-2xl hover:from-blue-700 hover:to-purple-700 transition-all font-semibold shadow-lg disabled:opacity-50"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            {isSubmitting ? 'Enviando...' : 'Enviar Proposta'}
+          </motion.button>
+        </div>
+      </motion.div>
+    </>
+  );
+};
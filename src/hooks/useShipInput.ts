@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useAuthStore } from "../store/authStore";
+import { Point } from "../utils/spacePhysics";
+import {
+  ShipInput,
+  combineShipInputs,
+  readGamepad,
+  readKeyboard,
+  resolveControlBindings,
+} from "../utils/shipInput";
+
+// Typing in a field shouldn't fly the ship
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+const getConnectedGamepads = () =>
+  typeof navigator !== "undefined" && navigator.getGamepads
+    ? navigator.getGamepads().filter((gamepad): gamepad is Gamepad => !!gamepad)
+    : [];
+
+/**
+ * Hook para ler teclado, gamepad e controles de toque da nave
+ * O gamepad é consultado a cada chamada de `readInput`, uma vez por frame
+ */
+export const useShipInput = (enabled = true) => {
+  const savedControls = useAuthStore(
+    (state) => state.user?.preferences?.controls,
+  );
+  const bindings = useMemo(
+    () => resolveControlBindings(savedControls),
+    [savedControls],
+  );
+  const bindingsRef = useRef(bindings);
+  const pressedKeys = useRef(new Set<string>());
+  const touchStick = useRef<Point | null>(null);
+  const touchFire = useRef(false);
+
+  useEffect(() => {
+    bindingsRef.current = bindings;
+  }, [bindings]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const keys = pressedKeys.current;
+    const isBound = (code: string) =>
+      Object.values(bindingsRef.current.keyboard).some((codes) =>
+        codes.includes(code),
+      );
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextInput(event.target) || !isBound(event.code)) return;
+      // Keep arrows and space from scrolling the page
+      event.preventDefault();
+      keys.add(event.code);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => keys.delete(event.code);
+    // Keys released while the window is in the background never fire keyup
+    const handleBlur = () => keys.clear();
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      keys.clear();
+    };
+  }, [enabled]);
+
+  const readInput = useCallback((): ShipInput => {
+    const currentBindings = bindingsRef.current;
+    return combineShipInputs([
+      readKeyboard(pressedKeys.current, currentBindings),
+      ...getConnectedGamepads().map((gamepad) =>
+        readGamepad(gamepad, currentBindings),
+      ),
+      {
+        turn: 0,
+        thrust: 0,
+        stick: touchStick.current,
+        fire: touchFire.current,
+      },
+    ]);
+  }, []);
+
+  const setTouchStick = useCallback((stick: Point | null) => {
+    touchStick.current = stick;
+  }, []);
+
+  const setTouchFire = useCallback((firing: boolean) => {
+    touchFire.current = firing;
+  }, []);
+
+  return { readInput, setTouchStick, setTouchFire };
+};
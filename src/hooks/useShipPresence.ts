@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useAuthStore } from "../store/authStore";
+import { shipPresenceService } from "../services/shipPresenceService";
+import { ShipState } from "../types/game";
+import {
+  ShipPose,
+  ShipSample,
+  addShipSample,
+  getShipPose,
+} from "../utils/shipInterpolation";
+
+const PUBLISH_INTERVAL_MS = 100;
+// A parked ship still reports in now and then so others don't drop it
+const HEARTBEAT_INTERVAL_MS = 2000;
+const STALE_AFTER_MS = HEARTBEAT_INTERVAL_MS * 4;
+
+interface RemoteShip {
+  username: string;
+  samples: ShipSample[];
+}
+
+export interface RemoteShipPose extends ShipPose {
+  userId: string;
+  username: string;
+}
+
+const hasMoved = (previous: ShipState | null, next: ShipState) =>
+  !previous ||
+  Math.abs(previous.x - next.x) > 0.5 ||
+  Math.abs(previous.y - next.y) > 0.5 ||
+  Math.abs(previous.angle - next.angle) > 0.01;
+
+/**
+ * Hook para compartilhar a nave com os outros jogadores do mapa
+ * Envia o estado com throttling e devolve as naves remotas interpoladas
+ */
+export const useShipPresence = () => {
+  const user = useAuthStore((state) => state.user);
+  const userId = user?.id;
+  const username = user?.username;
+  const showOnline = user?.preferences?.privacy?.showOnline ?? true;
+  const shipsRef = useRef(new Map<string, RemoteShip>());
+  const lastPublishTime = useRef(0);
+  const lastPublishedState = useRef<ShipState | null>(null);
+
+  useEffect(() => {
+    if (!userId || !username) return;
+
+    const ships = shipsRef.current;
+    shipPresenceService.join(
+      { id: userId, username },
+      { visible: showOnline },
+      {
+        onShipUpdate: (update) => {
+          const ship = ships.get(update.userId) ?? {
+            username: update.username,
+            samples: [],
+          };
+          ship.username = update.username;
+          addShipSample(ship.samples, {
+            state: update.state,
+            receivedAt: performance.now(),
+          });
+          ships.set(update.userId, ship);
+        },
+        onPilotLeft: (pilotId) => ships.delete(pilotId),
+      },
+    );
+
+    return () => {
+      shipPresenceService.leave();
+      ships.clear();
+      lastPublishedState.current = null;
+    };
+  }, [userId, username, showOnline]);
+
+  const publishShipState = useCallback((shipState: ShipState) => {
+    const now = performance.now();
+    const elapsed = now - lastPublishTime.current;
+    if (elapsed < PUBLISH_INTERVAL_MS) return;
+    if (
+      !hasMoved(lastPublishedState.current, shipState) &&
+      elapsed < HEARTBEAT_INTERVAL_MS
+    ) {
+      return;
+    }
+
+    shipPresenceService.publish(shipState);
+    lastPublishTime.current = now;
+    lastPublishedState.current = shipState;
+  }, []);
+
+  const getRemoteShips = useCallback((): RemoteShipPose[] => {
+    const now = performance.now();
+    const poses: RemoteShipPose[] = [];
+
+    shipsRef.current.forEach((ship, userId) => {
+      const latest = ship.samples[ship.samples.length - 1];
+      if (!latest || now - latest.receivedAt > STALE_AFTER_MS) {
+        shipsRef.current.delete(userId);
+        return;
+      }
+
+      const pose = getShipPose(ship.samples, now);
+      if (pose) poses.push({ userId, username: ship.username, ...pose });
+    });
+
+    return poses;
+  }, []);
+
+  return { publishShipState, getRemoteShips };
+};
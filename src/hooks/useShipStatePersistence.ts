@@ -1,5 +1,6 @@
 import { useCallback, useRef } from "react";
 import { useGameStore } from "../store/gameStore";
+import { ShipState } from "../types/game";
 
 /**
  * Hook para persistir o estado da nave de forma otimizada
@@ -11,15 +12,7 @@ export const useShipStatePersistence = () => {
   const saveIntervalMs = 1000; // Salvar a cada 1 segundo
 
   const saveShipState = useCallback(
-    (shipState: {
-      x: number;
-      y: number;
-      angle: number;
-      vx: number;
-      vy: number;
-      cameraX: number;
-      cameraY: number;
-    }) => {
+    (shipState: ShipState) => {
       const now = Date.now();
       if (now - lastSaveTime.current >= saveIntervalMs) {
         updateShipState(shipState);
@@ -30,15 +23,7 @@ export const useShipStatePersistence = () => {
   );
 
   const forceSaveShipState = useCallback(
-    (shipState: {
-      x: number;
-      y: number;
-      angle: number;
-      vx: number;
-      vy: number;
-      cameraX: number;
-      cameraY: number;
-    }) => {
+    (shipState: ShipState) => {
       updateShipState(shipState);
       lastSaveTime.current = Date.now();
     },
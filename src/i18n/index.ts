@@ -0,0 +1,156 @@
+import { useMemo } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { en } from "./locales/en";
+import { MessageKey, ptBR } from "./locales/pt-BR";
+import { Message, MessageParams } from "./types";
+
+/**
+ * Internationalization
+ *
+ * UI text comes from the message catalogs in `./locales`, looked up by key.
+ * The active locale follows the signed-in player's `language` (see `App`)
+ * and is remembered locally so the login screen uses it too.
+ *
+ * Components call `useTranslation()`, which re-renders them when the locale
+ * changes. Code outside React (e.g. notifications built in `gameStore`)
+ * calls `t()`, which reads the locale at call time.
+ */
+
+export type { MessageKey } from "./locales/pt-BR";
+
+export const SUPPORTED_LOCALES = {
+  "pt-BR": "Português (Brasil)",
+  "en-US": "English",
+} as const;
+
+export type Locale = keyof typeof SUPPORTED_LOCALES;
+
+export const DEFAULT_LOCALE: Locale = "pt-BR";
+
+// Languages without a catalog get the international one
+const FALLBACK_LOCALE: Locale = "en-US";
+
+const catalogs: Record<Locale, Record<MessageKey, Message>> = {
+  "pt-BR": ptBR,
+  "en-US": en,
+};
+
+/**
+ * Maps a stored language ("en-US", "en", "pt-PT", "es-ES"...) to the
+ * closest supported locale
+ */
+export const resolveLocale = (language?: string | null): Locale => {
+  if (!language) return DEFAULT_LOCALE;
+  if (language in catalogs) return language as Locale;
+
+  const base = language.split("-")[0].toLowerCase();
+  const sameLanguage = (Object.keys(catalogs) as Locale[]).find(
+    (locale) => locale.split("-")[0] === base,
+  );
+  return sameLanguage ?? FALLBACK_LOCALE;
+};
+
+interface LocaleStore {
+  locale: Locale;
+  setLocale: (language: string) => void;
+}
+
+export const useLocaleStore = create<LocaleStore>()(
+  persist(
+    (set) => ({
+      locale: DEFAULT_LOCALE,
+      setLocale: (language) => set({ locale: resolveLocale(language) }),
+    }),
+    { name: "xenopets-locale" },
+  ),
+);
+
+const formatNumber = (
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions,
+) => new Intl.NumberFormat(locale, options).format(value);
+
+const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string => {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key];
+  if (message === undefined) return key;
+
+  const template =
+    typeof message === "string"
+      ? message
+      : (message[
+          new Intl.PluralRules(locale).select(Number(params.count ?? 0))
+        ] ?? message.other);
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? formatNumber(locale, value) : value;
+  });
+};
+
+const RELATIVE_TIME_STEPS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["minute", 60],
+  ["hour", 24],
+  ["day", Infinity],
+];
+
+/**
+ * Translation and formatting bound to one locale
+ */
+export const createTranslator = (locale: Locale) => {
+  const t = (key: MessageKey, params?: MessageParams) =>
+    translate(locale, key, params);
+
+  return {
+    locale,
+    t,
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+      formatNumber(locale, value, options),
+    formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) =>
+      new Intl.DateTimeFormat(locale, options).format(date),
+    // In-game currencies are not ISO currencies, so they are spelled out
+    formatCurrency: (amount: number, currency: "xenocoins" | "cash") =>
+      t(currency === "cash" ? "currency.cash" : "currency.xenocoins", {
+        count: amount,
+      }),
+    // "a, b e c"
+    formatList: (items: string[]) =>
+      items.length <= 1
+        ? items.join("")
+        : `${items.slice(0, -1).join(", ")} ${t("common.and")} ${items[items.length - 1]}`,
+    // "há 5 minutos", "5 minutes ago"
+    formatRelativeTime: (date: Date, now = new Date()) => {
+      let elapsed = Math.floor((now.getTime() - date.getTime()) / 60000);
+      if (elapsed < 1) return t("time.justNow");
+
+      const format = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+      for (const [unit, size] of RELATIVE_TIME_STEPS) {
+        if (elapsed < size) return format.format(-elapsed, unit);
+        elapsed = Math.floor(elapsed / size);
+      }
+      return format.format(-elapsed, "day");
+    },
+  };
+};
+
+export type Translator = ReturnType<typeof createTranslator>;
+
+/**
+ * Translator for the active locale, for code outside React components
+ */
+export const getTranslator = (): Translator =>
+  createTranslator(useLocaleStore.getState().locale);
+
+export const t = (key: MessageKey, params?: MessageParams) =>
+  getTranslator().t(key, params);
+
+export const useTranslation = (): Translator => {
+  const locale = useLocaleStore((state) => state.locale);
+  return useMemo(() => createTranslator(locale), [locale]);
+};
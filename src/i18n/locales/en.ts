@@ -0,0 +1,154 @@
+import { Message } from "../types";
+import { MessageKey } from "./pt-BR";
+
+export const en: Record<MessageKey, Message> = {
+  "common.back": "Back",
+  "common.error": "Error",
+  "common.and": "and",
+
+  "currency.xenocoins": { one: "{count} Xenocoin", other: "{count} Xenocoins" },
+  "currency.cash": "{count} Cash",
+
+  "nav.pet": "Pet",
+  "nav.world": "World",
+  "nav.inventory": "Inventory",
+  "nav.profile": "Profile",
+  "nav.admin": "Admin",
+
+  "world.title": "Galactic Map",
+
+  "minimap.title": "Galaxy Map",
+  "minimap.expand": "Open galaxy map",
+  "minimap.close": "Close map",
+  "minimap.explored": "{percent} explored",
+  "minimap.target": "Destination: {name}",
+  "minimap.pickTarget": "Click a planet to set your destination",
+  "minimap.clearTarget": "Clear destination",
+  "minimap.engageAutopilot": "Fly there on autopilot",
+
+  "autopilot.title": "Autopilot",
+  "autopilot.choose": "Choose a destination",
+  "autopilot.noPlanets": "No planets found",
+  "autopilot.engaged": "Heading to {name}",
+  "autopilot.distance": "{distance} away",
+  "autopilot.cancel": "Cancel autopilot",
+
+  "space.hull": "Hull",
+  "space.lootTitle": "Item found!",
+  "space.lootMessage": "{item} was added to your inventory",
+  "space.shipDisabledTitle": "Ship disabled",
+  "space.shipDisabledMessage": "Your ship was towed back to the starting point",
+  "space.touchStick": "Steer ship",
+  "space.touchFire": "Fire",
+
+  "worldEditor.title": "World editor",
+  "worldEditor.selected": {
+    one: "{count} world selected",
+    other: "{count} worlds selected",
+  },
+  "worldEditor.noSelection":
+    "Click a world or drag a box to select several. Shift adds to the selection.",
+  "worldEditor.size": "Size: {size}",
+  "worldEditor.rotation": "Rotation: {degrees}°",
+  "worldEditor.landingArea": "Landing area: {radius}px",
+  "worldEditor.snapGrid": "Grid",
+  "worldEditor.snapAngle": "Angle",
+  "worldEditor.snapOff": "Free",
+  "worldEditor.undo": "Undo (Ctrl+Z)",
+  "worldEditor.redo": "Redo (Ctrl+Shift+Z)",
+  "worldEditor.pending": {
+    one: "{count} world changed",
+    other: "{count} worlds changed",
+  },
+  "worldEditor.noPending": "No pending changes",
+  "worldEditor.notePlaceholder": "Version description (optional)",
+  "worldEditor.save": "Save",
+  "worldEditor.discard": "Discard",
+  "worldEditor.discardConfirm": "Discard your unsaved changes?",
+  "worldEditor.history": "Saved versions",
+  "worldEditor.noHistory": "No saved versions yet",
+  "worldEditor.rollback": "Restore this version",
+  "worldEditor.rollbackConfirm":
+    "Put the worlds back as they were in version {version}?",
+
+  "time.justNow": "Just now",
+
+  "notifications.title": "Notifications",
+  "notifications.clearAll": "Clear all",
+  "notifications.empty": "No notifications",
+
+  "checkin.title": "Daily Check-in",
+  "checkin.subtitle": "Monthly rewards",
+  "checkin.currentStreak": "Current streak:",
+  "checkin.days": { one: "{count} day", other: "{count} days" },
+  "checkin.claimFailed": "Could not claim the reward. Please try again.",
+  "checkin.dailyTitle": "Daily Check-in!",
+  "checkin.weeklyTitle": "Weekly Streak!",
+  "checkin.rewardMessage": "You received {rewards}! Streak: {streak}.",
+
+  "settings.title": "Settings",
+  "settings.language": "Language",
+  "settings.languageHint": "Used for the game's text, dates and numbers.",
+  "settings.languageSaveFailed": "Could not save your language.",
+  "settings.controls": "Controls",
+  "settings.controlsHint": "Keys and gamepad buttons used to fly your ship.",
+  "settings.controlsKeyboard": "Keyboard",
+  "settings.controlsGamepad": "Gamepad",
+  "settings.controlsAdd": "Add",
+  "settings.controlsPressKey": "Press a key (ESC cancels)",
+  "settings.controlsPressButton": "Press a gamepad button",
+  "settings.controlsButton": "Button {index}",
+  "settings.controlsDeadzone": "Stick deadzone: {percent}",
+  "settings.controlsReset": "Restore defaults",
+  "settings.controlsSaveFailed": "Could not save your controls.",
+  "settings.action.thrust": "Thrust",
+  "settings.action.reverse": "Reverse",
+  "settings.action.turnLeft": "Turn left",
+  "settings.action.turnRight": "Turn right",
+  "settings.action.fire": "Fire",
+
+  "auth.notLoggedIn": "User not logged in",
+
+  "redeem.adminTitle": "Redeem codes",
+  "redeem.successTitle": "Code Redeemed!",
+  "redeem.successMessage": "Code redeemed successfully! Rewards: {rewards}",
+  "redeem.accountPoints": {
+    one: "{count} account point",
+    other: "{count} account points",
+  },
+  "redeem.collectible": "Collectible: {name}",
+  "redeem.item": "Item: {name}",
+
+  "progression.questCompleted": "Quest completed!",
+  "progression.stepCompleted": "{saga}: step completed!",
+  "progression.sagaCompleted": "Saga completed!",
+  "progression.rewardPoints": {
+    one: "{count} point",
+    other: "{count} points",
+  },
+  "progression.rewardItems": { one: "{count} item", other: "{count} items" },
+  "achievements.unlocked": "Achievement unlocked!",
+
+  "items.reservedTitle": "Item reserved",
+  "items.reservedMessage": "{item} is reserved in a pending trade.",
+  "items.petUnavailableTitle": "Pet unavailable",
+  "items.petUnavailableMessage": "{pet} can no longer receive items.",
+  "items.noEffectTitle": "No effect",
+  "items.noEffectMessage": "This item has no effects that apply to your pet.",
+  "items.usedTitle": "Item used!",
+  "items.usedMessage": "{item} was used on {pet}. Effects applied!",
+  "items.useFailed": "Something went wrong while using the item.",
+
+  "store.notFound": "Store or item not found",
+  "store.purchasedTitle": "Purchase Successful!",
+  "store.purchasedMessage": "Purchased {quantity}x {item} for {price}",
+
+  "collectibles.obtainedTitle": "Collectible Obtained!",
+  "collectibles.obtainedMessage": "You collected: {name}",
+
+  "trades.proposed": "Trade proposed",
+  "trades.notSent": "Trade not sent",
+  "trades.confirmed": "Trade confirmed",
+  "trades.closed": "Trade closed",
+  "trades.failed": "Trade error",
+};
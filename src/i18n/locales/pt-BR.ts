@@ -0,0 +1,163 @@
+import { Catalog } from "../types";
+
+/**
+ * Source catalog. Every other locale must translate all of these keys;
+ * missing translations fall back to this catalog at runtime.
+ */
+export const ptBR = {
+  "common.back": "Voltar",
+  "common.error": "Erro",
+  "common.and": "e",
+
+  "currency.xenocoins": "{count} Xenocoins",
+  "currency.cash": "{count} Cash",
+
+  "nav.pet": "Pet",
+  "nav.world": "Mundo",
+  "nav.inventory": "Inventário",
+  "nav.profile": "Perfil",
+  "nav.admin": "Admin",
+
+  "world.title": "Mapa Galáctico",
+
+  "minimap.title": "Mapa da Galáxia",
+  "minimap.expand": "Abrir mapa da galáxia",
+  "minimap.close": "Fechar mapa",
+  "minimap.explored": "{percent} explorado",
+  "minimap.target": "Destino: {name}",
+  "minimap.pickTarget": "Clique em um planeta para definir o destino",
+  "minimap.clearTarget": "Limpar destino",
+  "minimap.engageAutopilot": "Ir com piloto automático",
+
+  "autopilot.title": "Piloto automático",
+  "autopilot.choose": "Escolha um destino",
+  "autopilot.noPlanets": "Nenhum planeta encontrado",
+  "autopilot.engaged": "Indo para {name}",
+  "autopilot.distance": "{distance} de distância",
+  "autopilot.cancel": "Cancelar piloto automático",
+
+  "space.hull": "Casco",
+  "space.lootTitle": "Item encontrado!",
+  "space.lootMessage": "{item} foi adicionado ao seu inventário",
+  "space.shipDisabledTitle": "Nave avariada",
+  "space.shipDisabledMessage":
+    "Sua nave foi rebocada de volta ao ponto de partida",
+  "space.touchStick": "Direcionar nave",
+  "space.touchFire": "Atirar",
+
+  "worldEditor.title": "Editor de mundos",
+  "worldEditor.selected": {
+    one: "{count} mundo selecionado",
+    other: "{count} mundos selecionados",
+  },
+  "worldEditor.noSelection":
+    "Clique em um mundo ou arraste uma caixa para selecionar vários. Shift adiciona à seleção.",
+  "worldEditor.size": "Tamanho: {size}",
+  "worldEditor.rotation": "Rotação: {degrees}°",
+  "worldEditor.landingArea": "Área de pouso: {radius}px",
+  "worldEditor.snapGrid": "Grade",
+  "worldEditor.snapAngle": "Ângulo",
+  "worldEditor.snapOff": "Livre",
+  "worldEditor.undo": "Desfazer (Ctrl+Z)",
+  "worldEditor.redo": "Refazer (Ctrl+Shift+Z)",
+  "worldEditor.pending": {
+    one: "{count} mundo alterado",
+    other: "{count} mundos alterados",
+  },
+  "worldEditor.noPending": "Nenhuma alteração pendente",
+  "worldEditor.notePlaceholder": "Descrição da versão (opcional)",
+  "worldEditor.save": "Salvar",
+  "worldEditor.discard": "Descartar",
+  "worldEditor.discardConfirm": "Descartar as alterações não salvas?",
+  "worldEditor.history": "Versões salvas",
+  "worldEditor.noHistory": "Nenhuma versão salva ainda",
+  "worldEditor.rollback": "Restaurar esta versão",
+  "worldEditor.rollbackConfirm":
+    "Restaurar os mundos como estavam na versão {version}?",
+
+  "time.justNow": "Agora mesmo",
+
+  "notifications.title": "Notificações",
+  "notifications.clearAll": "Limpar todas",
+  "notifications.empty": "Nenhuma notificação",
+
+  "checkin.title": "Check-in Diário",
+  "checkin.subtitle": "Recompensas mensais",
+  "checkin.currentStreak": "Sequência atual:",
+  "checkin.days": { one: "{count} dia", other: "{count} dias" },
+  "checkin.claimFailed": "Falha ao resgatar recompensa. Tente novamente.",
+  "checkin.dailyTitle": "Check-in Diário!",
+  "checkin.weeklyTitle": "Sequência Semanal!",
+  "checkin.rewardMessage": "Você recebeu {rewards}! Sequência: {streak}.",
+
+  "settings.title": "Configurações",
+  "settings.language": "Idioma",
+  "settings.languageHint": "Usado nos textos, datas e números do jogo.",
+  "settings.languageSaveFailed": "Não foi possível salvar o idioma.",
+  "settings.controls": "Controles",
+  "settings.controlsHint":
+    "Teclas e botões do gamepad usados para pilotar a nave.",
+  "settings.controlsKeyboard": "Teclado",
+  "settings.controlsGamepad": "Gamepad",
+  "settings.controlsAdd": "Adicionar",
+  "settings.controlsPressKey": "Pressione uma tecla (ESC cancela)",
+  "settings.controlsPressButton": "Pressione um botão do gamepad",
+  "settings.controlsButton": "Botão {index}",
+  "settings.controlsDeadzone": "Zona morta do analógico: {percent}",
+  "settings.controlsReset": "Restaurar padrão",
+  "settings.controlsSaveFailed": "Não foi possível salvar os controles.",
+  "settings.action.thrust": "Acelerar",
+  "settings.action.reverse": "Ré",
+  "settings.action.turnLeft": "Girar à esquerda",
+  "settings.action.turnRight": "Girar à direita",
+  "settings.action.fire": "Atirar",
+
+  "auth.notLoggedIn": "Usuário não conectado",
+
+  "redeem.adminTitle": "Códigos de resgate",
+  "redeem.successTitle": "Código Resgatado!",
+  "redeem.successMessage":
+    "Código resgatado com sucesso! Recompensas: {rewards}",
+  "redeem.accountPoints": {
+    one: "{count} ponto de conta",
+    other: "{count} pontos de conta",
+  },
+  "redeem.collectible": "Colecionável: {name}",
+  "redeem.item": "Item: {name}",
+
+  "progression.questCompleted": "Missão concluída!",
+  "progression.stepCompleted": "{saga}: etapa concluída!",
+  "progression.sagaCompleted": "Saga concluída!",
+  "progression.rewardPoints": {
+    one: "{count} ponto",
+    other: "{count} pontos",
+  },
+  "progression.rewardItems": { one: "{count} item", other: "{count} itens" },
+  "achievements.unlocked": "Conquista desbloqueada!",
+
+  "items.reservedTitle": "Item reservado",
+  "items.reservedMessage": "{item} está reservado em uma troca pendente.",
+  "items.petUnavailableTitle": "Pet indisponível",
+  "items.petUnavailableMessage": "{pet} não pode mais receber itens.",
+  "items.noEffectTitle": "Item sem efeito",
+  "items.noEffectMessage": "Este item não tem efeitos aplicáveis ao seu pet.",
+  "items.usedTitle": "Item usado!",
+  "items.usedMessage":
+    "{item} foi usado em {pet}. Efeitos aplicados com sucesso!",
+  "items.useFailed": "Ocorreu um erro ao usar o item.",
+
+  "store.notFound": "Loja ou item não encontrado",
+  "store.purchasedTitle": "Compra realizada!",
+  "store.purchasedMessage": "Você comprou {quantity}x {item} por {price}",
+
+  "collectibles.obtainedTitle": "Colecionável obtido!",
+  "collectibles.obtainedMessage": "Você coletou: {name}",
+
+  "trades.proposed": "Troca proposta",
+  "trades.notSent": "Troca não enviada",
+  "trades.confirmed": "Troca confirmada",
+  "trades.closed": "Troca encerrada",
+  "trades.failed": "Erro na troca",
+} satisfies Catalog;
+
+export type MessageKey = keyof typeof ptBR;
@@ -0,0 +1,14 @@
+/**
+ * A message is either a plain template or one template per plural category
+ * of the locale (see `Intl.PluralRules`), chosen by the `count` parameter.
+ * Templates reference parameters as `{name}`.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+export type Catalog = Record<string, Message>;
+
+export type MessageParams = Record<string, string | number>;
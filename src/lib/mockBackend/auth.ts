@@ -0,0 +1,253 @@
+import {
+  AuthApiError,
+  AuthChangeEvent,
+  Session,
+  User,
+} from "@supabase/supabase-js";
+import { Json } from "../../types/database";
+import { MockDatabase, Row } from "./database";
+
+/**
+ * Email/password auth for mock mode
+ *
+ * Signing up runs the same steps as the `handle_new_user` trigger: a
+ * profile with zero balances (admin for the username "vitoca") and a
+ * welcome notification. The session is kept in localStorage so a reload
+ * stays signed in; users registered in a previous page load are gone with
+ * the rest of the in-memory data, so their session is dropped.
+ */
+
+const SESSION_STORAGE_KEY = "xenopets-mock-session";
+const SESSION_SECONDS = 3600;
+
+interface StoredUser {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata: Row;
+  created_at: string;
+}
+
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void;
+
+const authError = (message: string, code: string, status = 400) =>
+  new AuthApiError(message, status, code);
+
+const toPublicUser = (user: StoredUser): User => ({
+  id: user.id,
+  aud: "authenticated",
+  role: "authenticated",
+  email: user.email,
+  email_confirmed_at: user.created_at,
+  user_metadata: user.user_metadata,
+  app_metadata: { provider: "email", providers: ["email"] },
+  created_at: user.created_at,
+});
+
+export class MockAuth {
+  private users = new Map<string, StoredUser>();
+  private currentUserId: string | null = null;
+  private listeners = new Set<AuthListener>();
+
+  constructor(private db: MockDatabase) {}
+
+  /** Adds an account without running the sign-up trigger, for seed data */
+  addUser(user: StoredUser) {
+    this.users.set(user.email.toLowerCase(), user);
+  }
+
+  /** Restores the stored session once the seed users exist */
+  restoreSession() {
+    const storedId = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (storedId && this.getStoredUser(storedId)) {
+      this.currentUserId = storedId;
+    } else {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }
+
+  /** The id `auth.uid()` returns inside database functions */
+  uid(): string | null {
+    return this.currentUserId;
+  }
+
+  async signUp(credentials: {
+    email: string;
+    password: string;
+    options?: { data?: Row };
+  }) {
+    const email = credentials.email.trim().toLowerCase();
+    if (credentials.password.length < 6) {
+      return this.failure(
+        authError(
+          "Password should be at least 6 characters.",
+          "weak_password",
+          422,
+        ),
+      );
+    }
+    if (this.users.has(email)) {
+      return this.failure(
+        authError("User already registered", "user_already_exists", 422),
+      );
+    }
+
+    const user: StoredUser = {
+      id: crypto.randomUUID(),
+      email,
+      password: credentials.password,
+      user_metadata: credentials.options?.data || {},
+      created_at: new Date().toISOString(),
+    };
+
+    try {
+      this.db.transaction(() => this.handleNewUser(user));
+    } catch (error) {
+      console.error("Mock sign up failed:", error);
+      return this.failure(
+        authError("Database error saving new user", "unexpected_failure", 500),
+      );
+    }
+
+    this.addUser(user);
+    return this.startSession(user);
+  }
+
+  async signInWithPassword(credentials: { email: string; password: string }) {
+    const user = this.users.get(credentials.email.trim().toLowerCase());
+    if (!user || user.password !== credentials.password) {
+      return this.failure(
+        authError("Invalid login credentials", "invalid_credentials"),
+      );
+    }
+    return this.startSession(user);
+  }
+
+  async signOut() {
+    this.currentUserId = null;
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+    this.notify("SIGNED_OUT", null);
+    return { error: null };
+  }
+
+  async getSession() {
+    return { data: { session: this.getCurrentSession() }, error: null };
+  }
+
+  async getUser() {
+    const user = this.getCurrentUser();
+    if (!user) {
+      return {
+        data: { user: null },
+        error: authError("Auth session missing!", "session_not_found"),
+      };
+    }
+    return { data: { user: toPublicUser(user) }, error: null };
+  }
+
+  async refreshSession() {
+    const session = this.getCurrentSession();
+    if (!session) {
+      return {
+        data: { user: null, session: null },
+        error: authError("Auth session missing!", "session_not_found"),
+      };
+    }
+    this.notify("TOKEN_REFRESHED", session);
+    return { data: { user: session.user, session }, error: null };
+  }
+
+  async resetPasswordForEmail(email: string) {
+    // Like Supabase, unknown addresses are not revealed
+    console.info(`Mock password reset requested for ${email}`);
+    return { data: {}, error: null };
+  }
+
+  onAuthStateChange(callback: AuthListener) {
+    this.listeners.add(callback);
+    return {
+      data: {
+        subscription: {
+          unsubscribe: () => {
+            this.listeners.delete(callback);
+          },
+        },
+      },
+    };
+  }
+
+  private handleNewUser(user: StoredUser) {
+    const metadata = user.user_metadata;
+    const username = String(metadata.username || "User");
+
+    this.db.insert("profiles", {
+      id: user.id,
+      username,
+      phone: metadata.phone == null ? null : String(metadata.phone),
+      is_admin: username.toLowerCase() === "vitoca",
+      language: String(metadata.language || "en-US"),
+      // Metadata is stored as jsonb, like the preferences column
+      ...(metadata.preferences != null && {
+        preferences: metadata.preferences as Json,
+      }),
+    });
+
+    this.db.insert("notifications", {
+      user_id: user.id,
+      type: "info",
+      title: "Bem-vindo aos Xenopets!",
+      message:
+        "Sua aventura começa agora. Escolha seu primeiro ovo para começar!",
+    });
+  }
+
+  private startSession(user: StoredUser) {
+    this.currentUserId = user.id;
+    localStorage.setItem(SESSION_STORAGE_KEY, user.id);
+
+    const session = this.getCurrentSession();
+    this.notify("SIGNED_IN", session);
+    return { data: { user: session!.user, session }, error: null };
+  }
+
+  private failure(error: AuthApiError) {
+    return { data: { user: null, session: null }, error };
+  }
+
+  private getStoredUser(id: string) {
+    const user = Array.from(this.users.values()).find(
+      (candidate) => candidate.id === id,
+    );
+    // The account is unusable once its profile is gone
+    if (!user || !this.db.find("profiles", (profile) => profile.id === id)) {
+      return undefined;
+    }
+    return user;
+  }
+
+  private getCurrentUser() {
+    return this.currentUserId
+      ? this.getStoredUser(this.currentUserId)
+      : undefined;
+  }
+
+  private getCurrentSession(): Session | null {
+    const user = this.getCurrentUser();
+    if (!user) return null;
+
+    return {
+      access_token: `mock-access-token-${user.id}`,
+      refresh_token: `mock-refresh-token-${user.id}`,
+      token_type: "bearer",
+      expires_in: SESSION_SECONDS,
+      expires_at: Math.floor(Date.now() / 1000) + SESSION_SECONDS,
+      user: toPublicUser(user),
+    };
+  }
+
+  private notify(event: AuthChangeEvent, session: Session | null) {
+    this.listeners.forEach((listener) =>
+      setTimeout(() => listener(event, session)),
+    );
+  }
+}
@@ -0,0 +1,874 @@
+/**
+ * In-memory tables for mock mode
+ *
+ * Rows are plain objects keyed like the Postgres columns in
+ * `types/database.ts`. Inserts fill the column defaults of the migrations,
+ * unique constraints and foreign keys are enforced, and `transaction` rolls
+ * every table back when its callback throws, like a database function.
+ */
+
+import { Database } from "../../types/database";
+
+export type Row = Record<string, unknown>;
+
+type Tables = Database["public"]["Tables"];
+
+// Tables described in `types/database.ts` have its row types
+export type TableRow<T extends string> = T extends keyof Tables
+  ? Tables[T]["Row"]
+  : Row;
+
+export type ChangeEventType = "INSERT" | "UPDATE" | "DELETE";
+
+export interface ChangeEvent {
+  table: string;
+  eventType: ChangeEventType;
+  new: Row | null;
+  old: Row | null;
+}
+
+export type TriggerOperation = "insert" | "update" | "delete";
+
+export interface Trigger<T extends string = string> {
+  table: T;
+  timing: "before" | "after";
+  operations: TriggerOperation[];
+  handler: (
+    operation: TriggerOperation,
+    oldRow: TableRow<T> | null,
+    newRow: TableRow<T> | null,
+  ) => void;
+}
+
+interface ForeignKey {
+  table: string;
+  column: string;
+  references: string;
+  onDelete: "cascade" | "set null";
+}
+
+interface TableConfig {
+  defaults: () => Row;
+  // Key functions of the unique constraints, besides the primary key
+  unique?: ((row: Row) => string)[];
+  // Tables without an `id` column
+  primaryKey?: string[];
+}
+
+/** Errors carry the Postgres/PostgREST code the real backend would return */
+export class MockDatabaseError extends Error {
+  constructor(
+    message: string,
+    public code = "P0001",
+  ) {
+    super(message);
+    this.name = "MockDatabaseError";
+  }
+}
+
+export const now = () => new Date().toISOString();
+
+const keyOf =
+  (...columns: string[]) =>
+  (row: Row) =>
+    JSON.stringify(columns.map((column) => row[column] ?? null));
+
+const DEFAULT_PREFERENCES = {
+  notifications: true,
+  soundEffects: true,
+  musicVolume: 0.7,
+  language: "en-US",
+  theme: "light",
+  privacy: { showOnline: true, allowDuels: true, allowTrades: true },
+};
+
+const TABLES: Record<string, TableConfig> = {
+  profiles: {
+    defaults: () => ({
+      phone: null,
+      is_admin: false,
+      language: "en-US",
+      account_score: 0,
+      days_played: 0,
+      total_xenocoins: 0,
+      xenocoins: 0,
+      cash: 0,
+      avatar_url: null,
+      preferences: DEFAULT_PREFERENCES,
+      created_at: now(),
+      updated_at: now(),
+      last_login: now(),
+    }),
+    unique: [keyOf("username")],
+  },
+  pets: {
+    defaults: () => ({
+      style: "normal",
+      level: 1,
+      happiness: 8,
+      health: 10,
+      hunger: 8,
+      strength: 1,
+      dexterity: 1,
+      intelligence: 1,
+      speed: 1,
+      attack: 1,
+      defense: 1,
+      precision: 1,
+      evasion: 1,
+      luck: 1,
+      is_alive: true,
+      is_active: false,
+      hatch_time: null,
+      death_date: null,
+      last_interaction: now(),
+      care_updated_at: now(),
+      low_health_ticks: 0,
+      zero_health_ticks: 0,
+      image_url: null,
+      created_at: now(),
+      updated_at: now(),
+    }),
+  },
+  pet_conditions: {
+    defaults: () => ({
+      effects: {},
+      duration_hours: null,
+      applied_at: now(),
+      expires_at: null,
+    }),
+    unique: [keyOf("pet_id", "type", "applied_at")],
+  },
+  items: {
+    defaults: () => ({
+      price: 0,
+      currency: "xenocoins",
+      effects: {},
+      daily_limit: null,
+      decomposition_hours: 24,
+      slot: null,
+      image_url: null,
+      is_tradeable: true,
+      created_at: now(),
+    }),
+  },
+  inventory: {
+    defaults: () => ({
+      quantity: 1,
+      is_equipped: false,
+      equipped_pet_id: null,
+      locked_trade_id: null,
+      acquired_at: now(),
+      last_used: null,
+    }),
+  },
+  notifications: {
+    defaults: () => ({ is_read: false, action_url: null, created_at: now() }),
+  },
+  achievements: {
+    defaults: () => ({
+      requirements: {},
+      rewards: {},
+      max_progress: 1,
+      is_active: true,
+      created_at: now(),
+    }),
+  },
+  user_achievements: {
+    defaults: () => ({ progress: 0, is_unlocked: false, unlocked_at: null }),
+    unique: [keyOf("user_id", "achievement_id")],
+  },
+  collectibles: {
+    defaults: () => ({
+      image_url: null,
+      unlock_requirement: {},
+      created_at: now(),
+    }),
+  },
+  user_collectibles: {
+    defaults: () => ({ collected_at: now() }),
+    unique: [keyOf("user_id", "collectible_id")],
+  },
+  quests: {
+    defaults: () => ({
+      requirements: {},
+      rewards: {},
+      is_active: true,
+      unlock_requirement: {},
+      created_at: now(),
+    }),
+  },
+  user_quests: {
+    defaults: () => ({
+      progress: {},
+      is_active: false,
+      is_completed: false,
+      started_at: null,
+      completed_at: null,
+    }),
+    unique: [keyOf("user_id", "quest_id")],
+  },
+  sagas: {
+    defaults: () => ({
+      total_steps: 1,
+      is_active: true,
+      unlock_requirement: {},
+      rewards: {},
+      created_at: now(),
+    }),
+  },
+  saga_steps: {
+    defaults: () => ({ requirements: {}, rewards: {}, created_at: now() }),
+    unique: [keyOf("saga_id", "step_number")],
+  },
+  user_saga_progress: {
+    defaults: () => ({
+      current_step: 0,
+      is_active: false,
+      is_completed: false,
+      started_at: null,
+      completed_at: null,
+      flags: {},
+    }),
+    unique: [keyOf("user_id", "saga_id")],
+  },
+  npcs: {
+    defaults: () => ({
+      image_url: null,
+      personality: null,
+      services: [],
+      created_at: now(),
+    }),
+  },
+  shops: {
+    defaults: () => ({
+      npc_id: null,
+      description: null,
+      type: "general",
+      npc_dialogue: null,
+      open_hour: 0,
+      close_hour: 24,
+      restock_interval_hours: 6,
+      last_restock: now(),
+      discount_level: 0,
+      is_active: true,
+      created_at: now(),
+      updated_at: now(),
+    }),
+  },
+  shop_items: {
+    defaults: () => ({
+      currency: "xenocoins",
+      stock: null,
+      stock_limit: null,
+      restock_rate: 1,
+      sale_discount: 0,
+      is_limited: false,
+      requirements: [],
+      is_available: true,
+      last_restocked: now(),
+      created_at: now(),
+    }),
+    unique: [keyOf("shop_id", "item_id")],
+  },
+  shop_offers: {
+    defaults: () => ({
+      description: null,
+      currency: "xenocoins",
+      start_date: now(),
+      current_purchases: 0,
+      is_active: true,
+      created_at: now(),
+    }),
+  },
+  shop_reputation: {
+    defaults: () => ({ reputation: 0, updated_at: now() }),
+    primaryKey: ["user_id", "shop_id"],
+  },
+  purchase_transactions: {
+    defaults: () => ({ result: null, created_at: now() }),
+    unique: [keyOf("user_id", "idempotency_key")],
+  },
+  trades: {
+    defaults: () => ({
+      initiator_items: [],
+      recipient_items: [],
+      initiator_xenocoins: 0,
+      recipient_xenocoins: 0,
+      status: "pending",
+      initiator_confirmed: false,
+      recipient_confirmed: false,
+      created_at: now(),
+      completed_at: null,
+    }),
+  },
+  duels: {
+    defaults: () => ({
+      opponent_pet_id: null,
+      status: "pending",
+      winner_id: null,
+      xenocoins_wagered: 0,
+      battle_log: [],
+      created_at: now(),
+      completed_at: null,
+    }),
+  },
+  currency_ledger: {
+    defaults: () => ({ reference_id: null, created_at: now() }),
+  },
+  user_checkins: {
+    defaults: () => ({
+      streak: 1,
+      grace_used: false,
+      rewards: {},
+      created_at: now(),
+    }),
+    unique: [keyOf("user_id", "checkin_date")],
+  },
+  redeem_campaigns: {
+    defaults: () => ({
+      description: "",
+      rewards: {},
+      expires_at: null,
+      code_pattern: null,
+      created_by: null,
+      created_at: now(),
+    }),
+  },
+  redeem_codes: {
+    defaults: () => ({
+      description: "",
+      rewards: {},
+      max_uses: -1,
+      current_uses: 0,
+      expires_at: null,
+      is_active: true,
+      created_by: null,
+      created_at: now(),
+      campaign_id: null,
+      revoked_at: null,
+    }),
+    unique: [(row) => String(row.code).toUpperCase()],
+  },
+  redeem_code_redemptions: {
+    defaults: () => ({ rewards: {}, created_at: now() }),
+    unique: [keyOf("code_id", "user_id")],
+  },
+  world_positions: {
+    defaults: () => ({
+      x: 0,
+      y: 0,
+      size: 60,
+      rotation: 0,
+      color: "#4ecdc4",
+      image_url: null,
+      created_at: now(),
+      updated_at: now(),
+    }),
+  },
+  space_kills: {
+    defaults: () => ({ loot: null, created_at: now() }),
+    primaryKey: ["user_id", "region", "cycle", "entity_index"],
+  },
+  user_planet_visits: {
+    defaults: () => ({ visited_at: now() }),
+    primaryKey: ["user_id", "planet_id"],
+  },
+  world_layout_versions: {
+    defaults: () => ({
+      note: "",
+      layout: [],
+      created_by: null,
+      created_at: now(),
+    }),
+    unique: [keyOf("version")],
+  },
+};
+
+export const FOREIGN_KEYS: ForeignKey[] = [
+  {
+    table: "pets",
+    column: "owner_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "pet_conditions",
+    column: "pet_id",
+    references: "pets",
+    onDelete: "cascade",
+  },
+  {
+    table: "inventory",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "inventory",
+    column: "item_id",
+    references: "items",
+    onDelete: "cascade",
+  },
+  {
+    table: "inventory",
+    column: "equipped_pet_id",
+    references: "pets",
+    onDelete: "set null",
+  },
+  {
+    table: "inventory",
+    column: "locked_trade_id",
+    references: "trades",
+    onDelete: "set null",
+  },
+  {
+    table: "notifications",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_achievements",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_achievements",
+    column: "achievement_id",
+    references: "achievements",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_collectibles",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_collectibles",
+    column: "collectible_id",
+    references: "collectibles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_quests",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_quests",
+    column: "quest_id",
+    references: "quests",
+    onDelete: "cascade",
+  },
+  {
+    table: "saga_steps",
+    column: "saga_id",
+    references: "sagas",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_saga_progress",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_saga_progress",
+    column: "saga_id",
+    references: "sagas",
+    onDelete: "cascade",
+  },
+  {
+    table: "shops",
+    column: "npc_id",
+    references: "npcs",
+    onDelete: "set null",
+  },
+  {
+    table: "shop_items",
+    column: "shop_id",
+    references: "shops",
+    onDelete: "cascade",
+  },
+  {
+    table: "shop_items",
+    column: "item_id",
+    references: "items",
+    onDelete: "cascade",
+  },
+  {
+    table: "shop_offers",
+    column: "shop_id",
+    references: "shops",
+    onDelete: "cascade",
+  },
+  {
+    table: "shop_offers",
+    column: "item_id",
+    references: "items",
+    onDelete: "cascade",
+  },
+  {
+    table: "shop_reputation",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "shop_reputation",
+    column: "shop_id",
+    references: "shops",
+    onDelete: "cascade",
+  },
+  {
+    table: "purchase_transactions",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "purchase_transactions",
+    column: "shop_item_id",
+    references: "shop_items",
+    onDelete: "set null",
+  },
+  {
+    table: "trades",
+    column: "initiator_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "trades",
+    column: "recipient_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "duels",
+    column: "challenger_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "duels",
+    column: "opponent_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "duels",
+    column: "challenger_pet_id",
+    references: "pets",
+    onDelete: "cascade",
+  },
+  {
+    table: "duels",
+    column: "opponent_pet_id",
+    references: "pets",
+    onDelete: "cascade",
+  },
+  {
+    table: "duels",
+    column: "winner_id",
+    references: "profiles",
+    onDelete: "set null",
+  },
+  {
+    table: "currency_ledger",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_checkins",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "redeem_campaigns",
+    column: "created_by",
+    references: "profiles",
+    onDelete: "set null",
+  },
+  {
+    table: "redeem_codes",
+    column: "created_by",
+    references: "profiles",
+    onDelete: "set null",
+  },
+  {
+    table: "redeem_codes",
+    column: "campaign_id",
+    references: "redeem_campaigns",
+    onDelete: "cascade",
+  },
+  {
+    table: "redeem_code_redemptions",
+    column: "code_id",
+    references: "redeem_codes",
+    onDelete: "cascade",
+  },
+  {
+    table: "redeem_code_redemptions",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "space_kills",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_planet_visits",
+    column: "user_id",
+    references: "profiles",
+    onDelete: "cascade",
+  },
+  {
+    table: "user_planet_visits",
+    column: "planet_id",
+    references: "world_positions",
+    onDelete: "cascade",
+  },
+  {
+    table: "world_layout_versions",
+    column: "created_by",
+    references: "profiles",
+    onDelete: "set null",
+  },
+];
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+export class MockDatabase {
+  private tables = new Map<string, Row[]>();
+  private triggers: Trigger[] = [];
+  private listeners = new Set<(event: ChangeEvent) => void>();
+  private pendingEvents: ChangeEvent[] = [];
+  private transactionDepth = 0;
+  private cascadeDepth = 0;
+
+  constructor() {
+    Object.keys(TABLES).forEach((table) => this.tables.set(table, []));
+  }
+
+  /** Whether a delete is running because of an ON DELETE action */
+  get isCascading() {
+    return this.cascadeDepth > 0;
+  }
+
+  hasTable(table: string) {
+    return this.tables.has(table);
+  }
+
+  /** Live rows of a table; callers must go through insert/update/delete to change them */
+  rows<T extends string>(table: T): TableRow<T>[] {
+    const rows = this.tables.get(table);
+    if (!rows) {
+      throw new MockDatabaseError(
+        `relation "public.${table}" does not exist`,
+        "42P01",
+      );
+    }
+    // Inserts fill in the column defaults, so rows have the table's shape
+    return rows as TableRow<T>[];
+  }
+
+  find<T extends string>(
+    table: T,
+    predicate: (row: TableRow<T>) => boolean,
+  ): TableRow<T> | undefined {
+    return this.rows(table).find(predicate);
+  }
+
+  filter<T extends string>(
+    table: T,
+    predicate: (row: TableRow<T>) => boolean,
+  ): TableRow<T>[] {
+    return this.rows(table).filter(predicate);
+  }
+
+  insert<T extends string>(
+    table: T,
+    values: Partial<TableRow<T>>,
+  ): TableRow<T> {
+    const config = TABLES[table];
+    const rows: Row[] = this.rows(table);
+    const row: Row = { ...config.defaults(), ...clone(values) };
+    if (!config.primaryKey && row.id == null) {
+      row.id = crypto.randomUUID();
+    }
+
+    this.runTriggers("before", "insert", table, null, row);
+    this.checkConstraints(table, row);
+    rows.push(row);
+    this.emit({ table, eventType: "INSERT", new: row, old: null });
+    this.runTriggers("after", "insert", table, null, row);
+    return row as TableRow<T>;
+  }
+
+  update<T extends string>(
+    table: T,
+    row: TableRow<T>,
+    changes: Partial<TableRow<T>>,
+  ): TableRow<T> {
+    const rows = this.rows(table);
+    const index = rows.indexOf(row);
+    if (index === -1) return row;
+
+    const updated: TableRow<T> = { ...row, ...clone(changes) };
+    this.runTriggers("before", "update", table, row, updated);
+    this.checkConstraints(table, updated, row);
+    rows[index] = updated;
+    this.emit({ table, eventType: "UPDATE", new: updated, old: row });
+    this.runTriggers("after", "update", table, row, updated);
+    return updated;
+  }
+
+  delete<T extends string>(table: T, row: TableRow<T>) {
+    const rows = this.rows(table);
+    const index = rows.indexOf(row);
+    if (index === -1) return;
+
+    this.runTriggers("before", "delete", table, row, null);
+    rows.splice(index, 1);
+    this.emit({ table, eventType: "DELETE", new: null, old: row });
+    this.applyDeleteActions(table, row);
+    this.runTriggers("after", "delete", table, row, null);
+  }
+
+  /**
+   * Runs `callback` atomically: if it throws, every table is restored and
+   * no change events are delivered. Nested calls join the outer transaction.
+   */
+  transaction<T>(callback: () => T): T {
+    if (this.transactionDepth > 0) {
+      return callback();
+    }
+
+    const snapshot = new Map(
+      Array.from(this.tables, ([table, rows]) => [table, [...rows]]),
+    );
+    this.transactionDepth++;
+    try {
+      const result = callback();
+      this.transactionDepth--;
+      this.flushEvents();
+      return result;
+    } catch (error) {
+      this.transactionDepth--;
+      this.tables = snapshot;
+      this.pendingEvents = [];
+      throw error;
+    }
+  }
+
+  addTrigger<T extends string>(trigger: Trigger<T>) {
+    // Triggers only run for their own table, so they get its rows
+    this.triggers.push(trigger as unknown as Trigger);
+  }
+
+  subscribe(listener: (event: ChangeEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private runTriggers(
+    timing: Trigger["timing"],
+    operation: TriggerOperation,
+    table: string,
+    oldRow: Row | null,
+    newRow: Row | null,
+  ) {
+    this.triggers
+      .filter(
+        (trigger) =>
+          trigger.table === table &&
+          trigger.timing === timing &&
+          trigger.operations.includes(operation),
+      )
+      .forEach((trigger) => trigger.handler(operation, oldRow, newRow));
+  }
+
+  private checkConstraints(table: string, row: Row, previous?: Row) {
+    const config = TABLES[table];
+    const rows = this.rows(table).filter((other) => other !== previous);
+    const keys = [
+      keyOf(...(config.primaryKey || ["id"])),
+      ...(config.unique || []),
+    ];
+
+    keys.forEach((key) => {
+      const value = key(row);
+      if (rows.some((other) => key(other) === value)) {
+        throw new MockDatabaseError(
+          `duplicate key value violates unique constraint on "${table}"`,
+          "23505",
+        );
+      }
+    });
+
+    FOREIGN_KEYS.filter((fk) => fk.table === table).forEach((fk) => {
+      const value = row[fk.column];
+      if (value == null) return;
+      if (!this.rows(fk.references).some((parent) => parent.id === value)) {
+        throw new MockDatabaseError(
+          `insert or update on table "${table}" violates foreign key constraint on "${fk.column}"`,
+          "23503",
+        );
+      }
+    });
+  }
+
+  private applyDeleteActions(table: string, deleted: Row) {
+    this.cascadeDepth++;
+    try {
+      this.applyForeignKeyActions(table, deleted);
+    } finally {
+      this.cascadeDepth--;
+    }
+  }
+
+  private applyForeignKeyActions(table: string, deleted: Row) {
+    FOREIGN_KEYS.filter((fk) => fk.references === table).forEach((fk) => {
+      this.filter(fk.table, (row) => row[fk.column] === deleted.id).forEach(
+        (row) => {
+          if (fk.onDelete === "cascade") {
+            this.delete(fk.table, row);
+          } else {
+            this.update(fk.table, row, { [fk.column]: null });
+          }
+        },
+      );
+    });
+  }
+
+  private emit(event: ChangeEvent) {
+    this.pendingEvents.push({
+      ...event,
+      new: event.new && clone(event.new),
+      old: event.old && clone(event.old),
+    });
+    if (this.transactionDepth === 0) {
+      this.flushEvents();
+    }
+  }
+
+  private flushEvents() {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach((event) =>
+      this.listeners.forEach((listener) => listener(event)),
+    );
+  }
+}
@@ -0,0 +1,2323 @@
+import { Database, Json } from "../../types/database";
+import { Equipment, Item, Pet, PetCondition, Weapon } from "../../types/game";
+import { getCheckinReward, toUtcDateKey } from "../../utils/checkinRewards";
+import { resolveDuel } from "../../utils/duelEngine";
+import { calculatePetDecay } from "../../utils/petDecay";
+import { getWeaponFromItem } from "../../utils/petStats";
+import {
+  getRegionContents,
+  getRegionCycle,
+  REGION_COUNT,
+} from "../../utils/spaceEncounters";
+import {
+  MockDatabase,
+  MockDatabaseError,
+  now,
+  Row,
+  TableRow,
+} from "./database";
+
+/**
+ * Database functions and triggers for mock mode
+ *
+ * Each function follows its latest definition in `supabase/migrations` and
+ * raises the same messages, so the services map errors the same way in
+ * both modes. Functions run inside a transaction (see `index.ts`), so a
+ * function that raises leaves no partial changes behind.
+ */
+
+type Functions = Database["public"]["Functions"];
+
+// Parameters of a function, as `rpc` passes them
+type Args<F extends keyof Functions> = Functions[F]["Args"];
+
+export type DatabaseFunctions = {
+  [F in keyof Functions]?: (params: Args<F>) => unknown;
+};
+
+const PET_LEVEL_STATS = [
+  "strength",
+  "dexterity",
+  "intelligence",
+  "speed",
+  "attack",
+  "defense",
+  "precision",
+  "evasion",
+  "luck",
+] as const;
+
+const PET_CARE_STATS = ["health", "happiness", "hunger"] as const;
+
+type PetCareStat = (typeof PET_CARE_STATS)[number];
+type PetStat = (typeof PET_LEVEL_STATS)[number] | PetCareStat;
+
+const isPetCareStat = (stat: string): stat is PetCareStat =>
+  (PET_CARE_STATS as readonly string[]).includes(stat);
+
+const isPetStat = (stat: string): stat is PetStat =>
+  isPetCareStat(stat) || (PET_LEVEL_STATS as readonly string[]).includes(stat);
+
+const MAX_CARE_STAT = 10;
+
+const MAX_DAILY_GAIN = 1000000;
+const GRACE_WINDOW_DAYS = 7;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const raise = (message: string): never => {
+  throw new MockDatabaseError(message);
+};
+
+const toNumber = (value: unknown) => Number(value ?? 0) || 0;
+
+type JsonObject = { [key: string]: Json | undefined };
+
+// JSON columns read as objects and lists; anything else reads as empty
+const asObject = (value: unknown): JsonObject =>
+  value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as JsonObject)
+    : {};
+
+const asList = (value: unknown): JsonObject[] =>
+  Array.isArray(value) ? value.map(asObject) : [];
+
+// Stores a value the way a jsonb column keeps it
+const toJson = (value: object): Json => JSON.parse(JSON.stringify(value));
+
+const getPrivacy = (profile: TableRow<"profiles">) =>
+  asObject(asObject(profile.preferences).privacy);
+
+const asCounters = (value: unknown): Record<string, number> =>
+  Object.fromEntries(
+    Object.entries(asObject(value)).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number",
+    ),
+  );
+
+const isCurrency = (value: string): value is "xenocoins" | "cash" =>
+  value === "xenocoins" || value === "cash";
+
+const daysBetween = (fromKey: string, toKey: string) =>
+  Math.round((Date.parse(toKey) - Date.parse(fromKey)) / DAY_MS);
+
+const toPetCondition = (row: TableRow<"pet_conditions">): PetCondition => ({
+  id: row.id,
+  type: row.type,
+  name: row.name,
+  description: row.description,
+  effects: asCounters(row.effects),
+  duration: row.duration_hours ?? undefined,
+  appliedAt: new Date(row.applied_at),
+});
+
+const slugify = (name: string) => name.replace(/\s+/g, "-").toLowerCase();
+
+const toItem = (row: TableRow<"items">): Item => ({
+  id: row.id,
+  slug: slugify(row.name),
+  name: row.name,
+  description: row.description,
+  type: row.type,
+  rarity: row.rarity,
+  price: row.price,
+  currency: row.currency,
+  effects: asCounters(row.effects),
+  slot: row.slot === "weapon" ? undefined : (row.slot ?? undefined),
+  quantity: 1,
+  createdAt: new Date(row.created_at),
+});
+
+// Duels read the stored care stats, not their display values
+const toDuelPet = (
+  row: TableRow<"pets">,
+  extras: Pick<Pet, "conditions" | "equipment" | "weapon">,
+): Pet => ({
+  id: row.id,
+  name: row.name,
+  species: row.species,
+  style: row.style,
+  level: row.level,
+  ownerId: row.owner_id,
+  happiness: row.happiness,
+  health: row.health,
+  hunger: row.hunger,
+  strength: row.strength,
+  dexterity: row.dexterity,
+  intelligence: row.intelligence,
+  speed: row.speed,
+  attack: row.attack,
+  defense: row.defense,
+  precision: row.precision,
+  evasion: row.evasion,
+  luck: row.luck,
+  personality: row.personality,
+  ...extras,
+  isAlive: row.is_alive,
+  lastInteraction: new Date(row.last_interaction),
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const progressMeetsRequirements = (requirements: unknown, progress: unknown) =>
+  Object.entries(asCounters(requirements)).every(
+    ([key, target]) => toNumber(asObject(progress)[key]) >= target,
+  );
+
+export const createDatabaseFunctions = (
+  db: MockDatabase,
+  uid: () => string | null,
+) => {
+  const findById = <T extends string>(table: T, id: unknown) =>
+    db.find(table, (row: Row) => row.id === id);
+
+  const isAdmin = () => {
+    const currentId = uid();
+    return !!currentId && !!findById("profiles", currentId)?.is_admin;
+  };
+
+  const requireSelf = (userId: string) => {
+    const currentId = uid();
+    if (currentId && currentId !== userId) raise("Access denied");
+  };
+
+  const requireAdmin = () => {
+    if (!isAdmin()) raise("Access denied");
+  };
+
+  const addToInventory = (userId: string, itemId: string, quantity: number) => {
+    const stack = db.find(
+      "inventory",
+      (row) =>
+        row.user_id === userId &&
+        row.item_id === itemId &&
+        row.equipped_pet_id == null &&
+        row.locked_trade_id == null,
+    );
+
+    return stack
+      ? db.update("inventory", stack, { quantity: stack.quantity + quantity })
+      : db.insert("inventory", { user_id: userId, item_id: itemId, quantity });
+  };
+
+  // Currency
+
+  const updateUserCurrency = ({
+    user_id,
+    currency_type,
+    amount,
+    reason = "manual",
+    reference_id = null,
+  }: Args<"update_user_currency">) => {
+    try {
+      const change = toNumber(amount);
+      if (!isCurrency(currency_type)) {
+        return raise(`Invalid currency type: ${currency_type}`);
+      }
+      if (change > MAX_DAILY_GAIN) {
+        raise(`Amount exceeds daily limit: ${change}`);
+      }
+
+      const profile = findById("profiles", user_id);
+      if (!profile) raise(`User not found: ${user_id}`);
+
+      const current = toNumber(profile![currency_type]);
+      const newTotal = current + change;
+      if (newTotal < 0) {
+        raise(`Insufficient funds. Current: ${current}, Requested: ${change}`);
+      }
+
+      db.update("profiles", profile!, {
+        [currency_type]: newTotal,
+        ...(currency_type === "xenocoins" && {
+          total_xenocoins:
+            toNumber(profile!.total_xenocoins) + Math.max(change, 0),
+        }),
+      });
+
+      if (change !== 0) {
+        db.insert("currency_ledger", {
+          user_id,
+          currency: currency_type,
+          amount: change,
+          balance_after: newTotal,
+          reason: reason || "manual",
+          reference_id,
+        });
+      }
+
+      return true;
+    } catch (error) {
+      return raise(
+        `Currency update failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  const updateAccountScore = ({
+    user_id,
+    points,
+  }: Args<"update_account_score">) => {
+    const profile = findById("profiles", user_id);
+    if (!profile) raise(`User not found: ${user_id}`);
+
+    db.update("profiles", profile!, {
+      account_score: Math.max(
+        0,
+        toNumber(profile!.account_score) + toNumber(points),
+      ),
+    });
+    return true;
+  };
+
+  const adminAdjustCurrency = ({
+    p_user_id,
+    p_currency_type,
+    p_amount,
+  }: Args<"admin_adjust_currency">) => {
+    requireAdmin();
+    if (toNumber(p_amount) === 0) raise("Invalid amount");
+
+    return updateUserCurrency({
+      user_id: p_user_id,
+      currency_type: p_currency_type,
+      amount: p_amount,
+      reason: "admin_grant",
+      reference_id: uid(),
+    });
+  };
+
+  const verifyCurrencyBalance = ({
+    p_user_id,
+  }: Args<"verify_currency_balance">) => {
+    if (uid() && uid() !== p_user_id && !isAdmin()) raise("Access denied");
+
+    const profile = findById("profiles", p_user_id);
+    if (!profile) raise(`User not found: ${p_user_id}`);
+
+    const ledgerTotal = (currency: string) =>
+      db
+        .filter(
+          "currency_ledger",
+          (entry) => entry.user_id === p_user_id && entry.currency === currency,
+        )
+        .reduce((sum, entry) => sum + toNumber(entry.amount), 0);
+
+    const xenocoins = toNumber(profile!.xenocoins);
+    const cash = toNumber(profile!.cash);
+    const ledgerXenocoins = ledgerTotal("xenocoins");
+    const ledgerCash = ledgerTotal("cash");
+
+    return {
+      xenocoins: { profile: xenocoins, ledger: ledgerXenocoins },
+      cash: { profile: cash, ledger: ledgerCash },
+      consistent: xenocoins === ledgerXenocoins && cash === ledgerCash,
+    };
+  };
+
+  // Inventory
+
+  const adminAddInventoryItem = ({
+    p_user_id,
+    p_item_id,
+    p_quantity = 1,
+  }: Args<"admin_add_inventory_item">) => {
+    requireAdmin();
+    const quantity = toNumber(p_quantity);
+    if (quantity <= 0) raise("Invalid quantity");
+    if (!findById("items", p_item_id)) raise("Item not found");
+
+    const stack = addToInventory(p_user_id, p_item_id, quantity);
+    return { id: stack.id, item_id: stack.item_id, quantity: stack.quantity };
+  };
+
+  const discardInventoryItem = ({
+    p_user_id,
+    p_inventory_id,
+    p_quantity = 1,
+  }: Args<"discard_inventory_item">) => {
+    requireSelf(p_user_id);
+    const quantity = toNumber(p_quantity);
+    if (quantity <= 0) raise("Invalid quantity");
+
+    const stack = db.find(
+      "inventory",
+      (row) =>
+        row.id === p_inventory_id &&
+        row.user_id === p_user_id &&
+        row.equipped_pet_id == null,
+    );
+    if (!stack) raise("Item not found in inventory");
+    if (stack!.locked_trade_id != null) {
+      raise("Item is locked in a pending trade");
+    }
+
+    if (stack!.quantity > quantity) {
+      db.update("inventory", stack!, {
+        quantity: stack!.quantity - quantity,
+        last_used: now(),
+      });
+    } else {
+      db.delete("inventory", stack!);
+    }
+    return true;
+  };
+
+  // Pets, equipment and collectibles
+
+  const calculatePetLevel = ({ pet_id }: Args<"calculate_pet_level">) => {
+    const pet = findById("pets", pet_id);
+    if (!pet) raise(`Pet not found: ${pet_id}`);
+
+    const totalStats = PET_LEVEL_STATS.reduce(
+      (sum, stat) => sum + toNumber(pet![stat]),
+      0,
+    );
+    const level = Math.max(1, Math.floor(totalStats / 10));
+    db.update("pets", pet!, { level, updated_at: now() });
+    return level;
+  };
+
+  const refreshPetCare = ({ p_pet_id }: Args<"refresh_pet_care">) => {
+    const pet = findById("pets", p_pet_id);
+    if (!pet?.is_alive) return;
+
+    const { care, newConditions, deathDate } = calculatePetDecay({
+      id: pet.id,
+      species: pet.species,
+      personality: pet.personality,
+      hatchTime: pet.hatch_time ? new Date(pet.hatch_time) : undefined,
+      conditions: db
+        .filter("pet_conditions", (row) => row.pet_id === pet.id)
+        .map(toPetCondition),
+      care: {
+        hunger: toNumber(pet.hunger),
+        happiness: toNumber(pet.happiness),
+        health: toNumber(pet.health),
+        lowHealthTicks: toNumber(pet.low_health_ticks),
+        zeroHealthTicks: toNumber(pet.zero_health_ticks),
+        updatedAt: new Date(pet.care_updated_at),
+      },
+    });
+
+    newConditions.forEach((condition) => {
+      const appliedAt = condition.appliedAt.toISOString();
+      const caught = db.find(
+        "pet_conditions",
+        (row) =>
+          row.pet_id === pet.id &&
+          row.type === condition.type &&
+          row.applied_at === appliedAt,
+      );
+      if (caught) return;
+
+      db.insert("pet_conditions", {
+        pet_id: pet.id,
+        type: condition.type,
+        name: condition.name,
+        description: condition.description,
+        effects: condition.effects,
+        duration_hours: condition.duration ?? null,
+        applied_at: appliedAt,
+        expires_at: condition.duration
+          ? new Date(
+              condition.appliedAt.getTime() + condition.duration * HOUR_MS,
+            ).toISOString()
+          : null,
+      });
+    });
+
+    if (care.updatedAt.toISOString() === pet.care_updated_at) return;
+
+    db.update("pets", pet, {
+      hunger: care.hunger,
+      happiness: care.happiness,
+      health: care.health,
+      low_health_ticks: care.lowHealthTicks,
+      zero_health_ticks: care.zeroHealthTicks,
+      care_updated_at: care.updatedAt.toISOString(),
+      ...(deathDate && {
+        is_alive: false,
+        is_active: false,
+        death_date: deathDate.toISOString(),
+      }),
+      updated_at: now(),
+    });
+  };
+
+  const refreshUserPetsCare = ({ p_user_id }: Args<"refresh_user_pets_care">) =>
+    db
+      .filter("pets", (row) => row.owner_id === p_user_id && row.is_alive)
+      .forEach((pet) => refreshPetCare({ p_pet_id: pet.id }));
+
+  const applyPetItem = ({
+    p_user_id,
+    p_pet_id,
+    p_inventory_id,
+  }: Args<"use_pet_item">) => {
+    requireSelf(p_user_id);
+
+    // Effects apply on top of the care values the pet has right now
+    refreshPetCare({ p_pet_id });
+
+    const pet = findById("pets", p_pet_id);
+    if (!pet || pet.owner_id !== p_user_id) raise("Pet not found");
+    if (!pet!.is_alive) raise("Pet is not alive");
+
+    const stack = db.find(
+      "inventory",
+      (row) =>
+        row.id === p_inventory_id &&
+        row.user_id === p_user_id &&
+        row.equipped_pet_id == null,
+    );
+    if (!stack || stack.quantity < 1) raise("Item not found");
+    if (stack!.locked_trade_id != null) {
+      raise("Item is locked in a pending trade");
+    }
+
+    const effects = Object.entries(
+      asCounters(findById("items", stack!.item_id)?.effects),
+    ).filter((entry): entry is [PetStat, number] => isPetStat(entry[0]));
+    if (effects.length === 0) raise("Item has no effect");
+
+    db.update("pets", pet!, {
+      ...Object.fromEntries(
+        effects.map(([stat, value]) => [
+          stat,
+          isPetCareStat(stat)
+            ? Math.min(MAX_CARE_STAT, Math.max(0, toNumber(pet![stat]) + value))
+            : Math.max(0, toNumber(pet![stat]) + Math.round(value)),
+        ]),
+      ),
+      last_interaction: now(),
+      updated_at: now(),
+    });
+
+    if (stack!.quantity > 1) {
+      db.update("inventory", stack!, {
+        quantity: stack!.quantity - 1,
+        last_used: now(),
+      });
+    } else {
+      db.delete("inventory", stack!);
+    }
+
+    recordProgressEvent(p_user_id, {
+      pet_interactions: 1,
+      items_used: 1,
+      [`item_used:${stack!.item_id}`]: 1,
+    });
+  };
+
+  const equipItemTransaction = ({
+    p_user_id,
+    p_pet_id,
+    p_inventory_item_id,
+    p_item_slot,
+  }: Args<"equip_item_transaction">) => {
+    const pet = db.find(
+      "pets",
+      (row) => row.id === p_pet_id && row.owner_id === p_user_id,
+    );
+    if (!pet) raise("Pet not found or does not belong to user");
+
+    const inventoryItem = db.find(
+      "inventory",
+      (row) =>
+        row.id === p_inventory_item_id &&
+        row.user_id === p_user_id &&
+        row.quantity === 1 &&
+        !row.is_equipped,
+    );
+    if (!inventoryItem) {
+      raise("Item not found in inventory or already equipped");
+    }
+
+    const slotOccupied = db
+      .filter(
+        "inventory",
+        (row) => row.equipped_pet_id === p_pet_id && row.is_equipped,
+      )
+      .some((row) => findById("items", row.item_id)?.slot === p_item_slot);
+    if (slotOccupied) {
+      raise("Slot conflict: another item is already equipped in this slot");
+    }
+
+    db.update("inventory", inventoryItem!, {
+      is_equipped: true,
+      equipped_pet_id: p_pet_id,
+    });
+    return true;
+  };
+
+  const unequipItemTransaction = ({
+    p_user_id,
+    p_pet_id,
+    p_inventory_item_id,
+    p_item_slot,
+  }: Args<"unequip_item_transaction">) => {
+    const inventoryItem = db.find(
+      "inventory",
+      (row) =>
+        row.id === p_inventory_item_id &&
+        row.user_id === p_user_id &&
+        row.equipped_pet_id === p_pet_id &&
+        row.is_equipped &&
+        findById("items", row.item_id)?.slot === p_item_slot,
+    );
+    if (!inventoryItem) {
+      raise("Item not equipped by this pet in the specified slot");
+    }
+
+    db.update("inventory", inventoryItem!, {
+      is_equipped: false,
+      equipped_pet_id: null,
+    });
+    return true;
+  };
+
+  const addCollectibleToUser = ({
+    user_id,
+    collectible_name,
+  }: Args<"add_collectible_to_user">) => {
+    const collectible = db.find(
+      "collectibles",
+      (row) => row.name === collectible_name,
+    );
+    if (!collectible) raise(`Collectible not found: ${collectible_name}`);
+
+    const owned = db.find(
+      "user_collectibles",
+      (row) =>
+        row.user_id === user_id && row.collectible_id === collectible!.id,
+    );
+    if (!owned) {
+      db.insert("user_collectibles", {
+        user_id,
+        collectible_id: collectible!.id,
+      });
+    }
+    return true;
+  };
+
+  const addUserCollectibleSafe = ({
+    p_user_id,
+    p_collectible_name,
+  }: Args<"add_user_collectible_safe">) => {
+    addCollectibleToUser({
+      user_id: p_user_id,
+      collectible_name: p_collectible_name,
+    });
+    updateAccountScore({ user_id: p_user_id, points: 1 });
+    return true;
+  };
+
+  // Space kills
+
+  const recordSpaceKill = ({
+    p_user_id,
+    p_entity_id,
+  }: Args<"record_space_kill">) => {
+    requireSelf(p_user_id);
+
+    if (!/^\d{1,9}:\d{1,15}:\d{1,9}$/.test(p_entity_id ?? "")) {
+      raise("Invalid space entity");
+    }
+    const [region, cycle, index] = String(p_entity_id).split(":").map(Number);
+    if (region >= REGION_COUNT) raise("Invalid space entity");
+
+    const currentCycle = getRegionCycle(region, Date.now());
+    if (cycle !== currentCycle && cycle !== currentCycle - 1) {
+      raise("Region has respawned");
+    }
+    const contents = getRegionContents(region, cycle);
+    if (index >= contents.length) raise("Invalid space entity");
+    const { loot } = contents[index];
+
+    const killed = db.find(
+      "space_kills",
+      (row) =>
+        row.user_id === p_user_id &&
+        row.region === region &&
+        row.cycle === cycle &&
+        row.entity_index === index,
+    );
+    if (killed) raise("Entity already destroyed");
+
+    db.insert("space_kills", {
+      user_id: p_user_id,
+      region,
+      cycle,
+      entity_index: index,
+      loot,
+    });
+    if (!loot) return null;
+
+    if (loot.type === "gem") {
+      const gem = db.find(
+        "collectibles",
+        (row) => row.name === loot.name && row.type === "gem",
+      );
+      if (!gem) raise("Collectible not found");
+
+      const collected = db.find(
+        "user_collectibles",
+        (row) => row.user_id === p_user_id && row.collectible_id === gem!.id,
+      );
+      if (!collected) {
+        db.insert("user_collectibles", {
+          user_id: p_user_id,
+          collectible_id: gem!.id,
+        });
+      }
+    } else {
+      const item = db.find("items", (row) => row.name === loot.name);
+      if (!item) raise("Item not found");
+      addToInventory(p_user_id, item!.id, 1);
+    }
+
+    return loot;
+  };
+
+  // Progression and achievements
+
+  const grantProgressionRewards = (
+    userId: string,
+    rewards: unknown,
+    reason: string,
+  ) => {
+    const { xenocoins, cash, accountPoints, items } = asObject(rewards);
+
+    Object.entries({ xenocoins, cash }).forEach(([currency, value]) => {
+      const amount = toNumber(value);
+      if (amount > 0) {
+        updateUserCurrency({
+          user_id: userId,
+          currency_type: currency,
+          amount,
+          reason,
+        });
+      }
+    });
+
+    if (toNumber(accountPoints) > 0) {
+      updateAccountScore({ user_id: userId, points: toNumber(accountPoints) });
+    }
+
+    if (Array.isArray(items)) {
+      items.forEach((itemId) => addToInventory(userId, String(itemId), 1));
+    }
+  };
+
+  const completeQuest = ({ p_user_id, p_quest_id }: Args<"complete_quest">) => {
+    requireSelf(p_user_id);
+
+    const quest = db.find(
+      "quests",
+      (row) => row.id === p_quest_id && row.is_active,
+    );
+    if (!quest) raise(`Quest not found: ${p_quest_id}`);
+
+    const progress = db.find(
+      "user_quests",
+      (row) => row.user_id === p_user_id && row.quest_id === p_quest_id,
+    );
+    if (!progress) raise("Quest not started");
+    if (progress!.is_completed) raise("Quest already completed");
+    if (!progressMeetsRequirements(quest!.requirements, progress!.progress)) {
+      raise("Quest requirements not met");
+    }
+
+    db.update("user_quests", progress!, {
+      is_completed: true,
+      is_active: false,
+      completed_at: now(),
+    });
+    grantProgressionRewards(p_user_id, quest!.rewards, "quest_completed");
+    return quest!.rewards;
+  };
+
+  const completeSagaStep = ({
+    p_user_id,
+    p_saga_id,
+  }: Args<"complete_saga_step">) => {
+    requireSelf(p_user_id);
+
+    const saga = db.find(
+      "sagas",
+      (row) => row.id === p_saga_id && row.is_active,
+    );
+    if (!saga) raise(`Saga not found: ${p_saga_id}`);
+
+    const progress =
+      db.find(
+        "user_saga_progress",
+        (row) => row.user_id === p_user_id && row.saga_id === p_saga_id,
+      ) ||
+      db.insert("user_saga_progress", {
+        user_id: p_user_id,
+        saga_id: p_saga_id,
+        is_active: true,
+        started_at: now(),
+      });
+    if (progress.is_completed) raise("Saga already completed");
+
+    const step = db.find(
+      "saga_steps",
+      (row) =>
+        row.saga_id === p_saga_id &&
+        row.step_number === progress.current_step + 1,
+    );
+    if (!step) raise("Saga step not found");
+    if (
+      !progressMeetsRequirements(
+        step!.requirements,
+        asObject(progress.flags).stepProgress,
+      )
+    ) {
+      raise("Saga step requirements not met");
+    }
+
+    const sagaCompleted = progress.current_step + 1 >= saga!.total_steps;
+    const flags = { ...asObject(progress.flags) };
+    delete flags.stepProgress;
+    db.update("user_saga_progress", progress, {
+      current_step: progress.current_step + 1,
+      flags,
+      is_active: !sagaCompleted,
+      is_completed: sagaCompleted,
+      completed_at: sagaCompleted ? now() : null,
+    });
+
+    grantProgressionRewards(p_user_id, step!.rewards, "saga_step_completed");
+    if (sagaCompleted) {
+      grantProgressionRewards(p_user_id, saga!.rewards, "saga_completed");
+    }
+
+    return { stepNumber: step!.step_number, sagaCompleted };
+  };
+
+  const incrementProgressCounter = (
+    userId: string,
+    counter: string,
+    amount: number,
+  ) => {
+    db.filter(
+      "quests",
+      (quest) => quest.is_active && counter in asCounters(quest.requirements),
+    ).forEach((quest) => {
+      const target = asCounters(quest.requirements)[counter];
+      const progress = db.find(
+        "user_quests",
+        (row) => row.user_id === userId && row.quest_id === quest.id,
+      );
+
+      if (!progress) {
+        db.insert("user_quests", {
+          user_id: userId,
+          quest_id: quest.id,
+          progress: { [counter]: Math.min(target, amount) },
+          is_active: true,
+          started_at: now(),
+        });
+      } else if (!progress.is_completed) {
+        db.update("user_quests", progress, {
+          progress: {
+            ...asObject(progress.progress),
+            [counter]: Math.min(
+              target,
+              toNumber(asObject(progress.progress)[counter]) + amount,
+            ),
+          },
+          is_active: true,
+        });
+      }
+    });
+
+    db.filter("sagas", (saga) => saga.is_active).forEach((saga) => {
+      let progress = db.find(
+        "user_saga_progress",
+        (row) => row.user_id === userId && row.saga_id === saga.id,
+      );
+      if (!progress) {
+        progress = db.insert("user_saga_progress", {
+          user_id: userId,
+          saga_id: saga.id,
+          is_active: true,
+          started_at: now(),
+        });
+      }
+      if (progress.is_completed) return;
+
+      const step = db.find(
+        "saga_steps",
+        (row) =>
+          row.saga_id === saga.id &&
+          row.step_number === progress!.current_step + 1 &&
+          counter in asCounters(row.requirements),
+      );
+      if (!step) return;
+
+      const flags = asObject(progress.flags);
+      const stepProgress = asObject(flags.stepProgress);
+      db.update("user_saga_progress", progress, {
+        is_active: true,
+        flags: {
+          ...flags,
+          stepProgress: {
+            ...stepProgress,
+            [counter]: Math.min(
+              asCounters(step.requirements)[counter],
+              toNumber(stepProgress[counter]) + amount,
+            ),
+          },
+        },
+      });
+    });
+  };
+
+  // Advances every counter of an event, e.g. `{ items_acquired: 2, "item:<id>": 2 }`
+  const recordProgressEvent = (
+    userId: string,
+    counters: Record<string, number>,
+  ) => {
+    Object.entries(counters)
+      .filter(([, amount]) => amount > 0)
+      .forEach(([counter, amount]) => {
+        incrementProgressCounter(userId, counter, amount);
+        incrementAchievementCounter(userId, counter, amount);
+      });
+  };
+
+  const recordPlanetLanding = ({
+    p_user_id,
+    p_planet_id,
+  }: Args<"record_planet_landing">) => {
+    requireSelf(p_user_id);
+
+    if (!findById("world_positions", p_planet_id)) raise("Planet not found");
+
+    const visited = db.find(
+      "user_planet_visits",
+      (row) => row.user_id === p_user_id && row.planet_id === p_planet_id,
+    );
+    if (visited) return false;
+
+    db.insert("user_planet_visits", {
+      user_id: p_user_id,
+      planet_id: p_planet_id,
+    });
+    recordProgressEvent(p_user_id, {
+      locations_visited: 1,
+      [`planet:${p_planet_id}`]: 1,
+    });
+    return true;
+  };
+
+  const incrementAchievementCounter = (
+    userId: string,
+    counter: string,
+    amount: number,
+  ) => {
+    db.filter(
+      "achievements",
+      (achievement) =>
+        achievement.is_active &&
+        counter in asCounters(achievement.requirements),
+    ).forEach((achievement) => {
+      const progress = db.find(
+        "user_achievements",
+        (row) =>
+          row.user_id === userId && row.achievement_id === achievement.id,
+      );
+
+      if (!progress) {
+        db.insert("user_achievements", {
+          user_id: userId,
+          achievement_id: achievement.id,
+          progress: Math.min(achievement.max_progress, amount),
+        });
+      } else if (!progress.is_unlocked) {
+        db.update("user_achievements", progress, {
+          progress: Math.min(
+            achievement.max_progress,
+            toNumber(progress.progress) + amount,
+          ),
+        });
+      }
+    });
+  };
+
+  const refreshAchievementGauges = ({
+    p_user_id,
+  }: Args<"refresh_achievement_gauges">) => {
+    requireSelf(p_user_id);
+
+    const gauges: Record<string, number> = {
+      total_xenocoins: toNumber(findById("profiles", p_user_id)?.xenocoins),
+      unique_items: new Set(
+        db
+          .filter("inventory", (row) => row.user_id === p_user_id)
+          .map((row) => row.item_id),
+      ).size,
+      max_happiness: db.find(
+        "pets",
+        (row) =>
+          row.owner_id === p_user_id &&
+          row.is_alive &&
+          toNumber(row.happiness) >= MAX_CARE_STAT,
+      )
+        ? 1
+        : 0,
+    };
+
+    db.filter("achievements", (row) => row.is_active).forEach((achievement) => {
+      const requirements = asCounters(achievement.requirements);
+      const key = Object.keys(gauges).find((gauge) => requirements[gauge] > 0);
+      if (!key) return;
+
+      const target = requirements[key];
+      const progress = Math.floor(
+        (Math.min(gauges[key], target) / target) * achievement.max_progress,
+      );
+      if (progress <= 0) return;
+
+      const existing = db.find(
+        "user_achievements",
+        (row) =>
+          row.user_id === p_user_id && row.achievement_id === achievement.id,
+      );
+      if (!existing) {
+        db.insert("user_achievements", {
+          user_id: p_user_id,
+          achievement_id: achievement.id,
+          progress,
+        });
+      } else if (
+        !existing.is_unlocked &&
+        progress > toNumber(existing.progress)
+      ) {
+        db.update("user_achievements", existing, { progress });
+      }
+    });
+  };
+
+  const unlockAchievement = ({
+    p_user_id,
+    p_achievement_id,
+  }: Args<"unlock_achievement">) => {
+    requireSelf(p_user_id);
+
+    const achievement = db.find(
+      "achievements",
+      (row) => row.id === p_achievement_id && row.is_active,
+    );
+    if (!achievement) raise(`Achievement not found: ${p_achievement_id}`);
+
+    const progress = db.find(
+      "user_achievements",
+      (row) =>
+        row.user_id === p_user_id && row.achievement_id === p_achievement_id,
+    );
+    if (!progress) raise("Achievement not started");
+    if (progress!.is_unlocked) raise("Achievement already unlocked");
+    if (toNumber(progress!.progress) < (achievement!.max_progress ?? 1)) {
+      raise("Achievement requirements not met");
+    }
+
+    db.update("user_achievements", progress!, {
+      is_unlocked: true,
+      unlocked_at: now(),
+    });
+    grantProgressionRewards(
+      p_user_id,
+      achievement!.rewards,
+      "achievement_unlocked",
+    );
+    return achievement!.rewards;
+  };
+
+  // Duels
+
+  // Duel pets are read with their equipment and active conditions, like
+  // `duel_combat_stats` reads them
+  const loadDuelPet = (petId: string | null): Pet => {
+    const pet = findById("pets", petId);
+    if (!pet) raise("Duel pets not found");
+
+    const equipment: Equipment = {};
+    let weapon: Weapon | undefined;
+    db.filter("inventory", (row) => row.equipped_pet_id === petId).forEach(
+      (row) => {
+        const item = findById("items", row.item_id);
+        if (item?.slot === "weapon") {
+          weapon = getWeaponFromItem(toItem(item));
+        } else if (item?.slot) {
+          equipment[item.slot] = toItem(item);
+        }
+      },
+    );
+
+    const conditions = db
+      .filter(
+        "pet_conditions",
+        (row) =>
+          row.pet_id === petId &&
+          (row.expires_at == null || Date.parse(row.expires_at) > Date.now()),
+      )
+      .map(toPetCondition);
+
+    return toDuelPet(pet!, { conditions, equipment, weapon });
+  };
+
+  const createDuel = ({
+    p_challenger_id,
+    p_opponent_id,
+    p_pet_id,
+    p_xenocoins_wagered = 0,
+  }: Args<"create_duel">) => {
+    requireSelf(p_challenger_id);
+    if (p_challenger_id === p_opponent_id) raise("Cannot duel yourself");
+
+    const wager = toNumber(p_xenocoins_wagered);
+    if (wager < 0) raise("Invalid wager");
+
+    const opponent = findById("profiles", p_opponent_id);
+    if (!opponent) raise("Opponent not found");
+    if (getPrivacy(opponent!).allowDuels === false) {
+      raise("Opponent is not accepting duels");
+    }
+
+    const pet = findById("pets", p_pet_id);
+    if (!pet || pet.owner_id !== p_challenger_id) raise("Pet not found");
+    if (!pet!.is_alive) raise("Pet cannot duel");
+
+    const duel = db.insert("duels", {
+      challenger_id: p_challenger_id,
+      opponent_id: p_opponent_id,
+      challenger_pet_id: p_pet_id,
+      xenocoins_wagered: wager,
+    });
+
+    if (wager > 0) {
+      updateUserCurrency({
+        user_id: p_challenger_id,
+        currency_type: "xenocoins",
+        amount: -wager,
+        reason: "duel_escrow",
+        reference_id: duel.id,
+      });
+    }
+
+    db.insert("notifications", {
+      user_id: p_opponent_id,
+      type: "info",
+      title: "Novo desafio de duelo!",
+      message: `${pet!.name} desafiou você para um duelo.`,
+    });
+
+    return duel.id;
+  };
+
+  const acceptDuel = ({
+    p_duel_id,
+    p_user_id,
+    p_pet_id,
+  }: Args<"accept_duel">) => {
+    requireSelf(p_user_id);
+
+    const duel = findById("duels", p_duel_id);
+    if (!duel || duel.opponent_id !== p_user_id) raise("Duel not found");
+    if (duel!.status !== "pending") raise("Duel was already answered");
+
+    const pet = findById("pets", p_pet_id);
+    if (!pet || pet.owner_id !== p_user_id) raise("Pet not found");
+    if (!pet!.is_alive) raise("Pet cannot duel");
+
+    const wager = toNumber(duel!.xenocoins_wagered);
+    if (wager > 0) {
+      updateUserCurrency({
+        user_id: p_user_id,
+        currency_type: "xenocoins",
+        amount: -wager,
+        reason: "duel_escrow",
+        reference_id: p_duel_id,
+      });
+    }
+
+    db.update("duels", duel!, {
+      status: "accepted",
+      opponent_pet_id: p_pet_id,
+    });
+  };
+
+  const cancelDuel = ({ p_duel_id, p_user_id }: Args<"cancel_duel">) => {
+    requireSelf(p_user_id);
+
+    const duel = findById("duels", p_duel_id);
+    if (!duel || ![duel.challenger_id, duel.opponent_id].includes(p_user_id)) {
+      raise("Duel not found");
+    }
+    if (duel!.status !== "pending") raise("Duel was already answered");
+
+    const wager = toNumber(duel!.xenocoins_wagered);
+    if (wager > 0) {
+      updateUserCurrency({
+        user_id: duel!.challenger_id,
+        currency_type: "xenocoins",
+        amount: wager,
+        reason: "duel_refund",
+        reference_id: p_duel_id,
+      });
+    }
+
+    const status = p_user_id === duel!.opponent_id ? "rejected" : "cancelled";
+    db.update("duels", duel!, { status });
+    return status;
+  };
+
+  const completeDuel = ({ p_duel_id }: Args<"complete_duel">) => {
+    const duel = findById("duels", p_duel_id);
+    if (!duel) raise(`Duel not found: ${p_duel_id}`);
+
+    const participants = [duel!.challenger_id, duel!.opponent_id];
+    const currentId = uid();
+    if (currentId && !participants.includes(currentId)) {
+      raise("Not a participant of this duel");
+    }
+    if (!["accepted", "in_progress"].includes(duel!.status)) {
+      raise(`Duel cannot be completed from status: ${duel!.status}`);
+    }
+
+    const outcome = resolveDuel(
+      loadDuelPet(duel!.challenger_pet_id),
+      loadDuelPet(duel!.opponent_pet_id),
+      duel!.id,
+    );
+    const winnerId =
+      outcome.winnerPetId === duel!.challenger_pet_id
+        ? duel!.challenger_id
+        : outcome.winnerPetId === duel!.opponent_pet_id
+          ? duel!.opponent_id
+          : null;
+
+    // Both stakes are in escrow: the winner takes them, a draw returns them
+    const wager = toNumber(duel!.xenocoins_wagered);
+    if (wager > 0) {
+      const payouts: [string, number, string][] = winnerId
+        ? [[winnerId, wager * 2, "duel_won"]]
+        : participants.map((userId) => [userId, wager, "duel_refund"]);
+      payouts.forEach(([userId, amount, reason]) =>
+        updateUserCurrency({
+          user_id: userId,
+          currency_type: "xenocoins",
+          amount,
+          reason,
+          reference_id: p_duel_id,
+        }),
+      );
+    }
+
+    db.update("duels", duel!, {
+      status: "completed",
+      winner_id: winnerId,
+      battle_log: toJson(outcome.rounds),
+      completed_at: now(),
+    });
+    return true;
+  };
+
+  // Trades
+
+  const lockTradeItems = (tradeId: string, ownerId: string, items: unknown) =>
+    asList(items).map((offer) => {
+      const quantity = toNumber(offer.quantity ?? 1);
+      const inventoryItem = findById("inventory", offer.inventory_id);
+
+      if (!inventoryItem || inventoryItem.user_id !== ownerId) {
+        raise("Item not found in inventory");
+      }
+      if (
+        inventoryItem!.is_equipped ||
+        inventoryItem!.equipped_pet_id != null
+      ) {
+        raise("Equipped items cannot be traded");
+      }
+      if (inventoryItem!.locked_trade_id != null) {
+        raise("Item is already locked in another trade");
+      }
+      if (quantity <= 0 || quantity > inventoryItem!.quantity) {
+        raise("Invalid quantity offered");
+      }
+      if (!findById("items", inventoryItem!.item_id)?.is_tradeable) {
+        raise("Item cannot be traded");
+      }
+
+      db.update("inventory", inventoryItem!, { locked_trade_id: tradeId });
+      return {
+        inventory_id: inventoryItem!.id,
+        item_id: inventoryItem!.item_id,
+        quantity,
+      };
+    });
+
+  const transferTradeItems = (
+    tradeId: string,
+    items: unknown,
+    toUserId: string,
+  ) => {
+    asList(items).forEach((offer) => {
+      const quantity = toNumber(offer.quantity);
+      const inventoryItem = db.find(
+        "inventory",
+        (row) =>
+          row.id === offer.inventory_id && row.locked_trade_id === tradeId,
+      );
+      if (!inventoryItem || inventoryItem.quantity < quantity) {
+        raise("Escrowed item is no longer available");
+      }
+
+      const unlocked = db.update("inventory", inventoryItem!, {
+        locked_trade_id: null,
+      });
+      if (unlocked.quantity === quantity) {
+        db.delete("inventory", unlocked);
+      } else {
+        db.update("inventory", unlocked, {
+          quantity: unlocked.quantity - quantity,
+        });
+      }
+
+      addToInventory(toUserId, unlocked.item_id, quantity);
+    });
+  };
+
+  const releaseTradeEscrow = (trade: TableRow<"trades">) => {
+    db.filter("inventory", (row) => row.locked_trade_id === trade.id).forEach(
+      (row) => db.update("inventory", row, { locked_trade_id: null }),
+    );
+
+    if (toNumber(trade.initiator_xenocoins) > 0) {
+      updateUserCurrency({
+        user_id: trade.initiator_id,
+        currency_type: "xenocoins",
+        amount: trade.initiator_xenocoins,
+        reason: "trade_refund",
+        reference_id: trade.id,
+      });
+    }
+    if (trade.recipient_confirmed && toNumber(trade.recipient_xenocoins) > 0) {
+      updateUserCurrency({
+        user_id: trade.recipient_id,
+        currency_type: "xenocoins",
+        amount: trade.recipient_xenocoins,
+        reason: "trade_refund",
+        reference_id: trade.id,
+      });
+    }
+  };
+
+  const createTrade = ({
+    p_initiator_id,
+    p_recipient_id,
+    p_initiator_items,
+    p_recipient_items,
+    p_initiator_xenocoins = 0,
+    p_recipient_xenocoins = 0,
+  }: Args<"create_trade">) => {
+    requireSelf(p_initiator_id);
+    if (p_initiator_id === p_recipient_id) raise("Cannot trade with yourself");
+    if (
+      toNumber(p_initiator_xenocoins) < 0 ||
+      toNumber(p_recipient_xenocoins) < 0
+    ) {
+      raise("Invalid xenocoin amount");
+    }
+
+    const recipient = findById("profiles", p_recipient_id);
+    if (!recipient) raise("Recipient not found");
+    if (getPrivacy(recipient!).allowTrades === false) {
+      raise("Recipient is not accepting trades");
+    }
+
+    asList(p_recipient_items).forEach((offer) => {
+      const requested = findById("inventory", offer.inventory_id);
+      if (!requested || requested.user_id !== p_recipient_id) {
+        raise("Requested item not found");
+      }
+      if (requested!.is_equipped || requested!.equipped_pet_id != null) {
+        raise("Equipped items cannot be traded");
+      }
+    });
+
+    const trade = db.insert("trades", {
+      initiator_id: p_initiator_id,
+      recipient_id: p_recipient_id,
+      recipient_items: p_recipient_items || [],
+      initiator_xenocoins: toNumber(p_initiator_xenocoins),
+      recipient_xenocoins: toNumber(p_recipient_xenocoins),
+    });
+    db.update("trades", trade, {
+      initiator_items: lockTradeItems(
+        trade.id,
+        p_initiator_id,
+        p_initiator_items,
+      ),
+    });
+
+    if (toNumber(p_initiator_xenocoins) > 0) {
+      updateUserCurrency({
+        user_id: p_initiator_id,
+        currency_type: "xenocoins",
+        amount: -toNumber(p_initiator_xenocoins),
+        reason: "trade_escrow",
+        reference_id: trade.id,
+      });
+    }
+
+    db.insert("notifications", {
+      user_id: p_recipient_id,
+      type: "info",
+      title: "Nova proposta de troca!",
+      message: "Você recebeu uma proposta de troca.",
+    });
+
+    return trade.id;
+  };
+
+  const confirmTrade = ({ p_trade_id, p_user_id }: Args<"confirm_trade">) => {
+    requireSelf(p_user_id);
+
+    const trade = findById("trades", p_trade_id);
+    if (!trade) raise("Trade not found");
+
+    // Step 1: the recipient accepts and locks their side of the offer
+    if (p_user_id === trade!.recipient_id && trade!.status === "pending") {
+      db.update("trades", trade!, {
+        recipient_items: lockTradeItems(
+          p_trade_id,
+          trade!.recipient_id,
+          trade!.recipient_items,
+        ),
+        recipient_confirmed: true,
+        status: "accepted",
+      });
+
+      if (toNumber(trade!.recipient_xenocoins) > 0) {
+        updateUserCurrency({
+          user_id: trade!.recipient_id,
+          currency_type: "xenocoins",
+          amount: -toNumber(trade!.recipient_xenocoins),
+          reason: "trade_escrow",
+          reference_id: p_trade_id,
+        });
+      }
+
+      db.insert("notifications", {
+        user_id: trade!.initiator_id,
+        type: "info",
+        title: "Troca aceita!",
+        message: "Confirme a troca para concluí-la.",
+      });
+      return "accepted";
+    }
+
+    // Step 2: the initiator confirms and both sides are swapped
+    if (p_user_id === trade!.initiator_id && trade!.status === "accepted") {
+      transferTradeItems(
+        p_trade_id,
+        trade!.initiator_items,
+        trade!.recipient_id,
+      );
+      transferTradeItems(
+        p_trade_id,
+        trade!.recipient_items,
+        trade!.initiator_id,
+      );
+
+      if (toNumber(trade!.initiator_xenocoins) > 0) {
+        updateUserCurrency({
+          user_id: trade!.recipient_id,
+          currency_type: "xenocoins",
+          amount: trade!.initiator_xenocoins,
+          reason: "trade_completed",
+          reference_id: p_trade_id,
+        });
+      }
+      if (toNumber(trade!.recipient_xenocoins) > 0) {
+        updateUserCurrency({
+          user_id: trade!.initiator_id,
+          currency_type: "xenocoins",
+          amount: trade!.recipient_xenocoins,
+          reason: "trade_completed",
+          reference_id: p_trade_id,
+        });
+      }
+
+      db.update("trades", findById("trades", p_trade_id)!, {
+        initiator_confirmed: true,
+        status: "completed",
+        completed_at: now(),
+      });
+      db.insert("notifications", {
+        user_id: trade!.recipient_id,
+        type: "success",
+        title: "Troca concluída!",
+        message: "Os itens da troca já estão no seu inventário.",
+      });
+      return "completed";
+    }
+
+    return raise(`Trade cannot be confirmed from status: ${trade!.status}`);
+  };
+
+  const cancelTrade = ({ p_trade_id, p_user_id }: Args<"cancel_trade">) => {
+    requireSelf(p_user_id);
+
+    const trade = findById("trades", p_trade_id);
+    if (
+      !trade ||
+      ![trade.initiator_id, trade.recipient_id].includes(p_user_id)
+    ) {
+      raise("Trade not found");
+    }
+    if (!["pending", "accepted"].includes(trade!.status)) {
+      raise("Trade is already closed");
+    }
+
+    releaseTradeEscrow(trade!);
+
+    const status = p_user_id === trade!.recipient_id ? "rejected" : "cancelled";
+    db.update("trades", findById("trades", p_trade_id)!, { status });
+    return status;
+  };
+
+  // Shops
+
+  const restockShop = ({ p_shop_id }: Args<"restock_shop">) => {
+    const shop = findById("shops", p_shop_id);
+    if (!shop) return false;
+
+    const intervalMs = shop.restock_interval_hours * 60 * 60 * 1000;
+    const elapsedIntervals = Math.floor(
+      (Date.now() - Date.parse(shop.last_restock)) / intervalMs,
+    );
+    if (elapsedIntervals < 1) return false;
+
+    db.filter(
+      "shop_items",
+      (row) =>
+        row.shop_id === p_shop_id &&
+        row.stock != null &&
+        row.stock_limit != null,
+    ).forEach((row) =>
+      db.update("shop_items", row, {
+        stock: Math.min(
+          row.stock_limit!,
+          row.stock! + row.restock_rate * elapsedIntervals,
+        ),
+        last_restocked: now(),
+      }),
+    );
+
+    db.update("shops", shop, {
+      last_restock: new Date(
+        Date.parse(shop.last_restock) + intervalMs * elapsedIntervals,
+      ).toISOString(),
+      updated_at: now(),
+    });
+    return true;
+  };
+
+  const restockDueShops = () =>
+    db
+      .filter("shops", (shop) => shop.is_active)
+      .filter((shop) => restockShop({ p_shop_id: shop.id })).length;
+
+  const requirementMet = (
+    userId: string,
+    shopId: string,
+    requirement: JsonObject,
+  ) => {
+    switch (requirement.type) {
+      case "level":
+        return (
+          Math.max(
+            0,
+            ...db
+              .filter("pets", (pet) => pet.owner_id === userId && pet.is_alive)
+              .map((pet) => pet.level),
+          ) >= toNumber(requirement.value)
+        );
+      case "achievement":
+        return db
+          .filter(
+            "user_achievements",
+            (row) => row.user_id === userId && row.is_unlocked,
+          )
+          .some(
+            (row) =>
+              findById("achievements", row.achievement_id)?.name ===
+              requirement.value,
+          );
+      case "item":
+        return db
+          .filter("inventory", (row) => row.user_id === userId)
+          .some(
+            (row) => findById("items", row.item_id)?.name === requirement.value,
+          );
+      case "currency":
+        return (
+          toNumber(findById("profiles", userId)?.xenocoins) >=
+          toNumber(requirement.value)
+        );
+      case "reputation":
+        return (
+          toNumber(
+            db.find(
+              "shop_reputation",
+              (row) => row.user_id === userId && row.shop_id === shopId,
+            )?.reputation,
+          ) >= toNumber(requirement.value)
+        );
+      default:
+        return true;
+    }
+  };
+
+  const processShopPurchase = (
+    userId: string,
+    shopItemId: string,
+    quantity: number,
+    referenceId: string,
+  ) => {
+    requireSelf(userId);
+    if (quantity == null || quantity < 1) raise("Invalid quantity");
+
+    let shopItem = findById("shop_items", shopItemId);
+    if (!shopItem || !shopItem.is_available) raise("Item not available");
+
+    // Apply any restock that came due before reading the stock
+    restockShop({ p_shop_id: shopItem!.shop_id });
+
+    const shop = findById("shops", shopItem!.shop_id)!;
+    if (!shop.is_active) raise("Item not available");
+
+    const currentHour = new Date().getUTCHours();
+    if (currentHour < shop.open_hour || currentHour >= shop.close_hour) {
+      raise("Shop is closed");
+    }
+
+    shopItem = findById("shop_items", shopItemId)!;
+    asList(shopItem.requirements).forEach((requirement) => {
+      if (!requirementMet(userId, shop.id, requirement)) {
+        raise(`Requirement not met: ${requirement.description}`);
+      }
+    });
+
+    if (shopItem.stock != null && shopItem.stock < quantity) {
+      raise("Insufficient stock");
+    }
+
+    const currentTime = Date.now();
+    const offer = db
+      .filter(
+        "shop_offers",
+        (row) =>
+          row.shop_id === shop.id &&
+          row.item_id === shopItem!.item_id &&
+          row.is_active &&
+          Date.parse(row.start_date) <= currentTime &&
+          currentTime <= Date.parse(row.end_date) &&
+          row.current_purchases < row.max_purchases,
+      )
+      .sort((a, b) => a.sale_price - b.sale_price)[0];
+
+    let unitPrice: number;
+    let currency: "xenocoins" | "cash";
+    if (offer) {
+      if (offer.current_purchases + quantity > offer.max_purchases) {
+        raise("Offer limit reached");
+      }
+      unitPrice = offer.sale_price;
+      currency = offer.currency;
+      db.update("shop_offers", offer, {
+        current_purchases: offer.current_purchases + quantity,
+      });
+    } else {
+      unitPrice = Math.round(
+        (shopItem.price * (100 - shopItem.sale_discount)) / 100,
+      );
+      currency = shopItem.currency;
+    }
+
+    const totalCost = unitPrice * quantity;
+    if (totalCost > 0) {
+      updateUserCurrency({
+        user_id: userId,
+        currency_type: currency,
+        amount: -totalCost,
+        reason: "shop_purchase",
+        reference_id: referenceId,
+      });
+    }
+
+    addToInventory(userId, shopItem.item_id, quantity);
+
+    if (shopItem.stock != null) {
+      db.update("shop_items", shopItem, { stock: shopItem.stock - quantity });
+    }
+
+    const reputation = db.find(
+      "shop_reputation",
+      (row) => row.user_id === userId && row.shop_id === shop.id,
+    );
+    if (reputation) {
+      db.update("shop_reputation", reputation, {
+        reputation: reputation.reputation + quantity,
+        updated_at: now(),
+      });
+    } else {
+      db.insert("shop_reputation", {
+        user_id: userId,
+        shop_id: shop.id,
+        reputation: quantity,
+      });
+    }
+
+    return {
+      itemId: shopItem.item_id,
+      quantity,
+      totalCost,
+      currency,
+      newBalance: findById("profiles", userId)?.[currency],
+    };
+  };
+
+  const purchaseShopItem = ({
+    p_user_id,
+    p_shop_item_id,
+    p_quantity,
+    p_idempotency_key,
+  }: Args<"purchase_shop_item">) => {
+    requireSelf(p_user_id);
+    if (!p_idempotency_key) raise("Idempotency key required");
+
+    const previous = db.find(
+      "purchase_transactions",
+      (row) =>
+        row.user_id === p_user_id && row.idempotency_key === p_idempotency_key,
+    );
+    if (previous) {
+      if (
+        previous.shop_item_id !== p_shop_item_id ||
+        previous.quantity !== p_quantity
+      ) {
+        raise("Idempotency key reused for a different purchase");
+      }
+      return { ...asObject(previous.result), replayed: true };
+    }
+
+    const transaction = db.insert("purchase_transactions", {
+      user_id: p_user_id,
+      idempotency_key: p_idempotency_key,
+      shop_item_id: p_shop_item_id,
+      quantity: p_quantity,
+    });
+
+    const result = {
+      ...processShopPurchase(
+        p_user_id,
+        p_shop_item_id,
+        p_quantity,
+        String(transaction.id),
+      ),
+      success: true,
+      replayed: false,
+    };
+    db.update("purchase_transactions", transaction, { result });
+    return result;
+  };
+
+  // Daily check-in
+
+  const lastCheckin = (userId: string) =>
+    db
+      .filter("user_checkins", (row) => row.user_id === userId)
+      .sort((a, b) => b.checkin_date.localeCompare(a.checkin_date))[0];
+
+  const checkinGraceAvailable = (userId: string, today: string) =>
+    !db
+      .filter(
+        "user_checkins",
+        (row) => row.user_id === userId && row.grace_used,
+      )
+      .some((row) => daysBetween(row.checkin_date, today) < GRACE_WINDOW_DAYS);
+
+  const dailyCheckin = ({ p_user_id }: Args<"daily_checkin">) => {
+    requireSelf(p_user_id);
+    if (!findById("profiles", p_user_id)) raise(`User not found: ${p_user_id}`);
+
+    const today = toUtcDateKey(new Date());
+    const last = lastCheckin(p_user_id);
+    let streak = 1;
+    let graceUsed = false;
+
+    if (last) {
+      const gap = daysBetween(last.checkin_date, today);
+      if (gap === 0) raise("Already checked in today");
+
+      if (gap === 1) {
+        streak = last.streak + 1;
+      } else if (gap === 2 && checkinGraceAvailable(p_user_id, today)) {
+        streak = last.streak + 1;
+        graceUsed = true;
+      }
+    }
+
+    const rewards = getCheckinReward(today, streak);
+    const checkin = db.insert("user_checkins", {
+      user_id: p_user_id,
+      checkin_date: today,
+      streak,
+      grace_used: graceUsed,
+      rewards: toJson(rewards),
+    });
+
+    (["xenocoins", "cash"] as const).forEach((currency) => {
+      if (rewards[currency] > 0) {
+        updateUserCurrency({
+          user_id: p_user_id,
+          currency_type: currency,
+          amount: rewards[currency],
+          reason: "daily_checkin",
+          reference_id: checkin.id,
+        });
+      }
+    });
+
+    const profile = findById("profiles", p_user_id)!;
+    return {
+      checkinDate: today,
+      streak,
+      graceUsed,
+      rewards,
+      xenocoins: profile.xenocoins,
+      cash: profile.cash,
+    };
+  };
+
+  const getCheckinStatus = ({ p_user_id }: Args<"get_checkin_status">) => {
+    requireSelf(p_user_id);
+
+    const today = toUtcDateKey(new Date());
+    const graceAvailable = checkinGraceAvailable(p_user_id, today);
+    const last = lastCheckin(p_user_id);
+    const checkins = db.filter(
+      "user_checkins",
+      (row) => row.user_id === p_user_id,
+    );
+
+    // A streak is still alive while today's check-in can extend it
+    const gap = last ? daysBetween(last.checkin_date, today) : Infinity;
+    const streakAlive = gap <= 1 || (gap === 2 && graceAvailable);
+
+    return {
+      today,
+      checkedInToday: last?.checkin_date === today,
+      currentStreak: last && streakAlive ? last.streak : 0,
+      longestStreak: Math.max(0, ...checkins.map((row) => row.streak)),
+      graceAvailable,
+      claimedDates: checkins
+        .map((row) => row.checkin_date)
+        .filter((date) => date >= `${today.slice(0, 7)}-01`)
+        .sort(),
+    };
+  };
+
+  // Redeem codes
+
+  const redeemCode = ({ p_user_id, p_code }: Args<"redeem_code">) => {
+    requireSelf(p_user_id);
+
+    const normalizedCode = String(p_code ?? "")
+      .trim()
+      .toUpperCase();
+    const code = db.find(
+      "redeem_codes",
+      (row) => String(row.code).toUpperCase() === normalizedCode,
+    );
+    if (!code || !code.is_active) raise("Invalid code");
+    if (code!.expires_at && Date.parse(code!.expires_at) <= Date.now()) {
+      raise("Code expired");
+    }
+    if (
+      db.find(
+        "redeem_code_redemptions",
+        (row) => row.code_id === code!.id && row.user_id === p_user_id,
+      )
+    ) {
+      raise("Code already redeemed");
+    }
+    if (code!.max_uses !== -1 && code!.current_uses >= code!.max_uses) {
+      raise("Code usage limit reached");
+    }
+
+    const redemption = db.insert("redeem_code_redemptions", {
+      code_id: code!.id,
+      user_id: p_user_id,
+      rewards: code!.rewards,
+    });
+    db.update("redeem_codes", code!, { current_uses: code!.current_uses + 1 });
+
+    const rewards = asObject(code!.rewards);
+    const xenocoins = toNumber(rewards.xenocoins);
+    const cash = toNumber(rewards.cash);
+    const accountPoints = toNumber(rewards.accountPoints);
+
+    if (xenocoins > 0) {
+      updateUserCurrency({
+        user_id: p_user_id,
+        currency_type: "xenocoins",
+        amount: xenocoins,
+        reason: "redeem_code",
+        reference_id: redemption.id,
+      });
+    }
+    if (cash > 0) {
+      updateUserCurrency({
+        user_id: p_user_id,
+        currency_type: "cash",
+        amount: cash,
+        reason: "redeem_code",
+        reference_id: redemption.id,
+      });
+    }
+    if (accountPoints > 0) {
+      updateAccountScore({ user_id: p_user_id, points: accountPoints });
+    }
+
+    const itemNames = (Array.isArray(rewards.items) ? rewards.items : []).map(
+      (entry) => {
+        const item = db.find(
+          "items",
+          (row) =>
+            row.id === entry ||
+            slugify(row.name) === String(entry).toLowerCase(),
+        );
+        if (!item) raise(`Reward item not found: ${entry}`);
+
+        addToInventory(p_user_id, item!.id, 1);
+        return item!.name;
+      },
+    );
+
+    const collectibleNames = (
+      Array.isArray(rewards.collectibles) ? rewards.collectibles : []
+    ).map((entry) => String(findById("collectibles", entry)?.name ?? entry));
+    collectibleNames.forEach((name) =>
+      addCollectibleToUser({ user_id: p_user_id, collectible_name: name }),
+    );
+
+    const profile = findById("profiles", p_user_id)!;
+    return {
+      redemptionId: redemption.id,
+      code: code!.code,
+      name: code!.name,
+      rewards: {
+        xenocoins,
+        cash,
+        accountPoints,
+        items: itemNames,
+        collectibles: collectibleNames,
+      },
+      xenocoins: profile.xenocoins,
+      cash: profile.cash,
+      accountScore: profile.account_score,
+    };
+  };
+
+  const addRedeemCampaignCodes = ({
+    p_campaign_id,
+    p_codes,
+  }: Args<"add_redeem_campaign_codes">) => {
+    requireAdmin();
+
+    const campaign = findById("redeem_campaigns", p_campaign_id);
+    if (!campaign) raise(`Campaign not found: ${p_campaign_id}`);
+
+    const codes: string[] = Array.from(
+      new Set(
+        (p_codes || [])
+          .map((code: string) => String(code).trim().toUpperCase())
+          .filter(Boolean),
+      ),
+    );
+    const created = codes.filter((code) => {
+      if (
+        db.find(
+          "redeem_codes",
+          (row) => String(row.code).toUpperCase() === code,
+        )
+      ) {
+        return false;
+      }
+
+      db.insert("redeem_codes", {
+        code,
+        name: campaign!.name,
+        description: campaign!.description,
+        rewards: campaign!.rewards,
+        max_uses: 1,
+        expires_at: campaign!.expires_at,
+        created_by: uid(),
+        campaign_id: campaign!.id,
+      });
+      return true;
+    }).length;
+
+    return { created, skipped: codes.length - created };
+  };
+
+  const createRedeemCampaign = ({
+    p_name,
+    p_description,
+    p_rewards,
+    p_expires_at,
+    p_code_pattern,
+    p_codes,
+  }: Args<"create_redeem_campaign">) => {
+    requireAdmin();
+    if (!String(p_name ?? "").trim()) raise("Campaign name is required");
+
+    const campaign = db.insert("redeem_campaigns", {
+      name: String(p_name).trim(),
+      description: p_description ?? "",
+      rewards: p_rewards ?? {},
+      expires_at: p_expires_at ?? null,
+      code_pattern: p_code_pattern ?? null,
+      created_by: uid(),
+    });
+
+    return {
+      campaignId: campaign.id,
+      ...addRedeemCampaignCodes({ p_campaign_id: campaign.id, p_codes }),
+    };
+  };
+
+  const revokeRedeemCampaignCodes = ({
+    p_campaign_id,
+  }: Args<"revoke_redeem_campaign_codes">) => {
+    requireAdmin();
+
+    const unused = db.filter(
+      "redeem_codes",
+      (row) =>
+        row.campaign_id === p_campaign_id &&
+        row.current_uses === 0 &&
+        row.revoked_at == null,
+    );
+    unused.forEach((row) =>
+      db.update("redeem_codes", row, { is_active: false, revoked_at: now() }),
+    );
+    return unused.length;
+  };
+
+  const getRedeemCampaigns = () => {
+    requireAdmin();
+
+    const currentTime = Date.now();
+    return db
+      .rows("redeem_campaigns")
+      .slice()
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map((campaign) => {
+        const codes = db.filter(
+          "redeem_codes",
+          (row) => row.campaign_id === campaign.id,
+        );
+        return {
+          id: campaign.id,
+          name: campaign.name,
+          description: campaign.description,
+          rewards: campaign.rewards,
+          expiresAt: campaign.expires_at,
+          codePattern: campaign.code_pattern,
+          createdBy: campaign.created_by,
+          createdAt: campaign.created_at,
+          stats: {
+            total: codes.length,
+            redeemed: codes.filter((row) => row.current_uses > 0).length,
+            revoked: codes.filter((row) => row.revoked_at != null).length,
+            available: codes.filter(
+              (row) =>
+                row.current_uses === 0 &&
+                row.is_active &&
+                (!row.expires_at || Date.parse(row.expires_at) > currentTime),
+            ).length,
+          },
+        };
+      });
+  };
+
+  const recordWorldLayout = (note: string) => {
+    const version =
+      Math.max(
+        0,
+        ...db.rows("world_layout_versions").map((row) => row.version),
+      ) + 1;
+    const layout = db
+      .rows("world_positions")
+      .slice()
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map(({ id, x, y, size, rotation }) => ({ id, x, y, size, rotation }));
+
+    db.insert("world_layout_versions", {
+      version,
+      note: note ?? "",
+      layout,
+      created_by: uid(),
+    });
+    return version;
+  };
+
+  const applyWorldLayout = (layout: JsonObject[]) => {
+    layout.forEach((world) => {
+      const row = findById("world_positions", world.id);
+      if (!row) raise(`World not found: ${world.id}`);
+
+      db.update("world_positions", row!, {
+        x: toNumber(world.x ?? row!.x),
+        y: toNumber(world.y ?? row!.y),
+        size: Math.max(20, Math.min(1000, toNumber(world.size ?? row!.size))),
+        rotation: toNumber(world.rotation ?? row!.rotation),
+      });
+    });
+  };
+
+  const saveWorldLayout = ({
+    p_changes,
+    p_note,
+  }: Args<"save_world_layout">) => {
+    requireAdmin();
+    const changes = asList(p_changes);
+    if (changes.length === 0) raise("No world changes to save");
+
+    if (db.rows("world_layout_versions").length === 0) {
+      recordWorldLayout("Initial layout");
+    }
+
+    applyWorldLayout(changes);
+    return recordWorldLayout(p_note);
+  };
+
+  const rollbackWorldLayout = ({
+    p_version,
+  }: Args<"rollback_world_layout">) => {
+    requireAdmin();
+
+    const snapshot = db.find(
+      "world_layout_versions",
+      (row) => row.version === p_version,
+    );
+    if (!snapshot) raise(`Layout version not found: ${p_version}`);
+
+    // Worlds added after the snapshot keep their place
+    applyWorldLayout(
+      asList(snapshot!.layout).filter((world) =>
+        findById("world_positions", world.id),
+      ),
+    );
+    return recordWorldLayout(`Rollback to version ${p_version}`);
+  };
+
+  // Triggers
+
+  db.addTrigger({
+    table: "profiles",
+    timing: "before",
+    operations: ["update"],
+    handler: (_operation, _oldRow, newRow) => {
+      newRow!.updated_at = now();
+    },
+  });
+
+  db.addTrigger({
+    table: "world_positions",
+    timing: "before",
+    operations: ["update"],
+    handler: (_operation, _oldRow, newRow) => {
+      newRow!.updated_at = now();
+    },
+  });
+
+  db.addTrigger({
+    table: "pets",
+    timing: "after",
+    operations: ["update"],
+    handler: (_operation, oldRow, newRow) => {
+      if (PET_LEVEL_STATS.some((stat) => oldRow![stat] !== newRow![stat])) {
+        calculatePetLevel({ pet_id: newRow!.id });
+      }
+    },
+  });
+
+  db.addTrigger({
+    table: "inventory",
+    timing: "before",
+    operations: ["update", "delete"],
+    handler: (operation, oldRow, newRow) => {
+      if (oldRow!.locked_trade_id == null) return;
+
+      const frozenChange =
+        operation === "delete" ||
+        (newRow!.locked_trade_id === oldRow!.locked_trade_id &&
+          (newRow!.quantity !== oldRow!.quantity ||
+            newRow!.is_equipped !== oldRow!.is_equipped ||
+            newRow!.user_id !== oldRow!.user_id));
+      if (frozenChange) raise("Item is locked in a pending trade");
+    },
+  });
+
+  db.addTrigger({
+    table: "currency_ledger",
+    timing: "before",
+    operations: ["update", "delete"],
+    handler: (operation) => {
+      if (operation === "delete" && db.isCascading) return;
+      raise("Currency ledger entries cannot be changed");
+    },
+  });
+
+  db.addTrigger({
+    table: "duels",
+    timing: "after",
+    operations: ["update"],
+    handler: (_operation, oldRow, newRow) => {
+      if (
+        newRow!.status === "completed" &&
+        oldRow!.status !== "completed" &&
+        newRow!.winner_id != null
+      ) {
+        incrementProgressCounter(newRow!.winner_id, "duels_won", 1);
+        incrementAchievementCounter(newRow!.winner_id, "duels_won", 1);
+      }
+    },
+  });
+
+  db.addTrigger({
+    table: "pets",
+    timing: "after",
+    operations: ["insert"],
+    handler: (_operation, _oldRow, newRow) => {
+      recordProgressEvent(newRow!.owner_id, { pets_created: 1 });
+    },
+  });
+
+  // Rows moving in and out of a trade lock are escrow, not acquisitions
+  db.addTrigger({
+    table: "inventory",
+    timing: "after",
+    operations: ["insert", "update"],
+    handler: (operation, oldRow, newRow) => {
+      if (newRow!.locked_trade_id != null) return;
+
+      let gained = 0;
+      if (operation === "insert") {
+        gained = newRow!.quantity;
+      } else if (
+        oldRow!.user_id === newRow!.user_id &&
+        oldRow!.locked_trade_id == null
+      ) {
+        gained = newRow!.quantity - oldRow!.quantity;
+      }
+
+      recordProgressEvent(newRow!.user_id, {
+        items_acquired: gained,
+        [`item:${newRow!.item_id}`]: gained,
+      });
+    },
+  });
+
+  db.addTrigger({
+    table: "purchase_transactions",
+    timing: "after",
+    operations: ["update"],
+    handler: (_operation, oldRow, newRow) => {
+      if (oldRow!.result != null || newRow!.result == null) return;
+
+      const quantity = toNumber(newRow!.quantity);
+      recordProgressEvent(String(newRow!.user_id), {
+        items_purchased: quantity,
+        [`purchased:${asObject(newRow!.result).itemId}`]: quantity,
+      });
+    },
+  });
+
+  db.addTrigger({
+    table: "user_collectibles",
+    timing: "after",
+    operations: ["insert"],
+    handler: (_operation, _oldRow, newRow) => {
+      recordProgressEvent(String(newRow!.user_id), {
+        collectibles_collected: 1,
+      });
+    },
+  });
+
+  db.addTrigger({
+    table: "user_checkins",
+    timing: "after",
+    operations: ["insert"],
+    handler: (_operation, _oldRow, newRow) => {
+      recordProgressEvent(newRow!.user_id, { daily_checkins: 1 });
+    },
+  });
+
+  // Functions callable through `rpc`
+  const functions: DatabaseFunctions = {
+    update_account_score: updateAccountScore,
+    admin_adjust_currency: adminAdjustCurrency,
+    verify_currency_balance: verifyCurrencyBalance,
+    admin_add_inventory_item: adminAddInventoryItem,
+    discard_inventory_item: discardInventoryItem,
+    calculate_pet_level: calculatePetLevel,
+    refresh_pet_care: refreshPetCare,
+    refresh_user_pets_care: refreshUserPetsCare,
+    use_pet_item: applyPetItem,
+    equip_item_transaction: equipItemTransaction,
+    unequip_item_transaction: unequipItemTransaction,
+    add_collectible_to_user: addCollectibleToUser,
+    add_user_collectible_safe: addUserCollectibleSafe,
+    record_space_kill: recordSpaceKill,
+    complete_quest: completeQuest,
+    complete_saga_step: completeSagaStep,
+    record_planet_landing: recordPlanetLanding,
+    refresh_achievement_gauges: refreshAchievementGauges,
+    unlock_achievement: unlockAchievement,
+    create_duel: createDuel,
+    accept_duel: acceptDuel,
+    cancel_duel: cancelDuel,
+    complete_duel: completeDuel,
+    create_trade: createTrade,
+    confirm_trade: confirmTrade,
+    cancel_trade: cancelTrade,
+    restock_shop: restockShop,
+    restock_due_shops: restockDueShops,
+    purchase_shop_item: purchaseShopItem,
+    checkin_reward: ({ p_date, p_streak }: Args<"checkin_reward">) =>
+      getCheckinReward(p_date, p_streak),
+    daily_checkin: dailyCheckin,
+    get_checkin_status: getCheckinStatus,
+    redeem_code: redeemCode,
+    create_redeem_campaign: createRedeemCampaign,
+    add_redeem_campaign_codes: addRedeemCampaignCodes,
+    revoke_redeem_campaign_codes: revokeRedeemCampaignCodes,
+    get_redeem_campaigns: getRedeemCampaigns,
+    save_world_layout: saveWorldLayout,
+    rollback_world_layout: rollbackWorldLayout,
+  };
+
+  return functions;
+};
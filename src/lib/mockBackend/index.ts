@@ -0,0 +1,67 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "../../types/database";
+import { MockAuth } from "./auth";
+import { MockDatabase, MockDatabaseError, Row } from "./database";
+import { createDatabaseFunctions } from "./functions";
+import { MockQueryBuilder, MockResponse, toMockError } from "./queryBuilder";
+import { ChannelOptions, MockRealtime } from "./realtime";
+import { seedMockDatabase } from "./seed";
+
+/**
+ * In-memory stand-in for the Supabase client, used when no project is
+ * configured (see `isMockMode` in `lib/supabase.ts`)
+ *
+ * Data lives for the lifetime of the page: tables start from the seed on
+ * every load, while the auth session survives reloads for the demo accounts.
+ *
+ * Only the part of the client the app calls is implemented, with the same
+ * response and error shapes, so it is handed out as a `SupabaseClient`.
+ */
+
+export const createMockClient = (): SupabaseClient<Database> => {
+  const db = new MockDatabase();
+  const auth = new MockAuth(db);
+  const realtime = new MockRealtime(db);
+  const functions = createDatabaseFunctions(db, () => auth.uid());
+
+  seedMockDatabase(db, auth);
+  auth.restoreSession();
+
+  const rpc = async (name: string, params: Row = {}): Promise<MockResponse> => {
+    try {
+      // Params arrive unchecked, the way PostgREST hands them to a function
+      const handler = functions[name as keyof typeof functions] as
+        ((params: Row) => unknown) | undefined;
+      if (!handler) {
+        throw new MockDatabaseError(
+          `Could not find the function public.${name} in the schema cache`,
+          "PGRST202",
+        );
+      }
+
+      const data = db.transaction(() => handler(params));
+      return { data, error: null, count: null, status: 200, statusText: "OK" };
+    } catch (error) {
+      return {
+        data: null,
+        error: toMockError(error),
+        count: null,
+        status: 400,
+        statusText: "Bad Request",
+      };
+    }
+  };
+
+  const client = {
+    auth,
+    from: (table: string) => new MockQueryBuilder(db, table),
+    rpc,
+    channel: (topic: string, options?: ChannelOptions) =>
+      realtime.channel(topic, options),
+    getChannels: () => realtime.getChannels(),
+    removeChannel: realtime.removeChannel.bind(realtime),
+    removeAllChannels: () => realtime.removeAllChannels(),
+  };
+
+  return client as unknown as SupabaseClient<Database>;
+};
@@ -0,0 +1,555 @@
+import { PostgrestError, PostgrestSingleResponse } from "@supabase/supabase-js";
+import { FOREIGN_KEYS, MockDatabase, MockDatabaseError, Row } from "./database";
+
+/**
+ * PostgREST-style query builder over the mock tables
+ *
+ * Covers what the services use from `supabase.from()`: filters (including
+ * `or` strings and filters on embedded tables), ordering, ranges, counts,
+ * `single`/`maybeSingle`, mutations with `.select()` and embedded resources
+ * such as `equipped_items:inventory!equipped_pet_id (*, items (*))`.
+ * Row level security is not emulated.
+ */
+
+export type MockResponse<T = unknown> = PostgrestSingleResponse<T>;
+
+type Operation = "select" | "insert" | "update" | "upsert" | "delete";
+type Predicate = (row: Row) => boolean;
+
+interface SelectNode {
+  name: string;
+  alias: string;
+  hint?: string;
+  children?: SelectNode[];
+}
+
+interface OrderBy {
+  column: string;
+  ascending: boolean;
+  nullsFirst: boolean;
+}
+
+const JOIN_HINTS = ["left", "inner"];
+
+const splitTopLevel = (value: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) parts.push(current);
+  return parts;
+};
+
+export const parseSelect = (columns: string): SelectNode[] =>
+  splitTopLevel(columns.replace(/\s+/g, "")).map((part) => {
+    const open = part.indexOf("(");
+    const head = open === -1 ? part : part.slice(0, open);
+    const match = head.match(/^(?:(\w+):)?(\w+|\*)(?:!(\w+))?$/);
+    if (!match) {
+      throw new MockDatabaseError(
+        `failed to parse select parameter (${part})`,
+        "PGRST100",
+      );
+    }
+
+    const [, alias, name, hint] = match;
+    return {
+      name,
+      alias: alias || name,
+      hint,
+      children: open === -1 ? undefined : parseSelect(part.slice(open + 1, -1)),
+    };
+  });
+
+const likeToRegExp = (pattern: string, flags: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/[%*]/g, ".*")
+      .replace(/_/g, ".")}$`,
+    flags,
+  );
+
+const isEqual = (actual: unknown, expected: unknown) =>
+  expected != null &&
+  actual != null &&
+  (actual === expected || String(actual) === String(expected));
+
+const compareValues = (a: unknown, b: unknown) => {
+  const numeric = typeof a === "number" || typeof b === "number";
+  const left = numeric ? Number(a) : String(a);
+  const right = numeric ? Number(b) : String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const parseList = (value: unknown): unknown[] =>
+  Array.isArray(value)
+    ? value
+    : String(value)
+        .replace(/^\(|\)$/g, "")
+        .split(",")
+        .map((entry) => entry.replace(/^"|"$/g, ""));
+
+const OPERATORS: Record<
+  string,
+  (actual: unknown, expected: unknown) => boolean
+> = {
+  eq: isEqual,
+  neq: (actual, expected) => actual != null && !isEqual(actual, expected),
+  gt: (actual, expected) =>
+    actual != null && compareValues(actual, expected) > 0,
+  gte: (actual, expected) =>
+    actual != null && compareValues(actual, expected) >= 0,
+  lt: (actual, expected) =>
+    actual != null && compareValues(actual, expected) < 0,
+  lte: (actual, expected) =>
+    actual != null && compareValues(actual, expected) <= 0,
+  like: (actual, expected) =>
+    actual != null && likeToRegExp(String(expected), "").test(String(actual)),
+  ilike: (actual, expected) =>
+    actual != null && likeToRegExp(String(expected), "i").test(String(actual)),
+  is: (actual, expected) =>
+    expected === null || expected === "null"
+      ? actual == null
+      : String(actual) === String(expected),
+  in: (actual, expected) =>
+    parseList(expected).some((value) => isEqual(actual, value)),
+};
+
+const getOperator = (operator: string) => {
+  const test = OPERATORS[operator];
+  if (!test) {
+    throw new MockDatabaseError(
+      `unsupported operator: ${operator}`,
+      "PGRST100",
+    );
+  }
+  return test;
+};
+
+/** Parses a PostgREST logic string such as `a.eq.1,b.ilike.%x%` */
+const parseOrFilter = (filters: string): Predicate => {
+  const predicates = splitTopLevel(filters).map((filter): Predicate => {
+    const [column, ...rest] = filter.split(".");
+    const negated = rest[0] === "not";
+    const [operator, ...valueParts] = negated ? rest.slice(1) : rest;
+    const test = getOperator(operator);
+    const value = valueParts.join(".");
+    return (row) => test(row[column], value) !== negated;
+  });
+
+  return (row) => predicates.some((predicate) => predicate(row));
+};
+
+export const toMockError = (error: unknown): PostgrestError => ({
+  name: "PostgrestError",
+  message: (error instanceof Error && error.message) || "Unknown error",
+  code: error instanceof MockDatabaseError ? error.code : "P0001",
+  details: "",
+  hint: "",
+});
+
+export class MockQueryBuilder implements PromiseLike<MockResponse> {
+  private operation: Operation = "select";
+  private columns: string | null = "*";
+  private countOption: string | null = null;
+  private head = false;
+  private payload: Row | Row[] = {};
+  private onConflict: string | null = null;
+  private ignoreDuplicates = false;
+  private filters: Predicate[] = [];
+  private embedFilters = new Map<string, Predicate[]>();
+  private orders: OrderBy[] = [];
+  private rangeFrom = 0;
+  private rangeTo: number | null = null;
+  private resultMode: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(
+    private db: MockDatabase,
+    private table: string,
+  ) {}
+
+  select(
+    columns = "*",
+    options: { count?: string; head?: boolean } = {},
+  ): this {
+    this.columns = columns;
+    this.countOption = options.count || null;
+    this.head = !!options.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    return this.mutate("insert", values);
+  }
+
+  upsert(
+    values: Row | Row[],
+    options: { onConflict?: string; ignoreDuplicates?: boolean } = {},
+  ): this {
+    this.onConflict = options.onConflict || null;
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this.mutate("upsert", values);
+  }
+
+  update(values: Row): this {
+    return this.mutate("update", values);
+  }
+
+  delete(): this {
+    return this.mutate("delete", {});
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.filter(column, "eq", value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.filter(column, "neq", value);
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.filter(column, "gt", value);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.filter(column, "gte", value);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.filter(column, "lt", value);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.filter(column, "lte", value);
+  }
+
+  like(column: string, pattern: string): this {
+    return this.filter(column, "like", pattern);
+  }
+
+  ilike(column: string, pattern: string): this {
+    return this.filter(column, "ilike", pattern);
+  }
+
+  is(column: string, value: unknown): this {
+    return this.filter(column, "is", value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.filter(column, "in", values);
+  }
+
+  match(query: Row): this {
+    Object.entries(query).forEach(([column, value]) => this.eq(column, value));
+    return this;
+  }
+
+  not(column: string, operator: string, value: unknown): this {
+    const test = getOperator(operator);
+    return this.addFilter(column, (actual) => !test(actual, value));
+  }
+
+  or(filters: string): this {
+    this.filters.push(parseOrFilter(filters));
+    return this;
+  }
+
+  filter(column: string, operator: string, value: unknown): this {
+    const test = getOperator(operator);
+    return this.addFilter(column, (actual) => test(actual, value));
+  }
+
+  order(
+    column: string,
+    options: { ascending?: boolean; nullsFirst?: boolean } = {},
+  ): this {
+    const ascending = options.ascending ?? true;
+    this.orders.push({
+      column,
+      ascending,
+      nullsFirst: options.nullsFirst ?? !ascending,
+    });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rangeTo = this.rangeFrom + count - 1;
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.rangeFrom = from;
+    this.rangeTo = to;
+    return this;
+  }
+
+  single(): this {
+    this.resultMode = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.resultMode = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = MockResponse, TResult2 = never>(
+    onfulfilled?:
+      ((value: MockResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private mutate(operation: Operation, values: Row | Row[]): this {
+    this.operation = operation;
+    this.payload = values;
+    // Mutations return no rows unless `.select()` is chained
+    this.columns = null;
+    return this;
+  }
+
+  private addFilter(column: string, test: (value: unknown) => boolean): this {
+    const separator = column.lastIndexOf(".");
+    if (separator === -1) {
+      this.filters.push((row) => test(row[column]));
+      return this;
+    }
+
+    // `embedded.column` filters the embedded rows, not the parent rows
+    const path = column.slice(0, separator);
+    const embeddedColumn = column.slice(separator + 1);
+    const filters = this.embedFilters.get(path) || [];
+    filters.push((row) => test(row[embeddedColumn]));
+    this.embedFilters.set(path, filters);
+    return this;
+  }
+
+  private async execute(): Promise<MockResponse> {
+    await Promise.resolve();
+
+    try {
+      const { rows, count } = this.db.transaction(() => this.run());
+      return this.respond(rows, count);
+    } catch (error) {
+      return {
+        data: null,
+        error: toMockError(error),
+        count: null,
+        status: 400,
+        statusText: "Bad Request",
+      };
+    }
+  }
+
+  private run(): { rows: Row[]; count: number | null } {
+    if (this.operation === "select") {
+      return this.runSelect();
+    }
+
+    const affected = this.runMutation();
+    const rows =
+      this.columns === null
+        ? []
+        : affected.map((row) => this.project(this.table, row, this.columns!));
+    return { rows, count: this.countOption ? affected.length : null };
+  }
+
+  private runSelect() {
+    const nodes = parseSelect(this.columns || "*");
+    const innerEmbeds = nodes.filter(
+      (node) => node.children && node.hint === "inner",
+    );
+
+    let rows = this.db
+      .filter(this.table, (row) => this.filters.every((test) => test(row)))
+      .map((row) => ({
+        row,
+        data: this.projectNodes(this.table, row, nodes, ""),
+      }))
+      .filter(({ data }) =>
+        innerEmbeds.every((node) => {
+          const embedded = data[node.alias];
+          return Array.isArray(embedded) ? embedded.length > 0 : !!embedded;
+        }),
+      );
+
+    rows = this.sort(rows);
+    const count = this.countOption ? rows.length : null;
+    const end = this.rangeTo === null ? undefined : this.rangeTo + 1;
+
+    return {
+      rows: rows.slice(this.rangeFrom, end).map(({ data }) => data),
+      count,
+    };
+  }
+
+  private runMutation(): Row[] {
+    const values = Array.isArray(this.payload) ? this.payload : [this.payload];
+    const matches = () =>
+      this.db.filter(this.table, (row) =>
+        this.filters.every((test) => test(row)),
+      );
+
+    switch (this.operation) {
+      case "insert":
+        return values.map((value) => this.db.insert(this.table, value));
+      case "upsert": {
+        const conflictColumns = (this.onConflict || "id").split(",");
+        return values.flatMap((value) => {
+          const existing = this.db.find(this.table, (row) =>
+            conflictColumns.every((column) => row[column] === value[column]),
+          );
+          if (!existing) return [this.db.insert(this.table, value)];
+          if (this.ignoreDuplicates) return [];
+          return [this.db.update(this.table, existing, value)];
+        });
+      }
+      case "update":
+        return matches().map((row) =>
+          this.db.update(this.table, row, this.payload as Row),
+        );
+      case "delete":
+        return matches().map((row) => {
+          this.db.delete(this.table, row);
+          return row;
+        });
+      default:
+        return [];
+    }
+  }
+
+  private sort<T extends { row: Row }>(rows: T[]): T[] {
+    if (this.orders.length === 0) return rows;
+
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of this.orders) {
+        const left = a.row[column];
+        const right = b.row[column];
+        if (left == null || right == null) {
+          if (left == null && right == null) continue;
+          return (left == null) === nullsFirst ? -1 : 1;
+        }
+
+        const result = compareValues(left, right);
+        if (result !== 0) return ascending ? result : -result;
+      }
+      return 0;
+    });
+  }
+
+  private project(table: string, row: Row, columns: string): Row {
+    return this.projectNodes(table, row, parseSelect(columns), "");
+  }
+
+  private projectNodes(
+    table: string,
+    row: Row,
+    nodes: SelectNode[],
+    path: string,
+  ): Row {
+    const result: Row = {};
+
+    nodes.forEach((node) => {
+      if (node.name === "*") {
+        Object.assign(result, structuredClone(row));
+      } else if (node.children) {
+        result[node.alias] = this.embed(table, row, node, path);
+      } else {
+        result[node.alias] = structuredClone(row[node.name] ?? null);
+      }
+    });
+
+    return result;
+  }
+
+  private embed(table: string, row: Row, node: SelectNode, path: string) {
+    const columnHint =
+      node.hint && !JOIN_HINTS.includes(node.hint) ? node.hint : undefined;
+    const embedPath = path ? `${path}.${node.alias}` : node.alias;
+    const filters = this.embedFilters.get(embedPath) || [];
+    const matchesFilters = (child: Row) => filters.every((test) => test(child));
+
+    // Many-to-one: this table holds the foreign key
+    const parentKey = FOREIGN_KEYS.find(
+      (fk) =>
+        fk.table === table &&
+        fk.references === node.name &&
+        (!columnHint || fk.column === columnHint),
+    );
+    if (parentKey) {
+      const parent = this.db.find(
+        node.name,
+        (candidate) => candidate.id === row[parentKey.column],
+      );
+      return parent && matchesFilters(parent)
+        ? this.projectNodes(node.name, parent, node.children!, embedPath)
+        : null;
+    }
+
+    // One-to-many: the embedded table points at this one
+    const childKey = FOREIGN_KEYS.find(
+      (fk) =>
+        fk.table === node.name &&
+        fk.references === table &&
+        (!columnHint || fk.column === columnHint),
+    );
+    if (childKey) {
+      return this.db
+        .filter(
+          node.name,
+          (child) => child[childKey.column] === row.id && matchesFilters(child),
+        )
+        .map((child) =>
+          this.projectNodes(node.name, child, node.children!, embedPath),
+        );
+    }
+
+    throw new MockDatabaseError(
+      `Could not find a relationship between '${table}' and '${node.name}'`,
+      "PGRST200",
+    );
+  }
+
+  private respond(rows: Row[], count: number | null): MockResponse {
+    const ok = (data: unknown): MockResponse => ({
+      data,
+      error: null,
+      count,
+      status: this.operation === "insert" ? 201 : 200,
+      statusText: "OK",
+    });
+
+    if (this.head || this.columns === null) return ok(null);
+    if (this.resultMode === "many") return ok(rows);
+
+    if (rows.length === 1) return ok(rows[0]);
+    if (rows.length === 0 && this.resultMode === "maybeSingle") return ok(null);
+
+    return {
+      data: null,
+      error: {
+        name: "PostgrestError",
+        message: "JSON object requested, multiple (or no) rows returned",
+        code: "PGRST116",
+        details: `The result contains ${rows.length} rows`,
+        hint: "",
+      },
+      count: null,
+      status: 406,
+      statusText: "Not Acceptable",
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import { ChangeEvent, MockDatabase } from "./database";
+
+/**
+ * Realtime channels: `postgres_changes` over the mock tables, plus
+ * `broadcast` and `presence` between channels that share a topic
+ *
+ * Bindings use the same filter syntax as Supabase (`column=eq.value`).
+ * Events of a database function are delivered after it commits, and
+ * callbacks run on a later task, after the request that caused them resolved.
+ *
+ * Broadcast and presence only reach channels of this client, so other
+ * players are only visible when several clients share one backend (tests).
+ */
+
+// `postgres_changes` bindings use every field, broadcast and presence only `event`
+interface BindingFilter {
+  event: string;
+  schema?: string;
+  table?: string;
+  filter?: string;
+}
+
+interface Binding {
+  type: "postgres_changes" | "broadcast" | "presence";
+  filter: BindingFilter;
+  callback: (payload: unknown) => void;
+}
+
+export interface ChannelOptions {
+  config?: {
+    broadcast?: { self?: boolean };
+    presence?: { key?: string };
+  };
+}
+
+type PresenceState = Record<string, Record<string, unknown>[]>;
+
+const matchesFilter = (event: ChangeEvent, filter: BindingFilter) => {
+  if (filter.table && filter.table !== event.table) return false;
+  if (filter.event !== "*" && filter.event !== event.eventType) return false;
+  if (!filter.filter) return true;
+
+  const match = filter.filter.match(/^(\w+)=eq\.(.*)$/);
+  if (!match) return false;
+
+  const [, column, value] = match;
+  const row = event.new || event.old;
+  return row != null && String(row[column]) === value;
+};
+
+let presenceRefs = 0;
+
+export class MockChannel {
+  private bindings: Binding[] = [];
+  private unsubscribeDatabase: (() => void) | null = null;
+  private joined = false;
+  readonly presenceKey: string;
+
+  constructor(
+    public topic: string,
+    private db: MockDatabase,
+    private hub: MockRealtime,
+    private options: ChannelOptions = {},
+  ) {
+    this.presenceKey =
+      options.config?.presence?.key || `presence-${++presenceRefs}`;
+  }
+
+  on(
+    type: string,
+    filter: BindingFilter,
+    callback: (payload: unknown) => void,
+  ): this {
+    if (
+      type === "postgres_changes" ||
+      type === "broadcast" ||
+      type === "presence"
+    ) {
+      this.bindings.push({ type, filter, callback });
+    }
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void): this {
+    if (!this.unsubscribeDatabase) {
+      this.unsubscribeDatabase = this.db.subscribe((event) =>
+        this.dispatch(event),
+      );
+    }
+    this.joined = true;
+    callback?.("SUBSCRIBED");
+    // Like Supabase, a new member receives the current presence state
+    this.hub.deliverPresence(this, "sync", {});
+    return this;
+  }
+
+  async send(message: {
+    type: "broadcast";
+    event: string;
+    payload: unknown;
+  }): Promise<"ok" | "error"> {
+    if (!this.joined) return "error";
+    this.hub.broadcast(this, message.event, message.payload, {
+      self: !!this.options.config?.broadcast?.self,
+    });
+    return "ok";
+  }
+
+  async track(payload: Record<string, unknown>): Promise<"ok" | "error"> {
+    if (!this.joined) return "error";
+    this.hub.track(this, payload);
+    return "ok";
+  }
+
+  async untrack(): Promise<"ok"> {
+    this.hub.untrack(this);
+    return "ok";
+  }
+
+  presenceState(): PresenceState {
+    return this.hub.presenceState(this.topic);
+  }
+
+  async unsubscribe(): Promise<"ok"> {
+    this.unsubscribeDatabase?.();
+    this.unsubscribeDatabase = null;
+    this.hub.untrack(this);
+    this.joined = false;
+    this.hub.remove(this);
+    return "ok";
+  }
+
+  get isJoined() {
+    return this.joined;
+  }
+
+  // Runs the callbacks of one binding type on a later task
+  emit(
+    type: Binding["type"],
+    matches: (filter: BindingFilter) => boolean,
+    payload: unknown,
+  ) {
+    this.bindings
+      .filter((binding) => binding.type === type && matches(binding.filter))
+      .forEach(({ callback }) => setTimeout(() => callback(payload)));
+  }
+
+  private dispatch(event: ChangeEvent) {
+    this.emit("postgres_changes", (filter) => matchesFilter(event, filter), {
+      schema: "public",
+      table: event.table,
+      commit_timestamp: new Date().toISOString(),
+      eventType: event.eventType,
+      new: event.new || {},
+      old: event.old || {},
+      errors: null,
+    });
+  }
+}
+
+export class MockRealtime {
+  private channels = new Set<MockChannel>();
+  // topic -> presence key -> tracked payload
+  private presences = new Map<string, Map<string, Record<string, unknown>>>();
+
+  constructor(private db: MockDatabase) {}
+
+  channel(topic: string, options?: ChannelOptions): MockChannel {
+    const channel = new MockChannel(topic, this.db, this, options);
+    this.channels.add(channel);
+    return channel;
+  }
+
+  getChannels(): MockChannel[] {
+    return Array.from(this.channels);
+  }
+
+  async removeChannel(channel: MockChannel): Promise<"ok"> {
+    return channel.unsubscribe();
+  }
+
+  async removeAllChannels(): Promise<"ok"[]> {
+    return Promise.all(
+      this.getChannels().map((channel) => channel.unsubscribe()),
+    );
+  }
+
+  remove(channel: MockChannel) {
+    this.channels.delete(channel);
+  }
+
+  broadcast(
+    sender: MockChannel,
+    event: string,
+    payload: unknown,
+    { self }: { self: boolean },
+  ) {
+    this.members(sender.topic)
+      .filter((channel) => self || channel !== sender)
+      .forEach((channel) =>
+        channel.emit("broadcast", (filter) => filter.event === event, {
+          type: "broadcast",
+          event,
+          payload,
+        }),
+      );
+  }
+
+  track(channel: MockChannel, payload: Record<string, unknown>) {
+    const topic = this.presences.get(channel.topic) ?? new Map();
+    this.presences.set(channel.topic, topic);
+
+    const presence = { ...payload, presence_ref: `ref-${++presenceRefs}` };
+    const previous = topic.get(channel.presenceKey);
+    topic.set(channel.presenceKey, presence);
+
+    this.notifyPresence(channel.topic, "join", {
+      key: channel.presenceKey,
+      currentPresences: previous ? [previous] : [],
+      newPresences: [presence],
+    });
+  }
+
+  untrack(channel: MockChannel) {
+    const topic = this.presences.get(channel.topic);
+    const presence = topic?.get(channel.presenceKey);
+    if (!topic || !presence) return;
+
+    topic.delete(channel.presenceKey);
+    this.notifyPresence(channel.topic, "leave", {
+      key: channel.presenceKey,
+      currentPresences: [],
+      leftPresences: [presence],
+    });
+  }
+
+  presenceState(topicName: string) {
+    const topic = this.presences.get(topicName);
+    return Object.fromEntries(
+      Array.from(topic?.entries() ?? []).map(([key, presence]) => [
+        key,
+        [presence],
+      ]),
+    );
+  }
+
+  deliverPresence(
+    channel: MockChannel,
+    event: "sync" | "join" | "leave",
+    payload: Record<string, unknown>,
+  ) {
+    channel.emit(
+      "presence",
+      (filter) => filter.event === event,
+      event === "sync" ? undefined : { event, ...payload },
+    );
+  }
+
+  private notifyPresence(
+    topic: string,
+    event: "join" | "leave",
+    payload: Record<string, unknown>,
+  ) {
+    this.members(topic).forEach((channel) => {
+      this.deliverPresence(channel, event, payload);
+      this.deliverPresence(channel, "sync", {});
+    });
+  }
+
+  private members(topic: string) {
+    return this.getChannels().filter(
+      (channel) => channel.topic === topic && channel.isJoined,
+    );
+  }
+}
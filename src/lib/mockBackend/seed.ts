@@ -0,0 +1,648 @@
+import { MockAuth } from "./auth";
+import { MockDatabase, Row, TableRow } from "./database";
+
+/**
+ * Starting data for mock mode
+ *
+ * Mirrors the catalogue the migrations seed (items, collectibles,
+ * achievements, quests, starter shops, redeem codes and the worlds of the
+ * space map) plus the two demo
+ * accounts from the login screen. Balances are given through opening
+ * ledger entries so `verify_currency_balance` agrees with the profiles.
+ */
+
+const DEMO_ACCOUNTS = [
+  {
+    id: "demo-user-123",
+    email: "demo@example.com",
+    password: "demo123",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    profile: {
+      username: "Demo Player",
+      phone: "+1234567890",
+      is_admin: false,
+      account_score: 2500,
+      days_played: 15,
+      xenocoins: 8450,
+      cash: 25,
+    },
+  },
+  {
+    id: "admin-user-456",
+    email: "admin@example.com",
+    password: "admin123",
+    createdAt: "2023-12-01T00:00:00.000Z",
+    profile: {
+      username: "Admin User",
+      phone: "+0987654321",
+      is_admin: true,
+      account_score: 10000,
+      days_played: 50,
+      xenocoins: 25000,
+      cash: 100,
+    },
+  },
+];
+
+const ITEMS: Partial<TableRow<"items">>[] = [
+  {
+    name: "Health Potion",
+    description: "A magical elixir that restores 5 health points instantly",
+    type: "Potion",
+    rarity: "Common",
+    price: 50,
+    effects: { health: 5 },
+    daily_limit: 10,
+  },
+  {
+    name: "Magic Apple",
+    description: "A mystical fruit that restores hunger and provides energy",
+    type: "Food",
+    rarity: "Uncommon",
+    price: 25,
+    effects: { hunger: 3, happiness: 1 },
+  },
+  {
+    name: "Dragon Scale Armor",
+    description: "Legendary armor forged from ancient dragon scales",
+    type: "Equipment",
+    rarity: "Epic",
+    price: 1000,
+    effects: { defense: 10 },
+    slot: "torso",
+  },
+  {
+    name: "Phoenix Feather",
+    description: "A rare collectible feather that glows with inner fire",
+    type: "Collectible",
+    rarity: "Legendary",
+    price: 5000,
+  },
+  {
+    name: "Mystic Sword",
+    description: "A powerful blade imbued with ancient magic",
+    type: "Weapon",
+    rarity: "Rare",
+    price: 750,
+    effects: { attack: 8, strength: 3 },
+    slot: "weapon",
+  },
+  {
+    name: "Happiness Toy",
+    description: "A colorful toy that brings joy to pets",
+    type: "Special",
+    rarity: "Common",
+    price: 30,
+    effects: { happiness: 2 },
+    daily_limit: 5,
+  },
+  {
+    name: "Energy Drink",
+    description: "A refreshing beverage that boosts pet stats temporarily",
+    type: "Potion",
+    rarity: "Uncommon",
+    price: 75,
+    effects: { speed: 2, dexterity: 1 },
+    daily_limit: 3,
+  },
+  {
+    name: "King Egg",
+    description: "An extremely rare egg that transforms pet appearance",
+    type: "Style",
+    rarity: "Unique",
+    price: 10000,
+    currency: "cash",
+  },
+  {
+    name: "Desert Crystal",
+    description: "A rare crystal that enhances magical abilities",
+    type: "Special",
+    rarity: "Rare",
+    price: 200,
+    effects: { intelligence: 3, luck: 1 },
+  },
+  {
+    name: "Iron Armor",
+    description: "Sturdy armor that provides excellent protection",
+    type: "Equipment",
+    rarity: "Rare",
+    price: 500,
+    effects: { defense: 5, health: 2 },
+    slot: "torso",
+  },
+  {
+    name: "Crystal Sword",
+    description: "A magnificent sword forged from mountain crystals",
+    type: "Weapon",
+    rarity: "Epic",
+    price: 1000,
+    effects: { attack: 8, strength: 3 },
+    slot: "weapon",
+  },
+  {
+    name: "Premium Elixir",
+    description: "An exclusive elixir that dramatically boosts all stats",
+    type: "Potion",
+    rarity: "Legendary",
+    price: 5,
+    currency: "cash",
+    effects: {
+      health: 3,
+      happiness: 3,
+      strength: 2,
+      dexterity: 2,
+      intelligence: 2,
+    },
+    daily_limit: 1,
+  },
+];
+
+const COLLECTIBLES: Row[] = [
+  {
+    name: "Starter Stone",
+    type: "stone",
+    rarity: "Common",
+    description: "A simple stone marking the beginning of your journey",
+  },
+  {
+    name: "Forest Leaf",
+    type: "artwork",
+    rarity: "Common",
+    description: "A beautiful leaf from the Mystic Forest",
+  },
+  {
+    name: "Desert Sand",
+    type: "stone",
+    rarity: "Uncommon",
+    description: "Magical sand from the Golden Desert",
+  },
+  {
+    name: "Ovo Alpha",
+    type: "egg",
+    rarity: "Unique",
+    description:
+      "Distribuído através de código para jogadores do alpha, parece ser feito de um material que não existe no plano real, que irônico...",
+  },
+  {
+    name: "Ovo de Dragão",
+    type: "egg",
+    rarity: "Legendary",
+    description: "Um ovo lendário que brilha com fogo interno",
+  },
+  {
+    name: "Ovo de Fênix",
+    type: "egg",
+    rarity: "Epic",
+    description: "Um ovo que irradia calor e luz dourada",
+  },
+  {
+    name: "Ovo de Grifo",
+    type: "egg",
+    rarity: "Rare",
+    description: "Um ovo com padrões de penas e escamas",
+  },
+  {
+    name: "Peixe Dourado",
+    type: "fish",
+    rarity: "Epic",
+    description: "Um peixe lendário dos oceanos profundos que brilha como ouro",
+  },
+  {
+    name: "Peixe de Cristal",
+    type: "fish",
+    rarity: "Rare",
+    description: "Um peixe transparente como cristal",
+  },
+  {
+    name: "Peixe Arco-íris",
+    type: "fish",
+    rarity: "Uncommon",
+    description: "Um peixe com escamas que refletem todas as cores",
+  },
+  {
+    name: "Cristal Estelar",
+    type: "gem",
+    rarity: "Common",
+    description: "Um fragmento de cristal arrancado de um asteroide",
+  },
+  {
+    name: "Rubi Nebular",
+    type: "gem",
+    rarity: "Uncommon",
+    description: "Uma pedra vermelha que guarda o brilho de uma nebulosa",
+  },
+  {
+    name: "Safira do Vazio",
+    type: "gem",
+    rarity: "Rare",
+    description:
+      "Uma safira escura encontrada nas criaturas do espaço profundo",
+  },
+  {
+    name: "Diamante Cósmico",
+    type: "gem",
+    rarity: "Epic",
+    description: "Um diamante raríssimo formado no coração de uma estrela",
+  },
+];
+
+const ACHIEVEMENTS: Partial<TableRow<"achievements">>[] = [
+  {
+    name: "First Steps",
+    description: "Create your first pet",
+    category: "special",
+    requirements: { pets_created: 1 },
+    rewards: { xenocoins: 100 },
+  },
+  {
+    name: "Explorer",
+    description: "Visit 5 different locations",
+    category: "exploration",
+    requirements: { locations_visited: 5 },
+    rewards: { xenocoins: 250 },
+    max_progress: 5,
+  },
+  {
+    name: "Collector",
+    description: "Collect 10 different items",
+    category: "collection",
+    requirements: { unique_items: 10 },
+    rewards: { xenocoins: 500 },
+    max_progress: 10,
+  },
+  {
+    name: "Wealthy",
+    description: "Accumulate 10,000 Xenocoins",
+    category: "special",
+    requirements: { total_xenocoins: 10000 },
+    rewards: { cash: 5 },
+  },
+  {
+    name: "Pet Lover",
+    description: "Reach maximum happiness with a pet",
+    category: "social",
+    requirements: { max_happiness: 1 },
+    rewards: { xenocoins: 300 },
+  },
+  {
+    name: "First Battle Victory",
+    description: "Win your first duel",
+    category: "combat",
+    requirements: { duels_won: 1 },
+    rewards: { xenocoins: 100 },
+  },
+];
+
+const QUESTS: Partial<TableRow<"quests">>[] = [
+  {
+    name: "Welcome to Xenopets",
+    description: "Complete your first pet interaction",
+    type: "exploration",
+    requirements: { pet_interactions: 1 },
+    rewards: { xenocoins: 50 },
+  },
+  {
+    name: "Forest Explorer",
+    description: "Visit the Mystic Forest",
+    type: "exploration",
+    requirements: { locations_visited: 1 },
+    rewards: { xenocoins: 100 },
+  },
+  {
+    name: "First Delivery",
+    description: "Deliver an item to an NPC",
+    type: "delivery",
+    requirements: { items_delivered: 1 },
+    rewards: { xenocoins: 75 },
+  },
+  {
+    name: "Puzzle Master",
+    description: "Complete your first puzzle minigame",
+    type: "minigame",
+    requirements: { puzzles_completed: 1 },
+    rewards: { xenocoins: 125 },
+  },
+  {
+    name: "Ancient Riddle",
+    description: "Solve the riddle of the Elder Tree",
+    type: "riddle",
+    requirements: { riddles_solved: 1 },
+    rewards: { xenocoins: 200 },
+  },
+];
+
+// Shop items name their item and are linked to its id when seeding
+interface ShopSeed {
+  npc: Row;
+  shop: Partial<TableRow<"shops">>;
+  items: (Partial<TableRow<"shop_items">> & { item: string })[];
+}
+
+const SHOPS: ShopSeed[] = [
+  {
+    npc: {
+      name: "Merchant Maya",
+      image_url:
+        "https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=200",
+      personality: "Friendly and helpful",
+    },
+    shop: {
+      name: "Woodland General Store",
+      description:
+        "Your one-stop shop for basic pet care items and everyday necessities",
+      type: "general",
+      npc_dialogue:
+        "Welcome to my shop, traveler! I have the finest items for your pets. What can I help you find today?",
+      open_hour: 6,
+      close_hour: 22,
+      restock_interval_hours: 6,
+    },
+    items: [
+      {
+        item: "Health Potion",
+        price: 50,
+        stock: 25,
+        stock_limit: 50,
+        restock_rate: 5,
+      },
+      {
+        item: "Magic Apple",
+        price: 25,
+        stock: 30,
+        stock_limit: 40,
+        restock_rate: 8,
+        sale_discount: 20,
+      },
+      {
+        item: "Happiness Toy",
+        price: 30,
+        stock: 15,
+        stock_limit: 20,
+        restock_rate: 3,
+      },
+    ],
+  },
+  {
+    npc: {
+      name: "Desert Trader Zara",
+      image_url:
+        "https://images.pexels.com/photos/1181690/pexels-photo-1181690.jpeg?auto=compress&cs=tinysrgb&w=200",
+      personality: "Adventurous and shrewd",
+    },
+    shop: {
+      name: "Oasis Trading Post",
+      description: "Rare items and equipment for the adventurous explorer",
+      type: "equipment",
+      npc_dialogue:
+        "Ah, a fellow traveler! The desert has been kind to me, and I have rare treasures to share. Perhaps something for your companions?",
+      open_hour: 8,
+      close_hour: 20,
+      restock_interval_hours: 12,
+    },
+    items: [
+      {
+        item: "Energy Drink",
+        price: 75,
+        stock: 12,
+        stock_limit: 15,
+        restock_rate: 2,
+      },
+      {
+        item: "Desert Crystal",
+        price: 200,
+        stock: 5,
+        stock_limit: 8,
+        restock_rate: 1,
+        is_limited: true,
+        requirements: [
+          {
+            type: "level",
+            value: 5,
+            description: "Requires pet level 5 or higher",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    npc: {
+      name: "Blacksmith Boris",
+      image_url:
+        "https://images.pexels.com/photos/1040880/pexels-photo-1040880.jpeg?auto=compress&cs=tinysrgb&w=200",
+      personality: "Gruff but proud of his craft",
+    },
+    shop: {
+      name: "Mountain Armory",
+      description: "Premium equipment and weapons for serious trainers",
+      type: "equipment",
+      npc_dialogue:
+        "Welcome to my forge! These mountains provide the finest materials for crafting. Your pets deserve the best protection and weapons!",
+      open_hour: 7,
+      close_hour: 19,
+      restock_interval_hours: 24,
+    },
+    items: [
+      {
+        item: "Iron Armor",
+        price: 500,
+        stock: 3,
+        stock_limit: 5,
+        restock_rate: 1,
+        is_limited: true,
+        requirements: [
+          {
+            type: "level",
+            value: 10,
+            description: "Requires pet level 10 or higher",
+          },
+        ],
+      },
+      {
+        item: "Crystal Sword",
+        price: 1000,
+        stock: 2,
+        stock_limit: 3,
+        restock_rate: 1,
+        is_limited: true,
+        requirements: [
+          {
+            type: "level",
+            value: 15,
+            description: "Requires pet level 15 or higher",
+          },
+          {
+            type: "achievement",
+            value: "First Battle Victory",
+            description: "Must have won at least one battle",
+          },
+        ],
+      },
+      {
+        item: "Premium Elixir",
+        price: 5,
+        currency: "cash",
+        stock: 10,
+        stock_limit: 10,
+        restock_rate: 2,
+      },
+    ],
+  },
+];
+
+const REDEEM_CODES: Partial<TableRow<"redeem_codes">>[] = [
+  {
+    code: "ALPHA2025",
+    name: "Pacote Alpha",
+    description: "Recompensas especiais para jogadores alpha",
+    rewards: {
+      xenocoins: 5000,
+      cash: 50,
+      collectibles: ["Ovo Alpha"],
+      accountPoints: 1000,
+    },
+    max_uses: 100,
+  },
+  {
+    code: "WELCOME",
+    name: "Pacote de Boas-vindas",
+    description: "Recompensas para novos jogadores",
+    rewards: { xenocoins: 1000, cash: 10, accountPoints: 100 },
+    max_uses: -1,
+  },
+];
+
+const planetImage = (asset: string) =>
+  `https://cdn.builder.io/api/v1/image/assets%2Ff94d2a386a444693b9fbdff90d783a66%2F${asset}?format=webp&width=800`;
+
+const WORLDS: Partial<TableRow<"world_positions">>[] = [
+  {
+    id: "planet-0",
+    name: "Estação Galáctica",
+    x: 7750,
+    y: 7250,
+    color: "#ff6b6b",
+    image_url: planetImage("dfdbc589c3f344eea7b33af316e83b41"),
+  },
+  {
+    id: "planet-1",
+    name: "Base Orbital",
+    x: 7966.6,
+    y: 7625,
+    color: "#4ecdc4",
+    image_url: planetImage("d42810aa3d45429d93d8c58c52827326"),
+  },
+  {
+    id: "planet-2",
+    name: "Mundo Alienígena",
+    x: 7750,
+    y: 8000,
+    color: "#45b7d1",
+    image_url: planetImage("dfce7132f868407eb4d7afdf27d09a77"),
+  },
+  {
+    id: "planet-3",
+    name: "Terra Verdejante",
+    x: 7533.4,
+    y: 7625,
+    color: "#96ceb4",
+    image_url: planetImage("8e6b96287f6448089ed602d82e2839bc"),
+  },
+  {
+    id: "planet-4",
+    name: "Reino Gelado",
+    x: 7533.4,
+    y: 7375,
+    color: "#ffeaa7",
+    image_url: planetImage("7a1b7c8172a5446b9a22ffd65d22a6f7"),
+  },
+  {
+    id: "planet-5",
+    name: "Vila Ancestral",
+    x: 7966.6,
+    y: 7375,
+    color: "#dda0dd",
+    image_url: planetImage("76c4f943e6e045938d8e5efb84a2a969"),
+  },
+];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const seedAccounts = (db: MockDatabase, auth: MockAuth) => {
+  DEMO_ACCOUNTS.forEach(({ id, email, password, createdAt, profile }) => {
+    auth.addUser({
+      id,
+      email,
+      password,
+      user_metadata: { username: profile.username, phone: profile.phone },
+      created_at: createdAt,
+    });
+
+    db.insert("profiles", {
+      ...profile,
+      id,
+      total_xenocoins: profile.xenocoins,
+      created_at: createdAt,
+    });
+
+    (["xenocoins", "cash"] as const).forEach((currency) =>
+      db.insert("currency_ledger", {
+        user_id: id,
+        currency,
+        amount: profile[currency],
+        balance_after: profile[currency],
+        reason: "opening_balance",
+        created_at: createdAt,
+      }),
+    );
+  });
+};
+
+const seedCatalogue = (db: MockDatabase) => {
+  const itemIds = new Map<string, string>(
+    ITEMS.map((item) => {
+      const row = db.insert("items", item);
+      return [row.name, row.id];
+    }),
+  );
+
+  COLLECTIBLES.forEach((collectible) => db.insert("collectibles", collectible));
+  ACHIEVEMENTS.forEach((achievement) => db.insert("achievements", achievement));
+  QUESTS.forEach((quest) => db.insert("quests", quest));
+
+  SHOPS.forEach(({ npc, shop: shopValues, items }) => {
+    const shopkeeper = db.insert("npcs", { ...npc, services: ["shop"] });
+    const shop = db.insert("shops", {
+      ...shopValues,
+      npc_id: String(shopkeeper.id),
+    });
+
+    items.forEach(({ item, ...shopItem }) =>
+      db.insert("shop_items", {
+        ...shopItem,
+        shop_id: shop.id,
+        item_id: itemIds.get(item),
+      }),
+    );
+  });
+
+  db.insert("shop_offers", {
+    shop_id: db.find("shops", (shop) => shop.name === "Woodland General Store")!
+      .id,
+    item_id: itemIds.get("Magic Apple"),
+    name: "Weekly Apple Special",
+    description: "Get Magic Apples at 20% off this week!",
+    sale_price: 20,
+    end_date: new Date(Date.now() + WEEK_MS).toISOString(),
+    max_purchases: 100,
+  });
+
+  REDEEM_CODES.forEach((code) => db.insert("redeem_codes", code));
+  WORLDS.forEach((world) => db.insert("world_positions", world));
+};
+
+export const seedMockDatabase = (db: MockDatabase, auth: MockAuth) => {
+  db.transaction(() => {
+    seedAccounts(db, auth);
+    seedCatalogue(db);
+  });
+};
@@ -1,4 +1,4 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { Database } from "../types/database";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -75,155 +75,9 @@ const customFetch = async (url: string, options: RequestInit = {}) => {
   );
 };
 
-// Create a mock supabase client for development
-const createMockClient = () => ({
-  auth: {
-    getSession: () => Promise.resolve({ data: { session: null }, error: null }),
-    getUser: () => Promise.resolve({ data: { user: null }, error: null }),
-    signInWithPassword: () =>
-      Promise.resolve({
-        data: {
-          user: {
-            id: "mock-user-123",
-            email: "demo@example.com",
-            user_metadata: { username: "Demo User" },
-          },
-          session: { access_token: "mock-token" },
-        },
-        error: null,
-      }),
-    signUp: () =>
-      Promise.resolve({
-        data: {
-          user: {
-            id: "mock-user-123",
-            email: "demo@example.com",
-            user_metadata: { username: "Demo User" },
-          },
-          session: { access_token: "mock-token" },
-        },
-        error: null,
-      }),
-    signOut: () => Promise.resolve({ error: null }),
-    resetPasswordForEmail: () => Promise.resolve({ error: null }),
-    onAuthStateChange: () => ({
-      data: { subscription: { unsubscribe: () => {} } },
-    }),
-  },
-  from: (table: string) => {
-    const mockQueryBuilder = {
-      select: (columns?: string) => ({
-        eq: (column: string, value: any) => ({
-          order: (column: string, options?: any) => ({
-            limit: (count: number) =>
-              Promise.resolve({
-                data:
-                  table === "profiles"
-                    ? [
-                        {
-                          id: "mock-user-123",
-                          xenocoins: 0,
-                          cash: 0,
-                          username: "Demo User",
-                          account_score: 0,
-                          created_at: new Date().toISOString(),
-                          last_login: new Date().toISOString(),
-                          is_admin: false,
-                          days_played: 1,
-                          total_xenocoins: 0,
-                        },
-                      ]
-                    : [],
-                error: null,
-              }),
-            then: (callback: any) =>
-              callback({
-                data: table === "profiles" ? [] : [],
-                error: null,
-              }),
-          }),
-          single: () =>
-            Promise.resolve({
-              data:
-                table === "profiles"
-                  ? {
-                      id: "mock-user-123",
-                      xenocoins: 0,
-                      cash: 0,
-                      username: "Demo User",
-                    }
-                  : null,
-              error: null,
-            }),
-          limit: (count: number) => Promise.resolve({ data: [], error: null }),
-          then: (callback: any) => callback({ data: [], error: null }),
-        }),
-        order: (column: string, options?: any) => ({
-          eq: (column: string, value: any) => ({
-            limit: (count: number) =>
-              Promise.resolve({ data: [], error: null }),
-            then: (callback: any) => callback({ data: [], error: null }),
-          }),
-          limit: (count: number) => Promise.resolve({ data: [], error: null }),
-          then: (callback: any) => callback({ data: [], error: null }),
-        }),
-        single: () =>
-          Promise.resolve({
-            data:
-              table === "profiles"
-                ? {
-                    id: "mock-user-123",
-                    xenocoins: 0,
-                    cash: 0,
-                    username: "Demo User",
-                  }
-                : null,
-            error: null,
-          }),
-        limit: (count: number) => Promise.resolve({ data: [], error: null }),
-        then: (callback: any) =>
-          callback({
-            data: [],
-            error: null,
-          }),
-      }),
-      insert: (data: any) => ({
-        select: (columns?: string) => ({
-          single: () =>
-            Promise.resolve({ data: { id: "mock-id", ...data }, error: null }),
-        }),
-      }),
-      update: (data: any) => ({
-        eq: (column: string, value: any) => {
-          console.log(`Mock update on ${table}:`, data);
-          return Promise.resolve({ data: null, error: null });
-        },
-      }),
-      delete: () => ({
-        eq: (column: string, value: any) =>
-          Promise.resolve({ data: null, error: null }),
-      }),
-      upsert: (data: any) => ({
-        select: (columns?: string) => ({
-          single: () =>
-            Promise.resolve({ data: { id: "mock-id", ...data }, error: null }),
-        }),
-      }),
-    };
-    return mockQueryBuilder;
-  },
-  rpc: (functionName: string, params?: any) => {
-    console.log(`Mock RPC call: ${functionName}`, params);
-    return Promise.resolve({ data: true, error: null });
-  },
-  channel: () => ({
-    on: () => ({ subscribe: () => Promise.resolve() }),
-    unsubscribe: () => Promise.resolve(),
-  }),
-});
-
-export const supabase = isMockMode
-  ? (createMockClient() as any)
+// The mock backend is only loaded, and bundled into its own chunk, in mock mode
+export const supabase: SupabaseClient<Database> = isMockMode
+  ? (await import("./mockBackend")).createMockClient()
   : createClient<Database>(finalUrl, finalKey, {
       auth: {
         autoRefreshToken: true,
@@ -298,7 +152,6 @@ export const validateGameAction = async (action: string, data: any) => {
   const maxValues = {
     xenocoins_gain: 10000,
     cash_gain: 100,
-    pet_stat_change: 10, // Increased from 5 to 10 to accommodate items like Premium Elixir
     item_quantity: 100,
   };
 
@@ -308,13 +161,6 @@ export const validateGameAction = async (action: string, data: any) => {
         throw new Error("Invalid currency gain amount");
       }
       break;
-    case "pet_stat_update":
-      for (const [stat, value] of Object.entries(data.stats)) {
-        if (Math.abs(value as number) > maxValues.pet_stat_change) {
-          throw new Error(`Invalid stat change for ${stat}`);
-        }
-      }
-      break;
     case "item_add":
       if (data.quantity > maxValues.item_quantity) {
         throw new Error("Invalid item quantity");
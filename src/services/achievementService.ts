@@ -0,0 +1,79 @@
+import { supabase } from "../lib/supabase";
+import { Achievement } from "../types/game";
+import { isAchievementComplete } from "../utils/achievementEngine";
+import { gameService } from "./gameService";
+
+export class AchievementService {
+  private static instance: AchievementService;
+
+  public static getInstance(): AchievementService {
+    if (!AchievementService.instance) {
+      AchievementService.instance = new AchievementService();
+    }
+    return AchievementService.instance;
+  }
+
+  /**
+   * Recomputes the achievements that read the player's state (balance,
+   * distinct items, happiest pet) instead of counting events.
+   */
+  async refreshGauges(userId: string): Promise<void> {
+    const { error } = await supabase.rpc("refresh_achievement_gauges", {
+      p_user_id: userId,
+    });
+
+    if (error) console.error("Error refreshing achievement gauges:", error);
+  }
+
+  /**
+   * Reloads the progress the server recorded for the user's latest game
+   * events, then unlocks whatever reached its threshold.
+   *
+   * @returns the achievements unlocked by this call
+   */
+  async syncProgress(userId: string): Promise<Achievement[]> {
+    try {
+      await this.refreshGauges(userId);
+      const achievements = await gameService.getUserAchievements(userId);
+
+      return this.claimCompleted(userId, achievements);
+    } catch (error) {
+      console.error("Error syncing achievements:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Unlocks achievements whose progress already reached `maxProgress`.
+   */
+  async claimCompleted(
+    userId: string,
+    achievements: Achievement[],
+  ): Promise<Achievement[]> {
+    const unlocked: Achievement[] = [];
+
+    for (const achievement of achievements) {
+      if (!isAchievementComplete(achievement)) continue;
+
+      const { error } = await supabase.rpc("unlock_achievement", {
+        p_user_id: userId,
+        p_achievement_id: achievement.id,
+      });
+
+      if (error) {
+        console.error("Error unlocking achievement:", error);
+        continue;
+      }
+
+      unlocked.push({
+        ...achievement,
+        isUnlocked: true,
+        unlockedAt: new Date(),
+      });
+    }
+
+    return unlocked;
+  }
+}
+
+export const achievementService = AchievementService.getInstance();
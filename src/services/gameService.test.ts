@@ -0,0 +1,444 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  giveItem,
+  signInAs,
+  signInAsAdmin,
+  signUpPlayer,
+  startTestGame,
+  TestGame,
+} from "../test/backend";
+import { buildPet, insertItem, insertPet, TEST_NOW } from "../test/fixtures";
+import {
+  getEntityId,
+  getRegionContents,
+  getRegionCycle,
+  LootDrop,
+  REGION_COUNT,
+  REGION_RESPAWN_MS,
+} from "../utils/spaceEncounters";
+
+let game: TestGame;
+
+beforeEach(async () => {
+  game = await startTestGame();
+});
+
+describe("currency", () => {
+  it("keeps the balance and the ledger in step", async () => {
+    const player = await signUpPlayer(game, { xenocoins: 500 });
+
+    await signInAsAdmin(game);
+    await game.gameService.adminAdjustCurrency(player.id, "xenocoins", -120);
+    await game.gameService.adminAdjustCurrency(player.id, "cash", 7);
+
+    expect(await game.gameService.getUserCurrency(player.id)).toEqual({
+      xenocoins: 380,
+      cash: 7,
+    });
+
+    const { entries, total } = await game.gameService.getCurrencyLedger(
+      player.id,
+    );
+    expect(total).toBe(3);
+    const amounts = entries.map((entry) => entry.amount);
+    expect(amounts.sort((a, b) => a - b)).toEqual([-120, 7, 500]);
+
+    const check = await game.gameService.verifyCurrencyBalance(player.id);
+    expect(check?.consistent).toBe(true);
+  });
+
+  it("refuses to take the balance below zero", async () => {
+    const player = await signUpPlayer(game, { xenocoins: 50 });
+
+    await signInAsAdmin(game);
+    const result = await game.gameService.adminAdjustCurrency(
+      player.id,
+      "xenocoins",
+      -80,
+    );
+
+    expect(result).toEqual({
+      success: false,
+      message: "Saldo insuficiente para o débito",
+    });
+    expect(await game.gameService.getUserCurrency(player.id)).toEqual({
+      xenocoins: 50,
+      cash: 0,
+    });
+  });
+
+  it("does not let players change their own balance", async () => {
+    const player = await signUpPlayer(game, { xenocoins: 50 });
+
+    const { error } = await game.supabase.rpc("update_user_currency", {
+      user_id: player.id,
+      currency_type: "xenocoins",
+      amount: 1000,
+      reason: "gift",
+    });
+
+    expect(error).not.toBeNull();
+    expect(await game.gameService.getUserCurrency(player.id)).toEqual({
+      xenocoins: 50,
+      cash: 0,
+    });
+  });
+});
+
+describe("inventory", () => {
+  it("stacks repeated items and removes empty stacks", async () => {
+    const player = await signUpPlayer(game);
+    const item = await insertItem(game.supabase);
+
+    const first = await giveItem(game, player, item.id);
+    const second = await giveItem(game, player, item.id, 2);
+
+    expect(second).toEqual({ id: first.id, itemId: item.id, quantity: 3 });
+
+    await game.gameService.removeItemFromInventory(player.id, first.id, 3);
+    expect(await game.gameService.getUserInventory(player.id)).toEqual([]);
+  });
+
+  it("does not let players add items to their own inventory", async () => {
+    const player = await signUpPlayer(game);
+    const item = await insertItem(game.supabase);
+
+    expect(
+      await game.gameService.addItemToInventory(player.id, item.id),
+    ).toBeNull();
+    expect(await game.gameService.getUserInventory(player.id)).toEqual([]);
+  });
+});
+
+describe("trades", () => {
+  it("escrows the offer and swaps it once both sides confirm", async () => {
+    const seller = await signUpPlayer(game);
+    const buyer = await signUpPlayer(game, { xenocoins: 300 });
+    const item = await insertItem(game.supabase);
+    const stack = await giveItem(game, seller, item.id);
+
+    await signInAs(game, seller);
+    const { tradeId } = await game.gameService.createTrade(
+      seller.id,
+      buyer.id,
+      {
+        initiatorItems: [{ inventoryId: stack.id, quantity: 1 }],
+        recipientItems: [],
+        initiatorXenocoins: 0,
+        recipientXenocoins: 200,
+      },
+    );
+
+    await signInAs(game, buyer);
+    const accepted = await game.gameService.confirmTrade(tradeId!, buyer.id);
+    expect(accepted.status).toBe("accepted");
+
+    await signInAs(game, seller);
+    const completed = await game.gameService.confirmTrade(tradeId!, seller.id);
+    expect(completed.status).toBe("completed");
+
+    const buyerInventory = await game.gameService.getUserInventory(buyer.id);
+    expect(buyerInventory.map((entry) => entry.id)).toEqual([item.id]);
+    expect(await game.gameService.getUserInventory(seller.id)).toEqual([]);
+    expect(await game.gameService.getUserCurrency(seller.id)).toEqual({
+      xenocoins: 200,
+      cash: 0,
+    });
+    expect(await game.gameService.getUserCurrency(buyer.id)).toEqual({
+      xenocoins: 100,
+      cash: 0,
+    });
+  });
+});
+
+describe("pet care", () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const hoursLater = (hours: number) =>
+    vi.setSystemTime(TEST_NOW.getTime() + hours * HOUR_MS);
+
+  const storedPet = async (petId: string) => {
+    const { data } = await game.supabase
+      .from("pets")
+      .select("hunger, care_updated_at, is_alive, pet_conditions (type)")
+      .eq("id", petId)
+      .single();
+    return data;
+  };
+
+  it("keeps the exact decay between reads", async () => {
+    const player = await signUpPlayer(game);
+    // Dragons get hungry 1.25 times as fast: 0.3125 per hour
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id, species: "Dragon", hunger: 8 }),
+    );
+
+    hoursLater(3.5);
+    expect((await game.gameService.getPetById(pet.id))?.hunger).toBe(8);
+    hoursLater(4);
+    expect((await game.gameService.getPetById(pet.id))?.hunger).toBe(7);
+
+    expect(await storedPet(pet.id)).toMatchObject({
+      hunger: 6.75,
+      care_updated_at: new Date(TEST_NOW.getTime() + 4 * HOUR_MS).toISOString(),
+    });
+  });
+
+  it("stores a sickness once however often the pet is read", async () => {
+    const player = await signUpPlayer(game);
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id, health: 2, hunger: 8 }),
+    );
+
+    for (const hours of [13, 13.5, 20]) {
+      hoursLater(hours);
+      await game.gameService.getUserPets(player.id);
+    }
+
+    const { pet_conditions } = (await storedPet(pet.id))!;
+    expect(pet_conditions).toEqual([{ type: "sick" }]);
+  });
+
+  it("lets a starving pet die", async () => {
+    const player = await signUpPlayer(game);
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id, health: 1, hunger: 0, happiness: 0 }),
+    );
+
+    hoursLater(24 * 4);
+    const [deadPet] = await game.gameService.getUserPets(player.id);
+
+    expect(deadPet).toMatchObject({ id: pet.id, isAlive: false, health: 0 });
+    expect(deadPet.deathDate).toBeInstanceOf(Date);
+  });
+});
+
+describe("duels", () => {
+  const setUpDuel = async (wager: number, opponentXenocoins = 100) => {
+    const challenger = await signUpPlayer(game, { xenocoins: 100 });
+    const opponent = await signUpPlayer(game, {
+      xenocoins: opponentXenocoins,
+    });
+    const challengerPet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: challenger.id, attack: 8, speed: 3 }),
+    );
+    const opponentPet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: opponent.id, name: "Rival" }),
+    );
+
+    await signInAs(game, challenger);
+    const { duel } = await game.gameService.challengeToDuel(
+      challenger.id,
+      opponent.id,
+      challengerPet.id,
+      wager,
+    );
+
+    return { challenger, opponent, challengerPet, opponentPet, duel: duel! };
+  };
+
+  it("escrows both stakes and pays the winner the duel resolved on the server", async () => {
+    const { challenger, opponent, opponentPet, duel } = await setUpDuel(40);
+
+    expect(await game.gameService.getUserCurrency(challenger.id)).toEqual({
+      xenocoins: 60,
+      cash: 0,
+    });
+
+    await signInAs(game, opponent);
+    const notifications = await game.gameService.getUserNotifications(
+      opponent.id,
+    );
+    expect(notifications.map((notification) => notification.title)).toContain(
+      "Novo desafio de duelo!",
+    );
+
+    const result = await game.gameService.respondToDuel(
+      duel.id,
+      opponent.id,
+      true,
+      opponentPet.id,
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.duel?.status).toBe("completed");
+    expect(result.duel?.battleLog.length).toBeGreaterThan(0);
+    expect(result.duel?.winnerId).toBe(challenger.id);
+    expect(await game.gameService.getUserCurrency(challenger.id)).toEqual({
+      xenocoins: 140,
+      cash: 0,
+    });
+    expect(await game.gameService.getUserCurrency(opponent.id)).toEqual({
+      xenocoins: 60,
+      cash: 0,
+    });
+  });
+
+  it("refunds the challenger when the duel is declined", async () => {
+    const { challenger, opponent, duel } = await setUpDuel(40);
+
+    await signInAs(game, opponent);
+    const result = await game.gameService.respondToDuel(
+      duel.id,
+      opponent.id,
+      false,
+    );
+
+    expect(result.message).toBe("Duelo recusado");
+    expect((await game.gameService.getDuelById(duel.id))?.status).toBe(
+      "rejected",
+    );
+    expect(await game.gameService.getUserCurrency(challenger.id)).toEqual({
+      xenocoins: 100,
+      cash: 0,
+    });
+  });
+
+  it("keeps the duel pending when the opponent cannot cover the wager", async () => {
+    const { opponent, opponentPet, duel } = await setUpDuel(40, 10);
+
+    await signInAs(game, opponent);
+    const result = await game.gameService.respondToDuel(
+      duel.id,
+      opponent.id,
+      true,
+      opponentPet.id,
+    );
+
+    expect(result).toEqual({
+      success: false,
+      message: "Xenocoins insuficientes para esta aposta",
+    });
+    expect((await game.gameService.getDuelById(duel.id))?.status).toBe(
+      "pending",
+    );
+  });
+});
+
+describe("space kills", () => {
+  const entityId = (region: number, index: number, at = Date.now()) =>
+    getEntityId(region, getRegionCycle(region, at), index);
+
+  // The first entity of the current cycles that drops matching loot
+  const findEntity = (matches: (loot: LootDrop | null) => boolean) => {
+    for (let region = 0; region < REGION_COUNT; region++) {
+      const cycle = getRegionCycle(region, Date.now());
+      const contents = getRegionContents(region, cycle);
+      const index = contents.findIndex(({ loot }) => matches(loot));
+      if (index >= 0) {
+        const id = getEntityId(region, cycle, index);
+        return { id, region, cycle, loot: contents[index].loot };
+      }
+    }
+    throw new Error("No entity drops matching loot");
+  };
+
+  it("grants an entity's own loot once per respawn cycle", async () => {
+    const player = await signUpPlayer(game);
+    const { id, loot } = findEntity((drop) => drop?.type === "item");
+
+    expect(await game.gameService.recordSpaceKill(player.id, id)).toEqual(loot);
+    expect(await game.gameService.recordSpaceKill(player.id, id)).toBeNull();
+
+    const inventory = await game.gameService.getUserInventory(player.id);
+    expect(inventory).toHaveLength(1);
+    expect(inventory[0]).toMatchObject({ name: loot?.name, quantity: 1 });
+    expect(await game.gameService.getRecentSpaceKills(player.id)).toEqual([id]);
+  });
+
+  it("rejects entities a region doesn't hold and regions that respawned", async () => {
+    const player = await signUpPlayer(game);
+    const { region, cycle } = findEntity((drop) => drop?.type === "gem");
+    const earlier = Date.now() - 2 * REGION_RESPAWN_MS;
+
+    expect(
+      await game.gameService.recordSpaceKill(
+        player.id,
+        getEntityId(region, cycle, getRegionContents(region, cycle).length),
+      ),
+    ).toBeNull();
+    expect(
+      await game.gameService.recordSpaceKill(
+        player.id,
+        entityId(region, 0, earlier),
+      ),
+    ).toBeNull();
+
+    expect(await game.gameService.getUserInventory(player.id)).toEqual([]);
+    expect(
+      await game.gameService.getUserCollectedCollectibles(player.id),
+    ).toEqual([]);
+  });
+});
+
+describe("world layout", () => {
+  const getWorld = async (id: string) => {
+    const { data } = await game.supabase
+      .from("world_positions")
+      .select("*")
+      .eq("id", id)
+      .single();
+    return data;
+  };
+
+  it("saves a batch of edits as a new version and rolls it back", async () => {
+    await signInAsAdmin(game);
+    const original = await getWorld("planet-0");
+
+    const saved = await game.gameService.saveWorldLayout(
+      [
+        { id: "planet-0", x: 100, y: 200, size: 80, rotation: 1 },
+        { id: "planet-1", x: 300, y: 400, size: 60, rotation: 0 },
+      ],
+      "Move the station",
+    );
+    expect(saved).toMatchObject({ success: true, version: 2 });
+    expect(await getWorld("planet-0")).toMatchObject({ x: 100, size: 80 });
+
+    const versions = await game.gameService.getWorldLayoutVersions();
+    expect(versions.map((version) => version.note)).toEqual([
+      "Move the station",
+      "Initial layout",
+    ]);
+
+    const rolledBack = await game.gameService.rollbackWorldLayout(1);
+    expect(rolledBack).toMatchObject({ success: true, version: 3 });
+    expect(await getWorld("planet-0")).toMatchObject({
+      x: original.x,
+      y: original.y,
+      size: original.size,
+    });
+    expect(rolledBack.layout).toContainEqual(
+      expect.objectContaining({ id: "planet-0", x: original.x }),
+    );
+  });
+
+  it("saves nothing when one of the worlds doesn't exist", async () => {
+    await signInAsAdmin(game);
+    const original = await getWorld("planet-0");
+
+    const saved = await game.gameService.saveWorldLayout([
+      { id: "planet-0", x: 100, y: 200, size: 80, rotation: 1 },
+      { id: "missing", x: 0, y: 0, size: 60, rotation: 0 },
+    ]);
+
+    expect(saved.success).toBe(false);
+    expect(await getWorld("planet-0")).toMatchObject({ x: original.x });
+    expect(await game.gameService.getWorldLayoutVersions()).toEqual([]);
+  });
+
+  it("only lets admins edit the layout", async () => {
+    await signUpPlayer(game);
+
+    const saved = await game.gameService.saveWorldLayout([
+      { id: "planet-0", x: 100, y: 200, size: 80, rotation: 1 },
+    ]);
+
+    expect(saved).toEqual({ success: false, message: "Acesso negado" });
+  });
+});
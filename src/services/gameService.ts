@@ -11,7 +11,90 @@ import {
   Achievement,
   Collectible,
   WorldPosition,
+  WorldLayout,
+  WorldLayoutVersion,
+  PetCondition,
+  Duel,
+  Trade,
+  TradeItem,
+  CurrencyLedgerEntry,
+  CurrencyBalanceCheck,
+  CheckinStatus,
+  CheckinResult,
+  RedeemCode,
+  RedeemCodeResult,
+  RedeemCampaign,
+  RedeemCampaignCode,
+  Equipment,
+  Weapon,
 } from "../types/game";
+import { Database, Json } from "../types/database";
+import { getErrorMessage } from "../utils/errorHandler";
+import { toCareDisplayValue } from "../utils/petDecay";
+import { getWeaponFromItem } from "../utils/petStats";
+import {
+  getEntityId,
+  LootDrop,
+  REGION_RESPAWN_MS,
+} from "../utils/spaceEncounters";
+
+// Redeem codes are sent and fetched in batches of this size
+const REDEEM_CODE_PAGE_SIZE = 1000;
+
+// Landing area of saved worlds; it is not stored with the layout
+const DEFAULT_INTERACTION_RADIUS = 90;
+
+type Tables = Database["public"]["Tables"];
+type TableRow<T extends keyof Tables> = Tables[T]["Row"];
+
+type EquippedItemRow = TableRow<"inventory"> & {
+  items: TableRow<"items"> | null;
+};
+
+// A pet read with PET_SELECT
+type PetRow = TableRow<"pets"> & {
+  pet_conditions?: TableRow<"pet_conditions">[];
+  equipped_items?: EquippedItemRow[];
+};
+
+// The entries of `trades.initiator_items` and `trades.recipient_items`
+interface TradeItemRow {
+  inventory_id: string;
+  item_id: string;
+  quantity: number;
+}
+
+type RedeemCodeRow = TableRow<"redeem_codes"> & {
+  redeem_code_redemptions?: Pick<
+    TableRow<"redeem_code_redemptions">,
+    "user_id"
+  >[];
+};
+
+type CampaignCodeRow = Pick<
+  TableRow<"redeem_codes">,
+  "id" | "code" | "is_active" | "expires_at" | "revoked_at"
+> & {
+  redeem_code_redemptions?: (Pick<
+    TableRow<"redeem_code_redemptions">,
+    "user_id" | "created_at"
+  > & { profiles: { username: string } | null })[];
+};
+
+// `get_redeem_campaigns` returns campaigns already in camelCase
+type RedeemCampaignJson = Omit<RedeemCampaign, "expiresAt" | "createdAt"> & {
+  expiresAt?: string | null;
+  createdAt: string;
+};
+
+const getErrorCode = (error: unknown) =>
+  typeof error === "object" && error !== null && "code" in error
+    ? error.code
+    : undefined;
+
+// Pets are loaded with their conditions and the inventory rows they have equipped
+const PET_SELECT =
+  "*, pet_conditions (*), equipped_items:inventory!equipped_pet_id (*, items (*))";
 
 export class GameService {
   private static instance: GameService;
@@ -183,72 +266,71 @@ export class GameService {
   // Pet operations
   async getUserPets(userId: string): Promise<Pet[]> {
     try {
+      // Bring care stats, conditions and deaths up to the current hour
+      const { error: refreshError } = await supabase.rpc(
+        "refresh_user_pets_care",
+        { p_user_id: userId },
+      );
+      if (refreshError) throw refreshError;
+
       const { data, error } = await supabase
         .from("pets")
-        .select("*")
+        .select(PET_SELECT)
         .eq("owner_id", userId)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
 
-      return data.map(this.mapDatabasePetToPet);
+      return data.map((dbPet: PetRow) => this.mapDatabasePetToPet(dbPet));
     } catch (error) {
       console.error("Error fetching pets:", error);
       return [];
     }
   }
 
-  async removeItemFromInventory(
-    userId: string,
-    itemId: string,
-    quantityToRemove = 1,
-  ): Promise<boolean> {
+  async getPetById(petId: string): Promise<Pet | null> {
     try {
-      await validateGameAction("item_remove", { quantity: quantityToRemove });
+      const { error: refreshError } = await supabase.rpc("refresh_pet_care", {
+        p_pet_id: petId,
+      });
+      if (refreshError) throw refreshError;
 
-      // Find the unequipped item stack in the inventory
-      const { data: existingItem, error: fetchError } = await supabase
-        .from("inventory")
-        .select("id, quantity")
-        .eq("user_id", userId)
-        .eq("id", itemId)
-        .is("equipped_pet_id", null)
+      const { data, error } = await supabase
+        .from("pets")
+        .select(PET_SELECT)
+        .eq("id", petId)
         .single();
 
-      if (fetchError && fetchError.code !== "PGRST116") {
-        console.error("Error fetching item from inventory:", fetchError);
-        throw fetchError;
-      }
-
-      if (!existingItem) {
-        console.warn(
-          `Inventory entry ${itemId} not found in user ${userId}'s unequipped inventory to remove.`,
-        );
-        return false;
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw error;
       }
 
-      const newQuantity = existingItem.quantity - quantityToRemove;
+      return this.mapDatabasePetToPet(data);
+    } catch (error) {
+      console.error("Error fetching pet:", error);
+      return null;
+    }
+  }
 
-      if (newQuantity > 0) {
-        // Update quantity
-        const { error: updateError } = await supabase
-          .from("inventory")
-          .update({
-            quantity: newQuantity,
-            last_used: new Date().toISOString(),
-          })
-          .eq("id", existingItem.id);
+  async removeItemFromInventory(
+    userId: string,
+    itemId: string,
+    quantityToRemove = 1,
+  ): Promise<boolean> {
+    try {
+      await validateGameAction("item_remove", { quantity: quantityToRemove });
 
-        if (updateError) throw updateError;
-      } else {
-        // Remove item entry
-        const { error: deleteError } = await supabase
-          .from("inventory")
-          .delete()
-          .eq("id", existingItem.id);
+      // The database refuses equipped stacks and stacks held in a trade
+      const { error } = await supabase.rpc("discard_inventory_item", {
+        p_user_id: userId,
+        p_inventory_id: itemId,
+        p_quantity: quantityToRemove,
+      });
 
-        if (deleteError) throw deleteError;
-      }
+      if (error) throw error;
 
       return true;
     } catch (error) {
@@ -306,128 +388,452 @@ export class GameService {
     }
   }
 
-  async updatePetStats(petId: string, stats: Partial<Pet>): Promise<boolean> {
+  /**
+   * Uses an item from the player's inventory on one of their pets. The
+   * database applies the effects on top of the pet's current care stats and
+   * consumes one item from the stack.
+   */
+  async applyItemToPet(
+    userId: string,
+    petId: string,
+    inventoryId: string,
+  ): Promise<boolean> {
     try {
-      await validateGameAction("pet_stat_update", { stats });
+      const { error } = await supabase.rpc("use_pet_item", {
+        p_user_id: userId,
+        p_pet_id: petId,
+        p_inventory_id: inventoryId,
+      });
 
-      const updateData: any = {};
+      if (error) throw error;
 
-      // Map Pet interface to database columns
-      if (stats.happiness !== undefined)
-        updateData.happiness = Math.max(0, Math.min(10, stats.happiness));
-      if (stats.health !== undefined)
-        updateData.health = Math.max(0, Math.min(10, stats.health));
-      if (stats.hunger !== undefined)
-        updateData.hunger = Math.max(0, Math.min(10, stats.hunger));
-      if (stats.strength !== undefined)
-        updateData.strength = Math.max(0, stats.strength);
-      if (stats.dexterity !== undefined)
-        updateData.dexterity = Math.max(0, stats.dexterity);
-      if (stats.intelligence !== undefined)
-        updateData.intelligence = Math.max(0, stats.intelligence);
-      if (stats.speed !== undefined)
-        updateData.speed = Math.max(0, stats.speed);
-      if (stats.attack !== undefined)
-        updateData.attack = Math.max(0, stats.attack);
-      if (stats.defense !== undefined)
-        updateData.defense = Math.max(0, stats.defense);
-      if (stats.precision !== undefined)
-        updateData.precision = Math.max(0, stats.precision);
-      if (stats.evasion !== undefined)
-        updateData.evasion = Math.max(0, stats.evasion);
-      if (stats.luck !== undefined) updateData.luck = Math.max(0, stats.luck);
-      if (stats.lastInteraction)
-        updateData.last_interaction = stats.lastInteraction.toISOString();
-
-      updateData.updated_at = new Date().toISOString();
+      return true;
+    } catch (error) {
+      console.error("Error using item on pet:", error);
+      return false;
+    }
+  }
 
-      const { error } = await supabase
-        .from("pets")
-        .update(updateData)
-        .eq("id", petId);
+  // Currency operations
+  async getUserCurrency(
+    userId: string,
+  ): Promise<{ xenocoins: number; cash: number } | null> {
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("xenocoins, cash")
+        .eq("id", userId)
+        .single();
 
       if (error) throw error;
 
-      // Recalculate level if stats changed
-      if (
-        Object.keys(updateData).some((key) =>
-          [
-            "strength",
-            "dexterity",
-            "intelligence",
-            "speed",
-            "attack",
-            "defense",
-            "precision",
-            "evasion",
-            "luck",
-          ].includes(key),
-        )
-      ) {
-        await supabase.rpc("calculate_pet_level", { pet_id: petId });
+      if (!data) {
+        console.warn(`No currency data found for user ${userId}`);
+        return { xenocoins: 0, cash: 0 };
       }
 
-      return true;
+      return {
+        xenocoins: data.xenocoins || 0,
+        cash: data.cash || 0,
+      };
     } catch (error) {
-      console.error("Error updating pet stats:", error);
-      return false;
+      console.error("Error fetching currency:", error);
+      return null;
     }
   }
 
-  // Currency operations with enhanced validation
-  async updateUserCurrency(
+  // Currency ledger operations
+  async getCurrencyLedger(
+    userId: string,
+    page = 0,
+    pageSize = 20,
+  ): Promise<{ entries: CurrencyLedgerEntry[]; total: number }> {
+    try {
+      const from = page * pageSize;
+      const { data, error, count } = await supabase
+        .from("currency_ledger")
+        .select("*", { count: "exact" })
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+
+      return {
+        entries: (data || []).map((entry: TableRow<"currency_ledger">) =>
+          this.mapDatabaseLedgerEntryToEntry(entry),
+        ),
+        total: count || 0,
+      };
+    } catch (error) {
+      console.error("Error fetching currency ledger:", error);
+      return { entries: [], total: 0 };
+    }
+  }
+
+  async verifyCurrencyBalance(
+    userId: string,
+  ): Promise<CurrencyBalanceCheck | null> {
+    try {
+      const { data, error } = await supabase.rpc("verify_currency_balance", {
+        p_user_id: userId,
+      });
+
+      if (error) throw error;
+
+      return data as CurrencyBalanceCheck;
+    } catch (error) {
+      console.error("Error verifying currency balance:", error);
+      return null;
+    }
+  }
+
+  async adminAdjustCurrency(
     userId: string,
     currencyType: "xenocoins" | "cash",
     amount: number,
-    reason = "game_action",
-  ): Promise<boolean> {
+  ): Promise<{ success: boolean; message: string }> {
     try {
-      await validateGameAction("currency_gain", { amount: Math.abs(amount) });
+      const { error } = await supabase.rpc("admin_adjust_currency", {
+        p_user_id: userId,
+        p_currency_type: currencyType,
+        p_amount: amount,
+      });
 
-      const { data, error } = await supabase.rpc("update_user_currency", {
-        user_id: userId,
-        currency_type: currencyType,
-        amount: amount,
-        reason: reason,
+      if (error) throw error;
+
+      return { success: true, message: "Saldo ajustado com sucesso" };
+    } catch (error) {
+      console.error("Error adjusting currency:", error);
+      const message = getErrorMessage(error);
+      if (message.includes("Insufficient funds")) {
+        return { success: false, message: "Saldo insuficiente para o débito" };
+      }
+      if (message.includes("Access denied")) {
+        return { success: false, message: "Acesso negado" };
+      }
+      return { success: false, message: "Erro ao ajustar o saldo" };
+    }
+  }
+
+  // Daily check-in operations
+  async getCheckinStatus(userId: string): Promise<CheckinStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc("get_checkin_status", {
+        p_user_id: userId,
       });
 
       if (error) throw error;
 
-      return data;
+      return data as CheckinStatus;
     } catch (error) {
-      console.error("Error updating currency:", error);
-      return false;
+      console.error("Error fetching check-in status:", error);
+      return null;
     }
   }
 
-  async getUserCurrency(
+  async dailyCheckin(
     userId: string,
-  ): Promise<{ xenocoins: number; cash: number } | null> {
+  ): Promise<{ success: boolean; message: string; result?: CheckinResult }> {
+    try {
+      const { data, error } = await supabase.rpc("daily_checkin", {
+        p_user_id: userId,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: "Check-in realizado",
+        result: data as CheckinResult,
+      };
+    } catch (error) {
+      console.error("Error performing daily check-in:", error);
+      const message = getErrorMessage(error);
+      if (message.includes("Already checked in")) {
+        return { success: false, message: "Você já fez check-in hoje" };
+      }
+      return {
+        success: false,
+        message: "Falha ao fazer check-in. Tente novamente.",
+      };
+    }
+  }
+
+  // Redeem code operations
+  async getRedeemCodes(): Promise<RedeemCode[]> {
     try {
       const { data, error } = await supabase
-        .from("profiles")
-        .select("xenocoins, cash")
-        .eq("id", userId)
-        .single();
+        .from("redeem_codes")
+        .select("*, redeem_code_redemptions (user_id)")
+        .is("campaign_id", null)
+        .order("created_at", { ascending: false });
 
       if (error) throw error;
 
-      if (!data) {
-        console.warn(`No currency data found for user ${userId}`);
-        return { xenocoins: 0, cash: 0 };
+      return (data || []).map((code: RedeemCodeRow) =>
+        this.mapDatabaseRedeemCodeToRedeemCode(code),
+      );
+    } catch (error) {
+      console.error("Error fetching redeem codes:", error);
+      return [];
+    }
+  }
+
+  async createRedeemCode(
+    codeData: Omit<RedeemCode, "id" | "createdAt" | "currentUses" | "usedBy">,
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const { error } = await supabase.from("redeem_codes").insert({
+        ...this.mapRedeemCodeToDatabase(codeData),
+        created_by: codeData.createdBy,
+      });
+
+      if (error) throw error;
+
+      return { success: true, message: "Código criado com sucesso" };
+    } catch (error) {
+      console.error("Error creating redeem code:", error);
+      return { success: false, message: this.getRedeemCodeErrorMessage(error) };
+    }
+  }
+
+  async updateRedeemCode(
+    codeId: string,
+    updates: Partial<RedeemCode>,
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const { error } = await supabase
+        .from("redeem_codes")
+        .update(this.mapRedeemCodeToDatabase(updates))
+        .eq("id", codeId);
+
+      if (error) throw error;
+
+      return { success: true, message: "Código atualizado com sucesso" };
+    } catch (error) {
+      console.error("Error updating redeem code:", error);
+      return { success: false, message: this.getRedeemCodeErrorMessage(error) };
+    }
+  }
+
+  async deleteRedeemCode(
+    codeId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const { error } = await supabase
+        .from("redeem_codes")
+        .delete()
+        .eq("id", codeId);
+
+      if (error) throw error;
+
+      return { success: true, message: "Código removido com sucesso" };
+    } catch (error) {
+      console.error("Error deleting redeem code:", error);
+      return { success: false, message: this.getRedeemCodeErrorMessage(error) };
+    }
+  }
+
+  async redeemCode(
+    userId: string,
+    code: string,
+  ): Promise<{ success: boolean; message: string; result?: RedeemCodeResult }> {
+    try {
+      const { data, error } = await supabase.rpc("redeem_code", {
+        p_user_id: userId,
+        p_code: code,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: "Código resgatado com sucesso",
+        result: data as RedeemCodeResult,
+      };
+    } catch (error) {
+      console.error("Error redeeming code:", error);
+      return { success: false, message: this.getRedeemCodeErrorMessage(error) };
+    }
+  }
+
+  // Redeem campaign operations
+  async getRedeemCampaigns(): Promise<RedeemCampaign[]> {
+    try {
+      const { data, error } = await supabase.rpc("get_redeem_campaigns");
+
+      if (error) throw error;
+
+      return ((data as RedeemCampaignJson[] | null) || []).map((campaign) => ({
+        ...campaign,
+        expiresAt: campaign.expiresAt
+          ? new Date(campaign.expiresAt)
+          : undefined,
+        createdAt: new Date(campaign.createdAt),
+      }));
+    } catch (error) {
+      console.error("Error fetching redeem campaigns:", error);
+      return [];
+    }
+  }
+
+  async createRedeemCampaign(
+    campaign: Pick<
+      RedeemCampaign,
+      "name" | "description" | "rewards" | "expiresAt" | "codePattern"
+    >,
+    codes: string[],
+  ): Promise<{
+    success: boolean;
+    message: string;
+    campaignId?: string;
+    created: number;
+    skipped: number;
+  }> {
+    try {
+      const [firstBatch, ...otherBatches] = this.chunkCodes(codes);
+      const { data, error } = await supabase.rpc("create_redeem_campaign", {
+        p_name: campaign.name,
+        p_description: campaign.description,
+        p_rewards: campaign.rewards,
+        p_expires_at: campaign.expiresAt?.toISOString() || null,
+        p_code_pattern: campaign.codePattern || null,
+        p_codes: firstBatch || [],
+      });
+
+      if (error) throw error;
+
+      let { created, skipped } = data;
+      for (const batch of otherBatches) {
+        const added = await this.addRedeemCampaignCodes(data.campaignId, batch);
+        if (!added.success) throw new Error(added.message);
+        created += added.created;
+        skipped += added.skipped;
       }
 
       return {
-        xenocoins: data.xenocoins || 0,
-        cash: data.cash || 0,
+        success: true,
+        message: "Campanha criada com sucesso",
+        campaignId: data.campaignId,
+        created,
+        skipped,
       };
     } catch (error) {
-      console.error("Error fetching currency:", error);
-      return null;
+      console.error("Error creating redeem campaign:", error);
+      return {
+        success: false,
+        message: this.getRedeemCodeErrorMessage(error),
+        created: 0,
+        skipped: 0,
+      };
+    }
+  }
+
+  async addRedeemCampaignCodes(
+    campaignId: string,
+    codes: string[],
+  ): Promise<{
+    success: boolean;
+    message: string;
+    created: number;
+    skipped: number;
+  }> {
+    let created = 0;
+    let skipped = 0;
+
+    try {
+      for (const batch of this.chunkCodes(codes)) {
+        const { data, error } = await supabase.rpc(
+          "add_redeem_campaign_codes",
+          { p_campaign_id: campaignId, p_codes: batch },
+        );
+
+        if (error) throw error;
+
+        created += data.created;
+        skipped += data.skipped;
+      }
+
+      return {
+        success: true,
+        message: "Códigos adicionados",
+        created,
+        skipped,
+      };
+    } catch (error) {
+      console.error("Error adding redeem campaign codes:", error);
+      return {
+        success: false,
+        message: this.getRedeemCodeErrorMessage(error),
+        created,
+        skipped,
+      };
+    }
+  }
+
+  async revokeRedeemCampaignCodes(
+    campaignId: string,
+  ): Promise<{ success: boolean; message: string; revoked: number }> {
+    try {
+      const { data, error } = await supabase.rpc(
+        "revoke_redeem_campaign_codes",
+        { p_campaign_id: campaignId },
+      );
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `${data} código(s) revogado(s)`,
+        revoked: data,
+      };
+    } catch (error) {
+      console.error("Error revoking redeem campaign codes:", error);
+      return {
+        success: false,
+        message: this.getRedeemCodeErrorMessage(error),
+        revoked: 0,
+      };
+    }
+  }
+
+  // Campaigns can hold thousands of codes, more than one request returns
+  async getRedeemCampaignCodes(
+    campaignId: string,
+  ): Promise<RedeemCampaignCode[]> {
+    try {
+      const codes: RedeemCampaignCode[] = [];
+
+      for (let from = 0; ; from += REDEEM_CODE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("redeem_codes")
+          .select(
+            "id, code, is_active, expires_at, revoked_at, redeem_code_redemptions (user_id, created_at, profiles (username))",
+          )
+          .eq("campaign_id", campaignId)
+          .order("code")
+          .range(from, from + REDEEM_CODE_PAGE_SIZE - 1)
+          .overrideTypes<CampaignCodeRow[], { merge: false }>();
+
+        if (error) throw error;
+
+        codes.push(
+          ...(data || []).map((code) =>
+            this.mapDatabaseCampaignCodeToCode(code),
+          ),
+        );
+        if (!data || data.length < REDEEM_CODE_PAGE_SIZE) break;
+      }
+
+      return codes;
+    } catch (error) {
+      console.error("Error fetching redeem campaign codes:", error);
+      return [];
     }
   }
 
-  // Enhanced inventory operations
   async getUserInventory(userId: string): Promise<Item[]> {
     try {
       const { data, error } = await supabase
@@ -448,6 +854,7 @@ export class GameService {
         quantity: inventoryItem.quantity,
         isEquipped: inventoryItem.is_equipped,
         equippedPetId: inventoryItem.equipped_pet_id,
+        lockedTradeId: inventoryItem.locked_trade_id ?? undefined,
         createdAt: new Date(inventoryItem.acquired_at),
       }));
     } catch (error) {
@@ -464,59 +871,25 @@ export class GameService {
     try {
       await validateGameAction("item_add", { quantity });
 
-      // Check if item already exists in inventory (unequipped stack)
-      const { data: existingStack, error: fetchError } = await supabase
-        .from("inventory")
-        .select("id, quantity, item_id")
-        .eq("user_id", userId)
-        .eq("item_id", itemId)
-        .is("equipped_pet_id", null)
-        .single();
-
-      if (fetchError && fetchError.code !== "PGRST116") {
-        console.error("Error checking existing inventory item:", fetchError);
-        throw fetchError;
-      }
-
-      if (existingStack) {
-        // Update quantity of existing stack
-        const newQuantity = existingStack.quantity + quantity;
-        const { data: updatedData, error: updateError } = await supabase
-          .from("inventory")
-          .update({ quantity: newQuantity })
-          .eq("id", existingStack.id)
-          .select("id, item_id, quantity")
-          .single();
-
-        if (updateError) throw updateError;
-        if (!updatedData) throw new Error("Failed to get updated item data.");
-
-        return {
-          id: updatedData.id,
-          itemId: updatedData.item_id,
-          quantity: updatedData.quantity,
-        };
-      } else {
-        // Insert new item entry
-        const { data: insertedData, error: insertError } = await supabase
-          .from("inventory")
-          .insert({
-            user_id: userId,
-            item_id: itemId,
-            quantity: quantity,
-          })
-          .select("id, item_id, quantity")
-          .single();
+      // Only admins can add items; players get them through the game's
+      // own flows (shops, trades, codes, loot)
+      const { data, error } = await supabase.rpc("admin_add_inventory_item", {
+        p_user_id: userId,
+        p_item_id: itemId,
+        p_quantity: quantity,
+      });
 
-        if (insertError) throw insertError;
-        if (!insertedData) throw new Error("Failed to get inserted item data.");
+      if (error) throw error;
 
-        return {
-          id: insertedData.id,
-          itemId: insertedData.item_id,
-          quantity: insertedData.quantity,
-        };
-      }
+      const stack = data as Pick<
+        TableRow<"inventory">,
+        "id" | "item_id" | "quantity"
+      >;
+      return {
+        id: stack.id,
+        itemId: stack.item_id,
+        quantity: stack.quantity,
+      };
     } catch (error) {
       console.error("Error adding item to inventory:", error);
       return null;
@@ -766,6 +1139,7 @@ export class GameService {
           )
         `,
         )
+        .eq("is_active", true)
         .eq("user_achievements.user_id", userId);
 
       if (error) throw error;
@@ -801,7 +1175,21 @@ export class GameService {
           collectibles (*)
         `,
         )
-        .eq("user_id", userId);
+        .eq("user_id", userId)
+        .overrideTypes<
+          {
+            collected_at: string;
+            collectibles: {
+              id: string;
+              name: string;
+              type: Collectible["type"];
+              rarity: Collectible["rarity"];
+              description: string;
+              image_url: string;
+            };
+          }[],
+          { merge: false }
+        >();
 
       if (error) throw error;
 
@@ -818,148 +1206,503 @@ export class GameService {
         obtainMethod: "Collected by user",
       }));
     } catch (error) {
-      console.error("Error fetching user collected collectibles:", error);
-      return [];
+      console.error("Error fetching user collected collectibles:", error);
+      return [];
+    }
+  }
+
+  // Enhanced collectibles operations
+  async addUserCollectible(
+    userId: string,
+    collectibleName: string,
+  ): Promise<boolean> {
+    try {
+      // First, find the collectible by name
+      const { data: collectible, error: collectibleError } = await supabase
+        .from("collectibles")
+        .select("id")
+        .eq("name", collectibleName)
+        .single();
+
+      if (collectibleError) {
+        console.error("Error finding collectible:", collectibleError);
+        return false;
+      }
+
+      // Add to user_collectibles
+      const { error: insertError } = await supabase
+        .from("user_collectibles")
+        .insert({
+          user_id: userId,
+          collectible_id: collectible.id,
+        });
+
+      if (insertError) {
+        // Check if it's a duplicate key error (user already has this collectible)
+        if (insertError.code === "23505") {
+          console.log("User already has this collectible");
+          return true;
+        }
+        throw insertError;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Error adding user collectible:", error);
+      return false;
+    }
+  }
+
+  // Space kills
+  /**
+   * Records an asteroid or creature the player destroyed and grants its
+   * loot. The database derives the loot from the entity id and rejects
+   * entities already destroyed in their cycle.
+   *
+   * @returns the loot granted, or null when there was none
+   */
+  async recordSpaceKill(
+    userId: string,
+    entityId: string,
+  ): Promise<LootDrop | null> {
+    try {
+      const { data, error } = await supabase.rpc("record_space_kill", {
+        p_user_id: userId,
+        p_entity_id: entityId,
+      });
+
+      if (error) throw error;
+
+      return data as LootDrop | null;
+    } catch (error) {
+      console.error("Error recording space kill:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Ids of the entities the player destroyed in cycles that may still be
+   * running, so they stay destroyed after a reload.
+   */
+  async getRecentSpaceKills(userId: string): Promise<string[]> {
+    try {
+      const since = new Date(Date.now() - 2 * REGION_RESPAWN_MS);
+      const { data, error } = await supabase
+        .from("space_kills")
+        .select("region, cycle, entity_index")
+        .eq("user_id", userId)
+        .gte("created_at", since.toISOString());
+
+      if (error) throw error;
+
+      return (data || []).map(
+        (kill: { region: number; cycle: number; entity_index: number }) =>
+          getEntityId(kill.region, kill.cycle, kill.entity_index),
+      );
+    } catch (error) {
+      console.error("Error fetching space kills:", error);
+      return [];
+    }
+  }
+
+  // Enhanced notifications
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    try {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      return data.map((notification) => ({
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        isRead: notification.is_read,
+        actionUrl: notification.action_url,
+        createdAt: new Date(notification.created_at),
+      }));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      return [];
+    }
+  }
+
+  async addNotification(
+    userId: string,
+    notification: Omit<Notification, "id" | "createdAt">,
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase.from("notifications").insert({
+        user_id: userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        action_url: notification.actionUrl,
+      });
+
+      if (error) throw error;
+
+      return true;
+    } catch (error) {
+      console.error("Error adding notification:", error);
+      return false;
+    }
+  }
+
+  async markNotificationAsRead(notificationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ is_read: true })
+        .eq("id", notificationId);
+
+      if (error) throw error;
+
+      return true;
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      return false;
+    }
+  }
+
+  async deleteNotification(notificationId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("notifications")
+        .delete()
+        .eq("id", notificationId);
+
+      if (error) throw error;
+
+      return true;
+    } catch (error) {
+      console.error("Error deleting notification:", error);
+      return false;
+    }
+  }
+
+  async markAllNotificationsAsRead(userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ is_read: true })
+        .eq("user_id", userId)
+        .eq("is_read", false);
+
+      if (error) throw error;
+
+      return true;
+    } catch (error) {
+      console.error("Error marking all notifications as read:", error);
+      return false;
+    }
+  }
+
+  // Duel operations
+
+  /**
+   * Challenges another player. The wager is held in escrow until the duel
+   * is declined, cancelled or resolved.
+   */
+  async challengeToDuel(
+    challengerId: string,
+    opponentId: string,
+    challengerPetId: string,
+    xenocoinsWagered = 0,
+  ): Promise<{ success: boolean; message: string; duel?: Duel }> {
+    try {
+      const { data, error } = await supabase.rpc("create_duel", {
+        p_challenger_id: challengerId,
+        p_opponent_id: opponentId,
+        p_pet_id: challengerPetId,
+        p_xenocoins_wagered: xenocoinsWagered,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: "Desafio enviado!",
+        duel: (await this.getDuelById(data)) ?? undefined,
+      };
+    } catch (error) {
+      console.error("Error creating duel challenge:", error);
+      return { success: false, message: this.getDuelErrorMessage(error) };
+    }
+  }
+
+  async respondToDuel(
+    duelId: string,
+    userId: string,
+    accept: boolean,
+    opponentPetId?: string,
+  ): Promise<{ success: boolean; message: string; duel?: Duel }> {
+    if (!accept) {
+      return this.cancelDuel(duelId, userId);
+    }
+
+    if (!opponentPetId) {
+      return { success: false, message: "Escolha um pet para o duelo" };
+    }
+
+    try {
+      const { error } = await supabase.rpc("accept_duel", {
+        p_duel_id: duelId,
+        p_user_id: userId,
+        p_pet_id: opponentPetId,
+      });
+
+      if (error) throw error;
+
+      return this.completeDuel(duelId);
+    } catch (error) {
+      console.error("Error responding to duel:", error);
+      return { success: false, message: this.getDuelErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Declines (opponent) or withdraws (challenger) a pending duel and
+   * refunds the challenger's wager.
+   */
+  async cancelDuel(
+    duelId: string,
+    userId: string,
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const { data, error } = await supabase.rpc("cancel_duel", {
+        p_duel_id: duelId,
+        p_user_id: userId,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: data === "rejected" ? "Duelo recusado" : "Desafio cancelado",
+      };
+    } catch (error) {
+      console.error("Error cancelling duel:", error);
+      return { success: false, message: this.getDuelErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Resolves an accepted duel on the server and returns the stored result.
+   * The duel id is the seed, so the stored log can always be replayed.
+   */
+  async completeDuel(
+    duelId: string,
+  ): Promise<{ success: boolean; message: string; duel?: Duel }> {
+    try {
+      const { error } = await supabase.rpc("complete_duel", {
+        p_duel_id: duelId,
+      });
+
+      if (error) throw error;
+
+      const duel = await this.getDuelById(duelId);
+      if (!duel) {
+        return { success: false, message: "Duelo não encontrado" };
+      }
+
+      if (!duel.winnerId) {
+        return { success: true, message: "O duelo terminou empatado!", duel };
+      }
+
+      const { data: winnerPet } = await supabase
+        .from("pets")
+        .select("name")
+        .eq(
+          "id",
+          duel.winnerId === duel.challengerId
+            ? duel.challengerPetId
+            : duel.opponentPetId,
+        )
+        .single();
+
+      return {
+        success: true,
+        message: `${winnerPet?.name ?? "Seu oponente"} venceu o duelo!`,
+        duel,
+      };
+    } catch (error) {
+      console.error("Error completing duel:", error);
+      return { success: false, message: this.getDuelErrorMessage(error) };
     }
   }
 
-  // Enhanced collectibles operations
-  async addUserCollectible(
-    userId: string,
-    collectibleName: string,
-  ): Promise<boolean> {
+  async getDuelById(duelId: string): Promise<Duel | null> {
     try {
-      // First, find the collectible by name
-      const { data: collectible, error: collectibleError } = await supabase
-        .from("collectibles")
-        .select("id")
-        .eq("name", collectibleName)
+      const { data, error } = await supabase
+        .from("duels")
+        .select("*")
+        .eq("id", duelId)
         .single();
 
-      if (collectibleError) {
-        console.error("Error finding collectible:", collectibleError);
-        return false;
-      }
-
-      // Add to user_collectibles
-      const { error: insertError } = await supabase
-        .from("user_collectibles")
-        .insert({
-          user_id: userId,
-          collectible_id: collectible.id,
-        });
-
-      if (insertError) {
-        // Check if it's a duplicate key error (user already has this collectible)
-        if (insertError.code === "23505") {
-          console.log("User already has this collectible");
-          return true;
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
         }
-        throw insertError;
+        throw error;
       }
 
-      return true;
+      return this.mapDatabaseDuelToDuel(data);
     } catch (error) {
-      console.error("Error adding user collectible:", error);
-      return false;
+      console.error("Error fetching duel:", error);
+      return null;
     }
   }
 
-  // Enhanced notifications
-  async getUserNotifications(userId: string): Promise<Notification[]> {
+  async getUserDuels(userId: string): Promise<Duel[]> {
     try {
       const { data, error } = await supabase
-        .from("notifications")
+        .from("duels")
         .select("*")
-        .eq("user_id", userId)
+        .or(`challenger_id.eq.${userId},opponent_id.eq.${userId}`)
         .order("created_at", { ascending: false })
         .limit(50);
 
       if (error) throw error;
 
-      return data.map((notification) => ({
-        id: notification.id,
-        type: notification.type,
-        title: notification.title,
-        message: notification.message,
-        isRead: notification.is_read,
-        actionUrl: notification.action_url,
-        createdAt: new Date(notification.created_at),
-      }));
+      return data.map(this.mapDatabaseDuelToDuel);
     } catch (error) {
-      console.error("Error fetching notifications:", error);
+      console.error("Error fetching duels:", error);
       return [];
     }
   }
 
-  async addNotification(
-    userId: string,
-    notification: Omit<Notification, "id" | "createdAt">,
-  ): Promise<boolean> {
+  // Trade operations
+  async createTrade(
+    initiatorId: string,
+    recipientId: string,
+    offer: {
+      initiatorItems: Omit<TradeItem, "itemId">[];
+      recipientItems: Omit<TradeItem, "itemId">[];
+      initiatorXenocoins: number;
+      recipientXenocoins: number;
+    },
+  ): Promise<{ success: boolean; message: string; tradeId?: string }> {
     try {
-      const { error } = await supabase.from("notifications").insert({
-        user_id: userId,
-        type: notification.type,
-        title: notification.title,
-        message: notification.message,
-        action_url: notification.actionUrl,
+      const { data, error } = await supabase.rpc("create_trade", {
+        p_initiator_id: initiatorId,
+        p_recipient_id: recipientId,
+        p_initiator_items: offer.initiatorItems.map(
+          this.mapTradeItemToDatabase,
+        ),
+        p_recipient_items: offer.recipientItems.map(
+          this.mapTradeItemToDatabase,
+        ),
+        p_initiator_xenocoins: offer.initiatorXenocoins,
+        p_recipient_xenocoins: offer.recipientXenocoins,
       });
 
       if (error) throw error;
 
-      return true;
+      return {
+        success: true,
+        message: "Proposta de troca enviada!",
+        tradeId: data,
+      };
     } catch (error) {
-      console.error("Error adding notification:", error);
-      return false;
+      console.error("Error creating trade:", error);
+      return { success: false, message: this.getTradeErrorMessage(error) };
     }
   }
 
-  async markNotificationAsRead(notificationId: string): Promise<boolean> {
+  /**
+   * Confirms the caller's side of a trade. The recipient confirms first
+   * (accepting the offer), then the initiator's confirmation runs the swap.
+   */
+  async confirmTrade(
+    tradeId: string,
+    userId: string,
+  ): Promise<{ success: boolean; message: string; status?: Trade["status"] }> {
     try {
-      const { error } = await supabase
-        .from("notifications")
-        .update({ is_read: true })
-        .eq("id", notificationId);
+      const { data, error } = await supabase.rpc("confirm_trade", {
+        p_trade_id: tradeId,
+        p_user_id: userId,
+      });
 
       if (error) throw error;
 
-      return true;
+      return {
+        success: true,
+        message:
+          data === "completed"
+            ? "Troca concluída!"
+            : "Troca aceita! Aguardando confirmação.",
+        status: data,
+      };
     } catch (error) {
-      console.error("Error marking notification as read:", error);
-      return false;
+      console.error("Error confirming trade:", error);
+      return { success: false, message: this.getTradeErrorMessage(error) };
     }
   }
 
-  async deleteNotification(notificationId: string): Promise<boolean> {
+  async cancelTrade(
+    tradeId: string,
+    userId: string,
+  ): Promise<{ success: boolean; message: string; status?: Trade["status"] }> {
     try {
-      const { error } = await supabase
-        .from("notifications")
-        .delete()
-        .eq("id", notificationId);
+      const { data, error } = await supabase.rpc("cancel_trade", {
+        p_trade_id: tradeId,
+        p_user_id: userId,
+      });
 
       if (error) throw error;
 
-      return true;
-    } catch (error: any) {
-      console.error("Error deleting notification:", error);
-      return false;
+      return {
+        success: true,
+        message: data === "rejected" ? "Troca recusada" : "Troca cancelada",
+        status: data,
+      };
+    } catch (error) {
+      console.error("Error cancelling trade:", error);
+      return { success: false, message: this.getTradeErrorMessage(error) };
     }
   }
 
-  async markAllNotificationsAsRead(userId: string): Promise<boolean> {
+  async getUserTrades(userId: string): Promise<Trade[]> {
     try {
-      const { error } = await supabase
-        .from("notifications")
-        .update({ is_read: true })
-        .eq("user_id", userId)
-        .eq("is_read", false);
+      const { data, error } = await supabase
+        .from("trades")
+        .select("*")
+        .or(`initiator_id.eq.${userId},recipient_id.eq.${userId}`)
+        .order("created_at", { ascending: false })
+        .limit(50);
 
       if (error) throw error;
 
-      return true;
-    } catch (error: any) {
-      console.error("Error marking all notifications as read:", error);
-      return false;
+      return data.map((trade: TableRow<"trades">) =>
+        this.mapDatabaseTradeToTrade(trade),
+      );
+    } catch (error) {
+      console.error("Error fetching trades:", error);
+      return [];
+    }
+  }
+
+  // Planet visits
+  /**
+   * Records a landing on a planet. Only the first landing on each planet
+   * advances the player's exploration progress.
+   */
+  async recordPlanetLanding(userId: string, planetId: string): Promise<void> {
+    try {
+      const { error } = await supabase.rpc("record_planet_landing", {
+        p_user_id: userId,
+        p_planet_id: planetId,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error recording planet landing:", error);
     }
   }
 
@@ -1014,6 +1757,7 @@ export class GameService {
               rotation: world.rotation,
               color: world.color,
               imageUrl: world.image_url,
+              interactionRadius: DEFAULT_INTERACTION_RADIUS,
               createdAt: new Date(world.created_at),
               updatedAt: new Date(world.updated_at),
             }));
@@ -1043,6 +1787,7 @@ export class GameService {
         rotation: world.rotation,
         color: world.color,
         imageUrl: world.image_url,
+        interactionRadius: DEFAULT_INTERACTION_RADIUS,
         createdAt: new Date(world.created_at),
         updatedAt: new Date(world.updated_at),
       }));
@@ -1282,8 +2027,116 @@ export class GameService {
     }
   }
 
+  // World layout versions
+  async saveWorldLayout(
+    changes: WorldLayout[],
+    note = "",
+  ): Promise<{ success: boolean; message: string; version?: number }> {
+    try {
+      const { data, error } = await supabase.rpc("save_world_layout", {
+        p_changes: changes,
+        p_note: note,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `Layout salvo como versão ${data}`,
+        version: data,
+      };
+    } catch (error) {
+      console.error("Error saving world layout:", error);
+      return {
+        success: false,
+        message: this.getWorldLayoutErrorMessage(error),
+      };
+    }
+  }
+
+  async getWorldLayoutVersions(limit = 20): Promise<WorldLayoutVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from("world_layout_versions")
+        .select("*")
+        .order("version", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return (data || []).map((row: TableRow<"world_layout_versions">) => ({
+        id: row.id,
+        version: row.version,
+        note: row.note,
+        layout: row.layout as WorldLayoutVersion["layout"],
+        createdBy: row.created_by || undefined,
+        createdAt: new Date(row.created_at),
+      }));
+    } catch (error) {
+      console.error("Error fetching world layout versions:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Puts the worlds back as `version` had them. The rollback is saved as a
+   * new version, whose layout is returned so the map can follow.
+   */
+  async rollbackWorldLayout(version: number): Promise<{
+    success: boolean;
+    message: string;
+    version?: number;
+    layout?: WorldLayout[];
+  }> {
+    try {
+      const { data, error } = await supabase.rpc("rollback_world_layout", {
+        p_version: version,
+      });
+
+      if (error) throw error;
+
+      const { data: saved, error: savedError } = await supabase
+        .from("world_layout_versions")
+        .select("layout")
+        .eq("version", data)
+        .single();
+
+      if (savedError) throw savedError;
+
+      return {
+        success: true,
+        message: `Layout da versão ${version} restaurado`,
+        version: data,
+        layout: saved.layout,
+      };
+    } catch (error) {
+      console.error("Error rolling back world layout:", error);
+      return {
+        success: false,
+        message: this.getWorldLayoutErrorMessage(error),
+      };
+    }
+  }
+
+  private getWorldLayoutErrorMessage(error: unknown): string {
+    const message = getErrorMessage(error);
+    if (message.includes("Access denied")) {
+      return "Acesso negado";
+    }
+    if (message.includes("No world changes")) {
+      return "Nenhuma alteração para salvar";
+    }
+    if (message.includes("World not found")) {
+      return "Um dos mundos editados não existe mais";
+    }
+    if (message.includes("Layout version not found")) {
+      return "Versão do layout não encontrada";
+    }
+    return "Erro ao salvar o layout. Tente novamente.";
+  }
+
   // Helper methods
-  private mapDatabasePetToPet(dbPet: any): Pet {
+  private mapDatabasePetToPet(dbPet: PetRow): Pet {
     return {
       id: dbPet.id,
       name: dbPet.name,
@@ -1291,9 +2144,9 @@ export class GameService {
       style: dbPet.style,
       level: dbPet.level,
       ownerId: dbPet.owner_id,
-      happiness: dbPet.happiness,
-      health: dbPet.health,
-      hunger: dbPet.hunger,
+      happiness: toCareDisplayValue(dbPet.happiness),
+      health: toCareDisplayValue(dbPet.health),
+      hunger: toCareDisplayValue(dbPet.hunger),
       strength: dbPet.strength,
       dexterity: dbPet.dexterity,
       intelligence: dbPet.intelligence,
@@ -1304,9 +2157,11 @@ export class GameService {
       evasion: dbPet.evasion,
       luck: dbPet.luck,
       personality: dbPet.personality,
-      conditions: [],
-      equipment: {},
-      imageUrl: dbPet.image_url,
+      conditions: (dbPet.pet_conditions || []).map(
+        this.mapDatabaseConditionToCondition,
+      ),
+      ...this.mapEquippedItems(dbPet.equipped_items || []),
+      imageUrl: dbPet.image_url ?? undefined,
       isAlive: dbPet.is_alive,
       hatchTime: dbPet.hatch_time ? new Date(dbPet.hatch_time) : undefined,
       deathDate: dbPet.death_date ? new Date(dbPet.death_date) : undefined,
@@ -1315,6 +2170,275 @@ export class GameService {
       updatedAt: new Date(dbPet.updated_at),
     };
   }
+
+  private mapEquippedItems(
+    equippedItems: EquippedItemRow[],
+  ): Pick<Pet, "equipment" | "weapon"> {
+    const equipment: Equipment = {};
+    let weapon: Weapon | undefined;
+
+    equippedItems.forEach((inventoryItem) => {
+      const dbItem = inventoryItem.items;
+      if (!dbItem) return;
+
+      // Item.slot only lists armor slots; weapons use the "weapon" slot in the database
+      const slot = dbItem.slot === "weapon" ? null : dbItem.slot;
+      const item: Item = {
+        id: dbItem.id,
+        slug: dbItem.name.toLowerCase().replace(/\s+/g, "-"),
+        name: dbItem.name,
+        description: dbItem.description,
+        type: dbItem.type,
+        rarity: dbItem.rarity,
+        price: dbItem.price,
+        currency: dbItem.currency,
+        effects: (dbItem.effects as Item["effects"]) || {},
+        slot: slot ?? undefined,
+        imageUrl: dbItem.image_url ?? undefined,
+        inventoryId: inventoryItem.id,
+        quantity: inventoryItem.quantity,
+        isEquipped: true,
+        equippedPetId: inventoryItem.equipped_pet_id ?? undefined,
+        createdAt: new Date(inventoryItem.acquired_at),
+      };
+
+      if (dbItem.slot === "weapon") {
+        weapon = getWeaponFromItem(item);
+      } else if (item.slot) {
+        equipment[item.slot] = item;
+      }
+    });
+
+    return { equipment, weapon };
+  }
+
+  private mapDatabaseDuelToDuel(dbDuel: TableRow<"duels">): Duel {
+    return {
+      id: dbDuel.id,
+      challengerId: dbDuel.challenger_id,
+      opponentId: dbDuel.opponent_id,
+      challengerPetId: dbDuel.challenger_pet_id,
+      opponentPetId: dbDuel.opponent_pet_id ?? undefined,
+      status: dbDuel.status,
+      winnerId: dbDuel.winner_id ?? undefined,
+      xenocoinsWagered: dbDuel.xenocoins_wagered || 0,
+      battleLog: (dbDuel.battle_log as unknown as Duel["battleLog"]) || [],
+      createdAt: new Date(dbDuel.created_at),
+      completedAt: dbDuel.completed_at
+        ? new Date(dbDuel.completed_at)
+        : undefined,
+    };
+  }
+
+  private mapDatabaseTradeToTrade(dbTrade: TableRow<"trades">): Trade {
+    const mapItems = (items: Json): TradeItem[] =>
+      ((items as TradeItemRow[] | null) || []).map((item) => ({
+        inventoryId: item.inventory_id,
+        itemId: item.item_id,
+        quantity: item.quantity,
+      }));
+
+    return {
+      id: dbTrade.id,
+      initiatorId: dbTrade.initiator_id,
+      recipientId: dbTrade.recipient_id,
+      initiatorItems: mapItems(dbTrade.initiator_items),
+      recipientItems: mapItems(dbTrade.recipient_items),
+      initiatorXenocoins: dbTrade.initiator_xenocoins || 0,
+      recipientXenocoins: dbTrade.recipient_xenocoins || 0,
+      status: dbTrade.status,
+      initiatorConfirmed: dbTrade.initiator_confirmed,
+      recipientConfirmed: dbTrade.recipient_confirmed,
+      createdAt: new Date(dbTrade.created_at),
+      completedAt: dbTrade.completed_at
+        ? new Date(dbTrade.completed_at)
+        : undefined,
+    };
+  }
+
+  private mapDatabaseLedgerEntryToEntry(
+    dbEntry: TableRow<"currency_ledger">,
+  ): CurrencyLedgerEntry {
+    return {
+      id: dbEntry.id,
+      userId: dbEntry.user_id,
+      currency: dbEntry.currency,
+      amount: dbEntry.amount,
+      balanceAfter: dbEntry.balance_after,
+      reason: dbEntry.reason,
+      referenceId: dbEntry.reference_id || undefined,
+      createdAt: new Date(dbEntry.created_at),
+    };
+  }
+
+  private mapDatabaseRedeemCodeToRedeemCode(dbCode: RedeemCodeRow): RedeemCode {
+    return {
+      id: dbCode.id,
+      code: dbCode.code,
+      name: dbCode.name,
+      description: dbCode.description,
+      rewards: (dbCode.rewards as RedeemCode["rewards"]) || {},
+      maxUses: dbCode.max_uses,
+      currentUses: dbCode.current_uses,
+      expiresAt: dbCode.expires_at ? new Date(dbCode.expires_at) : undefined,
+      isActive: dbCode.is_active,
+      createdBy: dbCode.created_by || "system",
+      createdAt: new Date(dbCode.created_at),
+      usedBy: (dbCode.redeem_code_redemptions || []).map(
+        (redemption) => redemption.user_id,
+      ),
+    };
+  }
+
+  private mapDatabaseCampaignCodeToCode(
+    dbCode: CampaignCodeRow,
+  ): RedeemCampaignCode {
+    const redemption = dbCode.redeem_code_redemptions?.[0];
+    return {
+      id: dbCode.id,
+      code: dbCode.code,
+      isActive: dbCode.is_active,
+      expiresAt: dbCode.expires_at ? new Date(dbCode.expires_at) : undefined,
+      revokedAt: dbCode.revoked_at ? new Date(dbCode.revoked_at) : undefined,
+      redeemedBy: redemption?.user_id,
+      redeemedByUsername: redemption?.profiles?.username,
+      redeemedAt: redemption ? new Date(redemption.created_at) : undefined,
+    };
+  }
+
+  private chunkCodes(codes: string[]): string[][] {
+    const batches: string[][] = [];
+    for (let i = 0; i < codes.length; i += REDEEM_CODE_PAGE_SIZE) {
+      batches.push(codes.slice(i, i + REDEEM_CODE_PAGE_SIZE));
+    }
+    return batches;
+  }
+
+  // Only the fields admins edit; usage is maintained by redeem_code
+  private mapRedeemCodeToDatabase(code: Partial<RedeemCode>) {
+    return {
+      ...(code.code !== undefined && { code: code.code.trim().toUpperCase() }),
+      ...(code.name !== undefined && { name: code.name }),
+      ...(code.description !== undefined && { description: code.description }),
+      ...(code.rewards !== undefined && { rewards: code.rewards }),
+      ...(code.maxUses !== undefined && { max_uses: code.maxUses }),
+      ...("expiresAt" in code && {
+        expires_at: code.expiresAt ? code.expiresAt.toISOString() : null,
+      }),
+      ...(code.isActive !== undefined && { is_active: code.isActive }),
+    };
+  }
+
+  private getRedeemCodeErrorMessage(error: unknown): string {
+    const message = getErrorMessage(error);
+    if (getErrorCode(error) === "23505") {
+      return "Este código já existe";
+    }
+    if (message.includes("Invalid code")) {
+      return "Código inválido ou expirado";
+    }
+    if (message.includes("Code expired")) {
+      return "Este código expirou";
+    }
+    if (message.includes("already redeemed")) {
+      return "Você já resgatou este código";
+    }
+    if (message.includes("usage limit")) {
+      return "Este código atingiu o limite de usos";
+    }
+    if (message.includes("Campaign name is required")) {
+      return "O nome da campanha é obrigatório";
+    }
+    if (message.includes("Access denied")) {
+      return "Acesso negado";
+    }
+    if (message.includes("Campaign not found")) {
+      return "Campanha não encontrada";
+    }
+    if (message.includes("not found")) {
+      return "Uma das recompensas deste código não existe mais";
+    }
+    return "Erro ao processar o código. Tente novamente.";
+  }
+
+  private mapTradeItemToDatabase(item: Omit<TradeItem, "itemId">) {
+    return { inventory_id: item.inventoryId, quantity: item.quantity };
+  }
+
+  private getTradeErrorMessage(error: unknown): string {
+    const message = getErrorMessage(error);
+    if (message.includes("not accepting trades")) {
+      return "Este jogador não está aceitando trocas";
+    }
+    if (message.includes("Equipped items")) {
+      return "Itens equipados não podem ser trocados";
+    }
+    if (message.includes("cannot be traded")) {
+      return "Um dos itens não pode ser trocado";
+    }
+    if (message.includes("locked")) {
+      return "Um dos itens já está reservado em outra troca";
+    }
+    if (message.includes("Insufficient funds")) {
+      return "Xenocoins insuficientes para a troca";
+    }
+    if (message.includes("no longer available")) {
+      return "Um dos itens da troca não está mais disponível";
+    }
+    return "Erro ao processar a troca";
+  }
+
+  private getDuelErrorMessage(error: unknown): string {
+    const message = getErrorMessage(error);
+    if (message.includes("Cannot duel yourself")) {
+      return "Você não pode desafiar a si mesmo";
+    }
+    if (message.includes("Invalid wager")) {
+      return "Aposta inválida";
+    }
+    if (message.includes("Opponent not found")) {
+      return "Jogador não encontrado";
+    }
+    if (message.includes("not accepting duels")) {
+      return "Este jogador não está aceitando duelos";
+    }
+    if (message.includes("Pet not found")) {
+      return "Pet não encontrado";
+    }
+    if (message.includes("Pet cannot duel")) {
+      return "Este pet não pode duelar";
+    }
+    if (message.includes("Insufficient funds")) {
+      return "Xenocoins insuficientes para esta aposta";
+    }
+    if (message.includes("already answered")) {
+      return "Este duelo já foi respondido";
+    }
+    if (message.includes("cannot be completed")) {
+      return "Este duelo não está pronto";
+    }
+    if (message.includes("Duel pets not found")) {
+      return "Pets do duelo não encontrados";
+    }
+    if (message.includes("not found")) {
+      return "Duelo não encontrado";
+    }
+    return "Erro ao processar o duelo";
+  }
+
+  private mapDatabaseConditionToCondition(
+    dbCondition: TableRow<"pet_conditions">,
+  ): PetCondition {
+    return {
+      id: dbCondition.id,
+      type: dbCondition.type,
+      name: dbCondition.name,
+      description: dbCondition.description,
+      effects: (dbCondition.effects as PetCondition["effects"]) || {},
+      duration: dbCondition.duration_hours ?? undefined,
+      appliedAt: new Date(dbCondition.applied_at),
+    };
+  }
 }
 
 export const gameService = GameService.getInstance();
@@ -0,0 +1,273 @@
+import { supabase } from "../lib/supabase";
+import { Database } from "../types/database";
+import { Quest, Saga, SagaStep } from "../types/game";
+import { isRequirementMet } from "../utils/progressionEngine";
+
+type Tables = Database["public"]["Tables"];
+type QuestRow = Tables["quests"]["Row"];
+type UserQuestRow = Tables["user_quests"]["Row"];
+type SagaStepRow = Tables["saga_steps"]["Row"];
+type SagaRow = Tables["sagas"]["Row"] & { saga_steps: SagaStepRow[] | null };
+type UserSagaProgressRow = Tables["user_saga_progress"]["Row"];
+
+export interface ProgressionResult {
+  completedQuests: Quest[];
+  completedSteps: { saga: Saga; step: SagaStep }[];
+  completedSagas: Saga[];
+}
+
+const emptyResult = (): ProgressionResult => ({
+  completedQuests: [],
+  completedSteps: [],
+  completedSagas: [],
+});
+
+export class ProgressionService {
+  private static instance: ProgressionService;
+
+  public static getInstance(): ProgressionService {
+    if (!ProgressionService.instance) {
+      ProgressionService.instance = new ProgressionService();
+    }
+    return ProgressionService.instance;
+  }
+
+  /**
+   * Get every active quest merged with the user's progress
+   */
+  async getUserQuests(userId: string): Promise<Quest[]> {
+    try {
+      const [questsResult, progressResult] = await Promise.all([
+        supabase.from("quests").select("*").eq("is_active", true),
+        supabase.from("user_quests").select("*").eq("user_id", userId),
+      ]);
+
+      if (questsResult.error) throw questsResult.error;
+      if (progressResult.error) throw progressResult.error;
+
+      const progressByQuest = new Map<string, UserQuestRow>(
+        (progressResult.data || []).map((row: UserQuestRow) => [
+          row.quest_id,
+          row,
+        ]),
+      );
+
+      return (questsResult.data || []).map((quest: QuestRow) =>
+        this.mapDatabaseQuestToQuest(quest, progressByQuest.get(quest.id)),
+      );
+    } catch (error) {
+      console.error("Error fetching quests:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every active saga with its steps and the user's progress
+   */
+  async getUserSagas(userId: string): Promise<Saga[]> {
+    try {
+      const [sagasResult, progressResult] = await Promise.all([
+        supabase
+          .from("sagas")
+          .select("*, saga_steps (*)")
+          .eq("is_active", true),
+        supabase.from("user_saga_progress").select("*").eq("user_id", userId),
+      ]);
+
+      if (sagasResult.error) throw sagasResult.error;
+      if (progressResult.error) throw progressResult.error;
+
+      const progressBySaga = new Map<string, UserSagaProgressRow>(
+        (progressResult.data || []).map((row: UserSagaProgressRow) => [
+          row.saga_id,
+          row,
+        ]),
+      );
+
+      return (sagasResult.data || []).map((saga: SagaRow) =>
+        this.mapDatabaseSagaToSaga(saga, progressBySaga.get(saga.id)),
+      );
+    } catch (error) {
+      console.error("Error fetching sagas:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Reloads the progress the server recorded for the user's latest game
+   * events, then completes whatever those events finished.
+   */
+  async syncProgress(userId: string): Promise<ProgressionResult> {
+    try {
+      const [quests, sagas] = await Promise.all([
+        this.getUserQuests(userId),
+        this.getUserSagas(userId),
+      ]);
+
+      return this.claimCompleted(userId, quests, sagas);
+    } catch (error) {
+      console.error("Error syncing progress:", error);
+      return emptyResult();
+    }
+  }
+
+  /**
+   * Completes quests and saga steps whose progress already meets their
+   * requirements.
+   */
+  async claimCompleted(
+    userId: string,
+    quests: Quest[],
+    sagas: Saga[],
+  ): Promise<ProgressionResult> {
+    const result = emptyResult();
+
+    for (const quest of quests) {
+      if (
+        quest.isCompleted ||
+        !quest.startedAt ||
+        !isRequirementMet(quest.requirements, quest.progress)
+      ) {
+        continue;
+      }
+
+      const { error } = await supabase.rpc("complete_quest", {
+        p_user_id: userId,
+        p_quest_id: quest.id,
+      });
+
+      if (error) {
+        console.error("Error completing quest:", error);
+        continue;
+      }
+
+      result.completedQuests.push({
+        ...quest,
+        isActive: false,
+        isCompleted: true,
+        completedAt: new Date(),
+      });
+    }
+
+    for (const saga of sagas) {
+      const step = this.getCurrentStep(saga);
+      if (
+        !step ||
+        !saga.isActive ||
+        !this.hasCounters(step) ||
+        !isRequirementMet(step.requirements, saga.stepProgress)
+      ) {
+        continue;
+      }
+
+      const completion = await this.completeSagaStep(userId, saga);
+      if (completion) {
+        result.completedSteps.push({ saga, step: completion.step });
+        if (completion.sagaCompleted) result.completedSagas.push(saga);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Completes the current step of a saga. Steps without counters (dialogue,
+   * puzzles solved in the UI) are advanced directly through this method.
+   */
+  async completeSagaStep(
+    userId: string,
+    saga: Saga,
+  ): Promise<{ step: SagaStep; sagaCompleted: boolean } | null> {
+    const step = this.getCurrentStep(saga);
+    if (!step) return null;
+
+    try {
+      const { data, error } = await supabase.rpc("complete_saga_step", {
+        p_user_id: userId,
+        p_saga_id: saga.id,
+      });
+
+      if (error) throw error;
+
+      return {
+        step: { ...step, isCompleted: true, completedAt: new Date() },
+        sagaCompleted: !!data?.sagaCompleted,
+      };
+    } catch (error) {
+      console.error("Error completing saga step:", error);
+      return null;
+    }
+  }
+
+  getCurrentStep(saga: Saga): SagaStep | null {
+    if (saga.isCompleted) return null;
+    return (
+      saga.steps.find((step) => step.stepNumber === saga.currentStep + 1) ||
+      null
+    );
+  }
+
+  hasCounters(step: SagaStep): boolean {
+    return Object.values(step.requirements || {}).some(
+      (target) => typeof target === "number",
+    );
+  }
+
+  private mapDatabaseQuestToQuest(
+    dbQuest: QuestRow,
+    dbProgress?: UserQuestRow,
+  ): Quest {
+    return {
+      id: dbQuest.id,
+      name: dbQuest.name,
+      description: dbQuest.description,
+      type: dbQuest.type,
+      requirements: (dbQuest.requirements as Quest["requirements"]) || {},
+      rewards: (dbQuest.rewards as Quest["rewards"]) || {},
+      isActive: dbProgress?.is_active || false,
+      isCompleted: dbProgress?.is_completed || false,
+      progress: (dbProgress?.progress as Quest["progress"]) || {},
+      startedAt: dbProgress?.started_at
+        ? new Date(dbProgress.started_at)
+        : undefined,
+      completedAt: dbProgress?.completed_at
+        ? new Date(dbProgress.completed_at)
+        : undefined,
+    };
+  }
+
+  private mapDatabaseSagaToSaga(
+    dbSaga: SagaRow,
+    dbProgress?: UserSagaProgressRow,
+  ): Saga {
+    const currentStep = dbProgress?.current_step || 0;
+    const flags = dbProgress?.flags as
+      { stepProgress?: Saga["stepProgress"] } | null | undefined;
+
+    return {
+      id: dbSaga.id,
+      name: dbSaga.name,
+      description: dbSaga.description,
+      totalSteps: dbSaga.total_steps,
+      currentStep,
+      isActive: dbProgress?.is_active || false,
+      isCompleted: dbProgress?.is_completed || false,
+      rewards: (dbSaga.rewards as Saga["rewards"]) || {},
+      stepProgress: flags?.stepProgress || {},
+      steps: (dbSaga.saga_steps || [])
+        .map((step): SagaStep => ({
+          id: step.id,
+          stepNumber: step.step_number,
+          name: step.name,
+          description: step.description,
+          type: step.type,
+          requirements: (step.requirements as SagaStep["requirements"]) || {},
+          rewards: (step.rewards as SagaStep["rewards"]) || {},
+          isCompleted: step.step_number <= currentStep,
+        }))
+        .sort((a: SagaStep, b: SagaStep) => a.stepNumber - b.stepNumber),
+    };
+  }
+}
+
+export const progressionService = ProgressionService.getInstance();
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { startTestGame, TestGame } from "../test/backend";
+import { ShipState } from "../types/game";
+import { ShipUpdate } from "./shipPresenceService";
+
+const SHIP: ShipState = {
+  x: 100,
+  y: 200,
+  angle: 0,
+  vx: 0,
+  vy: 0,
+  cameraX: 100,
+  cameraY: 200,
+};
+
+let game: TestGame;
+
+beforeEach(async () => {
+  game = await startTestGame();
+});
+
+// Another pilot on the same backend, flying with the raw channel API
+const joinAsPilot = async (key: string, username: string) => {
+  const channel = game.supabase.channel("space-map:ships", {
+    config: { presence: { key } },
+  });
+  await new Promise<void>((resolve) =>
+    channel.subscribe((status) => {
+      if (status === "SUBSCRIBED") resolve();
+    }),
+  );
+  await channel.track({ username });
+  return channel;
+};
+
+describe("ship presence", () => {
+  it("keys remote ships by the presence of their pilot", async () => {
+    const { shipPresenceService } = await import("./shipPresenceService");
+    const updates: ShipUpdate[] = [];
+    shipPresenceService.join(
+      { id: "pilot-1", username: "Ana" },
+      { visible: true },
+      { onShipUpdate: (update) => updates.push(update), onPilotLeft: vi.fn() },
+    );
+
+    const remote = await joinAsPilot("pilot-2", "Bia");
+    await vi.waitFor(() =>
+      expect(Object.keys(remote.presenceState())).toHaveLength(2),
+    );
+
+    // Messages naming a pilot who is not on the map are dropped, and the
+    // username always comes from the presence
+    await remote.send({
+      type: "broadcast",
+      event: "ship",
+      payload: { key: "pilot-3", state: SHIP },
+    });
+    await remote.send({
+      type: "broadcast",
+      event: "ship",
+      payload: { key: "pilot-2", username: "Admin", state: SHIP },
+    });
+
+    await vi.waitFor(() => expect(updates).toHaveLength(1));
+    expect(updates[0]).toEqual({
+      userId: "pilot-2",
+      username: "Bia",
+      state: SHIP,
+    });
+
+    shipPresenceService.leave();
+  });
+});
@@ -0,0 +1,127 @@
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "../lib/supabase";
+import { ShipState } from "../types/game";
+
+const CHANNEL_TOPIC = "space-map:ships";
+const SHIP_EVENT = "ship";
+
+export interface ShipPilot {
+  id: string;
+  username: string;
+}
+
+// What every visible client broadcasts about its own ship
+interface ShipMessage {
+  key: string;
+  state: ShipState;
+}
+
+// What a client tracks in presence
+interface PilotPresence {
+  username: string;
+}
+
+// A remote ship, identified by the presence key of its pilot
+export interface ShipUpdate {
+  userId: string;
+  username: string;
+  state: ShipState;
+}
+
+export interface ShipPresenceHandlers {
+  onShipUpdate: (update: ShipUpdate) => void;
+  onPilotLeft: (userId: string) => void;
+}
+
+/**
+ * Shares ship positions between the players on the space map
+ *
+ * Positions go out as `broadcast` messages (never stored), and realtime
+ * presence tells who is flying and when a pilot leaves. A ship is only
+ * shown for a pilot present under the key the message names, and with the
+ * username of that presence, so a message cannot pose as a pilot who is not
+ * on the map. Players who hide their online status still see everyone else
+ * but neither track presence nor broadcast.
+ */
+export class ShipPresenceService {
+  private static instance: ShipPresenceService;
+  private channel: RealtimeChannel | null = null;
+  private pilot: ShipPilot | null = null;
+  // Presence key -> username of the pilots on the map
+  private pilots = new Map<string, string>();
+  private visible = false;
+
+  public static getInstance(): ShipPresenceService {
+    if (!ShipPresenceService.instance) {
+      ShipPresenceService.instance = new ShipPresenceService();
+    }
+    return ShipPresenceService.instance;
+  }
+
+  join(
+    pilot: ShipPilot,
+    { visible }: { visible: boolean },
+    handlers: ShipPresenceHandlers,
+  ): void {
+    this.leave();
+
+    this.pilot = pilot;
+    this.visible = visible;
+    const channel = supabase
+      .channel(CHANNEL_TOPIC, {
+        config: {
+          broadcast: { self: false },
+          presence: { key: pilot.id },
+        },
+      })
+      .on("broadcast", { event: SHIP_EVENT }, ({ payload }) => {
+        const { key, state } = payload as ShipMessage;
+        const username = this.pilots.get(key);
+        if (key === pilot.id || username === undefined) return;
+        handlers.onShipUpdate({ userId: key, username, state });
+      })
+      .on("presence", { event: "sync" }, () => {
+        const presences = channel.presenceState<PilotPresence>();
+        this.pilots = new Map(
+          Object.entries(presences).map(([key, [presence]]) => [
+            key,
+            presence.username,
+          ]),
+        );
+      })
+      .on("presence", { event: "leave" }, ({ key }) => {
+        this.pilots.delete(key);
+        handlers.onPilotLeft(key);
+      });
+    channel.subscribe(async (status) => {
+      if (status === "SUBSCRIBED" && visible) {
+        const presence: PilotPresence = { username: pilot.username };
+        await channel.track(presence);
+      }
+    });
+    this.channel = channel;
+  }
+
+  publish(state: ShipState): void {
+    if (!this.channel || !this.pilot || !this.visible) return;
+
+    const message: ShipMessage = { key: this.pilot.id, state };
+    this.channel
+      .send({ type: "broadcast", event: SHIP_EVENT, payload: message })
+      .catch((error: unknown) =>
+        console.error("Error broadcasting ship state:", error),
+      );
+  }
+
+  leave(): void {
+    if (!this.channel) return;
+
+    // Leaving the channel also ends the presence, which other pilots see
+    supabase.removeChannel(this.channel);
+    this.channel = null;
+    this.pilot = null;
+    this.pilots.clear();
+  }
+}
+
+export const shipPresenceService = ShipPresenceService.getInstance();
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { signUpPlayer, startTestGame, TestGame } from "../test/backend";
+import {
+  buildItem,
+  buildStore,
+  buildStoreItem,
+  insertStore,
+  TEST_NOW,
+} from "../test/fixtures";
+
+let game: TestGame;
+
+beforeEach(async () => {
+  game = await startTestGame();
+});
+
+const HOUR = 60 * 60 * 1000;
+
+describe("getStoreById", () => {
+  it("maps listings, sale discounts and unlimited stock", async () => {
+    const store = await insertStore(
+      game.supabase,
+      buildStore({
+        name: "Corner Shop",
+        inventory: [
+          buildStoreItem({ basePrice: 50, saleDiscount: 20 }),
+          buildStoreItem({ stock: Infinity, maxStock: Infinity }),
+        ],
+      }),
+    );
+
+    const loaded = await game.storeService.getStoreById(store.id);
+
+    expect(loaded?.name).toBe("Corner Shop");
+    expect(loaded?.inventory[0]).toMatchObject({
+      basePrice: 50,
+      currentPrice: 40,
+      isOnSale: true,
+      saleDiscount: 20,
+    });
+    expect(loaded?.inventory[1].stock).toBe(Infinity);
+    expect(loaded?.restockSchedule.nextRestock).toEqual(
+      new Date(TEST_NOW.getTime() + 24 * HOUR),
+    );
+  });
+
+  it("returns null for unknown stores", async () => {
+    expect(await game.storeService.getStoreById("missing")).toBeNull();
+  });
+});
+
+describe("purchaseItem", () => {
+  it("reports the charge and the new balance", async () => {
+    const store = await insertStore(
+      game.supabase,
+      buildStore({
+        inventory: [
+          buildStoreItem({ item: buildItem({ name: "Kiwi" }), basePrice: 25 }),
+        ],
+      }),
+    );
+    const player = await signUpPlayer(game, { xenocoins: 100 });
+
+    const result = await game.storeService.purchaseItem(
+      player.id,
+      store.inventory[0],
+      2,
+      "purchase-1",
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      message: "Successfully purchased 2x Kiwi!",
+      totalCost: 50,
+      currency: "xenocoins",
+      newBalance: 50,
+    });
+  });
+
+  it("explains unmet requirements", async () => {
+    const store = await insertStore(
+      game.supabase,
+      buildStore({
+        inventory: [
+          buildStoreItem({
+            requirements: [
+              {
+                type: "level",
+                value: 10,
+                description: "Requires a level 10 pet",
+              },
+            ],
+          }),
+        ],
+      }),
+    );
+    const player = await signUpPlayer(game, { xenocoins: 100 });
+
+    const result = await game.storeService.purchaseItem(
+      player.id,
+      store.inventory[0],
+      1,
+      "purchase-2",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe("Requires a level 10 pet");
+  });
+});
+
+describe("restockStore", () => {
+  it("waits for the interval, then refills up to the limit", async () => {
+    const store = await insertStore(
+      game.supabase,
+      buildStore({
+        inventory: [buildStoreItem({ stock: 1, maxStock: 5, restockRate: 3 })],
+      }),
+    );
+
+    expect(await game.storeService.restockStore(store.id)).toBe(false);
+
+    vi.setSystemTime(new Date(TEST_NOW.getTime() + 48 * HOUR));
+    expect(await game.storeService.restockStore(store.id)).toBe(true);
+
+    const restocked = await game.storeService.getStoreById(store.id);
+    expect(restocked?.inventory[0].stock).toBe(5);
+    expect(restocked?.restockSchedule.lastRestock).toEqual(
+      new Date(TEST_NOW.getTime() + 48 * HOUR),
+    );
+  });
+});
@@ -1,7 +1,15 @@
 import { supabase } from "../lib/supabase";
 import {
-  logError,
+  Item,
+  ItemRequirement,
+  PurchaseResult,
+  SpecialOffer,
+  Store,
+  StoreItem,
+} from "../types/game";
+import {
   getErrorMessage,
+  logError,
   withErrorHandling,
 } from "../utils/errorHandler";
 
@@ -9,8 +17,16 @@ export interface DatabaseStore {
   id: string;
   name: string;
   description: string;
+  type: Store["type"];
+  npc_dialogue: string | null;
+  open_hour: number;
+  close_hour: number;
+  restock_interval_hours: number;
+  last_restock: string;
+  discount_level: number;
   is_active: boolean;
   created_at: string;
+  updated_at: string;
 }
 
 export interface DatabaseShopItem {
@@ -19,11 +35,32 @@ export interface DatabaseShopItem {
   item_id: string;
   price: number;
   currency: "xenocoins" | "cash";
+  stock: number | null;
   stock_limit: number | null;
+  restock_rate: number;
+  sale_discount: number;
+  is_limited: boolean;
+  requirements: ItemRequirement[];
   is_available: boolean;
+  last_restocked: string;
   created_at: string;
 }
 
+export interface DatabaseShopOffer {
+  id: string;
+  shop_id: string;
+  item_id: string;
+  name: string;
+  description: string | null;
+  sale_price: number;
+  currency: "xenocoins" | "cash";
+  start_date: string;
+  end_date: string;
+  max_purchases: number;
+  current_purchases: number;
+  is_active: boolean;
+}
+
 export interface DatabaseItem {
   id: string;
   name: string;
@@ -41,11 +78,23 @@ export interface DatabaseItem {
 }
 
 export interface StoreWithItems extends DatabaseStore {
+  npcs: { name: string; image_url: string | null } | null;
   shop_items: (DatabaseShopItem & {
     items: DatabaseItem;
   })[];
+  shop_offers: DatabaseShopOffer[];
 }
 
+const STORE_SELECT = `
+  *,
+  npcs (name, image_url),
+  shop_items (
+    *,
+    items (*)
+  ),
+  shop_offers (*)
+`;
+
 export class StoreService {
   private static instance: StoreService;
 
@@ -57,27 +106,27 @@ export class StoreService {
   }
 
   /**
-   * Get all active stores with their items
+   * Get all active stores with their items, applying any restock that came
+   * due since they were last read
    */
-  async getAllStores(): Promise<StoreWithItems[]> {
+  async getAllStores(userId?: string): Promise<Store[]> {
     return withErrorHandling(
       async () => {
-        const { data, error } = await supabase
-          .from("shops")
-          .select(
-            `
-          *,
-          shop_items (
-            *,
-            items (*)
-          )
-        `,
-          )
-          .eq("is_active", true)
-          .order("name");
-
-        if (error) throw error;
-        return data || [];
+        await this.restockDueStores();
+
+        const [storesResult, reputation] = await Promise.all([
+          supabase
+            .from("shops")
+            .select(STORE_SELECT)
+            .eq("is_active", true)
+            .order("name"),
+          this.getUserReputation(userId),
+        ]);
+
+        if (storesResult.error) throw storesResult.error;
+        return (storesResult.data || []).map((store: StoreWithItems) =>
+          this.mapDatabaseStoreToStore(store, reputation[store.id] || 0),
+        );
       },
       "StoreService.getAllStores",
       [],
@@ -87,33 +136,61 @@ export class StoreService {
   /**
    * Get a specific store by ID
    */
-  async getStoreById(storeId: string): Promise<StoreWithItems | null> {
-    return withErrorHandling(
+  async getStoreById(storeId: string, userId?: string): Promise<Store | null> {
+    const store = await withErrorHandling(
       async () => {
-        const { data, error } = await supabase
-          .from("shops")
-          .select(
-            `
-          *,
-          shop_items (
-            *,
-            items (*)
-          )
-        `,
-          )
-          .eq("id", storeId)
-          .eq("is_active", true)
-          .single();
-
-        if (error) {
-          if (error.code === "PGRST116") return null;
-          throw error;
+        const [storeResult, reputation] = await Promise.all([
+          supabase
+            .from("shops")
+            .select(STORE_SELECT)
+            .eq("id", storeId)
+            .eq("is_active", true)
+            .single(),
+          this.getUserReputation(userId),
+        ]);
+
+        if (storeResult.error) {
+          if (storeResult.error.code === "PGRST116") return null;
+          throw storeResult.error;
         }
-        return data;
+        return this.mapDatabaseStoreToStore(
+          storeResult.data,
+          reputation[storeId] || 0,
+        );
       },
       "StoreService.getStoreById",
       null,
     );
+    return store ?? null;
+  }
+
+  /**
+   * Restocks every shop whose restock interval elapsed
+   */
+  async restockDueStores(): Promise<number> {
+    const { data, error } = await supabase.rpc("restock_due_shops");
+    if (error) {
+      logError("StoreService.restockDueStores", error);
+      return 0;
+    }
+    return data || 0;
+  }
+
+  /**
+   * Restocks a single shop if its restock interval elapsed
+   *
+   * @returns false when the shop is not due yet
+   */
+  async restockStore(storeId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc("restock_shop", {
+      p_shop_id: storeId,
+    });
+
+    if (error) {
+      logError("StoreService.restockStore", error);
+      return false;
+    }
+    return !!data;
   }
 
   /**
@@ -159,179 +236,47 @@ export class StoreService {
   }
 
   /**
-   * Purchase an item from a store
+   * Purchase an item from a store. Opening hours, requirements, stock and
+   * special offer limits are all checked by the `purchase_shop_item` RPC,
+   * which charges and delivers in a single transaction.
+   *
+   * Calls sharing an idempotency key run the purchase once; repeats (e.g.
+   * `customFetch` retrying after a lost response) get the original result.
    */
   async purchaseItem(
     userId: string,
-    shopItemId: string,
-    quantity: number = 1,
-  ): Promise<{
-    success: boolean;
-    message: string;
-    newBalance?: { xenocoins: number; cash: number };
-  }> {
-    return withErrorHandling(
-      async () => {
-        // Start a transaction-like operation
-        const { data: shopItem, error: shopError } = await supabase
-          .from("shop_items")
-          .select(
-            `
-          *,
-          items (*),
-          shops (*)
-        `,
-          )
-          .eq("id", shopItemId)
-          .eq("is_available", true)
-          .single();
-
-        if (shopError) {
-          if (shopError.code === "PGRST116") {
-            return { success: false, message: "Item not found or unavailable" };
-          }
-          throw shopError;
-        }
-
-        if (!shopItem) {
-          return { success: false, message: "Item not available" };
-        }
-
-        const totalCost = shopItem.price * quantity;
-
-        // Check user's current balance
-        const { data: profile, error: profileError } = await supabase
-          .from("profiles")
-          .select("xenocoins, cash")
-          .eq("id", userId)
-          .single();
-
-        if (profileError) throw profileError;
-
-        const currentBalance =
-          shopItem.currency === "xenocoins" ? profile.xenocoins : profile.cash;
-
-        if (currentBalance < totalCost) {
-          return {
-            success: false,
-            message: `Insufficient ${shopItem.currency}. You need ${totalCost.toLocaleString()} but have ${currentBalance.toLocaleString()}.`,
-          };
-        }
-
-        // Check stock if limited
-        if (shopItem.stock_limit !== null && shopItem.stock_limit < quantity) {
-          return {
-            success: false,
-            message: `Not enough stock. Only ${shopItem.stock_limit} available.`,
-          };
-        }
-
-        // Deduct currency
-        const newBalance = currentBalance - totalCost;
-        const updateField =
-          shopItem.currency === "xenocoins" ? "xenocoins" : "cash";
-
-        const { error: balanceError } = await supabase
-          .from("profiles")
-          .update({ [updateField]: newBalance })
-          .eq("id", userId);
-
-        if (balanceError) throw balanceError;
-
-        // Add item to inventory
-        const { error: inventoryError } = await supabase
-          .from("inventory")
-          .insert({
-            user_id: userId,
-            item_id: shopItem.item_id,
-            quantity: quantity,
-          });
-
-        if (inventoryError) {
-          // Rollback balance change
-          await supabase
-            .from("profiles")
-            .update({ [updateField]: currentBalance })
-            .eq("id", userId);
-          throw inventoryError;
-        }
-
-        // Update stock if limited
-        if (shopItem.stock_limit !== null) {
-          const { error: stockError } = await supabase
-            .from("shop_items")
-            .update({ stock_limit: shopItem.stock_limit - quantity })
-            .eq("id", shopItemId);
-
-          if (stockError) {
-            console.warn(
-              "Failed to update stock:",
-              getErrorMessage(stockError),
-            );
-          }
-        }
-
-        // Get updated balances
-        const { data: updatedProfile } = await supabase
-          .from("profiles")
-          .select("xenocoins, cash")
-          .eq("id", userId)
-          .single();
-
-        return {
-          success: true,
-          message: `Successfully purchased ${quantity}x ${shopItem.items.name}!`,
-          newBalance: updatedProfile
-            ? {
-                xenocoins: updatedProfile.xenocoins,
-                cash: updatedProfile.cash,
-              }
-            : undefined,
-        };
-      },
-      "StoreService.purchaseItem",
-      {
+    storeItem: StoreItem,
+    quantity: number,
+    idempotencyKey: string,
+  ): Promise<PurchaseResult> {
+    try {
+      const { data, error } = await supabase.rpc("purchase_shop_item", {
+        p_user_id: userId,
+        p_shop_item_id: storeItem.id,
+        p_quantity: quantity,
+        p_idempotency_key: idempotencyKey,
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        message: `Successfully purchased ${quantity}x ${storeItem.item.name}!`,
+        item: storeItem.item,
+        totalCost: data?.totalCost ?? storeItem.currentPrice * quantity,
+        currency: data?.currency ?? storeItem.currency,
+        newBalance: data?.newBalance ?? 0,
+      };
+    } catch (error) {
+      logError("StoreService.purchaseItem", error);
+      return {
         success: false,
-        message: "Purchase failed due to an unexpected error",
-      },
-    );
-  }
-
-  /**
-   * Check if user can afford an item
-   */
-  async canAffordItem(
-    userId: string,
-    shopItemId: string,
-    quantity: number = 1,
-  ): Promise<boolean> {
-    return withErrorHandling(
-      async () => {
-        const { data: shopItem, error: shopError } = await supabase
-          .from("shop_items")
-          .select("price, currency")
-          .eq("id", shopItemId)
-          .single();
-
-        if (shopError) return false;
-
-        const { data: profile, error: profileError } = await supabase
-          .from("profiles")
-          .select("xenocoins, cash")
-          .eq("id", userId)
-          .single();
-
-        if (profileError) return false;
-
-        const totalCost = shopItem.price * quantity;
-        const currentBalance =
-          shopItem.currency === "xenocoins" ? profile.xenocoins : profile.cash;
-
-        return currentBalance >= totalCost;
-      },
-      "StoreService.canAffordItem",
-      false,
-    );
+        message: this.getPurchaseErrorMessage(error),
+        totalCost: 0,
+        currency: storeItem.currency,
+        newBalance: 0,
+      };
+    }
   }
 
   /**
@@ -353,6 +298,185 @@ export class StoreService {
       [],
     );
   }
+
+  private async getUserReputation(
+    userId?: string,
+  ): Promise<Record<string, number>> {
+    if (!userId) return {};
+
+    const { data, error } = await supabase
+      .from("shop_reputation")
+      .select("shop_id, reputation")
+      .eq("user_id", userId);
+
+    if (error) {
+      logError("StoreService.getUserReputation", error);
+      return {};
+    }
+
+    return Object.fromEntries(
+      (data || []).map((row: { shop_id: string; reputation: number }) => [
+        row.shop_id,
+        row.reputation,
+      ]),
+    );
+  }
+
+  private getPurchaseErrorMessage(error: unknown): string {
+    const message = getErrorMessage(error);
+
+    if (message.includes("Requirement not met: ")) {
+      return message.split("Requirement not met: ")[1];
+    }
+    if (message.includes("Shop is closed")) {
+      return "This store is closed right now. Come back during opening hours.";
+    }
+    if (message.includes("Insufficient stock")) {
+      return "Not enough stock left for this purchase.";
+    }
+    if (message.includes("Offer limit reached")) {
+      return "Not enough units left at the special offer price.";
+    }
+    if (message.includes("Connection failed")) {
+      return "Connection problem. The purchase could not be confirmed; check your inventory before trying again.";
+    }
+    if (message.includes("Insufficient funds")) {
+      return "You can't afford this purchase.";
+    }
+    if (message.includes("Item not available")) {
+      return "Item not found or unavailable";
+    }
+    return "Purchase failed due to an unexpected error";
+  }
+
+  // Opening hours are stored in UTC so every player sees the same schedule
+  private isStoreOpen(dbStore: StoreWithItems, now: Date): boolean {
+    const hour = now.getUTCHours();
+    return hour >= dbStore.open_hour && hour < dbStore.close_hour;
+  }
+
+  private mapDatabaseItemToItem(dbItem: DatabaseItem): Item {
+    return {
+      id: dbItem.id,
+      slug: dbItem.name.toLowerCase().replace(/\s+/g, "-"),
+      name: dbItem.name,
+      description: dbItem.description,
+      type: dbItem.type as Item["type"],
+      rarity: dbItem.rarity as Item["rarity"],
+      price: dbItem.price,
+      currency: dbItem.currency,
+      effects: dbItem.effects || {},
+      dailyLimit: dbItem.daily_limit ?? undefined,
+      slot: (dbItem.slot as Item["slot"]) ?? undefined,
+      imageUrl: dbItem.image_url ?? undefined,
+      quantity: 1,
+      createdAt: new Date(dbItem.created_at),
+    };
+  }
+
+  private mapDatabaseOfferToOffer(
+    dbOffer: DatabaseShopOffer,
+    originalPrice: number,
+  ): SpecialOffer {
+    const now = new Date();
+    const startDate = new Date(dbOffer.start_date);
+    const endDate = new Date(dbOffer.end_date);
+
+    return {
+      id: dbOffer.id,
+      name: dbOffer.name,
+      description: dbOffer.description || "",
+      itemId: dbOffer.item_id,
+      originalPrice,
+      salePrice: dbOffer.sale_price,
+      currency: dbOffer.currency,
+      startDate,
+      endDate,
+      maxPurchases: dbOffer.max_purchases,
+      currentPurchases: dbOffer.current_purchases,
+      isActive:
+        dbOffer.is_active &&
+        startDate <= now &&
+        endDate >= now &&
+        dbOffer.current_purchases < dbOffer.max_purchases,
+    };
+  }
+
+  private mapDatabaseStoreToStore(
+    dbStore: StoreWithItems,
+    reputation: number,
+  ): Store {
+    const lastRestock = new Date(dbStore.last_restock);
+    const shopItems = (dbStore.shop_items || []).filter(
+      (shopItem) => shopItem.is_available && shopItem.items,
+    );
+
+    const specialOffers = (dbStore.shop_offers || [])
+      .map((offer) => {
+        const shopItem = shopItems.find((i) => i.item_id === offer.item_id);
+        return this.mapDatabaseOfferToOffer(
+          offer,
+          shopItem?.price ?? offer.sale_price,
+        );
+      })
+      .filter((offer) => offer.isActive);
+
+    const inventory = shopItems.map((shopItem): StoreItem => {
+      const offer = specialOffers.find((o) => o.itemId === shopItem.item_id);
+      const discountedPrice = Math.round(
+        (shopItem.price * (100 - shopItem.sale_discount)) / 100,
+      );
+      const currentPrice = offer?.salePrice ?? discountedPrice;
+
+      return {
+        id: shopItem.id,
+        itemId: shopItem.item_id,
+        item: this.mapDatabaseItemToItem(shopItem.items),
+        basePrice: shopItem.price,
+        currentPrice,
+        currency: offer?.currency ?? shopItem.currency,
+        stock: shopItem.stock ?? Infinity,
+        maxStock: shopItem.stock_limit ?? Infinity,
+        restockRate: shopItem.restock_rate,
+        isLimited: shopItem.is_limited,
+        isOnSale: currentPrice < shopItem.price,
+        saleDiscount: Math.round(
+          ((shopItem.price - currentPrice) / shopItem.price) * 100,
+        ),
+        requirements: shopItem.requirements || [],
+        lastRestocked: new Date(shopItem.last_restocked),
+      };
+    });
+
+    return {
+      id: dbStore.id,
+      name: dbStore.name,
+      description: dbStore.description || "",
+      type: dbStore.type,
+      npcName: dbStore.npcs?.name || "",
+      npcImage: dbStore.npcs?.image_url || "",
+      npcDialogue: dbStore.npc_dialogue || "",
+      inventory,
+      restockSchedule: {
+        interval: dbStore.restock_interval_hours,
+        lastRestock,
+        nextRestock: new Date(
+          lastRestock.getTime() +
+            dbStore.restock_interval_hours * 60 * 60 * 1000,
+        ),
+        items: inventory
+          .filter((item) => item.restockRate > 0 && isFinite(item.maxStock))
+          .map((item) => item.itemId),
+      },
+      specialOffers,
+      isOpen: this.isStoreOpen(dbStore, new Date()),
+      openHours: { start: dbStore.open_hour, end: dbStore.close_hour },
+      reputation,
+      discountLevel: dbStore.discount_level,
+      createdAt: new Date(dbStore.created_at),
+      updatedAt: new Date(dbStore.updated_at),
+    };
+  }
 }
 
 export const storeService = StoreService.getInstance();
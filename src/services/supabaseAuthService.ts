@@ -4,91 +4,9 @@ import {
   LoginCredentials,
   RegisterCredentials,
   AuthResponse,
+  UserPreferences,
 } from "../types/auth";
 
-// Check if we're in mock mode
-const isMockMode =
-  import.meta.env.VITE_SUPABASE_URL?.includes("temp-mock") ||
-  !import.meta.env.VITE_SUPABASE_URL;
-
-// Mock users for demo
-const mockUsers: Record<string, { user: AuthUser; password: string }> = {
-  "demo@example.com": {
-    password: "demo123",
-    user: {
-      id: "demo-user-123",
-      email: "demo@example.com",
-      username: "Demo Player",
-      phone: "+1234567890",
-      isAdmin: false,
-      isVerified: true,
-      language: "en-US",
-      accountScore: 2500,
-      daysPlayed: 15,
-      totalXenocoins: 8450,
-      createdAt: new Date("2024-01-01"),
-      lastLogin: new Date(),
-      preferences: {
-        notifications: true,
-        soundEffects: true,
-        musicVolume: 0.7,
-        language: "en-US",
-        theme: "light" as const,
-        privacy: {
-          showOnline: true,
-          allowDuels: true,
-          allowTrades: true,
-        },
-      },
-    },
-  },
-  "admin@example.com": {
-    password: "admin123",
-    user: {
-      id: "admin-user-456",
-      email: "admin@example.com",
-      username: "Admin User",
-      phone: "+0987654321",
-      isAdmin: true,
-      isVerified: true,
-      language: "en-US",
-      accountScore: 10000,
-      daysPlayed: 50,
-      totalXenocoins: 25000,
-      createdAt: new Date("2023-12-01"),
-      lastLogin: new Date(),
-      preferences: {
-        notifications: true,
-        soundEffects: true,
-        musicVolume: 0.8,
-        language: "en-US",
-        theme: "light" as const,
-        privacy: {
-          showOnline: true,
-          allowDuels: true,
-          allowTrades: true,
-        },
-      },
-    },
-  },
-};
-
-// Store current mock user in localStorage
-const getCurrentMockUser = (): AuthUser | null => {
-  if (!isMockMode) return null;
-  const stored = localStorage.getItem("xenopets-mock-user");
-  return stored ? JSON.parse(stored) : null;
-};
-
-const setCurrentMockUser = (user: AuthUser | null) => {
-  if (!isMockMode) return;
-  if (user) {
-    localStorage.setItem("xenopets-mock-user", JSON.stringify(user));
-  } else {
-    localStorage.removeItem("xenopets-mock-user");
-  }
-};
-
 export class SupabaseAuthService {
   private static instance: SupabaseAuthService;
 
@@ -100,66 +18,6 @@ export class SupabaseAuthService {
   }
 
   async register(credentials: RegisterCredentials): Promise<AuthResponse> {
-    // Mock mode implementation
-    if (isMockMode) {
-      await new Promise((resolve) => setTimeout(resolve, 500)); // Simulate network delay
-
-      // Validate passwords match
-      if (credentials.password !== credentials.confirmPassword) {
-        return {
-          success: false,
-          message: "Passwords do not match",
-          errors: [
-            { field: "confirmPassword", message: "Passwords do not match" },
-          ],
-        };
-      }
-
-      // Check if user already exists
-      if (mockUsers[credentials.email]) {
-        return {
-          success: false,
-          message: "User already exists",
-          errors: [
-            { field: "email", message: "User with this email already exists" },
-          ],
-        };
-      }
-
-      // Create new mock user
-      const newUser: AuthUser = {
-        id: `user-${Date.now()}`,
-        email: credentials.email,
-        username: credentials.username,
-        phone: credentials.phone,
-        isAdmin: credentials.username.toLowerCase() === "vitoca",
-        isVerified: true,
-        language: this.detectLanguage(),
-        accountScore: 0,
-        daysPlayed: 0,
-        totalXenocoins: 0,
-        createdAt: new Date(),
-        lastLogin: new Date(),
-        preferences: this.getDefaultPreferences(),
-      };
-
-      // Store in mock database
-      mockUsers[credentials.email] = {
-        password: credentials.password,
-        user: newUser,
-      };
-
-      // Set as current user
-      setCurrentMockUser(newUser);
-
-      return {
-        success: true,
-        user: newUser,
-        token: "mock-token",
-        message: "Registration successful",
-      };
-    }
-
     try {
       // Validate passwords match
       if (credentials.password !== credentials.confirmPassword) {
@@ -247,32 +105,6 @@ export class SupabaseAuthService {
   }
 
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    // Mock mode implementation
-    if (isMockMode) {
-      await new Promise((resolve) => setTimeout(resolve, 500)); // Simulate network delay
-
-      const mockUser = mockUsers[credentials.email];
-
-      if (!mockUser || mockUser.password !== credentials.password) {
-        return {
-          success: false,
-          message: "Email ou senha inválidos. Por favor, tente novamente.",
-          errors: [{ field: "general", message: "Invalid credentials" }],
-        };
-      }
-
-      // Update last login
-      mockUser.user.lastLogin = new Date();
-      setCurrentMockUser(mockUser.user);
-
-      return {
-        success: true,
-        user: mockUser.user,
-        token: "mock-token",
-        message: "Login successful",
-      };
-    }
-
     try {
       const { data, error } = await supabase.auth.signInWithPassword({
         email: credentials.email,
@@ -353,35 +185,10 @@ export class SupabaseAuthService {
   }
 
   async logout(): Promise<void> {
-    if (isMockMode) {
-      setCurrentMockUser(null);
-      return;
-    }
     await supabase.auth.signOut();
   }
 
   async resetPassword(email: string): Promise<AuthResponse> {
-    // Mock mode implementation
-    if (isMockMode) {
-      await new Promise((resolve) => setTimeout(resolve, 1000)); // Simulate network delay
-
-      if (!mockUsers[email]) {
-        return {
-          success: false,
-          message: "User not found",
-          errors: [
-            { field: "email", message: "No user found with this email" },
-          ],
-        };
-      }
-
-      return {
-        success: true,
-        message:
-          "Password reset link has been sent to your email (mock mode - check console for demo password).",
-      };
-    }
-
     try {
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
         redirectTo: `${window.location.origin}/reset-password`,
@@ -409,12 +216,48 @@ export class SupabaseAuthService {
     }
   }
 
-  async getCurrentUser(): Promise<AuthUser | null> {
-    // Mock mode implementation
-    if (isMockMode) {
-      return getCurrentMockUser();
+  /**
+   * Saves the player's interface language on their profile, both as the
+   * profile language and in their preferences
+   */
+  async updateLanguage(
+    userId: string,
+    language: string,
+    preferences: UserPreferences,
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ language, preferences: { ...preferences, language } })
+        .eq("id", userId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Update language error:", error);
+      return false;
+    }
+  }
+
+  async updatePreferences(
+    userId: string,
+    preferences: UserPreferences,
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ preferences })
+        .eq("id", userId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Update preferences error:", error);
+      return false;
     }
+  }
 
+  async getCurrentUser(): Promise<AuthUser | null> {
     try {
       const {
         data: { user },
@@ -5,6 +5,7 @@ import {
   AuthUser,
   LoginCredentials,
   RegisterCredentials,
+  UserPreferences,
 } from "../types/auth";
 import { supabaseAuthService } from "../services/supabaseAuthService";
 import { useGameStore } from "./gameStore";
@@ -17,6 +18,10 @@ interface AuthStore extends AuthState {
   resetPassword: (email: string) => Promise<boolean>;
   clearError: () => void;
   updateUser: (user: Partial<AuthUser>) => void;
+  updateLanguage: (language: string) => Promise<boolean>;
+  updatePreferences: (
+    preferences: Partial<UserPreferences>,
+  ) => Promise<boolean>;
   setLoading: (loading: boolean) => void;
   initializeAuth: () => Promise<void>;
   setUser: (user: AuthUser | null) => void;
@@ -209,6 +214,39 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      updateLanguage: async (language: string) => {
+        const currentUser = get().user;
+        if (!currentUser) return false;
+
+        const saved = await supabaseAuthService.updateLanguage(
+          currentUser.id,
+          language,
+          currentUser.preferences,
+        );
+        if (saved) {
+          get().updateUser({
+            language,
+            preferences: { ...currentUser.preferences, language },
+          });
+        }
+        return saved;
+      },
+
+      updatePreferences: async (preferences: Partial<UserPreferences>) => {
+        const currentUser = get().user;
+        if (!currentUser) return false;
+
+        const updated = { ...currentUser.preferences, ...preferences };
+        const saved = await supabaseAuthService.updatePreferences(
+          currentUser.id,
+          updated,
+        );
+        if (saved) {
+          get().updateUser({ preferences: updated });
+        }
+        return saved;
+      },
+
       setLoading: (loading: boolean) => set({ isLoading: loading }),
 
       setUser: (user: AuthUser | null) => {
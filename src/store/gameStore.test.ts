@@ -0,0 +1,329 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  giveItem,
+  signUpPlayer,
+  startTestGame,
+  TestGame,
+} from "../test/backend";
+import {
+  buildItem,
+  buildPet,
+  buildStore,
+  buildStoreItem,
+  insertItem,
+  insertPet,
+  insertStore,
+  TEST_NOW,
+} from "../test/fixtures";
+import { Store } from "../types/game";
+
+let game: TestGame;
+
+beforeEach(async () => {
+  game = await startTestGame();
+});
+
+const state = () => game.useGameStore.getState();
+
+const inventoryQuantity = (itemId: string) =>
+  state()
+    .inventory.filter((item) => item.id === itemId)
+    .reduce((total, item) => total + item.quantity, 0);
+
+describe("purchaseStoreItem", () => {
+  let store: Store;
+
+  beforeEach(async () => {
+    store = await insertStore(
+      game.supabase,
+      buildStore({
+        inventory: [
+          buildStoreItem({
+            item: buildItem({ name: "Berry", price: 40 }),
+            basePrice: 40,
+            stock: 3,
+          }),
+        ],
+      }),
+    );
+  });
+
+  const listing = () => store.inventory[0];
+
+  it("charges the player, delivers the item and takes it from stock", async () => {
+    await signUpPlayer(game, { xenocoins: 100 });
+    await state().loadStores();
+
+    const result = await state().purchaseStoreItem(store.id, listing().id, 2);
+
+    expect(result).toMatchObject({ success: true, totalCost: 80 });
+    expect(state().xenocoins).toBe(20);
+    expect(inventoryQuantity(listing().itemId)).toBe(2);
+    expect(state().getStoreById(store.id)?.inventory[0].stock).toBe(1);
+  });
+
+  it("runs a retried purchase only once", async () => {
+    await signUpPlayer(game, { xenocoins: 100 });
+    await state().loadStores();
+
+    await state().purchaseStoreItem(store.id, listing().id, 1, "retry-key");
+    const replay = await state().purchaseStoreItem(
+      store.id,
+      listing().id,
+      1,
+      "retry-key",
+    );
+
+    expect(replay.success).toBe(true);
+    expect(state().xenocoins).toBe(60);
+    expect(inventoryQuantity(listing().itemId)).toBe(1);
+  });
+
+  it("leaves balance and inventory alone when the player can't pay", async () => {
+    await signUpPlayer(game, { xenocoins: 30 });
+    await state().loadStores();
+
+    const result = await state().purchaseStoreItem(store.id, listing().id, 1);
+
+    expect(result).toMatchObject({
+      success: false,
+      message: "You can't afford this purchase.",
+      newBalance: 30,
+    });
+    expect(state().xenocoins).toBe(30);
+    expect(inventoryQuantity(listing().itemId)).toBe(0);
+  });
+
+  it("refuses to sell more than the stock", async () => {
+    await signUpPlayer(game, { xenocoins: 1000 });
+    await state().loadStores();
+
+    const result = await state().purchaseStoreItem(store.id, listing().id, 4);
+
+    expect(result.message).toBe("Not enough stock left for this purchase.");
+    expect(state().xenocoins).toBe(1000);
+  });
+
+  it("refuses to sell while the store is closed", async () => {
+    const nightShop = await insertStore(
+      game.supabase,
+      buildStore({ openHours: { start: 0, end: 6 } }),
+    );
+    await signUpPlayer(game, { xenocoins: 1000 });
+    await state().loadStores();
+
+    const result = await state().purchaseStoreItem(
+      nightShop.id,
+      nightShop.inventory[0].id,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/closed/);
+    expect(state().xenocoins).toBe(1000);
+  });
+});
+
+describe("useItem", () => {
+  it("applies the item's effects and consumes one from the stack", async () => {
+    const player = await signUpPlayer(game);
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id, hunger: 4, strength: 2 }),
+    );
+    const snack = await insertItem(
+      game.supabase,
+      buildItem({ effects: { hunger: 3, strength: 1 } }),
+    );
+    await giveItem(game, player, snack.id, 2);
+    await state().loadUserData(player.id);
+
+    const [stack] = state().inventory;
+    const used = await state().useItem(stack.inventoryId!, pet.id);
+
+    expect(used).toBe(true);
+    expect(inventoryQuantity(snack.id)).toBe(1);
+
+    const storedPet = await game.gameService.getPetById(pet.id);
+    expect(storedPet).toMatchObject({ hunger: 7, strength: 3 });
+    expect(state().pets[0]).toMatchObject({ hunger: 7, strength: 3 });
+  });
+
+  it("adds the effects to the care the pet has left", async () => {
+    const player = await signUpPlayer(game);
+    // Sanguine dragons lose 0.3125 hunger per hour
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id, species: "Dragon", hunger: 5 }),
+    );
+    const snack = await insertItem(
+      game.supabase,
+      buildItem({ effects: { hunger: 1 } }),
+    );
+    await giveItem(game, player, snack.id);
+    await state().loadUserData(player.id);
+
+    vi.setSystemTime(TEST_NOW.getTime() + 6 * 60 * 60 * 1000);
+    await state().useItem(state().inventory[0].inventoryId!, pet.id);
+
+    const { data } = await game.supabase
+      .from("pets")
+      .select("hunger")
+      .eq("id", pet.id)
+      .single();
+    expect(data?.hunger).toBe(4.125);
+    expect(inventoryQuantity(snack.id)).toBe(0);
+  });
+
+  it("refuses an item that is reserved in a pending trade", async () => {
+    const friend = await signUpPlayer(game);
+    const player = await signUpPlayer(game);
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id }),
+    );
+    const snack = await insertItem(game.supabase, buildItem());
+    const stack = await giveItem(game, player, snack.id);
+    await state().createTrade(friend.id, {
+      initiatorItems: [{ inventoryId: stack.id, quantity: 1 }],
+      recipientItems: [],
+      initiatorXenocoins: 0,
+      recipientXenocoins: 0,
+    });
+    await state().loadUserData(player.id);
+
+    const used = await state().useItem(stack.id, pet.id);
+
+    expect(used).toBe(false);
+    expect(inventoryQuantity(snack.id)).toBe(1);
+    expect(state().notifications[0].title).toBe("Item reservado");
+  });
+});
+
+describe("syncProgress", () => {
+  it("completes quests from the counters the database advanced", async () => {
+    const player = await signUpPlayer(game);
+    const pet = await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id }),
+    );
+    const snack = await insertItem(
+      game.supabase,
+      buildItem({ effects: { hunger: 1 } }),
+    );
+    const stack = await giveItem(game, player, snack.id);
+    await game.gameService.applyItemToPet(player.id, pet.id, stack.id);
+
+    await state().syncProgress();
+
+    expect(
+      state().quests.find((quest) => quest.name === "Welcome to Xenopets"),
+    ).toMatchObject({ isCompleted: true });
+    // 50 for the quest and 100 for the "First Steps" achievement
+    expect(state().xenocoins).toBe(150);
+  });
+
+  it("counts only the first landing on a planet", async () => {
+    const player = await signUpPlayer(game);
+    const { data: planets } = await game.supabase
+      .from("world_positions")
+      .select("id");
+    const planetId = planets![0].id;
+
+    await game.gameService.recordPlanetLanding(player.id, planetId);
+    await game.gameService.recordPlanetLanding(player.id, planetId);
+    await state().syncProgress();
+
+    const { data: visits } = await game.supabase
+      .from("user_planet_visits")
+      .select("*")
+      .eq("user_id", player.id);
+    expect(visits).toHaveLength(1);
+    expect(
+      state().quests.find((quest) => quest.name === "Forest Explorer"),
+    ).toMatchObject({ isCompleted: true });
+    expect(state().xenocoins).toBe(100);
+  });
+});
+
+describe("loadUserAchievements", () => {
+  it("unlocks achievements from server counters and gauges", async () => {
+    const player = await signUpPlayer(game);
+    await insertPet(
+      game.supabase,
+      buildPet({ ownerId: player.id, happiness: 10 }),
+    );
+
+    await state().loadUserAchievements();
+
+    const unlocked = state()
+      .achievements.filter((achievement) => achievement.isUnlocked)
+      .map((achievement) => achievement.name);
+    expect(unlocked).toEqual(
+      expect.arrayContaining(["First Steps", "Pet Lover"]),
+    );
+  });
+});
+
+describe("redeemCode", () => {
+  it("pays the rewards once per player", async () => {
+    const player = await signUpPlayer(game);
+
+    const first = await state().redeemCode(" welcome ");
+    const second = await state().redeemCode("WELCOME");
+
+    expect(first.success).toBe(true);
+    expect(second).toEqual({
+      success: false,
+      message: "Você já resgatou este código",
+    });
+    expect(state()).toMatchObject({ xenocoins: 1000, cash: 10 });
+    expect(state().user?.accountScore).toBe(100);
+    expect(await game.gameService.getUserCurrency(player.id)).toEqual({
+      xenocoins: 1000,
+      cash: 10,
+    });
+  });
+
+  it("rejects unknown codes without paying anything", async () => {
+    await signUpPlayer(game);
+
+    const result = await state().redeemCode("NOT-A-CODE");
+
+    expect(result).toEqual({
+      success: false,
+      message: "Código inválido ou expirado",
+    });
+    expect(state()).toMatchObject({ xenocoins: 0, cash: 0 });
+  });
+});
+
+describe("dailyCheckin", () => {
+  it("pays the day's reward and can only be claimed once a day", async () => {
+    await signUpPlayer(game);
+    await state().loadCheckinStatus();
+
+    expect(await state().dailyCheckin()).toBe(true);
+    expect(state().xenocoins).toBe(100);
+    expect(state().checkinStatus).toMatchObject({
+      checkedInToday: true,
+      currentStreak: 1,
+    });
+
+    expect(await state().dailyCheckin()).toBe(false);
+    expect(state().xenocoins).toBe(100);
+  });
+
+  it("keeps the streak going on consecutive days", async () => {
+    await signUpPlayer(game);
+    await state().loadCheckinStatus();
+    await state().dailyCheckin();
+
+    vi.setSystemTime(new Date("2025-07-15T09:00:00.000Z"));
+    await state().loadCheckinStatus();
+
+    expect(state().canClaimDailyCheckin()).toBe(true);
+    expect(await state().dailyCheckin()).toBe(true);
+    expect(state().getDailyCheckinStreak()).toBe(2);
+    expect(state().xenocoins).toBe(200);
+  });
+});
@@ -11,16 +11,32 @@ import {
   Quest,
   RedeemCode,
   WorldPosition,
+  WorldLayout,
+  Trade,
+  TradeItem,
+  Saga,
+  Store,
+  StoreItem,
+  StoreType,
+  PurchaseResult,
+  CheckinStatus,
+  ShipState,
 } from "../types/game";
 import { gameService } from "../services/gameService";
+import { storeService } from "../services/storeService";
+import {
+  progressionService,
+  ProgressionResult,
+} from "../services/progressionService";
+import { achievementService } from "../services/achievementService";
 import { playNotificationSound } from "../utils/soundManager";
+import { PET_STAT_KEYS } from "../utils/petStats";
+import { getTranslator, t } from "../i18n";
 
 interface GameStore extends GameState {
   // Core actions
   setUser: (user: User | null) => void;
   setActivePet: (pet: Pet | null) => void;
-  setCurrentScreen: (screen: string) => void;
-  setViewedUserId: (userId: string | null) => void;
 
   // Planet management
   currentPlanet: { id: string; name: string; color: string } | null;
@@ -51,13 +67,7 @@ interface GameStore extends GameState {
   createPet: (
     petData: Omit<Pet, "id" | "createdAt" | "updatedAt">,
   ) => Promise<Pet | null>;
-  updatePetStats: (petId: string, stats: Partial<Pet>) => Promise<boolean>;
-
-  // Currency management
-  updateCurrency: (
-    type: "xenocoins" | "cash",
-    amount: number,
-  ) => Promise<boolean>;
+  refreshPets: () => Promise<void>;
 
   // Inventory management
   addToInventory: (item: Item) => Promise<boolean>;
@@ -69,6 +79,8 @@ interface GameStore extends GameState {
   getUniversalItem: (slug: string) => Promise<Item | null>;
 
   // Store management
+  stores: Store[];
+  loadStores: () => Promise<void>;
   getAllStores: () => Store[];
   getStoreById: (storeId: string) => Store | null;
   getStoresByType: (type: StoreType) => Store[];
@@ -76,6 +88,7 @@ interface GameStore extends GameState {
     storeId: string,
     itemId: string,
     quantity?: number,
+    idempotencyKey?: string,
   ) => Promise<PurchaseResult>;
   getStoreInventory: (storeId: string) => StoreItem[];
   restockStore: (storeId: string) => Promise<boolean>;
@@ -97,47 +110,58 @@ interface GameStore extends GameState {
   getCollectedCollectibles: () => Collectible[];
   getTotalCollectiblePoints: () => number;
   collectItem: (collectibleName: string) => Promise<boolean>;
+  recordSpaceKill: (entityId: string) => Promise<void>;
 
   // Player search and profiles
   searchPlayers: (query: string) => Promise<User[]>;
   getPlayerProfile: (userId: string) => Promise<User | null>;
 
+  // Trading
+  trades: Trade[];
+  loadTrades: () => Promise<void>;
+  createTrade: (
+    recipientId: string,
+    offer: {
+      initiatorItems: Omit<TradeItem, "itemId">[];
+      recipientItems: Omit<TradeItem, "itemId">[];
+      initiatorXenocoins: number;
+      recipientXenocoins: number;
+    },
+  ) => Promise<boolean>;
+  confirmTrade: (tradeId: string) => Promise<boolean>;
+  cancelTrade: (tradeId: string) => Promise<boolean>;
+
+  // Quests and sagas
+  sagas: Saga[];
+  loadQuests: () => Promise<void>;
+  syncProgress: () => Promise<void>;
+  advanceSagaStep: (sagaId: string) => Promise<boolean>;
+
   // Redeem codes
   getAllRedeemCodes: () => RedeemCode[];
   getActiveRedeemCodes: () => RedeemCode[];
+  loadRedeemCodes: () => Promise<void>;
   createRedeemCode: (
     codeData: Omit<RedeemCode, "id" | "createdAt" | "currentUses" | "usedBy">,
-  ) => void;
-  updateRedeemCode: (codeId: string, updates: Partial<RedeemCode>) => void;
-  deleteRedeemCode: (codeId: string) => void;
+  ) => Promise<boolean>;
+  updateRedeemCode: (
+    codeId: string,
+    updates: Partial<RedeemCode>,
+  ) => Promise<boolean>;
+  deleteRedeemCode: (codeId: string) => Promise<boolean>;
   redeemCode: (code: string) => Promise<{ success: boolean; message: string }>;
 
   // Daily check-in system
-  dailyCheckin: () => void;
+  checkinStatus: CheckinStatus | null;
+  loadCheckinStatus: () => Promise<void>;
+  dailyCheckin: () => Promise<boolean>;
   canClaimDailyCheckin: () => boolean;
   getDailyCheckinStreak: () => number;
-  canClaimWeeklyReward: () => boolean;
-  claimWeeklyReward: () => void;
 
   // Ship state management
-  updateShipState: (shipState: {
-    x: number;
-    y: number;
-    angle: number;
-    vx: number;
-    vy: number;
-    cameraX: number;
-    cameraY: number;
-  }) => void;
-  getShipState: () => {
-    x: number;
-    y: number;
-    angle: number;
-    vx: number;
-    vy: number;
-    cameraX: number;
-    cameraY: number;
-  } | null;
+  updateShipState: (shipState: ShipState) => void;
+  getShipState: () => ShipState | null;
+  discoverSectors: (sectors: number[]) => void;
 
   // World positions management
   worldPositions: WorldPosition[];
@@ -147,6 +171,8 @@ interface GameStore extends GameState {
     updates: Partial<WorldPosition>,
   ) => void;
   loadWorldPositions: () => Promise<void>;
+  saveWorldLayout: (changes: WorldLayout[], note?: string) => Promise<boolean>;
+  rollbackWorldLayout: (version: number) => Promise<boolean>;
   subscribeToWorldPositions: () => void;
   unsubscribeFromWorldPositions: () => void;
 
@@ -157,327 +183,8 @@ interface GameStore extends GameState {
   unsubscribeFromRealtimeUpdates: () => void;
 }
 
-// Store-related types
-export interface Store {
-  id: string;
-  name: string;
-  description: string;
-  type: StoreType;
-  npcName: string;
-  npcImage: string;
-  npcDialogue: string;
-
-  inventory: StoreItem[];
-  restockSchedule: RestockSchedule;
-  specialOffers: SpecialOffer[];
-  isOpen: boolean;
-  openHours: { start: number; end: number };
-  reputation: number;
-  discountLevel: number;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export interface StoreItem {
-  id: string;
-  itemSlug: string;
-  basePrice: number;
-  currentPrice: number;
-  currency: "xenocoins" | "cash";
-  stock: number;
-  maxStock: number;
-  restockRate: number;
-  isLimited: boolean;
-  isOnSale: boolean;
-  saleDiscount: number;
-  requirements?: ItemRequirement[];
-  lastRestocked: Date;
-}
-
-export interface ItemRequirement {
-  type: "level" | "achievement" | "item" | "currency" | "reputation";
-  value: string | number;
-  description: string;
-}
-
-export interface RestockSchedule {
-  interval: number; // hours
-  lastRestock: Date;
-  nextRestock: Date;
-  items: string[]; // item slugs to restock
-}
-
-export interface SpecialOffer {
-  id: string;
-  name: string;
-  description: string;
-  itemSlug: string;
-  originalPrice: number;
-  salePrice: number;
-  currency: "xenocoins" | "cash";
-  startDate: Date;
-  endDate: Date;
-  maxPurchases: number;
-  currentPurchases: number;
-  isActive: boolean;
-}
-
-export interface PurchaseResult {
-  success: boolean;
-  message: string;
-  item?: Item;
-  totalCost: number;
-  currency: "xenocoins" | "cash";
-  newBalance: number;
-}
-
-export type StoreType =
-  | "general"
-  | "equipment"
-  | "food"
-  | "potions"
-  | "collectibles"
-  | "premium"
-  | "seasonal";
-
-// Mock store data - in a real app, this would come from your database
-const mockStores: Store[] = [
-  {
-    id: "woodland-general",
-    name: "Woodland General Store",
-    description:
-      "Your one-stop shop for basic pet care items and everyday necessities",
-    type: "general",
-    npcName: "Merchant Maya",
-    npcImage:
-      "https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=200",
-    npcDialogue:
-      "Welcome to my shop, traveler! I have the finest items for your pets. What can I help you find today?",
-
-    inventory: [
-      {
-        id: "si1",
-        itemSlug: "health-potion-1",
-        basePrice: 50,
-        currentPrice: 50,
-        currency: "xenocoins",
-        stock: 25,
-        maxStock: 50,
-        restockRate: 5,
-        isLimited: false,
-        isOnSale: false,
-        saleDiscount: 0,
-        lastRestocked: new Date(),
-      },
-      {
-        id: "si2",
-        itemSlug: "magic-apple-1",
-        basePrice: 25,
-        currentPrice: 20,
-        currency: "xenocoins",
-        stock: 30,
-        maxStock: 40,
-        restockRate: 8,
-        isLimited: false,
-        isOnSale: true,
-        saleDiscount: 20,
-        lastRestocked: new Date(),
-      },
-      {
-        id: "si3",
-        itemSlug: "happiness-toy-1",
-        basePrice: 30,
-        currentPrice: 30,
-        currency: "xenocoins",
-        stock: 15,
-        maxStock: 20,
-        restockRate: 3,
-        isLimited: false,
-        isOnSale: false,
-        saleDiscount: 0,
-        lastRestocked: new Date(),
-      },
-    ],
-    restockSchedule: {
-      interval: 6,
-      lastRestock: new Date(),
-      nextRestock: new Date(Date.now() + 6 * 60 * 60 * 1000),
-      items: ["health-potion-1", "magic-apple-1", "happiness-toy-1"],
-    },
-    specialOffers: [
-      {
-        id: "weekly-apple-deal",
-        name: "Weekly Apple Special",
-        description: "Get Magic Apples at 20% off this week!",
-        itemSlug: "magic-apple-1",
-        originalPrice: 25,
-        salePrice: 20,
-        currency: "xenocoins",
-        startDate: new Date(Date.now() - 24 * 60 * 60 * 1000),
-        endDate: new Date(Date.now() + 6 * 24 * 60 * 60 * 1000),
-        maxPurchases: 100,
-        currentPurchases: 23,
-        isActive: true,
-      },
-    ],
-    isOpen: true,
-    openHours: { start: 6, end: 22 },
-    reputation: 0,
-    discountLevel: 0,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    id: "oasis-trading",
-    name: "Oasis Trading Post",
-    description: "Rare items and equipment for the adventurous explorer",
-    type: "equipment",
-    npcName: "Desert Trader Zara",
-    npcImage:
-      "https://images.pexels.com/photos/1181690/pexels-photo-1181690.jpeg?auto=compress&cs=tinysrgb&w=200",
-    npcDialogue:
-      "Ah, a fellow traveler! The desert has been kind to me, and I have rare treasures to share. Perhaps something for your companions?",
-
-    inventory: [
-      {
-        id: "si4",
-        itemSlug: "energy-drink-1",
-        basePrice: 75,
-        currentPrice: 75,
-        currency: "xenocoins",
-        stock: 12,
-        maxStock: 15,
-        restockRate: 2,
-        isLimited: false,
-        isOnSale: false,
-        saleDiscount: 0,
-        lastRestocked: new Date(),
-      },
-      {
-        id: "si5",
-        itemSlug: "desert-crystal-1",
-        basePrice: 200,
-        currentPrice: 200,
-        currency: "xenocoins",
-        stock: 5,
-        maxStock: 8,
-        restockRate: 1,
-        isLimited: true,
-        isOnSale: false,
-        saleDiscount: 0,
-        requirements: [
-          {
-            type: "level",
-            value: 5,
-            description: "Requires pet level 5 or higher",
-          },
-        ],
-        lastRestocked: new Date(),
-      },
-    ],
-    restockSchedule: {
-      interval: 12,
-      lastRestock: new Date(),
-      nextRestock: new Date(Date.now() + 12 * 60 * 60 * 1000),
-      items: ["energy-drink-1", "desert-crystal-1"],
-    },
-    specialOffers: [],
-    isOpen: true,
-    openHours: { start: 8, end: 20 },
-    reputation: 0,
-    discountLevel: 0,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    id: "mountain-armory",
-    name: "Mountain Armory",
-    description: "Premium equipment and weapons for serious trainers",
-    type: "equipment",
-    npcName: "Blacksmith Boris",
-    npcImage:
-      "https://images.pexels.com/photos/1040880/pexels-photo-1040880.jpeg?auto=compress&cs=tinysrgb&w=200",
-    npcDialogue:
-      "Welcome to my forge! These mountains provide the finest materials for crafting. Your pets deserve the best protection and weapons!",
-
-    inventory: [
-      {
-        id: "si6",
-        itemSlug: "iron-armor-1",
-        basePrice: 500,
-        currentPrice: 500,
-        currency: "xenocoins",
-        stock: 3,
-        maxStock: 5,
-        restockRate: 1,
-        isLimited: true,
-        isOnSale: false,
-        saleDiscount: 0,
-        requirements: [
-          {
-            type: "level",
-            value: 10,
-            description: "Requires pet level 10 or higher",
-          },
-        ],
-        lastRestocked: new Date(),
-      },
-      {
-        id: "si7",
-        itemSlug: "crystal-sword-1",
-        basePrice: 1000,
-        currentPrice: 1000,
-        currency: "xenocoins",
-        stock: 2,
-        maxStock: 3,
-        restockRate: 1,
-        isLimited: true,
-        isOnSale: false,
-        saleDiscount: 0,
-        requirements: [
-          {
-            type: "level",
-            value: 15,
-            description: "Requires pet level 15 or higher",
-          },
-          {
-            type: "achievement",
-            value: "First Battle Victory",
-            description: "Must have won at least one battle",
-          },
-        ],
-        lastRestocked: new Date(),
-      },
-      {
-        id: "si8",
-        itemSlug: "premium-elixir-1",
-        basePrice: 5,
-        currentPrice: 5,
-        currency: "cash",
-        stock: 10,
-        maxStock: 10,
-        restockRate: 2,
-        isLimited: false,
-        isOnSale: false,
-        saleDiscount: 0,
-        lastRestocked: new Date(),
-      },
-    ],
-    restockSchedule: {
-      interval: 24,
-      lastRestock: new Date(),
-      nextRestock: new Date(Date.now() + 24 * 60 * 60 * 1000),
-      items: ["iron-armor-1", "crystal-sword-1", "premium-elixir-1"],
-    },
-    specialOffers: [],
-    isOpen: true,
-    openHours: { start: 7, end: 19 },
-    reputation: 0,
-    discountLevel: 0,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-];
+// Stats an item can change when it is used on a pet
+const ITEM_EFFECT_STATS: string[] = [...PET_STAT_KEYS, "happiness", "hunger"];
 
 // Mock universal items database
 const universalItems: Record<string, Item> = {
@@ -638,6 +345,149 @@ const rehydrateDates = (obj: any): any => {
   return obj;
 };
 
+// Escrow moves items and xenocoins, so trade actions reload all three together
+const loadTradeState = async (userId: string) => {
+  const [trades, inventory, currency] = await Promise.all([
+    gameService.getUserTrades(userId),
+    gameService.getUserInventory(userId),
+    gameService.getUserCurrency(userId),
+  ]);
+
+  return {
+    trades,
+    inventory,
+    ...(currency && { xenocoins: currency.xenocoins, cash: currency.cash }),
+  };
+};
+
+// Reports an admin change to redeem codes and reloads them when it went through
+const applyRedeemCodeChange = async (result: {
+  success: boolean;
+  message: string;
+}) => {
+  const { addNotification, loadRedeemCodes } = useGameStore.getState();
+
+  addNotification({
+    type: result.success ? "success" : "error",
+    title: result.success ? t("redeem.adminTitle") : t("common.error"),
+    message: result.message,
+    isRead: false,
+  });
+
+  if (result.success) {
+    await loadRedeemCodes();
+  }
+  return result.success;
+};
+
+// Reports a world editor save or rollback and moves the worlds when it went through
+const applyWorldLayoutResult = (
+  result: { success: boolean; message: string },
+  layout: WorldLayout[],
+) => {
+  const { addNotification, worldPositions } = useGameStore.getState();
+
+  addNotification({
+    type: result.success ? "success" : "error",
+    title: result.success ? t("worldEditor.title") : t("common.error"),
+    message: result.message,
+    isRead: false,
+  });
+
+  if (result.success) {
+    const saved = new Map(layout.map((world) => [world.id, world]));
+    useGameStore.setState({
+      worldPositions: worldPositions.map((world) =>
+        saved.has(world.id)
+          ? { ...world, ...saved.get(world.id), updatedAt: new Date() }
+          : world,
+      ),
+    });
+  }
+  return result.success;
+};
+
+// Announces finished quests/saga steps and reloads what their rewards changed
+const applyProgressionResult = async (result: ProgressionResult) => {
+  const { user, addNotification } = useGameStore.getState();
+  if (!user) return;
+
+  const completedCount =
+    result.completedQuests.length + result.completedSteps.length;
+
+  result.completedQuests.forEach((quest) =>
+    addNotification({
+      type: "success",
+      title: t("progression.questCompleted"),
+      message: quest.name,
+      isRead: false,
+    }),
+  );
+  result.completedSteps.forEach(({ saga, step }) =>
+    addNotification({
+      type: "success",
+      title: t("progression.stepCompleted", { saga: saga.name }),
+      message: step.name,
+      isRead: false,
+    }),
+  );
+  result.completedSagas.forEach((saga) =>
+    addNotification({
+      type: "achievement",
+      title: t("progression.sagaCompleted"),
+      message: saga.name,
+      isRead: false,
+    }),
+  );
+
+  const [quests, sagas] = await Promise.all([
+    progressionService.getUserQuests(user.id),
+    progressionService.getUserSagas(user.id),
+  ]);
+  useGameStore.setState({ quests, sagas });
+
+  if (completedCount > 0) {
+    const [inventory, currency] = await Promise.all([
+      gameService.getUserInventory(user.id),
+      gameService.getUserCurrency(user.id),
+    ]);
+    useGameStore.setState({
+      inventory,
+      ...(currency && { xenocoins: currency.xenocoins, cash: currency.cash }),
+    });
+  }
+};
+
+// Announces unlocked achievements and reloads what their rewards changed
+const applyUnlockedAchievements = async (unlocked: Achievement[]) => {
+  const { user, addNotification } = useGameStore.getState();
+  if (!user || unlocked.length === 0) return;
+
+  unlocked.forEach((achievement) =>
+    addNotification({
+      type: "achievement",
+      title: t("achievements.unlocked"),
+      message: achievement.name,
+      isRead: false,
+    }),
+  );
+
+  const [achievements, currency] = await Promise.all([
+    gameService.getUserAchievements(user.id),
+    gameService.getUserCurrency(user.id),
+  ]);
+  useGameStore.setState({
+    achievements,
+    ...(currency && { xenocoins: currency.xenocoins, cash: currency.cash }),
+  });
+
+  if (unlocked.some((achievement) => "items" in achievement.rewards)) {
+    useGameStore.setState({
+      inventory: await gameService.getUserInventory(user.id),
+    });
+  }
+};
+
 export const useGameStore = create<GameStore>()(
   persist(
     (set, get) => ({
@@ -650,51 +500,18 @@ export const useGameStore = create<GameStore>()(
       cash: 0,
       notifications: [],
       language: "pt-BR",
-      currentScreen: "pet",
       currentPlanet: null,
       isWorldEditMode: false,
       achievements: [],
       collectibles: [],
       quests: [],
-      redeemCodes: [
-        {
-          id: "alpha-code-1",
-          code: "ALPHA2025",
-          name: "Pacote Alpha",
-          description: "Recompensas especiais para jogadores alpha",
-          rewards: {
-            xenocoins: 5000,
-            cash: 50,
-            collectibles: ["Ovo Alpha"],
-            accountPoints: 1000,
-          },
-          maxUses: 100,
-          currentUses: 0,
-          isActive: true,
-          createdBy: "system",
-          createdAt: new Date(),
-          usedBy: [],
-        },
-        {
-          id: "welcome-code-1",
-          code: "WELCOME",
-          name: "Pacote de Boas-vindas",
-          description: "Recompensas para novos jogadores",
-          rewards: {
-            xenocoins: 1000,
-            cash: 10,
-            accountPoints: 100,
-          },
-          maxUses: -1,
-          currentUses: 0,
-          isActive: true,
-          createdBy: "system",
-          createdAt: new Date(),
-          usedBy: [],
-        },
-      ],
-      viewedUserId: null,
+      redeemCodes: [],
       shipState: null,
+      discoveredSectors: [],
+      trades: [],
+      sagas: [],
+      stores: [],
+      checkinStatus: null,
 
       // World positions state
       worldPositions: [],
@@ -715,15 +532,10 @@ export const useGameStore = create<GameStore>()(
             selectedEggForHatching: null,
             isHatchingInProgress: false,
             hatchingEgg: null,
+            discoveredSectors: [],
           });
         } else if (!user) {
-          // Logging out, clear all user-specific state and localStorage
-          if (state.user) {
-            // Clear user-specific localStorage items
-            localStorage.removeItem(`lastCheckin_${state.user.id}`);
-            localStorage.removeItem(`checkinStreak_${state.user.id}`);
-          }
-
+          // Logging out, clear all user-specific state
           set({
             user: null,
             pets: [],
@@ -733,18 +545,30 @@ export const useGameStore = create<GameStore>()(
             notifications: [],
             achievements: [],
             collectibles: [],
+            trades: [],
+            quests: [],
+            sagas: [],
+            redeemCodes: [],
+            checkinStatus: null,
             selectedEggForHatching: null,
             isHatchingInProgress: false,
             hatchingEgg: null,
+            discoveredSectors: [],
           });
         } else {
           set({ user });
         }
       },
       setActivePet: (pet) => set({ activePet: pet }),
-      setCurrentScreen: (screen) => set({ currentScreen: screen }),
-      setViewedUserId: (userId) => set({ viewedUserId: userId }),
-      setCurrentPlanet: (planet) => set({ currentPlanet: planet }),
+      setCurrentPlanet: (planet) => {
+        set({ currentPlanet: planet });
+        const userId = get().user?.id;
+        if (planet && userId) {
+          gameService
+            .recordPlanetLanding(userId, planet.id)
+            .then(() => get().syncProgress());
+        }
+      },
 
       // World editing mode
       setWorldEditMode: (enabled) => {
@@ -801,6 +625,7 @@ export const useGameStore = create<GameStore>()(
               pets: [...state.pets, newPet],
               activePet: state.activePet || newPet,
             }));
+            get().syncProgress();
           }
           return newPet;
         } catch (error) {
@@ -809,49 +634,20 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
-      updatePetStats: async (petId, stats) => {
-        try {
-          const success = await gameService.updatePetStats(petId, stats);
-          if (success) {
-            set((state) => ({
-              pets: state.pets.map((pet) =>
-                pet.id === petId
-                  ? { ...pet, ...stats, updatedAt: new Date() }
-                  : pet,
-              ),
-              activePet:
-                state.activePet?.id === petId
-                  ? { ...state.activePet, ...stats, updatedAt: new Date() }
-                  : state.activePet,
-            }));
-          }
-          return success;
-        } catch (error) {
-          console.error("Error updating pet stats:", error);
-          return false;
-        }
-      },
-
-      // Currency management
-      updateCurrency: async (type, amount) => {
+      refreshPets: async () => {
         const state = get();
-        if (!state.user) return false;
+        if (!state.user) return;
 
         try {
-          const success = await gameService.updateUserCurrency(
-            state.user.id,
-            type,
-            amount,
-          );
-          if (success) {
-            set((state) => ({
-              [type]: Math.max(0, state[type] + amount),
-            }));
-          }
-          return success;
+          const pets = await gameService.getUserPets(state.user.id);
+          set((state) => ({
+            pets,
+            activePet: state.activePet
+              ? pets.find((pet) => pet.id === state.activePet?.id) || null
+              : state.activePet,
+          }));
         } catch (error) {
-          console.error("Error updating currency:", error);
-          return false;
+          console.error("Error refreshing pets:", error);
         }
       },
 
@@ -889,6 +685,8 @@ export const useGameStore = create<GameStore>()(
                 ],
               }));
             }
+
+            get().syncProgress();
           }
           return !!result;
         } catch (error) {
@@ -950,106 +748,95 @@ export const useGameStore = create<GameStore>()(
         const item = state.inventory.find(
           (i) => (i.inventoryId || i.id) === inventoryItemId,
         );
-        const pet = state.pets.find((p) => p.id === petId);
+        const cachedPet = state.pets.find((p) => p.id === petId);
 
-        if (!item || !pet || !item.effects) return false;
+        if (!state.user || !item || !cachedPet || !item.effects) return false;
 
-        try {
-          // Apply item effects to pet
-          const statUpdates: Partial<Pet> = {};
-          let hasValidEffects = false;
-
-          Object.entries(item.effects).forEach(([stat, value]) => {
-            if (typeof value === "number") {
-              switch (stat) {
-                case "health":
-                  statUpdates.health = Math.min(10, pet.health + value);
-                  hasValidEffects = true;
-                  break;
-                case "happiness":
-                  statUpdates.happiness = Math.min(10, pet.happiness + value);
-                  hasValidEffects = true;
-                  break;
-                case "hunger":
-                  statUpdates.hunger = Math.min(10, pet.hunger + value);
-                  hasValidEffects = true;
-                  break;
-                case "strength":
-                  statUpdates.strength = pet.strength + value;
-                  hasValidEffects = true;
-                  break;
-                case "dexterity":
-                  statUpdates.dexterity = pet.dexterity + value;
-                  hasValidEffects = true;
-                  break;
-                case "intelligence":
-                  statUpdates.intelligence = pet.intelligence + value;
-                  hasValidEffects = true;
-                  break;
-                case "speed":
-                  statUpdates.speed = pet.speed + value;
-                  hasValidEffects = true;
-                  break;
-                case "attack":
-                  statUpdates.attack = pet.attack + value;
-                  hasValidEffects = true;
-                  break;
-                case "defense":
-                  statUpdates.defense = pet.defense + value;
-                  hasValidEffects = true;
-                  break;
-                case "precision":
-                  statUpdates.precision = pet.precision + value;
-                  hasValidEffects = true;
-                  break;
-                case "evasion":
-                  statUpdates.evasion = pet.evasion + value;
-                  hasValidEffects = true;
-                  break;
-                case "luck":
-                  statUpdates.luck = pet.luck + value;
-                  hasValidEffects = true;
-                  break;
-              }
-            }
+        if (item.lockedTradeId) {
+          get().addNotification({
+            type: "warning",
+            title: t("items.reservedTitle"),
+            message: t("items.reservedMessage", { item: item.name }),
+            isRead: false,
+          });
+          return false;
+        }
+
+        const hasValidEffects = Object.entries(item.effects).some(
+          ([stat, value]) =>
+            typeof value === "number" && ITEM_EFFECT_STATS.includes(stat),
+        );
+        if (!hasValidEffects) {
+          get().addNotification({
+            type: "warning",
+            title: t("items.noEffectTitle"),
+            message: t("items.noEffectMessage"),
+            isRead: false,
           });
+          return false;
+        }
+
+        try {
+          // Care stats decay over time, so check the server's current state
+          const pet = (await gameService.getPetById(petId)) || cachedPet;
 
-          if (!hasValidEffects) {
+          if (!pet.isAlive) {
             get().addNotification({
               type: "warning",
-              title: "Item sem efeito",
-              message: "Este item não tem efeitos aplicáveis ao seu pet.",
+              title: t("items.petUnavailableTitle"),
+              message: t("items.petUnavailableMessage", { pet: pet.name }),
               isRead: false,
             });
             return false;
           }
 
-          // Update pet stats
-          const updateSuccess = await get().updatePetStats(petId, statUpdates);
-          if (!updateSuccess) return false;
-
-          // Remove item from inventory
-          const removeSuccess = await get().removeFromInventory(
+          // The server applies the effects and consumes the item
+          const used = await gameService.applyItemToPet(
+            state.user.id,
+            petId,
             inventoryItemId,
-            1,
           );
-          if (!removeSuccess) return false;
+          if (!used) {
+            get().addNotification({
+              type: "error",
+              title: t("common.error"),
+              message: t("items.useFailed"),
+              isRead: false,
+            });
+            return false;
+          }
+
+          const [updatedPet, inventory] = await Promise.all([
+            gameService.getPetById(petId),
+            gameService.getUserInventory(state.user.id),
+          ]);
+          set((state) => ({
+            inventory,
+            pets: state.pets.map((pet) =>
+              pet.id === petId && updatedPet ? updatedPet : pet,
+            ),
+            activePet:
+              state.activePet?.id === petId && updatedPet
+                ? updatedPet
+                : state.activePet,
+          }));
 
           // Show success notification
           get().addNotification({
             type: "success",
-            title: "Item usado!",
-            message: `${item.name} foi usado em ${pet.name}. Efeitos aplicados com sucesso!`,
+            title: t("items.usedTitle"),
+            message: t("items.usedMessage", { item: item.name, pet: pet.name }),
             isRead: false,
           });
 
+          get().syncProgress();
           return true;
         } catch (error) {
           console.error("Error using item:", error);
           get().addNotification({
             type: "error",
-            title: "Erro",
-            message: "Ocorreu um erro ao usar o item.",
+            title: t("common.error"),
+            message: t("items.useFailed"),
             isRead: false,
           });
           return false;
@@ -1073,168 +860,79 @@ export const useGameStore = create<GameStore>()(
       },
 
       // Store management
-      getAllStores: () => mockStores,
+      loadStores: async () => {
+        const stores = await storeService.getAllStores(get().user?.id);
+        set({ stores });
+      },
+
+      getAllStores: () => get().stores,
 
       getStoreById: (storeId) => {
-        return mockStores.find((store) => store.id === storeId) || null;
+        return get().stores.find((store) => store.id === storeId) || null;
       },
 
       getStoresByType: (type) => {
-        return mockStores.filter((store) => store.type === type);
+        return get().stores.filter((store) => store.type === type);
       },
 
-      purchaseStoreItem: async (storeId, itemId, quantity = 1) => {
+      purchaseStoreItem: async (
+        storeId,
+        itemId,
+        quantity = 1,
+        idempotencyKey = crypto.randomUUID(),
+      ) => {
         const state = get();
-        const store = get().getStoreById(storeId);
+        const storeItem = get()
+          .getStoreById(storeId)
+          ?.inventory.find((item) => item.id === itemId);
 
-        if (!store || !state.user) {
+        if (!storeItem || !state.user) {
           return {
             success: false,
-            message: "Store or user not found",
+            message: t("store.notFound"),
             totalCost: 0,
             currency: "xenocoins",
             newBalance: 0,
           };
         }
 
-        const storeItem = store.inventory.find((item) => item.id === itemId);
-        if (!storeItem) {
-          return {
-            success: false,
-            message: "Item not found in store",
-            totalCost: 0,
-            currency: "xenocoins",
-            newBalance: 0,
-          };
-        }
-
-        // Check stock
-        if (storeItem.stock < quantity) {
-          return {
-            success: false,
-            message: `Insufficient stock. Only ${storeItem.stock} available.`,
-            totalCost: 0,
-            currency: storeItem.currency,
-            newBalance: state[storeItem.currency],
-          };
-        }
-
-        // Check requirements
-        if (storeItem.requirements) {
-          for (const req of storeItem.requirements) {
-            if (req.type === "level" && state.activePet) {
-              if (state.activePet.level < req.value) {
-                return {
-                  success: false,
-                  message: req.description,
-                  totalCost: 0,
-                  currency: storeItem.currency,
-                  newBalance: state[storeItem.currency],
-                };
-              }
-            }
-            // Add other requirement checks as needed
-          }
-        }
-
-        const totalCost = storeItem.currentPrice * quantity;
-        const currentBalance = state[storeItem.currency];
-
-        // Check if user has enough currency
-        if (currentBalance < totalCost) {
-          return {
-            success: false,
-            message: `Insufficient ${storeItem.currency}. Need ${totalCost}, have ${currentBalance}.`,
-            totalCost,
-            currency: storeItem.currency,
-            newBalance: currentBalance,
-          };
-        }
-
-        try {
-          // Get the universal item
-          const universalItem = await get().getUniversalItem(
-            storeItem.itemSlug,
-          );
-          if (!universalItem) {
-            return {
-              success: false,
-              message: "Item data not found",
-              totalCost,
-              currency: storeItem.currency,
-              newBalance: currentBalance,
-            };
-          }
-
-          // Deduct currency
-          const currencySuccess = await get().updateCurrency(
-            storeItem.currency,
-            -totalCost,
-          );
-          if (!currencySuccess) {
-            return {
-              success: false,
-              message: "Failed to process payment",
-              totalCost,
-              currency: storeItem.currency,
-              newBalance: currentBalance,
-            };
-          }
-
-          // Add item to inventory
-          const itemToAdd = { ...universalItem, quantity };
-          const inventorySuccess = await get().addToInventory(itemToAdd);
-          if (!inventorySuccess) {
-            // Refund currency if inventory addition failed
-            await get().updateCurrency(storeItem.currency, totalCost);
-            return {
-              success: false,
-              message: "Failed to add item to inventory",
-              totalCost,
-              currency: storeItem.currency,
-              newBalance: currentBalance,
-            };
-          }
+        // Stock, offers and requirements are enforced by the purchase RPC
+        const result = await storeService.purchaseItem(
+          state.user.id,
+          storeItem,
+          quantity,
+          idempotencyKey,
+        );
 
-          // Update store stock
-          const storeIndex = mockStores.findIndex((s) => s.id === storeId);
-          if (storeIndex >= 0) {
-            const itemIndex = mockStores[storeIndex].inventory.findIndex(
-              (i) => i.id === itemId,
-            );
-            if (itemIndex >= 0) {
-              mockStores[storeIndex].inventory[itemIndex].stock -= quantity;
-            }
-          }
+        if (result.success) {
+          set({ [result.currency]: result.newBalance });
 
-          const newBalance = currentBalance - totalCost;
+          const [inventory] = await Promise.all([
+            gameService.getUserInventory(state.user.id),
+            get().loadStores(),
+          ]);
+          set({ inventory });
 
-          // Add success notification
+          const { formatCurrency } = getTranslator();
           get().addNotification({
             type: "success",
-            title: "Purchase Successful!",
-            message: `Purchased ${quantity}x ${universalItem.name} for ${totalCost} ${storeItem.currency}`,
+            title: t("store.purchasedTitle"),
+            message: t("store.purchasedMessage", {
+              quantity,
+              item: storeItem.item.name,
+              price: formatCurrency(result.totalCost, result.currency),
+            }),
             isRead: false,
           });
 
-          return {
-            success: true,
-            message: "Purchase completed successfully",
-            item: universalItem,
-            totalCost,
-            currency: storeItem.currency,
-            newBalance,
-          };
-        } catch (error) {
-          console.error("Error during purchase:", error);
-          return {
-            success: false,
-            message: "An error occurred during purchase",
-            totalCost,
-            currency: storeItem.currency,
-            newBalance: currentBalance,
-          };
+          get().syncProgress();
+        } else {
+          // Another player may have changed stock or offers in the meantime
+          await get().loadStores();
+          return { ...result, newBalance: get()[result.currency] };
         }
+
+        return result;
       },
 
       getStoreInventory: (storeId) => {
@@ -1243,36 +941,11 @@ export const useGameStore = create<GameStore>()(
       },
 
       restockStore: async (storeId) => {
-        const store = get().getStoreById(storeId);
-        if (!store) return false;
-
-        try {
-          const storeIndex = mockStores.findIndex((s) => s.id === storeId);
-          if (storeIndex >= 0) {
-            // Restock items based on restock rate
-            mockStores[storeIndex].inventory.forEach((item) => {
-              const newStock = Math.min(
-                item.maxStock,
-                item.stock + item.restockRate,
-              );
-              item.stock = newStock;
-              item.lastRestocked = new Date();
-            });
-
-            // Update restock schedule
-            const now = new Date();
-            mockStores[storeIndex].restockSchedule.lastRestock = now;
-            mockStores[storeIndex].restockSchedule.nextRestock = new Date(
-              now.getTime() + store.restockSchedule.interval * 60 * 60 * 1000,
-            );
-
-            return true;
-          }
-          return false;
-        } catch (error) {
-          console.error("Error restocking store:", error);
-          return false;
+        const restocked = await storeService.restockStore(storeId);
+        if (restocked) {
+          await get().loadStores();
         }
+        return restocked;
       },
 
       // Notifications
@@ -1332,9 +1005,23 @@ export const useGameStore = create<GameStore>()(
           const userIdToUse = userId || get().user?.id;
           if (!userIdToUse) return;
 
+          // Gauges (balance, happiest pet) are only recomputed on read
+          const isCurrentUser = get().user?.id === userIdToUse;
+          if (isCurrentUser) {
+            await achievementService.refreshGauges(userIdToUse);
+          }
+
           const achievements =
             await gameService.getUserAchievements(userIdToUse);
           set({ achievements });
+
+          if (isCurrentUser) {
+            const unlocked = await achievementService.claimCompleted(
+              userIdToUse,
+              achievements,
+            );
+            await applyUnlockedAchievements(unlocked);
+          }
         } catch (error) {
           console.error("Error loading achievements:", error);
         }
@@ -1409,10 +1096,14 @@ export const useGameStore = create<GameStore>()(
             // Reload collectibles
             await get().loadUserCollectibles();
 
+            get().syncProgress();
+
             get().addNotification({
               type: "success",
-              title: "Collectible Obtained!",
-              message: `You collected: ${collectibleName}`,
+              title: t("collectibles.obtainedTitle"),
+              message: t("collectibles.obtainedMessage", {
+                name: collectibleName,
+              }),
               isRead: false,
             });
           }
@@ -1423,6 +1114,37 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
+      recordSpaceKill: async (entityId) => {
+        const state = get();
+        if (!state.user) return;
+
+        const granted = await gameService.recordSpaceKill(
+          state.user.id,
+          entityId,
+        );
+        if (!granted) return;
+
+        if (granted.type === "gem") {
+          await get().loadUserCollectibles();
+          get().addNotification({
+            type: "success",
+            title: t("collectibles.obtainedTitle"),
+            message: t("collectibles.obtainedMessage", { name: granted.name }),
+            isRead: false,
+          });
+        } else {
+          set({ inventory: await gameService.getUserInventory(state.user.id) });
+          get().addNotification({
+            type: "success",
+            title: t("space.lootTitle"),
+            message: t("space.lootMessage", { item: granted.name }),
+            isRead: false,
+          });
+        }
+
+        get().syncProgress();
+      },
+
       // Player search and profiles
       searchPlayers: async (query) => {
         try {
@@ -1442,6 +1164,137 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
+      // Trading
+      loadTrades: async () => {
+        const state = get();
+        if (!state.user) return;
+
+        try {
+          const trades = await gameService.getUserTrades(state.user.id);
+          set({ trades });
+        } catch (error) {
+          console.error("Error loading trades:", error);
+        }
+      },
+
+      createTrade: async (recipientId, offer) => {
+        const state = get();
+        if (!state.user) return false;
+
+        const result = await gameService.createTrade(
+          state.user.id,
+          recipientId,
+          offer,
+        );
+
+        get().addNotification({
+          type: result.success ? "success" : "error",
+          title: result.success ? t("trades.proposed") : t("trades.notSent"),
+          message: result.message,
+          isRead: false,
+        });
+
+        if (result.success) {
+          set(await loadTradeState(state.user.id));
+        }
+        return result.success;
+      },
+
+      confirmTrade: async (tradeId) => {
+        const state = get();
+        if (!state.user) return false;
+
+        const result = await gameService.confirmTrade(tradeId, state.user.id);
+
+        get().addNotification({
+          type: result.success ? "success" : "error",
+          title: result.success ? t("trades.confirmed") : t("trades.failed"),
+          message: result.message,
+          isRead: false,
+        });
+
+        if (result.success) {
+          set(await loadTradeState(state.user.id));
+        }
+        return result.success;
+      },
+
+      cancelTrade: async (tradeId) => {
+        const state = get();
+        if (!state.user) return false;
+
+        const result = await gameService.cancelTrade(tradeId, state.user.id);
+
+        get().addNotification({
+          type: result.success ? "info" : "error",
+          title: result.success ? t("trades.closed") : t("trades.failed"),
+          message: result.message,
+          isRead: false,
+        });
+
+        if (result.success) {
+          set(await loadTradeState(state.user.id));
+        }
+        return result.success;
+      },
+
+      // Quests and sagas
+      loadQuests: async () => {
+        const state = get();
+        if (!state.user) return;
+
+        try {
+          const userId = state.user.id;
+          const [quests, sagas] = await Promise.all([
+            progressionService.getUserQuests(userId),
+            progressionService.getUserSagas(userId),
+          ]);
+          set({ quests, sagas });
+
+          // Counters advanced on the server may already be complete
+          const result = await progressionService.claimCompleted(
+            userId,
+            quests,
+            sagas,
+          );
+          await applyProgressionResult(result);
+        } catch (error) {
+          console.error("Error loading quests:", error);
+        }
+      },
+
+      syncProgress: async () => {
+        const state = get();
+        if (!state.user) return;
+
+        // The database advanced the counters when the event happened
+        const result = await progressionService.syncProgress(state.user.id);
+        await applyProgressionResult(result);
+
+        // Quest rewards may move the balance, so refresh the gauges afterwards
+        const unlocked = await achievementService.syncProgress(state.user.id);
+        await applyUnlockedAchievements(unlocked);
+      },
+
+      advanceSagaStep: async (sagaId) => {
+        const state = get();
+        const saga = state.sagas.find((s) => s.id === sagaId);
+        if (!state.user || !saga) return false;
+
+        const completion = await progressionService.completeSagaStep(
+          state.user.id,
+          saga,
+        );
+        if (!completion) return false;
+
+        await applyProgressionResult({
+          completedQuests: [],
+          completedSteps: [{ saga, step: completion.step }],
+          completedSagas: completion.sagaCompleted ? [saga] : [],
+        });
+        return true;
+      },
+
       // Redeem codes
       getAllRedeemCodes: () => get().redeemCodes,
 
@@ -1455,199 +1308,145 @@ export const useGameStore = create<GameStore>()(
         );
       },
 
-      createRedeemCode: (codeData) => {
-        const newCode: RedeemCode = {
-          ...codeData,
-          id: crypto.randomUUID(),
-          currentUses: 0,
-          usedBy: [],
-          createdAt: new Date(),
-        };
+      loadRedeemCodes: async () => {
+        if (!get().user?.isAdmin) return;
 
-        set((state) => ({
-          redeemCodes: [...state.redeemCodes, newCode],
-        }));
+        set({ redeemCodes: await gameService.getRedeemCodes() });
       },
 
-      updateRedeemCode: (codeId, updates) => {
-        set((state) => ({
-          redeemCodes: state.redeemCodes.map((code) =>
-            code.id === codeId ? { ...code, ...updates } : code,
-          ),
-        }));
+      createRedeemCode: async (codeData) => {
+        const result = await gameService.createRedeemCode(codeData);
+        return applyRedeemCodeChange(result);
       },
 
-      deleteRedeemCode: (codeId) => {
-        set((state) => ({
-          redeemCodes: state.redeemCodes.filter((code) => code.id !== codeId),
-        }));
+      updateRedeemCode: async (codeId, updates) => {
+        const result = await gameService.updateRedeemCode(codeId, updates);
+        return applyRedeemCodeChange(result);
+      },
+
+      deleteRedeemCode: async (codeId) => {
+        const result = await gameService.deleteRedeemCode(codeId);
+        return applyRedeemCodeChange(result);
       },
 
       redeemCode: async (code) => {
         const state = get();
         if (!state.user) {
-          return { success: false, message: "User not logged in" };
+          return { success: false, message: t("auth.notLoggedIn") };
         }
 
-        const redeemCode = state.redeemCodes.find(
-          (rc) => rc.code.toUpperCase() === code.toUpperCase() && rc.isActive,
+        const { success, message, result } = await gameService.redeemCode(
+          state.user.id,
+          code.trim(),
         );
 
-        if (!redeemCode) {
-          return { success: false, message: "Código inválido ou expirado" };
+        if (!success || !result) {
+          return { success: false, message };
         }
 
-        // Check if user already used this code
-        if (redeemCode.usedBy.includes(state.user.id)) {
-          return { success: false, message: "Você já resgatou este código" };
-        }
+        const { rewards } = result;
+        const { formatCurrency } = getTranslator();
+        const rewardMessages = [
+          rewards.xenocoins > 0 &&
+            formatCurrency(rewards.xenocoins, "xenocoins"),
+          rewards.cash > 0 && formatCurrency(rewards.cash, "cash"),
+          rewards.accountPoints > 0 &&
+            t("redeem.accountPoints", { count: rewards.accountPoints }),
+          ...rewards.collectibles.map((name) =>
+            t("redeem.collectible", { name }),
+          ),
+          ...rewards.items.map((name) => t("redeem.item", { name })),
+        ].filter(Boolean);
 
-        // Check usage limits
-        if (
-          redeemCode.maxUses !== -1 &&
-          redeemCode.currentUses >= redeemCode.maxUses
-        ) {
-          return {
-            success: false,
-            message: "Este código atingiu o limite de usos",
-          };
-        }
+        set({
+          xenocoins: result.xenocoins,
+          cash: result.cash,
+          user: { ...state.user, accountScore: result.accountScore },
+        });
 
-        // Check expiration
-        if (redeemCode.expiresAt && redeemCode.expiresAt < new Date()) {
-          return { success: false, message: "Este código expirou" };
+        if (rewards.items.length > 0) {
+          set({ inventory: await gameService.getUserInventory(state.user.id) });
         }
+        if (rewards.collectibles.length > 0) {
+          await get().loadUserCollectibles();
+        }
+        await get().loadRedeemCodes();
 
-        try {
-          // Apply rewards
-          const rewards = redeemCode.rewards;
-          let rewardMessages: string[] = [];
-
-          // Currency rewards
-          if (rewards.xenocoins && rewards.xenocoins > 0) {
-            await get().updateCurrency("xenocoins", rewards.xenocoins);
-            rewardMessages.push(`${rewards.xenocoins} Xenocoins`);
-          }
+        const successMessage = t("redeem.successMessage", {
+          rewards: rewardMessages.join(", "),
+        });
 
-          if (rewards.cash && rewards.cash > 0) {
-            await get().updateCurrency("cash", rewards.cash);
-            rewardMessages.push(`${rewards.cash} Cash`);
-          }
+        get().addNotification({
+          type: "success",
+          title: t("redeem.successTitle"),
+          message: successMessage,
+          isRead: false,
+        });
 
-          // Account points
-          if (rewards.accountPoints && rewards.accountPoints > 0) {
-            // Update account score (this would be handled by the backend in a real app)
-            if (state.user) {
-              const updatedUser = {
-                ...state.user,
-                accountScore: state.user.accountScore + rewards.accountPoints,
-              };
-              set({ user: updatedUser });
-              rewardMessages.push(`${rewards.accountPoints} pontos de conta`);
-            }
-          }
+        return { success: true, message: successMessage };
+      },
 
-          // Collectibles
-          if (rewards.collectibles && rewards.collectibles.length > 0) {
-            for (const collectibleName of rewards.collectibles) {
-              await get().collectItem(collectibleName);
-              rewardMessages.push(`Colecionável: ${collectibleName}`);
-            }
-          }
+      // Daily check-in system
+      loadCheckinStatus: async () => {
+        const state = get();
+        if (!state.user) return;
 
-          // Items
-          if (rewards.items && rewards.items.length > 0) {
-            for (const itemSlug of rewards.items) {
-              const item = await get().getUniversalItem(itemSlug);
-              if (item) {
-                await get().addToInventory(item);
-                rewardMessages.push(`Item: ${item.name}`);
-              }
-            }
-          }
+        const checkinStatus = await gameService.getCheckinStatus(state.user.id);
+        if (checkinStatus) set({ checkinStatus });
+      },
 
-          // Update code usage
-          get().updateRedeemCode(redeemCode.id, {
-            currentUses: redeemCode.currentUses + 1,
-            usedBy: [...redeemCode.usedBy, state.user.id],
-          });
+      dailyCheckin: async () => {
+        const state = get();
+        if (!state.user || !get().canClaimDailyCheckin()) return false;
 
-          const message = `Código resgatado com sucesso! Recompensas: ${rewardMessages.join(", ")}`;
+        const { success, message, result } = await gameService.dailyCheckin(
+          state.user.id,
+        );
 
+        if (!success || !result) {
           get().addNotification({
-            type: "success",
-            title: "Código Resgatado!",
+            type: "error",
+            title: t("common.error"),
             message,
             isRead: false,
           });
-
-          return { success: true, message };
-        } catch (error) {
-          console.error("Error redeeming code:", error);
-          return {
-            success: false,
-            message: "Erro ao resgatar código. Tente novamente.",
-          };
+          await get().loadCheckinStatus();
+          return false;
         }
-      },
 
-      // Daily check-in system
-      dailyCheckin: () => {
-        const state = get();
-        if (!state.user || !get().canClaimDailyCheckin()) return;
-
-        // Award daily check-in rewards
-        get().updateCurrency("xenocoins", 50);
+        set({ xenocoins: result.xenocoins, cash: result.cash });
 
-        // Update last check-in date with user ID (in a real app, this would be stored in the backend)
-        const today = new Date().toDateString();
-        localStorage.setItem(`lastCheckin_${state.user.id}`, today);
+        const { formatCurrency, formatList } = getTranslator();
+        const rewards = [
+          result.rewards.xenocoins > 0 &&
+            formatCurrency(result.rewards.xenocoins, "xenocoins"),
+          result.rewards.cash > 0 &&
+            formatCurrency(result.rewards.cash, "cash"),
+        ].filter((reward): reward is string => !!reward);
 
         get().addNotification({
           type: "success",
-          title: "Check-in Diário!",
-          message: "Você recebeu 50 Xenocoins pelo check-in diário!",
+          title: result.rewards.weeklyBonus
+            ? t("checkin.weeklyTitle")
+            : t("checkin.dailyTitle"),
+          message: t("checkin.rewardMessage", {
+            rewards: formatList(rewards),
+            streak: t("checkin.days", { count: result.streak }),
+          }),
           isRead: false,
         });
-      },
 
-      canClaimDailyCheckin: () => {
-        const state = get();
-        if (!state.user) return false;
-
-        const lastCheckin = localStorage.getItem(
-          `lastCheckin_${state.user.id}`,
-        );
-        const today = new Date().toDateString();
-        return lastCheckin !== today;
+        await get().loadCheckinStatus();
+        get().syncProgress();
+        return true;
       },
 
-      getDailyCheckinStreak: () => {
-        const state = get();
-        if (!state.user) return 0;
-
-        // In a real app, this would be stored in the backend
-        const streak = localStorage.getItem(`checkinStreak_${state.user.id}`);
-        return streak ? parseInt(streak, 10) : 0;
-      },
-
-      canClaimWeeklyReward: () => {
-        const streak = get().getDailyCheckinStreak();
-        return streak >= 7 && streak % 7 === 0;
+      canClaimDailyCheckin: () => {
+        const { user, checkinStatus } = get();
+        return !!user && !!checkinStatus && !checkinStatus.checkedInToday;
       },
 
-      claimWeeklyReward: () => {
-        if (!get().canClaimWeeklyReward()) return;
-
-        get().updateCurrency("cash", 2);
-
-        get().addNotification({
-          type: "success",
-          title: "Recompensa Semanal!",
-          message: "Você recebeu 2 Cash pela sequência semanal!",
-          isRead: false,
-        });
-      },
+      getDailyCheckinStreak: () => get().checkinStatus?.currentStreak || 0,
 
       // Data loading and synchronization
       initializeNewUser: (userData) => {
@@ -1838,6 +1637,16 @@ export const useGameStore = create<GameStore>()(
         set({ worldPositions: defaultPositions });
       },
 
+      saveWorldLayout: async (changes: WorldLayout[], note?: string) => {
+        const result = await gameService.saveWorldLayout(changes, note);
+        return applyWorldLayoutResult(result, changes);
+      },
+
+      rollbackWorldLayout: async (version: number) => {
+        const result = await gameService.rollbackWorldLayout(version);
+        return applyWorldLayoutResult(result, result.layout ?? []);
+      },
+
       subscribeToWorldPositions: () => {
         // No need for real-time subscriptions with localStorage
         console.log(
@@ -1882,6 +1691,15 @@ export const useGameStore = create<GameStore>()(
         const state = get();
         return state.shipState;
       },
+
+      discoverSectors: (sectors) => {
+        const discovered = get().discoveredSectors;
+        const known = new Set(discovered);
+        const added = sectors.filter((sector) => !known.has(sector));
+        if (added.length > 0) {
+          set({ discoveredSectors: [...discovered, ...added] });
+        }
+      },
     }),
     {
       name: "xenopets-game-store",
@@ -1894,15 +1712,14 @@ export const useGameStore = create<GameStore>()(
         cash: state.cash,
         notifications: state.notifications,
         language: state.language,
-        currentScreen: state.currentScreen,
         currentPlanet: state.currentPlanet,
         achievements: state.achievements,
         collectibles: state.collectibles,
-        redeemCodes: state.redeemCodes,
         selectedEggForHatching: state.selectedEggForHatching,
         isHatchingInProgress: state.isHatchingInProgress,
         hatchingEgg: state.hatchingEgg,
         shipState: state.shipState,
+        discoveredSectors: state.discoveredSectors,
         worldPositions: state.worldPositions,
       }),
       onRehydrateStorage: () => (state) => {
@@ -1920,8 +1737,6 @@ export const useGameStore = create<GameStore>()(
             state.achievements = state.achievements.map(rehydrateDates);
           if (state.collectibles)
             state.collectibles = state.collectibles.map(rehydrateDates);
-          if (state.redeemCodes)
-            state.redeemCodes = state.redeemCodes.map(rehydrateDates);
           if (state.hatchingEgg) {
             state.hatchingEgg = rehydrateDates(state.hatchingEgg);
 
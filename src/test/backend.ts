@@ -0,0 +1,120 @@
+import { vi } from "vitest";
+import { User } from "../types/game";
+import { buildUser } from "./fixtures";
+
+/**
+ * The app running against the in-memory backend of `lib/mockBackend`
+ *
+ * Modules are reloaded on every call, so each test gets a freshly seeded
+ * database and new service and store singletons.
+ */
+export const startTestGame = async () => {
+  vi.resetModules();
+
+  const [{ supabase }, { gameService }, { storeService }, { useGameStore }] =
+    await Promise.all([
+      import("../lib/supabase"),
+      import("../services/gameService"),
+      import("../services/storeService"),
+      import("../store/gameStore"),
+    ]);
+
+  return { supabase, gameService, storeService, useGameStore };
+};
+
+export type TestGame = Awaited<ReturnType<typeof startTestGame>>;
+
+const PLAYER_PASSWORD = "password123";
+
+interface PlayerOptions extends Partial<User> {
+  xenocoins?: number;
+  cash?: number;
+}
+
+/**
+ * Registers and signs in a new player with the given starting balances,
+ * then loads their data into the game store the way the app does on login
+ */
+export const signUpPlayer = async (
+  game: TestGame,
+  { xenocoins = 0, cash = 0, ...overrides }: PlayerOptions = {},
+): Promise<User> => {
+  const user = buildUser(overrides);
+  const { data, error } = await game.supabase.auth.signUp({
+    email: user.email,
+    password: PLAYER_PASSWORD,
+    options: { data: { username: user.username } },
+  });
+  if (error || !data.user) {
+    throw new Error(`Could not sign up: ${error?.message}`);
+  }
+
+  const player = { ...user, id: data.user.id };
+  const balances = Object.entries({ xenocoins, cash }).filter(
+    ([, amount]) => amount !== 0,
+  );
+  if (balances.length > 0) {
+    // Players cannot change their own balance, so the admin grants it
+    await signInAsAdmin(game);
+    for (const [currency, amount] of balances) {
+      const { error: currencyError } = await game.supabase.rpc(
+        "admin_adjust_currency",
+        {
+          p_user_id: player.id,
+          p_currency_type: currency,
+          p_amount: amount,
+        },
+      );
+      if (currencyError) throw new Error(currencyError.message);
+    }
+    await signInAs(game, player);
+  }
+
+  game.useGameStore.getState().setUser(player);
+  await game.useGameStore.getState().loadUserData(player.id);
+  return player;
+};
+
+/**
+ * Adds items to a player's inventory the way an admin does, then switches
+ * the session back to the player
+ */
+export const giveItem = async (
+  game: TestGame,
+  player: User,
+  itemId: string,
+  quantity = 1,
+) => {
+  await signInAsAdmin(game);
+  const stack = await game.gameService.addItemToInventory(
+    player.id,
+    itemId,
+    quantity,
+  );
+  await signInAs(game, player);
+  if (!stack) throw new Error(`Could not give item ${itemId}`);
+  return stack;
+};
+
+/**
+ * Switches the session to a player created by `signUpPlayer`, for flows
+ * where each side has to act as themselves
+ */
+export const signInAs = async (game: TestGame, player: User) => {
+  const { error } = await game.supabase.auth.signInWithPassword({
+    email: player.email,
+    password: PLAYER_PASSWORD,
+  });
+  if (error) throw new Error(`Could not sign in: ${error.message}`);
+};
+
+/**
+ * Switches the session to the seeded admin account, for admin-only flows
+ */
+export const signInAsAdmin = async (game: TestGame) => {
+  const { error } = await game.supabase.auth.signInWithPassword({
+    email: "admin@example.com",
+    password: "admin123",
+  });
+  if (error) throw new Error(`Could not sign in: ${error.message}`);
+};
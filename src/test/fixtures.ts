@@ -0,0 +1,241 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "../types/database";
+import { Item, Pet, Store, StoreItem, User } from "../types/game";
+
+/**
+ * Fixture builders for tests
+ *
+ * `build*` return a complete game object with neutral defaults; pass only
+ * the fields a test cares about. `insert*` write a built object to the
+ * backend and return it with the ids the backend assigned.
+ */
+
+export const TEST_NOW = new Date("2025-07-14T12:00:00.000Z");
+
+// The Supabase client, i.e. the mock backend in tests
+type Backend = SupabaseClient<Database>;
+
+type Tables = Database["public"]["Tables"];
+
+let sequence = 0;
+const nextId = (prefix: string) => `${prefix}-${++sequence}`;
+
+export const buildUser = (overrides: Partial<User> = {}): User => {
+  const id = overrides.id ?? nextId("user");
+  return {
+    id,
+    email: `${id}@example.com`,
+    username: `Player ${id}`,
+    isAdmin: false,
+    language: "pt-BR",
+    accountScore: 0,
+    daysPlayed: 0,
+    totalXenocoins: 0,
+    createdAt: TEST_NOW,
+    lastLogin: TEST_NOW,
+    ...overrides,
+  };
+};
+
+export const buildItem = (overrides: Partial<Item> = {}): Item => {
+  const id = overrides.id ?? nextId("item");
+  return {
+    id,
+    slug: id,
+    name: `Item ${id}`,
+    description: "Test item",
+    type: "Food",
+    rarity: "Common",
+    price: 10,
+    currency: "xenocoins",
+    effects: { hunger: 2 },
+    quantity: 1,
+    createdAt: TEST_NOW,
+    ...overrides,
+  };
+};
+
+export const buildPet = (overrides: Partial<Pet> = {}): Pet => ({
+  id: nextId("pet"),
+  name: "Tester",
+  species: "Dragon",
+  style: "normal",
+  level: 1,
+  ownerId: "owner",
+  happiness: 5,
+  health: 5,
+  hunger: 5,
+  strength: 1,
+  dexterity: 1,
+  intelligence: 1,
+  speed: 1,
+  attack: 1,
+  defense: 1,
+  precision: 1,
+  evasion: 1,
+  luck: 1,
+  personality: "Sanguine",
+  conditions: [],
+  equipment: {},
+  isAlive: true,
+  lastInteraction: TEST_NOW,
+  createdAt: TEST_NOW,
+  updatedAt: TEST_NOW,
+  ...overrides,
+});
+
+export const buildStoreItem = (
+  overrides: Partial<StoreItem> = {},
+): StoreItem => {
+  const item = overrides.item ?? buildItem();
+  const basePrice = overrides.basePrice ?? item.price ?? 10;
+  return {
+    id: nextId("store-item"),
+    itemId: item.id,
+    item,
+    basePrice,
+    currentPrice: basePrice,
+    currency: item.currency ?? "xenocoins",
+    stock: 10,
+    maxStock: 10,
+    restockRate: 1,
+    isLimited: false,
+    isOnSale: false,
+    saleDiscount: 0,
+    requirements: [],
+    lastRestocked: TEST_NOW,
+    ...overrides,
+  };
+};
+
+export const buildStore = (overrides: Partial<Store> = {}): Store => ({
+  id: nextId("store"),
+  name: "Test Store",
+  description: "Store used in tests",
+  type: "general",
+  npcName: "",
+  npcImage: "",
+  npcDialogue: "",
+  inventory: [buildStoreItem()],
+  restockSchedule: {
+    interval: 24,
+    lastRestock: TEST_NOW,
+    nextRestock: new Date(TEST_NOW.getTime() + 24 * 60 * 60 * 1000),
+    items: [],
+  },
+  specialOffers: [],
+  isOpen: true,
+  openHours: { start: 0, end: 24 },
+  reputation: 0,
+  discountLevel: 0,
+  createdAt: TEST_NOW,
+  updatedAt: TEST_NOW,
+  ...overrides,
+});
+
+const insertRow = async <T extends keyof Tables>(
+  backend: Backend,
+  table: T,
+  row: Tables[T]["Insert"],
+): Promise<Tables[T]["Row"]> => {
+  const { data, error } = await backend
+    .from(table)
+    .insert(row)
+    .select()
+    .single();
+  if (error)
+    throw new Error(`Could not insert into ${table}: ${error.message}`);
+  return data;
+};
+
+export const insertItem = async (
+  backend: Backend,
+  item: Item = buildItem(),
+): Promise<Item> => {
+  const row = await insertRow(backend, "items", {
+    name: item.name,
+    description: item.description,
+    type: item.type,
+    rarity: item.rarity,
+    price: item.price ?? 0,
+    currency: item.currency ?? "xenocoins",
+    effects: item.effects ?? {},
+    daily_limit: item.dailyLimit ?? null,
+    slot: item.slot ?? null,
+  });
+  return { ...item, id: row.id };
+};
+
+export const insertPet = async (
+  backend: Backend,
+  pet: Pet = buildPet(),
+): Promise<Pet> => {
+  const row = await insertRow(backend, "pets", {
+    owner_id: pet.ownerId,
+    name: pet.name,
+    species: pet.species,
+    style: pet.style,
+    personality: pet.personality,
+    happiness: pet.happiness,
+    health: pet.health,
+    hunger: pet.hunger,
+    strength: pet.strength,
+    dexterity: pet.dexterity,
+    intelligence: pet.intelligence,
+    speed: pet.speed,
+    attack: pet.attack,
+    defense: pet.defense,
+    precision: pet.precision,
+    evasion: pet.evasion,
+    luck: pet.luck,
+    is_alive: pet.isAlive,
+    is_active: true,
+    last_interaction: pet.lastInteraction.toISOString(),
+    care_updated_at: pet.lastInteraction.toISOString(),
+  });
+  return { ...pet, id: row.id, level: row.level };
+};
+
+/**
+ * Writes the store, its items and their shop listings. Stock of
+ * `Infinity` is stored as unlimited, like the backend reports it.
+ */
+export const insertStore = async (
+  backend: Backend,
+  store: Store = buildStore(),
+): Promise<Store> => {
+  const shop = await insertRow(backend, "shops", {
+    name: store.name,
+    description: store.description,
+    type: store.type,
+    npc_dialogue: store.npcDialogue || null,
+    open_hour: store.openHours.start,
+    close_hour: store.openHours.end,
+    restock_interval_hours: store.restockSchedule.interval,
+    last_restock: store.restockSchedule.lastRestock.toISOString(),
+    discount_level: store.discountLevel,
+  });
+
+  const inventory: StoreItem[] = [];
+  for (const storeItem of store.inventory) {
+    const item = await insertItem(backend, storeItem.item);
+    const listing = await insertRow(backend, "shop_items", {
+      shop_id: shop.id,
+      item_id: item.id,
+      price: storeItem.basePrice,
+      currency: storeItem.currency,
+      stock: isFinite(storeItem.stock) ? storeItem.stock : null,
+      stock_limit: isFinite(storeItem.maxStock) ? storeItem.maxStock : null,
+      restock_rate: storeItem.restockRate,
+      sale_discount: storeItem.saleDiscount,
+      is_limited: storeItem.isLimited,
+      requirements: (storeItem.requirements ?? []).map(
+        ({ type, value, description }) => ({ type, value, description }),
+      ),
+      last_restocked: storeItem.lastRestocked.toISOString(),
+    });
+    inventory.push({ ...storeItem, id: listing.id, itemId: item.id, item });
+  }
+
+  return { ...store, id: shop.id, inventory };
+};
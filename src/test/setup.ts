@@ -0,0 +1,20 @@
+import { afterEach, beforeEach, vi } from "vitest";
+import { TEST_NOW } from "./fixtures";
+
+/**
+ * Shared setup for every test file
+ *
+ * The clock is pinned to a weekday noon (UTC) so shop opening hours and
+ * check-in rewards are deterministic. Only `Date` is faked: the mock backend
+ * delivers realtime and auth events with `setTimeout`, which keeps running.
+ */
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(TEST_NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  localStorage.clear();
+});
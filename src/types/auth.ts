@@ -1,3 +1,5 @@
+import { ControlBindings } from './game';
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -40,6 +42,7 @@ export interface UserPreferences {
     allowDuels: boolean;
     allowTrades: boolean;
   };
+  controls?: ControlBindings;
 }
 
 export interface AuthState {
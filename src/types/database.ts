@@ -1,3 +1,11 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
 export interface Database {
   public: {
     Tables: {
@@ -14,7 +22,7 @@ export interface Database {
           xenocoins: number;
           cash: number;
           avatar_url: string | null;
-          preferences: any;
+          preferences: Json;
           created_at: string;
           updated_at: string;
           last_login: string;
@@ -31,7 +39,7 @@ export interface Database {
           xenocoins?: number;
           cash?: number;
           avatar_url?: string | null;
-          preferences?: any;
+          preferences?: Json;
           created_at?: string;
           updated_at?: string;
           last_login?: string;
@@ -48,7 +56,7 @@ export interface Database {
           xenocoins?: number;
           cash?: number;
           avatar_url?: string | null;
-          preferences?: any;
+          preferences?: Json;
           created_at?: string;
           updated_at?: string;
           last_login?: string;
@@ -87,6 +95,9 @@ export interface Database {
           hatch_time: string | null;
           death_date: string | null;
           last_interaction: string;
+          care_updated_at: string;
+          low_health_ticks: number;
+          zero_health_ticks: number;
           image_url: string | null;
           created_at: string;
           updated_at: string;
@@ -123,6 +134,9 @@ export interface Database {
           hatch_time?: string | null;
           death_date?: string | null;
           last_interaction?: string;
+          care_updated_at?: string;
+          low_health_ticks?: number;
+          zero_health_ticks?: number;
           image_url?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -159,11 +173,70 @@ export interface Database {
           hatch_time?: string | null;
           death_date?: string | null;
           last_interaction?: string;
+          care_updated_at?: string;
+          low_health_ticks?: number;
+          zero_health_ticks?: number;
           image_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      pet_conditions: {
+        Row: {
+          id: string;
+          pet_id: string;
+          type:
+            | "sick"
+            | "cold"
+            | "hot"
+            | "frozen"
+            | "paralyzed"
+            | "poisoned"
+            | "blessed";
+          name: string;
+          description: string;
+          effects: Json;
+          duration_hours: number | null;
+          applied_at: string;
+          expires_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          pet_id: string;
+          type:
+            | "sick"
+            | "cold"
+            | "hot"
+            | "frozen"
+            | "paralyzed"
+            | "poisoned"
+            | "blessed";
+          name: string;
+          description: string;
+          effects?: Json;
+          duration_hours?: number | null;
+          applied_at?: string;
+          expires_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          pet_id?: string;
+          type?:
+            | "sick"
+            | "cold"
+            | "hot"
+            | "frozen"
+            | "paralyzed"
+            | "poisoned"
+            | "blessed";
+          name?: string;
+          description?: string;
+          effects?: Json;
+          duration_hours?: number | null;
+          applied_at?: string;
+          expires_at?: string | null;
+        };
+      };
       items: {
         Row: {
           id: string;
@@ -187,7 +260,7 @@ export interface Database {
             | "Unique";
           price: number;
           currency: "xenocoins" | "cash";
-          effects: any;
+          effects: Json;
           daily_limit: number | null;
           decomposition_hours: number;
           slot:
@@ -224,7 +297,7 @@ export interface Database {
             | "Unique";
           price?: number;
           currency?: "xenocoins" | "cash";
-          effects?: any;
+          effects?: Json;
           daily_limit?: number | null;
           decomposition_hours?: number;
           slot?:
@@ -261,7 +334,7 @@ export interface Database {
             | "Unique";
           price?: number;
           currency?: "xenocoins" | "cash";
-          effects?: any;
+          effects?: Json;
           daily_limit?: number | null;
           decomposition_hours?: number;
           slot?:
@@ -287,6 +360,7 @@ export interface Database {
           equipped_pet_id: string | null;
           acquired_at: string;
           last_used: string | null;
+          locked_trade_id: string | null;
         };
         Insert: {
           id?: string;
@@ -297,6 +371,7 @@ export interface Database {
           equipped_pet_id?: string | null;
           acquired_at?: string;
           last_used?: string | null;
+          locked_trade_id?: string | null;
         };
         Update: {
           id?: string;
@@ -307,6 +382,7 @@ export interface Database {
           equipped_pet_id?: string | null;
           acquired_at?: string;
           last_used?: string | null;
+          locked_trade_id?: string | null;
         };
       };
       notifications: {
@@ -379,20 +455,1064 @@ export interface Database {
           updated_at?: string;
         };
       };
-    };
-    Functions: {
-      update_user_currency: {
-        Args: {
+      world_layout_versions: {
+        Row: {
+          id: string;
+          version: number;
+          note: string;
+          layout: Json;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          version: number;
+          note?: string;
+          layout?: Json;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          version?: number;
+          note?: string;
+          layout?: Json;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      space_kills: {
+        Row: {
           user_id: string;
-          currency_type: string;
+          region: number;
+          cycle: number;
+          entity_index: number;
+          loot: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          region: number;
+          cycle: number;
+          entity_index: number;
+          loot?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          region?: number;
+          cycle?: number;
+          entity_index?: number;
+          loot?: Json | null;
+          created_at?: string;
+        };
+      };
+      user_planet_visits: {
+        Row: {
+          user_id: string;
+          planet_id: string;
+          visited_at: string;
+        };
+        Insert: {
+          user_id: string;
+          planet_id: string;
+          visited_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          planet_id?: string;
+          visited_at?: string;
+        };
+      };
+      duels: {
+        Row: {
+          id: string;
+          challenger_id: string;
+          opponent_id: string;
+          challenger_pet_id: string;
+          opponent_pet_id: string | null;
+          status:
+            | "pending"
+            | "accepted"
+            | "rejected"
+            | "cancelled"
+            | "in_progress"
+            | "completed";
+          winner_id: string | null;
+          xenocoins_wagered: number;
+          battle_log: Json;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          challenger_id: string;
+          opponent_id: string;
+          challenger_pet_id: string;
+          opponent_pet_id?: string | null;
+          status?:
+            | "pending"
+            | "accepted"
+            | "rejected"
+            | "cancelled"
+            | "in_progress"
+            | "completed";
+          winner_id?: string | null;
+          xenocoins_wagered?: number;
+          battle_log?: Json;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          challenger_id?: string;
+          opponent_id?: string;
+          challenger_pet_id?: string;
+          opponent_pet_id?: string | null;
+          status?:
+            | "pending"
+            | "accepted"
+            | "rejected"
+            | "cancelled"
+            | "in_progress"
+            | "completed";
+          winner_id?: string | null;
+          xenocoins_wagered?: number;
+          battle_log?: Json;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+      };
+      trades: {
+        Row: {
+          id: string;
+          initiator_id: string;
+          recipient_id: string;
+          initiator_items: Json;
+          recipient_items: Json;
+          initiator_xenocoins: number;
+          recipient_xenocoins: number;
+          status:
+            | "pending"
+            | "accepted"
+            | "rejected"
+            | "completed"
+            | "cancelled";
+          initiator_confirmed: boolean;
+          recipient_confirmed: boolean;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          initiator_id: string;
+          recipient_id: string;
+          initiator_items?: Json;
+          recipient_items?: Json;
+          initiator_xenocoins?: number;
+          recipient_xenocoins?: number;
+          status?:
+            | "pending"
+            | "accepted"
+            | "rejected"
+            | "completed"
+            | "cancelled";
+          initiator_confirmed?: boolean;
+          recipient_confirmed?: boolean;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          initiator_id?: string;
+          recipient_id?: string;
+          initiator_items?: Json;
+          recipient_items?: Json;
+          initiator_xenocoins?: number;
+          recipient_xenocoins?: number;
+          status?:
+            | "pending"
+            | "accepted"
+            | "rejected"
+            | "completed"
+            | "cancelled";
+          initiator_confirmed?: boolean;
+          recipient_confirmed?: boolean;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+      };
+      shops: {
+        Row: {
+          id: string;
+          poi_id: string | null;
+          npc_id: string | null;
+          name: string;
+          description: string | null;
+          type:
+            | "general"
+            | "equipment"
+            | "food"
+            | "potions"
+            | "collectibles"
+            | "premium"
+            | "seasonal";
+          npc_dialogue: string | null;
+          open_hour: number;
+          close_hour: number;
+          restock_interval_hours: number;
+          last_restock: string;
+          discount_level: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          poi_id?: string | null;
+          npc_id?: string | null;
+          name: string;
+          description?: string | null;
+          type?:
+            | "general"
+            | "equipment"
+            | "food"
+            | "potions"
+            | "collectibles"
+            | "premium"
+            | "seasonal";
+          npc_dialogue?: string | null;
+          open_hour?: number;
+          close_hour?: number;
+          restock_interval_hours?: number;
+          last_restock?: string;
+          discount_level?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          poi_id?: string | null;
+          npc_id?: string | null;
+          name?: string;
+          description?: string | null;
+          type?:
+            | "general"
+            | "equipment"
+            | "food"
+            | "potions"
+            | "collectibles"
+            | "premium"
+            | "seasonal";
+          npc_dialogue?: string | null;
+          open_hour?: number;
+          close_hour?: number;
+          restock_interval_hours?: number;
+          last_restock?: string;
+          discount_level?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      shop_items: {
+        Row: {
+          id: string;
+          shop_id: string;
+          item_id: string;
+          price: number;
+          currency: "xenocoins" | "cash";
+          stock: number | null;
+          stock_limit: number | null;
+          restock_rate: number;
+          sale_discount: number;
+          is_limited: boolean;
+          requirements: Json;
+          is_available: boolean;
+          last_restocked: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          item_id: string;
+          price: number;
+          currency?: "xenocoins" | "cash";
+          stock?: number | null;
+          stock_limit?: number | null;
+          restock_rate?: number;
+          sale_discount?: number;
+          is_limited?: boolean;
+          requirements?: Json;
+          is_available?: boolean;
+          last_restocked?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          item_id?: string;
+          price?: number;
+          currency?: "xenocoins" | "cash";
+          stock?: number | null;
+          stock_limit?: number | null;
+          restock_rate?: number;
+          sale_discount?: number;
+          is_limited?: boolean;
+          requirements?: Json;
+          is_available?: boolean;
+          last_restocked?: string;
+          created_at?: string;
+        };
+      };
+      shop_offers: {
+        Row: {
+          id: string;
+          shop_id: string;
+          item_id: string;
+          name: string;
+          description: string | null;
+          sale_price: number;
+          currency: "xenocoins" | "cash";
+          start_date: string;
+          end_date: string;
+          max_purchases: number;
+          current_purchases: number;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shop_id: string;
+          item_id: string;
+          name: string;
+          description?: string | null;
+          sale_price: number;
+          currency?: "xenocoins" | "cash";
+          start_date?: string;
+          end_date: string;
+          max_purchases: number;
+          current_purchases?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shop_id?: string;
+          item_id?: string;
+          name?: string;
+          description?: string | null;
+          sale_price?: number;
+          currency?: "xenocoins" | "cash";
+          start_date?: string;
+          end_date?: string;
+          max_purchases?: number;
+          current_purchases?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+      };
+      shop_reputation: {
+        Row: {
+          user_id: string;
+          shop_id: string;
+          reputation: number;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          shop_id: string;
+          reputation?: number;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          shop_id?: string;
+          reputation?: number;
+          updated_at?: string;
+        };
+      };
+      currency_ledger: {
+        Row: {
+          id: string;
+          user_id: string;
+          currency: "xenocoins" | "cash";
           amount: number;
+          balance_after: number;
+          reason: string;
+          reference_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          currency: "xenocoins" | "cash";
+          amount: number;
+          balance_after: number;
+          reason: string;
+          reference_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          currency?: "xenocoins" | "cash";
+          amount?: number;
+          balance_after?: number;
           reason?: string;
+          reference_id?: string | null;
+          created_at?: string;
         };
-        Returns: boolean;
       };
-      calculate_pet_level: {
-        Args: {
-          pet_id: string;
+      user_checkins: {
+        Row: {
+          id: string;
+          user_id: string;
+          checkin_date: string;
+          streak: number;
+          grace_used: boolean;
+          rewards: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          checkin_date: string;
+          streak?: number;
+          grace_used?: boolean;
+          rewards?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          checkin_date?: string;
+          streak?: number;
+          grace_used?: boolean;
+          rewards?: Json;
+          created_at?: string;
+        };
+      };
+      redeem_codes: {
+        Row: {
+          id: string;
+          code: string;
+          name: string;
+          description: string;
+          rewards: Json;
+          max_uses: number;
+          current_uses: number;
+          expires_at: string | null;
+          is_active: boolean;
+          created_by: string | null;
+          created_at: string;
+          campaign_id: string | null;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          name: string;
+          description?: string;
+          rewards?: Json;
+          max_uses?: number;
+          current_uses?: number;
+          expires_at?: string | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          campaign_id?: string | null;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          name?: string;
+          description?: string;
+          rewards?: Json;
+          max_uses?: number;
+          current_uses?: number;
+          expires_at?: string | null;
+          is_active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+          campaign_id?: string | null;
+          revoked_at?: string | null;
+        };
+      };
+      redeem_campaigns: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          rewards: Json;
+          expires_at: string | null;
+          code_pattern: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string;
+          rewards?: Json;
+          expires_at?: string | null;
+          code_pattern?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string;
+          rewards?: Json;
+          expires_at?: string | null;
+          code_pattern?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
+      redeem_code_redemptions: {
+        Row: {
+          id: string;
+          code_id: string;
+          user_id: string;
+          rewards: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          code_id: string;
+          user_id: string;
+          rewards?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          code_id?: string;
+          user_id?: string;
+          rewards?: Json;
+          created_at?: string;
+        };
+      };
+      achievements: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          category: "exploration" | "combat" | "collection" | "social" | "special";
+          requirements: Json;
+          rewards: Json;
+          max_progress: number;
+          is_active: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description: string;
+          category: "exploration" | "combat" | "collection" | "social" | "special";
+          requirements?: Json;
+          rewards?: Json;
+          max_progress?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string;
+          category?: "exploration" | "combat" | "collection" | "social" | "special";
+          requirements?: Json;
+          rewards?: Json;
+          max_progress?: number;
+          is_active?: boolean;
+          created_at?: string;
+        };
+      };
+      user_achievements: {
+        Row: {
+          id: string;
+          user_id: string;
+          achievement_id: string;
+          progress: number;
+          is_unlocked: boolean;
+          unlocked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          achievement_id: string;
+          progress?: number;
+          is_unlocked?: boolean;
+          unlocked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          achievement_id?: string;
+          progress?: number;
+          is_unlocked?: boolean;
+          unlocked_at?: string | null;
+        };
+      };
+      quests: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          type: "delivery" | "minigame" | "exploration" | "combat" | "riddle";
+          requirements: Json;
+          rewards: Json;
+          is_active: boolean;
+          unlock_requirement: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description: string;
+          type: "delivery" | "minigame" | "exploration" | "combat" | "riddle";
+          requirements?: Json;
+          rewards?: Json;
+          is_active?: boolean;
+          unlock_requirement?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string;
+          type?: "delivery" | "minigame" | "exploration" | "combat" | "riddle";
+          requirements?: Json;
+          rewards?: Json;
+          is_active?: boolean;
+          unlock_requirement?: Json;
+          created_at?: string;
+        };
+      };
+      user_quests: {
+        Row: {
+          id: string;
+          user_id: string;
+          quest_id: string;
+          progress: Json;
+          is_active: boolean;
+          is_completed: boolean;
+          started_at: string | null;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          quest_id: string;
+          progress?: Json;
+          is_active?: boolean;
+          is_completed?: boolean;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          quest_id?: string;
+          progress?: Json;
+          is_active?: boolean;
+          is_completed?: boolean;
+          started_at?: string | null;
+          completed_at?: string | null;
+        };
+      };
+      sagas: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          total_steps: number;
+          is_active: boolean;
+          unlock_requirement: Json;
+          rewards: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description: string;
+          total_steps?: number;
+          is_active?: boolean;
+          unlock_requirement?: Json;
+          rewards?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string;
+          total_steps?: number;
+          is_active?: boolean;
+          unlock_requirement?: Json;
+          rewards?: Json;
+          created_at?: string;
+        };
+      };
+      saga_steps: {
+        Row: {
+          id: string;
+          saga_id: string;
+          step_number: number;
+          name: string;
+          description: string;
+          type: "dialogue" | "battle" | "puzzle" | "exploration" | "item";
+          requirements: Json;
+          rewards: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          saga_id: string;
+          step_number: number;
+          name: string;
+          description: string;
+          type: "dialogue" | "battle" | "puzzle" | "exploration" | "item";
+          requirements?: Json;
+          rewards?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          saga_id?: string;
+          step_number?: number;
+          name?: string;
+          description?: string;
+          type?: "dialogue" | "battle" | "puzzle" | "exploration" | "item";
+          requirements?: Json;
+          rewards?: Json;
+          created_at?: string;
+        };
+      };
+      user_saga_progress: {
+        Row: {
+          id: string;
+          user_id: string;
+          saga_id: string;
+          current_step: number;
+          is_active: boolean;
+          is_completed: boolean;
+          started_at: string | null;
+          completed_at: string | null;
+          flags: Json;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          saga_id: string;
+          current_step?: number;
+          is_active?: boolean;
+          is_completed?: boolean;
+          started_at?: string | null;
+          completed_at?: string | null;
+          flags?: Json;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          saga_id?: string;
+          current_step?: number;
+          is_active?: boolean;
+          is_completed?: boolean;
+          started_at?: string | null;
+          completed_at?: string | null;
+          flags?: Json;
+        };
+      };
+    };
+    Functions: {
+      update_user_currency: {
+        Args: {
+          user_id: string;
+          currency_type: string;
+          amount: number;
+          reason?: string;
+          reference_id?: string | null;
+        };
+        Returns: boolean;
+      };
+      update_account_score: {
+        Args: {
+          user_id: string;
+          points: number;
+          reason?: string;
+        };
+        Returns: boolean;
+      };
+      calculate_pet_level: {
+        Args: {
+          pet_id: string;
+        };
+        Returns: number;
+      };
+      refresh_pet_care: {
+        Args: {
+          p_pet_id: string;
+        };
+        Returns: undefined;
+      };
+      refresh_user_pets_care: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      use_pet_item: {
+        Args: {
+          p_user_id: string;
+          p_pet_id: string;
+          p_inventory_id: string;
+        };
+        Returns: undefined;
+      };
+      equip_item_transaction: {
+        Args: {
+          p_user_id: string;
+          p_pet_id: string;
+          p_inventory_item_id: string;
+          p_item_slot: string;
+        };
+        Returns: boolean;
+      };
+      unequip_item_transaction: {
+        Args: {
+          p_user_id: string;
+          p_pet_id: string;
+          p_inventory_item_id: string;
+          p_item_slot: string;
+        };
+        Returns: boolean;
+      };
+      add_collectible_to_user: {
+        Args: {
+          user_id: string;
+          collectible_name: string;
+        };
+        Returns: boolean;
+      };
+      add_user_collectible_safe: {
+        Args: {
+          p_user_id: string;
+          p_collectible_name: string;
+        };
+        Returns: boolean;
+      };
+      create_duel: {
+        Args: {
+          p_challenger_id: string;
+          p_opponent_id: string;
+          p_pet_id: string;
+          p_xenocoins_wagered?: number;
+        };
+        Returns: string;
+      };
+      accept_duel: {
+        Args: {
+          p_duel_id: string;
+          p_user_id: string;
+          p_pet_id: string;
+        };
+        Returns: undefined;
+      };
+      cancel_duel: {
+        Args: {
+          p_duel_id: string;
+          p_user_id: string;
+        };
+        Returns: string;
+      };
+      complete_duel: {
+        Args: {
+          p_duel_id: string;
+        };
+        Returns: boolean;
+      };
+      create_trade: {
+        Args: {
+          p_initiator_id: string;
+          p_recipient_id: string;
+          p_initiator_items: Json;
+          p_recipient_items: Json;
+          p_initiator_xenocoins?: number;
+          p_recipient_xenocoins?: number;
+        };
+        Returns: string;
+      };
+      confirm_trade: {
+        Args: {
+          p_trade_id: string;
+          p_user_id: string;
+        };
+        Returns: string;
+      };
+      cancel_trade: {
+        Args: {
+          p_trade_id: string;
+          p_user_id: string;
+        };
+        Returns: string;
+      };
+      complete_quest: {
+        Args: {
+          p_user_id: string;
+          p_quest_id: string;
+        };
+        Returns: Json;
+      };
+      complete_saga_step: {
+        Args: {
+          p_user_id: string;
+          p_saga_id: string;
+        };
+        Returns: Json;
+      };
+      record_space_kill: {
+        Args: {
+          p_user_id: string;
+          p_entity_id: string;
+        };
+        Returns: Json;
+      };
+      record_planet_landing: {
+        Args: {
+          p_user_id: string;
+          p_planet_id: string;
+        };
+        Returns: boolean;
+      };
+      refresh_achievement_gauges: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
+      unlock_achievement: {
+        Args: {
+          p_user_id: string;
+          p_achievement_id: string;
+        };
+        Returns: Json;
+      };
+      restock_shop: {
+        Args: {
+          p_shop_id: string;
+        };
+        Returns: boolean;
+      };
+      restock_due_shops: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      purchase_shop_item: {
+        Args: {
+          p_user_id: string;
+          p_shop_item_id: string;
+          p_quantity: number;
+          p_idempotency_key: string;
+        };
+        Returns: Json;
+      };
+      admin_adjust_currency: {
+        Args: {
+          p_user_id: string;
+          p_currency_type: string;
+          p_amount: number;
+        };
+        Returns: boolean;
+      };
+      admin_add_inventory_item: {
+        Args: {
+          p_user_id: string;
+          p_item_id: string;
+          p_quantity?: number;
+        };
+        Returns: Json;
+      };
+      discard_inventory_item: {
+        Args: {
+          p_user_id: string;
+          p_inventory_id: string;
+          p_quantity?: number;
+        };
+        Returns: boolean;
+      };
+      verify_currency_balance: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Json;
+      };
+      checkin_reward: {
+        Args: {
+          p_date: string;
+          p_streak: number;
+        };
+        Returns: Json;
+      };
+      daily_checkin: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Json;
+      };
+      get_checkin_status: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: Json;
+      };
+      redeem_code: {
+        Args: {
+          p_user_id: string;
+          p_code: string;
+        };
+        Returns: Json;
+      };
+      create_redeem_campaign: {
+        Args: {
+          p_name: string;
+          p_description: string;
+          p_rewards: Json;
+          p_expires_at: string | null;
+          p_code_pattern: string | null;
+          p_codes: string[];
+        };
+        Returns: Json;
+      };
+      add_redeem_campaign_codes: {
+        Args: {
+          p_campaign_id: string;
+          p_codes: string[];
+        };
+        Returns: Json;
+      };
+      revoke_redeem_campaign_codes: {
+        Args: {
+          p_campaign_id: string;
+        };
+        Returns: number;
+      };
+      get_redeem_campaigns: {
+        Args: Record<string, never>;
+        Returns: Json;
+      };
+      save_world_layout: {
+        Args: {
+          p_changes: Json;
+          p_note: string;
+        };
+        Returns: number;
+      };
+      rollback_world_layout: {
+        Args: {
+          p_version: number;
         };
         Returns: number;
       };
@@ -40,6 +40,25 @@ export interface UserPreferences {
     allowDuels: boolean;
     allowTrades: boolean;
   };
+  // Missing until the player changes a binding (see utils/shipInput)
+  controls?: ControlBindings;
+}
+
+export type ShipAction =
+  | "thrust"
+  | "reverse"
+  | "turnLeft"
+  | "turnRight"
+  | "fire";
+
+// Keys and gamepad buttons that drive the ship on the space map
+export interface ControlBindings {
+  // KeyboardEvent.code values
+  keyboard: Record<ShipAction, string[]>;
+  // Button indices in the standard gamepad layout
+  gamepad: Record<ShipAction, number[]>;
+  // Share of the stick's travel ignored around its center, 0 to 1
+  gamepadDeadzone: number;
 }
 
 export interface AuthState {
@@ -181,6 +200,7 @@ export interface Item {
   createdAt: Date;
   inventoryId?: string;
   equippedPetId?: string;
+  lockedTradeId?: string;
 }
 
 export type ItemRarity =
@@ -205,6 +225,22 @@ export interface WorldPosition {
   updatedAt: Date;
 }
 
+// The part of a world the world editor saves and versions
+export type WorldLayout = Pick<
+  WorldPosition,
+  "id" | "x" | "y" | "size" | "rotation"
+>;
+
+export interface WorldLayoutVersion {
+  id: string;
+  version: number;
+  note: string;
+  // Every world as it was after this save
+  layout: WorldLayout[];
+  createdBy?: string;
+  createdAt: Date;
+}
+
 export interface GameState {
   user: User | null;
   activePet: Pet | null;
@@ -214,21 +250,24 @@ export interface GameState {
   cash: number;
   notifications: Notification[];
   language: string;
-  currentScreen: string;
   achievements: Achievement[];
   collectibles: Collectible[];
   quests: Quest[];
   redeemCodes: RedeemCode[];
-  viewedUserId: string | null;
-  shipState?: {
-    x: number;
-    y: number;
-    angle: number;
-    vx: number;
-    vy: number;
-    cameraX: number;
-    cameraY: number;
-  };
+  shipState?: ShipState;
+  // Galaxy map sectors the ship has flown near (see utils/galaxyMap)
+  discoveredSectors: number[];
+}
+
+// Ship position in world coordinates; velocity is in world units per tick
+export interface ShipState {
+  x: number;
+  y: number;
+  angle: number;
+  vx: number;
+  vy: number;
+  cameraX: number;
+  cameraY: number;
 }
 
 export interface Notification {
@@ -267,13 +306,21 @@ export interface Collectible {
   obtainMethod: string; // How to obtain this collectible
 }
 
+// What completing a quest or saga step pays out
+export interface ProgressionRewards {
+  xenocoins?: number;
+  cash?: number;
+  accountPoints?: number;
+  items?: string[]; // Item IDs
+}
+
 export interface Quest {
   id: string;
   name: string;
   description: string;
   type: "delivery" | "minigame" | "exploration" | "combat" | "riddle";
   requirements: Record<string, any>;
-  rewards: Record<string, number>;
+  rewards: ProgressionRewards;
   isActive: boolean;
   isCompleted: boolean;
   progress: Record<string, number>;
@@ -289,8 +336,8 @@ export interface RedeemCode {
   rewards: {
     xenocoins?: number;
     cash?: number;
-    items?: string[]; // Item IDs
-    collectibles?: string[]; // Collectible IDs
+    items?: string[]; // Item IDs or slugs
+    collectibles?: string[]; // Collectible IDs or names
     accountPoints?: number;
   };
   maxUses: number;
@@ -302,6 +349,50 @@ export interface RedeemCode {
   usedBy: string[]; // Array of user IDs who used this code
 }
 
+export interface RedeemCampaign {
+  id: string;
+  name: string;
+  description: string;
+  rewards: RedeemCode["rewards"];
+  expiresAt?: Date;
+  codePattern?: string;
+  createdBy?: string;
+  createdAt: Date;
+  stats: {
+    total: number;
+    redeemed: number;
+    revoked: number;
+    available: number;
+  };
+}
+
+export interface RedeemCampaignCode {
+  id: string;
+  code: string;
+  isActive: boolean;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  redeemedBy?: string; // User ID
+  redeemedByUsername?: string;
+  redeemedAt?: Date;
+}
+
+export interface RedeemCodeResult {
+  redemptionId: string;
+  code: string;
+  name: string;
+  rewards: {
+    xenocoins: number;
+    cash: number;
+    accountPoints: number;
+    items: string[]; // Granted item names
+    collectibles: string[]; // Granted collectible names
+  };
+  xenocoins: number;
+  cash: number;
+  accountScore: number;
+}
+
 export interface Saga {
   id: string;
   name: string;
@@ -309,8 +400,10 @@ export interface Saga {
   totalSteps: number;
   currentStep: number;
   isActive: boolean;
+  isCompleted: boolean;
   steps: SagaStep[];
-  rewards: Record<string, any>;
+  rewards: ProgressionRewards;
+  stepProgress: Record<string, number>; // Counters for the step being played
 }
 
 export interface SagaStep {
@@ -320,7 +413,180 @@ export interface SagaStep {
   description: string;
   type: "dialogue" | "battle" | "puzzle" | "exploration" | "item";
   requirements: Record<string, any>;
-  rewards?: Record<string, any>;
+  rewards?: ProgressionRewards;
   isCompleted: boolean;
   completedAt?: Date;
 }
+
+export interface Duel {
+  id: string;
+  challengerId: string;
+  opponentId: string;
+  challengerPetId: string;
+  opponentPetId?: string;
+  status:
+    | "pending"
+    | "accepted"
+    | "rejected"
+    | "cancelled"
+    | "in_progress"
+    | "completed";
+  winnerId?: string;
+  xenocoinsWagered: number;
+  battleLog: DuelRound[];
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface DuelRound {
+  round: number;
+  actions: DuelAction[];
+}
+
+export interface DuelAction {
+  actorPetId: string;
+  targetPetId: string;
+  type: "hit" | "critical" | "miss" | "skip" | "condition";
+  damage: number;
+  targetHp: number;
+  message: string;
+}
+
+export interface Trade {
+  id: string;
+  initiatorId: string;
+  recipientId: string;
+  initiatorItems: TradeItem[];
+  recipientItems: TradeItem[];
+  initiatorXenocoins: number;
+  recipientXenocoins: number;
+  status: "pending" | "accepted" | "rejected" | "completed" | "cancelled";
+  initiatorConfirmed: boolean;
+  recipientConfirmed: boolean;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface TradeItem {
+  inventoryId: string;
+  itemId: string;
+  quantity: number;
+}
+
+export interface Store {
+  id: string;
+  name: string;
+  description: string;
+  type: StoreType;
+  npcName: string;
+  npcImage: string;
+  npcDialogue: string;
+
+  inventory: StoreItem[];
+  restockSchedule: RestockSchedule;
+  specialOffers: SpecialOffer[];
+  isOpen: boolean;
+  openHours: { start: number; end: number };
+  reputation: number;
+  discountLevel: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StoreItem {
+  id: string;
+  itemId: string;
+  item: Item;
+  basePrice: number;
+  currentPrice: number;
+  currency: "xenocoins" | "cash";
+  stock: number; // Infinity for items that never run out
+  maxStock: number;
+  restockRate: number;
+  isLimited: boolean;
+  isOnSale: boolean;
+  saleDiscount: number;
+  requirements?: ItemRequirement[];
+  lastRestocked: Date;
+}
+
+export interface ItemRequirement {
+  type: "level" | "achievement" | "item" | "currency" | "reputation";
+  value: string | number;
+  description: string;
+}
+
+export interface RestockSchedule {
+  interval: number; // hours
+  lastRestock: Date;
+  nextRestock: Date;
+  items: string[]; // item ids to restock
+}
+
+export interface SpecialOffer {
+  id: string;
+  name: string;
+  description: string;
+  itemId: string;
+  originalPrice: number;
+  salePrice: number;
+  currency: "xenocoins" | "cash";
+  startDate: Date;
+  endDate: Date;
+  maxPurchases: number;
+  currentPurchases: number;
+  isActive: boolean;
+}
+
+export interface PurchaseResult {
+  success: boolean;
+  message: string;
+  item?: Item;
+  totalCost: number;
+  currency: "xenocoins" | "cash";
+  newBalance: number;
+}
+
+export type StoreType =
+  | "general"
+  | "equipment"
+  | "food"
+  | "potions"
+  | "collectibles"
+  | "premium"
+  | "seasonal";
+
+export interface CurrencyLedgerEntry {
+  id: string;
+  userId: string;
+  currency: "xenocoins" | "cash";
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  referenceId?: string;
+  createdAt: Date;
+}
+
+export interface CurrencyBalanceCheck {
+  xenocoins: { profile: number; ledger: number };
+  cash: { profile: number; ledger: number };
+  consistent: boolean;
+}
+
+export interface CheckinStatus {
+  today: string;
+  checkedInToday: boolean;
+  currentStreak: number;
+  longestStreak: number;
+  graceAvailable: boolean;
+  claimedDates: string[];
+}
+
+export interface CheckinResult {
+  checkinDate: string;
+  streak: number;
+  graceUsed: boolean;
+  rewards: { xenocoins: number; cash: number; weeklyBonus: boolean };
+  xenocoins: number;
+  cash: number;
+}
@@ -0,0 +1,16 @@
+import { Achievement } from "../types/game";
+
+/**
+ * Achievement unlocking rules
+ *
+ * An achievement tracks a single requirement (`{"pets_created": 1}`) in its
+ * `progress` integer. Two kinds of requirement exist:
+ * - counters, advanced by the database as game events happen, exactly like
+ *   quest counters; their target is expected to match `max_progress`
+ * - gauges, recomputed by the database from the player's state (balance,
+ *   distinct items, happiest pet) and scaled onto `max_progress`
+ * Progress never goes down, and the server re-checks it before unlocking.
+ */
+
+export const isAchievementComplete = (achievement: Achievement): boolean =>
+  !achievement.isUnlocked && achievement.progress >= achievement.maxProgress;
@@ -0,0 +1,53 @@
+/**
+ * Alpha masks for pixel-accurate picking
+ *
+ * A mask samples an image's alpha channel once, at a small fixed resolution,
+ * so checking whether a point lands on a visible pixel is an array lookup
+ * instead of drawing the image on a canvas for every click. The same mask
+ * serves the image at any drawn size.
+ */
+
+export const ALPHA_MASK_RESOLUTION = 128;
+// Alpha above which a pixel counts as visible
+const VISIBLE_ALPHA = 50;
+
+export interface AlphaMask {
+  resolution: number;
+  // 1 for visible pixels, row by row
+  visible: Uint8Array;
+}
+
+/**
+ * Samples an image into a mask. Returns null when the pixels can't be read,
+ * e.g. a cross-origin image without CORS headers.
+ */
+export const createAlphaMask = (
+  image: CanvasImageSource,
+  resolution = ALPHA_MASK_RESOLUTION,
+): AlphaMask | null => {
+  const canvas = document.createElement("canvas");
+  canvas.width = resolution;
+  canvas.height = resolution;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  try {
+    ctx.drawImage(image, 0, 0, resolution, resolution);
+    const pixels = ctx.getImageData(0, 0, resolution, resolution).data;
+    const visible = new Uint8Array(resolution * resolution);
+    for (let i = 0; i < visible.length; i++) {
+      visible[i] = pixels[i * 4 + 3] > VISIBLE_ALPHA ? 1 : 0;
+    }
+    return { resolution, visible };
+  } catch {
+    return null;
+  }
+};
+
+// Whether the point at (u, v), from 0 to 1 across the image, is visible
+export const isMaskVisible = (mask: AlphaMask, u: number, v: number) => {
+  if (u < 0 || u >= 1 || v < 0 || v >= 1) return false;
+  const column = Math.floor(u * mask.resolution);
+  const row = Math.floor(v * mask.resolution);
+  return mask.visible[row * mask.resolution + column] === 1;
+};
@@ -0,0 +1,42 @@
+/**
+ * Daily check-in rules
+ *
+ * Mirrors `checkin_reward` in the daily check-in migration; the server pays
+ * the rewards, this copy only previews them in the calendar. Days are UTC
+ * calendar days written as `YYYY-MM-DD`.
+ */
+
+export interface CheckinReward {
+  xenocoins: number;
+  cash: number;
+  weeklyBonus: boolean;
+}
+
+const WEEKDAY_XENOCOINS = 100;
+const SUNDAY_CASH = 1;
+const WEEKLY_STREAK = 7;
+const WEEKLY_BONUS_CASH = 2;
+
+export const toUtcDateKey = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+export const parseUtcDateKey = (dateKey: string): Date =>
+  new Date(`${dateKey}T00:00:00Z`);
+
+/**
+ * Rewards for checking in on a day, given the streak that check-in reaches
+ * (0 when the streak is unknown, which leaves out the weekly bonus)
+ */
+export const getCheckinReward = (
+  dateKey: string,
+  streak = 0,
+): CheckinReward => {
+  const isSunday = parseUtcDateKey(dateKey).getUTCDay() === 0;
+  const weeklyBonus = streak > 0 && streak % WEEKLY_STREAK === 0;
+
+  return {
+    xenocoins: isSunday ? 0 : WEEKDAY_XENOCOINS,
+    cash: (isSunday ? SUNDAY_CASH : 0) + (weeklyBonus ? WEEKLY_BONUS_CASH : 0),
+    weeklyBonus,
+  };
+};
@@ -0,0 +1,285 @@
+import { DuelAction, DuelRound, Pet, PetCondition } from "../types/game";
+import { getActiveConditions, getEffectiveStats } from "./petStats";
+import {
+  createSeededRandom,
+  randomBetween,
+  rollChance,
+  RandomSource,
+} from "./random";
+
+/**
+ * Turn-based duel resolver
+ *
+ * Pure function of two pet snapshots, a seed and the time the duel is fought
+ * (which decides the conditions still in effect): the same inputs always
+ * produce the same battle log, so a stored duel can be replayed or verified.
+ */
+
+const MAX_ROUNDS = 20;
+
+// Hit points
+const BASE_HP = 40;
+const HP_PER_HEALTH = 4;
+const HP_PER_DEFENSE = 2;
+
+// Accuracy
+const BASE_HIT_CHANCE = 0.75;
+const HIT_CHANCE_PER_POINT = 0.03;
+const MIN_HIT_CHANCE = 0.2;
+const MAX_HIT_CHANCE = 0.95;
+
+// Critical hits
+const BASE_CRIT_CHANCE = 0.05;
+const CRIT_CHANCE_PER_LUCK = 0.01;
+const MAX_CRIT_CHANCE = 0.5;
+const CRIT_MULTIPLIER = 1.5;
+
+// Damage
+const DEFENSE_MITIGATION = 0.5;
+const MIN_DAMAGE = 1;
+const DAMAGE_VARIANCE = 0.15;
+
+// Condition behaviour during a duel
+const PARALYSIS_SKIP_CHANCE = 0.25;
+const POISON_DAMAGE_PER_ROUND = 2;
+const COLD_SKIP_CHANCE = 0.1;
+
+export interface CombatStats {
+  petId: string;
+  name: string;
+  maxHp: number;
+  attack: number;
+  defense: number;
+  precision: number;
+  evasion: number;
+  speed: number;
+  luck: number;
+  conditions: PetCondition["type"][];
+}
+
+export interface DuelOutcome {
+  seed: string;
+  rounds: DuelRound[];
+  // null when the duel ended in a draw
+  winnerPetId: string | null;
+  finalHp: Record<string, number>;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+/**
+ * Builds the combat profile of a pet from its effective stats (base stats,
+ * equipment, set bonus, active conditions and weapon).
+ */
+export const getCombatStats = (
+  pet: Pet,
+  at: Date = new Date(),
+): CombatStats => {
+  const stats = getEffectiveStats(pet, at).total;
+
+  return {
+    petId: pet.id,
+    name: pet.name,
+    maxHp: Math.round(
+      BASE_HP + stats.health * HP_PER_HEALTH + stats.defense * HP_PER_DEFENSE,
+    ),
+    attack: stats.attack,
+    defense: stats.defense,
+    precision: stats.precision,
+    evasion: stats.evasion,
+    speed: stats.speed,
+    luck: stats.luck,
+    conditions: getActiveConditions(pet, at).map((condition) => condition.type),
+  };
+};
+
+const getTurnOrder = (
+  first: CombatStats,
+  second: CombatStats,
+  random: RandomSource,
+): [CombatStats, CombatStats] => {
+  if (first.speed !== second.speed) {
+    return first.speed > second.speed ? [first, second] : [second, first];
+  }
+  if (first.luck !== second.luck) {
+    return first.luck > second.luck ? [first, second] : [second, first];
+  }
+  return random() < 0.5 ? [first, second] : [second, first];
+};
+
+const shouldSkipTurn = (
+  actor: CombatStats,
+  round: number,
+  random: RandomSource,
+): string | null => {
+  if (actor.conditions.includes("frozen") && round === 1) {
+    return `${actor.name} está congelado e não consegue agir!`;
+  }
+  if (
+    actor.conditions.includes("paralyzed") &&
+    rollChance(random, PARALYSIS_SKIP_CHANCE)
+  ) {
+    return `${actor.name} está paralisado!`;
+  }
+  if (
+    actor.conditions.includes("cold") &&
+    rollChance(random, COLD_SKIP_CHANCE)
+  ) {
+    return `${actor.name} treme de frio e perde o turno.`;
+  }
+  return null;
+};
+
+const resolveAttack = (
+  attacker: CombatStats,
+  defender: CombatStats,
+  hp: Record<string, number>,
+  random: RandomSource,
+): DuelAction => {
+  const hitChance = clamp(
+    BASE_HIT_CHANCE +
+      (attacker.precision - defender.evasion) * HIT_CHANCE_PER_POINT,
+    MIN_HIT_CHANCE,
+    MAX_HIT_CHANCE,
+  );
+
+  if (!rollChance(random, hitChance)) {
+    return {
+      actorPetId: attacker.petId,
+      targetPetId: defender.petId,
+      type: "miss",
+      damage: 0,
+      targetHp: hp[defender.petId],
+      message: `${defender.name} desviou do ataque de ${attacker.name}!`,
+    };
+  }
+
+  const critChance = clamp(
+    BASE_CRIT_CHANCE + attacker.luck * CRIT_CHANCE_PER_LUCK,
+    0,
+    MAX_CRIT_CHANCE,
+  );
+  const isCritical = rollChance(random, critChance);
+
+  const rawDamage =
+    Math.max(
+      MIN_DAMAGE,
+      attacker.attack - defender.defense * DEFENSE_MITIGATION,
+    ) *
+    randomBetween(random, 1 - DAMAGE_VARIANCE, 1 + DAMAGE_VARIANCE) *
+    (isCritical ? CRIT_MULTIPLIER : 1);
+  const damage = Math.max(MIN_DAMAGE, Math.round(rawDamage));
+
+  hp[defender.petId] = Math.max(0, hp[defender.petId] - damage);
+
+  return {
+    actorPetId: attacker.petId,
+    targetPetId: defender.petId,
+    type: isCritical ? "critical" : "hit",
+    damage,
+    targetHp: hp[defender.petId],
+    message: isCritical
+      ? `Golpe crítico! ${attacker.name} causou ${damage} de dano em ${defender.name}.`
+      : `${attacker.name} causou ${damage} de dano em ${defender.name}.`,
+  };
+};
+
+const applyRoundConditions = (
+  fighter: CombatStats,
+  hp: Record<string, number>,
+): DuelAction | null => {
+  if (!fighter.conditions.includes("poisoned") || hp[fighter.petId] <= 0) {
+    return null;
+  }
+
+  hp[fighter.petId] = Math.max(0, hp[fighter.petId] - POISON_DAMAGE_PER_ROUND);
+
+  return {
+    actorPetId: fighter.petId,
+    targetPetId: fighter.petId,
+    type: "condition",
+    damage: POISON_DAMAGE_PER_ROUND,
+    targetHp: hp[fighter.petId],
+    message: `${fighter.name} sofre ${POISON_DAMAGE_PER_ROUND} de dano do veneno.`,
+  };
+};
+
+// Knockout wins; otherwise the pet with the larger share of its HP left wins
+const getWinner = (
+  first: CombatStats,
+  second: CombatStats,
+  hp: Record<string, number>,
+): string | null => {
+  const firstRatio = hp[first.petId] / first.maxHp;
+  const secondRatio = hp[second.petId] / second.maxHp;
+  if (firstRatio === secondRatio) return null;
+  return firstRatio > secondRatio ? first.petId : second.petId;
+};
+
+/**
+ * Resolves a duel between two pets.
+ *
+ * @param challenger Snapshot of the challenging pet
+ * @param opponent Snapshot of the defending pet
+ * @param seed Seed for every random roll (use the duel id)
+ */
+export const resolveDuel = (
+  challenger: Pet,
+  opponent: Pet,
+  seed: string,
+  at: Date = new Date(),
+): DuelOutcome => {
+  const random = createSeededRandom(seed);
+  const fighters = [
+    getCombatStats(challenger, at),
+    getCombatStats(opponent, at),
+  ];
+  const hp: Record<string, number> = {
+    [fighters[0].petId]: fighters[0].maxHp,
+    [fighters[1].petId]: fighters[1].maxHp,
+  };
+  const [first, second] = getTurnOrder(fighters[0], fighters[1], random);
+  const rounds: DuelRound[] = [];
+
+  const isKnockedOut = () => hp[first.petId] <= 0 || hp[second.petId] <= 0;
+
+  for (let round = 1; round <= MAX_ROUNDS && !isKnockedOut(); round++) {
+    const actions: DuelAction[] = [];
+
+    for (const [attacker, defender] of [
+      [first, second],
+      [second, first],
+    ]) {
+      if (hp[attacker.petId] <= 0 || hp[defender.petId] <= 0) break;
+
+      const skipReason = shouldSkipTurn(attacker, round, random);
+      actions.push(
+        skipReason
+          ? {
+              actorPetId: attacker.petId,
+              targetPetId: defender.petId,
+              type: "skip",
+              damage: 0,
+              targetHp: hp[defender.petId],
+              message: skipReason,
+            }
+          : resolveAttack(attacker, defender, hp, random),
+      );
+    }
+
+    for (const fighter of [first, second]) {
+      const conditionAction = applyRoundConditions(fighter, hp);
+      if (conditionAction) actions.push(conditionAction);
+    }
+
+    rounds.push({ round, actions });
+  }
+
+  return {
+    seed,
+    rounds,
+    winnerPetId: getWinner(fighters[0], fighters[1], hp),
+    finalHp: hp,
+  };
+};
@@ -109,7 +109,7 @@ export const withErrorHandling = async <T>(
   operation: () => Promise<T>,
   context: string,
   fallbackValue?: T,
-): Promise<T | typeof fallbackValue> => {
+): Promise<T> => {
   try {
     return await operation();
   } catch (error) {
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { getPercentile, summarizeFrameTimes } from "./frameTiming";
+
+describe("summarizeFrameTimes", () => {
+  it("reports the average rate and the slow frames", () => {
+    const frameTimes = [
+      ...Array.from({ length: 95 }, () => 16),
+      ...Array.from({ length: 5 }, () => 50),
+    ];
+
+    expect(summarizeFrameTimes(frameTimes)).toEqual({
+      fps: Math.round(1000 / 17.7),
+      p50: 16,
+      p95: 16,
+      p99: 50,
+    });
+  });
+
+  it("handles no frames yet", () => {
+    expect(summarizeFrameTimes([]).fps).toBe(0);
+    expect(getPercentile([], 50)).toBe(0);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Frame timing statistics
+ *
+ * The average frame rate hides stutters, so the space map also reports
+ * percentiles of the time between frames: p50 is a typical frame, p95 and
+ * p99 show how bad the slow ones get.
+ */
+
+export interface FrameTimingSummary {
+  fps: number;
+  // Milliseconds between frames
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+// Nearest-rank percentile of values sorted in ascending order
+export const getPercentile = (sorted: number[], percentile: number) => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+};
+
+export const summarizeFrameTimes = (
+  frameTimes: number[],
+): FrameTimingSummary => {
+  if (frameTimes.length === 0) return { fps: 0, p50: 0, p95: 0, p99: 0 };
+
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const average =
+    frameTimes.reduce((sum, frameTime) => sum + frameTime, 0) /
+    frameTimes.length;
+  return {
+    fps: Math.round(1000 / average),
+    p50: getPercentile(sorted, 50),
+    p95: getPercentile(sorted, 95),
+    p99: getPercentile(sorted, 99),
+  };
+};
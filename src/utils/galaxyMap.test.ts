@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  MapView,
+  SECTOR_SIZE,
+  SECTORS_PER_SIDE,
+  getMapPositions,
+  getSectorIndex,
+  getSectorsAround,
+  mapToWorld,
+  projectToMap,
+} from "./galaxyMap";
+import { WORLD_SIZE } from "./spacePhysics";
+
+const overview: MapView = {
+  center: { x: WORLD_SIZE / 2, y: WORLD_SIZE / 2 },
+  scale: 300 / WORLD_SIZE,
+  width: 300,
+  height: 300,
+};
+
+describe("getSectorsAround", () => {
+  it("reveals the neighbours across the world corner", () => {
+    const sectors = getSectorsAround(10, 10);
+    const last = SECTORS_PER_SIDE - 1;
+
+    expect(sectors).toHaveLength(9);
+    expect(sectors).toContain(getSectorIndex(0, 0));
+    expect(sectors).toContain(last * SECTORS_PER_SIDE + last);
+    expect(sectors).toContain(getSectorIndex(WORLD_SIZE - 1, SECTOR_SIZE));
+  });
+});
+
+describe("map projection", () => {
+  it("keeps points near the center on the shortest side", () => {
+    const minimap: MapView = {
+      center: { x: 100, y: 100 },
+      scale: 0.1,
+      width: 160,
+      height: 160,
+    };
+
+    expect(projectToMap({ x: WORLD_SIZE - 100, y: 100 }, minimap)).toEqual({
+      x: 80 - 20,
+      y: 80,
+    });
+  });
+
+  it("maps clicks back to world coordinates", () => {
+    const point = { x: 1200, y: 14000 };
+    const clicked = mapToWorld(projectToMap(point, overview), overview);
+
+    expect(clicked.x).toBeCloseTo(point.x);
+    expect(clicked.y).toBeCloseTo(point.y);
+  });
+
+  it("draws a copy on the far side for shapes crossing the edge", () => {
+    expect(getMapPositions({ x: 10, y: 7500 }, overview, 5)).toHaveLength(2);
+    expect(getMapPositions({ x: 5000, y: 7500 }, overview, 5)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  Point,
+  WORLD_SIZE,
+  getWrappedDistance,
+  normalizeCoord,
+} from "./spacePhysics";
+
+/**
+ * Sector grid and map projection for the galaxy map
+ *
+ * The world is split into square sectors that count as discovered once the
+ * ship flies near them. Maps draw the wrapped world around a center point,
+ * so anything close to the center is always on the shortest side.
+ */
+
+export const SECTOR_SIZE = 750;
+export const SECTORS_PER_SIDE = WORLD_SIZE / SECTOR_SIZE;
+export const SECTOR_COUNT = SECTORS_PER_SIDE * SECTORS_PER_SIDE;
+// Sectors revealed around the ship's own sector, in each direction
+const DISCOVERY_RADIUS = 1;
+
+export interface MapView {
+  // World point drawn at the middle of the map
+  center: Point;
+  // Map pixels per world unit
+  scale: number;
+  width: number;
+  height: number;
+}
+
+const wrapSector = (sector: number) =>
+  ((sector % SECTORS_PER_SIDE) + SECTORS_PER_SIDE) % SECTORS_PER_SIDE;
+
+export const getSectorIndex = (x: number, y: number) => {
+  const column = Math.floor(normalizeCoord(x) / SECTOR_SIZE);
+  const row = Math.floor(normalizeCoord(y) / SECTOR_SIZE);
+  return row * SECTORS_PER_SIDE + column;
+};
+
+export const getSectorOrigin = (index: number): Point => ({
+  x: (index % SECTORS_PER_SIDE) * SECTOR_SIZE,
+  y: Math.floor(index / SECTORS_PER_SIDE) * SECTOR_SIZE,
+});
+
+export const getSectorsAround = (
+  x: number,
+  y: number,
+  radius = DISCOVERY_RADIUS,
+): number[] => {
+  const column = Math.floor(normalizeCoord(x) / SECTOR_SIZE);
+  const row = Math.floor(normalizeCoord(y) / SECTOR_SIZE);
+  const sectors = new Set<number>();
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      sectors.add(
+        wrapSector(row + dy) * SECTORS_PER_SIDE + wrapSector(column + dx),
+      );
+    }
+  }
+  return Array.from(sectors);
+};
+
+export const projectToMap = (point: Point, view: MapView): Point => ({
+  x: view.width / 2 + getWrappedDistance(point.x, view.center.x) * view.scale,
+  y: view.height / 2 + getWrappedDistance(point.y, view.center.y) * view.scale,
+});
+
+export const mapToWorld = (point: Point, view: MapView): Point => ({
+  x: normalizeCoord(view.center.x + (point.x - view.width / 2) / view.scale),
+  y: normalizeCoord(view.center.y + (point.y - view.height / 2) / view.scale),
+});
+
+/**
+ * Map positions of a world point, including the copies on the far side
+ * when a map shows the whole world and the point sits near an edge.
+ * `margin` is how far (in map pixels) the drawn shape reaches.
+ */
+export const getMapPositions = (
+  point: Point,
+  view: MapView,
+  margin: number,
+): Point[] => {
+  const base = projectToMap(point, view);
+  const span = WORLD_SIZE * view.scale;
+  const positions: Point[] = [];
+
+  for (const offsetX of [-span, 0, span]) {
+    for (const offsetY of [-span, 0, span]) {
+      const x = base.x + offsetX;
+      const y = base.y + offsetY;
+      if (
+        x >= -margin &&
+        x <= view.width + margin &&
+        y >= -margin &&
+        y <= view.height + margin
+      ) {
+        positions.push({ x, y });
+      }
+    }
+  }
+  return positions;
+};
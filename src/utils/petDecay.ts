@@ -0,0 +1,241 @@
+import { Pet, PetCondition } from "../types/game";
+import { isConditionActive } from "./petStats";
+
+/**
+ * Pet care decay engine
+ *
+ * The `pets` table stores exact hunger/happiness/health values for the hour
+ * in `care_updated_at`, together with how many hours in a row the pet's
+ * health has been low or empty. Advancing that snapshot hour by hour gives
+ * the current values, so the result only depends on the stored row and the
+ * clock – never on whether the client was open.
+ *
+ * The database runs this engine in `refresh_pet_care` (mock mode runs it
+ * from here); the client only rounds the stored values for display.
+ */
+
+// Simulation step: decay is evaluated in whole hours since the snapshot
+const DECAY_TICK_MS = 60 * 60 * 1000;
+
+// Pets that were neglected for longer than this are fully resolved anyway
+const MAX_SIMULATED_TICKS = 24 * 60;
+
+// Base loss per hour on the 0-10 scale
+const BASE_HUNGER_DECAY = 0.25;
+const BASE_HAPPINESS_DECAY = 0.2;
+
+// Health only drops while the pet is starving or miserable
+const STARVATION_HEALTH_DECAY = 0.3;
+const MISERY_HEALTH_DECAY = 0.1;
+const SICK_HEALTH_DECAY = 0.1;
+
+// Hungry pets lose happiness faster once hunger drops this low
+const HUNGRY_THRESHOLD = 2;
+const HUNGRY_HAPPINESS_DECAY = 0.1;
+
+// Conditions and death
+const SICK_HEALTH_THRESHOLD = 3;
+const SICK_AFTER_TICKS = 12;
+const DEATH_AFTER_TICKS = 48;
+const SICKNESS_DURATION_HOURS = 24;
+
+const MAX_CARE_STAT = 10;
+
+export interface DecayModifiers {
+  hunger: number;
+  happiness: number;
+  health: number;
+}
+
+export const SPECIES_DECAY_MODIFIERS: Record<Pet["species"], DecayModifiers> = {
+  Dragon: { hunger: 1.25, happiness: 0.9, health: 0.85 },
+  Phoenix: { hunger: 1.0, happiness: 1.0, health: 0.75 },
+  Griffin: { hunger: 1.1, happiness: 1.1, health: 1.0 },
+  Unicorn: { hunger: 0.85, happiness: 1.2, health: 1.0 },
+};
+
+export const PERSONALITY_DECAY_MODIFIERS: Record<
+  Pet["personality"],
+  DecayModifiers
+> = {
+  Sanguine: { hunger: 1.0, happiness: 0.8, health: 1.0 },
+  Choleric: { hunger: 1.15, happiness: 1.1, health: 1.0 },
+  Melancholic: { hunger: 0.9, happiness: 1.3, health: 1.0 },
+  Phlegmatic: { hunger: 0.9, happiness: 0.9, health: 0.9 },
+};
+
+// Active conditions speed up or slow down decay while they last
+const CONDITION_DECAY_MODIFIERS: Partial<
+  Record<PetCondition["type"], DecayModifiers>
+> = {
+  sick: { hunger: 1.0, happiness: 1.2, health: 1.0 },
+  cold: { hunger: 1.2, happiness: 1.1, health: 1.0 },
+  hot: { hunger: 0.9, happiness: 1.2, health: 1.0 },
+  poisoned: { hunger: 1.0, happiness: 1.1, health: 1.5 },
+  blessed: { hunger: 0.5, happiness: 0.5, health: 0.5 },
+};
+
+export interface PetCareSnapshot {
+  hunger: number;
+  happiness: number;
+  health: number;
+  lowHealthTicks: number;
+  zeroHealthTicks: number;
+  // The hour the values describe
+  updatedAt: Date;
+}
+
+export interface PetCareState {
+  id: string;
+  species: Pet["species"];
+  personality: Pet["personality"];
+  hatchTime?: Date;
+  conditions: PetCondition[];
+  care: PetCareSnapshot;
+}
+
+export type NewPetCondition = Omit<PetCondition, "id">;
+
+export interface PetDecayResult {
+  care: PetCareSnapshot;
+  // Conditions the pet caught during the elapsed hours
+  newConditions: NewPetCondition[];
+  // Set when the pet died during the elapsed hours
+  deathDate?: Date;
+}
+
+const clampCare = (value: number) =>
+  Math.max(0, Math.min(MAX_CARE_STAT, value));
+
+/**
+ * Care values are shown as integers; a stat only reads 0 once it is fully
+ * depleted.
+ */
+export const toCareDisplayValue = (value: number) =>
+  Math.max(0, Math.ceil(clampCare(value) - 1e-9));
+
+const combineModifiers = (...modifiers: DecayModifiers[]): DecayModifiers =>
+  modifiers.reduce(
+    (total, modifier) => ({
+      hunger: total.hunger * modifier.hunger,
+      happiness: total.happiness * modifier.happiness,
+      health: total.health * modifier.health,
+    }),
+    { hunger: 1, happiness: 1, health: 1 },
+  );
+
+const createSickCondition = (appliedAt: Date): NewPetCondition => ({
+  type: "sick",
+  name: "Doente",
+  description: "Seu pet ficou doente depois de muito tempo sem cuidados.",
+  effects: { attack: -2, defense: -2, speed: -2 },
+  duration: SICKNESS_DURATION_HOURS,
+  appliedAt,
+});
+
+/**
+ * Advances a living pet's care snapshot to the last whole hour before
+ * `now`. Eggs only start decaying once they hatch.
+ *
+ * @param pet Pet whose `care` snapshot is stored in the database
+ * @param now Time to evaluate at (defaults to the current time)
+ */
+export const calculatePetDecay = (
+  pet: PetCareState,
+  now: Date = new Date(),
+): PetDecayResult => {
+  const anchor = Math.max(
+    pet.care.updatedAt.getTime(),
+    pet.hatchTime?.getTime() ?? 0,
+  );
+  const elapsedTicks = Math.min(
+    MAX_SIMULATED_TICKS,
+    Math.max(0, Math.floor((now.getTime() - anchor) / DECAY_TICK_MS)),
+  );
+
+  if (elapsedTicks === 0) {
+    return { care: pet.care, newConditions: [] };
+  }
+
+  const baseModifiers = combineModifiers(
+    SPECIES_DECAY_MODIFIERS[pet.species],
+    PERSONALITY_DECAY_MODIFIERS[pet.personality],
+  );
+
+  const conditions: (PetCondition | NewPetCondition)[] = [...pet.conditions];
+  const newConditions: NewPetCondition[] = [];
+  let hunger = clampCare(pet.care.hunger);
+  let happiness = clampCare(pet.care.happiness);
+  let health = clampCare(pet.care.health);
+  let lowHealthTicks = pet.care.lowHealthTicks;
+  let zeroHealthTicks = pet.care.zeroHealthTicks;
+
+  for (let tick = 1; tick <= elapsedTicks; tick++) {
+    const tickTime = new Date(anchor + tick * DECAY_TICK_MS);
+    const activeConditions = conditions.filter((condition) =>
+      isConditionActive(condition, tickTime),
+    );
+    const modifiers = combineModifiers(
+      baseModifiers,
+      ...activeConditions.map(
+        (condition) =>
+          CONDITION_DECAY_MODIFIERS[condition.type] ?? {
+            hunger: 1,
+            happiness: 1,
+            health: 1,
+          },
+      ),
+    );
+    const isSick = activeConditions.some(
+      (condition) => condition.type === "sick",
+    );
+
+    hunger = clampCare(hunger - BASE_HUNGER_DECAY * modifiers.hunger);
+
+    let happinessLoss = BASE_HAPPINESS_DECAY;
+    if (hunger <= HUNGRY_THRESHOLD) happinessLoss += HUNGRY_HAPPINESS_DECAY;
+    happiness = clampCare(happiness - happinessLoss * modifiers.happiness);
+
+    let healthLoss = 0;
+    if (hunger <= 0) healthLoss += STARVATION_HEALTH_DECAY;
+    if (happiness <= 0) healthLoss += MISERY_HEALTH_DECAY;
+    if (isSick) healthLoss += SICK_HEALTH_DECAY;
+    health = clampCare(health - healthLoss * modifiers.health);
+
+    lowHealthTicks = health <= SICK_HEALTH_THRESHOLD ? lowHealthTicks + 1 : 0;
+    zeroHealthTicks = health <= 0 ? zeroHealthTicks + 1 : 0;
+
+    if (!isSick && lowHealthTicks >= SICK_AFTER_TICKS) {
+      const sickness = createSickCondition(tickTime);
+      conditions.push(sickness);
+      newConditions.push(sickness);
+    }
+
+    if (zeroHealthTicks >= DEATH_AFTER_TICKS) {
+      return {
+        care: {
+          hunger,
+          happiness,
+          health: 0,
+          lowHealthTicks,
+          zeroHealthTicks,
+          updatedAt: tickTime,
+        },
+        newConditions,
+        deathDate: tickTime,
+      };
+    }
+  }
+
+  return {
+    care: {
+      hunger,
+      happiness,
+      health,
+      lowHealthTicks,
+      zeroHealthTicks,
+      updatedAt: new Date(anchor + elapsedTicks * DECAY_TICK_MS),
+    },
+    newConditions,
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { buildPet, TEST_NOW } from "../test/fixtures";
+import { PetCondition } from "../types/game";
+import { getCombatStats } from "./duelEngine";
+import { getEffectiveStats } from "./petStats";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const sickFor = (hours: number, hoursAgo: number): PetCondition => ({
+  id: `sick-${hours}-${hoursAgo}`,
+  type: "sick",
+  name: "Doente",
+  description: "",
+  effects: { attack: -1, defense: -1 },
+  duration: hours,
+  appliedAt: new Date(TEST_NOW.getTime() - hoursAgo * HOUR_MS),
+});
+
+describe("pet conditions", () => {
+  it("applies a condition only while it lasts", () => {
+    const pet = buildPet({ attack: 5, conditions: [sickFor(24, 2)] });
+
+    expect(getEffectiveStats(pet, TEST_NOW).total.attack).toBe(4);
+    expect(getCombatStats(pet, TEST_NOW).conditions).toEqual(["sick"]);
+  });
+
+  it("ignores expired conditions in stats and duels", () => {
+    const pet = buildPet({ attack: 5, conditions: [sickFor(24, 30)] });
+
+    expect(getEffectiveStats(pet, TEST_NOW).conditions.attack).toBe(0);
+    expect(getEffectiveStats(pet, TEST_NOW).total.attack).toBe(5);
+    expect(getCombatStats(pet, TEST_NOW).conditions).toEqual([]);
+  });
+
+  it("keeps conditions without a duration until they are removed", () => {
+    const pet = buildPet({
+      attack: 5,
+      conditions: [{ ...sickFor(0, 500), duration: undefined }],
+    });
+
+    expect(getEffectiveStats(pet, TEST_NOW).total.attack).toBe(4);
+  });
+});
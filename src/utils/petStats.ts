@@ -0,0 +1,223 @@
+import {
+  Equipment,
+  Item,
+  ItemRarity,
+  Pet,
+  PetCondition,
+  Weapon,
+} from "../types/game";
+
+/**
+ * Effective pet stats
+ *
+ * Every screen and every battle reads a pet's stats from here. The total is
+ * built in layers:
+ * - base stats stored on the pet
+ * - `effects` of the equipped slot items
+ * - the rarity set bonus of the equipped slot items
+ * - active condition `effects`
+ * - flat weapon `stats`, plus attack from the weapon's `scalingStat`
+ * Stats never drop below zero.
+ */
+
+export const PET_STAT_KEYS = [
+  "health",
+  "strength",
+  "dexterity",
+  "intelligence",
+  "speed",
+  "attack",
+  "defense",
+  "precision",
+  "evasion",
+  "luck",
+] as const;
+
+export type PetStatKey = (typeof PET_STAT_KEYS)[number];
+
+export type PetStats = Record<PetStatKey, number>;
+
+export interface SetBonus {
+  rarity: ItemRarity;
+  pieces: number;
+  stats: Partial<PetStats>;
+}
+
+export interface EffectiveStats {
+  base: PetStats;
+  equipment: PetStats;
+  setBonus: SetBonus | null;
+  conditions: PetStats;
+  weapon: PetStats;
+  total: PetStats;
+}
+
+const EQUIPMENT_SLOTS: (keyof Equipment)[] = [
+  "head",
+  "torso",
+  "legs",
+  "gloves",
+  "footwear",
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Attack gained per point of the weapon's scaling stat
+const WEAPON_SCALING = 0.5;
+
+// Equipped pieces of one rarity needed for its bonus, and the full set that doubles it
+const SET_PIECES = 3;
+const FULL_SET_PIECES = EQUIPMENT_SLOTS.length;
+
+const RARITY_SET_BONUSES: Record<ItemRarity, Partial<PetStats>> = {
+  Common: { defense: 1 },
+  Uncommon: { attack: 1, defense: 1 },
+  Rare: { attack: 2, defense: 2 },
+  Epic: { attack: 2, defense: 2, speed: 1 },
+  Legendary: { attack: 3, defense: 3, speed: 2 },
+  Unique: { attack: 3, defense: 3, speed: 2, luck: 2 },
+};
+
+const emptyStats = (): PetStats =>
+  PET_STAT_KEYS.reduce((stats, key) => {
+    stats[key] = 0;
+    return stats;
+  }, {} as PetStats);
+
+const isStatKey = (key: string): key is PetStatKey =>
+  (PET_STAT_KEYS as readonly string[]).includes(key);
+
+const addEffects = (
+  stats: PetStats,
+  effects: Record<string, number> | Partial<PetStats> | undefined,
+  multiplier = 1,
+) => {
+  Object.entries(effects || {}).forEach(([key, value]) => {
+    if (isStatKey(key) && typeof value === "number") {
+      stats[key] += value * multiplier;
+    }
+  });
+};
+
+const getEquippedItems = (pet: Pet): Item[] =>
+  EQUIPMENT_SLOTS.map((slot) => pet.equipment?.[slot]).filter(
+    (item): item is Item => !!item,
+  );
+
+/**
+ * A condition is in effect from `appliedAt` until its `duration` (in hours)
+ * runs out; conditions without a duration last until they are removed.
+ * Expired rows stay in `pet_conditions`, so every reader filters with this.
+ */
+export const isConditionActive = (
+  condition: Pick<PetCondition, "appliedAt" | "duration">,
+  at: Date = new Date(),
+) =>
+  condition.appliedAt.getTime() <= at.getTime() &&
+  (condition.duration === undefined ||
+    condition.appliedAt.getTime() + condition.duration * HOUR_MS >
+      at.getTime());
+
+export const getActiveConditions = (pet: Pet, at: Date = new Date()) =>
+  pet.conditions.filter((condition) => isConditionActive(condition, at));
+
+/**
+ * The rarity set formed by the equipped slot items. With five slots at most
+ * one rarity can reach the piece count, so there is never more than one set.
+ */
+export const getSetBonus = (items: Item[]): SetBonus | null => {
+  const counts = new Map<ItemRarity, number>();
+  items.forEach((item) =>
+    counts.set(item.rarity, (counts.get(item.rarity) || 0) + 1),
+  );
+
+  for (const [rarity, pieces] of counts) {
+    if (pieces < SET_PIECES) continue;
+
+    const stats = emptyStats();
+    addEffects(
+      stats,
+      RARITY_SET_BONUSES[rarity],
+      pieces >= FULL_SET_PIECES ? 2 : 1,
+    );
+    return { rarity, pieces, stats };
+  }
+
+  return null;
+};
+
+export const getEffectiveStats = (
+  pet: Pet,
+  at: Date = new Date(),
+): EffectiveStats => {
+  const base = emptyStats();
+  PET_STAT_KEYS.forEach((key) => {
+    base[key] = pet[key] ?? 0;
+  });
+
+  const equippedItems = getEquippedItems(pet);
+
+  const equipment = emptyStats();
+  equippedItems.forEach((item) => addEffects(equipment, item.effects));
+
+  const setBonus = getSetBonus(equippedItems);
+
+  const conditions = emptyStats();
+  getActiveConditions(pet, at).forEach((condition) =>
+    addEffects(conditions, condition.effects),
+  );
+
+  const total = emptyStats();
+  addEffects(total, base);
+  addEffects(total, equipment);
+  addEffects(total, setBonus?.stats);
+  addEffects(total, conditions);
+
+  const weapon = emptyStats();
+  if (pet.weapon) {
+    addEffects(weapon, pet.weapon.stats);
+    const scalingValue = Math.max(
+      0,
+      total[pet.weapon.scalingStat] + weapon[pet.weapon.scalingStat],
+    );
+    weapon.attack += scalingValue * WEAPON_SCALING;
+  }
+  addEffects(total, weapon);
+
+  PET_STAT_KEYS.forEach((key) => {
+    total[key] = Math.max(0, total[key]);
+  });
+
+  return { base, equipment, setBonus, conditions, weapon, total };
+};
+
+/**
+ * Builds a pet's weapon from the item equipped in its weapon slot. Items do
+ * not store a scaling stat, so the weapon scales with whichever of
+ * strength, dexterity or intelligence it boosts most (strength by default).
+ */
+export const getWeaponFromItem = (item: Item): Weapon => {
+  const effects = item.effects || {};
+  const scalingStat = (["strength", "dexterity", "intelligence"] as const)
+    .filter((stat) => (effects[stat] ?? 0) > 0)
+    .reduce<Weapon["scalingStat"]>(
+      (best, stat) =>
+        (effects[stat] ?? 0) > (effects[best] ?? 0) ? stat : best,
+      "strength",
+    );
+
+  const weaponTypes: Record<Weapon["scalingStat"], Weapon["type"]> = {
+    strength: "One-Handed Sword",
+    dexterity: "Dual Daggers",
+    intelligence: "Magic Wand",
+  };
+
+  return {
+    id: item.id,
+    name: item.name,
+    type: weaponTypes[scalingStat],
+    rarity: item.rarity,
+    stats: effects,
+    scalingStat,
+  };
+};
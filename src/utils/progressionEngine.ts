@@ -0,0 +1,44 @@
+/**
+ * Quest and saga progression rules
+ *
+ * Requirements are counters (`{"items_acquired": 3, "planet:<id>": 1}`).
+ * The database increments a fixed set of counters as each game event happens,
+ * including target-specific ones (`item:<itemId>`, `planet:<planetId>`); a
+ * quest or saga step is complete once each numeric requirement is reached.
+ * The server re-checks the stored counters before granting rewards.
+ */
+
+export type ProgressCounters = Record<string, number>;
+
+export interface RequirementProgress {
+  key: string;
+  current: number;
+  target: number;
+}
+
+const getNumericRequirements = (
+  requirements: Record<string, unknown>,
+): ProgressCounters =>
+  Object.fromEntries(
+    Object.entries(requirements || {}).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number",
+    ),
+  );
+
+export const isRequirementMet = (
+  requirements: Record<string, unknown>,
+  progress: ProgressCounters,
+): boolean =>
+  Object.entries(getNumericRequirements(requirements)).every(
+    ([key, target]) => (progress[key] || 0) >= target,
+  );
+
+export const getRequirementProgress = (
+  requirements: Record<string, unknown>,
+  progress: ProgressCounters,
+): RequirementProgress[] =>
+  Object.entries(getNumericRequirements(requirements)).map(([key, target]) => ({
+    key,
+    current: Math.min(target, progress[key] || 0),
+    target,
+  }));
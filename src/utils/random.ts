@@ -0,0 +1,51 @@
+/**
+ * Seedable pseudo-random helpers
+ *
+ * Game logic that has to be replayable (duels, spawns) must never call
+ * Math.random directly; it takes one of these generators instead so the same
+ * seed always produces the same sequence.
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ */
+export const hashSeed = (seed: string | number): number => {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic generator (mulberry32) returning floats in [0, 1).
+ */
+export const createSeededRandom = (seed: string | number): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Returns a float in [min, max) drawn from the given source.
+ */
+export const randomBetween = (
+  random: RandomSource,
+  min: number,
+  max: number,
+): number => min + random() * (max - min);
+
+/**
+ * Returns true with the given probability (0-1).
+ */
+export const rollChance = (random: RandomSource, chance: number): boolean =>
+  random() < chance;
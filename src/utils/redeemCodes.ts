@@ -0,0 +1,147 @@
+/**
+ * Redeem code generation and CSV helpers for campaigns
+ *
+ * A code pattern is literal text where every `#` is replaced by a random
+ * character of the charset, e.g. `XMAS-####-####`. Codes are stored
+ * uppercase, so patterns and charsets are uppercased too.
+ */
+
+export const DEFAULT_CODE_PATTERN = "####-####-####";
+
+// No 0/O or 1/I, which are easy to mix up when typing a code
+export const DEFAULT_CODE_CHARSET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const PATTERN_SLOT = "#";
+
+// Keep generated codes far from exhausting the pattern, so collisions stay rare
+const MAX_PATTERN_USAGE = 0.01;
+
+export const normalizeCharset = (charset: string): string =>
+  Array.from(new Set(charset.toUpperCase().replace(/\s/g, ""))).join("");
+
+/** How many distinct codes a pattern can produce with a charset */
+export const getPatternCapacity = (pattern: string, charset: string) => {
+  const slots = pattern.split(PATTERN_SLOT).length - 1;
+  return Math.pow(normalizeCharset(charset).length, slots);
+};
+
+/** Why `count` codes cannot be generated from a pattern, or null if they can */
+export const validateCodePattern = (
+  pattern: string,
+  charset: string,
+  count: number,
+): string | null => {
+  if (!pattern.includes(PATTERN_SLOT)) {
+    return `O padrão precisa de pelo menos um "${PATTERN_SLOT}"`;
+  }
+  if (normalizeCharset(charset).length < 2) {
+    return "O conjunto de caracteres precisa de pelo menos 2 caracteres";
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    return "A quantidade precisa ser maior que zero";
+  }
+  if (count > getPatternCapacity(pattern, charset) * MAX_PATTERN_USAGE) {
+    return "O padrão gera poucas combinações para essa quantidade de códigos";
+  }
+  return null;
+};
+
+const randomIndexes = (length: number, range: number): number[] => {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(values, (value) => value % range);
+};
+
+/**
+ * Generates `count` distinct codes. Codes in `exclude` are never returned,
+ * so a batch can be topped up after the server skipped existing codes.
+ */
+export const generateRedeemCodes = (
+  pattern: string,
+  charset: string,
+  count: number,
+  exclude: Iterable<string> = [],
+): string[] => {
+  const error = validateCodePattern(pattern, charset, count);
+  if (error) throw new Error(error);
+
+  const chars = normalizeCharset(charset);
+  const template = pattern.toUpperCase();
+  const slots = template.split(PATTERN_SLOT).length - 1;
+  const excluded = new Set(Array.from(exclude, (code) => code.toUpperCase()));
+  const codes = new Set<string>();
+
+  while (codes.size < count) {
+    const indexes = randomIndexes(slots, chars.length);
+    let slot = 0;
+    const code = template.replace(/#/g, () => chars[indexes[slot++]]);
+
+    if (!excluded.has(code)) {
+      codes.add(code);
+    }
+  }
+
+  return Array.from(codes);
+};
+
+const escapeCsvValue = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (header: string[], rows: string[][]): string =>
+  [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\n");
+
+const parseCsvLine = (line: string): string[] => {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current);
+  return values;
+};
+
+/**
+ * Reads codes from a CSV file: the `code` column when the first row is a
+ * header naming it, otherwise the first column of every row.
+ */
+export const parseCodesCsv = (csv: string): string[] => {
+  const rows = csv
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map(parseCsvLine);
+  if (rows.length === 0) return [];
+
+  const headerIndex = rows[0].findIndex(
+    (value) => value.trim().toLowerCase() === "code",
+  );
+  const column = Math.max(0, headerIndex);
+  const dataRows = headerIndex >= 0 ? rows.slice(1) : rows;
+
+  return Array.from(
+    new Set(
+      dataRows
+        .map((row) => (row[column] || "").trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  );
+};
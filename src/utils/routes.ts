@@ -0,0 +1,44 @@
+/**
+ * URL paths of every screen
+ *
+ * Components navigate with `navigate(paths.store(storeId))` instead of
+ * building strings by hand, so a route only has to change here and in the
+ * `<Routes>` table of `App.tsx`. Notifications store these same paths in
+ * `actionUrl`.
+ */
+export const paths = {
+  pet: () => "/",
+  world: () => "/world",
+  planet: (worldId: string) => `/planet/${encodeURIComponent(worldId)}`,
+  store: (storeId?: string) =>
+    storeId ? `/store/${encodeURIComponent(storeId)}` : "/store",
+  inventory: () => "/inventory",
+  profile: () => "/profile",
+  quests: () => "/quests",
+  admin: () => "/admin",
+  playerInventory: (userId: string) =>
+    `/players/${encodeURIComponent(userId)}/inventory`,
+  playerAchievements: (userId: string) =>
+    `/players/${encodeURIComponent(userId)}/achievements`,
+  playerCollectibles: (userId: string) =>
+    `/players/${encodeURIComponent(userId)}/collectibles`,
+};
+
+// Screens reachable without parameters, e.g. from the bottom navigation
+export type Screen =
+  | "pet"
+  | "world"
+  | "store"
+  | "inventory"
+  | "profile"
+  | "quests"
+  | "admin";
+
+export const screenPath = (screen: Screen): string => paths[screen]();
+
+/**
+ * Only in-app paths are followed from notifications; anything else (full
+ * URLs, `javascript:`) is ignored
+ */
+export const isInternalPath = (url: string | undefined): url is string =>
+  !!url && url.startsWith("/") && !url.startsWith("//");
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CONTROL_BINDINGS,
+  GamepadState,
+  applyDeadzone,
+  combineShipInputs,
+  isSteering,
+  readGamepad,
+  readKeyboard,
+  rebindControl,
+  resolveControlBindings,
+} from "./shipInput";
+
+const gamepad = (axes: number[], pressed: number[] = []): GamepadState => ({
+  axes,
+  buttons: Array.from({ length: 17 }, (_, index) => ({
+    pressed: pressed.includes(index),
+    value: pressed.includes(index) ? 1 : 0,
+  })),
+});
+
+describe("applyDeadzone", () => {
+  it("ignores stick drift inside the deadzone", () => {
+    expect(applyDeadzone(0.1, -0.1, 0.2)).toBeNull();
+  });
+
+  it("rescales the rest of the travel from 0 to 1", () => {
+    const justOut = applyDeadzone(0.3, 0, 0.2);
+    expect(justOut?.x).toBeCloseTo(0.125);
+
+    const full = applyDeadzone(0, -1, 0.2);
+    expect(full?.x).toBeCloseTo(0);
+    expect(full?.y).toBeCloseTo(-1);
+  });
+});
+
+describe("reading input", () => {
+  it("maps held keys through the bindings", () => {
+    const input = readKeyboard(
+      new Set(["KeyW", "ArrowLeft", "Space"]),
+      DEFAULT_CONTROL_BINDINGS,
+    );
+
+    expect(input).toEqual({ turn: -1, thrust: 1, stick: null, fire: true });
+  });
+
+  it("cancels out opposite keys", () => {
+    const input = readKeyboard(
+      new Set(["KeyA", "KeyD"]),
+      DEFAULT_CONTROL_BINDINGS,
+    );
+
+    expect(isSteering(input)).toBe(false);
+  });
+
+  it("reads the left stick and buttons of a gamepad", () => {
+    const input = readGamepad(gamepad([1, 0], [7]), DEFAULT_CONTROL_BINDINGS);
+
+    expect(input.stick?.x).toBeCloseTo(1);
+    expect(input.fire).toBe(true);
+    expect(readGamepad(gamepad([0.05, 0.1]), DEFAULT_CONTROL_BINDINGS)).toEqual(
+      { turn: 0, thrust: 0, stick: null, fire: false },
+    );
+  });
+
+  it("adds up keyboard and gamepad input", () => {
+    const input = combineShipInputs([
+      readKeyboard(new Set(["KeyW"]), DEFAULT_CONTROL_BINDINGS),
+      readGamepad(gamepad([0, 0], [12, 15]), DEFAULT_CONTROL_BINDINGS),
+    ]);
+
+    expect(input).toEqual({ turn: 1, thrust: 1, stick: null, fire: false });
+  });
+});
+
+describe("bindings", () => {
+  it("fills actions missing from saved bindings with the defaults", () => {
+    const bindings = resolveControlBindings({
+      keyboard: { ...DEFAULT_CONTROL_BINDINGS.keyboard, fire: ["KeyF"] },
+    });
+
+    expect(bindings.keyboard.fire).toEqual(["KeyF"]);
+    expect(bindings.gamepad).toEqual(DEFAULT_CONTROL_BINDINGS.gamepad);
+    expect(bindings.gamepadDeadzone).toBe(
+      DEFAULT_CONTROL_BINDINGS.gamepadDeadzone,
+    );
+  });
+
+  it("moves a key to its new action", () => {
+    const keyboard = rebindControl(
+      DEFAULT_CONTROL_BINDINGS.keyboard,
+      "fire",
+      "KeyW",
+      "Space",
+    );
+
+    expect(keyboard.fire).toEqual(["KeyW"]);
+    expect(keyboard.thrust).toEqual(["ArrowUp"]);
+  });
+});
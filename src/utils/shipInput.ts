@@ -0,0 +1,196 @@
+import { ControlBindings, ShipAction } from "../types/game";
+import { Point } from "./spacePhysics";
+
+/**
+ * Keyboard, gamepad and touch input for the ship
+ *
+ * Every control scheme boils down to a `ShipInput`: keys and the D-pad turn
+ * the ship and thrust along its heading, while analog sticks (gamepad or the
+ * touch joystick) point where to fly, the way the mouse does. Bindings come
+ * from the player's preferences, falling back to the defaults below.
+ */
+
+export const SHIP_ACTIONS: ShipAction[] = [
+  "thrust",
+  "reverse",
+  "turnLeft",
+  "turnRight",
+  "fire",
+];
+
+export const DEFAULT_CONTROL_BINDINGS: ControlBindings = {
+  keyboard: {
+    thrust: ["KeyW", "ArrowUp"],
+    reverse: ["KeyS", "ArrowDown"],
+    turnLeft: ["KeyA", "ArrowLeft"],
+    turnRight: ["KeyD", "ArrowRight"],
+    fire: ["Space"],
+  },
+  // Standard layout: 0 is the bottom face button, 7 the right trigger and
+  // 12 to 15 the D-pad
+  gamepad: {
+    thrust: [12],
+    reverse: [13],
+    turnLeft: [14],
+    turnRight: [15],
+    fire: [0, 7],
+  },
+  gamepadDeadzone: 0.2,
+};
+
+// Analog triggers count as pressed past this point
+const BUTTON_THRESHOLD = 0.5;
+
+export interface ShipInput {
+  // -1 (left) to 1 (right)
+  turn: number;
+  // -1 (reverse) to 1 (forward), along the ship's heading
+  thrust: number;
+  // Where an analog stick points; its length (up to 1) is the throttle
+  stick: Point | null;
+  fire: boolean;
+}
+
+// The parts of the Gamepad API the ship reads
+export interface GamepadState {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean; value: number }[];
+}
+
+export const NO_SHIP_INPUT: ShipInput = {
+  turn: 0,
+  thrust: 0,
+  stick: null,
+  fire: false,
+};
+
+// Saved bindings on top of the defaults, so new actions get a binding too
+export const resolveControlBindings = (
+  saved?: Partial<ControlBindings>,
+): ControlBindings => ({
+  keyboard: { ...DEFAULT_CONTROL_BINDINGS.keyboard, ...saved?.keyboard },
+  gamepad: { ...DEFAULT_CONTROL_BINDINGS.gamepad, ...saved?.gamepad },
+  gamepadDeadzone:
+    saved?.gamepadDeadzone ?? DEFAULT_CONTROL_BINDINGS.gamepadDeadzone,
+});
+
+/**
+ * Binds a key or button to an action in place of `replacing` (or in
+ * addition, when null), taking it away from any other action first.
+ */
+export const rebindControl = <T extends string | number>(
+  bindings: Record<ShipAction, T[]>,
+  action: ShipAction,
+  input: T,
+  replacing: T | null,
+): Record<ShipAction, T[]> => {
+  const updated = { ...bindings };
+  SHIP_ACTIONS.forEach((other) => {
+    updated[other] = updated[other].filter((bound) => bound !== input);
+  });
+
+  const current = updated[action];
+  const index = replacing === null ? -1 : current.indexOf(replacing);
+  updated[action] =
+    index >= 0
+      ? current.map((bound, i) => (i === index ? input : bound))
+      : [...current, input];
+  return updated;
+};
+
+/**
+ * Drops stick travel inside the deadzone and rescales the rest, so the
+ * throttle still runs smoothly from 0 to 1.
+ */
+export const applyDeadzone = (
+  x: number,
+  y: number,
+  deadzone: number,
+): Point | null => {
+  const length = Math.sqrt(x * x + y * y);
+  if (length <= deadzone) return null;
+
+  const scaled = Math.min((length - deadzone) / (1 - deadzone), 1);
+  return { x: (x / length) * scaled, y: (y / length) * scaled };
+};
+
+const isAnyPressed = <T>(bound: T[], isPressed: (input: T) => boolean) =>
+  bound.some(isPressed);
+
+const toAxis = (negative: boolean, positive: boolean) =>
+  (positive ? 1 : 0) - (negative ? 1 : 0);
+
+export const readKeyboard = (
+  pressedKeys: ReadonlySet<string>,
+  bindings: ControlBindings,
+): ShipInput => {
+  const isDown = (action: ShipAction) =>
+    isAnyPressed(bindings.keyboard[action], (code) => pressedKeys.has(code));
+
+  return {
+    turn: toAxis(isDown("turnLeft"), isDown("turnRight")),
+    thrust: toAxis(isDown("reverse"), isDown("thrust")),
+    stick: null,
+    fire: isDown("fire"),
+  };
+};
+
+export const isGamepadButtonPressed = (
+  gamepad: GamepadState,
+  index: number,
+) => {
+  const button = gamepad.buttons[index];
+  return !!button && (button.pressed || button.value > BUTTON_THRESHOLD);
+};
+
+export const readGamepad = (
+  gamepad: GamepadState,
+  bindings: ControlBindings,
+): ShipInput => {
+  const isDown = (action: ShipAction) =>
+    isAnyPressed(bindings.gamepad[action], (index) =>
+      isGamepadButtonPressed(gamepad, index),
+    );
+
+  return {
+    turn: toAxis(isDown("turnLeft"), isDown("turnRight")),
+    thrust: toAxis(isDown("reverse"), isDown("thrust")),
+    // Left stick
+    stick: applyDeadzone(
+      gamepad.axes[0] ?? 0,
+      gamepad.axes[1] ?? 0,
+      bindings.gamepadDeadzone,
+    ),
+    fire: isDown("fire"),
+  };
+};
+
+const clampAxis = (value: number) => Math.max(-1, Math.min(value, 1));
+
+// Several schemes at once (a key held while the stick moves) add up
+export const combineShipInputs = (inputs: ShipInput[]): ShipInput =>
+  inputs.reduce(
+    (combined, input) => ({
+      turn: clampAxis(combined.turn + input.turn),
+      thrust: clampAxis(combined.thrust + input.thrust),
+      stick: combined.stick ?? input.stick,
+      fire: combined.fire || input.fire,
+    }),
+    NO_SHIP_INPUT,
+  );
+
+// Whether the player is steering with anything other than the mouse
+export const isSteering = (input: ShipInput) =>
+  input.turn !== 0 || input.thrust !== 0 || input.stick !== null;
+
+// Short label for a key code: "KeyW" is "W", "ArrowUp" is "↑"
+export const formatKeyCode = (code: string) => {
+  const arrows: Record<string, string> = {
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    ArrowLeft: "←",
+    ArrowRight: "→",
+  };
+  if (arrows[code]) return arrows[code];
+  return code.replace(/^(Key|Digit)/, "");
+};
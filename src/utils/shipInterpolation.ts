@@ -0,0 +1,73 @@
+import { ShipState } from "../types/game";
+import { TICK_MS, lerpAngle, lerpCoord, normalizeCoord } from "./spacePhysics";
+
+/**
+ * Smooth motion for ships driven by network updates
+ *
+ * Remote ships are drawn slightly in the past, so there are usually two
+ * received samples around the drawn moment to blend between. When updates
+ * stop arriving, the ship keeps flying along its last velocity for a short
+ * while and then holds its position.
+ */
+
+export const INTERPOLATION_DELAY_MS = 150;
+export const MAX_EXTRAPOLATION_MS = 500;
+const MAX_SAMPLES = 20;
+
+export interface ShipSample {
+  state: ShipState;
+  receivedAt: number;
+}
+
+export interface ShipPose {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// Samples must be added in the order they were received
+export const addShipSample = (samples: ShipSample[], sample: ShipSample) => {
+  samples.push(sample);
+  if (samples.length > MAX_SAMPLES) {
+    samples.splice(0, samples.length - MAX_SAMPLES);
+  }
+};
+
+export const getShipPose = (
+  samples: ShipSample[],
+  now: number,
+): ShipPose | null => {
+  if (samples.length === 0) return null;
+
+  const renderTime = now - INTERPOLATION_DELAY_MS;
+  const oldest = samples[0];
+  if (renderTime <= oldest.receivedAt) {
+    return { x: oldest.state.x, y: oldest.state.y, angle: oldest.state.angle };
+  }
+
+  for (let i = samples.length - 1; i > 0; i--) {
+    const before = samples[i - 1];
+    const after = samples[i];
+    if (renderTime < before.receivedAt || renderTime > after.receivedAt) {
+      continue;
+    }
+
+    const span = after.receivedAt - before.receivedAt;
+    const t = span > 0 ? (renderTime - before.receivedAt) / span : 1;
+    return {
+      x: lerpCoord(before.state.x, after.state.x, t),
+      y: lerpCoord(before.state.y, after.state.y, t),
+      angle: lerpAngle(before.state.angle, after.state.angle, t),
+    };
+  }
+
+  // Past the newest sample: keep flying along the last known velocity
+  const latest = samples[samples.length - 1];
+  const ahead = Math.min(renderTime - latest.receivedAt, MAX_EXTRAPOLATION_MS);
+  const ticks = ahead / TICK_MS;
+  return {
+    x: normalizeCoord(latest.state.x + latest.state.vx * ticks),
+    y: normalizeCoord(latest.state.y + latest.state.vy * ticks),
+    angle: latest.state.angle,
+  };
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  CombatWorldState,
+  MAX_HULL,
+  PROJECTILE_DAMAGE,
+  REGION_RESPAWN_MS,
+  REGION_SIZE,
+  SpaceEntity,
+  createEncounterRegions,
+  getActiveRegions,
+  getRegionContents,
+  getRegionCycle,
+  spawnRegion,
+  stepCombatWorld,
+  syncRegions,
+} from "./spaceEncounters";
+import { ShipControls, WORLD_SIZE } from "./spacePhysics";
+
+const idle: ShipControls = { pointer: null, engaged: true, frozen: false };
+
+const asteroid = (overrides: Partial<SpaceEntity> = {}): SpaceEntity => ({
+  id: "0:0:0",
+  kind: "asteroid",
+  x: 1000,
+  y: 1000,
+  vx: 0,
+  vy: 0,
+  radius: 30,
+  rotation: 0,
+  spin: 0,
+  health: PROJECTILE_DAMAGE,
+  maxHealth: 30,
+  home: { x: 1000, y: 1000 },
+  wanderPhase: 0,
+  cooldown: 0,
+  loot: { type: "gem", name: "Cristal Estelar" },
+  ...overrides,
+});
+
+const world = (entities: SpaceEntity[]): CombatWorldState => ({
+  ship: { x: 500, y: 500, angle: 0, vx: 0, vy: 0 },
+  camera: { x: 500, y: 500 },
+  projectiles: [],
+  entities,
+  hull: MAX_HULL,
+  events: [],
+});
+
+describe("region spawns", () => {
+  it("spawns the same entities for the same region and cycle", () => {
+    const first = spawnRegion(7, 3, []);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(spawnRegion(7, 3, [])).toEqual(first);
+    expect(spawnRegion(7, 4, [])).not.toEqual(first);
+  });
+
+  it("keeps spawns away from planet landing areas", () => {
+    const planet = { x: REGION_SIZE / 2, y: REGION_SIZE / 2, radius: 600 };
+
+    spawnRegion(0, 1, [planet]).forEach((entity) => {
+      expect(
+        Math.hypot(entity.x - planet.x, entity.y - planet.y),
+      ).toBeGreaterThan(planet.radius + entity.radius);
+    });
+  });
+
+  it("rolls the same kinds and loot whatever the planets", () => {
+    const planet = { x: REGION_SIZE / 2, y: REGION_SIZE / 2, radius: 600 };
+    const contents = getRegionContents(0, 1);
+
+    [spawnRegion(0, 1, []), spawnRegion(0, 1, [planet])].forEach((entities) => {
+      entities.forEach((entity) => {
+        const index = Number(entity.id.split(":")[2]);
+        expect(contents[index]).toEqual({
+          kind: entity.kind,
+          loot: entity.loot,
+        });
+      });
+    });
+  });
+
+  it("activates the regions across the world edge", () => {
+    const regions = getActiveRegions(10, 10);
+    const perSide = WORLD_SIZE / REGION_SIZE;
+
+    expect(regions).toHaveLength(9);
+    expect(regions).toContain(perSide * perSide - 1);
+  });
+
+  it("doesn't bring back destroyed entities until the region respawns", () => {
+    const regions = createEncounterRegions();
+    const ship = { x: 100, y: 100 };
+    const now = 0;
+    const entities = syncRegions([], regions, ship, now, []);
+    const [destroyed] = entities;
+    regions.destroyedIds.add(destroyed.id);
+
+    // Fly away and come back within the same cycle
+    const far = { x: WORLD_SIZE / 2, y: WORLD_SIZE / 2 };
+    const away = syncRegions(entities, regions, far, now, []);
+    const back = syncRegions(away, regions, ship, now, []);
+    expect(back.map((entity) => entity.id)).not.toContain(destroyed.id);
+
+    const region = Number(destroyed.id.split(":")[0]);
+    const later = now + REGION_RESPAWN_MS;
+    expect(getRegionCycle(region, later)).not.toBe(getRegionCycle(region, now));
+    const respawned = syncRegions(back, regions, ship, later, []);
+    expect(respawned.some((entity) => entity.id.startsWith(`${region}:`))).toBe(
+      true,
+    );
+    expect(regions.destroyedIds.has(destroyed.id)).toBe(false);
+  });
+});
+
+describe("stepCombatWorld", () => {
+  it("destroys an asteroid hit by a projectile and reports its loot", () => {
+    const state = {
+      ...world([asteroid()]),
+      projectiles: [{ x: 995, y: 1000, vx: 0, vy: 0, life: 1, maxLife: 1 }],
+    };
+
+    const next = stepCombatWorld(state, idle);
+
+    expect(next.entities).toHaveLength(0);
+    expect(next.projectiles).toHaveLength(0);
+    expect(next.events).toContainEqual({
+      type: "destroyed",
+      entity: expect.objectContaining({
+        loot: { type: "gem", name: "Cristal Estelar" },
+      }),
+    });
+  });
+
+  it("hurts the ship on contact with a creature, then waits to bite again", () => {
+    const creature = asteroid({
+      kind: "creature",
+      x: 510,
+      y: 500,
+      home: { x: 510, y: 500 },
+      health: 60,
+      radius: 22,
+    });
+
+    const bitten = stepCombatWorld(world([creature]), idle);
+    expect(bitten.hull).toBeLessThan(MAX_HULL);
+    expect(bitten.events).toContainEqual({ type: "shipHit", damage: 10 });
+
+    const again = stepCombatWorld(bitten, idle);
+    expect(again.events).not.toContainEqual(
+      expect.objectContaining({ type: "shipHit" }),
+    );
+  });
+
+  it("disables the ship when the hull runs out", () => {
+    const creature = asteroid({
+      kind: "creature",
+      x: 510,
+      y: 500,
+      home: { x: 510, y: 500 },
+      health: 60,
+      radius: 22,
+    });
+
+    const next = stepCombatWorld({ ...world([creature]), hull: 5 }, idle);
+
+    expect(next.hull).toBe(0);
+    expect(next.events).toContainEqual({ type: "shipDisabled" });
+  });
+});
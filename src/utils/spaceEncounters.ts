@@ -0,0 +1,531 @@
+import {
+  RandomSource,
+  createSeededRandom,
+  hashSeed,
+  randomBetween,
+} from "./random";
+import {
+  BARRIER_RADIUS,
+  Point,
+  ShipControls,
+  WORLD_SIZE,
+  WorldState,
+  getWrappedDistance,
+  lerpCoord,
+  normalizeCoord,
+  stepWorld,
+} from "./spacePhysics";
+import { buildSpatialHash, queryHash } from "./spatialHash";
+
+/**
+ * Asteroids and hostile creatures on the space map
+ *
+ * The world is split into regions whose contents come from a seed of the
+ * region and its respawn cycle: every client spawns the same asteroids and
+ * creatures in the same places, and a cleared region fills up again, the
+ * same way for everyone, once its cycle turns over. Combat runs inside the
+ * fixed-timestep simulation through `stepCombatWorld`.
+ */
+
+export const REGION_SIZE = 2500;
+const REGIONS_PER_SIDE = WORLD_SIZE / REGION_SIZE;
+export const REGION_COUNT = REGIONS_PER_SIDE * REGIONS_PER_SIDE;
+export const REGION_RESPAWN_MS = 5 * 60 * 1000;
+// Regions kept populated around the ship, in each direction
+const ACTIVE_REGION_RADIUS = 1;
+// Room kept between spawns and the barrier or a planet's landing area
+const SPAWN_CLEARANCE = 200;
+const SPAWN_ATTEMPTS = 8;
+// Spatial hash cells for projectile hits
+const ENTITY_CELL_SIZE = 250;
+
+// Asteroids
+const ASTEROID_COUNT = { min: 5, max: 10 };
+const ASTEROID_RADIUS = { min: 18, max: 45 };
+const ASTEROID_MAX_DRIFT = 0.15;
+// Damage from ramming an asteroid at full speed
+const ASTEROID_IMPACT_DAMAGE = 12;
+
+// Creatures
+const CREATURE_COUNT = { min: 1, max: 3 };
+const CREATURE_RADIUS = 22;
+const CREATURE_HEALTH = 60;
+const CREATURE_SPEED = 0.45;
+const CREATURE_DAMAGE = 10;
+const CREATURE_ATTACK_COOLDOWN_TICKS = 60;
+// Creatures chase ships inside this distance and give up past the leash
+const CREATURE_AGGRO_RADIUS = 500;
+const CREATURE_LEASH_RADIUS = 1200;
+const CREATURE_WANDER_RADIUS = 250;
+const CREATURE_WANDER_SPEED = 0.004;
+
+// Ship
+export const SHIP_RADIUS = 14;
+export const MAX_HULL = 100;
+const HULL_REGEN_PER_TICK = 2 / 60;
+const SHIP_BOUNCE = 0.6;
+export const PROJECTILE_DAMAGE = 10;
+
+export type LootDrop =
+  { type: "item"; name: string } | { type: "gem"; name: string };
+
+export interface SpaceEntity {
+  // `${region}:${cycle}:${index}`, the same on every client
+  id: string;
+  kind: "asteroid" | "creature";
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+  rotation: number;
+  spin: number;
+  health: number;
+  maxHealth: number;
+  home: Point;
+  wanderPhase: number;
+  // Ticks until a creature can hurt the ship again
+  cooldown: number;
+  loot: LootDrop | null;
+}
+
+export type CombatEvent =
+  | { type: "hit"; entityId: string; x: number; y: number }
+  | { type: "destroyed"; entity: SpaceEntity }
+  | { type: "shipHit"; damage: number }
+  | { type: "shipDisabled" };
+
+export interface CombatWorldState extends WorldState {
+  entities: SpaceEntity[];
+  hull: number;
+  // What happened during the latest tick
+  events: CombatEvent[];
+}
+
+// Something spawns must keep away from (a planet's landing area)
+export interface SpawnObstacle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+const GEMS = [
+  { name: "Cristal Estelar", weight: 60 },
+  { name: "Rubi Nebular", weight: 28 },
+  { name: "Safira do Vazio", weight: 10 },
+  { name: "Diamante Cósmico", weight: 2 },
+];
+
+const LOOT_TABLES: Record<
+  SpaceEntity["kind"],
+  { gemChance: number; itemChance: number; item: string }
+> = {
+  asteroid: { gemChance: 0.08, itemChance: 0.12, item: "Desert Crystal" },
+  creature: { gemChance: 0.35, itemChance: 0.25, item: "Energy Drink" },
+};
+
+const pickGem = (random: RandomSource) => {
+  const total = GEMS.reduce((sum, gem) => sum + gem.weight, 0);
+  let roll = random() * total;
+  for (const gem of GEMS) {
+    roll -= gem.weight;
+    if (roll < 0) return gem.name;
+  }
+  return GEMS[0].name;
+};
+
+const rollLoot = (
+  random: RandomSource,
+  kind: SpaceEntity["kind"],
+): LootDrop | null => {
+  const table = LOOT_TABLES[kind];
+  const roll = random();
+  if (roll < table.gemChance) return { type: "gem", name: pickGem(random) };
+  if (roll < table.gemChance + table.itemChance) {
+    return { type: "item", name: table.item };
+  }
+  return null;
+};
+
+const distanceBetween = (a: Point, b: Point) =>
+  Math.hypot(getWrappedDistance(a.x, b.x), getWrappedDistance(a.y, b.y));
+
+const wrapRegion = (value: number) =>
+  ((value % REGIONS_PER_SIDE) + REGIONS_PER_SIDE) % REGIONS_PER_SIDE;
+
+export const getRegionIndex = (x: number, y: number) =>
+  Math.floor(normalizeCoord(y) / REGION_SIZE) * REGIONS_PER_SIDE +
+  Math.floor(normalizeCoord(x) / REGION_SIZE);
+
+export const getActiveRegions = (x: number, y: number): number[] => {
+  const column = Math.floor(normalizeCoord(x) / REGION_SIZE);
+  const row = Math.floor(normalizeCoord(y) / REGION_SIZE);
+  const regions = new Set<number>();
+
+  for (let dy = -ACTIVE_REGION_RADIUS; dy <= ACTIVE_REGION_RADIUS; dy++) {
+    for (let dx = -ACTIVE_REGION_RADIUS; dx <= ACTIVE_REGION_RADIUS; dx++) {
+      regions.add(
+        wrapRegion(row + dy) * REGIONS_PER_SIDE + wrapRegion(column + dx),
+      );
+    }
+  }
+  return Array.from(regions);
+};
+
+// Regions turn over at different moments so the galaxy never resets at once
+export const getRegionCycle = (region: number, now: number) =>
+  Math.floor(
+    (now + (hashSeed(`region:${region}`) % REGION_RESPAWN_MS)) /
+      REGION_RESPAWN_MS,
+  );
+
+const findSpawnPoint = (
+  random: RandomSource,
+  origin: Point,
+  radius: number,
+  obstacles: SpawnObstacle[],
+): Point | null => {
+  const center = { x: WORLD_SIZE / 2, y: WORLD_SIZE / 2 };
+  for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+    const point = {
+      x: origin.x + random() * REGION_SIZE,
+      y: origin.y + random() * REGION_SIZE,
+    };
+    const blocked =
+      distanceBetween(point, center) <
+        BARRIER_RADIUS + radius + SPAWN_CLEARANCE ||
+      obstacles.some(
+        (obstacle) =>
+          distanceBetween(point, obstacle) <
+          obstacle.radius + radius + SPAWN_CLEARANCE,
+      );
+    if (!blocked) return point;
+  }
+  return null;
+};
+
+export const getEntityId = (region: number, cycle: number, index: number) =>
+  `${region}:${cycle}:${index}`;
+
+export interface RegionContent {
+  kind: SpaceEntity["kind"];
+  loot: LootDrop | null;
+}
+
+// Counts and loot come first in the region's sequence: placement depends on
+// the planets, and the server only needs these to grant loot
+const rollRegionContents = (random: RandomSource): RegionContent[] => {
+  const asteroids = Math.floor(
+    randomBetween(random, ASTEROID_COUNT.min, ASTEROID_COUNT.max + 1),
+  );
+  const creatures = Math.floor(
+    randomBetween(random, CREATURE_COUNT.min, CREATURE_COUNT.max + 1),
+  );
+  const kinds: SpaceEntity["kind"][] = [
+    ...Array<SpaceEntity["kind"]>(asteroids).fill("asteroid"),
+    ...Array<SpaceEntity["kind"]>(creatures).fill("creature"),
+  ];
+  return kinds.map((kind) => ({ kind, loot: rollLoot(random, kind) }));
+};
+
+/**
+ * What each entity of a region holds in one cycle, by index. The server
+ * derives the same loot in `record_space_kill` from the entity id alone.
+ */
+export const getRegionContents = (
+  region: number,
+  cycle: number,
+): RegionContent[] =>
+  rollRegionContents(createSeededRandom(`space:${region}:${cycle}`));
+
+/**
+ * The asteroids and creatures of one region for one respawn cycle. Always
+ * returns the same entities for the same region, cycle and obstacles.
+ */
+export const spawnRegion = (
+  region: number,
+  cycle: number,
+  obstacles: SpawnObstacle[],
+): SpaceEntity[] => {
+  const random = createSeededRandom(`space:${region}:${cycle}`);
+  const origin = {
+    x: (region % REGIONS_PER_SIDE) * REGION_SIZE,
+    y: Math.floor(region / REGIONS_PER_SIDE) * REGION_SIZE,
+  };
+  const entities: SpaceEntity[] = [];
+
+  const spawn = (
+    { kind, loot }: RegionContent,
+    radius: number,
+    health: number,
+  ) => {
+    // Rolls happen even when there is no room, so later spawns don't shift
+    const point = findSpawnPoint(random, origin, radius, obstacles);
+    const drift = kind === "asteroid" ? ASTEROID_MAX_DRIFT : 0;
+    const entity: SpaceEntity = {
+      id: getEntityId(region, cycle, entities.length),
+      kind,
+      x: 0,
+      y: 0,
+      vx: randomBetween(random, -drift, drift),
+      vy: randomBetween(random, -drift, drift),
+      radius,
+      rotation: random() * Math.PI * 2,
+      spin: randomBetween(random, -0.02, 0.02),
+      health,
+      maxHealth: health,
+      home: { x: 0, y: 0 },
+      wanderPhase: random() * Math.PI * 2,
+      cooldown: 0,
+      loot,
+    };
+    if (point) {
+      const x = normalizeCoord(point.x);
+      const y = normalizeCoord(point.y);
+      entities.push({ ...entity, x, y, home: { x, y } });
+    } else {
+      entities.push({ ...entity, health: 0 });
+    }
+  };
+
+  rollRegionContents(random).forEach((content) => {
+    if (content.kind === "creature") {
+      spawn(content, CREATURE_RADIUS, CREATURE_HEALTH);
+      return;
+    }
+    const radius = randomBetween(
+      random,
+      ASTEROID_RADIUS.min,
+      ASTEROID_RADIUS.max,
+    );
+    spawn(content, radius, Math.round(radius));
+  });
+
+  // Entities without room were only kept to hold their index
+  return entities.filter((entity) => entity.health > 0);
+};
+
+export const getEntityRegion = (entity: SpaceEntity) =>
+  Number(entity.id.split(":")[0]);
+
+// What a client has spawned so far: the cycle loaded in each active region
+// and the entities destroyed in those cycles
+export interface EncounterRegions {
+  cycles: Map<number, number>;
+  destroyedIds: Set<string>;
+}
+
+export const createEncounterRegions = (): EncounterRegions => ({
+  cycles: new Map(),
+  destroyedIds: new Set(),
+});
+
+/**
+ * Brings the entity list in line with the regions around the ship: far
+ * regions are dropped, and regions that just came near or turned over to a
+ * new cycle spawn again, minus the entities already destroyed in that cycle.
+ * Returns the same list when nothing changed.
+ */
+export const syncRegions = (
+  entities: SpaceEntity[],
+  regions: EncounterRegions,
+  ship: Point,
+  now: number,
+  obstacles: SpawnObstacle[],
+): SpaceEntity[] => {
+  const active = getActiveRegions(ship.x, ship.y);
+  const stale = new Set(
+    Array.from(regions.cycles.keys()).filter(
+      (region) => !active.includes(region),
+    ),
+  );
+  const spawned: SpaceEntity[] = [];
+
+  active.forEach((region) => {
+    const cycle = getRegionCycle(region, now);
+    if (regions.cycles.get(region) === cycle) return;
+
+    if (regions.cycles.has(region)) stale.add(region);
+    regions.cycles.set(region, cycle);
+    regions.destroyedIds.forEach((id) => {
+      const [idRegion, idCycle] = id.split(":").map(Number);
+      if (idRegion === region && idCycle !== cycle) {
+        regions.destroyedIds.delete(id);
+      }
+    });
+    spawned.push(
+      ...spawnRegion(region, cycle, obstacles).filter(
+        (entity) => !regions.destroyedIds.has(entity.id),
+      ),
+    );
+  });
+
+  stale.forEach((region) => {
+    if (!active.includes(region)) regions.cycles.delete(region);
+  });
+  if (stale.size === 0 && spawned.length === 0) return entities;
+
+  return [
+    ...entities.filter((entity) => !stale.has(getEntityRegion(entity))),
+    ...spawned,
+  ];
+};
+
+const moveCreature = (creature: SpaceEntity, ship: Point): SpaceEntity => {
+  const fromHome = distanceBetween(ship, creature.home);
+  const toShip = distanceBetween(ship, creature);
+  const chasing =
+    toShip < CREATURE_AGGRO_RADIUS && fromHome < CREATURE_LEASH_RADIUS;
+
+  const wanderPhase = creature.wanderPhase + CREATURE_WANDER_SPEED;
+  const goal = chasing
+    ? ship
+    : {
+        x: creature.home.x + Math.cos(wanderPhase) * CREATURE_WANDER_RADIUS,
+        y:
+          creature.home.y +
+          Math.sin(wanderPhase * 0.7) * CREATURE_WANDER_RADIUS,
+      };
+  const dx = getWrappedDistance(goal.x, creature.x);
+  const dy = getWrappedDistance(goal.y, creature.y);
+  const distance = Math.hypot(dx, dy);
+  const speed = chasing ? CREATURE_SPEED : CREATURE_SPEED / 2;
+  const vx = distance > 1 ? (dx / distance) * speed : 0;
+  const vy = distance > 1 ? (dy / distance) * speed : 0;
+
+  return {
+    ...creature,
+    x: normalizeCoord(creature.x + vx),
+    y: normalizeCoord(creature.y + vy),
+    vx,
+    vy,
+    rotation: distance > 1 ? Math.atan2(vy, vx) : creature.rotation,
+    wanderPhase,
+    cooldown: Math.max(creature.cooldown - 1, 0),
+  };
+};
+
+const moveAsteroid = (asteroid: SpaceEntity): SpaceEntity => ({
+  ...asteroid,
+  x: normalizeCoord(asteroid.x + asteroid.vx),
+  y: normalizeCoord(asteroid.y + asteroid.vy),
+  rotation: asteroid.rotation + asteroid.spin,
+});
+
+/**
+ * One tick of `stepWorld` followed by combat: entities move, projectiles hit
+ * them and the ship bumps into them. The hull regenerates slowly and a
+ * `shipDisabled` event fires when it runs out.
+ */
+export const stepCombatWorld = (
+  state: CombatWorldState,
+  controls: ShipControls,
+): CombatWorldState => {
+  const world = stepWorld(state, controls);
+  const events: CombatEvent[] = [];
+  let { ship } = world;
+  let hull = Math.min(state.hull + HULL_REGEN_PER_TICK, MAX_HULL);
+
+  let entities = world.entities.map((entity) =>
+    entity.kind === "creature"
+      ? moveCreature(entity, ship)
+      : moveAsteroid(entity),
+  );
+
+  // Projectiles, against the entities sharing their cell
+  const entityHash = buildSpatialHash(entities, ENTITY_CELL_SIZE, (entity) => ({
+    x: entity.x,
+    y: entity.y,
+    radius: entity.radius,
+  }));
+  const projectiles = world.projectiles.filter((projectile) => {
+    const target = queryHash(entityHash, projectile.x, projectile.y, 0).find(
+      (entity) =>
+        entity.health > 0 &&
+        distanceBetween(projectile, entity) <= entity.radius,
+    );
+    if (!target) return true;
+
+    target.health -= PROJECTILE_DAMAGE;
+    events.push({
+      type: "hit",
+      entityId: target.id,
+      x: projectile.x,
+      y: projectile.y,
+    });
+    if (target.health <= 0) events.push({ type: "destroyed", entity: target });
+    return false;
+  });
+  entities = entities.filter((entity) => entity.health > 0);
+
+  // Ship collisions
+  entities = entities.map((entity) => {
+    const dx = getWrappedDistance(ship.x, entity.x);
+    const dy = getWrappedDistance(ship.y, entity.y);
+    const distance = Math.hypot(dx, dy);
+    const overlap = entity.radius + SHIP_RADIUS - distance;
+    if (overlap <= 0 || distance === 0) return entity;
+
+    // Push the ship out and bounce it off
+    const nx = dx / distance;
+    const ny = dy / distance;
+    const speedIntoEntity = -(ship.vx * nx + ship.vy * ny);
+    ship = {
+      ...ship,
+      x: normalizeCoord(ship.x + nx * overlap),
+      y: normalizeCoord(ship.y + ny * overlap),
+      vx:
+        speedIntoEntity > 0
+          ? ship.vx + nx * speedIntoEntity * (1 + SHIP_BOUNCE)
+          : ship.vx,
+      vy:
+        speedIntoEntity > 0
+          ? ship.vy + ny * speedIntoEntity * (1 + SHIP_BOUNCE)
+          : ship.vy,
+    };
+
+    let damage = 0;
+    let cooldown = entity.cooldown;
+    if (entity.kind === "creature" && entity.cooldown === 0) {
+      damage = CREATURE_DAMAGE;
+      cooldown = CREATURE_ATTACK_COOLDOWN_TICKS;
+    } else if (entity.kind === "asteroid" && speedIntoEntity > 0.2) {
+      damage = Math.round(
+        ASTEROID_IMPACT_DAMAGE * Math.min(speedIntoEntity / 0.6, 1),
+      );
+    }
+    if (damage > 0) {
+      hull -= damage;
+      events.push({ type: "shipHit", damage });
+    }
+    return { ...entity, cooldown };
+  });
+
+  if (hull <= 0) {
+    hull = 0;
+    events.push({ type: "shipDisabled" });
+  }
+
+  return { ...world, ship, projectiles, entities, hull, events };
+};
+
+/**
+ * Entity positions blended between the last two ticks. Entities that only
+ * exist in the latest tick are drawn where they are.
+ */
+export const interpolateEntities = (
+  previous: SpaceEntity[],
+  current: SpaceEntity[],
+  alpha: number,
+): SpaceEntity[] => {
+  const before = new Map(previous.map((entity) => [entity.id, entity]));
+  return current.map((entity) => {
+    const last = before.get(entity.id);
+    if (!last) return entity;
+    return {
+      ...entity,
+      x: lerpCoord(last.x, entity.x, alpha),
+      y: lerpCoord(last.y, entity.y, alpha),
+    };
+  });
+};
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import {
+  AutopilotTarget,
+  BARRIER_RADIUS,
+  PROJECTILE_LIFETIME,
+  PROJECTILE_SPEED,
+  ShipControls,
+  TICK_MS,
+  TICK_RATE,
+  WORLD_SIZE,
+  WorldState,
+  advanceSimulation,
+  createProjectile,
+  createSimulation,
+  getWrappedDistance,
+  hasAutopilotArrived,
+  interpolateWorld,
+  stepWorld,
+} from "./spacePhysics";
+
+const buildWorld = (overrides: Partial<WorldState> = {}): WorldState => ({
+  ship: { x: 1000, y: 1000, angle: 0, vx: 0, vy: 0 },
+  camera: { x: 1000, y: 1000 },
+  projectiles: [],
+  ...overrides,
+});
+
+const thrustRight: ShipControls = {
+  pointer: { x: 400, y: 0 },
+  engaged: true,
+  frozen: false,
+};
+
+// Feeds the simulation one call per display frame for `seconds`
+const runAtRefreshRate = (hz: number, seconds: number) => {
+  const simulation = createSimulation(buildWorld());
+  advanceSimulation(simulation, 0, thrustRight);
+  for (let frame = 1; frame <= hz * seconds; frame++) {
+    advanceSimulation(simulation, (frame * 1000) / hz, thrustRight);
+  }
+  return simulation;
+};
+
+describe("stepWorld", () => {
+  it("produces the same state from the same inputs", () => {
+    let first = buildWorld();
+    let second = buildWorld();
+    for (let tick = 0; tick < 120; tick++) {
+      first = stepWorld(first, thrustRight);
+      second = stepWorld(second, thrustRight);
+    }
+
+    expect(second).toEqual(first);
+    expect(first.ship.x).toBeGreaterThan(1000);
+  });
+
+  it("wraps the ship across the world edge", () => {
+    let state = buildWorld({
+      ship: { x: WORLD_SIZE - 1, y: 500, angle: 0, vx: 5, vy: 0 },
+      camera: { x: WORLD_SIZE - 1, y: 500 },
+    });
+    state = stepWorld(state, { pointer: null, engaged: false, frozen: false });
+
+    expect(state.ship.x).toBeGreaterThanOrEqual(0);
+    expect(state.ship.x).toBeLessThan(10);
+    expect(getWrappedDistance(state.ship.x, WORLD_SIZE - 1)).toBeCloseTo(
+      state.ship.vx,
+    );
+  });
+
+  it("moves projectiles at their speed per second and expires them", () => {
+    let state = buildWorld();
+    state = {
+      ...state,
+      projectiles: [createProjectile(state.ship)],
+    };
+    for (let tick = 0; tick < TICK_RATE; tick++) {
+      state = stepWorld(state, { pointer: null, engaged: true, frozen: true });
+    }
+
+    expect(state.projectiles[0].x).toBeCloseTo(1000 + PROJECTILE_SPEED);
+
+    for (let tick = 0; tick < TICK_RATE * PROJECTILE_LIFETIME; tick++) {
+      state = stepWorld(state, { pointer: null, engaged: true, frozen: true });
+    }
+    expect(state.projectiles).toHaveLength(0);
+  });
+});
+
+describe("advanceSimulation", () => {
+  it("handles the ship the same at 60 Hz and 144 Hz", () => {
+    const at60 = runAtRefreshRate(60, 2);
+    const at144 = runAtRefreshRate(144, 2);
+
+    expect(at144.tick).toBe(at60.tick);
+    expect(at144.current.ship.x).toBeCloseTo(at60.current.ship.x, 6);
+    expect(at144.current.ship.vx).toBeCloseTo(at60.current.ship.vx, 6);
+  });
+
+  it("skips time after a long stall instead of catching up", () => {
+    const simulation = createSimulation(buildWorld());
+    advanceSimulation(simulation, 0, thrustRight);
+    advanceSimulation(simulation, 10_000, thrustRight);
+
+    expect(simulation.tick).toBeLessThan(10);
+  });
+
+  it("blends between ticks through the world edge", () => {
+    const simulation = createSimulation(
+      buildWorld({
+        ship: { x: WORLD_SIZE - 2, y: 500, angle: 0, vx: 4, vy: 0 },
+      }),
+    );
+    advanceSimulation(simulation, 0, thrustRight);
+    advanceSimulation(simulation, TICK_MS, {
+      pointer: null,
+      engaged: false,
+      frozen: false,
+    });
+
+    const { ship } = interpolateWorld(simulation, 0.5);
+    expect(getWrappedDistance(ship.x, simulation.previous.ship.x)).toBeCloseTo(
+      getWrappedDistance(simulation.current.ship.x, ship.x),
+    );
+  });
+});
+
+describe("autopilot", () => {
+  const fly = (from: { x: number; y: number }, target: AutopilotTarget) => {
+    let state = buildWorld({
+      ship: { ...from, angle: 0, vx: 0, vy: 0 },
+      camera: from,
+    });
+    const path = [state.ship];
+    for (let tick = 0; tick < 30_000; tick++) {
+      state = stepWorld(state, {
+        pointer: null,
+        engaged: true,
+        frozen: false,
+        autopilot: target,
+      });
+      path.push(state.ship);
+      if (hasAutopilotArrived(state.ship, target)) break;
+    }
+    return { ship: state.ship, path };
+  };
+
+  it("takes the short way across the world edge and stops on arrival", () => {
+    const target = { x: WORLD_SIZE - 400, y: 3000, arrivalRadius: 90 };
+    const { ship, path } = fly({ x: 400, y: 3000 }, target);
+
+    expect(hasAutopilotArrived(ship, target)).toBe(true);
+    expect(
+      path.every((point) => point.x < 1000 || point.x > WORLD_SIZE - 1000),
+    ).toBe(true);
+  });
+
+  it("flies around the central barrier", () => {
+    const center = WORLD_SIZE / 2;
+    const target = { x: center + 2000, y: center + 50, arrivalRadius: 90 };
+    const { ship, path } = fly({ x: center - 2000, y: center }, target);
+
+    expect(hasAutopilotArrived(ship, target)).toBe(true);
+    const closestToBarrier = Math.min(
+      ...path.map((point) => Math.hypot(point.x - center, point.y - center)),
+    );
+    expect(closestToBarrier).toBeGreaterThan(BARRIER_RADIUS);
+  });
+});
+
+describe("manual controls", () => {
+  const steer = (manual: ShipControls["manual"], ticks: number) => {
+    let state = buildWorld();
+    for (let tick = 0; tick < ticks; tick++) {
+      state = stepWorld(state, {
+        // The pointer is ignored while steering manually
+        pointer: { x: -400, y: 0 },
+        engaged: true,
+        frozen: false,
+        manual,
+      });
+    }
+    return state.ship;
+  };
+
+  it("turns in place and thrusts along the heading", () => {
+    const turned = steer({ turn: 1, thrust: 0, stick: null }, 10);
+    expect(turned.angle).toBeGreaterThan(0);
+    expect(turned.x).toBe(1000);
+
+    const forward = steer({ turn: 0, thrust: 1, stick: null }, 30);
+    expect(forward.x).toBeGreaterThan(1000);
+    expect(forward.y).toBeCloseTo(1000);
+  });
+
+  it("reverses at lower power than forward thrust", () => {
+    const forward = steer({ turn: 0, thrust: 1, stick: null }, 30);
+    const reverse = steer({ turn: 0, thrust: -1, stick: null }, 30);
+
+    expect(reverse.x).toBeLessThan(1000);
+    expect(1000 - reverse.x).toBeLessThan(forward.x - 1000);
+  });
+
+  it("points the ship along the stick and throttles by its tilt", () => {
+    const half = steer({ turn: 0, thrust: 0, stick: { x: 0, y: 0.5 } }, 30);
+    const full = steer({ turn: 0, thrust: 0, stick: { x: 0, y: 1 } }, 30);
+
+    expect(full.angle).toBeCloseTo(Math.PI / 2);
+    expect(half.y).toBeGreaterThan(1000);
+    expect(full.y - 1000).toBeGreaterThan(half.y - 1000);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Space map simulation
+ *
+ * The ship, its projectiles and the camera advance in fixed ticks of
+ * `TICK_MS`, whatever the display refresh rate. `stepWorld` is a pure
+ * function of a state and the controls held during the tick, so the same
+ * inputs always lead to the same state — a remote client can replay them to
+ * predict a ship. Rendering draws between the last two ticks with
+ * `interpolateWorld`.
+ */
+
+export const WORLD_SIZE = 15000;
+// Radius of the barrier ring around the world center
+export const BARRIER_RADIUS = 600;
+
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+const TICK_SECONDS = 1 / TICK_RATE;
+// After a long stall (background tab) the simulation skips time instead of
+// trying to catch up all at once
+const MAX_TICKS_PER_FRAME = 5;
+
+// Ship, per tick
+export const SHIP_MAX_SPEED = 2;
+const SHIP_ACCELERATION = 0.04;
+const FRICTION = 0.88;
+// Friction while the pointer is outside the window, so the ship keeps drifting
+const DRIFT_FRICTION = 0.995;
+// Pointer distance below which the ship turns but doesn't thrust
+const THRUST_DEAD_ZONE = 10;
+// Pointer distance giving full thrust
+const THRUST_FULL_DISTANCE = 300;
+// Turn rate with keys or the D-pad, in radians
+const SHIP_TURN_SPEED = 0.06;
+// Reverse thrust, as a fraction of forward thrust
+const REVERSE_POWER = 0.5;
+
+// Projectiles, per second
+export const PROJECTILE_SPEED = 600;
+export const PROJECTILE_LIFETIME = 4.0;
+
+const CAMERA_FOLLOW_SPEED = 0.08;
+
+// Autopilot
+// Distance over which the autopilot throttles down before the landing area
+const AUTOPILOT_SLOWING_DISTANCE = 300;
+// Extra room the autopilot keeps around the barrier
+const BARRIER_CLEARANCE = 150;
+// Per-tick speed under which a ship inside the landing area counts as stopped
+const ARRIVAL_SPEED = 0.05;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface ShipBody {
+  x: number;
+  y: number;
+  angle: number;
+  vx: number;
+  vy: number;
+}
+
+export interface Projectile {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  maxLife: number;
+}
+
+export interface WorldState {
+  ship: ShipBody;
+  camera: Point;
+  projectiles: Projectile[];
+}
+
+export interface AutopilotTarget {
+  x: number;
+  y: number;
+  // The ship stops once inside this distance (a planet's interactionRadius)
+  arrivalRadius: number;
+}
+
+// Keyboard, gamepad or touch steering (see utils/shipInput)
+export interface ManualControls {
+  // -1 (left) to 1 (right)
+  turn: number;
+  // -1 (reverse) to 1 (forward), along the ship's heading
+  thrust: number;
+  // Analog stick direction; its length is the throttle
+  stick: Point | null;
+}
+
+export interface ShipControls {
+  // Pointer position relative to the screen center, or null when not steering
+  pointer: Point | null;
+  // Whether the pointer is inside the window
+  engaged: boolean;
+  // Holds the ship still (landing animation)
+  frozen: boolean;
+  // Where the camera should head instead of the ship
+  cameraTarget?: Point;
+  // Flies the ship there, ignoring the pointer
+  autopilot?: AutopilotTarget;
+  // Takes over from the pointer while the player steers with it
+  manual?: ManualControls;
+}
+
+export interface Simulation<S extends WorldState = WorldState> {
+  previous: S;
+  current: S;
+  tick: number;
+  accumulator: number;
+  lastTime: number | null;
+}
+
+export const normalizeCoord = (coord: number) =>
+  ((coord % WORLD_SIZE) + WORLD_SIZE) % WORLD_SIZE;
+
+// Shortest signed distance from `fromCoord` to `coord` across the world edge
+export const getWrappedDistance = (coord: number, fromCoord: number) => {
+  let delta = coord - fromCoord;
+  if (delta > WORLD_SIZE / 2) delta -= WORLD_SIZE;
+  else if (delta < -WORLD_SIZE / 2) delta += WORLD_SIZE;
+  return delta;
+};
+
+export const lerpCoord = (from: number, to: number, t: number) =>
+  normalizeCoord(from + getWrappedDistance(to, from) * t);
+
+export const lerpAngle = (from: number, to: number, t: number) =>
+  from + Math.atan2(Math.sin(to - from), Math.cos(to - from)) * t;
+
+/**
+ * Heading and throttle (0 to 1) that take a ship to an autopilot target.
+ * The ship flies the shortest way around the wrapped world and, when the
+ * straight line would cross the central barrier, heads for the edge of the
+ * barrier's clearance ring instead.
+ */
+export const getAutopilotHeading = (
+  ship: ShipBody,
+  target: AutopilotTarget,
+): { angle: number; throttle: number } => {
+  const dx = getWrappedDistance(target.x, ship.x);
+  const dy = getWrappedDistance(target.y, ship.y);
+  const distance = Math.sqrt(dx * dx + dy * dy);
+  if (distance === 0) return { angle: ship.angle, throttle: 0 };
+
+  // Slow down approaching the landing area and coast to a stop inside it
+  const stopDistance = target.arrivalRadius / 2;
+  const throttle = Math.min(
+    Math.max((distance - stopDistance) / AUTOPILOT_SLOWING_DISTANCE, 0),
+    1,
+  );
+  let angle = Math.atan2(dy, dx);
+
+  // Barrier center relative to the ship
+  const bx = getWrappedDistance(WORLD_SIZE / 2, ship.x);
+  const by = getWrappedDistance(WORLD_SIZE / 2, ship.y);
+  const barrierDistance = Math.sqrt(bx * bx + by * by);
+  const clearance = BARRIER_RADIUS + BARRIER_CLEARANCE;
+  const insideClearance = barrierDistance < clearance;
+
+  // Where the barrier sits along the path, and how far it is from it
+  const along = (bx * dx + by * dy) / distance;
+  const cross = bx * dy - by * dx;
+  const offset = Math.abs(cross) / distance;
+  const blocked =
+    along > 0 &&
+    along < distance &&
+    offset < (insideClearance ? BARRIER_RADIUS : clearance);
+
+  if (blocked) {
+    // Go around on the side the target is on
+    const side = cross >= 0 ? 1 : -1;
+    const barrierAngle = Math.atan2(by, bx);
+    angle = insideClearance
+      ? // Along the ring, bending slightly outwards
+        barrierAngle + side * (Math.PI / 2 + 0.3)
+      : barrierAngle + side * Math.asin(clearance / barrierDistance);
+  }
+
+  return { angle, throttle };
+};
+
+export const hasAutopilotArrived = (
+  ship: ShipBody,
+  target: AutopilotTarget,
+) => {
+  const dx = getWrappedDistance(target.x, ship.x);
+  const dy = getWrappedDistance(target.y, ship.y);
+  return (
+    Math.sqrt(dx * dx + dy * dy) <= target.arrivalRadius &&
+    Math.sqrt(ship.vx * ship.vx + ship.vy * ship.vy) <= ARRIVAL_SPEED
+  );
+};
+
+export const stepShip = (
+  ship: ShipBody,
+  camera: Point,
+  controls: ShipControls,
+): ShipBody => {
+  if (controls.frozen) return ship;
+
+  let { angle, vx, vy } = ship;
+
+  if (controls.autopilot) {
+    const heading = getAutopilotHeading(ship, controls.autopilot);
+    angle = heading.angle;
+    vx +=
+      Math.cos(angle) * SHIP_MAX_SPEED * heading.throttle * SHIP_ACCELERATION;
+    vy +=
+      Math.sin(angle) * SHIP_MAX_SPEED * heading.throttle * SHIP_ACCELERATION;
+  } else if (controls.manual) {
+    const { turn, thrust, stick } = controls.manual;
+    let throttle = thrust > 0 ? thrust : thrust * REVERSE_POWER;
+
+    if (stick) {
+      angle = Math.atan2(stick.y, stick.x);
+      throttle = Math.max(throttle, Math.min(Math.hypot(stick.x, stick.y), 1));
+    }
+    angle += turn * SHIP_TURN_SPEED;
+
+    vx += Math.cos(angle) * SHIP_MAX_SPEED * throttle * SHIP_ACCELERATION;
+    vy += Math.sin(angle) * SHIP_MAX_SPEED * throttle * SHIP_ACCELERATION;
+  } else if (controls.pointer) {
+    const dx = getWrappedDistance(camera.x + controls.pointer.x, ship.x);
+    const dy = getWrappedDistance(camera.y + controls.pointer.y, ship.y);
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    angle = Math.atan2(dy, dx);
+
+    if (controls.engaged && distance > THRUST_DEAD_ZONE) {
+      const targetSpeed =
+        SHIP_MAX_SPEED * Math.min(distance / THRUST_FULL_DISTANCE, 1);
+      vx += (dx / distance) * targetSpeed * SHIP_ACCELERATION;
+      vy += (dy / distance) * targetSpeed * SHIP_ACCELERATION;
+    }
+  }
+
+  const friction =
+    controls.engaged || controls.autopilot || controls.manual
+      ? FRICTION
+      : DRIFT_FRICTION;
+  vx *= friction;
+  vy *= friction;
+
+  return {
+    x: normalizeCoord(ship.x + vx),
+    y: normalizeCoord(ship.y + vy),
+    angle,
+    vx,
+    vy,
+  };
+};
+
+export const stepProjectiles = (projectiles: Projectile[]): Projectile[] =>
+  projectiles
+    .map((projectile) => ({
+      ...projectile,
+      x: normalizeCoord(projectile.x + projectile.vx * TICK_SECONDS),
+      y: normalizeCoord(projectile.y + projectile.vy * TICK_SECONDS),
+      life: projectile.life - TICK_SECONDS,
+    }))
+    .filter((projectile) => projectile.life > 0);
+
+export const stepCamera = (camera: Point, target: Point): Point => ({
+  x: normalizeCoord(
+    camera.x + getWrappedDistance(target.x, camera.x) * CAMERA_FOLLOW_SPEED,
+  ),
+  y: normalizeCoord(
+    camera.y + getWrappedDistance(target.y, camera.y) * CAMERA_FOLLOW_SPEED,
+  ),
+});
+
+// Advances the world by exactly one tick, keeping any extra state as is
+export const stepWorld = <S extends WorldState>(
+  state: S,
+  controls: ShipControls,
+): S => {
+  const ship = stepShip(state.ship, state.camera, controls);
+  return {
+    ...state,
+    ship,
+    camera: stepCamera(state.camera, controls.cameraTarget ?? ship),
+    projectiles: stepProjectiles(state.projectiles),
+  };
+};
+
+export const createProjectile = (ship: ShipBody): Projectile => ({
+  x: ship.x,
+  y: ship.y,
+  vx: Math.cos(ship.angle) * PROJECTILE_SPEED,
+  vy: Math.sin(ship.angle) * PROJECTILE_SPEED,
+  life: PROJECTILE_LIFETIME,
+  maxLife: PROJECTILE_LIFETIME,
+});
+
+export const createSimulation = <S extends WorldState>(
+  state: S,
+): Simulation<S> => ({
+  previous: state,
+  current: state,
+  tick: 0,
+  accumulator: 0,
+  lastTime: null,
+});
+
+/**
+ * Runs as many ticks as the time since the last call allows and returns how
+ * far the leftover time reaches into the next tick (0 to 1), for rendering.
+ * `step` replaces `stepWorld` for simulations that carry more state.
+ */
+export const advanceSimulation = <S extends WorldState>(
+  simulation: Simulation<S>,
+  now: number,
+  controls: ShipControls,
+  step: (state: S, controls: ShipControls) => S = stepWorld,
+): number => {
+  const elapsed =
+    simulation.lastTime === null ? 0 : Math.max(now - simulation.lastTime, 0);
+  simulation.lastTime = now;
+  simulation.accumulator = Math.min(
+    simulation.accumulator + elapsed,
+    TICK_MS * MAX_TICKS_PER_FRAME,
+  );
+
+  while (simulation.accumulator >= TICK_MS) {
+    simulation.previous = simulation.current;
+    simulation.current = step(simulation.current, controls);
+    simulation.tick++;
+    simulation.accumulator -= TICK_MS;
+  }
+
+  return simulation.accumulator / TICK_MS;
+};
+
+// Replaces the state without blending from the old one (teleports, resets)
+export const resetSimulation = <S extends WorldState>(
+  simulation: Simulation<S>,
+  update: (state: S) => S,
+) => {
+  simulation.current = update(simulation.current);
+  simulation.previous = simulation.current;
+};
+
+export const interpolateWorld = <S extends WorldState>(
+  simulation: Simulation<S>,
+  alpha: number,
+): WorldState => {
+  const { previous, current } = simulation;
+  return {
+    ship: {
+      ...current.ship,
+      x: lerpCoord(previous.ship.x, current.ship.x, alpha),
+      y: lerpCoord(previous.ship.y, current.ship.y, alpha),
+      angle: lerpAngle(previous.ship.angle, current.ship.angle, alpha),
+    },
+    camera: {
+      x: lerpCoord(previous.camera.x, current.camera.x, alpha),
+      y: lerpCoord(previous.camera.y, current.camera.y, alpha),
+    },
+    // Projectiles fly in straight lines, so stepping back from the latest
+    // tick lands where blending the two ticks would
+    projectiles: current.projectiles.map((projectile) => ({
+      ...projectile,
+      x: normalizeCoord(
+        projectile.x - projectile.vx * TICK_SECONDS * (1 - alpha),
+      ),
+      y: normalizeCoord(
+        projectile.y - projectile.vy * TICK_SECONDS * (1 - alpha),
+      ),
+    })),
+  };
+};
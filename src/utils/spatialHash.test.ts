@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { buildSpatialHash, createSpatialHash, queryHash } from "./spatialHash";
+import { isMaskVisible } from "./alphaMask";
+import { WORLD_SIZE } from "./spacePhysics";
+
+interface Body {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+const build = (bodies: Body[]) =>
+  buildSpatialHash(bodies, 500, ({ x, y, radius }) => ({ x, y, radius }));
+
+describe("spatial hash", () => {
+  it("finds items across the world edge", () => {
+    const hash = build([
+      { id: "edge", x: WORLD_SIZE - 20, y: 100, radius: 10 },
+      { id: "far", x: WORLD_SIZE / 2, y: 100, radius: 10 },
+    ]);
+
+    expect(queryHash(hash, 20, 100, 100).map((body) => body.id)).toEqual([
+      "edge",
+    ]);
+  });
+
+  it("lists large items in every cell they cover, once", () => {
+    const planet = { id: "big", x: 2000, y: 2000, radius: 1200 };
+    const hash = build([planet]);
+
+    expect(queryHash(hash, 3100, 2000, 0)).toEqual([planet]);
+    expect(queryHash(hash, 2000, 2000, 2000)).toEqual([planet]);
+  });
+
+  it("keeps insertion order", () => {
+    const bodies = ["a", "b", "c"].map((id, index) => ({
+      id,
+      x: 1000 + (2 - index) * 400,
+      y: 1000,
+      radius: 5,
+    }));
+
+    expect(
+      queryHash(build(bodies), 1400, 1000, 600).map((body) => body.id),
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  it("rounds the cell size to cover the world", () => {
+    const hash = createSpatialHash(700);
+
+    expect(hash.cellSize * hash.cellsPerSide).toBeCloseTo(WORLD_SIZE);
+  });
+});
+
+describe("isMaskVisible", () => {
+  // 2x2 mask with only the top right pixel visible
+  const mask = { resolution: 2, visible: new Uint8Array([0, 1, 0, 0]) };
+
+  it("looks up the pixel under a point", () => {
+    expect(isMaskVisible(mask, 0.75, 0.25)).toBe(true);
+    expect(isMaskVisible(mask, 0.25, 0.25)).toBe(false);
+    expect(isMaskVisible(mask, 1.2, 0.25)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { WORLD_SIZE } from "./spacePhysics";
+
+/**
+ * Spatial hash over the wrapped world
+ *
+ * The world is cut into a grid of cells and each item is listed in every
+ * cell its bounding circle touches, so looking up what is near a point only
+ * visits the cells around it instead of every item. Cells wrap at the world
+ * edge like positions do. Queries return candidates in insertion order:
+ * callers still check the exact distance or shape.
+ */
+
+interface HashEntry<T> {
+  item: T;
+  // Insertion order, to dedupe items spanning cells and keep draw order
+  order: number;
+}
+
+export interface SpatialHash<T> {
+  // Rounded so a whole number of cells covers the world
+  cellSize: number;
+  cellsPerSide: number;
+  cells: Map<number, HashEntry<T>[]>;
+  size: number;
+}
+
+export interface HashBounds {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export const createSpatialHash = <T>(cellSize: number): SpatialHash<T> => {
+  const cellsPerSide = Math.max(Math.round(WORLD_SIZE / cellSize), 1);
+  return {
+    cellSize: WORLD_SIZE / cellsPerSide,
+    cellsPerSide,
+    cells: new Map(),
+    size: 0,
+  };
+};
+
+const wrapCell = (cell: number, cellsPerSide: number) =>
+  ((cell % cellsPerSide) + cellsPerSide) % cellsPerSide;
+
+// Calls `visit` with the key of every cell overlapping the rectangle
+const forEachCell = <T>(
+  hash: SpatialHash<T>,
+  x: number,
+  y: number,
+  halfWidth: number,
+  halfHeight: number,
+  visit: (key: number) => void,
+) => {
+  const { cellSize, cellsPerSide } = hash;
+  const firstColumn = Math.floor((x - halfWidth) / cellSize);
+  const firstRow = Math.floor((y - halfHeight) / cellSize);
+  const columns = Math.min(
+    Math.floor((x + halfWidth) / cellSize) - firstColumn + 1,
+    cellsPerSide,
+  );
+  const rows = Math.min(
+    Math.floor((y + halfHeight) / cellSize) - firstRow + 1,
+    cellsPerSide,
+  );
+
+  for (let row = 0; row < rows; row++) {
+    const wrappedRow = wrapCell(firstRow + row, cellsPerSide);
+    for (let column = 0; column < columns; column++) {
+      visit(
+        wrappedRow * cellsPerSide +
+          wrapCell(firstColumn + column, cellsPerSide),
+      );
+    }
+  }
+};
+
+export const insertIntoHash = <T>(
+  hash: SpatialHash<T>,
+  item: T,
+  { x, y, radius }: HashBounds,
+) => {
+  const entry = { item, order: hash.size++ };
+  forEachCell(hash, x, y, radius, radius, (key) => {
+    const cell = hash.cells.get(key);
+    if (cell) cell.push(entry);
+    else hash.cells.set(key, [entry]);
+  });
+};
+
+export const buildSpatialHash = <T>(
+  items: T[],
+  cellSize: number,
+  getBounds: (item: T) => HashBounds,
+): SpatialHash<T> => {
+  const hash = createSpatialHash<T>(cellSize);
+  items.forEach((item) => insertIntoHash(hash, item, getBounds(item)));
+  return hash;
+};
+
+/**
+ * Items whose cells overlap the rectangle centered on (x, y). Pass only
+ * `halfWidth` for a square, or 0 for the items around a single point.
+ */
+export const queryHash = <T>(
+  hash: SpatialHash<T>,
+  x: number,
+  y: number,
+  halfWidth: number,
+  halfHeight = halfWidth,
+): T[] => {
+  const found = new Map<number, HashEntry<T>>();
+  forEachCell(hash, x, y, halfWidth, halfHeight, (key) => {
+    hash.cells.get(key)?.forEach((entry) => found.set(entry.order, entry));
+  });
+  return Array.from(found.values())
+    .sort((a, b) => a.order - b.order)
+    .map((entry) => entry.item);
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  StarSprite,
+  getLayerGeometry,
+  getLayerWindow,
+  getTileStars,
+  getVisibleTiles,
+} from "./starfield";
+import { WORLD_SIZE } from "./spacePhysics";
+
+const star = (x: number, y: number): StarSprite => ({
+  x,
+  y,
+  size: 1,
+  opacity: 1,
+  color: "#ffffff",
+  type: "normal",
+});
+
+describe("starfield layers", () => {
+  it("covers each layer with a whole number of tiles", () => {
+    const geometry = getLayerGeometry(0.3);
+
+    expect(geometry.period).toBeCloseTo(WORLD_SIZE * 0.3);
+    expect(geometry.tileSize * geometry.tilesPerSide).toBeCloseTo(
+      geometry.period,
+    );
+    expect(geometry.tileSize).toBeLessThanOrEqual(512);
+  });
+
+  it("keeps a narrow layer to one copy around the camera", () => {
+    const geometry = getLayerGeometry(0.1);
+
+    expect(getLayerWindow(geometry, 1920, 1080)).toEqual({
+      left: 960 - 750,
+      top: 0,
+      width: 1500,
+      height: 1080,
+    });
+  });
+
+  it("places tiles so the camera's plane position lands mid-screen", () => {
+    const geometry = getLayerGeometry(1);
+    const camera = { x: 10, y: 10 };
+    const tiles = getVisibleTiles(geometry, camera, 800, 600);
+    const origin = tiles.find((tile) => tile.column === 0 && tile.row === 0);
+
+    expect(origin).toEqual({ column: 0, row: 0, screenX: 390, screenY: 290 });
+    // The tiles left of the world edge wrap to the last column
+    expect(
+      tiles.some((tile) => tile.column === geometry.tilesPerSide - 1),
+    ).toBe(true);
+  });
+
+  it("draws stars on the plane edge into the tiles on both sides", () => {
+    const geometry = getLayerGeometry(1);
+    const edge = [star(WORLD_SIZE - 2, 100)];
+
+    expect(getTileStars(edge, geometry, 0, 0)).toHaveLength(1);
+    expect(
+      getTileStars(edge, geometry, geometry.tilesPerSide - 1, 0),
+    ).toHaveLength(1);
+    expect(getTileStars(edge, geometry, 1, 0)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,203 @@
+import { Point, WORLD_SIZE } from "./spacePhysics";
+
+/**
+ * Pre-rendered starfield layers
+ *
+ * A parallax layer moves `parallax` times as fast as the camera, so on
+ * screen it is a plane `WORLD_SIZE * parallax` pixels wide that wraps around.
+ * The plane is cut into square tiles that are drawn once (on the main thread
+ * or in a worker, see `StarfieldTileCache`) and then only composited every
+ * frame. Only stars that never change go into tiles; twinkling stars are
+ * still drawn live.
+ */
+
+// Largest tile side, in screen pixels
+export const STAR_TILE_SIZE = 512;
+// Room around a tile for the glow of stars sitting on its edge
+const TILE_MARGIN = 8;
+// Static stars are drawn at the average brightness of a twinkling one
+const STATIC_TWINKLE = 0.6;
+
+export type StarType = "normal" | "bright" | "giant";
+
+// The parts of a star a tile needs; positions are in world coordinates
+export interface StarSprite {
+  x: number;
+  y: number;
+  size: number;
+  opacity: number;
+  color: string;
+  type: StarType;
+}
+
+export interface LayerGeometry {
+  parallax: number;
+  // Width of the wrapped plane, in screen pixels
+  period: number;
+  tilesPerSide: number;
+  // A whole number of tiles covers the plane
+  tileSize: number;
+}
+
+export interface VisibleTile {
+  column: number;
+  row: number;
+  screenX: number;
+  screenY: number;
+}
+
+// The part of the screen a layer covers, centered on the camera
+export interface LayerWindow {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const getLayerGeometry = (parallax: number): LayerGeometry => {
+  const period = WORLD_SIZE * parallax;
+  const tilesPerSide = Math.max(Math.ceil(period / STAR_TILE_SIZE), 1);
+  return { parallax, period, tilesPerSide, tileSize: period / tilesPerSide };
+};
+
+// Pixel size of a tile's canvas
+export const getTileCanvasSize = (geometry: LayerGeometry) =>
+  Math.ceil(geometry.tileSize);
+
+const wrapCell = (cell: number, cellsPerSide: number) =>
+  ((cell % cellsPerSide) + cellsPerSide) % cellsPerSide;
+
+/**
+ * The screen area a layer covers. Stars are drawn once at their shortest
+ * distance from the camera, so a layer narrower than the screen leaves the
+ * edges empty instead of repeating.
+ */
+export const getLayerWindow = (
+  geometry: LayerGeometry,
+  width: number,
+  height: number,
+): LayerWindow => {
+  const left = Math.max(width / 2 - geometry.period / 2, 0);
+  const top = Math.max(height / 2 - geometry.period / 2, 0);
+  return {
+    left,
+    top,
+    width: Math.min(width / 2 + geometry.period / 2, width) - left,
+    height: Math.min(height / 2 + geometry.period / 2, height) - top,
+  };
+};
+
+// Tiles covering the layer window, with where to draw them on screen
+export const getVisibleTiles = (
+  geometry: LayerGeometry,
+  camera: Point,
+  width: number,
+  height: number,
+): VisibleTile[] => {
+  const { parallax, tileSize, tilesPerSide } = geometry;
+  const layerWindow = getLayerWindow(geometry, width, height);
+  // Plane coordinates of the window's corners
+  const left = camera.x * parallax + layerWindow.left - width / 2;
+  const top = camera.y * parallax + layerWindow.top - height / 2;
+  const firstColumn = Math.floor(left / tileSize);
+  const firstRow = Math.floor(top / tileSize);
+  const lastColumn = Math.floor((left + layerWindow.width) / tileSize);
+  const lastRow = Math.floor((top + layerWindow.height) / tileSize);
+
+  const tiles: VisibleTile[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      tiles.push({
+        column: wrapCell(column, tilesPerSide),
+        row: wrapCell(row, tilesPerSide),
+        screenX: width / 2 + column * tileSize - camera.x * parallax,
+        screenY: height / 2 + row * tileSize - camera.y * parallax,
+      });
+    }
+  }
+  return tiles;
+};
+
+// Offset of a plane coordinate from a tile edge, wrapped so stars just
+// across the plane edge count as neighbours
+const getTileOffset = (coord: number, origin: number, period: number) => {
+  const offset = (((coord - origin) % period) + period) % period;
+  return offset > period - TILE_MARGIN ? offset - period : offset;
+};
+
+// Stars touching a tile, positioned in the tile's pixels
+export const getTileStars = (
+  stars: StarSprite[],
+  geometry: LayerGeometry,
+  column: number,
+  row: number,
+): StarSprite[] => {
+  const { parallax, period, tileSize } = geometry;
+  const limit = tileSize + TILE_MARGIN;
+  const tileStars: StarSprite[] = [];
+
+  stars.forEach((star) => {
+    const x = getTileOffset(star.x * parallax, column * tileSize, period);
+    const y = getTileOffset(star.y * parallax, row * tileSize, period);
+    if (x <= limit && y <= limit) tileStars.push({ ...star, x, y });
+  });
+  return tileStars;
+};
+
+// Convert hex color to rgba for proper alpha handling
+const hexToRgba = (hex: string, alpha: number) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+// A star as a point of light, with a soft glow for the larger ones
+export const drawLightStar = (
+  ctx: Context2D,
+  x: number,
+  y: number,
+  size: number,
+  color: string,
+  intensity: number,
+  type: StarType,
+) => {
+  // Main star core - pure light point
+  ctx.beginPath();
+  ctx.arc(x, y, size, 0, Math.PI * 2);
+  ctx.fillStyle = color;
+  ctx.fill();
+
+  // Subtle glow effect only for larger stars
+  if (size > 1.0) {
+    const glowRadius = size * 2;
+    const glowIntensity =
+      type === "giant" ? 0.6 : type === "bright" ? 0.4 : 0.3;
+
+    ctx.beginPath();
+    ctx.arc(x, y, glowRadius, 0, Math.PI * 2);
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, glowRadius);
+    gradient.addColorStop(0, hexToRgba(color, intensity * glowIntensity));
+    gradient.addColorStop(0.8, hexToRgba(color, intensity * 0.1));
+    gradient.addColorStop(1, hexToRgba(color, 0));
+    ctx.fillStyle = gradient;
+    ctx.fill();
+  }
+};
+
+export const drawStarTile = (
+  ctx: Context2D,
+  stars: StarSprite[],
+  geometry: LayerGeometry,
+  column: number,
+  row: number,
+) => {
+  getTileStars(stars, geometry, column, row).forEach((star) => {
+    const alpha = star.opacity * STATIC_TWINKLE;
+    ctx.globalAlpha = alpha;
+    drawLightStar(ctx, star.x, star.y, star.size, star.color, alpha, star.type);
+  });
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,190 @@
+import {
+  StarSprite,
+  drawStarTile,
+  getLayerGeometry,
+  getTileCanvasSize,
+} from "./starfield";
+
+/**
+ * Cache of pre-rendered starfield tiles
+ *
+ * Tiles are drawn in a worker on an `OffscreenCanvas` where the browser
+ * supports it, and on the main thread otherwise, a few per frame so a
+ * camera jump doesn't stall the game. A tile that isn't ready yet is simply
+ * missing for a frame or two.
+ */
+
+// Tiles kept around; older ones are dropped first
+const MAX_CACHED_TILES = 128;
+// Tiles drawn per frame when rendering on the main thread
+const MAX_TILES_PER_FRAME = 4;
+
+export type StarfieldWorkerRequest =
+  | { type: "layers"; generation: number; layers: [number, StarSprite[]][] }
+  | {
+      type: "tile";
+      generation: number;
+      key: string;
+      parallax: number;
+      column: number;
+      row: number;
+    };
+
+export interface StarfieldWorkerResponse {
+  generation: number;
+  key: string;
+  bitmap: ImageBitmap;
+}
+
+export const getTileKey = (parallax: number, column: number, row: number) =>
+  `${parallax}:${column}:${row}`;
+
+// Worker tiles are bitmaps, which hold memory until closed
+const closeTile = (tile: CanvasImageSource) => {
+  if (typeof ImageBitmap !== "undefined" && tile instanceof ImageBitmap) {
+    tile.close();
+  }
+};
+
+const canRenderInWorker = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+export class StarfieldTileCache {
+  private layers = new Map<number, StarSprite[]>();
+  // Map order doubles as least recently used first
+  private tiles = new Map<string, CanvasImageSource>();
+  private pending = new Set<string>();
+  private worker: Worker | null = null;
+  // Bumped when the layers change, so late tiles from the worker are dropped
+  private generation = 0;
+  private renderedThisFrame = 0;
+
+  constructor({ useWorker = true }: { useWorker?: boolean } = {}) {
+    if (useWorker && canRenderInWorker()) {
+      try {
+        this.worker = new Worker(
+          new URL("../workers/starfieldWorker.ts", import.meta.url),
+          { type: "module" },
+        );
+        this.worker.onmessage = (
+          event: MessageEvent<StarfieldWorkerResponse>,
+        ) => this.handleWorkerTile(event.data);
+        this.worker.onerror = () => {
+          console.warn("Starfield worker failed, drawing tiles in place");
+          this.stopWorker();
+        };
+      } catch (error) {
+        console.warn("Starfield worker unavailable:", error);
+        this.worker = null;
+      }
+    }
+  }
+
+  get usesWorker() {
+    return this.worker !== null;
+  }
+
+  setLayers(layers: Map<number, StarSprite[]>) {
+    this.layers = layers;
+    this.generation++;
+    this.clearTiles();
+    const request: StarfieldWorkerRequest = {
+      type: "layers",
+      generation: this.generation,
+      layers: Array.from(layers),
+    };
+    this.worker?.postMessage(request);
+  }
+
+  // Call once per frame before asking for tiles
+  beginFrame() {
+    this.renderedThisFrame = 0;
+  }
+
+  /**
+   * The tile's image, or null while it is being drawn. Asking for a tile
+   * that isn't cached starts drawing it.
+   */
+  getTile(parallax: number, column: number, row: number) {
+    const key = getTileKey(parallax, column, row);
+    const tile = this.tiles.get(key);
+    if (tile) {
+      this.tiles.delete(key);
+      this.tiles.set(key, tile);
+      return tile;
+    }
+    if (this.pending.has(key)) return null;
+
+    if (this.worker) {
+      const request: StarfieldWorkerRequest = {
+        type: "tile",
+        generation: this.generation,
+        key,
+        parallax,
+        column,
+        row,
+      };
+      this.pending.add(key);
+      this.worker.postMessage(request);
+      return null;
+    }
+
+    if (this.renderedThisFrame >= MAX_TILES_PER_FRAME) return null;
+    this.renderedThisFrame++;
+    const canvas = this.renderTile(parallax, column, row);
+    if (canvas) this.storeTile(key, canvas);
+    return canvas;
+  }
+
+  dispose() {
+    this.stopWorker();
+    this.clearTiles();
+  }
+
+  private renderTile(parallax: number, column: number, row: number) {
+    const geometry = getLayerGeometry(parallax);
+    const canvas = document.createElement("canvas");
+    canvas.width = getTileCanvasSize(geometry);
+    canvas.height = canvas.width;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    drawStarTile(ctx, this.layers.get(parallax) ?? [], geometry, column, row);
+    return canvas;
+  }
+
+  private handleWorkerTile({
+    generation,
+    key,
+    bitmap,
+  }: StarfieldWorkerResponse) {
+    this.pending.delete(key);
+    if (generation !== this.generation) {
+      closeTile(bitmap);
+      return;
+    }
+    this.storeTile(key, bitmap);
+  }
+
+  private storeTile(key: string, tile: CanvasImageSource) {
+    this.tiles.set(key, tile);
+    for (const [oldestKey, oldest] of this.tiles) {
+      if (this.tiles.size <= MAX_CACHED_TILES) break;
+      closeTile(oldest);
+      this.tiles.delete(oldestKey);
+    }
+  }
+
+  private clearTiles() {
+    this.tiles.forEach(closeTile);
+    this.tiles.clear();
+    this.pending.clear();
+  }
+
+  private stopWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    // Tiles the worker was drawing get drawn in place instead
+    this.pending.clear();
+  }
+}
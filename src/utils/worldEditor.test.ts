@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { WorldLayout } from "../types/game";
+import { WORLD_SIZE } from "./spacePhysics";
+import {
+  DEFAULT_SNAP,
+  SnapSettings,
+  applyCommand,
+  createEditSession,
+  createMoveCommand,
+  createTransformCommand,
+  getPendingChanges,
+  getWorldsInBox,
+  markSessionSaved,
+  redoEdit,
+  snapAngle,
+  undoEdit,
+} from "./worldEditor";
+
+const free: SnapSettings = { gridSize: null, angleStep: null };
+
+const world = (
+  id: string,
+  x: number,
+  y: number,
+  overrides: Partial<WorldLayout> = {},
+): WorldLayout => ({ id, x, y, size: 60, rotation: 0, ...overrides });
+
+const worlds = [world("a", 1000, 1000), world("b", 1200, 1000)];
+
+describe("edit history", () => {
+  it("undoes and redoes a move of several worlds", () => {
+    const session = createEditSession(worlds);
+    const moved = applyCommand(
+      session,
+      createMoveCommand(
+        session.current,
+        ["a", "b"],
+        "a",
+        { x: 10, y: 5 },
+        free,
+      ),
+    );
+
+    expect(moved.current.a).toMatchObject({ x: 1010, y: 1005 });
+    expect(moved.current.b).toMatchObject({ x: 1210, y: 1005 });
+
+    const undone = undoEdit(moved);
+    expect(undone.current).toEqual(session.current);
+    expect(getPendingChanges(undone)).toEqual([]);
+
+    expect(redoEdit(undone).current).toEqual(moved.current);
+  });
+
+  it("undoes a whole drag in one step", () => {
+    const session = createEditSession(worlds);
+    const start = session.current;
+    let dragging = session;
+    for (let step = 1; step <= 5; step++) {
+      dragging = applyCommand(
+        dragging,
+        createMoveCommand(
+          start,
+          ["a"],
+          "a",
+          { x: step * 20, y: 0 },
+          free,
+          "drag-1",
+        ),
+      );
+    }
+
+    expect(dragging.undoStack).toHaveLength(1);
+    expect(dragging.current.a.x).toBe(1100);
+    expect(undoEdit(dragging).current.a.x).toBe(1000);
+  });
+
+  it("drops the redo steps once something new is edited", () => {
+    const session = createEditSession(worlds);
+    const resized = applyCommand(
+      session,
+      createTransformCommand(session.current, ["a"], { size: 80 }, free),
+    );
+    const undone = undoEdit(resized);
+    const rotated = applyCommand(
+      undone,
+      createTransformCommand(undone.current, ["b"], { rotation: 1 }, free),
+    );
+
+    expect(rotated.redoStack).toEqual([]);
+    expect(redoEdit(rotated)).toBe(rotated);
+  });
+
+  it("reports only the worlds changed since the last save", () => {
+    const session = createEditSession(worlds);
+    const resized = applyCommand(
+      session,
+      createTransformCommand(session.current, ["b"], { size: 5000 }, free),
+    );
+
+    expect(getPendingChanges(resized)).toEqual([
+      world("b", 1200, 1000, { size: 1000 }),
+    ]);
+    expect(getPendingChanges(markSessionSaved(resized))).toEqual([]);
+  });
+});
+
+describe("snapping", () => {
+  it("snaps the dragged world to the grid and keeps the others' spacing", () => {
+    const session = createEditSession([
+      world("a", 1003, 998),
+      world("b", 1210, 1000),
+    ]);
+    const command = createMoveCommand(
+      session.current,
+      ["a", "b"],
+      "a",
+      { x: 40, y: 0 },
+      DEFAULT_SNAP,
+    );
+    const moved = applyCommand(session, command).current;
+
+    expect(moved.a).toMatchObject({ x: 1050, y: 1000 });
+    expect(moved.b.x - moved.a.x).toBe(207);
+  });
+
+  it("snaps rotation to the angle step and wraps it", () => {
+    expect(snapAngle(0.27, Math.PI / 12)).toBeCloseTo(Math.PI / 12);
+    expect(snapAngle(-0.1, Math.PI / 12)).toBeCloseTo(0);
+    expect(snapAngle(Math.PI * 2 + 0.5, null)).toBeCloseTo(0.5);
+  });
+});
+
+describe("getWorldsInBox", () => {
+  it("selects the worlds whose centers are in the box, either way it is drawn", () => {
+    expect(
+      getWorldsInBox(worlds, { x: 1100, y: 1100 }, { x: 900, y: 900 }),
+    ).toEqual(["a"]);
+  });
+
+  it("selects across the world edge", () => {
+    const edge = [world("left", 20, 500), world("right", WORLD_SIZE - 20, 500)];
+
+    expect(
+      getWorldsInBox(edge, { x: WORLD_SIZE - 50, y: 400 }, { x: 50, y: 600 }),
+    ).toEqual(["left", "right"]);
+  });
+});
@@ -0,0 +1,261 @@
+import { WorldLayout } from "../types/game";
+import { Point, getWrappedDistance, normalizeCoord } from "./spacePhysics";
+
+/**
+ * World editor session
+ *
+ * Every change to the worlds is a command holding each touched world's
+ * layout before and after, so it can be undone and redone. Nothing is saved
+ * while editing: the worlds that differ from the last saved layout are sent
+ * together in one save, which the database records as a layout version.
+ */
+
+// Undo steps kept per session
+export const MAX_EDIT_HISTORY = 100;
+
+export const MIN_WORLD_SIZE = 20;
+export const MAX_WORLD_SIZE = 1000;
+
+export interface WorldEdit {
+  id: string;
+  before: WorldLayout;
+  after: WorldLayout;
+}
+
+export interface EditCommand {
+  edits: WorldEdit[];
+  // Commands with the same key in a row (one drag or slider gesture) are
+  // undone as one
+  mergeKey?: string;
+}
+
+export type LayoutById = Record<string, WorldLayout>;
+
+export interface EditSession {
+  // As last saved; pending changes are measured against it
+  saved: LayoutById;
+  current: LayoutById;
+  undoStack: EditCommand[];
+  redoStack: EditCommand[];
+}
+
+export interface SnapSettings {
+  // World units, or null to move freely
+  gridSize: number | null;
+  // Radians, or null to rotate freely
+  angleStep: number | null;
+}
+
+export const DEFAULT_SNAP: SnapSettings = {
+  gridSize: 50,
+  angleStep: Math.PI / 12,
+};
+
+export const toWorldLayout = ({
+  id,
+  x,
+  y,
+  size,
+  rotation,
+}: WorldLayout): WorldLayout => ({ id, x, y, size, rotation });
+
+const isSameLayout = (a: WorldLayout, b: WorldLayout) =>
+  a.x === b.x && a.y === b.y && a.size === b.size && a.rotation === b.rotation;
+
+const byId = (worlds: WorldLayout[]): LayoutById =>
+  Object.fromEntries(worlds.map((world) => [world.id, toWorldLayout(world)]));
+
+export const createEditSession = (worlds: WorldLayout[]): EditSession => ({
+  saved: byId(worlds),
+  current: byId(worlds),
+  undoStack: [],
+  redoStack: [],
+});
+
+const withLayouts = (
+  current: LayoutById,
+  edits: WorldEdit[],
+  side: "before" | "after",
+): LayoutById => ({
+  ...current,
+  ...Object.fromEntries(edits.map((edit) => [edit.id, edit[side]])),
+});
+
+// Folds `next` into `previous`, keeping each world's original `before`
+const mergeCommands = (
+  previous: EditCommand,
+  next: EditCommand,
+): EditCommand => {
+  const edits = new Map(previous.edits.map((edit) => [edit.id, edit]));
+  next.edits.forEach((edit) =>
+    edits.set(edit.id, {
+      ...edit,
+      before: edits.get(edit.id)?.before ?? edit.before,
+    }),
+  );
+  return { ...previous, edits: Array.from(edits.values()) };
+};
+
+export const applyCommand = (
+  session: EditSession,
+  command: EditCommand,
+): EditSession => {
+  const edits = command.edits.filter(
+    (edit) => !isSameLayout(edit.after, session.current[edit.id]),
+  );
+  if (edits.length === 0) return session;
+
+  const last = session.undoStack[session.undoStack.length - 1];
+  const merges =
+    !!command.mergeKey &&
+    last?.mergeKey === command.mergeKey &&
+    session.redoStack.length === 0;
+  const undoStack = merges
+    ? [
+        ...session.undoStack.slice(0, -1),
+        mergeCommands(last, { ...command, edits }),
+      ]
+    : [...session.undoStack, { ...command, edits }];
+
+  return {
+    ...session,
+    current: withLayouts(session.current, edits, "after"),
+    undoStack: undoStack.slice(-MAX_EDIT_HISTORY),
+    redoStack: [],
+  };
+};
+
+export const undoEdit = (session: EditSession): EditSession => {
+  const command = session.undoStack[session.undoStack.length - 1];
+  if (!command) return session;
+
+  return {
+    ...session,
+    current: withLayouts(session.current, command.edits, "before"),
+    undoStack: session.undoStack.slice(0, -1),
+    redoStack: [...session.redoStack, command],
+  };
+};
+
+export const redoEdit = (session: EditSession): EditSession => {
+  const command = session.redoStack[session.redoStack.length - 1];
+  if (!command) return session;
+
+  return {
+    ...session,
+    current: withLayouts(session.current, command.edits, "after"),
+    undoStack: [...session.undoStack, command],
+    redoStack: session.redoStack.slice(0, -1),
+  };
+};
+
+// Worlds whose layout differs from the last save
+export const getPendingChanges = (session: EditSession): WorldLayout[] =>
+  Object.values(session.current).filter(
+    (world) =>
+      !session.saved[world.id] || !isSameLayout(world, session.saved[world.id]),
+  );
+
+// After a save the current layout is the new baseline; history is kept
+export const markSessionSaved = (session: EditSession): EditSession => ({
+  ...session,
+  saved: session.current,
+});
+
+export const snapToGrid = (value: number, gridSize: number | null) =>
+  gridSize ? Math.round(value / gridSize) * gridSize : value;
+
+export const snapAngle = (angle: number, step: number | null) => {
+  const snapped = step ? Math.round(angle / step) * step : angle;
+  const fullTurn = Math.PI * 2;
+  return ((snapped % fullTurn) + fullTurn) % fullTurn;
+};
+
+/**
+ * Moves the worlds by `delta` from where they were in `start` (the layout
+ * when the drag began). The grid snaps the world being dragged and the rest
+ * keep their distance to it.
+ */
+export const createMoveCommand = (
+  start: LayoutById,
+  ids: string[],
+  anchorId: string,
+  delta: Point,
+  snap: SnapSettings,
+  mergeKey?: string,
+): EditCommand => {
+  const anchor = start[anchorId];
+  const offset = {
+    x: snapToGrid(anchor.x + delta.x, snap.gridSize) - anchor.x,
+    y: snapToGrid(anchor.y + delta.y, snap.gridSize) - anchor.y,
+  };
+
+  return {
+    mergeKey,
+    edits: ids
+      .filter((id) => start[id])
+      .map((id) => ({
+        id,
+        before: start[id],
+        after: {
+          ...start[id],
+          x: normalizeCoord(start[id].x + offset.x),
+          y: normalizeCoord(start[id].y + offset.y),
+        },
+      })),
+  };
+};
+
+// Sets the size or rotation of every selected world
+export const createTransformCommand = (
+  current: LayoutById,
+  ids: string[],
+  update: Partial<Pick<WorldLayout, "size" | "rotation">>,
+  snap: SnapSettings,
+  mergeKey?: string,
+): EditCommand => ({
+  mergeKey,
+  edits: ids
+    .filter((id) => current[id])
+    .map((id) => {
+      const after = { ...current[id] };
+      if (update.size !== undefined) {
+        after.size = Math.max(
+          MIN_WORLD_SIZE,
+          Math.min(MAX_WORLD_SIZE, Math.round(update.size)),
+        );
+      }
+      if (update.rotation !== undefined) {
+        after.rotation = snapAngle(update.rotation, snap.angleStep);
+      }
+      return { id, before: current[id], after };
+    }),
+});
+
+/**
+ * Worlds whose centers are inside the box dragged from `from` to `to`, in
+ * world coordinates. The box may cross the world edge.
+ */
+export const getWorldsInBox = (
+  worlds: WorldLayout[],
+  from: Point,
+  to: Point,
+): string[] => {
+  const width = getWrappedDistance(to.x, from.x);
+  const height = getWrappedDistance(to.y, from.y);
+  const left = width < 0 ? from.x + width : from.x;
+  const top = height < 0 ? from.y + height : from.y;
+
+  return worlds
+    .filter((world) => {
+      const offsetX = getWrappedDistance(world.x, left);
+      const offsetY = getWrappedDistance(world.y, top);
+      return (
+        offsetX >= 0 &&
+        offsetX <= Math.abs(width) &&
+        offsetY >= 0 &&
+        offsetY <= Math.abs(height)
+      );
+    })
+    .map((world) => world.id);
+};
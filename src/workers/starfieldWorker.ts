@@ -0,0 +1,49 @@
+import {
+  StarSprite,
+  drawStarTile,
+  getLayerGeometry,
+  getTileCanvasSize,
+} from "../utils/starfield";
+import type {
+  StarfieldWorkerRequest,
+  StarfieldWorkerResponse,
+} from "../utils/starfieldTiles";
+
+// Draws starfield tiles off the main thread (see utils/starfieldTiles)
+
+let layers = new Map<number, StarSprite[]>();
+let generation = 0;
+
+self.onmessage = (event: MessageEvent<StarfieldWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "layers") {
+    layers = new Map(request.layers);
+    generation = request.generation;
+    return;
+  }
+
+  // Requests sent before the latest layers are stale
+  if (request.generation !== generation) return;
+
+  const geometry = getLayerGeometry(request.parallax);
+  const size = getTileCanvasSize(geometry);
+  const canvas = new OffscreenCanvas(size, size);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  drawStarTile(
+    ctx,
+    layers.get(request.parallax) ?? [],
+    geometry,
+    request.column,
+    request.row,
+  );
+  const bitmap = canvas.transferToImageBitmap();
+  const response: StarfieldWorkerResponse = {
+    generation,
+    key: request.key,
+    bitmap,
+  };
+  self.postMessage(response, { transfer: [bitmap] });
+};
@@ -0,0 +1,76 @@
+/*
+  # Duel Resolution
+
+  1. Functions
+    - `complete_duel` stores the battle log of an accepted duel, marks it as
+      completed and moves the wagered xenocoins from the loser to the winner
+      in a single transaction
+
+  2. Indexes
+    - Lookups of a player's duels by challenger or opponent
+
+  3. Security
+    - Only participants of the duel can complete it
+*/
+
+CREATE OR REPLACE FUNCTION complete_duel(
+  p_duel_id uuid,
+  p_winner_id uuid,
+  p_battle_log jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  duel_record duels%ROWTYPE;
+  loser_id uuid;
+BEGIN
+  -- Lock the duel so it can only be completed once
+  SELECT * INTO duel_record FROM duels WHERE id = p_duel_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duel not found: %', p_duel_id;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() NOT IN (duel_record.challenger_id, duel_record.opponent_id) THEN
+    RAISE EXCEPTION 'Not a participant of this duel';
+  END IF;
+
+  IF duel_record.status NOT IN ('accepted', 'in_progress') THEN
+    RAISE EXCEPTION 'Duel cannot be completed from status: %', duel_record.status;
+  END IF;
+
+  IF p_winner_id IS NOT NULL
+    AND p_winner_id NOT IN (duel_record.challenger_id, duel_record.opponent_id) THEN
+    RAISE EXCEPTION 'Winner is not a participant of this duel';
+  END IF;
+
+  -- Settle the wager (draws keep their coins)
+  IF p_winner_id IS NOT NULL AND duel_record.xenocoins_wagered > 0 THEN
+    IF p_winner_id = duel_record.challenger_id THEN
+      loser_id := duel_record.opponent_id;
+    ELSE
+      loser_id := duel_record.challenger_id;
+    END IF;
+
+    PERFORM update_user_currency(loser_id, 'xenocoins', -duel_record.xenocoins_wagered, 'duel_lost');
+    PERFORM update_user_currency(p_winner_id, 'xenocoins', duel_record.xenocoins_wagered, 'duel_won');
+  END IF;
+
+  UPDATE duels
+  SET status = 'completed',
+      winner_id = p_winner_id,
+      battle_log = p_battle_log,
+      completed_at = now()
+  WHERE id = p_duel_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_duels_challenger ON duels (challenger_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_duels_opponent ON duels (opponent_id, created_at DESC);
+
+GRANT EXECUTE ON FUNCTION complete_duel TO authenticated;
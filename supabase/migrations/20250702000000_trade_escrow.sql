@@ -0,0 +1,408 @@
+/*
+  # Trade Escrow
+
+  1. Changes
+    - `inventory.locked_trade_id` marks inventory rows held in escrow by an
+      open trade; locked rows cannot be used, equipped, edited or deleted
+    - Offered items are stored in `trades.initiator_items` /
+      `trades.recipient_items` as `[{"inventory_id", "item_id", "quantity"}]`
+
+  2. Functions
+    - `create_trade` validates and locks the initiator's offer and holds the
+      offered xenocoins in escrow
+    - `confirm_trade` is called once by each side: the recipient accepts
+      (locking their side), then the initiator confirms and the swap runs
+    - `cancel_trade` cancels or rejects an open trade and releases escrow
+
+  3. Security
+    - Only trade participants can act on a trade
+    - Recipients with `privacy.allowTrades = false` cannot receive offers
+    - Equipped, untradeable or already locked items are rejected
+*/
+
+ALTER TABLE inventory
+  ADD COLUMN IF NOT EXISTS locked_trade_id uuid REFERENCES trades(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_locked_trade ON inventory (locked_trade_id)
+  WHERE locked_trade_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_trades_recipient ON trades (recipient_id, status);
+
+-- Locked rows stay frozen until the trade functions release them
+CREATE OR REPLACE FUNCTION prevent_locked_inventory_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.locked_trade_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Item is locked in a pending trade';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.locked_trade_id IS NOT NULL
+    AND NEW.locked_trade_id IS NOT DISTINCT FROM OLD.locked_trade_id
+    AND (
+      NEW.quantity IS DISTINCT FROM OLD.quantity
+      OR NEW.is_equipped IS DISTINCT FROM OLD.is_equipped
+      OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    ) THEN
+    RAISE EXCEPTION 'Item is locked in a pending trade';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_trade_lock ON inventory;
+CREATE TRIGGER inventory_trade_lock
+  BEFORE UPDATE OR DELETE ON inventory
+  FOR EACH ROW EXECUTE FUNCTION prevent_locked_inventory_changes();
+
+-- Validates an offer and locks every offered inventory row
+CREATE OR REPLACE FUNCTION lock_trade_items(
+  p_trade_id uuid,
+  p_owner_id uuid,
+  p_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer jsonb;
+  inventory_row inventory%ROWTYPE;
+  item_tradeable boolean;
+  offered_quantity integer;
+  normalized jsonb := '[]'::jsonb;
+BEGIN
+  FOR offer IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    offered_quantity := COALESCE((offer->>'quantity')::integer, 1);
+
+    SELECT * INTO inventory_row
+    FROM inventory
+    WHERE id = (offer->>'inventory_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR inventory_row.user_id <> p_owner_id THEN
+      RAISE EXCEPTION 'Item not found in inventory';
+    END IF;
+
+    IF inventory_row.is_equipped OR inventory_row.equipped_pet_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Equipped items cannot be traded';
+    END IF;
+
+    IF inventory_row.locked_trade_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Item is already locked in another trade';
+    END IF;
+
+    IF offered_quantity <= 0 OR offered_quantity > inventory_row.quantity THEN
+      RAISE EXCEPTION 'Invalid quantity offered';
+    END IF;
+
+    SELECT is_tradeable INTO item_tradeable FROM items WHERE id = inventory_row.item_id;
+    IF NOT COALESCE(item_tradeable, false) THEN
+      RAISE EXCEPTION 'Item cannot be traded';
+    END IF;
+
+    UPDATE inventory SET locked_trade_id = p_trade_id WHERE id = inventory_row.id;
+
+    normalized := normalized || jsonb_build_array(jsonb_build_object(
+      'inventory_id', inventory_row.id,
+      'item_id', inventory_row.item_id,
+      'quantity', offered_quantity
+    ));
+  END LOOP;
+
+  RETURN normalized;
+END;
+$$;
+
+-- Moves locked items to their new owner, stacking with unequipped rows
+CREATE OR REPLACE FUNCTION transfer_trade_items(
+  p_trade_id uuid,
+  p_items jsonb,
+  p_to_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  offer jsonb;
+  inventory_row inventory%ROWTYPE;
+  offered_quantity integer;
+  target_stack_id uuid;
+BEGIN
+  FOR offer IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb))
+  LOOP
+    offered_quantity := (offer->>'quantity')::integer;
+
+    SELECT * INTO inventory_row
+    FROM inventory
+    WHERE id = (offer->>'inventory_id')::uuid
+      AND locked_trade_id = p_trade_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR inventory_row.quantity < offered_quantity THEN
+      RAISE EXCEPTION 'Escrowed item is no longer available';
+    END IF;
+
+    -- Release the lock first so the trigger allows the quantity change
+    UPDATE inventory SET locked_trade_id = NULL WHERE id = inventory_row.id;
+
+    IF inventory_row.quantity = offered_quantity THEN
+      DELETE FROM inventory WHERE id = inventory_row.id;
+    ELSE
+      UPDATE inventory
+      SET quantity = quantity - offered_quantity
+      WHERE id = inventory_row.id;
+    END IF;
+
+    SELECT id INTO target_stack_id
+    FROM inventory
+    WHERE user_id = p_to_user_id
+      AND item_id = inventory_row.item_id
+      AND equipped_pet_id IS NULL
+      AND is_equipped = false
+      AND locked_trade_id IS NULL
+    LIMIT 1
+    FOR UPDATE;
+
+    IF target_stack_id IS NOT NULL THEN
+      UPDATE inventory
+      SET quantity = quantity + offered_quantity
+      WHERE id = target_stack_id;
+    ELSE
+      INSERT INTO inventory (user_id, item_id, quantity)
+      VALUES (p_to_user_id, inventory_row.item_id, offered_quantity);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Unlocks every row of a trade and refunds escrowed xenocoins
+CREATE OR REPLACE FUNCTION release_trade_escrow(p_trade_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  trade_record trades%ROWTYPE;
+BEGIN
+  SELECT * INTO trade_record FROM trades WHERE id = p_trade_id;
+
+  UPDATE inventory SET locked_trade_id = NULL WHERE locked_trade_id = p_trade_id;
+
+  IF trade_record.initiator_xenocoins > 0 THEN
+    PERFORM update_user_currency(trade_record.initiator_id, 'xenocoins', trade_record.initiator_xenocoins, 'trade_refund');
+  END IF;
+
+  -- The recipient's coins are only held once they accepted
+  IF trade_record.recipient_confirmed AND trade_record.recipient_xenocoins > 0 THEN
+    PERFORM update_user_currency(trade_record.recipient_id, 'xenocoins', trade_record.recipient_xenocoins, 'trade_refund');
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_trade(
+  p_initiator_id uuid,
+  p_recipient_id uuid,
+  p_initiator_items jsonb,
+  p_recipient_items jsonb,
+  p_initiator_xenocoins bigint DEFAULT 0,
+  p_recipient_xenocoins bigint DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_trade_id uuid;
+  recipient_preferences jsonb;
+  offer jsonb;
+  requested_row inventory%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_initiator_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_initiator_id = p_recipient_id THEN
+    RAISE EXCEPTION 'Cannot trade with yourself';
+  END IF;
+
+  IF p_initiator_xenocoins < 0 OR p_recipient_xenocoins < 0 THEN
+    RAISE EXCEPTION 'Invalid xenocoin amount';
+  END IF;
+
+  SELECT preferences INTO recipient_preferences FROM profiles WHERE id = p_recipient_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found';
+  END IF;
+
+  IF (recipient_preferences->'privacy'->>'allowTrades') = 'false' THEN
+    RAISE EXCEPTION 'Recipient is not accepting trades';
+  END IF;
+
+  -- Requested items must be tradeable now; they are locked when the recipient accepts
+  FOR offer IN SELECT * FROM jsonb_array_elements(COALESCE(p_recipient_items, '[]'::jsonb))
+  LOOP
+    SELECT * INTO requested_row FROM inventory WHERE id = (offer->>'inventory_id')::uuid;
+
+    IF NOT FOUND OR requested_row.user_id <> p_recipient_id THEN
+      RAISE EXCEPTION 'Requested item not found';
+    END IF;
+
+    IF requested_row.is_equipped OR requested_row.equipped_pet_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Equipped items cannot be traded';
+    END IF;
+  END LOOP;
+
+  INSERT INTO trades (
+    initiator_id,
+    recipient_id,
+    recipient_items,
+    initiator_xenocoins,
+    recipient_xenocoins
+  )
+  VALUES (
+    p_initiator_id,
+    p_recipient_id,
+    COALESCE(p_recipient_items, '[]'::jsonb),
+    p_initiator_xenocoins,
+    p_recipient_xenocoins
+  )
+  RETURNING id INTO new_trade_id;
+
+  UPDATE trades
+  SET initiator_items = lock_trade_items(new_trade_id, p_initiator_id, p_initiator_items)
+  WHERE id = new_trade_id;
+
+  IF p_initiator_xenocoins > 0 THEN
+    PERFORM update_user_currency(p_initiator_id, 'xenocoins', -p_initiator_xenocoins, 'trade_escrow');
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message)
+  VALUES (p_recipient_id, 'info', 'Nova proposta de troca!', 'Você recebeu uma proposta de troca.');
+
+  RETURN new_trade_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_trade(
+  p_trade_id uuid,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  trade_record trades%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO trade_record FROM trades WHERE id = p_trade_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found';
+  END IF;
+
+  -- Step 1: the recipient accepts and locks their side of the offer
+  IF p_user_id = trade_record.recipient_id AND trade_record.status = 'pending' THEN
+    UPDATE trades
+    SET recipient_items = lock_trade_items(p_trade_id, trade_record.recipient_id, trade_record.recipient_items),
+        recipient_confirmed = true,
+        status = 'accepted'
+    WHERE id = p_trade_id;
+
+    IF trade_record.recipient_xenocoins > 0 THEN
+      PERFORM update_user_currency(trade_record.recipient_id, 'xenocoins', -trade_record.recipient_xenocoins, 'trade_escrow');
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, message)
+    VALUES (trade_record.initiator_id, 'info', 'Troca aceita!', 'Confirme a troca para concluí-la.');
+
+    RETURN 'accepted';
+  END IF;
+
+  -- Step 2: the initiator confirms and both sides are swapped
+  IF p_user_id = trade_record.initiator_id AND trade_record.status = 'accepted' THEN
+    PERFORM transfer_trade_items(p_trade_id, trade_record.initiator_items, trade_record.recipient_id);
+    PERFORM transfer_trade_items(p_trade_id, trade_record.recipient_items, trade_record.initiator_id);
+
+    IF trade_record.initiator_xenocoins > 0 THEN
+      PERFORM update_user_currency(trade_record.recipient_id, 'xenocoins', trade_record.initiator_xenocoins, 'trade_completed');
+    END IF;
+
+    IF trade_record.recipient_xenocoins > 0 THEN
+      PERFORM update_user_currency(trade_record.initiator_id, 'xenocoins', trade_record.recipient_xenocoins, 'trade_completed');
+    END IF;
+
+    UPDATE trades
+    SET initiator_confirmed = true,
+        status = 'completed',
+        completed_at = now()
+    WHERE id = p_trade_id;
+
+    INSERT INTO notifications (user_id, type, title, message)
+    VALUES (trade_record.recipient_id, 'success', 'Troca concluída!', 'Os itens da troca já estão no seu inventário.');
+
+    RETURN 'completed';
+  END IF;
+
+  RAISE EXCEPTION 'Trade cannot be confirmed from status: %', trade_record.status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_trade(
+  p_trade_id uuid,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  trade_record trades%ROWTYPE;
+  new_status text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO trade_record FROM trades WHERE id = p_trade_id FOR UPDATE;
+
+  IF NOT FOUND OR p_user_id NOT IN (trade_record.initiator_id, trade_record.recipient_id) THEN
+    RAISE EXCEPTION 'Trade not found';
+  END IF;
+
+  IF trade_record.status NOT IN ('pending', 'accepted') THEN
+    RAISE EXCEPTION 'Trade is already closed';
+  END IF;
+
+  PERFORM release_trade_escrow(p_trade_id);
+
+  IF p_user_id = trade_record.recipient_id THEN
+    new_status := 'rejected';
+  ELSE
+    new_status := 'cancelled';
+  END IF;
+
+  UPDATE trades SET status = new_status WHERE id = p_trade_id;
+
+  RETURN new_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_trade TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_trade TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_trade TO authenticated;
+
+-- Escrow helpers are internal to the trade functions
+REVOKE EXECUTE ON FUNCTION lock_trade_items FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION transfer_trade_items FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION release_trade_escrow FROM PUBLIC;
@@ -0,0 +1,311 @@
+/*
+  # Quest and Saga Progression
+
+  1. Progress format
+    - Requirements of `quests` and `saga_steps` are counters, e.g.
+      `{"items_acquired": 3, "planet:<id>": 1}`
+    - `user_quests.progress` holds the same counters for a quest
+    - `user_saga_progress.flags.stepProgress` holds the counters of the step
+      currently being played; `current_step` counts completed steps
+
+  2. Functions
+    - `progress_meets_requirements` compares counters against requirements
+    - `grant_progression_rewards` pays out xenocoins, cash, account points
+      and items
+    - `complete_quest` and `complete_saga_step` verify the stored progress,
+      mark completion and grant rewards exactly once
+    - `increment_progress_counter` advances counters for events the server
+      settles itself; completed duels feed `duels_won` to the winner
+
+  3. Security
+    - Users can only complete their own quests and saga steps
+    - The reward and counter helpers are not callable directly
+*/
+
+CREATE OR REPLACE FUNCTION progress_meets_requirements(
+  p_requirements jsonb,
+  p_progress jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_each(COALESCE(p_requirements, '{}'::jsonb)) AS requirement(key, target)
+    WHERE jsonb_typeof(requirement.target) = 'number'
+      AND COALESCE((p_progress->>requirement.key)::numeric, 0) < (requirement.target)::text::numeric
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION grant_progression_rewards(
+  p_user_id uuid,
+  p_rewards jsonb,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  reward_item_id uuid;
+  existing_stack_id uuid;
+BEGIN
+  IF COALESCE((p_rewards->>'xenocoins')::bigint, 0) > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'xenocoins', (p_rewards->>'xenocoins')::bigint, p_reason);
+  END IF;
+
+  IF COALESCE((p_rewards->>'cash')::bigint, 0) > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'cash', (p_rewards->>'cash')::bigint, p_reason);
+  END IF;
+
+  IF COALESCE((p_rewards->>'accountPoints')::bigint, 0) > 0 THEN
+    PERFORM update_account_score(p_user_id, (p_rewards->>'accountPoints')::bigint, p_reason);
+  END IF;
+
+  IF jsonb_typeof(p_rewards->'items') = 'array' THEN
+    FOR reward_item_id IN SELECT (jsonb_array_elements_text(p_rewards->'items'))::uuid
+    LOOP
+      SELECT id INTO existing_stack_id
+      FROM inventory
+      WHERE user_id = p_user_id
+        AND item_id = reward_item_id
+        AND equipped_pet_id IS NULL
+        AND locked_trade_id IS NULL
+      LIMIT 1;
+
+      IF existing_stack_id IS NOT NULL THEN
+        UPDATE inventory SET quantity = quantity + 1 WHERE id = existing_stack_id;
+      ELSE
+        INSERT INTO inventory (user_id, item_id, quantity)
+        VALUES (p_user_id, reward_item_id, 1);
+      END IF;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_quest(
+  p_user_id uuid,
+  p_quest_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  quest_record quests%ROWTYPE;
+  progress_record user_quests%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO quest_record FROM quests WHERE id = p_quest_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not found: %', p_quest_id;
+  END IF;
+
+  SELECT * INTO progress_record
+  FROM user_quests
+  WHERE user_id = p_user_id AND quest_id = p_quest_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quest not started';
+  END IF;
+
+  IF progress_record.is_completed THEN
+    RAISE EXCEPTION 'Quest already completed';
+  END IF;
+
+  IF NOT progress_meets_requirements(quest_record.requirements, progress_record.progress) THEN
+    RAISE EXCEPTION 'Quest requirements not met';
+  END IF;
+
+  UPDATE user_quests
+  SET is_completed = true,
+      is_active = false,
+      completed_at = now()
+  WHERE id = progress_record.id;
+
+  PERFORM grant_progression_rewards(p_user_id, quest_record.rewards, 'quest_completed');
+
+  RETURN quest_record.rewards;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_saga_step(
+  p_user_id uuid,
+  p_saga_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  saga_record sagas%ROWTYPE;
+  step_record saga_steps%ROWTYPE;
+  progress_record user_saga_progress%ROWTYPE;
+  saga_completed boolean;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO saga_record FROM sagas WHERE id = p_saga_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saga not found: %', p_saga_id;
+  END IF;
+
+  SELECT * INTO progress_record
+  FROM user_saga_progress
+  WHERE user_id = p_user_id AND saga_id = p_saga_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saga not started';
+  END IF;
+
+  IF progress_record.is_completed THEN
+    RAISE EXCEPTION 'Saga already completed';
+  END IF;
+
+  SELECT * INTO step_record
+  FROM saga_steps
+  WHERE saga_id = p_saga_id AND step_number = progress_record.current_step + 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saga step not found';
+  END IF;
+
+  IF NOT progress_meets_requirements(step_record.requirements, progress_record.flags->'stepProgress') THEN
+    RAISE EXCEPTION 'Saga step requirements not met';
+  END IF;
+
+  saga_completed := progress_record.current_step + 1 >= saga_record.total_steps;
+
+  UPDATE user_saga_progress
+  SET current_step = current_step + 1,
+      flags = COALESCE(flags, '{}'::jsonb) - 'stepProgress',
+      is_active = NOT saga_completed,
+      is_completed = saga_completed,
+      completed_at = CASE WHEN saga_completed THEN now() ELSE NULL END
+  WHERE id = progress_record.id;
+
+  PERFORM grant_progression_rewards(p_user_id, step_record.rewards, 'saga_step_completed');
+
+  IF saga_completed THEN
+    PERFORM grant_progression_rewards(p_user_id, saga_record.rewards, 'saga_completed');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'stepNumber', step_record.step_number,
+    'sagaCompleted', saga_completed
+  );
+END;
+$$;
+
+-- Bumps a counter on every open quest and current saga step that requires it
+CREATE OR REPLACE FUNCTION increment_progress_counter(
+  p_user_id uuid,
+  p_counter text,
+  p_amount integer DEFAULT 1
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  quest_record quests%ROWTYPE;
+  saga_record sagas%ROWTYPE;
+  progress_record user_saga_progress%ROWTYPE;
+  step_target numeric;
+BEGIN
+  FOR quest_record IN
+    SELECT * FROM quests
+    WHERE is_active = true
+      AND jsonb_typeof(requirements->p_counter) = 'number'
+  LOOP
+    step_target := (quest_record.requirements->>p_counter)::numeric;
+
+    INSERT INTO user_quests (user_id, quest_id, progress, is_active, started_at)
+    VALUES (
+      p_user_id,
+      quest_record.id,
+      jsonb_build_object(p_counter, LEAST(step_target, p_amount)),
+      true,
+      now()
+    )
+    ON CONFLICT (user_id, quest_id) DO UPDATE
+    SET progress = COALESCE(user_quests.progress, '{}'::jsonb) || jsonb_build_object(
+          p_counter,
+          LEAST(step_target, COALESCE((user_quests.progress->>p_counter)::numeric, 0) + p_amount)
+        ),
+        is_active = true
+    WHERE NOT user_quests.is_completed;
+  END LOOP;
+
+  FOR saga_record IN SELECT * FROM sagas WHERE is_active = true
+  LOOP
+    INSERT INTO user_saga_progress (user_id, saga_id, is_active, started_at)
+    VALUES (p_user_id, saga_record.id, true, now())
+    ON CONFLICT (user_id, saga_id) DO NOTHING;
+
+    SELECT * INTO progress_record
+    FROM user_saga_progress
+    WHERE user_id = p_user_id AND saga_id = saga_record.id
+    FOR UPDATE;
+
+    CONTINUE WHEN progress_record.is_completed;
+
+    SELECT (requirements->>p_counter)::numeric INTO step_target
+    FROM saga_steps
+    WHERE saga_id = saga_record.id
+      AND step_number = progress_record.current_step + 1
+      AND jsonb_typeof(requirements->p_counter) = 'number';
+
+    CONTINUE WHEN step_target IS NULL;
+
+    UPDATE user_saga_progress
+    SET is_active = true,
+        flags = jsonb_set(
+          COALESCE(flags, '{}'::jsonb),
+          '{stepProgress}',
+          COALESCE(flags->'stepProgress', '{}'::jsonb) || jsonb_build_object(
+            p_counter,
+            LEAST(step_target, COALESCE((flags->'stepProgress'->>p_counter)::numeric, 0) + p_amount)
+          )
+        )
+    WHERE id = progress_record.id;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION track_duel_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed'
+    AND NEW.winner_id IS NOT NULL THEN
+    PERFORM increment_progress_counter(NEW.winner_id, 'duels_won', 1);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS duels_track_progress ON duels;
+CREATE TRIGGER duels_track_progress
+  AFTER UPDATE ON duels
+  FOR EACH ROW EXECUTE FUNCTION track_duel_progress();
+
+GRANT EXECUTE ON FUNCTION progress_meets_requirements TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_quest TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_saga_step TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION grant_progression_rewards FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION increment_progress_counter FROM PUBLIC;
@@ -0,0 +1,122 @@
+/*
+  # Achievement Unlocking
+
+  1. Progress format
+    - An achievement tracks the first numeric entry of `requirements`
+      (e.g. `{"pets_created": 1}`) in `user_achievements.progress`
+    - It unlocks once `progress` reaches `max_progress`
+
+  2. Functions
+    - `unlock_achievement` verifies the stored progress, marks the
+      achievement unlocked and grants its rewards exactly once
+    - `increment_achievement_counter` advances achievements the server
+      settles itself; completed duels feed `duels_won` to the winner
+
+  3. Security
+    - Users can only unlock their own achievements
+    - The counter helper is not callable directly
+*/
+
+CREATE OR REPLACE FUNCTION unlock_achievement(
+  p_user_id uuid,
+  p_achievement_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  achievement_record achievements%ROWTYPE;
+  progress_record user_achievements%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO achievement_record
+  FROM achievements
+  WHERE id = p_achievement_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Achievement not found: %', p_achievement_id;
+  END IF;
+
+  SELECT * INTO progress_record
+  FROM user_achievements
+  WHERE user_id = p_user_id AND achievement_id = p_achievement_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Achievement not started';
+  END IF;
+
+  IF progress_record.is_unlocked THEN
+    RAISE EXCEPTION 'Achievement already unlocked';
+  END IF;
+
+  IF COALESCE(progress_record.progress, 0) < COALESCE(achievement_record.max_progress, 1) THEN
+    RAISE EXCEPTION 'Achievement requirements not met';
+  END IF;
+
+  UPDATE user_achievements
+  SET is_unlocked = true,
+      unlocked_at = now()
+  WHERE id = progress_record.id;
+
+  PERFORM grant_progression_rewards(p_user_id, achievement_record.rewards, 'achievement_unlocked');
+
+  RETURN achievement_record.rewards;
+END;
+$$;
+
+-- Bumps a counter on every locked achievement that tracks it
+CREATE OR REPLACE FUNCTION increment_achievement_counter(
+  p_user_id uuid,
+  p_counter text,
+  p_amount integer DEFAULT 1
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  achievement_record achievements%ROWTYPE;
+BEGIN
+  FOR achievement_record IN
+    SELECT * FROM achievements
+    WHERE is_active = true
+      AND jsonb_typeof(requirements->p_counter) = 'number'
+  LOOP
+    INSERT INTO user_achievements (user_id, achievement_id, progress)
+    VALUES (
+      p_user_id,
+      achievement_record.id,
+      LEAST(achievement_record.max_progress, p_amount)
+    )
+    ON CONFLICT (user_id, achievement_id) DO UPDATE
+    SET progress = LEAST(achievement_record.max_progress, COALESCE(user_achievements.progress, 0) + p_amount)
+    WHERE NOT user_achievements.is_unlocked;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION track_duel_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'completed'
+    AND OLD.status IS DISTINCT FROM 'completed'
+    AND NEW.winner_id IS NOT NULL THEN
+    PERFORM increment_progress_counter(NEW.winner_id, 'duels_won', 1);
+    PERFORM increment_achievement_counter(NEW.winner_id, 'duels_won', 1);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION unlock_achievement TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION increment_achievement_counter FROM PUBLIC;
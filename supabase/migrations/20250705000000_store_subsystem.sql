@@ -0,0 +1,446 @@
+/*
+  # Store Subsystem
+
+  1. Shops
+    - `shops.poi_id` becomes optional: points of interest were removed
+      together with the world tables, so shops no longer belong to one
+    - `shops` gains a type, NPC greeting, opening hours (UTC), restock
+      interval and discount level
+    - `shop_items.stock_limit` is the maximum stock; the new `stock` column
+      holds what is left (NULL means unlimited) and `restock_rate` how much
+      comes back every interval
+    - `shop_items.requirements` is a list of `{type, value, description}`
+      checks: level, achievement, item, currency or reputation
+
+  2. New Tables
+    - `shop_offers` - time-boxed sale prices with a purchase cap shared by
+      every player
+    - `shop_reputation` - per-player reputation with each shop, earned by
+      buying there
+
+  3. Functions
+    - `restock_shop` / `restock_due_shops` apply every restock interval
+      that elapsed since the last one; calling them early is a no-op
+    - `purchase_shop_item` checks opening hours, requirements, stock and
+      offer limits, charges the player and delivers the item in one
+      transaction
+
+  4. Security
+    - Shops, items and offers are readable by every authenticated user
+    - Players only read their own reputation
+    - Purchases can only be made for the calling user
+*/
+
+-- The pois table it referenced was dropped with the world tables
+ALTER TABLE shops ALTER COLUMN poi_id DROP NOT NULL;
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS type text DEFAULT 'general'
+    CHECK (type IN ('general', 'equipment', 'food', 'potions', 'collectibles', 'premium', 'seasonal')),
+  ADD COLUMN IF NOT EXISTS npc_dialogue text,
+  ADD COLUMN IF NOT EXISTS open_hour integer DEFAULT 0 CHECK (open_hour >= 0 AND open_hour <= 23),
+  ADD COLUMN IF NOT EXISTS close_hour integer DEFAULT 24 CHECK (close_hour >= 1 AND close_hour <= 24),
+  ADD COLUMN IF NOT EXISTS restock_interval_hours integer DEFAULT 6 CHECK (restock_interval_hours > 0),
+  ADD COLUMN IF NOT EXISTS last_restock timestamptz DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS discount_level integer DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE shop_items
+  ADD COLUMN IF NOT EXISTS stock integer CHECK (stock >= 0),
+  ADD COLUMN IF NOT EXISTS restock_rate integer DEFAULT 1 CHECK (restock_rate >= 0),
+  ADD COLUMN IF NOT EXISTS sale_discount integer DEFAULT 0 CHECK (sale_discount >= 0 AND sale_discount <= 100),
+  ADD COLUMN IF NOT EXISTS is_limited boolean DEFAULT false,
+  ADD COLUMN IF NOT EXISTS requirements jsonb DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS last_restocked timestamptz DEFAULT now();
+
+-- Limited rows used to decrement stock_limit directly
+UPDATE shop_items SET stock = stock_limit WHERE stock IS NULL AND stock_limit IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS shop_offers (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  item_id uuid REFERENCES items(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  sale_price integer NOT NULL CHECK (sale_price >= 0),
+  currency text DEFAULT 'xenocoins' CHECK (currency IN ('xenocoins', 'cash')),
+  start_date timestamptz DEFAULT now(),
+  end_date timestamptz NOT NULL,
+  max_purchases integer NOT NULL CHECK (max_purchases > 0),
+  current_purchases integer DEFAULT 0 CHECK (current_purchases >= 0),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shop_reputation (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  shop_id uuid REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+  reputation integer DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (user_id, shop_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_offers_shop_item ON shop_offers(shop_id, item_id);
+
+ALTER TABLE shop_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shop_reputation ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read shop offers"
+  ON shop_offers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read own shop reputation"
+  ON shop_reputation FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION restock_shop(p_shop_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  shop_record shops%ROWTYPE;
+  elapsed_intervals integer;
+BEGIN
+  SELECT * INTO shop_record FROM shops WHERE id = p_shop_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  elapsed_intervals := floor(
+    EXTRACT(EPOCH FROM now() - shop_record.last_restock)
+    / (shop_record.restock_interval_hours * 3600)
+  );
+
+  IF elapsed_intervals < 1 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE shop_items
+  SET stock = LEAST(stock_limit, stock + restock_rate * elapsed_intervals),
+      last_restocked = now()
+  WHERE shop_id = p_shop_id
+    AND stock IS NOT NULL
+    AND stock_limit IS NOT NULL;
+
+  UPDATE shops
+  SET last_restock = last_restock
+        + make_interval(hours => restock_interval_hours * elapsed_intervals),
+      updated_at = now()
+  WHERE id = p_shop_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION restock_due_shops()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  due_shop_id uuid;
+  restocked integer := 0;
+BEGIN
+  FOR due_shop_id IN SELECT id FROM shops WHERE is_active = true
+  LOOP
+    IF restock_shop(due_shop_id) THEN
+      restocked := restocked + 1;
+    END IF;
+  END LOOP;
+
+  RETURN restocked;
+END;
+$$;
+
+-- Raises with the requirement description when the player does not meet it
+CREATE OR REPLACE FUNCTION check_shop_item_requirements(
+  p_user_id uuid,
+  p_shop_id uuid,
+  p_requirements jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  requirement jsonb;
+  is_met boolean;
+BEGIN
+  IF jsonb_typeof(p_requirements) <> 'array' THEN
+    RETURN;
+  END IF;
+
+  FOR requirement IN SELECT * FROM jsonb_array_elements(p_requirements)
+  LOOP
+    is_met := CASE requirement->>'type'
+      WHEN 'level' THEN (
+        SELECT COALESCE(MAX(level), 0) >= (requirement->>'value')::integer
+        FROM pets
+        WHERE owner_id = p_user_id AND is_alive = true
+      )
+      WHEN 'achievement' THEN EXISTS (
+        SELECT 1
+        FROM user_achievements ua
+        JOIN achievements a ON a.id = ua.achievement_id
+        WHERE ua.user_id = p_user_id
+          AND ua.is_unlocked = true
+          AND a.name = requirement->>'value'
+      )
+      WHEN 'item' THEN EXISTS (
+        SELECT 1
+        FROM inventory i
+        JOIN items it ON it.id = i.item_id
+        WHERE i.user_id = p_user_id
+          AND it.name = requirement->>'value'
+      )
+      WHEN 'currency' THEN (
+        SELECT xenocoins >= (requirement->>'value')::bigint
+        FROM profiles
+        WHERE id = p_user_id
+      )
+      WHEN 'reputation' THEN (
+        SELECT COALESCE(MAX(reputation), 0) >= (requirement->>'value')::integer
+        FROM shop_reputation
+        WHERE user_id = p_user_id AND shop_id = p_shop_id
+      )
+      ELSE true
+    END;
+
+    IF NOT COALESCE(is_met, false) THEN
+      RAISE EXCEPTION 'Requirement not met: %', requirement->>'description';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purchase_shop_item(
+  p_user_id uuid,
+  p_shop_item_id uuid,
+  p_quantity integer DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  shop_record shops%ROWTYPE;
+  shop_item_record shop_items%ROWTYPE;
+  offer_record shop_offers%ROWTYPE;
+  current_hour integer;
+  unit_price integer;
+  purchase_currency text;
+  total_cost bigint;
+  new_balance bigint;
+  existing_stack_id uuid;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Invalid quantity';
+  END IF;
+
+  SELECT * INTO shop_item_record FROM shop_items WHERE id = p_shop_item_id;
+  IF NOT FOUND OR NOT shop_item_record.is_available THEN
+    RAISE EXCEPTION 'Item not available';
+  END IF;
+
+  -- Apply any restock that came due before reading the stock
+  PERFORM restock_shop(shop_item_record.shop_id);
+
+  SELECT * INTO shop_record FROM shops WHERE id = shop_item_record.shop_id;
+  IF NOT shop_record.is_active THEN
+    RAISE EXCEPTION 'Item not available';
+  END IF;
+
+  current_hour := EXTRACT(HOUR FROM now() AT TIME ZONE 'UTC');
+  IF current_hour < shop_record.open_hour OR current_hour >= shop_record.close_hour THEN
+    RAISE EXCEPTION 'Shop is closed';
+  END IF;
+
+  SELECT * INTO shop_item_record FROM shop_items WHERE id = p_shop_item_id FOR UPDATE;
+
+  PERFORM check_shop_item_requirements(p_user_id, shop_record.id, shop_item_record.requirements);
+
+  IF shop_item_record.stock IS NOT NULL AND shop_item_record.stock < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock';
+  END IF;
+
+  SELECT * INTO offer_record
+  FROM shop_offers
+  WHERE shop_id = shop_record.id
+    AND item_id = shop_item_record.item_id
+    AND is_active = true
+    AND now() BETWEEN start_date AND end_date
+    AND current_purchases < max_purchases
+  ORDER BY sale_price
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF offer_record.current_purchases + p_quantity > offer_record.max_purchases THEN
+      RAISE EXCEPTION 'Offer limit reached';
+    END IF;
+
+    unit_price := offer_record.sale_price;
+    purchase_currency := offer_record.currency;
+
+    UPDATE shop_offers
+    SET current_purchases = current_purchases + p_quantity
+    WHERE id = offer_record.id;
+  ELSE
+    unit_price := round(shop_item_record.price * (100 - shop_item_record.sale_discount) / 100.0);
+    purchase_currency := shop_item_record.currency;
+  END IF;
+
+  total_cost := unit_price::bigint * p_quantity;
+
+  IF total_cost > 0 THEN
+    PERFORM update_user_currency(p_user_id, purchase_currency, -total_cost, 'shop_purchase');
+  END IF;
+
+  SELECT id INTO existing_stack_id
+  FROM inventory
+  WHERE user_id = p_user_id
+    AND item_id = shop_item_record.item_id
+    AND equipped_pet_id IS NULL
+    AND locked_trade_id IS NULL
+  LIMIT 1;
+
+  IF existing_stack_id IS NOT NULL THEN
+    UPDATE inventory SET quantity = quantity + p_quantity WHERE id = existing_stack_id;
+  ELSE
+    INSERT INTO inventory (user_id, item_id, quantity)
+    VALUES (p_user_id, shop_item_record.item_id, p_quantity);
+  END IF;
+
+  IF shop_item_record.stock IS NOT NULL THEN
+    UPDATE shop_items SET stock = stock - p_quantity WHERE id = p_shop_item_id;
+  END IF;
+
+  INSERT INTO shop_reputation (user_id, shop_id, reputation)
+  VALUES (p_user_id, shop_record.id, p_quantity)
+  ON CONFLICT (user_id, shop_id) DO UPDATE
+  SET reputation = shop_reputation.reputation + p_quantity,
+      updated_at = now();
+
+  IF purchase_currency = 'xenocoins' THEN
+    SELECT xenocoins INTO new_balance FROM profiles WHERE id = p_user_id;
+  ELSE
+    SELECT cash INTO new_balance FROM profiles WHERE id = p_user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'itemId', shop_item_record.item_id,
+    'quantity', p_quantity,
+    'totalCost', total_cost,
+    'currency', purchase_currency,
+    'newBalance', new_balance
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION restock_shop TO authenticated;
+GRANT EXECUTE ON FUNCTION restock_due_shops TO authenticated;
+GRANT EXECUTE ON FUNCTION purchase_shop_item TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION check_shop_item_requirements FROM PUBLIC;
+
+-- Items sold by the starter shops
+INSERT INTO items (name, description, type, rarity, price, currency, effects, daily_limit, slot)
+SELECT 'Desert Crystal', 'A rare crystal that enhances magical abilities', 'Special', 'Rare', 200, 'xenocoins', '{"intelligence": 3, "luck": 1}', null, null
+WHERE NOT EXISTS (SELECT 1 FROM items WHERE name = 'Desert Crystal');
+
+INSERT INTO items (name, description, type, rarity, price, currency, effects, daily_limit, slot)
+SELECT 'Iron Armor', 'Sturdy armor that provides excellent protection', 'Equipment', 'Rare', 500, 'xenocoins', '{"defense": 5, "health": 2}', null, 'torso'
+WHERE NOT EXISTS (SELECT 1 FROM items WHERE name = 'Iron Armor');
+
+INSERT INTO items (name, description, type, rarity, price, currency, effects, daily_limit, slot)
+SELECT 'Crystal Sword', 'A magnificent sword forged from mountain crystals', 'Weapon', 'Epic', 1000, 'xenocoins', '{"attack": 8, "strength": 3}', null, 'weapon'
+WHERE NOT EXISTS (SELECT 1 FROM items WHERE name = 'Crystal Sword');
+
+INSERT INTO items (name, description, type, rarity, price, currency, effects, daily_limit, slot)
+SELECT 'Premium Elixir', 'An exclusive elixir that dramatically boosts all stats', 'Potion', 'Legendary', 5, 'cash', '{"health": 3, "happiness": 3, "strength": 2, "dexterity": 2, "intelligence": 2}', 1, null
+WHERE NOT EXISTS (SELECT 1 FROM items WHERE name = 'Premium Elixir');
+
+INSERT INTO achievements (name, description, category, requirements, rewards, max_progress)
+SELECT 'First Battle Victory', 'Win your first duel', 'combat', '{"duels_won": 1}', '{"xenocoins": 100}', 1
+WHERE NOT EXISTS (SELECT 1 FROM achievements WHERE name = 'First Battle Victory');
+
+-- Shopkeepers
+INSERT INTO npcs (name, image_url, personality, services)
+SELECT 'Merchant Maya', 'https://images.pexels.com/photos/1239291/pexels-photo-1239291.jpeg?auto=compress&cs=tinysrgb&w=200', 'Friendly and helpful', '["shop"]'
+WHERE NOT EXISTS (SELECT 1 FROM npcs WHERE name = 'Merchant Maya');
+
+INSERT INTO npcs (name, image_url, personality, services)
+SELECT 'Desert Trader Zara', 'https://images.pexels.com/photos/1181690/pexels-photo-1181690.jpeg?auto=compress&cs=tinysrgb&w=200', 'Adventurous and shrewd', '["shop"]'
+WHERE NOT EXISTS (SELECT 1 FROM npcs WHERE name = 'Desert Trader Zara');
+
+INSERT INTO npcs (name, image_url, personality, services)
+SELECT 'Blacksmith Boris', 'https://images.pexels.com/photos/1040880/pexels-photo-1040880.jpeg?auto=compress&cs=tinysrgb&w=200', 'Gruff but proud of his craft', '["shop"]'
+WHERE NOT EXISTS (SELECT 1 FROM npcs WHERE name = 'Blacksmith Boris');
+
+-- Starter shops
+DO $$
+DECLARE
+  general_store_id uuid;
+  oasis_id uuid;
+  armory_id uuid;
+BEGIN
+  INSERT INTO shops (npc_id, name, description, type, npc_dialogue, open_hour, close_hour, restock_interval_hours)
+  SELECT n.id, 'Woodland General Store', 'Your one-stop shop for basic pet care items and everyday necessities', 'general',
+    'Welcome to my shop, traveler! I have the finest items for your pets. What can I help you find today?', 6, 22, 6
+  FROM npcs n
+  WHERE n.name = 'Merchant Maya'
+    AND NOT EXISTS (SELECT 1 FROM shops WHERE name = 'Woodland General Store');
+
+  INSERT INTO shops (npc_id, name, description, type, npc_dialogue, open_hour, close_hour, restock_interval_hours)
+  SELECT n.id, 'Oasis Trading Post', 'Rare items and equipment for the adventurous explorer', 'equipment',
+    'Ah, a fellow traveler! The desert has been kind to me, and I have rare treasures to share. Perhaps something for your companions?', 8, 20, 12
+  FROM npcs n
+  WHERE n.name = 'Desert Trader Zara'
+    AND NOT EXISTS (SELECT 1 FROM shops WHERE name = 'Oasis Trading Post');
+
+  INSERT INTO shops (npc_id, name, description, type, npc_dialogue, open_hour, close_hour, restock_interval_hours)
+  SELECT n.id, 'Mountain Armory', 'Premium equipment and weapons for serious trainers', 'equipment',
+    'Welcome to my forge! These mountains provide the finest materials for crafting. Your pets deserve the best protection and weapons!', 7, 19, 24
+  FROM npcs n
+  WHERE n.name = 'Blacksmith Boris'
+    AND NOT EXISTS (SELECT 1 FROM shops WHERE name = 'Mountain Armory');
+
+  SELECT id INTO general_store_id FROM shops WHERE name = 'Woodland General Store' LIMIT 1;
+  SELECT id INTO oasis_id FROM shops WHERE name = 'Oasis Trading Post' LIMIT 1;
+  SELECT id INTO armory_id FROM shops WHERE name = 'Mountain Armory' LIMIT 1;
+
+  INSERT INTO shop_items (shop_id, item_id, price, currency, stock, stock_limit, restock_rate, sale_discount, is_limited, requirements)
+  SELECT seed.shop_id, i.id, seed.price, seed.currency, seed.stock, seed.stock_limit, seed.restock_rate, seed.sale_discount, seed.is_limited, seed.requirements::jsonb
+  FROM (VALUES
+    (general_store_id, 'Health Potion', 50, 'xenocoins', 25, 50, 5, 0, false, '[]'),
+    (general_store_id, 'Magic Apple', 25, 'xenocoins', 30, 40, 8, 20, false, '[]'),
+    (general_store_id, 'Happiness Toy', 30, 'xenocoins', 15, 20, 3, 0, false, '[]'),
+    (oasis_id, 'Energy Drink', 75, 'xenocoins', 12, 15, 2, 0, false, '[]'),
+    (oasis_id, 'Desert Crystal', 200, 'xenocoins', 5, 8, 1, 0, true,
+      '[{"type": "level", "value": 5, "description": "Requires pet level 5 or higher"}]'),
+    (armory_id, 'Iron Armor', 500, 'xenocoins', 3, 5, 1, 0, true,
+      '[{"type": "level", "value": 10, "description": "Requires pet level 10 or higher"}]'),
+    (armory_id, 'Crystal Sword', 1000, 'xenocoins', 2, 3, 1, 0, true,
+      '[{"type": "level", "value": 15, "description": "Requires pet level 15 or higher"}, {"type": "achievement", "value": "First Battle Victory", "description": "Must have won at least one battle"}]'),
+    (armory_id, 'Premium Elixir', 5, 'cash', 10, 10, 2, 0, false, '[]')
+  ) AS seed(shop_id, item_name, price, currency, stock, stock_limit, restock_rate, sale_discount, is_limited, requirements)
+  JOIN items i ON i.name = seed.item_name
+  WHERE seed.shop_id IS NOT NULL
+  ON CONFLICT (shop_id, item_id) DO NOTHING;
+
+  IF general_store_id IS NOT NULL THEN
+    INSERT INTO shop_offers (shop_id, item_id, name, description, sale_price, currency, start_date, end_date, max_purchases)
+    SELECT general_store_id, i.id, 'Weekly Apple Special', 'Get Magic Apples at 20% off this week!', 20, 'xenocoins', now(), now() + interval '7 days', 100
+    FROM items i
+    WHERE i.name = 'Magic Apple'
+      AND NOT EXISTS (SELECT 1 FROM shop_offers WHERE name = 'Weekly Apple Special');
+  END IF;
+END $$;
@@ -0,0 +1,97 @@
+/*
+  # Idempotent Shop Purchases
+
+  1. New Tables
+    - `purchase_transactions` - one row per completed purchase, keyed by the
+      client-generated idempotency key, holding the result returned to the
+      client
+
+  2. Functions
+    - The previous `purchase_shop_item` becomes the internal
+      `process_shop_purchase`
+    - `purchase_shop_item` now requires an idempotency key: the first call
+      with a key runs the purchase, later calls with the same key return the
+      stored result without charging again. Failed purchases roll back their
+      claim, so they can be retried with the same key
+
+  3. Security
+    - Players only read their own purchase transactions
+    - `process_shop_purchase` is not callable directly
+*/
+
+CREATE TABLE IF NOT EXISTS purchase_transactions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  idempotency_key text NOT NULL,
+  shop_item_id uuid REFERENCES shop_items(id) ON DELETE SET NULL,
+  quantity integer NOT NULL,
+  result jsonb,
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(user_id, idempotency_key)
+);
+
+ALTER TABLE purchase_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own purchase transactions"
+  ON purchase_transactions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+ALTER FUNCTION purchase_shop_item(uuid, uuid, integer) RENAME TO process_shop_purchase;
+
+REVOKE EXECUTE ON FUNCTION process_shop_purchase FROM PUBLIC, authenticated;
+
+CREATE OR REPLACE FUNCTION purchase_shop_item(
+  p_user_id uuid,
+  p_shop_item_id uuid,
+  p_quantity integer,
+  p_idempotency_key text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  transaction_record purchase_transactions%ROWTYPE;
+  purchase_result jsonb;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'Idempotency key required';
+  END IF;
+
+  -- A concurrent call with the same key blocks here until the first commits
+  INSERT INTO purchase_transactions (user_id, idempotency_key, shop_item_id, quantity)
+  VALUES (p_user_id, p_idempotency_key, p_shop_item_id, p_quantity)
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING * INTO transaction_record;
+
+  IF transaction_record.id IS NULL THEN
+    SELECT * INTO transaction_record
+    FROM purchase_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF transaction_record.shop_item_id IS DISTINCT FROM p_shop_item_id
+      OR transaction_record.quantity <> p_quantity THEN
+      RAISE EXCEPTION 'Idempotency key reused for a different purchase';
+    END IF;
+
+    RETURN transaction_record.result || jsonb_build_object('replayed', true);
+  END IF;
+
+  purchase_result := process_shop_purchase(p_user_id, p_shop_item_id, p_quantity)
+    || jsonb_build_object('success', true, 'replayed', false);
+
+  UPDATE purchase_transactions
+  SET result = purchase_result
+  WHERE id = transaction_record.id;
+
+  RETURN purchase_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION purchase_shop_item TO authenticated;
@@ -0,0 +1,655 @@
+/*
+  # Currency Ledger
+
+  1. New Tables
+    - `currency_ledger` - append-only record of every xenocoin and cash
+      movement, with the reason (`shop_purchase`, `trade_escrow`,
+      `daily_checkin`, `redeem_code`, `admin_grant`, ...), the id of the
+      purchase, trade, duel or code it belongs to and the resulting balance
+
+  2. Functions
+    - `update_user_currency` takes an optional reference id and writes a
+      ledger entry for every change it makes
+    - `admin_adjust_currency` lets admins grant or remove currency
+    - `verify_currency_balance` compares the ledger totals with the balances
+      stored on the profile
+    - Duels, trades and shop purchases pass their ids to the ledger
+
+  3. Data
+    - Existing balances are recorded as `opening_balance` entries so the
+      ledger sums match the profiles from the start
+
+  4. Security
+    - Players read their own entries, admins read everyone's
+    - Entries cannot be updated, and are only deleted together with their
+      profile
+*/
+
+CREATE TABLE IF NOT EXISTS currency_ledger (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  currency text NOT NULL CHECK (currency IN ('xenocoins', 'cash')),
+  amount bigint NOT NULL,
+  balance_after bigint NOT NULL,
+  reason text NOT NULL,
+  reference_id text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_currency_ledger_user ON currency_ledger (user_id, created_at DESC);
+
+ALTER TABLE currency_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own ledger"
+  ON currency_ledger FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read all ledgers"
+  ON currency_ledger FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND is_admin = true
+    )
+  );
+
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Rows only leave the ledger through the cascade from a deleted profile
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Currency ledger entries cannot be changed';
+END;
+$$;
+
+CREATE TRIGGER currency_ledger_append_only
+  BEFORE UPDATE OR DELETE ON currency_ledger
+  FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+INSERT INTO currency_ledger (user_id, currency, amount, balance_after, reason)
+SELECT id, 'xenocoins', xenocoins, xenocoins, 'opening_balance'
+FROM profiles
+WHERE COALESCE(xenocoins, 0) <> 0;
+
+INSERT INTO currency_ledger (user_id, currency, amount, balance_after, reason)
+SELECT id, 'cash', cash, cash, 'opening_balance'
+FROM profiles
+WHERE COALESCE(cash, 0) <> 0;
+
+-- The reference id changes the signature, so the old version must go
+DROP FUNCTION IF EXISTS update_user_currency(uuid, text, bigint, text);
+
+CREATE OR REPLACE FUNCTION update_user_currency(
+  user_id uuid,
+  currency_type text,
+  amount bigint,
+  reason text DEFAULT 'manual',
+  reference_id text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_amount bigint;
+  max_daily_gain bigint := 1000000;
+  new_total bigint;
+BEGIN
+  -- Validate currency type
+  IF currency_type NOT IN ('xenocoins', 'cash') THEN
+    RAISE EXCEPTION 'Invalid currency type: %', currency_type;
+  END IF;
+
+  -- Anti-cheat: Check daily gain limits for positive amounts
+  IF amount > 0 AND amount > max_daily_gain THEN
+    RAISE EXCEPTION 'Amount exceeds daily limit: %', amount;
+  END IF;
+
+  -- Lock the profile so concurrent changes are recorded in order
+  IF currency_type = 'xenocoins' THEN
+    SELECT xenocoins INTO current_amount FROM profiles WHERE id = user_id FOR UPDATE;
+  ELSE
+    SELECT cash INTO current_amount FROM profiles WHERE id = user_id FOR UPDATE;
+  END IF;
+
+  IF current_amount IS NULL THEN
+    RAISE EXCEPTION 'User not found: %', user_id;
+  END IF;
+
+  -- Calculate new amount and prevent negative balances
+  new_total := current_amount + amount;
+  IF new_total < 0 THEN
+    RAISE EXCEPTION 'Insufficient funds. Current: %, Requested: %', current_amount, amount;
+  END IF;
+
+  IF currency_type = 'xenocoins' THEN
+    UPDATE profiles
+    SET xenocoins = new_total,
+        total_xenocoins = total_xenocoins + GREATEST(amount, 0),
+        updated_at = now()
+    WHERE id = user_id;
+  ELSE
+    UPDATE profiles
+    SET cash = new_total,
+        updated_at = now()
+    WHERE id = user_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Failed to update currency for user: %', user_id;
+  END IF;
+
+  IF amount <> 0 THEN
+    INSERT INTO currency_ledger (user_id, currency, amount, balance_after, reason, reference_id)
+    VALUES (
+      update_user_currency.user_id,
+      currency_type,
+      amount,
+      new_total,
+      COALESCE(update_user_currency.reason, 'manual'),
+      update_user_currency.reference_id
+    );
+  END IF;
+
+  RETURN true;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Log the error and re-raise
+    RAISE EXCEPTION 'Currency update failed: %', SQLERRM;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION admin_adjust_currency(
+  p_user_id uuid,
+  p_currency_type text,
+  p_amount bigint
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_amount = 0 THEN
+    RAISE EXCEPTION 'Invalid amount';
+  END IF;
+
+  -- The reference records which admin made the change
+  RETURN update_user_currency(p_user_id, p_currency_type, p_amount, 'admin_grant', auth.uid()::text);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_currency_balance(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  profile_record profiles%ROWTYPE;
+  ledger_xenocoins bigint;
+  ledger_cash bigint;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() <> p_user_id
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO profile_record FROM profiles WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE currency = 'xenocoins'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE currency = 'cash'), 0)
+  INTO ledger_xenocoins, ledger_cash
+  FROM currency_ledger
+  WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'xenocoins', jsonb_build_object('profile', COALESCE(profile_record.xenocoins, 0), 'ledger', ledger_xenocoins),
+    'cash', jsonb_build_object('profile', COALESCE(profile_record.cash, 0), 'ledger', ledger_cash),
+    'consistent', COALESCE(profile_record.xenocoins, 0) = ledger_xenocoins
+      AND COALESCE(profile_record.cash, 0) = ledger_cash
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_duel(
+  p_duel_id uuid,
+  p_winner_id uuid,
+  p_battle_log jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  duel_record duels%ROWTYPE;
+  loser_id uuid;
+BEGIN
+  -- Lock the duel so it can only be completed once
+  SELECT * INTO duel_record FROM duels WHERE id = p_duel_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duel not found: %', p_duel_id;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() NOT IN (duel_record.challenger_id, duel_record.opponent_id) THEN
+    RAISE EXCEPTION 'Not a participant of this duel';
+  END IF;
+
+  IF duel_record.status NOT IN ('accepted', 'in_progress') THEN
+    RAISE EXCEPTION 'Duel cannot be completed from status: %', duel_record.status;
+  END IF;
+
+  IF p_winner_id IS NOT NULL
+    AND p_winner_id NOT IN (duel_record.challenger_id, duel_record.opponent_id) THEN
+    RAISE EXCEPTION 'Winner is not a participant of this duel';
+  END IF;
+
+  -- Settle the wager (draws keep their coins)
+  IF p_winner_id IS NOT NULL AND duel_record.xenocoins_wagered > 0 THEN
+    IF p_winner_id = duel_record.challenger_id THEN
+      loser_id := duel_record.opponent_id;
+    ELSE
+      loser_id := duel_record.challenger_id;
+    END IF;
+
+    PERFORM update_user_currency(loser_id, 'xenocoins', -duel_record.xenocoins_wagered, 'duel_lost', p_duel_id::text);
+    PERFORM update_user_currency(p_winner_id, 'xenocoins', duel_record.xenocoins_wagered, 'duel_won', p_duel_id::text);
+  END IF;
+
+  UPDATE duels
+  SET status = 'completed',
+      winner_id = p_winner_id,
+      battle_log = p_battle_log,
+      completed_at = now()
+  WHERE id = p_duel_id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_trade_escrow(p_trade_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  trade_record trades%ROWTYPE;
+BEGIN
+  SELECT * INTO trade_record FROM trades WHERE id = p_trade_id;
+
+  UPDATE inventory SET locked_trade_id = NULL WHERE locked_trade_id = p_trade_id;
+
+  IF trade_record.initiator_xenocoins > 0 THEN
+    PERFORM update_user_currency(trade_record.initiator_id, 'xenocoins', trade_record.initiator_xenocoins, 'trade_refund', p_trade_id::text);
+  END IF;
+
+  -- The recipient's coins are only held once they accepted
+  IF trade_record.recipient_confirmed AND trade_record.recipient_xenocoins > 0 THEN
+    PERFORM update_user_currency(trade_record.recipient_id, 'xenocoins', trade_record.recipient_xenocoins, 'trade_refund', p_trade_id::text);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_trade(
+  p_initiator_id uuid,
+  p_recipient_id uuid,
+  p_initiator_items jsonb,
+  p_recipient_items jsonb,
+  p_initiator_xenocoins bigint DEFAULT 0,
+  p_recipient_xenocoins bigint DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_trade_id uuid;
+  recipient_preferences jsonb;
+  offer jsonb;
+  requested_row inventory%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_initiator_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_initiator_id = p_recipient_id THEN
+    RAISE EXCEPTION 'Cannot trade with yourself';
+  END IF;
+
+  IF p_initiator_xenocoins < 0 OR p_recipient_xenocoins < 0 THEN
+    RAISE EXCEPTION 'Invalid xenocoin amount';
+  END IF;
+
+  SELECT preferences INTO recipient_preferences FROM profiles WHERE id = p_recipient_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipient not found';
+  END IF;
+
+  IF (recipient_preferences->'privacy'->>'allowTrades') = 'false' THEN
+    RAISE EXCEPTION 'Recipient is not accepting trades';
+  END IF;
+
+  -- Requested items must be tradeable now; they are locked when the recipient accepts
+  FOR offer IN SELECT * FROM jsonb_array_elements(COALESCE(p_recipient_items, '[]'::jsonb))
+  LOOP
+    SELECT * INTO requested_row FROM inventory WHERE id = (offer->>'inventory_id')::uuid;
+
+    IF NOT FOUND OR requested_row.user_id <> p_recipient_id THEN
+      RAISE EXCEPTION 'Requested item not found';
+    END IF;
+
+    IF requested_row.is_equipped OR requested_row.equipped_pet_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Equipped items cannot be traded';
+    END IF;
+  END LOOP;
+
+  INSERT INTO trades (
+    initiator_id,
+    recipient_id,
+    recipient_items,
+    initiator_xenocoins,
+    recipient_xenocoins
+  )
+  VALUES (
+    p_initiator_id,
+    p_recipient_id,
+    COALESCE(p_recipient_items, '[]'::jsonb),
+    p_initiator_xenocoins,
+    p_recipient_xenocoins
+  )
+  RETURNING id INTO new_trade_id;
+
+  UPDATE trades
+  SET initiator_items = lock_trade_items(new_trade_id, p_initiator_id, p_initiator_items)
+  WHERE id = new_trade_id;
+
+  IF p_initiator_xenocoins > 0 THEN
+    PERFORM update_user_currency(p_initiator_id, 'xenocoins', -p_initiator_xenocoins, 'trade_escrow', new_trade_id::text);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message)
+  VALUES (p_recipient_id, 'info', 'Nova proposta de troca!', 'Você recebeu uma proposta de troca.');
+
+  RETURN new_trade_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_trade(
+  p_trade_id uuid,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  trade_record trades%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO trade_record FROM trades WHERE id = p_trade_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trade not found';
+  END IF;
+
+  -- Step 1: the recipient accepts and locks their side of the offer
+  IF p_user_id = trade_record.recipient_id AND trade_record.status = 'pending' THEN
+    UPDATE trades
+    SET recipient_items = lock_trade_items(p_trade_id, trade_record.recipient_id, trade_record.recipient_items),
+        recipient_confirmed = true,
+        status = 'accepted'
+    WHERE id = p_trade_id;
+
+    IF trade_record.recipient_xenocoins > 0 THEN
+      PERFORM update_user_currency(trade_record.recipient_id, 'xenocoins', -trade_record.recipient_xenocoins, 'trade_escrow', p_trade_id::text);
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, message)
+    VALUES (trade_record.initiator_id, 'info', 'Troca aceita!', 'Confirme a troca para concluí-la.');
+
+    RETURN 'accepted';
+  END IF;
+
+  -- Step 2: the initiator confirms and both sides are swapped
+  IF p_user_id = trade_record.initiator_id AND trade_record.status = 'accepted' THEN
+    PERFORM transfer_trade_items(p_trade_id, trade_record.initiator_items, trade_record.recipient_id);
+    PERFORM transfer_trade_items(p_trade_id, trade_record.recipient_items, trade_record.initiator_id);
+
+    IF trade_record.initiator_xenocoins > 0 THEN
+      PERFORM update_user_currency(trade_record.recipient_id, 'xenocoins', trade_record.initiator_xenocoins, 'trade_completed', p_trade_id::text);
+    END IF;
+
+    IF trade_record.recipient_xenocoins > 0 THEN
+      PERFORM update_user_currency(trade_record.initiator_id, 'xenocoins', trade_record.recipient_xenocoins, 'trade_completed', p_trade_id::text);
+    END IF;
+
+    UPDATE trades
+    SET initiator_confirmed = true,
+        status = 'completed',
+        completed_at = now()
+    WHERE id = p_trade_id;
+
+    INSERT INTO notifications (user_id, type, title, message)
+    VALUES (trade_record.recipient_id, 'success', 'Troca concluída!', 'Os itens da troca já estão no seu inventário.');
+
+    RETURN 'completed';
+  END IF;
+
+  RAISE EXCEPTION 'Trade cannot be confirmed from status: %', trade_record.status;
+END;
+$$;
+
+-- Purchases reference their purchase transaction, so the internal
+-- purchase takes the reference id from the idempotent wrapper
+DROP FUNCTION IF EXISTS process_shop_purchase(uuid, uuid, integer);
+
+CREATE OR REPLACE FUNCTION process_shop_purchase(
+  p_user_id uuid,
+  p_shop_item_id uuid,
+  p_quantity integer,
+  p_reference_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  shop_record shops%ROWTYPE;
+  shop_item_record shop_items%ROWTYPE;
+  offer_record shop_offers%ROWTYPE;
+  current_hour integer;
+  unit_price integer;
+  purchase_currency text;
+  total_cost bigint;
+  new_balance bigint;
+  existing_stack_id uuid;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Invalid quantity';
+  END IF;
+
+  SELECT * INTO shop_item_record FROM shop_items WHERE id = p_shop_item_id;
+  IF NOT FOUND OR NOT shop_item_record.is_available THEN
+    RAISE EXCEPTION 'Item not available';
+  END IF;
+
+  -- Apply any restock that came due before reading the stock
+  PERFORM restock_shop(shop_item_record.shop_id);
+
+  SELECT * INTO shop_record FROM shops WHERE id = shop_item_record.shop_id;
+  IF NOT shop_record.is_active THEN
+    RAISE EXCEPTION 'Item not available';
+  END IF;
+
+  current_hour := EXTRACT(HOUR FROM now() AT TIME ZONE 'UTC');
+  IF current_hour < shop_record.open_hour OR current_hour >= shop_record.close_hour THEN
+    RAISE EXCEPTION 'Shop is closed';
+  END IF;
+
+  SELECT * INTO shop_item_record FROM shop_items WHERE id = p_shop_item_id FOR UPDATE;
+
+  PERFORM check_shop_item_requirements(p_user_id, shop_record.id, shop_item_record.requirements);
+
+  IF shop_item_record.stock IS NOT NULL AND shop_item_record.stock < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock';
+  END IF;
+
+  SELECT * INTO offer_record
+  FROM shop_offers
+  WHERE shop_id = shop_record.id
+    AND item_id = shop_item_record.item_id
+    AND is_active = true
+    AND now() BETWEEN start_date AND end_date
+    AND current_purchases < max_purchases
+  ORDER BY sale_price
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF offer_record.current_purchases + p_quantity > offer_record.max_purchases THEN
+      RAISE EXCEPTION 'Offer limit reached';
+    END IF;
+
+    unit_price := offer_record.sale_price;
+    purchase_currency := offer_record.currency;
+
+    UPDATE shop_offers
+    SET current_purchases = current_purchases + p_quantity
+    WHERE id = offer_record.id;
+  ELSE
+    unit_price := round(shop_item_record.price * (100 - shop_item_record.sale_discount) / 100.0);
+    purchase_currency := shop_item_record.currency;
+  END IF;
+
+  total_cost := unit_price::bigint * p_quantity;
+
+  IF total_cost > 0 THEN
+    PERFORM update_user_currency(p_user_id, purchase_currency, -total_cost, 'shop_purchase', p_reference_id);
+  END IF;
+
+  SELECT id INTO existing_stack_id
+  FROM inventory
+  WHERE user_id = p_user_id
+    AND item_id = shop_item_record.item_id
+    AND equipped_pet_id IS NULL
+    AND locked_trade_id IS NULL
+  LIMIT 1;
+
+  IF existing_stack_id IS NOT NULL THEN
+    UPDATE inventory SET quantity = quantity + p_quantity WHERE id = existing_stack_id;
+  ELSE
+    INSERT INTO inventory (user_id, item_id, quantity)
+    VALUES (p_user_id, shop_item_record.item_id, p_quantity);
+  END IF;
+
+  IF shop_item_record.stock IS NOT NULL THEN
+    UPDATE shop_items SET stock = stock - p_quantity WHERE id = p_shop_item_id;
+  END IF;
+
+  INSERT INTO shop_reputation (user_id, shop_id, reputation)
+  VALUES (p_user_id, shop_record.id, p_quantity)
+  ON CONFLICT (user_id, shop_id) DO UPDATE
+  SET reputation = shop_reputation.reputation + p_quantity,
+      updated_at = now();
+
+  IF purchase_currency = 'xenocoins' THEN
+    SELECT xenocoins INTO new_balance FROM profiles WHERE id = p_user_id;
+  ELSE
+    SELECT cash INTO new_balance FROM profiles WHERE id = p_user_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'itemId', shop_item_record.item_id,
+    'quantity', p_quantity,
+    'totalCost', total_cost,
+    'currency', purchase_currency,
+    'newBalance', new_balance
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION purchase_shop_item(
+  p_user_id uuid,
+  p_shop_item_id uuid,
+  p_quantity integer,
+  p_idempotency_key text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  transaction_record purchase_transactions%ROWTYPE;
+  purchase_result jsonb;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_idempotency_key IS NULL OR length(p_idempotency_key) = 0 THEN
+    RAISE EXCEPTION 'Idempotency key required';
+  END IF;
+
+  -- A concurrent call with the same key blocks here until the first commits
+  INSERT INTO purchase_transactions (user_id, idempotency_key, shop_item_id, quantity)
+  VALUES (p_user_id, p_idempotency_key, p_shop_item_id, p_quantity)
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING * INTO transaction_record;
+
+  IF transaction_record.id IS NULL THEN
+    SELECT * INTO transaction_record
+    FROM purchase_transactions
+    WHERE user_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF transaction_record.shop_item_id IS DISTINCT FROM p_shop_item_id
+      OR transaction_record.quantity <> p_quantity THEN
+      RAISE EXCEPTION 'Idempotency key reused for a different purchase';
+    END IF;
+
+    RETURN transaction_record.result || jsonb_build_object('replayed', true);
+  END IF;
+
+  purchase_result := process_shop_purchase(p_user_id, p_shop_item_id, p_quantity, transaction_record.id::text)
+    || jsonb_build_object('success', true, 'replayed', false);
+
+  UPDATE purchase_transactions
+  SET result = purchase_result
+  WHERE id = transaction_record.id;
+
+  RETURN purchase_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_user_currency TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_adjust_currency TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_currency_balance TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION create_trade TO authenticated;
+GRANT EXECUTE ON FUNCTION confirm_trade TO authenticated;
+GRANT EXECUTE ON FUNCTION purchase_shop_item TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION release_trade_escrow FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION process_shop_purchase FROM PUBLIC, authenticated;
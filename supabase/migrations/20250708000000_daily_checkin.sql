@@ -0,0 +1,217 @@
+/*
+  # Server-side Daily Check-in
+
+  The earlier `create_user_checkin_table` migration is empty, so the check-in
+  schema is created here.
+
+  1. Timezone policy
+    - Check-in days are UTC calendar days, on the server and in the client
+      calendar, so a streak means the same thing on every device
+
+  2. New Tables
+    - `user_checkins` - one row per player and UTC day, with the streak it
+      reached, whether the missed-day grace was spent and the rewards paid
+
+  3. Rules
+    - Weekdays pay 100 xenocoins, Sundays pay 1 cash
+    - Every 7th day of a streak pays a 2 cash weekly bonus
+    - A streak survives one missed day, at most once every 7 days
+
+  4. Functions
+    - `checkin_reward` computes the rewards for a day and streak
+    - `daily_checkin` records today's check-in and pays its rewards through
+      the currency ledger
+    - `get_checkin_status` returns the streak and the days claimed this
+      month
+
+  5. Security
+    - Players read their own check-ins; rows are only written by
+      `daily_checkin`
+*/
+
+CREATE TABLE IF NOT EXISTS user_checkins (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  checkin_date date NOT NULL,
+  streak integer NOT NULL DEFAULT 1,
+  grace_used boolean NOT NULL DEFAULT false,
+  rewards jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(user_id, checkin_date)
+);
+
+ALTER TABLE user_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own check-ins"
+  ON user_checkins FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION checkin_reward(p_date date, p_streak integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  reward_xenocoins integer := 0;
+  reward_cash integer := 0;
+BEGIN
+  IF EXTRACT(DOW FROM p_date) = 0 THEN
+    reward_cash := 1;
+  ELSE
+    reward_xenocoins := 100;
+  END IF;
+
+  IF p_streak > 0 AND p_streak % 7 = 0 THEN
+    reward_cash := reward_cash + 2;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'xenocoins', reward_xenocoins,
+    'cash', reward_cash,
+    'weeklyBonus', p_streak > 0 AND p_streak % 7 = 0
+  );
+END;
+$$;
+
+-- Whether a missed day can still be forgiven on p_today
+CREATE OR REPLACE FUNCTION checkin_grace_available(p_user_id uuid, p_today date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM user_checkins
+    WHERE user_id = p_user_id
+      AND grace_used
+      AND checkin_date > p_today - 7
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION daily_checkin(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  today date := (now() AT TIME ZONE 'UTC')::date;
+  last_checkin user_checkins%ROWTYPE;
+  new_streak integer := 1;
+  used_grace boolean := false;
+  reward jsonb;
+  new_checkin_id uuid;
+  profile_record profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- Serialize check-ins of the same player
+  PERFORM 1 FROM profiles WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  SELECT * INTO last_checkin
+  FROM user_checkins
+  WHERE user_id = p_user_id
+  ORDER BY checkin_date DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    IF last_checkin.checkin_date = today THEN
+      RAISE EXCEPTION 'Already checked in today';
+    END IF;
+
+    IF today - last_checkin.checkin_date = 1 THEN
+      new_streak := last_checkin.streak + 1;
+    ELSIF today - last_checkin.checkin_date = 2
+      AND checkin_grace_available(p_user_id, today) THEN
+      new_streak := last_checkin.streak + 1;
+      used_grace := true;
+    END IF;
+  END IF;
+
+  reward := checkin_reward(today, new_streak);
+
+  INSERT INTO user_checkins (user_id, checkin_date, streak, grace_used, rewards)
+  VALUES (p_user_id, today, new_streak, used_grace, reward)
+  RETURNING id INTO new_checkin_id;
+
+  IF (reward->>'xenocoins')::bigint > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'xenocoins', (reward->>'xenocoins')::bigint, 'daily_checkin', new_checkin_id::text);
+  END IF;
+
+  IF (reward->>'cash')::bigint > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'cash', (reward->>'cash')::bigint, 'daily_checkin', new_checkin_id::text);
+  END IF;
+
+  SELECT * INTO profile_record FROM profiles WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'checkinDate', today,
+    'streak', new_streak,
+    'graceUsed', used_grace,
+    'rewards', reward,
+    'xenocoins', profile_record.xenocoins,
+    'cash', profile_record.cash
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_checkin_status(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  today date := (now() AT TIME ZONE 'UTC')::date;
+  last_checkin user_checkins%ROWTYPE;
+  grace_available boolean;
+  current_streak integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  grace_available := checkin_grace_available(p_user_id, today);
+
+  SELECT * INTO last_checkin
+  FROM user_checkins
+  WHERE user_id = p_user_id
+  ORDER BY checkin_date DESC
+  LIMIT 1;
+
+  -- A streak is still alive while today's check-in can extend it
+  IF FOUND AND (
+    today - last_checkin.checkin_date <= 1
+    OR (today - last_checkin.checkin_date = 2 AND grace_available)
+  ) THEN
+    current_streak := last_checkin.streak;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'today', today,
+    'checkedInToday', COALESCE(last_checkin.checkin_date = today, false),
+    'currentStreak', current_streak,
+    'longestStreak', (
+      SELECT COALESCE(MAX(streak), 0) FROM user_checkins WHERE user_id = p_user_id
+    ),
+    'graceAvailable', grace_available,
+    'claimedDates', (
+      SELECT COALESCE(jsonb_agg(checkin_date ORDER BY checkin_date), '[]'::jsonb)
+      FROM user_checkins
+      WHERE user_id = p_user_id
+        AND checkin_date >= date_trunc('month', today)::date
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION checkin_reward TO authenticated;
+GRANT EXECUTE ON FUNCTION daily_checkin TO authenticated;
+GRANT EXECUTE ON FUNCTION get_checkin_status TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION checkin_grace_available FROM PUBLIC;
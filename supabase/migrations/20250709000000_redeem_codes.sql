@@ -0,0 +1,224 @@
+/*
+  # Server-side Redeem Codes
+
+  1. New Tables
+    - `redeem_codes` - codes managed by admins; `max_uses` of -1 means
+      unlimited and `current_uses` is only advanced by `redeem_code`
+    - `redeem_code_redemptions` - one row per player and code, with the
+      rewards that were granted
+
+  2. Rewards
+    - `rewards` uses the client `RedeemCode.rewards` shape:
+      `{"xenocoins", "cash", "accountPoints", "items", "collectibles"}`
+    - `items` entries are item ids or slugs (lowercase name, dashes for
+      spaces); `collectibles` entries are collectible ids or names
+
+  3. Functions
+    - `redeem_code` validates a code and grants all of its rewards in one
+      transaction: the code row is locked, so `max_uses` holds under
+      concurrent redemptions, and the unique redemption row stops a player
+      from redeeming twice. Currency goes through the ledger with reason
+      `redeem_code` and the redemption id as reference; collectibles use
+      `redeem_code_with_collectibles`
+
+  4. Security
+    - Only admins read and manage codes; players redeem through the function
+    - Players read their own redemptions
+
+  5. Seed
+    - The `ALPHA2025` and `WELCOME` codes that used to ship in client state
+*/
+
+CREATE TABLE IF NOT EXISTS redeem_codes (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  code text NOT NULL,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  rewards jsonb NOT NULL DEFAULT '{}',
+  max_uses integer NOT NULL DEFAULT -1 CHECK (max_uses = -1 OR max_uses > 0),
+  current_uses integer NOT NULL DEFAULT 0 CHECK (current_uses >= 0),
+  expires_at timestamptz,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS redeem_codes_code_key ON redeem_codes (upper(code));
+
+CREATE TABLE IF NOT EXISTS redeem_code_redemptions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  code_id uuid REFERENCES redeem_codes(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  rewards jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+
+  UNIQUE(code_id, user_id)
+);
+
+ALTER TABLE redeem_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE redeem_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage redeem codes"
+  ON redeem_codes FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+CREATE POLICY "Users can read own redemptions"
+  ON redeem_code_redemptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can read all redemptions"
+  ON redeem_code_redemptions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+INSERT INTO redeem_codes (code, name, description, rewards, max_uses)
+SELECT 'ALPHA2025', 'Pacote Alpha', 'Recompensas especiais para jogadores alpha',
+  '{"xenocoins": 5000, "cash": 50, "collectibles": ["Ovo Alpha"], "accountPoints": 1000}', 100
+WHERE NOT EXISTS (SELECT 1 FROM redeem_codes WHERE upper(code) = 'ALPHA2025');
+
+INSERT INTO redeem_codes (code, name, description, rewards, max_uses)
+SELECT 'WELCOME', 'Pacote de Boas-vindas', 'Recompensas para novos jogadores',
+  '{"xenocoins": 1000, "cash": 10, "accountPoints": 100}', -1
+WHERE NOT EXISTS (SELECT 1 FROM redeem_codes WHERE upper(code) = 'WELCOME');
+
+CREATE OR REPLACE FUNCTION redeem_code(
+  p_user_id uuid,
+  p_code text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  code_record redeem_codes%ROWTYPE;
+  new_redemption_id uuid;
+  reward_xenocoins bigint;
+  reward_cash bigint;
+  reward_points bigint;
+  reward_entry text;
+  reward_item items%ROWTYPE;
+  existing_stack_id uuid;
+  item_names text[] := '{}';
+  collectible_names text[] := '{}';
+  profile_record profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO code_record
+  FROM redeem_codes
+  WHERE upper(code) = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT code_record.is_active THEN
+    RAISE EXCEPTION 'Invalid code';
+  END IF;
+
+  IF code_record.expires_at IS NOT NULL AND code_record.expires_at <= now() THEN
+    RAISE EXCEPTION 'Code expired';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM redeem_code_redemptions
+    WHERE code_id = code_record.id AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Code already redeemed';
+  END IF;
+
+  IF code_record.max_uses <> -1 AND code_record.current_uses >= code_record.max_uses THEN
+    RAISE EXCEPTION 'Code usage limit reached';
+  END IF;
+
+  INSERT INTO redeem_code_redemptions (code_id, user_id, rewards)
+  VALUES (code_record.id, p_user_id, code_record.rewards)
+  RETURNING id INTO new_redemption_id;
+
+  UPDATE redeem_codes
+  SET current_uses = current_uses + 1
+  WHERE id = code_record.id;
+
+  reward_xenocoins := COALESCE((code_record.rewards->>'xenocoins')::bigint, 0);
+  reward_cash := COALESCE((code_record.rewards->>'cash')::bigint, 0);
+  reward_points := COALESCE((code_record.rewards->>'accountPoints')::bigint, 0);
+
+  IF reward_xenocoins > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'xenocoins', reward_xenocoins, 'redeem_code', new_redemption_id::text);
+  END IF;
+
+  IF reward_cash > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'cash', reward_cash, 'redeem_code', new_redemption_id::text);
+  END IF;
+
+  IF reward_points > 0 THEN
+    PERFORM update_account_score(p_user_id, reward_points, 'redeem_code');
+  END IF;
+
+  IF jsonb_typeof(code_record.rewards->'items') = 'array' THEN
+    FOR reward_entry IN SELECT jsonb_array_elements_text(code_record.rewards->'items')
+    LOOP
+      SELECT * INTO reward_item
+      FROM items
+      WHERE id::text = reward_entry
+        OR lower(regexp_replace(name, '\s+', '-', 'g')) = lower(reward_entry)
+      LIMIT 1;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reward item not found: %', reward_entry;
+      END IF;
+
+      SELECT id INTO existing_stack_id
+      FROM inventory
+      WHERE user_id = p_user_id
+        AND item_id = reward_item.id
+        AND equipped_pet_id IS NULL
+        AND locked_trade_id IS NULL
+      LIMIT 1;
+
+      IF existing_stack_id IS NOT NULL THEN
+        UPDATE inventory SET quantity = quantity + 1 WHERE id = existing_stack_id;
+      ELSE
+        INSERT INTO inventory (user_id, item_id, quantity)
+        VALUES (p_user_id, reward_item.id, 1);
+      END IF;
+
+      item_names := item_names || reward_item.name;
+    END LOOP;
+  END IF;
+
+  IF jsonb_typeof(code_record.rewards->'collectibles') = 'array' THEN
+    SELECT COALESCE(array_agg(COALESCE(collectibles.name, entry.value)), '{}')
+    INTO collectible_names
+    FROM jsonb_array_elements_text(code_record.rewards->'collectibles') AS entry(value)
+    LEFT JOIN collectibles ON collectibles.id::text = entry.value;
+
+    PERFORM redeem_code_with_collectibles(p_user_id, code_record.code, collectible_names);
+  END IF;
+
+  SELECT * INTO profile_record FROM profiles WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'redemptionId', new_redemption_id,
+    'code', code_record.code,
+    'name', code_record.name,
+    'rewards', jsonb_build_object(
+      'xenocoins', reward_xenocoins,
+      'cash', reward_cash,
+      'accountPoints', reward_points,
+      'items', to_jsonb(item_names),
+      'collectibles', to_jsonb(collectible_names)
+    ),
+    'xenocoins', profile_record.xenocoins,
+    'cash', profile_record.cash,
+    'accountScore', profile_record.account_score
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION redeem_code TO authenticated;
+
+-- Collectibles are only granted through redeem_code from now on
+REVOKE EXECUTE ON FUNCTION redeem_code_with_collectibles FROM PUBLIC;
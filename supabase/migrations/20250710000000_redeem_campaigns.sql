@@ -0,0 +1,207 @@
+/*
+  # Redeem Code Campaigns
+
+  1. New Tables
+    - `redeem_campaigns` - a named batch of single-use codes sharing rewards
+      and an expiry; `code_pattern` records how the codes were generated
+
+  2. Changes
+    - `redeem_codes.campaign_id` links a code to its campaign
+    - `redeem_codes.revoked_at` marks codes an admin revoked before use;
+      revoked codes are inactive, so `redeem_code` already rejects them
+
+  3. Functions
+    - `create_redeem_campaign` creates a campaign with its first codes
+    - `add_redeem_campaign_codes` adds codes to a campaign, e.g. from a CSV
+      import; codes that already exist anywhere are skipped and reported
+    - `revoke_redeem_campaign_codes` deactivates the unused codes
+    - `get_redeem_campaigns` lists campaigns with their redemption counts
+
+  4. Security
+    - Campaigns are only read and managed by admins
+*/
+
+CREATE TABLE IF NOT EXISTS redeem_campaigns (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  rewards jsonb NOT NULL DEFAULT '{}',
+  expires_at timestamptz,
+  code_pattern text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE redeem_codes
+  ADD COLUMN IF NOT EXISTS campaign_id uuid REFERENCES redeem_campaigns(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_redeem_codes_campaign ON redeem_codes(campaign_id);
+
+ALTER TABLE redeem_campaigns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage redeem campaigns"
+  ON redeem_campaigns FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+CREATE OR REPLACE FUNCTION add_redeem_campaign_codes(
+  p_campaign_id uuid,
+  p_codes text[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  campaign_record redeem_campaigns%ROWTYPE;
+  requested_count integer;
+  created_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO campaign_record FROM redeem_campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found: %', p_campaign_id;
+  END IF;
+
+  SELECT COUNT(DISTINCT upper(trim(code))) INTO requested_count
+  FROM unnest(p_codes) AS code
+  WHERE trim(code) <> '';
+
+  INSERT INTO redeem_codes (
+    code, name, description, rewards, max_uses, expires_at, created_by, campaign_id
+  )
+  SELECT DISTINCT
+    upper(trim(code)),
+    campaign_record.name,
+    campaign_record.description,
+    campaign_record.rewards,
+    1,
+    campaign_record.expires_at,
+    auth.uid(),
+    campaign_record.id
+  FROM unnest(p_codes) AS code
+  WHERE trim(code) <> ''
+  ON CONFLICT ((upper(code))) DO NOTHING;
+
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'created', created_count,
+    'skipped', requested_count - created_count
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_redeem_campaign(
+  p_name text,
+  p_description text,
+  p_rewards jsonb,
+  p_expires_at timestamptz,
+  p_code_pattern text,
+  p_codes text[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_campaign_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF trim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Campaign name is required';
+  END IF;
+
+  INSERT INTO redeem_campaigns (name, description, rewards, expires_at, code_pattern, created_by)
+  VALUES (trim(p_name), COALESCE(p_description, ''), COALESCE(p_rewards, '{}'), p_expires_at, p_code_pattern, auth.uid())
+  RETURNING id INTO new_campaign_id;
+
+  RETURN jsonb_build_object('campaignId', new_campaign_id)
+    || add_redeem_campaign_codes(new_campaign_id, p_codes);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_redeem_campaign_codes(p_campaign_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  revoked_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- Lock like redeem_code does, so a code is either redeemed or revoked
+  UPDATE redeem_codes
+  SET is_active = false,
+      revoked_at = now()
+  WHERE id IN (
+    SELECT id FROM redeem_codes
+    WHERE campaign_id = p_campaign_id
+      AND current_uses = 0
+      AND revoked_at IS NULL
+    FOR UPDATE
+  );
+
+  GET DIAGNOSTICS revoked_count = ROW_COUNT;
+  RETURN revoked_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_redeem_campaigns()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(summary.campaign ORDER BY summary.created_at DESC), '[]'::jsonb)
+    FROM (
+      SELECT
+        campaign.created_at,
+        jsonb_build_object(
+          'id', campaign.id,
+          'name', campaign.name,
+          'description', campaign.description,
+          'rewards', campaign.rewards,
+          'expiresAt', campaign.expires_at,
+          'codePattern', campaign.code_pattern,
+          'createdBy', campaign.created_by,
+          'createdAt', campaign.created_at,
+          'stats', jsonb_build_object(
+            'total', COUNT(code.id),
+            'redeemed', COUNT(code.id) FILTER (WHERE code.current_uses > 0),
+            'revoked', COUNT(code.id) FILTER (WHERE code.revoked_at IS NOT NULL),
+            'available', COUNT(code.id) FILTER (
+              WHERE code.current_uses = 0
+                AND code.is_active
+                AND (code.expires_at IS NULL OR code.expires_at > now())
+            )
+          )
+        ) AS campaign
+      FROM redeem_campaigns campaign
+      LEFT JOIN redeem_codes code ON code.campaign_id = campaign.id
+      GROUP BY campaign.id
+    ) summary
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION add_redeem_campaign_codes TO authenticated;
+GRANT EXECUTE ON FUNCTION create_redeem_campaign TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_redeem_campaign_codes TO authenticated;
+GRANT EXECUTE ON FUNCTION get_redeem_campaigns TO authenticated;
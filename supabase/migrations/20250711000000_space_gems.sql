@@ -0,0 +1,31 @@
+/*
+  # Space Gems
+
+  1. Changes
+    - `collectibles.type` also accepts `gem`
+
+  2. Data
+    - Gem collectibles dropped by asteroids and hostile creatures on the
+      space map: Cristal Estelar, Rubi Nebular, Safira do Vazio and
+      Diamante Cósmico
+*/
+
+ALTER TABLE collectibles DROP CONSTRAINT IF EXISTS collectibles_type_check;
+ALTER TABLE collectibles ADD CONSTRAINT collectibles_type_check
+  CHECK (type IN ('stone', 'fish', 'egg', 'stamp', 'artwork', 'gem'));
+
+INSERT INTO collectibles (name, type, rarity, description, image_url)
+SELECT 'Cristal Estelar', 'gem', 'Common', 'Um fragmento de cristal arrancado de um asteroide', null
+WHERE NOT EXISTS (SELECT 1 FROM collectibles WHERE name = 'Cristal Estelar');
+
+INSERT INTO collectibles (name, type, rarity, description, image_url)
+SELECT 'Rubi Nebular', 'gem', 'Uncommon', 'Uma pedra vermelha que guarda o brilho de uma nebulosa', null
+WHERE NOT EXISTS (SELECT 1 FROM collectibles WHERE name = 'Rubi Nebular');
+
+INSERT INTO collectibles (name, type, rarity, description, image_url)
+SELECT 'Safira do Vazio', 'gem', 'Rare', 'Uma safira escura encontrada nas criaturas do espaço profundo', null
+WHERE NOT EXISTS (SELECT 1 FROM collectibles WHERE name = 'Safira do Vazio');
+
+INSERT INTO collectibles (name, type, rarity, description, image_url)
+SELECT 'Diamante Cósmico', 'gem', 'Epic', 'Um diamante raríssimo formado no coração de uma estrela', null
+WHERE NOT EXISTS (SELECT 1 FROM collectibles WHERE name = 'Diamante Cósmico');
@@ -0,0 +1,149 @@
+/*
+  # World Layout Versions
+
+  1. New Tables
+    - `world_layout_versions` - numbered snapshots of every world's position,
+      size and rotation, one per save of the world editor
+
+  2. Functions
+    - `save_world_layout` applies a batch of world edits in one transaction
+      and records the resulting layout as a new version. The first save also
+      records the layout it started from, so that one can be restored too
+    - `rollback_world_layout` puts the worlds back as an earlier version had
+      them and records the result as a new version, so a rollback can itself
+      be rolled back
+
+  3. Security
+    - Versions are only read by admins and only written by the functions
+*/
+
+CREATE TABLE IF NOT EXISTS world_layout_versions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  version integer NOT NULL UNIQUE,
+  note text NOT NULL DEFAULT '',
+  layout jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE world_layout_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read world layout versions"
+  ON world_layout_versions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true));
+
+-- Records the current layout as the next version
+CREATE OR REPLACE FUNCTION record_world_layout(p_note text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  -- Saves from two admins get consecutive versions instead of clashing
+  LOCK TABLE world_layout_versions IN EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO new_version
+  FROM world_layout_versions;
+
+  INSERT INTO world_layout_versions (version, note, layout, created_by)
+  SELECT
+    new_version,
+    COALESCE(p_note, ''),
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object('id', id, 'x', x, 'y', y, 'size', size, 'rotation', rotation)
+        ORDER BY id
+      ),
+      '[]'::jsonb
+    ),
+    auth.uid()
+  FROM world_positions;
+
+  RETURN new_version;
+END;
+$$;
+
+-- Moves, resizes and rotates worlds; p_layout holds {id, x, y, size, rotation}
+CREATE OR REPLACE FUNCTION apply_world_layout(p_layout jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  world jsonb;
+BEGIN
+  FOR world IN SELECT * FROM jsonb_array_elements(COALESCE(p_layout, '[]'::jsonb))
+  LOOP
+    UPDATE world_positions
+    SET x = COALESCE((world->>'x')::real, x),
+        y = COALESCE((world->>'y')::real, y),
+        size = GREATEST(20, LEAST(1000, COALESCE((world->>'size')::real, size))),
+        rotation = COALESCE((world->>'rotation')::real, rotation)
+    WHERE id = world->>'id';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'World not found: %', world->>'id';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_world_layout(p_changes jsonb, p_note text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_changes, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'No world changes to save';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM world_layout_versions) THEN
+    PERFORM record_world_layout('Initial layout');
+  END IF;
+
+  PERFORM apply_world_layout(p_changes);
+  RETURN record_world_layout(p_note);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rollback_world_layout(p_version integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  snapshot jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT layout INTO snapshot FROM world_layout_versions WHERE version = p_version;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Layout version not found: %', p_version;
+  END IF;
+
+  -- Worlds added after the snapshot keep their place
+  PERFORM apply_world_layout(
+    (SELECT COALESCE(jsonb_agg(world), '[]'::jsonb)
+     FROM jsonb_array_elements(snapshot) AS world
+     WHERE EXISTS (SELECT 1 FROM world_positions WHERE id = world->>'id'))
+  );
+
+  RETURN record_world_layout('Rollback to version ' || p_version);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_world_layout TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_world_layout TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION record_world_layout FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION apply_world_layout FROM PUBLIC;
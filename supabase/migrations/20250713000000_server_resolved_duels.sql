@@ -0,0 +1,682 @@
+/*
+  # Server-Resolved Duels
+
+  Duels were resolved by the client, which sent the winner and the battle
+  log to `complete_duel`, and wagers were only charged once the duel ended,
+  so a loser without funds left the duel stuck in `accepted`.
+
+  1. Changes
+    - `duels.status` gains `cancelled` for challenges withdrawn by the
+      challenger
+    - Wagers are held in escrow: the challenger pays when challenging and the
+      opponent when accepting. The winner receives both stakes; a draw, a
+      declined or a cancelled challenge refunds them
+
+  2. Functions
+    - `duel_combat_stats` and `resolve_duel` port `src/utils/duelEngine.ts`
+      (effective stats, seeded mulberry32 rolls, turn order, conditions), so
+      the server produces the same battle log for the same duel id
+    - `create_duel` validates the challenge, escrows the wager and notifies
+      the opponent
+    - `accept_duel` sets the opponent's pet and escrows their stake
+    - `cancel_duel` withdraws (challenger) or declines (opponent) a pending
+      challenge and refunds the challenger
+    - `complete_duel` only takes the duel id and resolves the duel itself
+
+  3. Security
+    - Players can only read their duels; every change goes through the
+      functions above
+*/
+
+ALTER TABLE duels DROP CONSTRAINT IF EXISTS duels_status_check;
+ALTER TABLE duels ADD CONSTRAINT duels_status_check
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled', 'in_progress', 'completed'));
+
+DROP POLICY IF EXISTS "Users can manage own duels" ON duels;
+
+CREATE POLICY "Users can read own duels"
+  ON duels FOR SELECT
+  TO authenticated
+  USING (challenger_id = auth.uid() OR opponent_id = auth.uid());
+
+-- 32-bit unsigned multiplication (JavaScript's Math.imul) on bigint
+CREATE OR REPLACE FUNCTION duel_imul(a bigint, b bigint)
+RETURNS bigint
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ((a * (b & 65535)) + (((a * (b >> 16)) & 65535) << 16)) & 4294967295;
+$$;
+
+-- FNV-1a hash of the seed, like `hashSeed` in src/utils/random.ts
+CREATE OR REPLACE FUNCTION duel_seed(p_seed text)
+RETURNS bigint
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  hash bigint := 2166136261;
+  i integer;
+BEGIN
+  FOR i IN 1..length(p_seed) LOOP
+    hash := duel_imul(hash # ascii(substr(p_seed, i, 1))::bigint, 16777619);
+  END LOOP;
+
+  RETURN hash;
+END;
+$$;
+
+-- One mulberry32 step: advances the state and returns a float in [0, 1)
+CREATE OR REPLACE FUNCTION duel_random(INOUT p_state bigint, OUT p_value float8)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  t bigint;
+BEGIN
+  p_state := (p_state + 1831565813) & 4294967295;
+  t := p_state;
+  t := duel_imul(t # (t >> 15), t | 1);
+  t := t # ((t + duel_imul(t # (t >> 7), t | 61)) & 4294967295);
+  p_value := (t # (t >> 14))::float8 / 4294967296;
+END;
+$$;
+
+-- Numeric value of a stat in an effects object (0 when missing)
+CREATE OR REPLACE FUNCTION duel_stat(p_stats jsonb, p_key text)
+RETURNS float8
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_stats -> p_key) = 'number' THEN (p_stats ->> p_key)::float8
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION duel_add_effects(
+  p_stats jsonb,
+  p_effects jsonb,
+  p_multiplier float8 DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  stat_key text;
+BEGIN
+  FOREACH stat_key IN ARRAY ARRAY['health', 'strength', 'dexterity', 'intelligence', 'speed',
+    'attack', 'defense', 'precision', 'evasion', 'luck']
+  LOOP
+    IF jsonb_typeof(p_effects -> stat_key) = 'number' THEN
+      p_stats := jsonb_set(
+        p_stats,
+        ARRAY[stat_key],
+        to_jsonb(duel_stat(p_stats, stat_key) + duel_stat(p_effects, stat_key) * p_multiplier)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN p_stats;
+END;
+$$;
+
+/*
+  Combat profile of a pet, built like `getEffectiveStats` and
+  `getCombatStats`: base stats, equipped slot items, rarity set bonus,
+  active conditions and the weapon with its scaling stat.
+*/
+CREATE OR REPLACE FUNCTION duel_combat_stats(p_pet_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  pet_record pets%ROWTYPE;
+  total jsonb;
+  equipment jsonb := '{}'::jsonb;
+  conditions jsonb := '{}'::jsonb;
+  weapon jsonb := '{}'::jsonb;
+  weapon_effects jsonb;
+  scaling_stat text := 'strength';
+  candidate text;
+  set_rarity text;
+  set_pieces integer;
+  condition_types jsonb;
+  stat_key text;
+  item_effects jsonb;
+BEGIN
+  SELECT * INTO pet_record FROM pets WHERE id = p_pet_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duel pets not found';
+  END IF;
+
+  total := jsonb_build_object(
+    'health', pet_record.health,
+    'strength', pet_record.strength,
+    'dexterity', pet_record.dexterity,
+    'intelligence', pet_record.intelligence,
+    'speed', pet_record.speed,
+    'attack', pet_record.attack,
+    'defense', pet_record.defense,
+    'precision', pet_record.precision,
+    'evasion', pet_record.evasion,
+    'luck', pet_record.luck
+  );
+
+  FOR item_effects IN
+    SELECT i.effects
+    FROM inventory inv
+    JOIN items i ON i.id = inv.item_id
+    WHERE inv.equipped_pet_id = p_pet_id
+      AND i.slot IN ('head', 'torso', 'legs', 'gloves', 'footwear')
+  LOOP
+    equipment := duel_add_effects(equipment, item_effects);
+  END LOOP;
+
+  -- With five slots at most one rarity can reach three pieces
+  SELECT i.rarity, count(*) INTO set_rarity, set_pieces
+  FROM inventory inv
+  JOIN items i ON i.id = inv.item_id
+  WHERE inv.equipped_pet_id = p_pet_id
+    AND i.slot IN ('head', 'torso', 'legs', 'gloves', 'footwear')
+  GROUP BY i.rarity
+  HAVING count(*) >= 3;
+
+  FOR item_effects IN
+    SELECT effects FROM pet_conditions
+    WHERE pet_id = p_pet_id
+      AND (expires_at IS NULL OR expires_at > now())
+  LOOP
+    conditions := duel_add_effects(conditions, item_effects);
+  END LOOP;
+
+  total := duel_add_effects(total, equipment);
+
+  IF set_rarity IS NOT NULL THEN
+    total := duel_add_effects(
+      total,
+      (CASE set_rarity
+        WHEN 'Common' THEN '{"defense": 1}'
+        WHEN 'Uncommon' THEN '{"attack": 1, "defense": 1}'
+        WHEN 'Rare' THEN '{"attack": 2, "defense": 2}'
+        WHEN 'Epic' THEN '{"attack": 2, "defense": 2, "speed": 1}'
+        WHEN 'Legendary' THEN '{"attack": 3, "defense": 3, "speed": 2}'
+        ELSE '{"attack": 3, "defense": 3, "speed": 2, "luck": 2}'
+      END)::jsonb,
+      CASE WHEN set_pieces >= 5 THEN 2 ELSE 1 END
+    );
+  END IF;
+
+  total := duel_add_effects(total, conditions);
+
+  SELECT i.effects INTO weapon_effects
+  FROM inventory inv
+  JOIN items i ON i.id = inv.item_id
+  WHERE inv.equipped_pet_id = p_pet_id
+    AND i.slot = 'weapon'
+  LIMIT 1;
+
+  IF FOUND THEN
+    weapon_effects := COALESCE(weapon_effects, '{}'::jsonb);
+
+    FOREACH candidate IN ARRAY ARRAY['strength', 'dexterity', 'intelligence'] LOOP
+      IF duel_stat(weapon_effects, candidate) > 0
+        AND duel_stat(weapon_effects, candidate) > duel_stat(weapon_effects, scaling_stat) THEN
+        scaling_stat := candidate;
+      END IF;
+    END LOOP;
+
+    weapon := duel_add_effects(weapon, weapon_effects);
+    weapon := jsonb_set(
+      weapon,
+      '{attack}',
+      to_jsonb(
+        duel_stat(weapon, 'attack')
+        + GREATEST(0, duel_stat(total, scaling_stat) + duel_stat(weapon, scaling_stat)) * 0.5::float8
+      )
+    );
+  END IF;
+
+  total := duel_add_effects(total, weapon);
+
+  FOREACH stat_key IN ARRAY ARRAY['health', 'strength', 'dexterity', 'intelligence', 'speed',
+    'attack', 'defense', 'precision', 'evasion', 'luck']
+  LOOP
+    total := jsonb_set(total, ARRAY[stat_key], to_jsonb(GREATEST(0, duel_stat(total, stat_key))));
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(type), '[]'::jsonb) INTO condition_types
+  FROM pet_conditions
+  WHERE pet_id = p_pet_id
+    AND (expires_at IS NULL OR expires_at > now());
+
+  RETURN jsonb_build_object(
+    'petId', pet_record.id,
+    'name', pet_record.name,
+    -- Math.round: halves round up
+    'maxHp', floor(40 + duel_stat(total, 'health') * 4 + duel_stat(total, 'defense') * 2 + 0.5::float8)::integer,
+    'attack', duel_stat(total, 'attack'),
+    'defense', duel_stat(total, 'defense'),
+    'precision', duel_stat(total, 'precision'),
+    'evasion', duel_stat(total, 'evasion'),
+    'speed', duel_stat(total, 'speed'),
+    'luck', duel_stat(total, 'luck'),
+    'conditions', condition_types
+  );
+END;
+$$;
+
+/*
+  Resolves a duel between two pets, seeded by the duel id. Returns
+  `{"rounds": [...], "winnerPetId": uuid | null}`; every roll is drawn in
+  the same order as `resolveDuel` so both produce the same log.
+*/
+CREATE OR REPLACE FUNCTION resolve_duel(
+  p_seed text,
+  p_challenger_pet_id uuid,
+  p_opponent_pet_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  max_rounds CONSTANT integer := 20;
+  base_hit_chance CONSTANT float8 := 0.75;
+  hit_chance_per_point CONSTANT float8 := 0.03;
+  min_hit_chance CONSTANT float8 := 0.2;
+  max_hit_chance CONSTANT float8 := 0.95;
+  base_crit_chance CONSTANT float8 := 0.05;
+  crit_chance_per_luck CONSTANT float8 := 0.01;
+  max_crit_chance CONSTANT float8 := 0.5;
+  crit_multiplier CONSTANT float8 := 1.5;
+  defense_mitigation CONSTANT float8 := 0.5;
+  min_damage CONSTANT float8 := 1;
+  damage_variance CONSTANT float8 := 0.15;
+  paralysis_skip_chance CONSTANT float8 := 0.25;
+  poison_damage_per_round CONSTANT integer := 2;
+  cold_skip_chance CONSTANT float8 := 0.1;
+
+  rng_state bigint := duel_seed(p_seed);
+  roll float8;
+  challenger jsonb := duel_combat_stats(p_challenger_pet_id);
+  opponent jsonb := duel_combat_stats(p_opponent_pet_id);
+  -- Fighters in turn order; hp follows the same indexes
+  fighters jsonb[];
+  hp integer[];
+  challenger_index integer;
+  attacker jsonb;
+  defender jsonb;
+  attacker_index integer;
+  defender_index integer;
+  round_number integer;
+  rounds jsonb := '[]'::jsonb;
+  actions jsonb;
+  skip_message text;
+  hit_chance float8;
+  crit_chance float8;
+  is_critical boolean;
+  raw_damage float8;
+  damage integer;
+  challenger_ratio float8;
+  opponent_ratio float8;
+  winner_pet_id uuid;
+BEGIN
+  IF (challenger ->> 'speed')::float8 <> (opponent ->> 'speed')::float8 THEN
+    challenger_index := CASE WHEN (challenger ->> 'speed')::float8 > (opponent ->> 'speed')::float8 THEN 1 ELSE 2 END;
+  ELSIF (challenger ->> 'luck')::float8 <> (opponent ->> 'luck')::float8 THEN
+    challenger_index := CASE WHEN (challenger ->> 'luck')::float8 > (opponent ->> 'luck')::float8 THEN 1 ELSE 2 END;
+  ELSE
+    SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+    challenger_index := CASE WHEN roll < 0.5::float8 THEN 1 ELSE 2 END;
+  END IF;
+
+  IF challenger_index = 1 THEN
+    fighters := ARRAY[challenger, opponent];
+  ELSE
+    fighters := ARRAY[opponent, challenger];
+  END IF;
+  hp := ARRAY[(fighters[1] ->> 'maxHp')::integer, (fighters[2] ->> 'maxHp')::integer];
+
+  FOR round_number IN 1..max_rounds LOOP
+    EXIT WHEN hp[1] <= 0 OR hp[2] <= 0;
+
+    actions := '[]'::jsonb;
+
+    FOREACH attacker_index IN ARRAY ARRAY[1, 2] LOOP
+      defender_index := 3 - attacker_index;
+      EXIT WHEN hp[attacker_index] <= 0 OR hp[defender_index] <= 0;
+
+      attacker := fighters[attacker_index];
+      defender := fighters[defender_index];
+      skip_message := NULL;
+
+      IF (attacker -> 'conditions') ? 'frozen' AND round_number = 1 THEN
+        skip_message := format('%s está congelado e não consegue agir!', attacker ->> 'name');
+      END IF;
+
+      IF skip_message IS NULL AND (attacker -> 'conditions') ? 'paralyzed' THEN
+        SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+        IF roll < paralysis_skip_chance THEN
+          skip_message := format('%s está paralisado!', attacker ->> 'name');
+        END IF;
+      END IF;
+
+      IF skip_message IS NULL AND (attacker -> 'conditions') ? 'cold' THEN
+        SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+        IF roll < cold_skip_chance THEN
+          skip_message := format('%s treme de frio e perde o turno.', attacker ->> 'name');
+        END IF;
+      END IF;
+
+      IF skip_message IS NOT NULL THEN
+        actions := actions || jsonb_build_array(jsonb_build_object(
+          'actorPetId', attacker ->> 'petId',
+          'targetPetId', defender ->> 'petId',
+          'type', 'skip',
+          'damage', 0,
+          'targetHp', hp[defender_index],
+          'message', skip_message
+        ));
+        CONTINUE;
+      END IF;
+
+      hit_chance := GREATEST(min_hit_chance, LEAST(max_hit_chance,
+        base_hit_chance
+        + ((attacker ->> 'precision')::float8 - (defender ->> 'evasion')::float8) * hit_chance_per_point
+      ));
+
+      SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+      IF NOT roll < hit_chance THEN
+        actions := actions || jsonb_build_array(jsonb_build_object(
+          'actorPetId', attacker ->> 'petId',
+          'targetPetId', defender ->> 'petId',
+          'type', 'miss',
+          'damage', 0,
+          'targetHp', hp[defender_index],
+          'message', format('%s desviou do ataque de %s!', defender ->> 'name', attacker ->> 'name')
+        ));
+        CONTINUE;
+      END IF;
+
+      crit_chance := GREATEST(0, LEAST(max_crit_chance,
+        base_crit_chance + (attacker ->> 'luck')::float8 * crit_chance_per_luck
+      ));
+      SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+      is_critical := roll < crit_chance;
+
+      SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+      raw_damage := GREATEST(min_damage,
+          (attacker ->> 'attack')::float8 - (defender ->> 'defense')::float8 * defense_mitigation
+        )
+        * ((1 - damage_variance) + roll * ((1 + damage_variance) - (1 - damage_variance)))
+        * CASE WHEN is_critical THEN crit_multiplier ELSE 1 END;
+      damage := GREATEST(min_damage, floor(raw_damage + 0.5::float8))::integer;
+
+      hp[defender_index] := GREATEST(0, hp[defender_index] - damage);
+
+      actions := actions || jsonb_build_array(jsonb_build_object(
+        'actorPetId', attacker ->> 'petId',
+        'targetPetId', defender ->> 'petId',
+        'type', CASE WHEN is_critical THEN 'critical' ELSE 'hit' END,
+        'damage', damage,
+        'targetHp', hp[defender_index],
+        'message', CASE
+          WHEN is_critical THEN format('Golpe crítico! %s causou %s de dano em %s.',
+            attacker ->> 'name', damage, defender ->> 'name')
+          ELSE format('%s causou %s de dano em %s.', attacker ->> 'name', damage, defender ->> 'name')
+        END
+      ));
+    END LOOP;
+
+    FOREACH attacker_index IN ARRAY ARRAY[1, 2] LOOP
+      attacker := fighters[attacker_index];
+
+      IF (attacker -> 'conditions') ? 'poisoned' AND hp[attacker_index] > 0 THEN
+        hp[attacker_index] := GREATEST(0, hp[attacker_index] - poison_damage_per_round);
+
+        actions := actions || jsonb_build_array(jsonb_build_object(
+          'actorPetId', attacker ->> 'petId',
+          'targetPetId', attacker ->> 'petId',
+          'type', 'condition',
+          'damage', poison_damage_per_round,
+          'targetHp', hp[attacker_index],
+          'message', format('%s sofre %s de dano do veneno.', attacker ->> 'name', poison_damage_per_round)
+        ));
+      END IF;
+    END LOOP;
+
+    rounds := rounds || jsonb_build_array(jsonb_build_object('round', round_number, 'actions', actions));
+  END LOOP;
+
+  -- Knockout wins; otherwise the pet with the larger share of its HP left wins
+  challenger_ratio := hp[challenger_index]::float8 / (challenger ->> 'maxHp')::float8;
+  opponent_ratio := hp[3 - challenger_index]::float8 / (opponent ->> 'maxHp')::float8;
+
+  IF challenger_ratio > opponent_ratio THEN
+    winner_pet_id := p_challenger_pet_id;
+  ELSIF opponent_ratio > challenger_ratio THEN
+    winner_pet_id := p_opponent_pet_id;
+  END IF;
+
+  RETURN jsonb_build_object('rounds', rounds, 'winnerPetId', winner_pet_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_duel(
+  p_challenger_id uuid,
+  p_opponent_id uuid,
+  p_pet_id uuid,
+  p_xenocoins_wagered bigint DEFAULT 0
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_duel_id uuid;
+  opponent_preferences jsonb;
+  pet_record pets%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_challenger_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_challenger_id = p_opponent_id THEN
+    RAISE EXCEPTION 'Cannot duel yourself';
+  END IF;
+
+  IF p_xenocoins_wagered < 0 THEN
+    RAISE EXCEPTION 'Invalid wager';
+  END IF;
+
+  SELECT preferences INTO opponent_preferences FROM profiles WHERE id = p_opponent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Opponent not found';
+  END IF;
+
+  IF (opponent_preferences->'privacy'->>'allowDuels') = 'false' THEN
+    RAISE EXCEPTION 'Opponent is not accepting duels';
+  END IF;
+
+  SELECT * INTO pet_record FROM pets WHERE id = p_pet_id;
+  IF NOT FOUND OR pet_record.owner_id <> p_challenger_id THEN
+    RAISE EXCEPTION 'Pet not found';
+  END IF;
+
+  IF NOT pet_record.is_alive THEN
+    RAISE EXCEPTION 'Pet cannot duel';
+  END IF;
+
+  INSERT INTO duels (challenger_id, opponent_id, challenger_pet_id, xenocoins_wagered)
+  VALUES (p_challenger_id, p_opponent_id, p_pet_id, p_xenocoins_wagered)
+  RETURNING id INTO new_duel_id;
+
+  IF p_xenocoins_wagered > 0 THEN
+    PERFORM update_user_currency(p_challenger_id, 'xenocoins', -p_xenocoins_wagered, 'duel_escrow', new_duel_id::text);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message)
+  VALUES (p_opponent_id, 'info', 'Novo desafio de duelo!', format('%s desafiou você para um duelo.', pet_record.name));
+
+  RETURN new_duel_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_duel(
+  p_duel_id uuid,
+  p_user_id uuid,
+  p_pet_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  duel_record duels%ROWTYPE;
+  pet_record pets%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO duel_record FROM duels WHERE id = p_duel_id FOR UPDATE;
+
+  IF NOT FOUND OR duel_record.opponent_id <> p_user_id THEN
+    RAISE EXCEPTION 'Duel not found';
+  END IF;
+
+  IF duel_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Duel was already answered';
+  END IF;
+
+  SELECT * INTO pet_record FROM pets WHERE id = p_pet_id;
+  IF NOT FOUND OR pet_record.owner_id <> p_user_id THEN
+    RAISE EXCEPTION 'Pet not found';
+  END IF;
+
+  IF NOT pet_record.is_alive THEN
+    RAISE EXCEPTION 'Pet cannot duel';
+  END IF;
+
+  IF duel_record.xenocoins_wagered > 0 THEN
+    PERFORM update_user_currency(p_user_id, 'xenocoins', -duel_record.xenocoins_wagered, 'duel_escrow', p_duel_id::text);
+  END IF;
+
+  UPDATE duels
+  SET status = 'accepted',
+      opponent_pet_id = p_pet_id
+  WHERE id = p_duel_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_duel(
+  p_duel_id uuid,
+  p_user_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  duel_record duels%ROWTYPE;
+  new_status text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO duel_record FROM duels WHERE id = p_duel_id FOR UPDATE;
+
+  IF NOT FOUND OR p_user_id NOT IN (duel_record.challenger_id, duel_record.opponent_id) THEN
+    RAISE EXCEPTION 'Duel not found';
+  END IF;
+
+  IF duel_record.status <> 'pending' THEN
+    RAISE EXCEPTION 'Duel was already answered';
+  END IF;
+
+  IF duel_record.xenocoins_wagered > 0 THEN
+    PERFORM update_user_currency(duel_record.challenger_id, 'xenocoins', duel_record.xenocoins_wagered, 'duel_refund', p_duel_id::text);
+  END IF;
+
+  IF p_user_id = duel_record.opponent_id THEN
+    new_status := 'rejected';
+  ELSE
+    new_status := 'cancelled';
+  END IF;
+
+  UPDATE duels SET status = new_status WHERE id = p_duel_id;
+
+  RETURN new_status;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS complete_duel(uuid, uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION complete_duel(p_duel_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  duel_record duels%ROWTYPE;
+  outcome jsonb;
+  winner_user_id uuid;
+BEGIN
+  -- Lock the duel so it can only be completed once
+  SELECT * INTO duel_record FROM duels WHERE id = p_duel_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Duel not found: %', p_duel_id;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() NOT IN (duel_record.challenger_id, duel_record.opponent_id) THEN
+    RAISE EXCEPTION 'Not a participant of this duel';
+  END IF;
+
+  IF duel_record.status NOT IN ('accepted', 'in_progress') THEN
+    RAISE EXCEPTION 'Duel cannot be completed from status: %', duel_record.status;
+  END IF;
+
+  outcome := resolve_duel(p_duel_id::text, duel_record.challenger_pet_id, duel_record.opponent_pet_id);
+
+  IF (outcome->>'winnerPetId')::uuid = duel_record.challenger_pet_id THEN
+    winner_user_id := duel_record.challenger_id;
+  ELSIF (outcome->>'winnerPetId')::uuid = duel_record.opponent_pet_id THEN
+    winner_user_id := duel_record.opponent_id;
+  END IF;
+
+  -- Both stakes are in escrow: the winner takes them, a draw returns them
+  IF duel_record.xenocoins_wagered > 0 THEN
+    IF winner_user_id IS NOT NULL THEN
+      PERFORM update_user_currency(winner_user_id, 'xenocoins', duel_record.xenocoins_wagered * 2, 'duel_won', p_duel_id::text);
+    ELSE
+      PERFORM update_user_currency(duel_record.challenger_id, 'xenocoins', duel_record.xenocoins_wagered, 'duel_refund', p_duel_id::text);
+      PERFORM update_user_currency(duel_record.opponent_id, 'xenocoins', duel_record.xenocoins_wagered, 'duel_refund', p_duel_id::text);
+    END IF;
+  END IF;
+
+  UPDATE duels
+  SET status = 'completed',
+      winner_id = winner_user_id,
+      battle_log = outcome->'rounds',
+      completed_at = now()
+  WHERE id = p_duel_id;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_duel TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_duel TO authenticated;
+
+-- Resolver helpers are internal to the duel functions
+REVOKE EXECUTE ON FUNCTION duel_combat_stats FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION resolve_duel FROM PUBLIC;
@@ -0,0 +1,44 @@
+/*
+  # Trade Policies
+
+  The baseline `FOR ALL` policies let trade participants rewrite the amounts,
+  items and status of a trade, and let owners clear
+  `inventory.locked_trade_id` to free an item held in escrow.
+
+  1. Security
+    - Participants can only read their trades; every change goes through
+      `create_trade`, `confirm_trade` and `cancel_trade`
+    - The inventory owner policy is split per operation: owners can only
+      insert, update or delete rows that are not locked by a trade, and can
+      never set or clear `locked_trade_id` themselves
+*/
+
+DROP POLICY IF EXISTS "Users can manage own trades" ON trades;
+
+CREATE POLICY "Users can read own trades"
+  ON trades FOR SELECT
+  TO authenticated
+  USING (initiator_id = auth.uid() OR recipient_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can manage own inventory" ON inventory;
+
+CREATE POLICY "Users can read own inventory"
+  ON inventory FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add to own inventory"
+  ON inventory FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND locked_trade_id IS NULL);
+
+CREATE POLICY "Users can update own unlocked inventory"
+  ON inventory FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() AND locked_trade_id IS NULL)
+  WITH CHECK (user_id = auth.uid() AND locked_trade_id IS NULL);
+
+CREATE POLICY "Users can delete own unlocked inventory"
+  ON inventory FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() AND locked_trade_id IS NULL);
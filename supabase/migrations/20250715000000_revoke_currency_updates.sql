@@ -0,0 +1,14 @@
+/*
+  # Revoke Direct Currency Updates
+
+  `update_user_currency` was granted to `authenticated`, so any player could
+  credit themselves through `rpc` with an arbitrary amount and reason.
+
+  1. Security
+    - `update_user_currency` can no longer be called by clients; balances
+      only change through the SECURITY DEFINER flows that call it (shop
+      purchases, trades, duels, check-ins, codes, progression rewards and
+      `admin_adjust_currency`)
+*/
+
+REVOKE EXECUTE ON FUNCTION update_user_currency FROM PUBLIC, anon, authenticated;
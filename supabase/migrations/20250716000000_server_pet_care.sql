@@ -0,0 +1,344 @@
+/*
+  # Server-Side Pet Care
+
+  Pet decay was computed by the client and written back through the owner
+  policy on `pets`, so any client could set its pets' care stats. The
+  client also re-based the snapshot on the rounded values it displays,
+  dropping the fractional decay of every hour, and stored the conditions a
+  neglected pet caught on every read, so each page load added another
+  `sick` row.
+
+  1. Changes
+    - `hunger`, `happiness` and `health` hold the exact care values instead
+      of the rounded ones the screens show
+    - `care_updated_at` is the hour those values describe, and
+      `low_health_ticks` / `zero_health_ticks` carry how many hours in a row
+      the pet has been sick-prone or dying, so advancing the snapshot never
+      resets a streak
+    - Duplicate conditions left by the client are removed, and a pet can
+      only catch one condition of a type at a given moment
+
+  2. Functions
+    - `refresh_pet_care` ports `src/utils/petDecay.ts`: it advances a pet's
+      snapshot to the last whole hour, stores the conditions it caught and
+      marks it dead when it starved. Evaluating only moves the snapshot along
+      the clock, so anyone who can read a pet may refresh it
+    - `refresh_user_pets_care` refreshes every living pet of a player
+    - `use_pet_item` applies an item's effects to a refreshed pet and
+      consumes one item from the stack
+
+  3. Security
+    - Players can create pets but no longer update them; care stats only
+      change through the functions above
+    - A new pet always starts its care snapshot at creation
+    - Players can only read the conditions of their pets
+*/
+
+ALTER TABLE pets ALTER COLUMN hunger TYPE double precision;
+ALTER TABLE pets ALTER COLUMN happiness TYPE double precision;
+ALTER TABLE pets ALTER COLUMN health TYPE double precision;
+
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS care_updated_at timestamptz DEFAULT now();
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS low_health_ticks integer NOT NULL DEFAULT 0;
+ALTER TABLE pets ADD COLUMN IF NOT EXISTS zero_health_ticks integer NOT NULL DEFAULT 0;
+
+UPDATE pets
+SET care_updated_at = GREATEST(last_interaction, COALESCE(hatch_time, last_interaction));
+
+ALTER TABLE pets ALTER COLUMN care_updated_at SET NOT NULL;
+
+DELETE FROM pet_conditions duplicate
+USING pet_conditions original
+WHERE duplicate.pet_id = original.pet_id
+  AND duplicate.type = original.type
+  AND duplicate.applied_at = original.applied_at
+  AND duplicate.id > original.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS pet_conditions_pet_type_applied_key
+  ON pet_conditions (pet_id, type, applied_at);
+
+DROP POLICY IF EXISTS "Users can manage own pets" ON pets;
+
+CREATE POLICY "Users can create own pets"
+  ON pets FOR INSERT
+  TO authenticated
+  WITH CHECK (owner_id = auth.uid());
+
+-- The care snapshot columns keep their defaults on insert
+REVOKE INSERT ON pets FROM anon, authenticated;
+GRANT INSERT (
+  owner_id, name, species, style, personality,
+  happiness, health, hunger,
+  strength, dexterity, intelligence, speed,
+  attack, defense, precision, evasion, luck,
+  is_active, image_url, hatch_time, last_interaction
+) ON pets TO authenticated;
+
+DROP POLICY IF EXISTS "Users can manage own pet conditions" ON pet_conditions;
+
+CREATE POLICY "Users can read own pet conditions"
+  ON pet_conditions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM pets
+      WHERE id = pet_conditions.pet_id AND owner_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION refresh_pet_care(p_pet_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  pet_record pets%ROWTYPE;
+  condition_record record;
+  anchor timestamptz;
+  tick_time timestamptz;
+  elapsed_ticks integer;
+  tick integer;
+  care_hunger double precision;
+  care_happiness double precision;
+  care_health double precision;
+  low_ticks integer;
+  zero_ticks integer;
+  base_hunger double precision;
+  base_happiness double precision;
+  base_health double precision;
+  hunger_modifier double precision;
+  happiness_modifier double precision;
+  health_modifier double precision;
+  happiness_loss double precision;
+  health_loss double precision;
+  is_sick boolean;
+BEGIN
+  SELECT * INTO pet_record FROM pets WHERE id = p_pet_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT pet_record.is_alive THEN
+    RETURN;
+  END IF;
+
+  -- Eggs start decaying once they hatch
+  anchor := GREATEST(pet_record.care_updated_at, COALESCE(pet_record.hatch_time, pet_record.care_updated_at));
+  elapsed_ticks := LEAST(24 * 60, GREATEST(0, floor(extract(epoch FROM now() - anchor) / 3600)::integer));
+
+  IF elapsed_ticks = 0 THEN
+    RETURN;
+  END IF;
+
+  base_hunger := CASE pet_record.species
+    WHEN 'Dragon' THEN 1.25 WHEN 'Griffin' THEN 1.1 WHEN 'Unicorn' THEN 0.85 ELSE 1.0 END;
+  base_happiness := CASE pet_record.species
+    WHEN 'Dragon' THEN 0.9 WHEN 'Griffin' THEN 1.1 WHEN 'Unicorn' THEN 1.2 ELSE 1.0 END;
+  base_health := CASE pet_record.species
+    WHEN 'Dragon' THEN 0.85 WHEN 'Phoenix' THEN 0.75 ELSE 1.0 END;
+
+  base_hunger := base_hunger * CASE pet_record.personality
+    WHEN 'Choleric' THEN 1.15 WHEN 'Melancholic' THEN 0.9 WHEN 'Phlegmatic' THEN 0.9 ELSE 1.0 END;
+  base_happiness := base_happiness * CASE pet_record.personality
+    WHEN 'Sanguine' THEN 0.8 WHEN 'Choleric' THEN 1.1 WHEN 'Melancholic' THEN 1.3 WHEN 'Phlegmatic' THEN 0.9 ELSE 1.0 END;
+  base_health := base_health * CASE pet_record.personality
+    WHEN 'Phlegmatic' THEN 0.9 ELSE 1.0 END;
+
+  care_hunger := LEAST(10, GREATEST(0, pet_record.hunger));
+  care_happiness := LEAST(10, GREATEST(0, pet_record.happiness));
+  care_health := LEAST(10, GREATEST(0, pet_record.health));
+  low_ticks := pet_record.low_health_ticks;
+  zero_ticks := pet_record.zero_health_ticks;
+
+  FOR tick IN 1..elapsed_ticks LOOP
+    tick_time := anchor + tick * interval '1 hour';
+    hunger_modifier := base_hunger;
+    happiness_modifier := base_happiness;
+    health_modifier := base_health;
+    is_sick := false;
+
+    FOR condition_record IN
+      SELECT type FROM pet_conditions
+      WHERE pet_id = p_pet_id
+        AND applied_at <= tick_time
+        AND (duration_hours IS NULL OR applied_at + duration_hours * interval '1 hour' > tick_time)
+      ORDER BY applied_at, id
+    LOOP
+      hunger_modifier := hunger_modifier * CASE condition_record.type
+        WHEN 'cold' THEN 1.2 WHEN 'hot' THEN 0.9 WHEN 'blessed' THEN 0.5 ELSE 1.0 END;
+      happiness_modifier := happiness_modifier * CASE condition_record.type
+        WHEN 'sick' THEN 1.2 WHEN 'cold' THEN 1.1 WHEN 'hot' THEN 1.2 WHEN 'poisoned' THEN 1.1 WHEN 'blessed' THEN 0.5 ELSE 1.0 END;
+      health_modifier := health_modifier * CASE condition_record.type
+        WHEN 'poisoned' THEN 1.5 WHEN 'blessed' THEN 0.5 ELSE 1.0 END;
+      is_sick := is_sick OR condition_record.type = 'sick';
+    END LOOP;
+
+    care_hunger := LEAST(10, GREATEST(0, care_hunger - 0.25 * hunger_modifier));
+
+    happiness_loss := 0.2;
+    IF care_hunger <= 2 THEN
+      happiness_loss := happiness_loss + 0.1;
+    END IF;
+    care_happiness := LEAST(10, GREATEST(0, care_happiness - happiness_loss * happiness_modifier));
+
+    health_loss := 0;
+    IF care_hunger <= 0 THEN
+      health_loss := health_loss + 0.3;
+    END IF;
+    IF care_happiness <= 0 THEN
+      health_loss := health_loss + 0.1;
+    END IF;
+    IF is_sick THEN
+      health_loss := health_loss + 0.1;
+    END IF;
+    care_health := LEAST(10, GREATEST(0, care_health - health_loss * health_modifier));
+
+    low_ticks := CASE WHEN care_health <= 3 THEN low_ticks + 1 ELSE 0 END;
+    zero_ticks := CASE WHEN care_health <= 0 THEN zero_ticks + 1 ELSE 0 END;
+
+    IF NOT is_sick AND low_ticks >= 12 THEN
+      INSERT INTO pet_conditions (pet_id, type, name, description, effects, duration_hours, applied_at, expires_at)
+      VALUES (
+        p_pet_id,
+        'sick',
+        'Doente',
+        'Seu pet ficou doente depois de muito tempo sem cuidados.',
+        '{"attack": -2, "defense": -2, "speed": -2}'::jsonb,
+        24,
+        tick_time,
+        tick_time + interval '24 hours'
+      )
+      ON CONFLICT (pet_id, type, applied_at) DO NOTHING;
+    END IF;
+
+    IF zero_ticks >= 48 THEN
+      UPDATE pets
+      SET hunger = care_hunger,
+          happiness = care_happiness,
+          health = 0,
+          low_health_ticks = low_ticks,
+          zero_health_ticks = zero_ticks,
+          care_updated_at = tick_time,
+          is_alive = false,
+          is_active = false,
+          death_date = tick_time,
+          updated_at = now()
+      WHERE id = p_pet_id;
+      RETURN;
+    END IF;
+  END LOOP;
+
+  UPDATE pets
+  SET hunger = care_hunger,
+      happiness = care_happiness,
+      health = care_health,
+      low_health_ticks = low_ticks,
+      zero_health_ticks = zero_ticks,
+      care_updated_at = anchor + elapsed_ticks * interval '1 hour',
+      updated_at = now()
+  WHERE id = p_pet_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_user_pets_care(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_pet_id uuid;
+BEGIN
+  FOR user_pet_id IN
+    SELECT id FROM pets WHERE owner_id = p_user_id AND is_alive = true
+  LOOP
+    PERFORM refresh_pet_care(user_pet_id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION use_pet_item(
+  p_user_id uuid,
+  p_pet_id uuid,
+  p_inventory_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  pet_record pets%ROWTYPE;
+  inventory_record record;
+  item_effects jsonb;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- Effects apply on top of the care values the pet has right now
+  PERFORM refresh_pet_care(p_pet_id);
+
+  SELECT * INTO pet_record FROM pets WHERE id = p_pet_id FOR UPDATE;
+  IF NOT FOUND OR pet_record.owner_id <> p_user_id THEN
+    RAISE EXCEPTION 'Pet not found';
+  END IF;
+
+  IF NOT pet_record.is_alive THEN
+    RAISE EXCEPTION 'Pet is not alive';
+  END IF;
+
+  SELECT inv.id, inv.quantity, inv.locked_trade_id, i.effects
+  INTO inventory_record
+  FROM inventory inv
+  JOIN items i ON i.id = inv.item_id
+  WHERE inv.id = p_inventory_id
+    AND inv.user_id = p_user_id
+    AND inv.equipped_pet_id IS NULL
+  FOR UPDATE OF inv;
+
+  IF NOT FOUND OR inventory_record.quantity < 1 THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF inventory_record.locked_trade_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Item is locked in a pending trade';
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+  INTO item_effects
+  FROM jsonb_each(COALESCE(inventory_record.effects, '{}'::jsonb))
+  WHERE jsonb_typeof(value) = 'number'
+    AND key IN ('health', 'happiness', 'hunger', 'strength', 'dexterity', 'intelligence',
+                'speed', 'attack', 'defense', 'precision', 'evasion', 'luck');
+
+  IF item_effects = '{}'::jsonb THEN
+    RAISE EXCEPTION 'Item has no effect';
+  END IF;
+
+  UPDATE pets
+  SET hunger = LEAST(10, GREATEST(0, hunger + COALESCE((item_effects->>'hunger')::double precision, 0))),
+      happiness = LEAST(10, GREATEST(0, happiness + COALESCE((item_effects->>'happiness')::double precision, 0))),
+      health = LEAST(10, GREATEST(0, health + COALESCE((item_effects->>'health')::double precision, 0))),
+      strength = GREATEST(0, strength + COALESCE(round((item_effects->>'strength')::numeric)::integer, 0)),
+      dexterity = GREATEST(0, dexterity + COALESCE(round((item_effects->>'dexterity')::numeric)::integer, 0)),
+      intelligence = GREATEST(0, intelligence + COALESCE(round((item_effects->>'intelligence')::numeric)::integer, 0)),
+      speed = GREATEST(0, speed + COALESCE(round((item_effects->>'speed')::numeric)::integer, 0)),
+      attack = GREATEST(0, attack + COALESCE(round((item_effects->>'attack')::numeric)::integer, 0)),
+      defense = GREATEST(0, defense + COALESCE(round((item_effects->>'defense')::numeric)::integer, 0)),
+      precision = GREATEST(0, precision + COALESCE(round((item_effects->>'precision')::numeric)::integer, 0)),
+      evasion = GREATEST(0, evasion + COALESCE(round((item_effects->>'evasion')::numeric)::integer, 0)),
+      luck = GREATEST(0, luck + COALESCE(round((item_effects->>'luck')::numeric)::integer, 0)),
+      last_interaction = now(),
+      updated_at = now()
+  WHERE id = p_pet_id;
+
+  IF inventory_record.quantity > 1 THEN
+    UPDATE inventory
+    SET quantity = quantity - 1,
+        last_used = now()
+    WHERE id = p_inventory_id;
+  ELSE
+    DELETE FROM inventory WHERE id = p_inventory_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refresh_pet_care TO authenticated;
+GRANT EXECUTE ON FUNCTION refresh_user_pets_care TO authenticated;
+GRANT EXECUTE ON FUNCTION use_pet_item TO authenticated;
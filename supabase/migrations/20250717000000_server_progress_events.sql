@@ -0,0 +1,399 @@
+/*
+  # Server Progress Events
+
+  Quest and saga counters were upserted by the client into `user_quests` and
+  `user_saga_progress`, so a player could write any progress and claim the
+  rewards. Counters now only advance inside the database, from the row
+  changes that make up each game event.
+
+  1. New Tables
+    - `user_planet_visits` records the first landing of a player on a planet
+
+  2. Functions
+    - `record_progress_event` advances a set of counters for a player
+    - `record_planet_landing` stores a landing; only the first landing on a
+      planet counts towards `locations_visited` and `planet:<id>`
+    - `use_pet_item` now counts `pet_interactions`, `items_used` and
+      `item_used:<itemId>`
+    - `complete_saga_step` starts the saga itself when no counter has
+      touched it yet, for steps advanced from the UI
+
+  3. Triggers
+    - `pets` inserts count `pets_created`
+    - `inventory` inserts and quantity increases outside a trade lock count
+      `items_acquired` and `item:<itemId>`
+    - completed `purchase_transactions` count `items_purchased` and
+      `purchased:<itemId>`
+    - `user_collectibles` inserts count `collectibles_collected`
+    - `user_checkins` inserts count `daily_checkins`
+
+  4. Security
+    - Players can only read their quest and saga progress
+    - `record_progress_event` is not callable directly
+*/
+
+CREATE TABLE IF NOT EXISTS user_planet_visits (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  planet_id text REFERENCES world_positions(id) ON DELETE CASCADE NOT NULL,
+  visited_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (user_id, planet_id)
+);
+
+ALTER TABLE user_planet_visits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own planet visits"
+  ON user_planet_visits FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage own quest progress" ON user_quests;
+
+CREATE POLICY "Users can read own quest progress"
+  ON user_quests FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage own saga progress" ON user_saga_progress;
+
+CREATE POLICY "Users can read own saga progress"
+  ON user_saga_progress FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON user_quests FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON user_saga_progress FROM anon, authenticated;
+
+-- Advances every counter of an event, e.g. '{"items_acquired": 2, "item:<id>": 2}'
+CREATE OR REPLACE FUNCTION record_progress_event(
+  p_user_id uuid,
+  p_counters jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  counter record;
+BEGIN
+  FOR counter IN SELECT key, value FROM jsonb_each_text(p_counters)
+  LOOP
+    CONTINUE WHEN counter.value::integer <= 0;
+    PERFORM increment_progress_counter(p_user_id, counter.key, counter.value::integer);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_planet_landing(
+  p_user_id uuid,
+  p_planet_id text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM world_positions WHERE id = p_planet_id) THEN
+    RAISE EXCEPTION 'Planet not found';
+  END IF;
+
+  INSERT INTO user_planet_visits (user_id, planet_id)
+  VALUES (p_user_id, p_planet_id)
+  ON CONFLICT (user_id, planet_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM record_progress_event(
+    p_user_id,
+    jsonb_build_object('locations_visited', 1, 'planet:' || p_planet_id, 1)
+  );
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION use_pet_item(
+  p_user_id uuid,
+  p_pet_id uuid,
+  p_inventory_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  pet_record pets%ROWTYPE;
+  inventory_record record;
+  item_effects jsonb;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  -- Effects apply on top of the care values the pet has right now
+  PERFORM refresh_pet_care(p_pet_id);
+
+  SELECT * INTO pet_record FROM pets WHERE id = p_pet_id FOR UPDATE;
+  IF NOT FOUND OR pet_record.owner_id <> p_user_id THEN
+    RAISE EXCEPTION 'Pet not found';
+  END IF;
+
+  IF NOT pet_record.is_alive THEN
+    RAISE EXCEPTION 'Pet is not alive';
+  END IF;
+
+  SELECT inv.id, inv.item_id, inv.quantity, inv.locked_trade_id, i.effects
+  INTO inventory_record
+  FROM inventory inv
+  JOIN items i ON i.id = inv.item_id
+  WHERE inv.id = p_inventory_id
+    AND inv.user_id = p_user_id
+    AND inv.equipped_pet_id IS NULL
+  FOR UPDATE OF inv;
+
+  IF NOT FOUND OR inventory_record.quantity < 1 THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF inventory_record.locked_trade_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Item is locked in a pending trade';
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+  INTO item_effects
+  FROM jsonb_each(COALESCE(inventory_record.effects, '{}'::jsonb))
+  WHERE jsonb_typeof(value) = 'number'
+    AND key IN ('health', 'happiness', 'hunger', 'strength', 'dexterity', 'intelligence',
+                'speed', 'attack', 'defense', 'precision', 'evasion', 'luck');
+
+  IF item_effects = '{}'::jsonb THEN
+    RAISE EXCEPTION 'Item has no effect';
+  END IF;
+
+  UPDATE pets
+  SET hunger = LEAST(10, GREATEST(0, hunger + COALESCE((item_effects->>'hunger')::double precision, 0))),
+      happiness = LEAST(10, GREATEST(0, happiness + COALESCE((item_effects->>'happiness')::double precision, 0))),
+      health = LEAST(10, GREATEST(0, health + COALESCE((item_effects->>'health')::double precision, 0))),
+      strength = GREATEST(0, strength + COALESCE(round((item_effects->>'strength')::numeric)::integer, 0)),
+      dexterity = GREATEST(0, dexterity + COALESCE(round((item_effects->>'dexterity')::numeric)::integer, 0)),
+      intelligence = GREATEST(0, intelligence + COALESCE(round((item_effects->>'intelligence')::numeric)::integer, 0)),
+      speed = GREATEST(0, speed + COALESCE(round((item_effects->>'speed')::numeric)::integer, 0)),
+      attack = GREATEST(0, attack + COALESCE(round((item_effects->>'attack')::numeric)::integer, 0)),
+      defense = GREATEST(0, defense + COALESCE(round((item_effects->>'defense')::numeric)::integer, 0)),
+      precision = GREATEST(0, precision + COALESCE(round((item_effects->>'precision')::numeric)::integer, 0)),
+      evasion = GREATEST(0, evasion + COALESCE(round((item_effects->>'evasion')::numeric)::integer, 0)),
+      luck = GREATEST(0, luck + COALESCE(round((item_effects->>'luck')::numeric)::integer, 0)),
+      last_interaction = now(),
+      updated_at = now()
+  WHERE id = p_pet_id;
+
+  IF inventory_record.quantity > 1 THEN
+    UPDATE inventory
+    SET quantity = quantity - 1,
+        last_used = now()
+    WHERE id = p_inventory_id;
+  ELSE
+    DELETE FROM inventory WHERE id = p_inventory_id;
+  END IF;
+
+  PERFORM record_progress_event(
+    p_user_id,
+    jsonb_build_object(
+      'pet_interactions', 1,
+      'items_used', 1,
+      'item_used:' || inventory_record.item_id, 1
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_saga_step(
+  p_user_id uuid,
+  p_saga_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  saga_record sagas%ROWTYPE;
+  step_record saga_steps%ROWTYPE;
+  progress_record user_saga_progress%ROWTYPE;
+  saga_completed boolean;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO saga_record FROM sagas WHERE id = p_saga_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saga not found: %', p_saga_id;
+  END IF;
+
+  INSERT INTO user_saga_progress (user_id, saga_id, is_active, started_at)
+  VALUES (p_user_id, p_saga_id, true, now())
+  ON CONFLICT (user_id, saga_id) DO NOTHING;
+
+  SELECT * INTO progress_record
+  FROM user_saga_progress
+  WHERE user_id = p_user_id AND saga_id = p_saga_id
+  FOR UPDATE;
+
+  IF progress_record.is_completed THEN
+    RAISE EXCEPTION 'Saga already completed';
+  END IF;
+
+  SELECT * INTO step_record
+  FROM saga_steps
+  WHERE saga_id = p_saga_id AND step_number = progress_record.current_step + 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saga step not found';
+  END IF;
+
+  IF NOT progress_meets_requirements(step_record.requirements, progress_record.flags->'stepProgress') THEN
+    RAISE EXCEPTION 'Saga step requirements not met';
+  END IF;
+
+  saga_completed := progress_record.current_step + 1 >= saga_record.total_steps;
+
+  UPDATE user_saga_progress
+  SET current_step = current_step + 1,
+      flags = COALESCE(flags, '{}'::jsonb) - 'stepProgress',
+      is_active = NOT saga_completed,
+      is_completed = saga_completed,
+      completed_at = CASE WHEN saga_completed THEN now() ELSE NULL END
+  WHERE id = progress_record.id;
+
+  PERFORM grant_progression_rewards(p_user_id, step_record.rewards, 'saga_step_completed');
+
+  IF saga_completed THEN
+    PERFORM grant_progression_rewards(p_user_id, saga_record.rewards, 'saga_completed');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'stepNumber', step_record.step_number,
+    'sagaCompleted', saga_completed
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION track_pet_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM record_progress_event(NEW.owner_id, jsonb_build_object('pets_created', 1));
+  RETURN NEW;
+END;
+$$;
+
+-- Rows moving in and out of a trade lock are escrow, not acquisitions
+CREATE OR REPLACE FUNCTION track_inventory_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  gained integer;
+BEGIN
+  IF NEW.locked_trade_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    gained := NEW.quantity;
+  ELSIF OLD.user_id = NEW.user_id AND OLD.locked_trade_id IS NULL THEN
+    gained := NEW.quantity - OLD.quantity;
+  ELSE
+    gained := 0;
+  END IF;
+
+  IF gained > 0 THEN
+    PERFORM record_progress_event(
+      NEW.user_id,
+      jsonb_build_object('items_acquired', gained, 'item:' || NEW.item_id, gained)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION track_purchase_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.result IS NULL AND NEW.result IS NOT NULL THEN
+    PERFORM record_progress_event(
+      NEW.user_id,
+      jsonb_build_object(
+        'items_purchased', NEW.quantity,
+        'purchased:' || (NEW.result->>'itemId'), NEW.quantity
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION track_collectible_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM record_progress_event(NEW.user_id, jsonb_build_object('collectibles_collected', 1));
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION track_checkin_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM record_progress_event(NEW.user_id, jsonb_build_object('daily_checkins', 1));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pets_track_progress ON pets;
+CREATE TRIGGER pets_track_progress
+  AFTER INSERT ON pets
+  FOR EACH ROW EXECUTE FUNCTION track_pet_progress();
+
+DROP TRIGGER IF EXISTS inventory_track_progress ON inventory;
+CREATE TRIGGER inventory_track_progress
+  AFTER INSERT OR UPDATE OF quantity ON inventory
+  FOR EACH ROW EXECUTE FUNCTION track_inventory_progress();
+
+DROP TRIGGER IF EXISTS purchase_transactions_track_progress ON purchase_transactions;
+CREATE TRIGGER purchase_transactions_track_progress
+  AFTER UPDATE OF result ON purchase_transactions
+  FOR EACH ROW EXECUTE FUNCTION track_purchase_progress();
+
+DROP TRIGGER IF EXISTS user_collectibles_track_progress ON user_collectibles;
+CREATE TRIGGER user_collectibles_track_progress
+  AFTER INSERT ON user_collectibles
+  FOR EACH ROW EXECUTE FUNCTION track_collectible_progress();
+
+DROP TRIGGER IF EXISTS user_checkins_track_progress ON user_checkins;
+CREATE TRIGGER user_checkins_track_progress
+  AFTER INSERT ON user_checkins
+  FOR EACH ROW EXECUTE FUNCTION track_checkin_progress();
+
+GRANT EXECUTE ON FUNCTION record_planet_landing TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION record_progress_event FROM PUBLIC;
@@ -0,0 +1,103 @@
+/*
+  # Server Achievement Progress
+
+  `user_achievements.progress` was upserted by the client, so a player could
+  write any progress and unlock every achievement. Progress is now computed
+  in the database only.
+
+  1. Functions
+    - `record_progress_event` also advances achievement counters, so every
+      game event that feeds quests feeds achievements too
+    - `refresh_achievement_gauges` recomputes the achievements that read the
+      player's state instead of counting events:
+      - `total_xenocoins`: the current xenocoin balance
+      - `unique_items`: distinct items in the inventory
+      - `max_happiness`: 1 once a living pet is fully happy
+      Gauges are scaled onto `max_progress` and never lower the progress
+
+  2. Security
+    - Players can only read their achievement progress
+*/
+
+DROP POLICY IF EXISTS "Users can manage own achievements" ON user_achievements;
+
+CREATE POLICY "Users can read own achievements"
+  ON user_achievements FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON user_achievements FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_progress_event(
+  p_user_id uuid,
+  p_counters jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  counter record;
+BEGIN
+  FOR counter IN SELECT key, value FROM jsonb_each_text(p_counters)
+  LOOP
+    CONTINUE WHEN counter.value::integer <= 0;
+    PERFORM increment_progress_counter(p_user_id, counter.key, counter.value::integer);
+    PERFORM increment_achievement_counter(p_user_id, counter.key, counter.value::integer);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_achievement_gauges(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  gauges jsonb;
+  achievement_record achievements%ROWTYPE;
+  gauge_key text;
+  target numeric;
+  gauge_progress integer;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'total_xenocoins', COALESCE((SELECT xenocoins FROM profiles WHERE id = p_user_id), 0),
+    'unique_items', (SELECT COUNT(DISTINCT item_id) FROM inventory WHERE user_id = p_user_id),
+    'max_happiness', CASE WHEN EXISTS (
+      SELECT 1 FROM pets
+      WHERE owner_id = p_user_id AND is_alive = true AND happiness >= 10
+    ) THEN 1 ELSE 0 END
+  ) INTO gauges;
+
+  FOR achievement_record IN
+    SELECT * FROM achievements WHERE is_active = true
+  LOOP
+    SELECT key INTO gauge_key
+    FROM jsonb_object_keys(gauges) AS key
+    WHERE jsonb_typeof(achievement_record.requirements->key) = 'number'
+      AND (achievement_record.requirements->>key)::numeric > 0
+    LIMIT 1;
+
+    CONTINUE WHEN gauge_key IS NULL;
+
+    target := (achievement_record.requirements->>gauge_key)::numeric;
+    gauge_progress := floor(
+      LEAST((gauges->>gauge_key)::numeric, target) / target * achievement_record.max_progress
+    );
+
+    CONTINUE WHEN gauge_progress <= 0;
+
+    INSERT INTO user_achievements (user_id, achievement_id, progress)
+    VALUES (p_user_id, achievement_record.id, gauge_progress)
+    ON CONFLICT (user_id, achievement_id) DO UPDATE
+    SET progress = GREATEST(COALESCE(user_achievements.progress, 0), EXCLUDED.progress)
+    WHERE NOT user_achievements.is_unlocked;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION refresh_achievement_gauges TO authenticated;
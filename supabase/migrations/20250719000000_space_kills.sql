@@ -0,0 +1,170 @@
+/*
+  # Space Kills
+
+  Loot from asteroids and creatures on the space map was added to the
+  inventory by the client, once per destroyed entity as the client counted
+  them, and a reload spawned every region again with its loot.
+
+  1. New Tables
+    - `space_kills` records each entity a player destroyed, keyed by its
+      region, respawn cycle and index within the region
+      (`<region>:<cycle>:<index>`, see `utils/spaceEncounters.ts`)
+
+  2. Functions
+    - `space_region_cycle` is the respawn cycle of a region at a given time,
+      the same value the client computes
+    - `record_space_kill` records a kill and grants its loot:
+      - the region must exist, the cycle must be the current or the one that
+        just ended, and the index must fit in a region
+      - an entity can only be killed, and looted, once per cycle
+      - the loot must come from the space loot tables: gems become
+        collectibles, items go into the inventory
+
+  3. Security
+    - Players can only read their own kills; kills are only written by
+      `record_space_kill`
+*/
+
+CREATE TABLE IF NOT EXISTS space_kills (
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  region integer NOT NULL,
+  cycle bigint NOT NULL,
+  entity_index integer NOT NULL,
+  loot jsonb,
+  created_at timestamptz DEFAULT now(),
+
+  PRIMARY KEY (user_id, region, cycle, entity_index)
+);
+
+CREATE INDEX IF NOT EXISTS space_kills_user_created_idx
+  ON space_kills (user_id, created_at DESC);
+
+ALTER TABLE space_kills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own space kills"
+  ON space_kills FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Mirrors getRegionCycle: regions turn over every 5 minutes, offset by an
+-- FNV-1a hash of 'region:<region>'
+CREATE OR REPLACE FUNCTION space_region_cycle(p_region integer, p_at timestamptz)
+RETURNS bigint
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  respawn_ms constant bigint := 300000;
+  seed text := 'region:' || p_region;
+  hash bigint := 2166136261;
+BEGIN
+  FOR i IN 1..length(seed) LOOP
+    hash := ((hash # ascii(substr(seed, i, 1))) * 16777619) % 4294967296;
+  END LOOP;
+
+  RETURN floor(
+    (floor(extract(epoch FROM p_at) * 1000)::bigint + hash % respawn_ms) / respawn_ms::numeric
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_space_kill(
+  p_user_id uuid,
+  p_entity_id text,
+  p_loot jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- A 15000 wide world in 2500 wide regions; at most 10 asteroids and 3 creatures each
+  region_count constant integer := 36;
+  max_region_entities constant integer := 13;
+  id_parts text[];
+  kill_region integer;
+  kill_cycle bigint;
+  kill_index integer;
+  current_cycle bigint;
+  loot_type text := p_loot->>'type';
+  loot_name text := p_loot->>'name';
+  loot_id uuid;
+  existing_stack_id uuid;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_entity_id IS NULL OR p_entity_id !~ '^\d{1,9}:\d{1,15}:\d{1,9}$' THEN
+    RAISE EXCEPTION 'Invalid space entity';
+  END IF;
+
+  id_parts := string_to_array(p_entity_id, ':');
+  kill_region := id_parts[1]::integer;
+  kill_cycle := id_parts[2]::bigint;
+  kill_index := id_parts[3]::integer;
+
+  IF kill_region >= region_count OR kill_index >= max_region_entities THEN
+    RAISE EXCEPTION 'Invalid space entity';
+  END IF;
+
+  current_cycle := space_region_cycle(kill_region, now());
+  IF kill_cycle NOT IN (current_cycle, current_cycle - 1) THEN
+    RAISE EXCEPTION 'Region has respawned';
+  END IF;
+
+  IF p_loot IS NOT NULL AND NOT (
+    (loot_type = 'gem' AND loot_name IN ('Cristal Estelar', 'Rubi Nebular', 'Safira do Vazio', 'Diamante Cósmico'))
+    OR (loot_type = 'item' AND loot_name IN ('Desert Crystal', 'Energy Drink'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid space loot';
+  END IF;
+
+  INSERT INTO space_kills (user_id, region, cycle, entity_index, loot)
+  VALUES (p_user_id, kill_region, kill_cycle, kill_index, p_loot)
+  ON CONFLICT (user_id, region, cycle, entity_index) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entity already destroyed';
+  END IF;
+
+  IF p_loot IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF loot_type = 'gem' THEN
+    SELECT id INTO loot_id FROM collectibles WHERE name = loot_name AND type = 'gem' LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Collectible not found';
+    END IF;
+
+    INSERT INTO user_collectibles (user_id, collectible_id)
+    VALUES (p_user_id, loot_id)
+    ON CONFLICT (user_id, collectible_id) DO NOTHING;
+  ELSE
+    SELECT id INTO loot_id FROM items WHERE name = loot_name ORDER BY created_at LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+
+    SELECT id INTO existing_stack_id
+    FROM inventory
+    WHERE user_id = p_user_id
+      AND item_id = loot_id
+      AND equipped_pet_id IS NULL
+      AND locked_trade_id IS NULL
+    LIMIT 1;
+
+    IF existing_stack_id IS NOT NULL THEN
+      UPDATE inventory SET quantity = quantity + 1 WHERE id = existing_stack_id;
+    ELSE
+      INSERT INTO inventory (user_id, item_id, quantity)
+      VALUES (p_user_id, loot_id, 1);
+    END IF;
+  END IF;
+
+  RETURN p_loot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_space_kill TO authenticated;
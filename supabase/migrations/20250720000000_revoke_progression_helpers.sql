@@ -0,0 +1,18 @@
+/*
+  # Revoke Progression Helpers
+
+  `grant_progression_rewards`, `increment_progress_counter` and
+  `record_progress_event` were only revoked from PUBLIC, but Supabase grants
+  EXECUTE on public functions to `anon` and `authenticated` directly. Any
+  player could call them through `rpc` to pay themselves rewards or advance
+  their own counters.
+
+  1. Security
+    - The three helpers can no longer be called by clients; they only run
+      inside `complete_quest`, `complete_saga_step`, `unlock_achievement` and
+      the progress triggers
+*/
+
+REVOKE EXECUTE ON FUNCTION grant_progression_rewards FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_progress_counter FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_progress_event FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,200 @@
+/*
+  # Server-Derived Space Loot
+
+  `record_space_kill` granted whatever loot the client sent, as long as it
+  was on the loot tables, and accepted any index below the largest region
+  size, so a client could claim a gem from every entity slot of every
+  region.
+
+  1. Changes
+    - Each region rolls its entity counts and every entity's loot at the
+      start of its seeded sequence (`space:<region>:<cycle>`), ahead of
+      placement, which depends on the planets (`getRegionContents` in
+      `src/utils/spaceEncounters.ts`)
+
+  2. Functions
+    - `space_region_contents` ports that roll with the mulberry32 helpers
+      from the duel engine (`duel_seed`, `duel_random`)
+    - `record_space_kill` no longer takes the loot: it checks the index
+      against the region's contents, grants the entity's own loot and
+      returns it
+
+  3. Security
+    - `space_region_contents` is only called by `record_space_kill`
+*/
+
+-- Mirrors getRegionContents: the kind and loot of each entity of a region in
+-- one cycle, by index
+CREATE OR REPLACE FUNCTION space_region_contents(p_region integer, p_cycle bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  gem_names constant text[] := ARRAY['Cristal Estelar', 'Rubi Nebular', 'Safira do Vazio', 'Diamante Cósmico'];
+  gem_weights constant integer[] := ARRAY[60, 28, 10, 2];
+  rng_state bigint := duel_seed('space:' || p_region || ':' || p_cycle);
+  roll float8;
+  asteroids integer;
+  creatures integer;
+  entity_kind text;
+  gem_chance float8;
+  item_chance float8;
+  loot_item text;
+  loot jsonb;
+  gem_name text;
+  contents jsonb := '[]'::jsonb;
+BEGIN
+  -- 5 to 10 asteroids, then 1 to 3 creatures
+  SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+  asteroids := floor(5 + roll * 6);
+  SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+  creatures := floor(1 + roll * 3);
+
+  FOR i IN 1..asteroids + creatures LOOP
+    IF i <= asteroids THEN
+      entity_kind := 'asteroid';
+      gem_chance := 0.08;
+      item_chance := 0.12;
+      loot_item := 'Desert Crystal';
+    ELSE
+      entity_kind := 'creature';
+      gem_chance := 0.35;
+      item_chance := 0.25;
+      loot_item := 'Energy Drink';
+    END IF;
+
+    loot := NULL;
+    SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+    IF roll < gem_chance THEN
+      SELECT * INTO rng_state, roll FROM duel_random(rng_state);
+      roll := roll * 100;
+      gem_name := gem_names[1];
+      FOR g IN 1..array_length(gem_names, 1) LOOP
+        roll := roll - gem_weights[g];
+        IF roll < 0 THEN
+          gem_name := gem_names[g];
+          EXIT;
+        END IF;
+      END LOOP;
+      loot := jsonb_build_object('type', 'gem', 'name', gem_name);
+    ELSIF roll < gem_chance + item_chance THEN
+      loot := jsonb_build_object('type', 'item', 'name', loot_item);
+    END IF;
+
+    contents := contents || jsonb_build_array(
+      jsonb_build_object('kind', entity_kind, 'loot', loot)
+    );
+  END LOOP;
+
+  RETURN contents;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS record_space_kill(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION record_space_kill(
+  p_user_id uuid,
+  p_entity_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  -- A 15000 wide world in 2500 wide regions
+  region_count constant integer := 36;
+  id_parts text[];
+  kill_region integer;
+  kill_cycle bigint;
+  kill_index integer;
+  current_cycle bigint;
+  contents jsonb;
+  kill_loot jsonb;
+  loot_name text;
+  loot_id uuid;
+  existing_stack_id uuid;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_entity_id IS NULL OR p_entity_id !~ '^\d{1,9}:\d{1,15}:\d{1,9}$' THEN
+    RAISE EXCEPTION 'Invalid space entity';
+  END IF;
+
+  id_parts := string_to_array(p_entity_id, ':');
+  kill_region := id_parts[1]::integer;
+  kill_cycle := id_parts[2]::bigint;
+  kill_index := id_parts[3]::integer;
+
+  IF kill_region >= region_count THEN
+    RAISE EXCEPTION 'Invalid space entity';
+  END IF;
+
+  current_cycle := space_region_cycle(kill_region, now());
+  IF kill_cycle NOT IN (current_cycle, current_cycle - 1) THEN
+    RAISE EXCEPTION 'Region has respawned';
+  END IF;
+
+  contents := space_region_contents(kill_region, kill_cycle);
+  IF kill_index >= jsonb_array_length(contents) THEN
+    RAISE EXCEPTION 'Invalid space entity';
+  END IF;
+
+  kill_loot := contents -> kill_index -> 'loot';
+  IF jsonb_typeof(kill_loot) = 'null' THEN
+    kill_loot := NULL;
+  END IF;
+
+  INSERT INTO space_kills (user_id, region, cycle, entity_index, loot)
+  VALUES (p_user_id, kill_region, kill_cycle, kill_index, kill_loot)
+  ON CONFLICT (user_id, region, cycle, entity_index) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entity already destroyed';
+  END IF;
+
+  IF kill_loot IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  loot_name := kill_loot->>'name';
+  IF kill_loot->>'type' = 'gem' THEN
+    SELECT id INTO loot_id FROM collectibles WHERE name = loot_name AND type = 'gem' LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Collectible not found';
+    END IF;
+
+    INSERT INTO user_collectibles (user_id, collectible_id)
+    VALUES (p_user_id, loot_id)
+    ON CONFLICT (user_id, collectible_id) DO NOTHING;
+  ELSE
+    SELECT id INTO loot_id FROM items WHERE name = loot_name ORDER BY created_at LIMIT 1;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+
+    SELECT id INTO existing_stack_id
+    FROM inventory
+    WHERE user_id = p_user_id
+      AND item_id = loot_id
+      AND equipped_pet_id IS NULL
+      AND locked_trade_id IS NULL
+    LIMIT 1;
+
+    IF existing_stack_id IS NOT NULL THEN
+      UPDATE inventory SET quantity = quantity + 1 WHERE id = existing_stack_id;
+    ELSE
+      INSERT INTO inventory (user_id, item_id, quantity)
+      VALUES (p_user_id, loot_id, 1);
+    END IF;
+  END IF;
+
+  RETURN kill_loot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_space_kill TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION space_region_contents FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,18 @@
+/*
+  # Restrict Profile Updates
+
+  Revoking `update_user_currency` did not keep balances server-side: the
+  "Users can update own profile" policy still let a player update every
+  column of their profile, including `xenocoins`, `cash`,
+  `total_xenocoins`, `account_score` and `is_admin`.
+
+  1. Security
+    - Players can only update the profile columns the client writes:
+      `last_login` on sign-in, and `language` and `preferences` from the
+      settings
+    - Balances, scores and the admin flag only change through SECURITY
+      DEFINER functions
+*/
+
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT UPDATE (last_login, language, preferences) ON profiles TO authenticated;
@@ -0,0 +1,132 @@
+/*
+  # Server-Side Inventory Changes
+
+  The trade policies still let owners insert any item into their inventory
+  and raise the quantity of any unlocked stack, and the escrow helpers of
+  the trade functions were only revoked from PUBLIC, so `authenticated`
+  could still move items between players through `transfer_trade_items`.
+
+  1. Functions
+    - `admin_add_inventory_item` lets admins add items to a player's
+      inventory, stacking them on an unequipped, unlocked stack
+    - `discard_inventory_item` removes items from one of the player's own
+      stacks, deleting it once it is empty; equipped stacks and stacks held
+      in a trade are refused
+
+  2. Security
+    - Players can only read their inventory; every change goes through
+      SECURITY DEFINER functions (shop purchases, trades, redeemed codes,
+      pet items, equipment, space loot and the functions above)
+    - `lock_trade_items`, `transfer_trade_items` and `release_trade_escrow`
+      can no longer be called by clients
+*/
+
+DROP POLICY IF EXISTS "Users can add to own inventory" ON inventory;
+DROP POLICY IF EXISTS "Users can update own unlocked inventory" ON inventory;
+DROP POLICY IF EXISTS "Users can delete own unlocked inventory" ON inventory;
+
+REVOKE INSERT, UPDATE, DELETE ON inventory FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION admin_add_inventory_item(
+  p_user_id uuid,
+  p_item_id uuid,
+  p_quantity integer DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  stack record;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin = true) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM items WHERE id = p_item_id) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  UPDATE inventory
+  SET quantity = quantity + p_quantity
+  WHERE id = (
+    SELECT id FROM inventory
+    WHERE user_id = p_user_id
+      AND item_id = p_item_id
+      AND equipped_pet_id IS NULL
+      AND locked_trade_id IS NULL
+    LIMIT 1
+  )
+  RETURNING id, item_id, quantity INTO stack;
+
+  IF NOT FOUND THEN
+    INSERT INTO inventory (user_id, item_id, quantity)
+    VALUES (p_user_id, p_item_id, p_quantity)
+    RETURNING id, item_id, quantity INTO stack;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', stack.id,
+    'item_id', stack.item_id,
+    'quantity', stack.quantity
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION discard_inventory_item(
+  p_user_id uuid,
+  p_inventory_id uuid,
+  p_quantity integer DEFAULT 1
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  stack inventory%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> p_user_id THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity';
+  END IF;
+
+  SELECT * INTO stack
+  FROM inventory
+  WHERE id = p_inventory_id
+    AND user_id = p_user_id
+    AND equipped_pet_id IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found in inventory';
+  END IF;
+
+  IF stack.locked_trade_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Item is locked in a pending trade';
+  END IF;
+
+  IF stack.quantity > p_quantity THEN
+    UPDATE inventory
+    SET quantity = quantity - p_quantity, last_used = now()
+    WHERE id = stack.id;
+  ELSE
+    DELETE FROM inventory WHERE id = stack.id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_add_inventory_item TO authenticated;
+GRANT EXECUTE ON FUNCTION discard_inventory_item TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION lock_trade_items FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION transfer_trade_items FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_trade_escrow FROM PUBLIC, anon, authenticated;
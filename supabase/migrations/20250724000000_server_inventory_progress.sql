@@ -0,0 +1,53 @@
+/*
+  # Server-Side Inventory Progress
+
+  `track_inventory_progress` counted every inventory insert and quantity
+  increase as an acquisition, while the inventory owner policies still let
+  clients insert stacks and raise their quantity. The progress events
+  header claimed counters only advanced inside the database, but a player
+  could advance `items_acquired` and `item:<itemId>` with plain table writes.
+
+  1. Changes
+    - `track_inventory_progress` runs as the caller and ignores changes
+      made by the `anon` and `authenticated` roles, so only the SECURITY
+      DEFINER flows that grant items (shop purchases, trades, redeemed codes,
+      space loot and `admin_add_inventory_item`) count. Client writes to
+      `inventory` are also revoked (see `server_inventory_changes`)
+*/
+
+-- Rows moving in and out of a trade lock are escrow, not acquisitions
+CREATE OR REPLACE FUNCTION track_inventory_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  gained integer;
+BEGIN
+  -- Inside a SECURITY DEFINER function the current user is its owner
+  IF current_user IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.locked_trade_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    gained := NEW.quantity;
+  ELSIF OLD.user_id = NEW.user_id AND OLD.locked_trade_id IS NULL THEN
+    gained := NEW.quantity - OLD.quantity;
+  ELSE
+    gained := 0;
+  END IF;
+
+  IF gained > 0 THEN
+    PERFORM record_progress_event(
+      NEW.user_id,
+      jsonb_build_object('items_acquired', gained, 'item:' || NEW.item_id, gained)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,14 @@
+/*
+  # Revoke Achievement Counter
+
+  `increment_achievement_counter` was only revoked from PUBLIC, but
+  Supabase grants EXECUTE on public functions to `anon` and `authenticated`
+  directly. Any player could call it through `rpc` to advance, and unlock,
+  their own achievements.
+
+  1. Security
+    - The counter can no longer be called by clients; it only runs inside
+      `record_progress_event` and the duel progress trigger
+*/
+
+REVOKE EXECUTE ON FUNCTION increment_achievement_counter FROM PUBLIC, anon, authenticated;
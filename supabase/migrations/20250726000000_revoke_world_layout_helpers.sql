@@ -0,0 +1,16 @@
+/*
+  # Revoke World Layout Helpers
+
+  `apply_world_layout` and `record_world_layout` were only revoked from
+  PUBLIC, but Supabase grants EXECUTE on public functions to `anon` and
+  `authenticated` directly. Neither checks for an admin, so any player could
+  move planets or record a layout version through `rpc`.
+
+  1. Security
+    - The helpers can no longer be called by clients; they only run inside
+      `save_world_layout` and `rollback_world_layout`, which check for an
+      admin
+*/
+
+REVOKE EXECUTE ON FUNCTION apply_world_layout FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_world_layout FROM PUBLIC, anon, authenticated;
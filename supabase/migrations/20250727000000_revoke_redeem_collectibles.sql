@@ -0,0 +1,14 @@
+/*
+  # Revoke Redeem Collectibles Helper
+
+  `redeem_code_with_collectibles` was only revoked from PUBLIC, but
+  Supabase grants EXECUTE on public functions to `anon` and `authenticated`
+  directly. Any player could call it through `rpc` to add any collectible to
+  any collection without redeeming a code.
+
+  1. Security
+    - The helper can no longer be called by clients; it only runs inside
+      `redeem_code`
+*/
+
+REVOKE EXECUTE ON FUNCTION redeem_code_with_collectibles FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,15 @@
+/*
+  # Revoke Check-in Grace Helper
+
+  `checkin_grace_available` was only revoked from PUBLIC, but Supabase
+  grants EXECUTE on public functions to `anon` and `authenticated` directly.
+  As a SECURITY DEFINER function it let any client look up whether another
+  player used their streak grace day.
+
+  1. Security
+    - The helper can no longer be called by clients; it only runs inside
+      `daily_checkin` and `get_checkin_status`, which report a player's own
+      grace day
+*/
+
+REVOKE EXECUTE ON FUNCTION checkin_grace_available FROM PUBLIC, anon, authenticated;
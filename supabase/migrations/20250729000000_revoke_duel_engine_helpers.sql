@@ -0,0 +1,15 @@
+/*
+  # Revoke Duel Engine Helpers
+
+  `duel_combat_stats` and `resolve_duel` were only revoked from PUBLIC, but
+  Supabase grants EXECUTE on public functions to `anon` and `authenticated`
+  directly, so any player could call these internals of `complete_duel`
+  through `rpc`.
+
+  1. Security
+    - The helpers can no longer be called by clients; they only run inside
+      `complete_duel`
+*/
+
+REVOKE EXECUTE ON FUNCTION duel_combat_stats FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_duel FROM PUBLIC, anon, authenticated;